@@ -285,9 +285,9 @@ describe('Agent E2E Pipeline', () => {
   });
 
   describe('full tool registry integration', () => {
-    it('should create default registry with all 13 tools', () => {
+    it('should create default registry with all 15 tools', () => {
       const registry = ToolRegistry.createDefault();
-      expect(registry.size).toBe(13);
+      expect(registry.size).toBe(15);
       expect(registry.names()).toContain('bash');
       expect(registry.names()).toContain('file_read');
       expect(registry.names()).toContain('file_write');
@@ -298,6 +298,8 @@ describe('Agent E2E Pipeline', () => {
       expect(registry.names()).toContain('web_search');
       expect(registry.names()).toContain('memory_store');
       expect(registry.names()).toContain('memory_recall');
+      expect(registry.names()).toContain('memory_ingest');
+      expect(registry.names()).toContain('memory_fact');
       expect(registry.names()).toContain('delegate');
       expect(registry.names()).toContain('browser');
       expect(registry.names()).toContain('mesh');
@@ -307,7 +309,7 @@ describe('Agent E2E Pipeline', () => {
       const registry = ToolRegistry.createDefault({
         exclude: ['bash', 'file_write', 'file_edit', 'delegate'],
       });
-      expect(registry.size).toBe(9);
+      expect(registry.size).toBe(11);
       expect(registry.names()).not.toContain('bash');
       expect(registry.names()).not.toContain('file_write');
       expect(registry.names()).not.toContain('file_edit');
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Ch4pConfig, IChannel, InboundMessage } from '@ch4p/core';
+import { buildMessageContent, resolveAttachmentOpts, type AttachmentOpts } from './attachments.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+const opts: AttachmentOpts = { vision: true, maxBytes: 1024, maxTextChars: 10_000 };
+
+function makeMsg(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    id: 'm1',
+    channelId: 'telegram',
+    from: { channelId: 'telegram', userId: 'u1' },
+    text: 'What is this?',
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function makeChannel(fetchAttachment?: IChannel['fetchAttachment']): IChannel {
+  return { id: 'telegram', name: 'Telegram', fetchAttachment } as unknown as IChannel;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildMessageContent', () => {
+  it('returns the plain text when there are no attachments', async () => {
+    expect(await buildMessageContent(makeMsg(), makeChannel(), opts)).toBe('What is this?');
+  });
+
+  it('adds images as data URL blocks when vision is enabled', async () => {
+    const fetchAttachment = vi.fn().mockResolvedValue(PNG);
+    const msg = makeMsg({ attachments: [{ type: 'image', url: 'file-id-1', mimeType: 'image/jpeg' }] });
+
+    const content = await buildMessageContent(msg, makeChannel(fetchAttachment), opts);
+
+    expect(fetchAttachment).toHaveBeenCalledWith(msg.attachments![0], 1024);
+    expect(content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', imageUrl: `data:image/png;base64,${PNG.toString('base64')}` },
+    ]);
+  });
+
+  it('notes images instead of fetching them when vision is off', async () => {
+    const fetchAttachment = vi.fn();
+    const msg = makeMsg({ text: '', attachments: [{ type: 'image', url: 'x', filename: 'cat.jpg' }] });
+
+    const content = await buildMessageContent(msg, makeChannel(fetchAttachment), { ...opts, vision: false });
+
+    expect(fetchAttachment).not.toHaveBeenCalled();
+    expect(content).toBe("[Attachment: cat.jpg (image) — this model can't view images]");
+  });
+
+  it('extracts documents into labelled text blocks within the text limit', async () => {
+    const doc = Buffer.from('# Notes\n\n' + 'alpha '.repeat(30));
+    const msg = makeMsg({
+      attachments: [
+        { type: 'file', data: doc, filename: 'notes.md' },
+        { type: 'file', data: Buffer.from('second'), filename: 'more.txt' },
+      ],
+    });
+
+    const content = await buildMessageContent(msg, makeChannel(), { ...opts, maxTextChars: 50 });
+
+    expect(content).toHaveLength(2);
+    const [text, block] = content as Array<{ type: string; text: string }>;
+    expect(text!.text).toContain('[Attachment: more.txt — omitted, attachment text limit reached]');
+    expect(block!.text.startsWith('[Attachment: notes.md]\n# Notes')).toBe(true);
+    expect(block!.text.endsWith('[truncated]')).toBe(true);
+  });
+
+  it('gives up on a channel download that stalls', async () => {
+    const fetchAttachment = vi.fn(() => new Promise<Buffer>(() => {}));
+    const msg = makeMsg({ text: '', attachments: [{ type: 'file', url: 'file-id-1', filename: 'r.pdf' }] });
+
+    const content = await buildMessageContent(msg, makeChannel(fetchAttachment), { ...opts, fetchTimeoutMs: 50 });
+
+    expect(content).toBe('[Attachment: r.pdf — could not be downloaded: timed out after 1s]');
+  });
+
+  it('downloads http(s) URLs when the channel has no fetcher', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('report body'));
+    vi.stubGlobal('fetch', fetchMock);
+    const msg = makeMsg({ text: '', attachments: [{ type: 'file', url: 'https://cdn.example.com/r.txt', filename: 'r.txt' }] });
+
+    const content = await buildMessageContent(msg, makeChannel(), opts);
+
+    expect(fetchMock.mock.calls[0]![0]).toBe('https://cdn.example.com/r.txt');
+    expect(content).toEqual([{ type: 'text', text: '[Attachment: r.txt]\nreport body' }]);
+  });
+
+  it('reports oversized, failed and unsupported attachments', async () => {
+    const msg = makeMsg({
+      attachments: [
+        { type: 'file', data: Buffer.alloc(2048), filename: 'big.bin' },
+        { type: 'file', url: 'mxc://x/y', filename: 'gone.pdf' },
+        { type: 'file', data: Buffer.from('PK'), filename: 'deck.pptx' },
+        { type: 'video', url: 'https://x/v.mp4' },
+        { type: 'audio', url: 'https://x/a.ogg' },
+      ],
+    });
+    const channel = makeChannel(vi.fn().mockRejectedValue(new Error('HTTP 404')));
+
+    const content = await buildMessageContent(msg, channel, opts);
+
+    expect(content).toBe([
+      'What is this?',
+      '[Attachment: big.bin — could not be downloaded: larger than 1024 bytes]',
+      '[Attachment: gone.pdf — could not be downloaded: HTTP 404]',
+      '[Attachment: deck.pptx (file) — unsupported file type]',
+      '[Attachment: video (video) — not viewable]',
+    ].join('\n'));
+  });
+});
+
+describe('resolveAttachmentOpts', () => {
+  const config = {
+    agent: { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    providers: { anthropic: { apiKey: 'sk-test' } },
+  } as unknown as Ch4pConfig;
+
+  it('uses the model vision capability on the native engine', async () => {
+    expect((await resolveAttachmentOpts(config, 'native'))!.vision).toBe(true);
+    expect((await resolveAttachmentOpts(config, 'claude-cli'))!.vision).toBe(false);
+  });
+
+  it('honours config overrides', async () => {
+    const disabled = await resolveAttachmentOpts({ ...config, attachments: { enabled: false } }, 'native');
+    expect(disabled).toBeNull();
+
+    const custom = await resolveAttachmentOpts(
+      { ...config, agent: { ...config.agent, model: 'unlisted' }, attachments: { vision: true, maxBytes: 2048 } },
+      'native',
+    );
+    expect(custom).toEqual({ vision: true, maxBytes: 2048, maxTextChars: 50_000 });
+  });
+});
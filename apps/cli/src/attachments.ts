@@ -0,0 +1,219 @@
+/**
+ * attachments.ts — Turn inbound channel attachments into model input.
+ *
+ * Images become image content blocks when the model accepts them; PDFs,
+ * HTML and text files are extracted and added as labelled text blocks.
+ * Audio is left to the VoiceProcessor. Anything else (video, archives,
+ * office documents) is mentioned by name so the agent knows it was sent.
+ *
+ * Bytes come from the attachment itself, then the channel's
+ * fetchAttachment(), then a plain download for http(s) URLs — always
+ * capped at `maxBytes` and given up on after `fetchTimeoutMs`.
+ */
+
+import type { Attachment, Ch4pConfig, ContentBlock, IChannel, InboundMessage } from '@ch4p/core';
+import { readResponseBody } from '@ch4p/core';
+import { chunkMarkdown, extractText } from '@ch4p/memory';
+import { ProviderRegistry } from '@ch4p/providers';
+
+// ---------------------------------------------------------------------------
+// Types & defaults
+// ---------------------------------------------------------------------------
+
+export interface AttachmentOpts {
+  /** Send images to the model as image blocks. */
+  vision: boolean;
+  /** Largest attachment downloaded, in bytes. */
+  maxBytes: number;
+  /** Most characters of extracted text added across all documents. */
+  maxTextChars: number;
+  /** Download timeout, for channel downloads and http(s) URLs alike. Default: 30s. */
+  fetchTimeoutMs?: number;
+}
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_ATTACHMENT_MAX_TEXT_CHARS = 50_000;
+
+const DEFAULT_FETCH_TIMEOUT_MS = 30_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Size of each text block a document is split into. */
+const DOCUMENT_CHUNK_CHARS = 8_000;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve attachment handling from config. Returns null when attachments
+ * are disabled. Images go to the model when `attachments.vision` says so,
+ * or else when the model supports vision. Subprocess engines only take
+ * text, so they never get images.
+ */
+export async function resolveAttachmentOpts(config: Ch4pConfig, engineId: string): Promise<AttachmentOpts | null> {
+  const cfg = config.attachments;
+  if (cfg?.enabled === false) return null;
+  return {
+    vision: engineId === 'native' && (cfg?.vision ?? await modelSupportsVision(config)),
+    maxBytes: cfg?.maxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES,
+    maxTextChars: cfg?.maxTextChars ?? DEFAULT_ATTACHMENT_MAX_TEXT_CHARS,
+  };
+}
+
+/**
+ * Whether the configured model accepts images, from the provider's model
+ * list. Unknown models count as text-only.
+ */
+export async function modelSupportsVision(config: Ch4pConfig): Promise<boolean> {
+  const providerName = config.agent.provider;
+  const providerConfig = config.providers?.[providerName] as Record<string, unknown> | undefined;
+  try {
+    const provider = ProviderRegistry.createProvider({
+      id: `${providerName}-models`,
+      type: providerName,
+      ...providerConfig,
+    });
+    // Some providers list models over the network; don't hold up startup.
+    const models = await Promise.race([
+      provider.listModels(),
+      new Promise<[]>((resolve) => setTimeout(() => resolve([]), 5_000).unref()),
+    ]);
+    return models.find((m) => m.id === config.agent.model)?.supportsVision ?? false;
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Message content
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the agent's initial message for an inbound message. Returns the
+ * plain text when there is nothing to attach.
+ */
+export async function buildMessageContent(
+  msg: InboundMessage,
+  channel: IChannel,
+  opts: AttachmentOpts,
+): Promise<string | ContentBlock[]> {
+  const attachments = (msg.attachments ?? []).filter((a) => a.type !== 'audio');
+  if (attachments.length === 0) return msg.text;
+
+  const blocks: ContentBlock[] = [];
+  const notes: string[] = [];
+  let textBudget = opts.maxTextChars;
+
+  for (const attachment of attachments) {
+    const name = attachment.filename ?? attachment.type;
+
+    if (attachment.type === 'video') {
+      notes.push(`[Attachment: ${name} (video) — not viewable]`);
+      continue;
+    }
+    const isImage = attachment.type === 'image' || attachment.mimeType?.startsWith('image/') === true;
+    if (isImage && !opts.vision) {
+      notes.push(`[Attachment: ${name} (image) — this model can't view images]`);
+      continue;
+    }
+
+    let data: Buffer;
+    try {
+      data = await loadAttachment(attachment, channel, opts);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      notes.push(`[Attachment: ${name} — could not be downloaded: ${reason}]`);
+      continue;
+    }
+
+    if (isImage) {
+      const mimeType = imageMimeType(data);
+      if (mimeType) {
+        blocks.push({ type: 'image', imageUrl: `data:${mimeType};base64,${data.toString('base64')}` });
+      } else {
+        notes.push(`[Attachment: ${name} (${attachment.mimeType ?? 'image'}) — unsupported image format]`);
+      }
+      continue;
+    }
+
+    const text = extractText(data, { mimeType: attachment.mimeType, filename: attachment.filename })?.trim();
+    if (text === undefined) {
+      notes.push(`[Attachment: ${name} (${attachment.mimeType ?? 'file'}) — unsupported file type]`);
+      continue;
+    }
+    if (!text) {
+      notes.push(`[Attachment: ${name} — no extractable text]`);
+      continue;
+    }
+    if (textBudget <= 0) {
+      notes.push(`[Attachment: ${name} — omitted, attachment text limit reached]`);
+      continue;
+    }
+
+    const truncated = text.length > textBudget;
+    const kept = truncated ? text.slice(0, textBudget) : text;
+    textBudget -= kept.length;
+
+    const chunks = chunkMarkdown(kept, { maxChunkSize: DOCUMENT_CHUNK_CHARS, overlap: 0 });
+    chunks.forEach((chunk, i) => {
+      const part = chunks.length > 1 ? `, part ${i + 1}/${chunks.length}` : '';
+      const tail = truncated && i === chunks.length - 1 ? '\n[truncated]' : '';
+      blocks.push({ type: 'text', text: `[Attachment: ${name}${part}]\n${chunk.content}${tail}` });
+    });
+  }
+
+  const text = [msg.text, ...notes].filter(Boolean).join('\n');
+  if (blocks.length === 0) return text;
+  return text ? [{ type: 'text', text }, ...blocks] : blocks;
+}
+
+/** Get an attachment's bytes, never more than `opts.maxBytes`. */
+async function loadAttachment(attachment: Attachment, channel: IChannel, opts: AttachmentOpts): Promise<Buffer> {
+  if (attachment.data) {
+    if (attachment.data.length > opts.maxBytes) {
+      throw new Error(`larger than ${opts.maxBytes} bytes`);
+    }
+    return attachment.data;
+  }
+  const timeoutMs = opts.fetchTimeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+  if (channel.fetchAttachment) {
+    // Channels don't take a signal; a stalled download must not hold up the run.
+    return withTimeout(channel.fetchAttachment(attachment, opts.maxBytes), timeoutMs);
+  }
+  if (attachment.url && /^https?:\/\//i.test(attachment.url)) {
+    const res = await fetch(attachment.url, {
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return readResponseBody(res, opts.maxBytes);
+  }
+  throw new Error('no downloadable source');
+}
+
+/** Settle with `promise`, or reject once `timeoutMs` has passed. */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${Math.ceil(timeoutMs / 1000)}s`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * The image's type from its magic bytes. Returns undefined for formats
+ * providers don't accept (HEIC, TIFF, SVG) whatever the declared type.
+ */
+function imageMimeType(data: Buffer): string | undefined {
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 4).toString('latin1') === 'GIF8') return 'image/gif';
+  if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for the agent command's terminal approval prompt.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getEventListeners } from 'node:events';
+import type * as readline from 'node:readline';
+import { createApprovalPrompt } from './agent.js';
+
+/** Readline stand-in that answers each question in turn, recording its abort signal. */
+function createReadline(answers: string[]) {
+  const signals: AbortSignal[] = [];
+  const listenerCounts: number[] = [];
+  const rl = {
+    question: vi.fn((_query: string, opts: { signal: AbortSignal }, callback: (answer: string) => void) => {
+      signals.push(opts.signal);
+      listenerCounts.push(getEventListeners(opts.signal, 'abort').length);
+      callback(answers.shift() ?? '');
+    }),
+  };
+  return { rl: rl as unknown as readline.Interface, signals, listenerCounts };
+}
+
+const request = () => ({
+  type: 'approval_required' as const,
+  callId: 'call-1',
+  tool: 'bash',
+  args: { command: 'rm -rf build' },
+  expiresAt: new Date(Date.now() + 60_000),
+});
+
+describe('createApprovalPrompt', () => {
+  it('removes its abort listener once a question is answered', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { rl, signals, listenerCounts } = createReadline(['e', '{"command": "rm -rf build/tmp"}']);
+
+    const decision = await createApprovalPrompt(rl)(request());
+
+    expect(decision).toMatchObject({ action: 'edit' });
+    // The edit follow-up asks on the same signal; the first question's listener is gone.
+    expect(listenerCounts).toEqual([1, 1]);
+    expect(getEventListeners(signals[0]!, 'abort')).toHaveLength(0);
+    vi.restoreAllMocks();
+  });
+
+  it('denies when no answer arrives before the approval expires', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const rl = { question: vi.fn() } as unknown as readline.Interface;
+
+    const decision = await createApprovalPrompt(rl)({ ...request(), expiresAt: new Date() });
+
+    expect(decision).toEqual({ action: 'deny', reason: 'No decision before the approval expired' });
+    vi.restoreAllMocks();
+  });
+});
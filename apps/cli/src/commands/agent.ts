@@ -14,24 +14,27 @@
  */
 
 import * as readline from 'node:readline';
-import type { Ch4pConfig, IEngine, IMemoryBackend, ISecurityPolicy, SessionConfig } from '@ch4p/core';
+import type { ApprovalDecision, Ch4pConfig, IEngine, IMemoryBackend, ISecurityPolicy, IUsageStore, SessionConfig } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
 import { NativeEngine, createClaudeCliEngine, createCodexCliEngine, SubprocessEngine } from '@ch4p/engines';
 import { ProviderRegistry } from '@ch4p/providers';
 import { Session, AgentLoop, ContextManager, FormatVerifier, LLMVerifier, createAutoRecallHook, createAutoSummarizeHook } from '@ch4p/agent';
-import type { AgentEvent, AgentLoopOpts, SessionOpts } from '@ch4p/agent';
-import { ToolRegistry, LoadSkillTool } from '@ch4p/tools';
+import type { AgentEvent, AgentLoopOpts, BudgetEnforcer, SessionOpts } from '@ch4p/agent';
+import { ToolRegistry, LoadSkillTool, removeSandboxContainers } from '@ch4p/tools';
 import { createObserver } from '@ch4p/observability';
 import type { ObservabilityConfig } from '@ch4p/observability';
-import { createMemoryBackend } from '@ch4p/memory';
-import type { MemoryConfig } from '@ch4p/memory';
+import { createMemoryBackend, ingestDocuments } from '@ch4p/memory';
+import type { MemoryConfig, IngestOpts } from '@ch4p/memory';
 import { DefaultSecurityPolicy } from '@ch4p/security';
 import { SkillRegistry } from '@ch4p/skills';
+import { parseApprovalReply } from '@ch4p/gateway';
 import { WakeListener, WhisperSTT, DeepgramSTT, ElevenLabsTTS } from '@ch4p/voice';
 import type { WakeEvent } from '@ch4p/voice';
-import { loadConfig, getLogsDir } from '../config.js';
+import { loadConfig, getLogsDir, getSandboxConfig } from '../config.js';
 import { buildSystemPrompt } from '../system-prompt.js';
 import { playBriefSplash } from './splash.js';
+import { openUsageStore, pruneUsage, createBudgetEnforcer } from './usage.js';
+import { summaryTtlMs } from './memory.js';
 import {
   TEAL, TEAL_DIM, RESET, BOLD, DIM, GREEN, YELLOW, RED, BLUE,
   BOX, CHECK, CROSS, WARN,
@@ -151,6 +154,20 @@ function handleAgentEvent(event: AgentEvent, state: ChatRenderState): void {
       console.log(`${GUTTER}${WARN} ${YELLOW}${event.tool}: ${event.errors.join(', ')}${RESET}`);
       break;
 
+    case 'approval_required':
+      ensureHeader();
+      if (state.inTextStream) {
+        process.stdout.write('\n');
+        state.inTextStream = false;
+      }
+      if (state.wasThinking) {
+        process.stdout.write('\n');
+        state.wasThinking = false;
+      }
+      console.log('');
+      console.log(`${GUTTER}${WARN} ${BOLD}${event.tool}${RESET}${DIM}(${truncateArgs(event.args)})${RESET} ${YELLOW}needs approval${RESET}`);
+      break;
+
     case 'verification': {
       const v = event.result;
       const outcomeColor = v.outcome === 'success' ? GREEN : v.outcome === 'partial' ? YELLOW : RED;
@@ -187,6 +204,11 @@ function handleAgentEvent(event: AgentEvent, state: ChatRenderState): void {
       ensureHeader();
       console.log(`\n  ${YELLOW}Aborted:${RESET} ${event.reason}`);
       break;
+
+    case 'budget_warning':
+      ensureHeader();
+      console.log(`\n  ${YELLOW}⚠ Usage warning:${RESET} ${event.message}`);
+      break;
   }
 }
 
@@ -278,11 +300,11 @@ function createEngine(config: Ch4pConfig): IEngine {
   }
 
   try {
-    const provider = ProviderRegistry.createProvider({
-      id: providerName,
-      type: providerName,
-      ...providerConfig,
-    });
+    const provider = ProviderRegistry.createChain(
+      [providerName, ...(config.agent.fallbackProviders ?? [])],
+      config.providers,
+      config.agent.failover,
+    );
 
     return new NativeEngine({
       provider,
@@ -427,6 +449,9 @@ function createMemory(config: Ch4pConfig): IMemoryBackend | undefined {
       backend: config.memory.backend,
       vectorWeight: config.memory.vectorWeight,
       keywordWeight: config.memory.keywordWeight,
+      recencyWeight: config.memory.recencyWeight,
+      halfLifeDays: config.memory.halfLifeDays,
+      usageWeight: config.memory.usageWeight,
       embeddingProvider: config.memory.embeddingProvider,
       openaiApiKey: (config.providers?.openai?.apiKey as string) || undefined,
     };
@@ -440,6 +465,36 @@ function createMemory(config: Ch4pConfig): IMemoryBackend | undefined {
   }
 }
 
+/**
+ * Open the usage ledger and budget enforcer from config.
+ * Returns undefined on error so the agent still runs (unmetered).
+ */
+function createUsage(config: Ch4pConfig): { store: IUsageStore; budget: BudgetEnforcer } | undefined {
+  try {
+    const store = openUsageStore(config);
+    pruneUsage(store, config);
+    return { store, budget: createBudgetEnforcer(config, store) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.log(`  ${YELLOW}⚠ Usage store failed to initialise: ${message}${RESET}`);
+    console.log(`  ${DIM}Usage will not be recorded and budgets are not enforced this session.${RESET}\n`);
+    return undefined;
+  }
+}
+
+/**
+ * Remove the per-session containers the docker sandbox started.
+ * A no-op for other sandbox backends.
+ */
+async function removeSandbox(config: Ch4pConfig): Promise<void> {
+  if (config.security.sandbox?.backend !== 'docker') return;
+  try {
+    await removeSandboxContainers();
+  } catch {
+    // Best-effort cleanup.
+  }
+}
+
 /**
  * Create an observer from config.
  * Falls back to the factory default (NoopObserver) on error.
@@ -450,6 +505,7 @@ function createConfiguredObserver(config: Ch4pConfig) {
       observers: config.observability.observers ?? ['console'],
       logLevel: config.observability.logLevel ?? 'info',
       logPath: `${getLogsDir()}/ch4p.jsonl`,
+    otel: config.observability.otel,
     };
     return createObserver(obsCfg);
   } catch {
@@ -509,6 +565,73 @@ function createVerifier(config: Ch4pConfig, _engine: IEngine) {
   return new FormatVerifier(formatOpts);
 }
 
+// ---------------------------------------------------------------------------
+// Tool approval prompt
+// ---------------------------------------------------------------------------
+
+type ApprovalRequest = Extract<AgentEvent, { type: 'approval_required' }>;
+type ApprovalPrompt = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/**
+ * Ask for tool approvals on the terminal. The question is cancelled when the
+ * approval expires so a late answer is not mistaken for the next REPL input.
+ * (Exported for testing.)
+ */
+export function createApprovalPrompt(rl: readline.Interface): ApprovalPrompt {
+  const ask = (query: string, signal: AbortSignal) => new Promise<string | null>((resolve) => {
+    const onAbort = (): void => resolve(null);
+    signal.addEventListener('abort', onAbort, { once: true });
+    rl.question(query, { signal }, (answer) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(answer);
+    });
+  });
+
+  return async (request) => {
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      Math.max(0, request.expiresAt.getTime() - Date.now()),
+    );
+
+    try {
+      const answer = await ask(
+        `${GUTTER}Allow? ${DIM}[y]es / [n]o [reason] / [e]dit${RESET} `,
+        controller.signal,
+      );
+      if (answer === null) {
+        console.log(`\n${GUTTER}${CROSS} ${DIM}No answer — denied.${RESET}`);
+        return { action: 'deny', reason: 'No decision before the approval expired' };
+      }
+
+      const choice = answer.trim();
+      if (/^e(dit)?$/i.test(choice)) {
+        const raw = await ask(`${GUTTER}New arguments (JSON): `, controller.signal);
+        if (raw !== null) {
+          const edited = parseApprovalReply(`edit ${raw}`);
+          if (edited) return edited;
+          console.log(`${GUTTER}${CROSS} ${DIM}Not a JSON object — denied.${RESET}`);
+        }
+        return { action: 'deny', reason: 'Edited arguments were not a valid JSON object' };
+      }
+
+      // Anything that is not a clear "yes" is a denial.
+      return parseApprovalReply(choice) ?? { action: 'deny' };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/** Approval callback for non-interactive runs: nobody can answer, so deny. */
+const denyWithoutTerminal: ApprovalPrompt = async (request) => {
+  console.log(`${GUTTER}${CROSS} ${DIM}No interactive terminal to approve ${request.tool} — denied.${RESET}`);
+  return {
+    action: 'deny',
+    reason: 'No interactive terminal to confirm this action (autonomy level "full" skips confirmation)',
+  };
+};
+
 /**
  * Create a full AgentLoop wired with engine, tools, observer, memory, and security.
  */
@@ -517,6 +640,10 @@ interface CreateAgentLoopExtras {
   onBeforeFirstRun?: AgentLoopOpts['onBeforeFirstRun'];
   onAfterComplete?: AgentLoopOpts['onAfterComplete'];
   maxIterations?: number;
+  /** Answers approval_required events. Approvals are disabled when absent. */
+  approve?: ApprovalPrompt;
+  /** Records usage and enforces `usage.budgets`. */
+  budget?: BudgetEnforcer;
 }
 
 function createAgentLoop(
@@ -545,6 +672,12 @@ function createAgentLoop(
       searchLang: config.search.searchLang,
     };
   }
+  if (config.security.sandbox) {
+    toolContextExtensions.sandbox = getSandboxConfig(config);
+  }
+  if (memoryBackend) {
+    toolContextExtensions.memoryIngest = (target: string, opts: IngestOpts) => ingestDocuments(memoryBackend, target, opts);
+  }
 
   // AWM verifier — runs task-level verification after each agent response.
   const verifier = createVerifier(config, engine);
@@ -564,6 +697,9 @@ function createAgentLoop(
     maxToolResults: config.agent.maxToolResults,
     maxToolOutputLen: config.agent.maxToolOutputLen,
     maxStateRecords: config.agent.maxStateRecords,
+    enableApprovals: !!extras?.approve,
+    approvalTimeoutMs: config.autonomy.approvalTimeout,
+    budget: extras?.budget,
   });
 }
 
@@ -586,6 +722,9 @@ async function runAgentMessage(
 
   for await (const event of loop.run(message)) {
     handleAgentEvent(event, state);
+    if (event.type === 'approval_required' && extras?.approve) {
+      loop.resolveApproval(event.callId, await extras.approve(event));
+    }
   }
 }
 
@@ -658,6 +797,8 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
   const hasSearch = !!(config.search?.enabled && config.search.apiKey);
   const sessionConfig = createSessionConfig(config, skillRegistry, hasMemory, hasSearch);
   const tools = createToolRegistry(config);
+  const usage = createUsage(config);
+  const budget = usage?.budget;
 
   // Create a shared ContextManager that persists across REPL messages.
   // This gives the agent conversation continuity within the session.
@@ -674,7 +815,7 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
     ? createAutoRecallHook(memoryBackend)
     : undefined;
   const onAfterComplete = (memoryBackend && autoSave)
-    ? createAutoSummarizeHook(memoryBackend)
+    ? createAutoSummarizeHook(memoryBackend, { ttlMs: summaryTtlMs(config) })
     : undefined;
 
   // Brief splash animation (TTY only).
@@ -720,6 +861,7 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
   });
 
   let running = true;
+  const approve = createApprovalPrompt(rl);
 
   // Handle Ctrl+C gracefully.
   rl.on('SIGINT', () => {
@@ -732,6 +874,8 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
       running = false;
       wakeListener?.stop();
       void memoryBackend?.close();
+      usage?.store.close();
+      void removeSandbox(config);
       console.log(`\n${DIM}  Goodbye!${RESET}\n`);
     }
   });
@@ -760,6 +904,8 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
         sessionOpts: { sharedContext },
         onBeforeFirstRun,
         onAfterComplete,
+        approve,
+        budget,
       }, renderState)
         .then(async () => {
           // Speak the response back if TTS is configured.
@@ -817,6 +963,8 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
           console.log(`\n${DIM}  Goodbye!${RESET}\n`);
           rl.close();
           await memoryBackend?.close();
+          usage?.store.close();
+          await removeSandbox(config);
           return;
 
         case '/clear':
@@ -894,6 +1042,8 @@ async function runRepl(config: Ch4pConfig, voiceEnabled = false): Promise<void>
         sessionOpts: { sharedContext },
         onBeforeFirstRun,
         onAfterComplete,
+        approve,
+        budget,
       }, renderState);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -915,6 +1065,7 @@ async function runSingleMessage(config: Ch4pConfig, message: string): Promise<vo
   const hasMemory = !!memoryBackend;
   const hasSearch = !!(config.search?.enabled && config.search.apiKey);
   const sessionConfig = createSessionConfig(config, skillRegistry, hasMemory, hasSearch);
+  const usage = createUsage(config);
 
   // Wire auto-memory hooks for single-message mode.
   const autoSave = config.memory.autoSave !== false;
@@ -922,9 +1073,14 @@ async function runSingleMessage(config: Ch4pConfig, message: string): Promise<vo
     ? createAutoRecallHook(memoryBackend)
     : undefined;
   const onAfterComplete = (memoryBackend && autoSave)
-    ? createAutoSummarizeHook(memoryBackend)
+    ? createAutoSummarizeHook(memoryBackend, { ttlMs: summaryTtlMs(config) })
     : undefined;
 
+  // Tool approvals are asked on the terminal when there is one.
+  const approvalRl = process.stdin.isTTY
+    ? readline.createInterface({ input: process.stdin, output: process.stdout })
+    : null;
+
   try {
     // Echo the user's message with a styled header (same as REPL).
     console.log(chatHeader(PROMPT_CHAR, 'You'));
@@ -933,6 +1089,8 @@ async function runSingleMessage(config: Ch4pConfig, message: string): Promise<vo
     await runAgentMessage(config, engine, sessionConfig, message, memoryBackend, skillRegistry, {
       onBeforeFirstRun,
       onAfterComplete,
+      approve: approvalRl ? createApprovalPrompt(approvalRl) : denyWithoutTerminal,
+      budget: usage?.budget,
     });
     console.log('');
   } catch (err) {
@@ -940,7 +1098,10 @@ async function runSingleMessage(config: Ch4pConfig, message: string): Promise<vo
     console.error(`\n${RED}Error:${RESET} ${errMessage}`);
     process.exitCode = 1;
   } finally {
+    approvalRl?.close();
     await memoryBackend?.close();
+    usage?.store.close();
+    await removeSandbox(config);
   }
 }
 
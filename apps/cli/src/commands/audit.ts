@@ -196,6 +196,34 @@ export function performAudit(config: Ch4pConfig): AuditResult[] {
       : 'No observers configured. Security events may go unlogged.',
   });
 
+  // 11. Sandbox backend
+  id++;
+  const sandbox = config.security?.sandbox;
+  const backend = sandbox?.backend ?? 'host';
+  if (backend === 'host') {
+    results.push({
+      id,
+      name: 'Sandbox backend',
+      // Unsandboxed is only a concern when nobody approves commands first.
+      severity: autonomy === 'full' ? 'warn' : 'pass',
+      message: autonomy === 'full'
+        ? 'Commands run unsandboxed on the host with full autonomy. Set security.sandbox.backend.'
+        : 'Sandbox backend: host (commands run unsandboxed)',
+    });
+  } else {
+    const limits = [
+      sandbox?.network ? 'network on' : 'no network',
+      sandbox?.memoryMb !== undefined && `${sandbox.memoryMb} MiB`,
+      sandbox?.cpus !== undefined && `${sandbox.cpus} CPU`,
+    ].filter(Boolean).join(', ');
+    results.push({
+      id,
+      name: 'Sandbox backend',
+      severity: 'pass',
+      message: `Sandbox backend: ${backend} (${limits})`,
+    });
+  }
+
   return results;
 }
 
@@ -11,21 +11,23 @@
  *   ch4p canvas --no-open    — don't auto-open browser
  */
 
-import type { Ch4pConfig, IEngine, IMemoryBackend, InboundMessage, SessionConfig } from '@ch4p/core';
+import type { Ch4pConfig, IEngine, IMemoryBackend, InboundMessage, IUsageStore, SessionConfig } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
-import { loadConfig, saveConfig, getLogsDir } from '../config.js';
+import { loadConfig, saveConfig, getLogsDir, getSandboxConfig } from '../config.js';
 import { buildSafeConfig, applySafeUpdates } from './gateway.js';
+import { openUsageStore, pruneUsage, createBudgetEnforcer } from './usage.js';
 import { SessionManager, GatewayServer, PairingManager, CanvasSessionManager, type WebSocketBridge } from '@ch4p/gateway';
 import { CanvasTool } from '@ch4p/canvas';
 import { AgentLoop } from '@ch4p/agent';
+import type { BudgetEnforcer } from '@ch4p/agent';
 import { NativeEngine, createClaudeCliEngine, createCodexCliEngine } from '@ch4p/engines';
 import { ProviderRegistry } from '@ch4p/providers';
-import { ToolRegistry, LoadSkillTool } from '@ch4p/tools';
+import { ToolRegistry, LoadSkillTool, removeSandboxContainers } from '@ch4p/tools';
 import { SkillRegistry } from '@ch4p/skills';
 import { createObserver } from '@ch4p/observability';
 import type { ObservabilityConfig } from '@ch4p/observability';
-import { createMemoryBackend } from '@ch4p/memory';
-import type { MemoryConfig } from '@ch4p/memory';
+import { createMemoryBackend, ingestDocuments } from '@ch4p/memory';
+import type { MemoryConfig, IngestOpts } from '@ch4p/memory';
 import { DefaultSecurityPolicy } from '@ch4p/security';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -92,6 +94,7 @@ export async function canvas(args: string[]): Promise<void> {
     observers: config.observability.observers ?? ['console'],
     logLevel: config.observability.logLevel ?? 'info',
     logPath: `${getLogsDir()}/canvas.jsonl`,
+    otel: config.observability.otel,
   };
   const observer = createObserver(obsCfg);
 
@@ -102,6 +105,9 @@ export async function canvas(args: string[]): Promise<void> {
       backend: config.memory.backend,
       vectorWeight: config.memory.vectorWeight,
       keywordWeight: config.memory.keywordWeight,
+      recencyWeight: config.memory.recencyWeight,
+      halfLifeDays: config.memory.halfLifeDays,
+      usageWeight: config.memory.usageWeight,
       embeddingProvider: config.memory.embeddingProvider,
       openaiApiKey: (config.providers?.openai?.apiKey as string) || undefined,
     };
@@ -110,6 +116,17 @@ export async function canvas(args: string[]): Promise<void> {
     // Not critical.
   }
 
+  // Usage ledger and budgets (optional — runs unmetered without it).
+  let usageStore: IUsageStore | undefined;
+  let budget: BudgetEnforcer | undefined;
+  try {
+    usageStore = openUsageStore(config);
+    pruneUsage(usageStore, config);
+    budget = createBudgetEnforcer(config, usageStore);
+  } catch {
+    // Not critical.
+  }
+
   // Create skill registry (optional).
   let skillRegistry: SkillRegistry | undefined;
   try {
@@ -149,7 +166,7 @@ export async function canvas(args: string[]): Promise<void> {
     onCanvasConnection: (connSessionId: string, bridge: WebSocketBridge) => {
       wireCanvasSession(
         connSessionId, bridge, canvasSessionManager, engine, config,
-        observer, memoryBackend, skillRegistry, defaultSessionConfig,
+        observer, memoryBackend, skillRegistry, defaultSessionConfig, budget,
       );
     },
     onGetConfig: () => buildSafeConfig(config),
@@ -222,6 +239,14 @@ export async function canvas(args: string[]): Promise<void> {
       console.log(`\n  ${DIM}Shutting down canvas...${RESET}`);
       canvasSessionManager.endAll();
 
+      if (config.security.sandbox?.backend === 'docker') {
+        try {
+          await removeSandboxContainers();
+        } catch {
+          // Best-effort cleanup.
+        }
+      }
+
       // Close memory backend so WAL is checkpointed before exit.
       if (memoryBackend) {
         try {
@@ -230,6 +255,7 @@ export async function canvas(args: string[]): Promise<void> {
           // Best-effort close.
         }
       }
+      usageStore?.close();
 
       await server.stop();
       await observer.flush?.();
@@ -285,11 +311,11 @@ function createCanvasEngine(config: Ch4pConfig): IEngine | null {
   }
 
   try {
-    const provider = ProviderRegistry.createProvider({
-      id: providerName,
-      type: providerName,
-      ...providerConfig,
-    });
+    const provider = ProviderRegistry.createChain(
+      [providerName, ...(config.agent.fallbackProviders ?? [])],
+      config.providers,
+      config.agent.failover,
+    );
     return new NativeEngine({ provider, defaultModel: config.agent.model });
   } catch {
     return null;
@@ -316,6 +342,7 @@ function wireCanvasSession(
   memoryBackend?: ReturnType<typeof createMemoryBackend>,
   skillRegistry?: SkillRegistry,
   defaultSessionConfig?: { engineId: string; model: string; provider: string; systemPrompt?: string },
+  budget?: BudgetEnforcer,
 ): void {
   const entry = canvasSessionManager.getSession(sessionId);
   if (!entry) return;
@@ -325,13 +352,21 @@ function wireCanvasSession(
   // Start the canvas channel.
   canvasChannel.start({ sessionId }).catch(() => {});
 
+  // The loop currently running for this session (approvals and aborts target it).
+  let activeLoop: AgentLoop | null = null;
+
+  // c2s:approval answers go straight to the waiting loop.
+  canvasChannel.onApproval((callId, decision) => {
+    activeLoop?.resolveApproval(callId, decision);
+  });
+
   // Set up inbound message handler: when user sends a message, run the agent loop.
   canvasChannel.onMessage((msg: InboundMessage) => {
     void (async () => {
       try {
         // Handle abort
         if (msg.text.startsWith('[ABORT]')) {
-          // Abort handling is done at the loop level
+          activeLoop?.abort(msg.text.slice('[ABORT]'.length).trim() || 'User requested abort');
           return;
         }
 
@@ -374,6 +409,12 @@ function wireCanvasSession(
             searchLang: config.search.searchLang,
           };
         }
+        if (config.security.sandbox) {
+          toolContextExtensions.sandbox = getSandboxConfig(config);
+        }
+        if (memoryBackend) {
+          toolContextExtensions.memoryIngest = (target: string, opts: IngestOpts) => ingestDocuments(memoryBackend, target, opts);
+        }
 
         const loop = new AgentLoop(session, engine, tools.list(), observer, {
           maxIterations: 30,
@@ -382,11 +423,19 @@ function wireCanvasSession(
           memoryBackend,
           securityPolicy,
           toolContextExtensions,
+          enableApprovals: true,
+          approvalTimeoutMs: config.autonomy.approvalTimeout,
+          budget,
         });
+        activeLoop = loop;
 
         // Run the agent loop and bridge events to the WebSocket.
-        for await (const event of loop.run(msg.text)) {
-          bridge.handleAgentEvent(event);
+        try {
+          for await (const event of loop.run(msg.text)) {
+            bridge.handleAgentEvent(event);
+          }
+        } finally {
+          if (activeLoop === loop) activeLoop = null;
         }
       } catch (err) {
         bridge.handleAgentEvent({
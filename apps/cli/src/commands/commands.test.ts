@@ -65,13 +65,13 @@ function makeConfig(overrides: Record<string, unknown> = {}): Ch4pConfig {
 // ---------------------------------------------------------------------------
 
 describe('performAudit', () => {
-  it('returns 10 audit results', () => {
+  it('returns 11 audit results', () => {
     const config = getDefaultConfig();
     const results = performAudit(config);
 
-    expect(results).toHaveLength(10);
+    expect(results).toHaveLength(11);
     expect(results[0]!.id).toBe(1);
-    expect(results[9]!.id).toBe(10);
+    expect(results[10]!.id).toBe(11);
   });
 
   it('all checks pass for secure default config', () => {
@@ -118,6 +118,38 @@ describe('performAudit', () => {
     expect(wsCheck?.message).toContain('disabled');
   });
 
+  it('reports the host sandbox backend by default', () => {
+    const config = getDefaultConfig();
+
+    const results = performAudit(config);
+    const sandboxCheck = results.find((r) => r.name === 'Sandbox backend');
+
+    expect(sandboxCheck?.severity).toBe('pass');
+    expect(sandboxCheck?.message).toContain('host');
+  });
+
+  it('warns about an unsandboxed host with full autonomy', () => {
+    const config = getDefaultConfig();
+    config.autonomy.level = 'full';
+
+    const results = performAudit(config);
+    const sandboxCheck = results.find((r) => r.name === 'Sandbox backend');
+
+    expect(sandboxCheck?.severity).toBe('warn');
+    expect(sandboxCheck?.message).toContain('security.sandbox.backend');
+  });
+
+  it('reports the active sandbox backend and its limits', () => {
+    const config = getDefaultConfig();
+    config.security.sandbox = { backend: 'docker', memoryMb: 512, cpus: 1 };
+
+    const results = performAudit(config);
+    const sandboxCheck = results.find((r) => r.name === 'Sandbox backend');
+
+    expect(sandboxCheck?.severity).toBe('pass');
+    expect(sandboxCheck?.message).toBe('Sandbox backend: docker (no network, 512 MiB, 1 CPU)');
+  });
+
   it('reports blocked paths count when configured', () => {
     const config = getDefaultConfig();
     config.security.blockedPaths = ['/etc', '/root', '/var'];
@@ -367,7 +399,7 @@ describe('tools command', () => {
     await tools();
 
     const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
-    expect(output).toContain('13 tools');
+    expect(output).toContain('15 tools');
 
     consoleSpy.mockRestore();
   });
@@ -389,7 +421,7 @@ describe('doctor checks (functional)', () => {
     const passed = results.filter((r) => r.severity === 'pass').length;
     const failed = results.filter((r) => r.severity === 'fail').length;
 
-    expect(passed).toBe(10);
+    expect(passed).toBe(11);
     expect(failed).toBe(0);
   });
 
@@ -408,7 +440,7 @@ describe('doctor checks (functional)', () => {
     const config = getDefaultConfig();
     config.gateway.requirePairing = false; // warn
     config.security.workspaceOnly = false; // warn
-    config.autonomy.level = 'full'; // warn
+    config.autonomy.level = 'full'; // warn, and the unsandboxed host warns too
     config.autonomy.allowedCommands = []; // warn
     config.tunnel.provider = 'tailscale'; // warn
     config.observability.observers = []; // warn
@@ -417,7 +449,7 @@ describe('doctor checks (functional)', () => {
     const results = performAudit(config);
     const warned = results.filter((r) => r.severity === 'warn').length;
 
-    expect(warned).toBe(7);
+    expect(warned).toBe(8);
   });
 });
 
@@ -0,0 +1,487 @@
+/**
+ * Tests for the gateway's inbound message handling: scheduled jobs and how
+ * their replies are delivered, who a run's usage is billed to, account
+ * linking in direct messages, bursts held
+ * back by the rate limiter, and the mailbox for messages that arrive while
+ * a run is in flight.
+ *
+ * Runs handleInboundMessage against a mock channel and a controllable
+ * engine, so no API keys or platform connections are needed.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { EngineEvent, IChannel, IEngine, InboundMessage, MailboxMode, Message, OutboundMessage, Recipient, ScheduledJob, SendResult } from '@ch4p/core';
+import { generateId } from '@ch4p/core';
+import { InboundLimiter, MemoryUserStore, MessageRouter, SessionManager, UserDirectory } from '@ch4p/gateway';
+import { BudgetEnforcer, MemoryUsageStore } from '@ch4p/agent';
+import { NoopObserver } from '@ch4p/observability';
+import { getDefaultConfig } from '../config.js';
+import { AgentRouter } from '../agent-router.js';
+import { dispatchScheduledJob, handleInboundMessage } from './gateway.js';
+import type { InboundMessageOpts } from './gateway.js';
+
+// ---------------------------------------------------------------------------
+// Test doubles
+// ---------------------------------------------------------------------------
+
+function createChannel() {
+  return {
+    id: 'telegram',
+    name: 'Telegram',
+    start: vi.fn(async () => {}),
+    stop: vi.fn(async () => {}),
+    send: vi.fn(async (_to: Recipient, _message: OutboundMessage): Promise<SendResult> =>
+      ({ success: true, messageId: generateId(8) })),
+    onMessage: vi.fn(),
+    isHealthy: async () => true,
+    react: vi.fn(async (_to: Recipient, _messageId: string, _emoji: string) => {}),
+    markRead: vi.fn(async (_to: Recipient, _messageId: string) => {}),
+  } satisfies IChannel;
+}
+
+function lastUserText(messages: Message[]): string {
+  const last = [...messages].reverse().find((m) => m.role === 'user');
+  return typeof last?.content === 'string' ? last.content : '';
+}
+
+async function* echoEvents(text: string, gate?: Promise<void>): AsyncIterable<EngineEvent> {
+  yield { type: 'started' };
+  await gate;
+  yield { type: 'text_delta', delta: `[echo] ${text}` };
+  yield { type: 'completed', answer: `[echo] ${text}`, usage: { inputTokens: 10, outputTokens: 5 } };
+}
+
+/** Engine that answers every run with "[echo] <last user message>". */
+function createEngine(): IEngine {
+  return {
+    id: 'mock',
+    name: 'Mock Engine',
+    async startRun(job) {
+      return { ref: generateId(8), events: echoEvents(lastUserText(job.messages)), async cancel() {}, steer() {} };
+    },
+    async resume() {
+      throw new Error('Resume not supported');
+    },
+  };
+}
+
+/**
+ * Echo engine whose runs wait for `release()`. An abort also ends the wait,
+ * unless the engine is `stuck`, like one hung in a call.
+ */
+function createGatedEngine(opts: { stuck?: boolean } = {}) {
+  const runs: Array<{ text: string; release: () => void }> = [];
+  const engine: IEngine = {
+    id: 'mock',
+    name: 'Mock Engine',
+    async startRun(job, runOpts) {
+      const text = lastUserText(job.messages);
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+        if (!opts.stuck) runOpts?.signal?.addEventListener('abort', () => resolve(), { once: true });
+      });
+      runs.push({ text, release });
+      return { ref: generateId(8), events: echoEvents(text, gate), async cancel() {}, steer() {} };
+    },
+    async resume() {
+      throw new Error('Resume not supported');
+    },
+  };
+  return { engine, runs };
+}
+
+/** Everything handleInboundMessage needs except the message. */
+function createOpts(channel: IChannel, overrides: Partial<InboundMessageOpts> = {}): Omit<InboundMessageOpts, 'msg'> {
+  const config = getDefaultConfig();
+  config.memory.autoSave = false;
+  return {
+    channel,
+    router: new MessageRouter(new SessionManager(), {
+      engineId: 'mock',
+      model: 'test-model',
+      provider: 'mock',
+      systemPrompt: 'You are a test assistant.',
+    }),
+    engine: createEngine(),
+    config,
+    observer: new NoopObserver(),
+    conversationContexts: new Map(),
+    agentRouter: new AgentRouter(config),
+    defaultSystemPrompt: 'You are a test assistant.',
+    inFlightLoops: new Map(),
+    pendingMessages: new Map(),
+    ...overrides,
+  };
+}
+
+function createJob(overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return {
+    id: generateId(8),
+    name: 'standup',
+    message: 'Time for standup',
+    target: { channelId: 'telegram', userId: '42' },
+    enabled: true,
+    createdAt: new Date(),
+    ...overrides,
+  } as ScheduledJob;
+}
+
+function message(userId: string, text: string, from: Partial<Recipient> = {}): InboundMessage {
+  return {
+    id: generateId(8),
+    channelId: 'telegram',
+    from: { channelId: 'telegram', userId, ...from },
+    text,
+    timestamp: new Date(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled jobs
+// ---------------------------------------------------------------------------
+
+describe('dispatchScheduledJob', () => {
+  it('delivers the reply to the target without threading or reacting', async () => {
+    const channel = createChannel();
+    dispatchScheduledJob(createJob(), channel, createOpts(createChannel()));
+
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+    const [to, message] = channel.send.mock.calls[0]!;
+    expect(to).toEqual({ channelId: 'telegram', userId: '42' });
+    expect(message.text).toBe('[echo] Time for standup');
+    expect(message.replyTo).toBeUndefined();
+    expect(channel.react).not.toHaveBeenCalled();
+    expect(channel.markRead).not.toHaveBeenCalled();
+  });
+
+  it('runs even when the user has used up their rate limit', async () => {
+    const channel = createChannel();
+    const inboundLimiter = new InboundLimiter({ user: { burst: 1, perMinute: 1 } });
+    const earlier: InboundMessage = {
+      id: '1', channelId: 'telegram', from: { channelId: 'telegram', userId: '42' }, text: 'hi', timestamp: new Date(),
+    };
+    expect(inboundLimiter.take(earlier, 'telegram:42').allowed).toBe(true);
+
+    dispatchScheduledJob(createJob(), channel, createOpts(createChannel(), { inboundLimiter }));
+
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+    expect(channel.send.mock.calls[0]![1].text).toBe('[echo] Time for standup');
+  });
+
+  it('falls back to the given channel when the target is not running', async () => {
+    const log = createChannel();
+    dispatchScheduledJob(createJob(), undefined, createOpts(log));
+
+    await vi.waitFor(() => expect(log.send).toHaveBeenCalledTimes(1));
+    expect(log.send.mock.calls[0]![0]).toEqual({ channelId: 'cron:standup', userId: 'cron' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+describe('handleInboundMessage — budgets', () => {
+  it('bills each participant of a shared thread for their own turns', async () => {
+    const channel = createChannel();
+    const store = new MemoryUsageStore();
+    const budget = new BudgetEnforcer({
+      store,
+      policies: [{ scope: 'user', period: 'daily', maxTokens: 15 }],
+    });
+    const opts = createOpts(channel, { budget });
+    const thread = { groupId: 'g1', threadId: 't1' };
+
+    handleInboundMessage({ ...opts, msg: message('1', 'first', thread) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+    handleInboundMessage({ ...opts, msg: message('2', 'second', thread) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(2));
+    handleInboundMessage({ ...opts, msg: message('1', 'third', thread) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(3));
+
+    const replies = channel.send.mock.calls.map(([, m]) => m.text);
+    expect(replies[0]).toBe('[echo] first');
+    expect(replies[1]).toBe('[echo] second');
+    expect(replies[2]).toContain('Budget exceeded');
+    expect(store.breakdown('user').map((row) => row.key).sort()).toEqual(['telegram:1', 'telegram:2']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Account linking
+// ---------------------------------------------------------------------------
+
+describe('handleInboundMessage — account linking', () => {
+  function createLinkingOpts(channel: IChannel) {
+    const opts = createOpts(channel, { userDirectory: new UserDirectory({ store: new MemoryUserStore() }) });
+    opts.config.users = { linking: true, sharedConversation: true };
+    return opts;
+  }
+
+  it('hands out link codes in a direct message that has its own channel id', async () => {
+    const channel = createChannel();
+    const opts = createLinkingOpts(channel);
+    // Discord gives DMs a channel id, so groupId is set there too.
+    const dm = { groupId: 'dm-1', isDirect: true };
+
+    handleInboundMessage({ ...opts, msg: message('7', '/link', dm) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+    const reply = channel.send.mock.calls[0]![1].text ?? '';
+    expect(reply).toMatch(/^Your link code is/);
+
+    const code = /link code is (\S+)\./.exec(reply)![1]!;
+    handleInboundMessage({ ...opts, msg: message('8', `/link ${code}`) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(2));
+    expect(channel.send.mock.calls[1]![1].text).toMatch(/^Linked\./);
+
+    // The linked DM now shares the person's conversation.
+    handleInboundMessage({ ...opts, msg: message('7', 'hello', dm) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(3));
+    expect([...opts.conversationContexts.keys()]).toEqual([expect.stringMatching(/^user:/)]);
+  });
+
+  it('refuses link codes in group chats', async () => {
+    const channel = createChannel();
+    const opts = createLinkingOpts(channel);
+
+    handleInboundMessage({ ...opts, msg: message('7', '/link', { groupId: 'g1' }) });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+    expect(channel.send.mock.calls[0]![1].text).toBe('Send /link in a private chat with me to link your accounts.');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+describe('handleInboundMessage — held bursts', () => {
+  it('answers a held burst in one run once the limiter allows', async () => {
+    const channel = createChannel();
+    const opts = createOpts(channel, {
+      inboundLimiter: new InboundLimiter({ user: { burst: 1, perMinute: 1 } }),
+      heldMessages: new Map(),
+    });
+    opts.config.gateway.rateLimit = { onLimit: 'queue' };
+
+    handleInboundMessage({ ...opts, msg: message('42', 'first') });
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(1));
+
+    // The bucket stays empty in real time while the hold timer runs out.
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      handleInboundMessage({ ...opts, msg: message('42', 'second') });
+      handleInboundMessage({ ...opts, msg: message('42', 'third') });
+      expect(opts.heldMessages!.size).toBe(1);
+      vi.advanceTimersByTime(60_000);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await vi.waitFor(() => expect(channel.send).toHaveBeenCalledTimes(3));
+    const replies = channel.send.mock.calls.map(([, m]) => m.text);
+    expect(replies[1]).toContain("You're sending messages quickly");
+    expect(replies[2]).toBe('[echo] second\n\nthird');
+    expect(opts.heldMessages!.size).toBe(0);
+    expect(channel.react.mock.calls.filter(([, , emoji]) => emoji === '👀')).toHaveLength(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Mailbox
+// ---------------------------------------------------------------------------
+
+describe('handleInboundMessage — mailbox', () => {
+  const thread = { groupId: 'g1', threadId: 't1' };
+
+  /** A run for 'first' in a shared thread, held open by a gated engine. */
+  async function startRun(mode?: MailboxMode, engineOpts?: { stuck?: boolean }) {
+    const channel = createChannel();
+    const { engine, runs } = createGatedEngine(engineOpts);
+    const opts = createOpts(channel, { engine });
+    if (mode) opts.config.gateway.mailbox = { mode };
+    const send = (userId: string, text: string) =>
+      handleInboundMessage({ ...opts, msg: message(userId, text, thread) });
+    const replies = () => channel.send.mock.calls.map(([, m]) => m.text);
+
+    send('1', 'first');
+    await vi.waitFor(() => expect(runs).toHaveLength(1));
+    return { channel, opts, runs, send, replies };
+  }
+
+  it('queues follow-ups, merging a burst from one sender', async () => {
+    const { opts, runs, send, replies } = await startRun('queue');
+    send('1', 'second');
+    send('1', 'third');
+    send('2', 'fourth');
+    expect([...opts.pendingMessages!.values()][0]).toHaveLength(2);
+
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(3));
+    runs[2]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] fourth'));
+
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second\n\nthird', 'fourth']);
+    expect(replies().filter((t) => t.startsWith('Got it'))).toHaveLength(2);
+    expect(opts.pendingMessages!.size).toBe(0);
+    expect(opts.inFlightLoops!.size).toBe(0);
+  });
+
+  it("turns away a new sender when the queue is full instead of merging across senders", async () => {
+    const { opts, runs, send, replies } = await startRun('queue');
+    send('2', 'second');
+    send('3', 'third');
+    send('4', 'fourth');
+    send('3', 'fifth');
+    expect([...opts.pendingMessages!.values()][0]).toHaveLength(2);
+    expect(replies()).toContain("I've got too many messages waiting in this conversation. Please send yours again once I've answered them.");
+
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(3));
+    runs[2]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] third\n\nfifth'));
+
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second', 'third\n\nfifth']);
+  });
+
+  it("collects each sender's follow-ups into one run of their own", async () => {
+    const { runs, send, replies } = await startRun('collect');
+    send('1', 'second');
+    send('2', 'third');
+    send('1', 'fourth');
+
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(3));
+    runs[2]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] third'));
+
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second\n\nfourth', 'third']);
+  });
+
+  it('steers the run, and gives a message it never read a run of its own', async () => {
+    const { opts, runs, send, replies } = await startRun('steer');
+    send('1', 'second');
+
+    expect(opts.pendingMessages!.size).toBe(0);
+    expect(replies()).toEqual(["Got it — I'll take that into account."]);
+
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] second'));
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second']);
+  });
+
+  it("queues another participant's message instead of steering the run", async () => {
+    const { opts, runs, send, replies } = await startRun('steer');
+    const steer = vi.spyOn([...opts.inFlightLoops!.values()][0]!.loop, 'steer');
+    send('2', 'second');
+
+    expect(steer).not.toHaveBeenCalled();
+    expect([...opts.pendingMessages!.values()][0]).toHaveLength(1);
+    expect(replies()).toEqual(["Got it — I'll get to your message once I finish what I'm working on."]);
+
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] second'));
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second']);
+  });
+
+  it("interrupts the run for the requester and queues everyone else's messages", async () => {
+    const { runs, send, replies } = await startRun('interrupt');
+    send('1', 'second');
+    send('2', 'third');
+
+    // The interrupted run is aborted without waiting for release().
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(3));
+    runs[2]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] third'));
+
+    expect(runs.map((r) => r.text)).toEqual(['first', 'second', 'third']);
+    expect(replies()).toEqual([
+      'Stopping to look at your new message.',
+      "Got it — I'll get to your message once I finish what I'm working on.",
+      '[echo] second',
+      '[echo] third',
+    ]);
+  });
+
+  it("doesn't let another participant interrupt the run", async () => {
+    const { opts, runs, send, replies } = await startRun('interrupt');
+    send('2', 'second');
+
+    expect([...opts.inFlightLoops!.values()][0]!.interrupted).toBe(false);
+    runs[0]!.release();
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] second'));
+    expect(replies()).toEqual([
+      "Got it — I'll get to your message once I finish what I'm working on.",
+      '[echo] first',
+      '[echo] second',
+    ]);
+  });
+
+  it('drains the queue after a run times out', async () => {
+    const channel = createChannel();
+    const { engine, runs } = createGatedEngine();
+    const opts = createOpts(channel, { engine });
+    opts.config.agent.runTimeout = 50;
+    const replies = () => channel.send.mock.calls.map(([, m]) => m.text);
+    handleInboundMessage({ ...opts, msg: message('1', 'first', thread) });
+    await vi.waitFor(() => expect(runs).toHaveLength(1));
+    opts.config.agent.runTimeout = 300_000;
+    handleInboundMessage({ ...opts, msg: message('1', 'second', thread) });
+
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    expect(replies().some((t) => t.includes('took longer than'))).toBe(true);
+    runs[1]!.release();
+    await vi.waitFor(() => expect(replies()).toContain('[echo] second'));
+    expect(opts.inFlightLoops!.size).toBe(0);
+  });
+
+  it('drains the queue when a timed-out run never stops', async () => {
+    // setImmediate stays real, so promise chains can be let run between steps.
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const settle = async (done: () => boolean) => {
+      for (let i = 0; i < 1_000 && !done(); i++) await new Promise((resolve) => setImmediate(resolve));
+    };
+    try {
+      const channel = createChannel();
+      const { engine, runs } = createGatedEngine({ stuck: true });
+      const opts = createOpts(channel, { engine });
+      opts.config.agent.runTimeout = 1_000;
+      handleInboundMessage({ ...opts, msg: message('1', 'first', thread) });
+      await settle(() => runs.length === 1);
+      handleInboundMessage({ ...opts, msg: message('1', 'second', thread) });
+
+      vi.advanceTimersByTime(1_000);
+      await settle(() => false);
+      expect(runs).toHaveLength(1);
+
+      vi.advanceTimersByTime(30_000);
+      await settle(() => runs.length === 2);
+      expect(runs.map((r) => r.text)).toEqual(['first', 'second']);
+
+      runs[1]!.release();
+      await settle(() => channel.send.mock.calls.some(([, m]) => m.text === '[echo] second'));
+      expect(channel.send.mock.calls.map(([, m]) => m.text)).toContain('[echo] second');
+
+      // The stuck run still reports back once it finally stops.
+      runs[0]!.release();
+      await settle(() => channel.send.mock.calls.length === 3);
+      expect(channel.send.mock.calls[2]![1].text).toContain('took longer than');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -16,19 +16,25 @@
  */
 
 import { createRequire } from 'node:module';
-import type { Ch4pConfig, IChannel, IMemoryBackend, InboundMessage, ITunnelProvider } from '@ch4p/core';
+import { join } from 'node:path';
+import type { Attachment, Ch4pConfig, ChannelIdentity, IChannel, IEngine, IJobStore, IMemoryBackend, InboundMessage, ISessionStore, ITunnelProvider, IUsageStore, IUserStore, JobSpec, MessageAction, OutboundMessage, Recipient, ScheduledJob, SendResult } from '@ch4p/core';
 import { createX402Middleware, X402PayTool, createEIP712Signer, walletAddress } from '@ch4p/plugin-x402';
 import type { X402Config } from '@ch4p/plugin-x402';
-import { generateId } from '@ch4p/core';
-import { loadConfig, saveConfig, getLogsDir, getCh4pDir } from '../config.js';
+import { Ch4pError, generateId } from '@ch4p/core';
+import { loadConfig, saveConfig, getLogsDir, getCh4pDir, getSandboxConfig } from '../config.js';
 import { SessionNotes } from '../session-notes.js';
-import { SessionManager, GatewayServer, MessageRouter, PairingManager, Scheduler, LogChannel } from '@ch4p/gateway';
-import type { CronJob } from '@ch4p/gateway';
+import { openSessionStore, sessionRetention } from './sessions.js';
+import { openUsageStore, pruneUsage, createBudgetEnforcer, buildUsageReport, parseUsageQuery } from './usage.js';
+import { summaryTtlMs, createConsolidationSummarizer } from './memory.js';
+import { SessionManager, GatewayServer, MessageRouter, PairingManager, Scheduler, LogChannel, MemorySessionStore, MemoryJobStore, SQLiteJobStore, MemoryUserStore, SQLiteUserStore, UserDirectory, InboundLimiter, buildRouteKey, formatApprovalPrompt, parseApprovalReply, approvalActions, parseApprovalAction, formatActionsAsText, matchActionReply, parseLinkCommand } from '@ch4p/gateway';
+import type { LimitDecision, LinkCommand } from '@ch4p/gateway';
 import {
   ChannelRegistry,
   TelegramChannel,
   DiscordChannel,
   SlackChannel,
+  MattermostChannel,
+  RocketChatChannel,
   CliChannel,
   MatrixChannel,
   WhatsAppChannel,
@@ -41,18 +47,20 @@ import {
   GoogleChatChannel,
   WebChatChannel,
   IrcChannel,
+  EmailChannel,
   MacOSChannel,
 } from '@ch4p/channels';
 import { createTunnelProvider } from '@ch4p/tunnels';
-import { Session, AgentLoop, ContextManager, FormatVerifier, LLMVerifier, createAutoRecallHook, createAutoSummarizeHook, ToolWorkerPool } from '@ch4p/agent';
+import { Session, AgentLoop, ContextManager, FormatVerifier, LLMVerifier, createAutoRecallHook, createAutoSummarizeHook, ToolWorkerPool, MemoryUsageStore } from '@ch4p/agent';
+import type { BudgetEnforcer } from '@ch4p/agent';
 import { NativeEngine, createClaudeCliEngine, createCodexCliEngine } from '@ch4p/engines';
 import { ProviderRegistry } from '@ch4p/providers';
-import { ToolRegistry, LoadSkillTool } from '@ch4p/tools';
+import { ToolRegistry, LoadSkillTool, ScheduleTool, SendAttachmentTool, removeSandboxContainers } from '@ch4p/tools';
 import { SkillRegistry } from '@ch4p/skills';
-import { createObserver } from '@ch4p/observability';
-import type { ObservabilityConfig } from '@ch4p/observability';
-import { createMemoryBackend } from '@ch4p/memory';
-import type { MemoryConfig } from '@ch4p/memory';
+import { createObserver, MetricsObserver, MultiObserver } from '@ch4p/observability';
+import type { MetricFamily, ObservabilityConfig } from '@ch4p/observability';
+import { createMemoryBackend, ingestDocuments } from '@ch4p/memory';
+import type { MemoryConfig, IngestOpts } from '@ch4p/memory';
 import { DefaultSecurityPolicy } from '@ch4p/security';
 import { Supervisor } from '@ch4p/supervisor';
 import type { ChildHandle } from '@ch4p/supervisor';
@@ -61,6 +69,9 @@ import type { VoiceConfig } from '@ch4p/voice';
 import { TEAL, RESET, BOLD, DIM, GREEN, YELLOW, RED, box, kvRow } from '../ui.js';
 import { buildSystemPrompt } from '../system-prompt.js';
 import { AgentRouter } from '../agent-router.js';
+import { RoleResolver, roleAllowsTool } from '../roles.js';
+import { resolveAttachmentOpts, buildMessageContent } from '../attachments.js';
+import type { AttachmentOpts } from '../attachments.js';
 
 // ---------------------------------------------------------------------------
 // Channel factory
@@ -77,6 +88,10 @@ function createChannelInstance(channelName: string): IChannel | null {
       return new DiscordChannel();
     case 'slack':
       return new SlackChannel();
+    case 'mattermost':
+      return new MattermostChannel();
+    case 'rocketchat':
+      return new RocketChatChannel();
     case 'cli':
       return new CliChannel();
     case 'matrix':
@@ -101,6 +116,8 @@ function createChannelInstance(channelName: string): IChannel | null {
       return new WebChatChannel();
     case 'irc':
       return new IrcChannel();
+    case 'email':
+      return new EmailChannel();
     case 'macos':
       return new MacOSChannel();
     default:
@@ -154,11 +171,11 @@ function createGatewayEngine(config: Ch4pConfig) {
   }
 
   try {
-    const provider = ProviderRegistry.createProvider({
-      id: providerName,
-      type: providerName,
-      ...providerConfig,
-    });
+    const provider = ProviderRegistry.createChain(
+      [providerName, ...(config.agent.fallbackProviders ?? [])],
+      config.providers,
+      config.agent.failover,
+    );
     return new NativeEngine({ provider, defaultModel: config.agent.model });
   } catch {
     return null;
@@ -176,8 +193,78 @@ const MAX_CONTEXTS = 500;
 /** Reduced token budget for gateway contexts (vs full 128K default). */
 const GATEWAY_CONTEXT_MAX_TOKENS = 32_000;
 
-/** Max depth of per-user pending message queue before older messages are replaced. */
-const MAX_PENDING_PER_USER = 2;
+/** Max depth of a conversation's pending message queue; beyond it new senders' messages are turned away. */
+const MAX_PENDING_PER_ROUTE = 2;
+
+/** How long a timed-out run may take to stop before its conversation moves on without it. */
+const RUN_ABORT_GRACE_MS = 30_000;
+
+/**
+ * An agent run in progress for one conversation. `permissionPending` is set
+ * while a subprocess engine waits on a TTY-style prompt; `approvalPending`
+ * holds the call ID of a tool call waiting for an approve/deny reply. Only
+ * `requester` (the sender who started the run) can answer either, and only
+ * the requester, under `requesterRole`, can steer or interrupt the run.
+ * `steered` and `interrupted` record what the mailbox did to the run.
+ */
+interface InFlightLoop {
+  loop: AgentLoop;
+  requester: string;
+  requesterRole: string | undefined;
+  permissionPending: boolean;
+  approvalPending: string | null;
+  steered: PendingMessage[];
+  interrupted: boolean;
+}
+
+/**
+ * A message waiting for its conversation's current run to finish, with the
+ * principal who sent it and the name of their resolved role.
+ */
+interface PendingMessage {
+  msg: InboundMessage;
+  channel: IChannel;
+  principal: string;
+  role: string | undefined;
+}
+
+/** Messages held back by the rate limiter in 'queue' mode, merged into one. */
+interface HeldMessage {
+  msg: InboundMessage;
+  channel: IChannel;
+  count: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler helpers
+// ---------------------------------------------------------------------------
+
+/** Open the job store selected by `scheduler.store` (SQLite by default). */
+function openJobStore(config: Ch4pConfig): IJobStore {
+  if (config.scheduler?.store === 'memory') {
+    return new MemoryJobStore();
+  }
+  return new SQLiteJobStore({
+    dbPath: config.scheduler?.path ?? join(getCh4pDir(), 'jobs.db'),
+  });
+}
+
+/** Open the user store selected by `users.store` (SQLite by default). */
+function openUserStore(config: Ch4pConfig): IUserStore {
+  if (config.users?.store === 'memory') {
+    return new MemoryUserStore();
+  }
+  return new SQLiteUserStore({
+    dbPath: config.users?.path ?? join(getCh4pDir(), 'users.db'),
+  });
+}
+
+/** Short description of when a job runs, for the startup log. */
+function describeTiming(job: Pick<JobSpec, 'schedule' | 'at' | 'everyMs' | 'timezone'>): string {
+  const timing = job.schedule ?? (job.at !== undefined ? `at ${String(job.at)}` : `every ${(job.everyMs ?? 0) / 1000}s`);
+  return job.timezone ? `${timing} ${job.timezone}` : timing;
+}
 
 // ---------------------------------------------------------------------------
 // Settings panel helpers
@@ -270,7 +357,7 @@ export function applySafeUpdates(current: Ch4pConfig, updates: Record<string, un
 // ---------------------------------------------------------------------------
 
 export async function gateway(args: string[]): Promise<void> {
-  let config;
+  let config: Ch4pConfig;
   try {
     config = loadConfig();
   } catch (err) {
@@ -295,8 +382,48 @@ export async function gateway(args: string[]): Promise<void> {
   const host = config.gateway.allowPublicBind ? '0.0.0.0' : '127.0.0.1';
   const requirePairing = config.gateway.requirePairing;
 
+  // Session store — persists session config, history and routes so
+  // conversations survive a restart. Falls back to memory if it can't open.
+  let sessionStore: ISessionStore;
+  try {
+    sessionStore = openSessionStore(config);
+    sessionStore.prune(sessionRetention(config));
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    console.log(`  ${YELLOW}⚠ Session store unavailable (${errMsg}) — sessions will not persist.${RESET}`);
+    sessionStore = new MemorySessionStore();
+  }
+
+  // Usage ledger — every engine call is recorded here and checked against
+  // usage.budgets before the next one.
+  let usageStore: IUsageStore;
+  try {
+    usageStore = openUsageStore(config);
+    pruneUsage(usageStore, config);
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    console.log(`  ${YELLOW}⚠ Usage store unavailable (${errMsg}) — budgets reset on restart.${RESET}`);
+    usageStore = new MemoryUsageStore();
+  }
+  const budget = createBudgetEnforcer(config, usageStore);
+
+  // User directory — links one person's accounts on different channels so
+  // they share memory, budgets and optionally a conversation.
+  let userStore: IUserStore | undefined;
+  let userDirectory: UserDirectory | undefined;
+  if (config.users?.linking) {
+    try {
+      userStore = openUserStore(config);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.log(`  ${YELLOW}⚠ User store unavailable (${errMsg}) — account links will not persist.${RESET}`);
+      userStore = new MemoryUserStore();
+    }
+    userDirectory = new UserDirectory({ store: userStore });
+  }
+
   // Create gateway components.
-  const sessionManager = new SessionManager();
+  const sessionManager = new SessionManager(sessionStore);
   const pairingManager = requirePairing ? new PairingManager() : undefined;
 
   // Create the engine for processing channel messages.
@@ -328,6 +455,9 @@ export async function gateway(args: string[]): Promise<void> {
       backend: config.memory.backend,
       vectorWeight: config.memory.vectorWeight,
       keywordWeight: config.memory.keywordWeight,
+      recencyWeight: config.memory.recencyWeight,
+      halfLifeDays: config.memory.halfLifeDays,
+      usageWeight: config.memory.usageWeight,
       embeddingProvider: config.memory.embeddingProvider,
       embeddingProviders: config.memory.embeddingProviders,
       embeddingDimensions: config.memory.embeddingDimensions ?? 768,
@@ -381,6 +511,8 @@ export async function gateway(args: string[]): Promise<void> {
 
   // Create agent router — evaluates config.routing rules per inbound message.
   const agentRouter = new AgentRouter(config);
+  // Per-user roles — autonomy, tools, agent and rate limit by sender.
+  const roleResolver = new RoleResolver(config);
 
   // Warn early if routing rules reference agent names that aren't defined.
   // Without this, mis-spelled agent names silently fall back to default.
@@ -433,8 +565,11 @@ export async function gateway(args: string[]): Promise<void> {
     observers: config.observability.observers ?? ['console'],
     logLevel: config.observability.logLevel ?? 'info',
     logPath: `${getLogsDir()}/gateway.jsonl`,
+    otel: config.observability.otel,
   };
-  const observer = createObserver(obsCfg);
+  // The metrics observer feeds GET /metrics alongside the configured observers.
+  const metrics = new MetricsObserver();
+  const observer = new MultiObserver([createObserver(obsCfg), metrics]);
 
   // Create tool worker pool — provides process isolation for heavyweight tools
   // (web_fetch, browser). The pool is created once and shared across all sessions.
@@ -476,6 +611,9 @@ export async function gateway(args: string[]): Promise<void> {
     }
   }
 
+  // Inbound image and document attachments.
+  const attachmentOpts = await resolveAttachmentOpts(config, engine.id) ?? undefined;
+
   // In-flight tracker for graceful drain on SIGTERM.
   // Incremented when an agent run starts, decremented when it finishes.
   let inFlightCount = 0;
@@ -517,14 +655,23 @@ export async function gateway(args: string[]): Promise<void> {
   // Files live at ~/.ch4p/sessions/{hash}.json; deleted on successful completion.
   const sessionNotes = new SessionNotes(getCh4pDir());
 
-  // Track in-flight agent loops per user so permission-prompt replies from the
-  // channel can be forwarded to the subprocess stdin instead of spawning a new loop.
-  const inFlightLoops = new Map<string, { loop: AgentLoop; permissionPending: boolean }>();
+  // Track in-flight agent loops per conversation (route key) so permission-prompt
+  // and tool-approval replies from the channel reach the running loop instead of
+  // spawning a new one, and a conversation never has two runs at once.
+  const inFlightLoops = new Map<string, InFlightLoop>();
+
+  // Per-conversation pending message queue (max depth MAX_PENDING_PER_ROUTE). Follow-ups
+  // sent while an agent run is active are queued and processed in order after the
+  // current run finishes. Consecutive messages from one sender are merged into one entry.
+  const pendingMessages = new Map<string, PendingMessage[]>();
+
+  // Actions last offered as a numbered list, per route key, on channels
+  // without buttons. Only the next message in the conversation can pick one.
+  const offeredActions = new Map<string, MessageAction[]>();
 
-  // Per-user pending message queue (max depth MAX_PENDING_PER_USER). When a user sends
-  // follow-ups while an agent run is active, up to 2 messages are queued and processed
-  // in order after the current run finishes. Messages beyond the cap replace the last entry.
-  const pendingMessages = new Map<string, Array<{ msg: InboundMessage; channel: IChannel }>>();
+  // Token-bucket limits per sender, group and channel, checked before routing.
+  const inboundLimiter = new InboundLimiter(config.gateway.rateLimit);
+  const heldMessages = new Map<string, HeldMessage>();
 
   // Map of channel names to their raw webhook handlers (Teams, Google Chat).
   // Populated during channel startup; the server's onRawWebhook callback
@@ -538,6 +685,68 @@ export async function gateway(args: string[]): Promise<void> {
     },
   });
 
+  // Job scheduler — config jobs plus reminders created with the schedule tool
+  // or POST /jobs. Jobs and their run times persist in the job store, so
+  // reminders survive a restart and missed runs are caught up.
+  let scheduler: Scheduler | undefined;
+  let jobStore: IJobStore | undefined;
+  if (config.scheduler?.enabled) {
+    try {
+      jobStore = openJobStore(config);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.log(`  ${YELLOW}⚠ Job store unavailable (${errMsg}) — scheduled jobs will not persist.${RESET}`);
+      jobStore = new MemoryJobStore();
+    }
+    scheduler = new Scheduler({
+      store: jobStore,
+      catchUp: config.scheduler.catchUp,
+      onTrigger: (job) => {
+        const targetChannel = job.target ? channelRegistry.get(job.target.channelId) : undefined;
+        dispatchScheduledJob(job, targetChannel, {
+          channel: logChannel as unknown as IChannel, router: messageRouter,
+          engine, config, observer, conversationContexts, agentRouter, roleResolver, defaultSystemPrompt,
+          memoryBackend, skillRegistry, voiceProcessor, attachmentOpts, onInflightChange: trackInflight,
+          workerPool, inFlightLoops, pendingMessages, offeredActions, inboundLimiter, heldMessages, sharedVerifier, sessionStore, budget, scheduler, userDirectory,
+        });
+      },
+    });
+  }
+
+  // Point-in-time gauges for GET /metrics; counters come from the metrics observer.
+  const gatewayGauges = (): MetricFamily[] => {
+    const gauge = (name: string, help: string, value: number): MetricFamily =>
+      ({ name, help, type: 'gauge', samples: [{ value }] });
+    const families = [
+      gauge('sessions_active', 'Sessions held by the session manager.', sessionManager.listSessions().length),
+      gauge('messages_inflight', 'Inbound messages being processed.', inFlightCount),
+      gauge('agent_loops_inflight', 'Agent loops running for a conversation.', inFlightLoops.size),
+      gauge('messages_pending', 'Follow-up messages queued behind a running loop.',
+        [...pendingMessages.values()].reduce((n, queue) => n + queue.length, 0)),
+      gauge('messages_held', 'Messages held back by the rate limiter.', heldMessages.size),
+    ];
+    const pool = workerPool?.getStats();
+    if (pool) {
+      families.push(
+        gauge('worker_pool_workers', 'Tool worker threads.', pool.workerCount),
+        gauge('worker_pool_active_tasks', 'Tool tasks running on workers.', pool.activeTasks),
+        gauge('worker_pool_queue_depth', 'Tool tasks waiting for a worker.', pool.queuedTasks),
+        { name: 'worker_pool_tasks_total', help: 'Tool tasks finished on workers.', type: 'counter', samples: [
+          { labels: { status: 'ok' }, value: pool.completedTasks },
+          { labels: { status: 'error' }, value: pool.failedTasks },
+        ] },
+      );
+    }
+    const pairing = pairingManager?.stats();
+    if (pairing) {
+      families.push(
+        gauge('pairing_codes_active', 'Unexpired pairing codes.', pairing.activeCodes),
+        gauge('pairing_clients', 'Paired clients with valid tokens.', pairing.pairedClients),
+      );
+    }
+    return families;
+  };
+
   const server = new GatewayServer({
     port,
     host,
@@ -546,19 +755,22 @@ export async function gateway(args: string[]): Promise<void> {
     defaultSessionConfig,
     agentRegistration,
     preHandler: x402Middleware ?? undefined,
+    scheduler,
+    memoryBackend,
     onWebhook: (name, payload) => {
       const syntheticMsg: InboundMessage = {
         id: generateId(16),
         channelId: `webhook:${name}`,
         from: { channelId: `webhook:${name}`, userId: payload.userId ?? 'webhook' },
         text: payload.message,
+        synthetic: true,
         timestamp: new Date(),
       };
       handleInboundMessage({
         msg: syntheticMsg, channel: logChannel as unknown as IChannel, router: messageRouter,
-        engine, config, observer, conversationContexts, agentRouter, defaultSystemPrompt,
-        memoryBackend, skillRegistry, voiceProcessor, onInflightChange: trackInflight,
-        workerPool, inFlightLoops, pendingMessages, sharedVerifier,
+        engine, config, observer, conversationContexts, agentRouter, roleResolver, defaultSystemPrompt,
+        memoryBackend, skillRegistry, voiceProcessor, attachmentOpts, onInflightChange: trackInflight,
+        workerPool, inFlightLoops, pendingMessages, offeredActions, inboundLimiter, heldMessages, sharedVerifier, sessionStore, budget, scheduler, userDirectory,
       });
     },
     onRawWebhook: (name, body) => {
@@ -576,7 +788,19 @@ export async function gateway(args: string[]): Promise<void> {
         }
       }
     },
+    onApproval: (sessionId, callId, decision) => {
+      for (const entry of inFlightLoops.values()) {
+        if (entry.loop.getSessionId() === sessionId && entry.loop.resolveApproval(callId, decision)) {
+          if (entry.approvalPending === callId) entry.approvalPending = null;
+          return true;
+        }
+      }
+      return false;
+    },
     onGetConfig: () => buildSafeConfig(config),
+    onGetUsage: (query) => ({ ...buildUsageReport(usageStore, budget, parseUsageQuery(query)) }),
+    onGetMetrics: config.gateway.metrics?.enabled === false ? undefined : () => metrics.render(gatewayGauges()),
+    metricsToken: config.gateway.metrics?.token,
     onSaveConfig: async (updates) => {
       config = applySafeUpdates(config, updates);
       saveConfig(config);
@@ -601,6 +825,11 @@ export async function gateway(args: string[]): Promise<void> {
     kvRow('Pairing', requirePairing ? `${GREEN}required${RESET}` : `${YELLOW}disabled${RESET}`),
     kvRow('Engine', engine ? engine.name : `${YELLOW}none (no API key)${RESET}`),
     kvRow('Memory', memoryBackend ? config.memory.backend : `${DIM}disabled${RESET}`),
+    kvRow('Sessions', sessionStore.id === 'sqlite' ? `${GREEN}persistent${RESET} ${DIM}(sqlite)${RESET}` : `${DIM}in-memory${RESET}`),
+    kvRow('Users', userDirectory ? `${GREEN}linking enabled${RESET}${config.users?.sharedConversation ? ` ${DIM}(shared conversations)${RESET}` : ''}` : `${DIM}disabled${RESET}`),
+    kvRow('Roles', roleResolver.hasRoles() ? `${GREEN}${Object.keys(config.roles?.definitions ?? {}).join(', ')}${RESET}` : `${DIM}none${RESET}`),
+    kvRow('Budgets', config.usage?.budgets?.length ? `${GREEN}${config.usage.budgets.length} polic${config.usage.budgets.length === 1 ? 'y' : 'ies'}${RESET}` : `${DIM}none${RESET}`),
+    kvRow('Attachments', attachmentOpts ? `${GREEN}enabled${RESET} ${DIM}(${attachmentOpts.vision ? 'images + documents' : 'documents only'})${RESET}` : `${DIM}disabled${RESET}`),
     kvRow('Voice', voiceProcessor ? `${GREEN}enabled${RESET} (STT: ${voiceCfg?.stt.provider ?? '?'}, TTS: ${voiceCfg?.tts.provider ?? 'none'})` : `${DIM}disabled${RESET}`),
     kvRow('Workers', workerPool ? `${GREEN}enabled${RESET} ${DIM}(max 4 threads)${RESET}` : `${DIM}inline (worker script not built)${RESET}`),
     kvRow('Identity', agentRegistration ? `${GREEN}enabled${RESET} (chain ${config.identity?.chainId ?? 8453})` : `${DIM}disabled${RESET}`),
@@ -618,7 +847,23 @@ export async function gateway(args: string[]): Promise<void> {
   console.log(`  ${DIM}  POST   /sessions            - create a new session${RESET}`);
   console.log(`  ${DIM}  GET    /sessions/:id        - get session details${RESET}`);
   console.log(`  ${DIM}  POST   /sessions/:id/steer  - inject message into session${RESET}`);
+  console.log(`  ${DIM}  POST   /sessions/:id/approvals/:callId - answer a tool approval${RESET}`);
   console.log(`  ${DIM}  DELETE /sessions/:id        - end a session${RESET}`);
+  console.log(`  ${DIM}  GET    /usage               - token/cost usage and budgets${RESET}`);
+  if (config.gateway.metrics?.enabled !== false) {
+    console.log(`  ${DIM}  GET    /metrics             - Prometheus metrics${RESET}`);
+  }
+  if (scheduler) {
+    console.log(`  ${DIM}  GET    /jobs                - list scheduled jobs${RESET}`);
+    console.log(`  ${DIM}  POST   /jobs                - create a scheduled job${RESET}`);
+    console.log(`  ${DIM}  PATCH  /jobs/:id            - enable or disable a job${RESET}`);
+    console.log(`  ${DIM}  DELETE /jobs/:id            - delete a job${RESET}`);
+  }
+  if (memoryBackend) {
+    console.log(`  ${DIM}  GET    /memory              - list or search memories${RESET}`);
+    console.log(`  ${DIM}  POST   /memory              - create or edit a memory${RESET}`);
+    console.log(`  ${DIM}  DELETE /memory/:key         - forget a memory${RESET}`);
+  }
   console.log('');
 
   // ----- Start channel adapters (supervised) -----
@@ -630,9 +875,11 @@ export async function gateway(args: string[]): Promise<void> {
   const channelSupervisor = new Supervisor({ strategy: 'one-for-one', maxRestarts: 5, windowMs: 60_000 });
 
   channelSupervisor.on('child:crashed', (childId, error) => {
+    metrics.increment('channel_crashes_total', 'Channel crashes seen by the supervisor.', { channel: childId });
     console.log(`  ${YELLOW}⚠ Channel ${childId} crashed:${RESET} ${error.message}`);
   });
   channelSupervisor.on('child:restarted', (childId, _handle, attempt) => {
+    metrics.increment('channel_restarts_total', 'Channel restarts by the supervisor.', { channel: childId });
     console.log(`  ${GREEN}✓${RESET} Channel ${childId} restarted ${DIM}(attempt ${attempt})${RESET}`);
   });
   channelSupervisor.on('supervisor:max_restarts_exceeded', (childId, count, windowMs) => {
@@ -678,11 +925,18 @@ export async function gateway(args: string[]): Promise<void> {
 
       // Wire inbound messages: channel → voice → messageRouter → AgentLoop → channel.send()
       channel.onMessage((msg: InboundMessage) => {
+        observer.onChannelMessage({
+          channelId: msg.channelId ?? channelName,
+          direction: 'inbound',
+          userId: msg.from.userId,
+          messageLength: msg.text.length,
+          timestamp: msg.timestamp,
+        });
         handleInboundMessage({
           msg, channel, router: messageRouter, engine, config, observer,
-          conversationContexts, agentRouter, defaultSystemPrompt,
-          memoryBackend, skillRegistry, voiceProcessor, onInflightChange: trackInflight,
-          workerPool, inFlightLoops, pendingMessages, sharedVerifier, sessionNotes,
+          conversationContexts, agentRouter, roleResolver, defaultSystemPrompt,
+          memoryBackend, skillRegistry, voiceProcessor, attachmentOpts, onInflightChange: trackInflight,
+          workerPool, inFlightLoops, pendingMessages, offeredActions, inboundLimiter, heldMessages, sharedVerifier, sessionNotes, sessionStore, budget, scheduler, userDirectory,
         });
       });
 
@@ -770,44 +1024,29 @@ export async function gateway(args: string[]): Promise<void> {
     console.log('');
   }
 
-  // ----- Start cron scheduler (optional) -----
-  let scheduler: Scheduler | undefined;
-  const schedulerCfg = (config as unknown as Record<string, unknown>).scheduler as Record<string, unknown> | undefined;
-  if (schedulerCfg?.enabled) {
-    const jobs = (schedulerCfg.jobs ?? []) as Array<{ name: string; schedule: string; message: string; enabled?: boolean; userId?: string }>;
-    if (jobs.length > 0) {
-      scheduler = new Scheduler({
-        onTrigger: (job: CronJob) => {
-          const syntheticMsg: InboundMessage = {
-            id: generateId(16),
-            channelId: `cron:${job.name}`,
-            from: { channelId: `cron:${job.name}`, userId: job.userId ?? 'cron' },
-            text: job.message,
-            timestamp: new Date(),
-          };
-          handleInboundMessage({
-            msg: syntheticMsg, channel: logChannel as unknown as IChannel, router: messageRouter,
-            engine, config, observer, conversationContexts, agentRouter, defaultSystemPrompt,
-            memoryBackend, skillRegistry, voiceProcessor, onInflightChange: trackInflight,
-            workerPool, inFlightLoops, pendingMessages, sharedVerifier,
-          });
-        },
-      });
-
-      for (const job of jobs) {
-        try {
-          scheduler.addJob(job);
-          console.log(`  ${GREEN}✓${RESET} cron: ${job.name} ${DIM}(${job.schedule})${RESET}`);
-        } catch (err) {
-          const errMsg = err instanceof Error ? err.message : String(err);
-          console.log(`  ${RED}✗${RESET} cron: ${job.name}: ${errMsg}`);
-        }
+  // ----- Start job scheduler (optional) -----
+  if (scheduler) {
+    const configJobs = config.scheduler?.jobs ?? [];
+    for (const job of configJobs) {
+      try {
+        scheduler.addJob(job, 'config');
+        console.log(`  ${GREEN}✓${RESET} cron: ${job.name} ${DIM}(${describeTiming(job)})${RESET}`);
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        console.log(`  ${RED}✗${RESET} cron: ${job.name}: ${errMsg}`);
       }
+    }
 
-      scheduler.start();
-      console.log(`  ${BOLD}Scheduler${RESET}     ${GREEN}running${RESET} (${scheduler.size} job${scheduler.size === 1 ? '' : 's'})`);
-      console.log('');
+    // Drop persisted config jobs that have since been removed from config.
+    const configIds = new Set(configJobs.map((job) => job.id ?? job.name));
+    for (const job of scheduler.listJobs()) {
+      if (job.createdBy === 'config' && !configIds.has(job.id)) scheduler.removeJob(job.id);
     }
+
+    scheduler.start();
+    const persisted = jobStore?.id === 'sqlite' ? ` ${DIM}(sqlite)${RESET}` : '';
+    console.log(`  ${BOLD}Scheduler${RESET}     ${GREEN}running${RESET} (${scheduler.size} job${scheduler.size === 1 ? '' : 's'})${persisted}`);
+    console.log('');
   }
 
   // Print webhook status.
@@ -848,13 +1087,14 @@ export async function gateway(args: string[]): Promise<void> {
           threadId: note.threadId || undefined,
         },
         text: preamble + note.request,
+        synthetic: true,
         timestamp: new Date(),
       };
       handleInboundMessage({
-        msg: syntheticMsg, channel: ch, router: messageRouter, engine, config, observer,
-        conversationContexts, agentRouter, defaultSystemPrompt,
-        memoryBackend, skillRegistry, voiceProcessor, onInflightChange: trackInflight,
-        workerPool, inFlightLoops, pendingMessages, sharedVerifier, sessionNotes,
+        msg: syntheticMsg, channel: ch, skipRateLimit: true, router: messageRouter, engine, config, observer,
+        conversationContexts, agentRouter, roleResolver, defaultSystemPrompt,
+        memoryBackend, skillRegistry, voiceProcessor, attachmentOpts, onInflightChange: trackInflight,
+        workerPool, inFlightLoops, pendingMessages, offeredActions, inboundLimiter, heldMessages, sharedVerifier, sessionNotes, sessionStore, budget, scheduler, userDirectory,
       });
       resumed++;
       await new Promise<void>((r) => setTimeout(r, 500));
@@ -867,12 +1107,11 @@ export async function gateway(args: string[]): Promise<void> {
   // Periodic eviction of stale entries from unbounded maps (every 5 minutes).
   const CONTEXT_IDLE_MS = 60 * 60_000; // 1 hour
   const evictionTimer = setInterval(() => {
-    gatewayRateLimiter.evictStale();
+    inboundLimiter.evictStale();
 
     // Measure heap before eviction so we can apply pressure-sensitive idle windows.
     const heap = process.memoryUsage();
     const heapMB = Math.round(heap.heapUsed / 1024 / 1024);
-    const rssMB = Math.round(heap.rss / 1024 / 1024);
 
     // Under memory pressure shrink the idle window so contexts evict much sooner
     // rather than waiting a full hour.  This frees V8 strings / closures held by
@@ -889,9 +1128,16 @@ export async function gateway(args: string[]): Promise<void> {
     }
 
     // Evict idle sessions, stale routes, and idle canvas sessions.
+    // Persisted sessions stay in the store and rehydrate on the next message.
     sessionManager.evictIdle(contextIdleMs);
     messageRouter.evictStale();
     server.evictIdleCanvas(contextIdleMs);
+    try {
+      sessionStore.prune(sessionRetention(config));
+      pruneUsage(usageStore, config);
+    } catch {
+      // Not critical — retry on the next sweep.
+    }
 
     // Nudge the GC so the heap measurement reflects actual retained memory,
     // not uncollected garbage.  Without this, V8's lazy GC shows a slow
@@ -928,13 +1174,52 @@ export async function gateway(args: string[]): Promise<void> {
     }
   }, 5 * 60_000);
 
+  // Memory upkeep — delete expired memories every hour and, when enabled,
+  // merge near-duplicate conversation summaries every intervalHours. The
+  // backend records everything it removes in its audit log.
+  let memoryUpkeepTimer: ReturnType<typeof setInterval> | undefined;
+  if (memoryBackend?.prune) {
+    const backend = memoryBackend;
+    const consolidation = config.memory.consolidation;
+    const consolidateEveryMs = (consolidation?.intervalHours ?? 24) * 60 * 60_000;
+    const summarize = consolidation?.enabled ? createConsolidationSummarizer(config) : undefined;
+    let lastConsolidated = Date.now();
+    let upkeepRunning = false;
+
+    memoryUpkeepTimer = setInterval(() => {
+      if (upkeepRunning) return;
+      upkeepRunning = true;
+      void (async () => {
+        try {
+          const expired = await backend.prune!();
+          if (expired.length > 0) {
+            console.log(`  ${DIM}[memory] Pruned ${expired.length} expired memories.${RESET}`);
+          }
+          if (consolidation?.enabled && backend.consolidate && Date.now() - lastConsolidated >= consolidateEveryMs) {
+            lastConsolidated = Date.now();
+            const report = await backend.consolidate({ similarity: consolidation.similarity, summarize });
+            if (report.removed > 0) {
+              console.log(`  ${DIM}[memory] Merged ${report.removed + report.groups.length} duplicate summaries into ${report.groups.length}.${RESET}`);
+            }
+          }
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : String(err);
+          console.log(`  ${YELLOW}[memory] Upkeep failed: ${errMsg}${RESET}`);
+        } finally {
+          upkeepRunning = false;
+        }
+      })();
+    }, Math.min(60 * 60_000, consolidateEveryMs));
+  }
+
   // Keep the process alive until interrupted.
   await new Promise<void>((resolve) => {
     const shutdown = async () => {
       clearInterval(evictionTimer);
+      if (memoryUpkeepTimer) clearInterval(memoryUpkeepTimer);
       console.log(`\n  ${DIM}Shutting down gateway...${RESET}`);
 
-      // Stop scheduler so no new cron triggers fire.
+      // Stop scheduler so no new jobs fire.
       if (scheduler) {
         scheduler.stop();
       }
@@ -948,6 +1233,10 @@ export async function gateway(args: string[]): Promise<void> {
         }
       }
 
+      // Messages held by the rate limiter are dropped rather than started now.
+      for (const held of heldMessages.values()) clearTimeout(held.timer);
+      heldMessages.clear();
+
       // Drain: wait for any in-flight agent runs to complete (30s timeout).
       if (inFlightCount > 0) {
         console.log(`  ${DIM}Draining ${inFlightCount} in-flight message(s)...${RESET}`);
@@ -972,6 +1261,15 @@ export async function gateway(args: string[]): Promise<void> {
         }
       }
 
+      // Remove the per-session sandbox containers started by this gateway.
+      if (config.security.sandbox?.backend === 'docker') {
+        try {
+          await removeSandboxContainers();
+        } catch {
+          // Best-effort cleanup.
+        }
+      }
+
       // Close memory backend so WAL is checkpointed before exit.
       if (memoryBackend) {
         try {
@@ -981,6 +1279,28 @@ export async function gateway(args: string[]): Promise<void> {
         }
       }
 
+      // Close the session store after the drain so final histories are written.
+      try {
+        sessionStore.close();
+      } catch {
+        // Best-effort close.
+      }
+      try {
+        usageStore.close();
+      } catch {
+        // Best-effort close.
+      }
+      try {
+        jobStore?.close();
+      } catch {
+        // Best-effort close.
+      }
+      try {
+        userStore?.close();
+      } catch {
+        // Best-effort close.
+      }
+
       await server.stop();
       await observer.flush?.();
       console.log(`  ${DIM}Goodbye!${RESET}\n`);
@@ -1001,83 +1321,332 @@ export async function gateway(args: string[]): Promise<void> {
 }
 
 // ---------------------------------------------------------------------------
-// Per-user rate limiter (sliding window)
+// Inbound message handler
 // ---------------------------------------------------------------------------
 
 /**
- * Sliding-window rate limiter. Allows up to `maxRequests` within a rolling
- * `windowMs` period per key. Keys are auto-evicted after one full window
- * of inactivity.
+ * Answer a `/link` or `/unlink` command. Codes are only handed out and
+ * redeemed in private chats, where nobody else can read them.
  */
-class RateLimiter {
-  private readonly windows = new Map<string, number[]>();
+function runLinkCommand(
+  directory: UserDirectory,
+  command: LinkCommand,
+  msg: InboundMessage,
+  identity: ChannelIdentity,
+): string {
+  if (command.action === 'unlink') {
+    return directory.unlink(identity)
+      ? 'Unlinked. This account no longer shares memory or usage limits with your other accounts.'
+      : "This account isn't linked to any other.";
+  }
+  if (msg.from.groupId && !msg.from.isDirect) {
+    return 'Send /link in a private chat with me to link your accounts.';
+  }
+  if (!command.code) {
+    const { code, expiresAt } = directory.createLinkCode(identity);
+    const minutes = Math.round((expiresAt.getTime() - Date.now()) / 60_000);
+    return `Your link code is ${code}. Within ${minutes} minutes, send "/link ${code}" to me from the account you want to link.`;
+  }
+  try {
+    const user = directory.redeemLinkCode(command.code, identity);
+    const others = [...new Set(user.identities
+      .filter((i) => i.channelId !== identity.channelId || i.userId !== identity.userId)
+      .map((i) => i.channelId))];
+    return `Linked. This account now shares memory and usage limits with your ${others.join(', ')} account${others.length > 1 ? 's' : ''}.`;
+  } catch (err) {
+    return err instanceof Ch4pError ? err.message : 'Linking failed.';
+  }
+}
 
-  constructor(
-    private readonly maxRequests: number,
-    private readonly windowMs: number,
-  ) {}
+// ---------------------------------------------------------------------------
+// Scheduled jobs
+// ---------------------------------------------------------------------------
 
-  /** Returns true if the request is allowed; false if rate-limited. */
-  allow(key: string): boolean {
-    const now = Date.now();
-    const cutoff = now - this.windowMs;
+/**
+ * Run a due job as a message from its target. The reply goes to the target
+ * on `targetChannel` when that channel is running; otherwise only to
+ * `opts.channel`, the log, as for webhooks. Jobs aren't rate limited: the
+ * user was counted when they asked for the reminder.
+ */
+export function dispatchScheduledJob(
+  job: ScheduledJob,
+  targetChannel: IChannel | undefined,
+  opts: Omit<InboundMessageOpts, 'msg'>,
+): void {
+  const from = targetChannel && job.target
+    ? job.target
+    : { channelId: `cron:${job.name}`, userId: job.userId ?? 'cron' };
+  const msg: InboundMessage = {
+    id: generateId(16),
+    channelId: from.channelId,
+    from,
+    text: job.message,
+    synthetic: true,
+    timestamp: new Date(),
+  };
+  handleInboundMessage({ ...opts, msg, channel: targetChannel ?? opts.channel, skipRateLimit: true });
+}
 
-    const timestamps = (this.windows.get(key) ?? []).filter((t) => t > cutoff);
-    if (timestamps.length >= this.maxRequests) {
-      return false;
-    }
-    timestamps.push(now);
-    this.windows.set(key, timestamps);
+// ---------------------------------------------------------------------------
+// Rate limiting and coalescing helpers
+// ---------------------------------------------------------------------------
+
+/** The polite reply to a message the rate limiter rejected. */
+function rateLimitReply(decision: Extract<LimitDecision, { allowed: false }>): string {
+  const seconds = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+  switch (decision.scope) {
+    case 'channel':
+      return `I'm getting more messages than I can handle right now. Please try again in ${seconds}s.`;
+    case 'group':
+      return `This chat is sending messages faster than I can answer. Please wait ${seconds}s.`;
+    default:
+      return `You are sending messages too quickly. Please wait ${seconds}s.`;
+  }
+}
+
+/**
+ * Hold a rate-limited message and run it once the limiter allows. Further
+ * messages from the same sender are merged into the held one, up to
+ * `gateway.rateLimit.maxQueued`, so a burst is answered in one run.
+ * Returns false when the sender already has the maximum held.
+ */
+function holdMessage(opts: InboundMessageOpts, senderKey: string, retryAfterMs: number): boolean {
+  const { msg, channel, config, heldMessages } = opts;
+  if (!heldMessages) return false;
+  const maxQueued = config.gateway.rateLimit?.maxQueued ?? 5;
+
+  const held = heldMessages.get(senderKey);
+  if (held) {
+    if (held.count >= maxQueued) return false;
+    held.msg = coalesceMessages(held.msg, msg);
+    held.count++;
     return true;
   }
+  if (maxQueued < 1) return false;
+
+  const entry: HeldMessage = {
+    msg,
+    channel,
+    count: 1,
+    timer: setTimeout(() => {
+      heldMessages.delete(senderKey);
+      // Every message in the burst was counted and acknowledged as it arrived.
+      handleInboundMessage({ ...opts, msg: entry.msg, channel: entry.channel, skipRateLimit: true });
+    }, retryAfterMs),
+  };
+  heldMessages.set(senderKey, entry);
+  channel.send(msg.from, {
+    text: `You're sending messages quickly — I'll answer in about ${Math.ceil(retryAfterMs / 1000)}s.`,
+    replyTo: replyTarget(msg),
+  }).catch(() => {});
+  return true;
+}
 
-  /** Remove expired timestamps from all keys; delete keys that are fully expired. */
-  evictStale(): void {
-    const now = Date.now();
-    const cutoff = now - this.windowMs;
-    for (const [key, timestamps] of this.windows) {
-      const filtered = timestamps.filter((t) => t > cutoff);
-      if (filtered.length === 0) {
-        this.windows.delete(key);
-      } else if (filtered.length < timestamps.length) {
-        this.windows.set(key, filtered);
-      }
+/** True when two pending messages would run as the same principal under the same role. */
+function sameSender(a: PendingMessage, b: PendingMessage): boolean {
+  return a.principal === b.principal && a.role === b.role;
+}
+
+/** Merge two messages from a burst into one; replies go to the later one. */
+function coalesceMessages(first: InboundMessage, next: InboundMessage): InboundMessage {
+  const attachments = [...(first.attachments ?? []), ...(next.attachments ?? [])];
+  return {
+    ...next,
+    text: [first.text, next.text].filter(Boolean).join('\n\n'),
+    ...(attachments.length > 0 ? { attachments } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Message actions
+// ---------------------------------------------------------------------------
+
+/** Routes with a numbered list of actions awaiting a reply, at most. */
+const MAX_OFFERED_ACTIONS = 1_000;
+
+/**
+ * Send a message that offers actions. Channels without buttons get them as
+ * a numbered list, remembered under `routeKey` so the reply can be matched.
+ */
+function sendWithActions(
+  opts: InboundMessageOpts,
+  to: Recipient,
+  message: OutboundMessage,
+  routeKey: string,
+): Promise<SendResult> {
+  const { channel, offeredActions } = opts;
+  const actions = message.actions ?? [];
+  if (actions.length === 0 || channel.supportsActions) return channel.send(to, message);
+
+  if (offeredActions) {
+    offeredActions.delete(routeKey);
+    offeredActions.set(routeKey, actions);
+    if (offeredActions.size > MAX_OFFERED_ACTIONS) {
+      const oldest = offeredActions.keys().next().value;
+      if (oldest !== undefined) offeredActions.delete(oldest);
     }
   }
+  return channel.send(to, { ...message, text: formatActionsAsText(message.text, actions), actions: undefined });
 }
 
-/** Gateway-level per-user rate limiter: max 20 messages per 60 s window. */
-const gatewayRateLimiter = new RateLimiter(20, 60_000);
+// ---------------------------------------------------------------------------
+// Indicators
+// ---------------------------------------------------------------------------
+
+/** Typing indicators expire after 5-10 s depending on the platform. */
+const TYPING_RENEW_MS = 4_000;
+
+/** The platform message a reply threads to; none for synthetic messages. */
+function replyTarget(msg: InboundMessage): string | undefined {
+  return msg.synthetic ? undefined : msg.id;
+}
+
+/** Send a read receipt and react 👀, where the channel and config allow. */
+function acknowledgeReceipt(opts: InboundMessageOpts): void {
+  const { channel, msg, config } = opts;
+  if (msg.synthetic) return;
+  const indicators = config.gateway.indicators;
+  if (indicators?.readReceipts !== false) {
+    channel.markRead?.(msg.from, msg.id).catch(() => {});
+  }
+  if (indicators?.reactions !== false) {
+    channel.react?.(msg.from, msg.id, '👀').catch(() => {});
+  }
+}
+
+/** React ✅ to a message whose run completed. */
+function acknowledgeCompletion(opts: InboundMessageOpts): void {
+  const { channel, msg, config } = opts;
+  if (msg.synthetic || config.gateway.indicators?.reactions === false) return;
+  channel.react?.(msg.from, msg.id, '✅').catch(() => {});
+}
+
+/**
+ * Show the bot as typing until the returned function is called. Renewals
+ * are skipped while `paused()` is true, e.g. while waiting on an approval.
+ */
+function keepTyping(opts: InboundMessageOpts, paused: () => boolean): () => void {
+  const { channel, msg, config } = opts;
+  if (!channel.setTyping || config.gateway.indicators?.typing === false) return () => {};
+  const renew = (): void => {
+    if (!paused()) channel.setTyping?.(msg.from).catch(() => {});
+  };
+  renew();
+  const timer = setInterval(renew, TYPING_RENEW_MS);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
 
 // ---------------------------------------------------------------------------
-// Inbound message handler
+// Mailbox
 // ---------------------------------------------------------------------------
 
+/**
+ * Handle a message for a conversation whose run is still in flight, as set
+ * by `gateway.mailbox.mode`. `queue` is the conversation's pending queue and
+ * is updated in place.
+ *
+ * Group threads share one conversation, so only the run's requester, under
+ * the same role, can steer or interrupt it. Anyone else's message waits for
+ * a run of its own, and messages from different senders are never merged:
+ * a merged message runs with the role, tools and budget of its sender.
+ */
+function deliverToMailbox(opts: InboundMessageOpts, inflight: InFlightLoop, queue: PendingMessage[], entry: PendingMessage): void {
+  const { msg, channel, config } = opts;
+  const mode = config.gateway.mailbox?.mode ?? 'queue';
+  const fromRequester = entry.principal === inflight.requester && entry.role === inflight.requesterRole;
+  const acknowledge = (text: string): void => {
+    if (config.gateway.mailbox?.feedback === 'none') return;
+    channel.send(msg.from, { text, replyTo: replyTarget(msg) }).catch(() => {});
+  };
+
+  // Attachments can't be injected into a running loop; they wait for a run of their own.
+  if (mode === 'steer' && fromRequester && msg.text && !msg.attachments?.length) {
+    inflight.loop.steer({ type: 'inject', content: msg.text, timestamp: new Date() });
+    inflight.steered.push(entry);
+    if (inflight.steered.length === 1) acknowledge("Got it — I'll take that into account.");
+    return;
+  }
+
+  if (mode === 'interrupt' && fromRequester) {
+    // The requester's waiting messages become one, answered instead of the
+    // current run; other senders' messages keep their place after it.
+    const own = queue.filter((pending) => sameSender(pending, entry));
+    const others = queue.filter((pending) => !sameSender(pending, entry));
+    const merged = [...own.map((pending) => pending.msg), msg].reduce(coalesceMessages);
+    queue.splice(0, queue.length, { ...entry, msg: merged }, ...others);
+    if (!inflight.interrupted) {
+      inflight.interrupted = true;
+      inflight.loop.abort('Interrupted by a new message');
+      acknowledge('Stopping to look at your new message.');
+    }
+    return;
+  }
+
+  // 'collect' merges each sender's follow-ups into one entry. 'queue' (and
+  // whatever 'steer' or 'interrupt' can't take) merges a burst from one
+  // sender into the last entry. Either keeps up to MAX_PENDING_PER_ROUTE
+  // entries; a new sender's message beyond that is turned away.
+  const last = queue[queue.length - 1];
+  let target: PendingMessage | undefined;
+  if (mode === 'collect') {
+    target = queue.find((pending) => sameSender(pending, entry));
+  } else if (last && sameSender(last, entry)) {
+    target = last;
+  }
+  if (target) {
+    target.msg = coalesceMessages(target.msg, msg);
+  } else if (queue.length >= MAX_PENDING_PER_ROUTE) {
+    channel.send(msg.from, {
+      text: "I've got too many messages waiting in this conversation. Please send yours again once I've answered them.",
+      replyTo: replyTarget(msg),
+    }).catch(() => {});
+  } else {
+    queue.push(entry);
+    // Acknowledge a sender's first queued message; don't spam on repeated follow-ups.
+    acknowledge("Got it — I'll get to your message once I finish what I'm working on.");
+  }
+}
+
 /**
  * All dependencies required by handleInboundMessage, passed as a single
  * typed object so TypeScript catches missing fields at compile time.
  * (Replaces the previous 17-parameter positional signature that allowed
  * closure-scoped variables to slip through as runtime ReferenceErrors.)
  */
-interface InboundMessageOpts {
+export interface InboundMessageOpts {
   msg: InboundMessage;
   channel: IChannel;
   router: MessageRouter;
-  engine: ReturnType<typeof createGatewayEngine>;
+  engine: IEngine | null;
   config: Ch4pConfig;
   observer: ReturnType<typeof createObserver>;
   conversationContexts: Map<string, { ctx: ContextManager; lastActiveAt: number }>;
   agentRouter: AgentRouter;
+  roleResolver?: RoleResolver;
   defaultSystemPrompt: string;
   memoryBackend?: ReturnType<typeof createMemoryBackend>;
   skillRegistry?: SkillRegistry;
   voiceProcessor?: VoiceProcessor;
+  attachmentOpts?: AttachmentOpts;
   onInflightChange?: (delta: 1 | -1) => void;
   workerPool?: ToolWorkerPool;
-  inFlightLoops?: Map<string, { loop: AgentLoop; permissionPending: boolean }>;
-  pendingMessages?: Map<string, Array<{ msg: InboundMessage; channel: IChannel }>>;
+  inFlightLoops?: Map<string, InFlightLoop>;
+  pendingMessages?: Map<string, PendingMessage[]>;
+  offeredActions?: Map<string, MessageAction[]>;
+  inboundLimiter?: InboundLimiter;
+  heldMessages?: Map<string, HeldMessage>;
+  /**
+   * Set for queued follow-ups, which were counted when they arrived, and
+   * for messages the gateway makes up itself.
+   */
+  skipRateLimit?: boolean;
   sharedVerifier?: FormatVerifier | LLMVerifier;
   sessionNotes?: SessionNotes;
+  sessionStore?: ISessionStore;
+  budget?: BudgetEnforcer;
+  scheduler?: Scheduler;
+  userDirectory?: UserDirectory;
 }
 
 /**
@@ -1091,72 +1660,162 @@ interface InboundMessageOpts {
  * onInflightChange is called with +1 when processing starts and -1 when done,
  * enabling the gateway to drain in-flight work before exiting.
  */
-function handleInboundMessage(opts: InboundMessageOpts): void {
+export function handleInboundMessage(opts: InboundMessageOpts): void {
   const {
     msg, channel, router, engine, config, observer,
-    conversationContexts, agentRouter, defaultSystemPrompt,
-    memoryBackend, skillRegistry, voiceProcessor,
-    onInflightChange, workerPool, inFlightLoops, pendingMessages, sharedVerifier,
-    sessionNotes,
+    conversationContexts, agentRouter, roleResolver, defaultSystemPrompt,
+    memoryBackend, skillRegistry, voiceProcessor, attachmentOpts,
+    onInflightChange, workerPool, inFlightLoops, pendingMessages, offeredActions, inboundLimiter, sharedVerifier,
+    sessionNotes, sessionStore, budget, scheduler, userDirectory, skipRateLimit,
   } = opts;
   if (!engine) {
     // No engine available — send a polite error back.
     channel.send(msg.from, {
       text: 'ch4p is not configured with an LLM engine. Please set up an API key via `ch4p onboard`.',
-      replyTo: msg.id,
+      replyTo: replyTarget(msg),
     }).catch(() => {});
     return;
   }
 
-  // Allow voice-only messages through — they may contain audio attachments
-  // that the VoiceProcessor will transcribe.
+  // Allow attachment-only messages through — audio is transcribed by the
+  // VoiceProcessor, images and documents are added to the context.
   const hasAudio = msg.attachments?.some((a) => a.type === 'audio') ?? false;
-  if (!msg.text && !hasAudio) return;
+  const hasOtherAttachments = (attachmentOpts && msg.attachments?.some((a) => a.type !== 'audio')) ?? false;
+  if (!msg.text && !hasAudio && !hasOtherAttachments) return;
 
-  // Per-user rate limit — reject excess messages to prevent DoS.
+  // Linked accounts resolve to one directory id, used for rate limits,
+  // memory and budgets in place of "channelId:userId".
   const { userId } = msg.from;
-  const rateLimitKey = `${msg.channelId ?? 'unknown'}:${userId ?? 'anonymous'}`;
-  if (!gatewayRateLimiter.allow(rateLimitKey)) {
-    channel.send(msg.from, {
-      text: 'You are sending messages too quickly. Please wait a moment.',
-      replyTo: msg.id,
-    }).catch(() => {});
+  const linkedUserId = userDirectory && userId !== undefined
+    ? userDirectory.resolve({ channelId: msg.channelId, userId })
+    : undefined;
+  const principal = linkedUserId ?? `${msg.channelId ?? 'unknown'}:${userId ?? 'anonymous'}`;
+  // Private chats from linked accounts continue one conversation when enabled.
+  const sharedUserId = config.users?.sharedConversation ? linkedUserId : undefined;
+
+  // The sender's role decides autonomy, tools, agent and rate limit.
+  const role = roleResolver?.resolve(msg, linkedUserId);
+
+  // Token-bucket rate limits per sender, group and channel — every message
+  // can start an expensive run. Excess messages are held or rejected.
+  if (inboundLimiter && !skipRateLimit) {
+    const roleLimit = role?.policy.rateLimit;
+    const decision = inboundLimiter.take(msg, principal, roleLimit && {
+      burst: roleLimit.maxMessages,
+      perMinute: (roleLimit.maxMessages * 60) / (roleLimit.windowSeconds ?? 60),
+    });
+    if (!decision.allowed) {
+      if (decision.tripped) {
+        observer.onSecurityEvent({
+          type: 'rate_limited',
+          details: {
+            scope: decision.scope,
+            key: decision.key,
+            channelId: msg.channelId,
+            userId,
+            groupId: msg.from.groupId,
+            retryAfterMs: decision.retryAfterMs,
+          },
+          timestamp: new Date(),
+        });
+      }
+      const held = config.gateway.rateLimit?.onLimit === 'queue'
+        && holdMessage(opts, principal, decision.retryAfterMs);
+      if (held) {
+        acknowledgeReceipt(opts);
+      } else if (decision.tripped) {
+        // Reply once per flood; a reply to every message would double the traffic.
+        channel.send(msg.from, { text: rateLimitReply(decision), replyTo: replyTarget(msg) }).catch(() => {});
+      }
+      return;
+    }
+  }
+
+  // Re-dispatched messages were acknowledged when they first arrived.
+  if (!skipRateLimit) acknowledgeReceipt(opts);
+
+  // Account linking commands are answered by the gateway, not the agent.
+  if (userDirectory && userId !== undefined) {
+    const command = parseLinkCommand(msg.text ?? '');
+    if (command) {
+      channel.send(msg.from, {
+        text: runLinkCommand(userDirectory, command, msg, { channelId: msg.channelId, userId }),
+        replyTo: replyTarget(msg),
+      }).catch(() => {});
+      return;
+    }
+  }
+
+  // Per-conversation concurrency guard — only one active agent run per route
+  // key. Without this, rapid messages spawn parallel AgentLoops that each hold
+  // Session + ToolRegistry + engine connections, causing O(N) memory growth,
+  // and participants in a shared thread would run over the same context.
+  const runKey = buildRouteKey(msg, sharedUserId);
+
+  // A reply to actions offered as a numbered list becomes the chosen action.
+  // The offer only stands for the conversation's next message.
+  const offered = offeredActions?.get(runKey);
+  if (offered && !msg.action) {
+    offeredActions?.delete(runKey);
+    const chosen = matchActionReply(msg.text ?? '', offered);
+    if (chosen) {
+      handleInboundMessage({ ...opts, msg: { ...msg, text: chosen.label, action: chosen.id }, skipRateLimit: true });
+      return;
+    }
+  }
+
+  // An approval button answers the tool call it names, wherever the
+  // requester pressed it; buttons land in threads a run isn't keyed on.
+  const approvalPress = msg.action ? parseApprovalAction(msg.action) : null;
+  if (approvalPress) {
+    const { callId, decision } = approvalPress;
+    const entry = [...(inFlightLoops?.values() ?? [])]
+      .find((e) => e.approvalPending === callId && e.requester === principal);
+    if (entry?.loop.resolveApproval(callId, decision)) {
+      entry.approvalPending = null;
+    } else {
+      channel.send(msg.from, { text: 'That approval is no longer pending.', replyTo: replyTarget(msg) }).catch(() => {});
+    }
     return;
   }
 
-  // Per-user concurrency guard — only one active agent run per user.
-  // Without this, rapid messages spawn parallel AgentLoops that each hold
-  // Session + ToolRegistry + engine connections, causing O(N) memory growth.
-  const userKey = `${msg.channelId ?? 'unknown'}:${msg.from.userId ?? 'anonymous'}`;
   if (inFlightLoops) {
-    const inflight = inFlightLoops.get(userKey);
+    const inflight = inFlightLoops.get(runKey);
+
+    // A reply from the requester while a tool call waits for approval answers
+    // that approval. Expired approvals no longer capture replies.
+    if (inflight?.approvalPending && inflight.requester === principal) {
+      const callId = inflight.approvalPending;
+      if (inflight.loop.getPendingApprovals().some((p) => p.callId === callId)) {
+        const decision = parseApprovalReply(msg.text ?? '');
+        if (decision) {
+          inflight.loop.resolveApproval(callId, decision);
+          inflight.approvalPending = null;
+        } else {
+          channel.send(msg.from, {
+            text: 'A tool call is waiting for your approval. Reply "yes", "no [reason]", or "edit {json}".',
+            replyTo: replyTarget(msg),
+          }).catch(() => {});
+        }
+        return;
+      }
+      inflight.approvalPending = null;
+    }
+
     if (inflight) {
-      if (inflight.permissionPending) {
+      if (inflight.permissionPending && inflight.requester === principal) {
         // Forward to subprocess stdin for permission-prompt responses.
         inflight.loop.steerEngine(msg.text ?? '');
         inflight.permissionPending = false;
       } else if (pendingMessages) {
-        // Queue follow-up messages (max depth 2). Beyond the cap, replace the last entry.
-        const queue = pendingMessages.get(userKey) ?? [];
-        if (queue.length < MAX_PENDING_PER_USER) {
-          queue.push({ msg, channel });
-        } else {
-          // Cap reached — replace the last entry with the newest message.
-          queue[queue.length - 1] = { msg, channel };
-        }
-        pendingMessages.set(userKey, queue);
-        // Acknowledge the first queued message; don't spam on repeated follow-ups.
-        if (queue.length === 1) {
-          channel.send(msg.from, {
-            text: "Got it — I'll get to your message once I finish what I'm working on.",
-            replyTo: msg.id,
-          }).catch(() => {});
-        }
+        const queue = pendingMessages.get(runKey) ?? [];
+        deliverToMailbox(opts, inflight, queue, { msg, channel, principal, role: role?.name });
+        if (queue.length > 0) pendingMessages.set(runKey, queue);
       } else {
         // No queue available — reject to prevent concurrent memory pressure.
         channel.send(msg.from, {
           text: "I'm still working on your previous message. Please wait for me to finish.",
-          replyTo: msg.id,
+          replyTo: replyTarget(msg),
         }).catch(() => {});
       }
       return;
@@ -1164,37 +1823,76 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
   }
 
   // Route the message to a session.
-  const routeResult = router.route(msg);
+  const routeResult = router.route(msg, sharedUserId);
   if (!routeResult) return;
 
   // Run the agent asynchronously — don't block the channel handler.
   onInflightChange?.(1);
   void (async () => {
     let runTimer: ReturnType<typeof setTimeout> | undefined;
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    let inflightEntry: InFlightLoop | undefined;
+    let released = false;
+    let completed = false;
+    const stopTyping = keepTyping(opts, () => inflightEntry?.approvalPending != null);
+
+    // Hand the conversation on to its next pending message. Runs once: from
+    // the finally block, or earlier when a timed-out run ignores its abort.
+    const release = (): void => {
+      if (released) return;
+      released = true;
+      clearTimeout(graceTimer);
+
+      const queue = pendingMessages?.get(runKey) ?? [];
+      // Steered messages that arrived too late for the run get one of their own.
+      const unread = inflightEntry?.loop.takeUnreadInjects().length ?? 0;
+      if (inflightEntry && unread > 0) {
+        const missed = inflightEntry.steered.slice(-unread);
+        queue.unshift({ ...missed[0]!, msg: missed.map((entry) => entry.msg).reduce(coalesceMessages) });
+      }
+      const next = queue.shift();
+      if (queue.length === 0) pendingMessages?.delete(runKey);
+      else pendingMessages?.set(runKey, queue);
+
+      // Remove the in-flight entry so the next call doesn't hit the guard.
+      if (inflightEntry === undefined || inFlightLoops?.get(runKey) === inflightEntry) {
+        inFlightLoops?.delete(runKey);
+      }
+      if (next) {
+        // Don't decrement inflight count — the next run continues the work.
+        // It already passed the rate limiter when it was queued.
+        handleInboundMessage({ ...opts, msg: next.msg, channel: next.channel, skipRateLimit: true });
+      } else {
+        onInflightChange?.(-1);
+      }
+    };
+
     // Declared here (not inside try) so the finally block can access it for
     // session-note cleanup even when an exception fires before the assignment.
     let contextKey = '';
+    let sharedContext: ContextManager | undefined;
     try {
       // Process voice attachments (STT) if voice is enabled.
       const processedMsg = voiceProcessor
         ? await voiceProcessor.processInbound(msg)
         : msg;
 
-      // After voice processing, ensure we have text to work with.
-      if (!processedMsg.text) return;
+      // After voice processing, ensure we have something to work with.
+      const content = attachmentOpts
+        ? await buildMessageContent(processedMsg, channel, attachmentOpts)
+        : processedMsg.text;
+      if (content.length === 0) return;
 
       // Resolve routing decision early — before context creation so the
       // routed system prompt is used on the very first message.
-      const routing = agentRouter.route(processedMsg, defaultSystemPrompt);
-
-      // Get or create a shared context — key mirrors MessageRouter.buildRouteKey
-      // so topic/thread conversations are isolated from each other.
-      const { userId, groupId, threadId } = msg.from;
-      contextKey = (groupId && threadId)
-        ? `${msg.channelId ?? ''}:group:${groupId}:thread:${threadId}`
-        : groupId
-          ? `${msg.channelId ?? ''}:group:${groupId}:user:${userId ?? 'anonymous'}`
-          : `${msg.channelId ?? ''}:${userId ?? 'anonymous'}`;
+      const routing = role?.policy.agent
+        ? agentRouter.routeToAgent(role.policy.agent, defaultSystemPrompt)
+        : agentRouter.route(processedMsg, defaultSystemPrompt);
+
+      // Get or create a shared context — keyed like the session route so
+      // topic/thread conversations are isolated from each other.
+      contextKey = runKey;
       let contextEntry = conversationContexts.get(contextKey);
       if (!contextEntry) {
         // Evict least-recently-used context when at capacity.
@@ -1215,12 +1913,15 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
           ?? routeResult.config.systemPrompt
           ?? defaultSystemPrompt;
         ctx.setSystemPrompt(initPrompt);
+        // Rehydrate history persisted before an eviction or restart.
+        const history = sessionStore?.loadHistory(routeResult.sessionId);
+        if (history) ctx.restore(history);
         contextEntry = { ctx, lastActiveAt: Date.now() };
         conversationContexts.set(contextKey, contextEntry);
       } else {
         contextEntry.lastActiveAt = Date.now();
       }
-      const sharedContext = contextEntry.ctx;
+      sharedContext = contextEntry.ctx;
 
       // Write a session note before the run starts so a crash mid-run leaves
       // enough information to resume.  The note is deleted in the finally block
@@ -1236,9 +1937,15 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
         recentActivity: [],
       });
 
-      // Build routed session config.
+      // Build routed session config. Usage is billed to the sender, not the
+      // session's creator, so each participant of a shared thread pays for
+      // their own turns, on the channel this message came from.
+      const autonomyLevel = role?.policy.autonomy ?? config.autonomy.level;
       const routedSessionConfig = {
         ...routeResult.config,
+        channelId: msg.channelId,
+        userId: principal,
+        autonomyLevel,
         model: routing.model ?? routeResult.config.model,
         systemPrompt: routing.systemPrompt ?? routeResult.config.systemPrompt,
       };
@@ -1248,7 +1955,7 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
         maxErrors: config.agent.maxSessionErrors,
       });
       // Build exclusion list based on autonomy level and feature flags.
-      const toolExclude = config.autonomy.level === 'readonly'
+      const toolExclude = autonomyLevel === 'readonly'
         ? ['bash', 'file_write', 'file_edit', 'delegate', 'browser']
         : ['delegate', 'browser'];
       if (!config.mesh?.enabled) {
@@ -1258,22 +1965,41 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
       for (const t of routing.toolExclude) {
         if (!toolExclude.includes(t)) toolExclude.push(t);
       }
+      const allowTool = (name: string) => !toolExclude.includes(name) && roleAllowsTool(role, name);
       const tools = ToolRegistry.createDefault({ exclude: toolExclude });
 
       // Register load_skill tool when skills are available.
-      if (skillRegistry && skillRegistry.size > 0) {
+      if (skillRegistry && skillRegistry.size > 0 && allowTool('load_skill')) {
         tools.register(new LoadSkillTool(skillRegistry));
       }
 
+      // Register the schedule tool so the agent can set reminders for this user.
+      const scheduleTool = scheduler && config.scheduler?.agentTool !== false && allowTool('schedule');
+      if (scheduleTool) {
+        tools.register(new ScheduleTool());
+      }
+
+      // Let the agent attach files to its reply on channels that can upload them.
+      const outboundAttachments: Attachment[] = [];
+      const attachTool = channel.maxAttachmentBytes !== undefined && allowTool('send_attachment');
+      if (attachTool) {
+        tools.register(new SendAttachmentTool());
+      }
+
       // Register x402_pay tool when x402 plugin is enabled.
       const x402PluginCfg = (config as unknown as Record<string, unknown>).x402 as X402Config | undefined;
-      if (x402PluginCfg?.enabled) {
+      if (x402PluginCfg?.enabled && allowTool('x402_pay')) {
         tools.register(new X402PayTool());
       }
 
+      // Drop default tools the sender's role doesn't allow.
+      for (const name of tools.names()) {
+        if (!roleAllowsTool(role, name)) tools.unregister(name);
+      }
+
       const securityPolicy = new DefaultSecurityPolicy({
         workspace: routeResult.config.cwd ?? process.cwd(),
-        autonomyLevel: config.autonomy.level,
+        autonomyLevel,
         allowedCommands: config.autonomy.allowedCommands,
         blockedPaths: config.security.blockedPaths,
       });
@@ -1281,14 +2007,15 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
       // Wire auto-memory hooks when memory is available and autoSave is on.
       // Use a per-user namespace (u:{channelId}:{userId}) so memories are
       // scoped per user per channel — preventing cross-user and cross-channel
-      // memory bleed in multi-tenant gateway deployments.
+      // memory bleed in multi-tenant gateway deployments. Linked accounts
+      // share the namespace of the account that started the link.
       const autoSave = config.memory.autoSave !== false;
-      const memNamespace = `u:${msg.channelId ?? 'unknown'}:${userId ?? 'anonymous'}`;
+      const memNamespace = `u:${principal}`;
       const onBeforeFirstRun = (memoryBackend && autoSave)
         ? createAutoRecallHook(memoryBackend, { namespace: memNamespace })
         : undefined;
       const onAfterComplete = (memoryBackend && autoSave)
-        ? createAutoSummarizeHook(memoryBackend, { namespace: memNamespace })
+        ? createAutoSummarizeHook(memoryBackend, { namespace: memNamespace, ttlMs: summaryTtlMs(config) })
         : undefined;
 
       // Build toolContextExtensions for search config when available.
@@ -1301,6 +2028,14 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
           searchLang: config.search.searchLang,
         };
       }
+      if (config.security.sandbox) {
+        toolContextExtensions.sandbox = getSandboxConfig(config);
+      }
+      if (memoryBackend) {
+        toolContextExtensions.memoryIngest = (target: string, opts: IngestOpts) => ingestDocuments(memoryBackend, target, opts);
+        // memory_fact keeps each user's entities apart, like their memories.
+        toolContextExtensions.memoryNamespace = memNamespace;
+      }
 
       // Wire x402 EIP-712 signer when client private key is configured.
       // This enables the X402PayTool to produce real on-chain payment signatures
@@ -1317,6 +2052,24 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
         toolContextExtensions.agentWalletAddress = walletAddress(cc.privateKey!);
       }
 
+      // Scheduled jobs are delivered back to the conversation they were created
+      // in, or to a private chat on one of the sender's linked accounts.
+      if (scheduleTool) {
+        toolContextExtensions.scheduler = scheduler;
+        toolContextExtensions.scheduleTarget = msg.from;
+        const linked = linkedUserId ? userDirectory?.getUser(linkedUserId) : undefined;
+        if (linked) {
+          toolContextExtensions.linkedTargets = linked.identities
+            .filter((identity) => identity.channelId !== msg.channelId)
+            .map(({ channelId, userId: linkedId }) => ({ channelId, userId: linkedId }));
+        }
+      }
+
+      if (attachTool) {
+        toolContextExtensions.outboundAttachments = outboundAttachments;
+        toolContextExtensions.maxAttachmentBytes = channel.maxAttachmentBytes;
+      }
+
       // Provide resolveEngine so the DelegateTool can spawn sub-agent loops.
       // For now, resolve always returns the shared gateway engine (single-engine).
       toolContextExtensions.resolveEngine = (_engineId?: string) => engine;
@@ -1339,19 +2092,40 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
         maxToolResults: config.agent.maxToolResults,
         maxToolOutputLen: config.agent.maxToolOutputLen,
         maxStateRecords: config.agent.maxStateRecords,
+        // Gated tool calls are approved by replying in the channel or via
+        // POST /sessions/:id/approvals/:callId.
+        enableApprovals: true,
+        approvalTimeoutMs: config.autonomy.approvalTimeout,
+        budget,
+        agentName: routing.agentName,
       });
 
-      // Register loop so permission-prompt replies can be routed to subprocess stdin.
-      if (inFlightLoops) {
-        inFlightLoops.set(userKey, { loop, permissionPending: false });
-      }
+      // Register loop so permission-prompt and approval replies reach it.
+      inflightEntry = {
+        loop,
+        requester: principal,
+        requesterRole: role?.name,
+        permissionPending: false,
+        approvalPending: null,
+        steered: [],
+        interrupted: false,
+      };
+      inFlightLoops?.set(runKey, inflightEntry);
 
       // Per-run timeout — abort the loop if it exceeds the configured duration.
       // Prevents stuck subprocess/engine calls from locking out users indefinitely.
       const DEFAULT_RUN_TIMEOUT_MS = 300_000; // 5 minutes
       const runTimeoutMs = config.agent.runTimeout ?? DEFAULT_RUN_TIMEOUT_MS;
       runTimer = setTimeout(() => {
+        timedOut = true;
         loop.abort('Gateway run timeout exceeded');
+        // An engine stuck in a call may not notice the abort. Don't let it
+        // hold up the messages queued behind it.
+        graceTimer = setTimeout(() => {
+          console.log(`  ${YELLOW}[gateway]${RESET} Run for ${runKey} did not stop after timeout; moving on.`);
+          release();
+        }, RUN_ABORT_GRACE_MS);
+        graceTimer.unref?.();
       }, runTimeoutMs);
 
       let responseText = '';
@@ -1359,29 +2133,59 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
       // Pattern that indicates the subprocess is waiting for user permission input.
       const PERM_RE = /\[y\/n\]|\[Y\/N\]|do you want to|allow this|permission required/i;
 
-      for await (const event of loop.run(processedMsg.text)) {
+      for await (const event of loop.run(content)) {
         if (event.type === 'text') {
           responseText = event.partial;
           // Detect permission prompts and flag the loop as waiting for user response.
           if (inFlightLoops && PERM_RE.test(event.partial)) {
-            const entry = inFlightLoops.get(userKey);
+            const entry = inFlightLoops.get(runKey);
             if (entry) entry.permissionPending = true;
           }
         } else if (event.type === 'complete') {
+          completed = true;
           responseText = event.answer;
           // Update the session note with a brief progress snippet so a subsequent
           // crash still has recent context.
           if (event.answer) sessionNotes?.appendActivity(contextKey, event.answer);
         } else if (event.type === 'error') {
           responseText = `Error: ${event.error.message}`;
+        } else if (event.type === 'budget_warning') {
+          console.log(`  ${YELLOW}[budget]${RESET} ${event.message}`);
+          await channel.send(msg.from, {
+            text: `⚠ Usage warning: ${event.message}`,
+            replyTo: replyTarget(msg),
+          }).catch(() => {});
+        } else if (event.type === 'approval_required') {
+          const entry = inFlightLoops?.get(runKey);
+          if (entry) entry.approvalPending = event.callId;
+          console.log(
+            `  ${YELLOW}[approval]${RESET} ${event.tool} ${DIM}session=${loop.getSessionId()} call=${event.callId}${RESET}`,
+          );
+          await sendWithActions(opts, msg.from, {
+            text: formatApprovalPrompt(event),
+            replyTo: replyTarget(msg),
+            actions: approvalActions(event.callId),
+          }, runKey).catch(() => {});
         }
       }
 
-      if (responseText) {
+      stopTyping();
+
+      if (timedOut) {
+        const limit = `${Math.round(runTimeoutMs / 1000)}s`;
+        responseText = responseText
+          ? `${responseText}\n\n_(Stopped: this took longer than ${limit}.)_`
+          : `Sorry, this took longer than ${limit}, so I stopped.`;
+      }
+
+      // An interrupted run's partial answer is dropped; the interrupting message runs next.
+      if (!inflightEntry.interrupted && (responseText || outboundAttachments.length > 0)) {
         const outbound = {
-          text: responseText,
-          replyTo: msg.id,
+          // Channels send the text first; never leave it empty.
+          text: responseText || outboundAttachments.map((a) => a.filename ?? a.type).join(', '),
+          replyTo: replyTarget(msg),
           format: 'markdown' as const,
+          ...(outboundAttachments.length > 0 ? { attachments: outboundAttachments } : {}),
         };
 
         // Synthesize response audio (TTS) if voice is enabled.
@@ -1390,33 +2194,40 @@ function handleInboundMessage(opts: InboundMessageOpts): void {
           : outbound;
 
         await channel.send(msg.from, finalOutbound);
+        if (completed && !timedOut) acknowledgeCompletion(opts);
+        observer.onChannelMessage({
+          channelId: msg.channelId ?? channel.id,
+          direction: 'outbound',
+          userId: msg.from.userId,
+          messageLength: responseText.length,
+          timestamp: new Date(),
+        });
       }
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
       await channel.send(msg.from, {
         text: `Sorry, I encountered an error: ${errMsg}`,
-        replyTo: msg.id,
+        replyTo: replyTarget(msg),
       }).catch(() => {});
     } finally {
       clearTimeout(runTimer);
+      stopTyping();
 
       // Remove the session note — the run completed (successfully or with an error),
       // so there is nothing left to resume on next startup.
       sessionNotes?.delete(contextKey);
 
-      // Process the next queued message for this user, if any.
-      const queue = pendingMessages?.get(userKey);
-      const next = queue?.shift();
-      if (queue && queue.length === 0) pendingMessages.delete(userKey);
-      if (next) {
-        // Remove the in-flight entry so the recursive call doesn't hit the guard.
-        inFlightLoops?.delete(userKey);
-        // Don't decrement inflight count — the next run continues the work.
-        handleInboundMessage({ ...opts, msg: next.msg, channel: next.channel });
-      } else {
-        inFlightLoops?.delete(userKey);
-        onInflightChange?.(-1);
+      // Persist the conversation so it can be rehydrated after a restart.
+      if (sharedContext) {
+        try {
+          sessionStore?.saveHistory(routeResult.sessionId, sharedContext.snapshot());
+        } catch {
+          // Not critical — the in-memory context is still intact.
+        }
       }
+
+      // Process the next queued message for this conversation, if any.
+      release();
     }
   })();
 }
@@ -0,0 +1,254 @@
+/**
+ * MCP command — expose ch4p's tools, memory and skills to other MCP hosts.
+ *
+ * `ch4p mcp serve` runs an MCP server over the default tool registry. Every
+ * tool call runs under the configured DefaultSecurityPolicy, scoped to the
+ * current directory. Skills become MCP prompts and memory entries become
+ * MCP resources.
+ *
+ * Tools the policy would ask the user to confirm (e.g. bash in supervised
+ * mode) are hidden unless --trust-host is passed, which hands that
+ * confirmation to the MCP host's own tool approval UI.
+ *
+ * Over HTTP every request must carry a bearer token: CH4P_MCP_TOKEN when
+ * set, otherwise one generated at startup and printed.
+ *
+ * Usage:
+ *   ch4p mcp serve                 — stdio transport (for host configs)
+ *   ch4p mcp serve --http          — streamable HTTP on 127.0.0.1
+ *   ch4p mcp serve --http --port N — override the HTTP port (default 4810)
+ *   ch4p mcp serve --trust-host    — expose tools that need confirmation
+ */
+
+import { randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Ch4pConfig, IMemoryBackend } from '@ch4p/core';
+import { ToolRegistry, McpServer } from '@ch4p/tools';
+import { createMemoryBackend, ingestDocuments } from '@ch4p/memory';
+import type { MemoryConfig, IngestOpts } from '@ch4p/memory';
+import { DefaultSecurityPolicy } from '@ch4p/security';
+import { SkillRegistry } from '@ch4p/skills';
+import { loadConfig, getSandboxConfig } from '../config.js';
+import { TEAL, RESET, BOLD, DIM, GREEN, YELLOW, RED, separator } from '../ui.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_HTTP_PORT = 4810;
+const HTTP_PATH = '/mcp';
+
+// ---------------------------------------------------------------------------
+// Server construction
+// ---------------------------------------------------------------------------
+
+interface ServeOpts {
+  http: boolean;
+  port: number;
+  trustHost: boolean;
+}
+
+function parseServeArgs(args: string[]): ServeOpts {
+  const opts: ServeOpts = { http: false, port: DEFAULT_HTTP_PORT, trustHost: false };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--http') opts.http = true;
+    if (args[i] === '--trust-host') opts.trustHost = true;
+    if (args[i] === '--port' && args[i + 1]) {
+      const parsed = parseInt(args[i + 1]!, 10);
+      if (!isNaN(parsed) && parsed > 0 && parsed <= 65535) {
+        opts.port = parsed;
+      }
+    }
+  }
+  return opts;
+}
+
+function createMcpServer(
+  config: Ch4pConfig,
+  access: { trustHost: boolean; httpToken?: string },
+  memoryBackend?: IMemoryBackend,
+): McpServer {
+  const cwd = process.cwd();
+
+  // delegate and mesh drive sub-agents through an engine, which an MCP
+  // server has none of. Skills are served as prompts, not load_skill.
+  const exclude = ['delegate', 'mesh'];
+  if (config.autonomy.level === 'readonly') {
+    exclude.push('bash', 'file_write', 'file_edit');
+  }
+  const tools = ToolRegistry.createDefault({ exclude });
+
+  const securityPolicy = new DefaultSecurityPolicy({
+    workspace: cwd,
+    autonomyLevel: config.autonomy.level,
+    allowedCommands: config.autonomy.allowedCommands,
+    blockedPaths: config.security.blockedPaths,
+  });
+
+  let skills: SkillRegistry | undefined;
+  try {
+    if (config.skills?.enabled && config.skills?.paths?.length) {
+      skills = SkillRegistry.createFromPaths(config.skills.paths);
+    }
+  } catch {
+    // Not critical.
+  }
+
+  const toolContextExtensions: Record<string, unknown> = {};
+  if (config.search?.enabled && config.search.apiKey) {
+    toolContextExtensions.searchApiKey = config.search.apiKey;
+    toolContextExtensions.searchConfig = {
+      maxResults: config.search.maxResults,
+      country: config.search.country,
+      searchLang: config.search.searchLang,
+    };
+  }
+  if (config.security.sandbox) {
+    toolContextExtensions.sandbox = getSandboxConfig(config);
+  }
+  if (memoryBackend) {
+    toolContextExtensions.memoryIngest = (target: string, opts: IngestOpts) => ingestDocuments(memoryBackend, target, opts);
+  }
+
+  return new McpServer({
+    tools: tools.list(),
+    securityPolicy,
+    cwd,
+    memoryBackend,
+    skills,
+    toolContextExtensions,
+    hostConfirms: access.trustHost,
+    httpToken: access.httpToken,
+  });
+}
+
+function createMemory(config: Ch4pConfig): IMemoryBackend | undefined {
+  try {
+    const memCfg: MemoryConfig = {
+      backend: config.memory.backend,
+      vectorWeight: config.memory.vectorWeight,
+      keywordWeight: config.memory.keywordWeight,
+      recencyWeight: config.memory.recencyWeight,
+      halfLifeDays: config.memory.halfLifeDays,
+      usageWeight: config.memory.usageWeight,
+      embeddingProvider: config.memory.embeddingProvider,
+      openaiApiKey: (config.providers?.openai?.apiKey as string) || undefined,
+    };
+    return createMemoryBackend(memCfg);
+  } catch {
+    // Not critical — memory tools report the missing backend themselves.
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+async function serveStdio(server: McpServer, memoryBackend?: IMemoryBackend): Promise<void> {
+  // stdout carries the protocol; anything else printed there corrupts it.
+  console.log = console.error;
+  console.info = console.error;
+
+  console.error(`ch4p MCP server on stdio ${DIM}(cwd ${process.cwd()})${RESET}`);
+  await server.serveStdio(process.stdin, process.stdout);
+
+  try {
+    await memoryBackend?.close();
+  } catch {
+    // Best-effort close.
+  }
+}
+
+async function serveHttp(server: McpServer, port: number, token: string, memoryBackend?: IMemoryBackend): Promise<void> {
+  const httpServer = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path !== HTTP_PATH) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+    server.handleHttp(req, res);
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, '127.0.0.1', () => resolve());
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n  ${RED}Failed to start MCP server:${RESET} ${message}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`\n  ${TEAL}${BOLD}ch4p MCP Server${RESET}`);
+  console.log(separator());
+  console.log('');
+  console.log(`  ${BOLD}Endpoint${RESET}    ${GREEN}http://127.0.0.1:${port}${HTTP_PATH}${RESET}`);
+  console.log(`  ${BOLD}Token${RESET}       ${token}`);
+  console.log(`  ${BOLD}Workspace${RESET}   ${process.cwd()}`);
+  console.log(`  ${DIM}Hosts must send Authorization: Bearer <token>. Set CH4P_MCP_TOKEN to keep it across restarts.${RESET}`);
+  console.log(`  ${DIM}Press Ctrl+C to stop.${RESET}\n`);
+
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      server.abortAll('Server shutting down');
+      httpServer.close(() => resolve());
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+
+  try {
+    await memoryBackend?.close();
+  } catch {
+    // Best-effort close.
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+export async function mcp(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  if (subcommand !== 'serve') {
+    console.error(`\n  ${RED}Usage:${RESET} ch4p mcp serve [--http] [--port N] [--trust-host]\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let config: Ch4pConfig;
+  try {
+    config = loadConfig();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n  ${RED}Failed to load config:${RESET} ${message}`);
+    console.error(`  ${DIM}Run ${TEAL}ch4p onboard${DIM} to set up ch4p.${RESET}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const opts = parseServeArgs(args.slice(1));
+  if (opts.trustHost && config.autonomy.level !== 'full') {
+    console.error(
+      `  ${YELLOW}--trust-host:${RESET} tools that need confirmation are exposed; ` +
+      `the MCP host must ask its user before running them.`,
+    );
+  }
+
+  const memoryBackend = createMemory(config);
+  // Any local process can reach 127.0.0.1, so HTTP needs a secret too.
+  const httpToken = opts.http
+    ? process.env.CH4P_MCP_TOKEN || randomBytes(32).toString('base64url')
+    : undefined;
+  const server = createMcpServer(config, { trustHost: opts.trustHost, httpToken }, memoryBackend);
+
+  if (httpToken) {
+    await serveHttp(server, opts.port, httpToken, memoryBackend);
+  } else {
+    await serveStdio(server, memoryBackend);
+  }
+}
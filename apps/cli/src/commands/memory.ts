@@ -0,0 +1,470 @@
+/**
+ * Memory command — manage the persistent memory store from the shell.
+ *
+ * Operates on the configured memory backend directly; the gateway does
+ * not need to be running. Ingested documents use the same embedding
+ * provider as the agent, so they are recalled like any other memory.
+ *
+ * Subcommands:
+ *   ch4p memory list [prefix] [--limit n]
+ *       List memories, optionally only keys starting with `prefix`.
+ *   ch4p memory search <query> [--prefix p] [--limit n]
+ *       Recall memories the way the agent does, with their scores.
+ *   ch4p memory forget <key>
+ *       Delete one memory.
+ *   ch4p memory export <file> [--prefix p]
+ *       Write memories to a JSON Lines file.
+ *   ch4p memory import <file>
+ *       Store every memory in a JSON Lines file written by export.
+ *   ch4p memory ingest <path|url> [--chunk-size n]
+ *       Add a file, every readable file under a folder, or a web page.
+ *       Unchanged documents are skipped on later runs.
+ *   ch4p memory prune
+ *       Delete memories whose expiry has passed.
+ *   ch4p memory consolidate [--similarity n] [--dry-run]
+ *       Merge near-duplicate conversation summaries with the agent's model.
+ *   ch4p memory log [--limit n] [--key k]
+ *       Show what prune and consolidate removed or merged.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import type { Ch4pConfig, IMemoryBackend } from '@ch4p/core';
+import { createMemoryBackend, ingestDocuments } from '@ch4p/memory';
+import type { IngestedDocument, MemoryConfig } from '@ch4p/memory';
+import { createMemorySummarizer } from '@ch4p/agent';
+import { ProviderRegistry } from '@ch4p/providers';
+import { loadConfig } from '../config.js';
+import { TEAL, RESET, BOLD, DIM, GREEN, YELLOW, RED, separator } from '../ui.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Open the memory backend with the same settings as the gateway. */
+function openMemoryBackend(config: Ch4pConfig): IMemoryBackend {
+  const memCfg: MemoryConfig = {
+    backend: config.memory.backend,
+    vectorWeight: config.memory.vectorWeight,
+    keywordWeight: config.memory.keywordWeight,
+    recencyWeight: config.memory.recencyWeight,
+    halfLifeDays: config.memory.halfLifeDays,
+    usageWeight: config.memory.usageWeight,
+    embeddingProvider: config.memory.embeddingProvider,
+    embeddingProviders: config.memory.embeddingProviders,
+    embeddingDimensions: config.memory.embeddingDimensions ?? 768,
+    openaiApiKey: (config.providers?.openai?.apiKey as string) || undefined,
+    ollamaBaseUrl: config.memory.ollama?.baseUrl,
+    ollamaEmbeddingModel: config.memory.ollama?.embeddingModel,
+  };
+  return createMemoryBackend(memCfg);
+}
+
+/** Lifetime of auto-saved conversation summaries, from `memory.summaryTtlDays`. */
+export function summaryTtlMs(config: Ch4pConfig): number | undefined {
+  const days = config.memory.summaryTtlDays ?? 0;
+  return days > 0 ? days * DAY_MS : undefined;
+}
+
+/**
+ * Summarizer that merges duplicate summaries with the agent's provider and
+ * model. Undefined when no usable provider is configured; consolidation then
+ * keeps the newest summary of each group instead.
+ */
+export function createConsolidationSummarizer(
+  config: Ch4pConfig,
+): ((contents: string[]) => Promise<string>) | undefined {
+  const providerName = config.agent.provider;
+  const apiKey = config.providers?.[providerName]?.apiKey as string | undefined;
+  if (providerName !== 'ollama' && !apiKey?.trim()) return undefined;
+
+  try {
+    const provider = ProviderRegistry.createChain(
+      [providerName, ...(config.agent.fallbackProviders ?? [])],
+      config.providers,
+      config.agent.failover,
+    );
+    return createMemorySummarizer(provider, config.agent.model);
+  } catch {
+    return undefined;
+  }
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+/** Arguments that are neither flags nor the values of `valueFlags`. */
+function positionals(args: string[], valueFlags: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !valueFlags.includes(args[i - 1] ?? ''));
+}
+
+/** Parse `--limit`, printing an error and returning null when it is invalid. */
+function parseLimit(args: string[], fallback: number): number | null {
+  const limitArg = flagValue(args, '--limit');
+  const limit = limitArg !== undefined ? parseInt(limitArg, 10) : fallback;
+  if (isNaN(limit) || limit < 1) {
+    console.log(`  ${RED}--limit expects a positive number.${RESET}`);
+    process.exitCode = 1;
+    return null;
+  }
+  return limit;
+}
+
+/** `content` on one line, cut to fit a terminal row. */
+function preview(content: string, width = 72): string {
+  const line = content.replace(/\s+/g, ' ').trim();
+  return line.length > width ? `${line.slice(0, width - 1)}…` : line;
+}
+
+/** One line of an export file. */
+interface ExportedMemory {
+  key: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+const STATUS_COLORS: Record<IngestedDocument['status'], string> = {
+  added: GREEN,
+  updated: GREEN,
+  unchanged: DIM,
+  skipped: YELLOW,
+  failed: RED,
+};
+
+// ---------------------------------------------------------------------------
+// Subcommands
+// ---------------------------------------------------------------------------
+
+async function handleList(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const limit = parseLimit(args, 50);
+  if (limit === null) return;
+
+  const prefix = positionals(args, ['--limit'])[0];
+  // list() matches prefixes loosely on some backends; check them exactly.
+  const entries = (await backend.list(prefix)).filter((e) => !prefix || e.key.startsWith(prefix));
+  if (entries.length === 0) {
+    console.log(`  ${DIM}No memories${prefix ? ` under ${prefix}` : ''}.${RESET}`);
+    return;
+  }
+
+  for (const entry of entries.slice(0, limit)) {
+    const pin = entry.metadata?.['pinned'] === true ? `${YELLOW}★${RESET} ` : '';
+    console.log(`  ${pin}${BOLD}${entry.key}${RESET}`);
+    console.log(`    ${DIM}${preview(entry.content)}${RESET}`);
+  }
+  console.log('');
+  const more = entries.length > limit ? ` ${DIM}(showing ${limit}; use --limit to see more)${RESET}` : '';
+  console.log(`  ${BOLD}Total${RESET}  ${entries.length}${more}`);
+}
+
+async function handleSearch(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const query = positionals(args, ['--prefix', '--limit']).join(' ');
+  if (!query) {
+    console.log(`  ${RED}Usage:${RESET} ch4p memory search <query> [--prefix p] [--limit n]`);
+    process.exitCode = 1;
+    return;
+  }
+  const limit = parseLimit(args, 10);
+  if (limit === null) return;
+
+  const prefix = flagValue(args, '--prefix');
+  const results = (await backend.recall(query, { limit, keyPrefix: prefix }))
+    .filter((r) => !prefix || r.key.startsWith(prefix));
+  if (results.length === 0) {
+    console.log(`  ${DIM}Nothing found for "${query}".${RESET}`);
+    return;
+  }
+
+  for (const result of results) {
+    console.log(`  ${GREEN}${result.score.toFixed(2)}${RESET}  ${BOLD}${result.key}${RESET} ${DIM}(${result.matchType})${RESET}`);
+    console.log(`        ${DIM}${preview(result.content)}${RESET}`);
+  }
+}
+
+async function handleForget(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const key = positionals(args, [])[0];
+  if (!key) {
+    console.log(`  ${RED}Usage:${RESET} ch4p memory forget <key>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (await backend.forget(key)) {
+    console.log(`  ${GREEN}Forgot${RESET} ${key}`);
+  } else {
+    console.log(`  ${YELLOW}No memory with key${RESET} ${key}`);
+    process.exitCode = 1;
+  }
+}
+
+async function handleExport(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const file = positionals(args, ['--prefix'])[0];
+  if (!file) {
+    console.log(`  ${RED}Usage:${RESET} ch4p memory export <file> [--prefix p]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const prefix = flagValue(args, '--prefix');
+  const entries = (await backend.list(prefix)).filter((e) => !prefix || e.key.startsWith(prefix));
+  const lines = entries.map((e) => {
+    const line: ExportedMemory = {
+      key: e.key,
+      content: e.content,
+      ...(e.metadata ? { metadata: e.metadata } : {}),
+      createdAt: e.createdAt.toISOString(),
+      updatedAt: e.updatedAt.toISOString(),
+    };
+    return JSON.stringify(line);
+  });
+  await writeFile(file, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+  console.log(`  ${BOLD}Exported${RESET}  ${entries.length} memor${entries.length === 1 ? 'y' : 'ies'} to ${file}`);
+}
+
+async function handleImport(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const file = positionals(args, [])[0];
+  if (!file) {
+    console.log(`  ${RED}Usage:${RESET} ch4p memory import <file>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const lines = (await readFile(file, 'utf-8')).split('\n');
+  let stored = 0;
+  let skipped = 0;
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    let entry: Partial<ExportedMemory>;
+    try {
+      entry = JSON.parse(line) as Partial<ExportedMemory>;
+    } catch {
+      entry = {};
+    }
+    const metadata = entry.metadata;
+    const validMetadata = metadata === undefined
+      || (typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata));
+    if (typeof entry.key !== 'string' || !entry.key || typeof entry.content !== 'string' || !validMetadata) {
+      console.log(`  ${YELLOW}skipped${RESET}  line ${i + 1} ${DIM}(expected {"key", "content", "metadata"?})${RESET}`);
+      skipped++;
+      continue;
+    }
+    await backend.store(entry.key, entry.content, metadata);
+    stored++;
+  }
+
+  if (skipped > 0) console.log('');
+  console.log(`  ${BOLD}Imported${RESET}  ${stored} memor${stored === 1 ? 'y' : 'ies'} from ${file}`);
+  if (skipped > 0) process.exitCode = 1;
+}
+
+async function handleIngest(backend: IMemoryBackend, args: string[]): Promise<void> {
+  const target = args.find((a, i) => !a.startsWith('--') && args[i - 1] !== '--chunk-size');
+  if (!target) {
+    console.log(`  ${RED}Usage:${RESET} ch4p memory ingest <path|url> [--chunk-size n]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const chunkArg = flagValue(args, '--chunk-size');
+  const maxChunkSize = chunkArg !== undefined ? parseInt(chunkArg, 10) : undefined;
+  if (maxChunkSize !== undefined && (isNaN(maxChunkSize) || maxChunkSize < 100)) {
+    console.log(`  ${RED}--chunk-size expects a number of characters (at least 100).${RESET}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const counts: Record<IngestedDocument['status'], number> = {
+    added: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0,
+  };
+  const report = await ingestDocuments(backend, target, {
+    maxChunkSize,
+    onDocument: (doc) => {
+      counts[doc.status]++;
+      const detail = doc.reason ?? `${doc.chunks} chunk${doc.chunks === 1 ? '' : 's'}`;
+      console.log(`  ${STATUS_COLORS[doc.status]}${doc.status.padEnd(9)}${RESET} ${doc.source} ${DIM}(${detail})${RESET}`);
+    },
+  });
+
+  const summary = (Object.keys(counts) as Array<keyof typeof counts>)
+    .filter((status) => counts[status] > 0)
+    .map((status) => `${counts[status]} ${status}`)
+    .join(', ');
+  console.log('');
+  console.log(`  ${BOLD}Documents${RESET}  ${summary || 'none found'}`);
+  console.log(`  ${BOLD}Stored${RESET}     ${report.chunksStored} chunk(s)`);
+  if (counts.failed > 0) process.exitCode = 1;
+}
+
+async function handlePrune(backend: IMemoryBackend): Promise<void> {
+  if (!backend.prune) {
+    console.log(`  ${YELLOW}The ${backend.id} backend does not support expiry.${RESET}`);
+    return;
+  }
+
+  const removed = await backend.prune();
+  for (const key of removed) {
+    console.log(`  ${YELLOW}expired${RESET}  ${key}`);
+  }
+  if (removed.length > 0) console.log('');
+  console.log(`  ${BOLD}Pruned${RESET}  ${removed.length} expired memor${removed.length === 1 ? 'y' : 'ies'}`);
+}
+
+async function handleConsolidate(backend: IMemoryBackend, config: Ch4pConfig, args: string[]): Promise<void> {
+  if (!backend.consolidate) {
+    console.log(`  ${YELLOW}The ${backend.id} backend does not support consolidation.${RESET}`);
+    return;
+  }
+
+  const similarityArg = flagValue(args, '--similarity');
+  const similarity = similarityArg !== undefined
+    ? parseFloat(similarityArg)
+    : config.memory.consolidation?.similarity;
+  if (similarity !== undefined && (isNaN(similarity) || similarity <= 0 || similarity > 1)) {
+    console.log(`  ${RED}--similarity expects a number above 0 and at most 1.${RESET}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const summarize = dryRun ? undefined : createConsolidationSummarizer(config);
+  if (!dryRun && !summarize) {
+    console.log(`  ${DIM}No model provider configured — keeping the newest summary of each group.${RESET}`);
+    console.log('');
+  }
+
+  const report = await backend.consolidate({ similarity, summarize, dryRun });
+  for (const group of report.groups) {
+    const label = dryRun ? `${DIM}would merge${RESET}` : `${GREEN}merged${RESET}`;
+    console.log(`  ${label} ${group.key} ${DIM}(+${group.merged.length} duplicate${group.merged.length === 1 ? '' : 's'})${RESET}`);
+  }
+  if (report.groups.length > 0) console.log('');
+
+  const duplicates = report.groups.reduce((n, g) => n + g.merged.length, 0);
+  console.log(`  ${BOLD}Groups${RESET}   ${report.groups.length}`);
+  console.log(`  ${BOLD}Removed${RESET}  ${dryRun ? `${duplicates} (dry run, nothing changed)` : report.removed}`);
+}
+
+async function handleLog(backend: IMemoryBackend, args: string[]): Promise<void> {
+  if (!backend.auditLog) {
+    console.log(`  ${YELLOW}The ${backend.id} backend does not keep an audit log.${RESET}`);
+    return;
+  }
+
+  const limit = parseLimit(args, 20);
+  if (limit === null) return;
+
+  const entries = await backend.auditLog({ limit, key: flagValue(args, '--key') });
+  if (entries.length === 0) {
+    console.log(`  ${DIM}Nothing has been pruned or merged yet.${RESET}`);
+    return;
+  }
+
+  for (const entry of entries) {
+    const when = entry.createdAt.toISOString().replace('T', ' ').slice(0, 19);
+    const color = entry.action === 'merge' ? GREEN : YELLOW;
+    console.log(`  ${DIM}${when}${RESET}  ${color}${entry.action.padEnd(6)}${RESET} ${entry.key}`);
+    if (entry.action === 'merge') {
+      const others = entry.removed.filter((r) => r.key !== entry.key);
+      for (const removed of others) {
+        console.log(`  ${' '.repeat(28)}${DIM}← ${removed.key}${RESET}`);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+export async function memory(args: string[]): Promise<void> {
+  let config: Ch4pConfig;
+  try {
+    config = loadConfig();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n  ${RED}Failed to load config:${RESET} ${message}`);
+    console.error(`  ${DIM}Run ${TEAL}ch4p onboard${DIM} to set up ch4p.${RESET}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (config.memory.backend === 'noop') {
+    console.log(`\n  ${YELLOW}Memory is disabled${RESET} ${DIM}(memory.backend is "noop").${RESET}\n`);
+    return;
+  }
+
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  console.log(`\n  ${TEAL}${BOLD}ch4p Memory${RESET}`);
+  console.log(separator());
+  console.log('');
+
+  let backend: IMemoryBackend;
+  try {
+    backend = openMemoryBackend(config);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.log(`  ${RED}Failed to open memory:${RESET} ${message}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    switch (subcommand) {
+      case 'list':
+        await handleList(backend, subArgs);
+        break;
+
+      case 'search':
+        await handleSearch(backend, subArgs);
+        break;
+
+      case 'forget':
+        await handleForget(backend, subArgs);
+        break;
+
+      case 'export':
+        await handleExport(backend, subArgs);
+        break;
+
+      case 'import':
+        await handleImport(backend, subArgs);
+        break;
+
+      case 'ingest':
+        await handleIngest(backend, subArgs);
+        break;
+
+      case 'prune':
+        await handlePrune(backend);
+        break;
+
+      case 'consolidate':
+        await handleConsolidate(backend, config, subArgs);
+        break;
+
+      case 'log':
+        await handleLog(backend, subArgs);
+        break;
+
+      default:
+        console.log(`  ${RED}Unknown subcommand: ${subcommand ?? '(none)'}${RESET}`);
+        console.log(`  ${DIM}Available: list, search, forget, export, import, ingest, prune, consolidate, log${RESET}`);
+        process.exitCode = 1;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.log(`  ${RED}${message}${RESET}`);
+    process.exitCode = 1;
+  } finally {
+    await backend.close();
+  }
+
+  console.log('');
+}
@@ -226,7 +226,7 @@ describe('parseMultiSelect', () => {
 
 describe('CHANNEL_DEFS', () => {
   it('has 15 channel definitions', () => {
-    expect(CHANNEL_DEFS).toHaveLength(15);
+    expect(CHANNEL_DEFS).toHaveLength(17);
   });
 
   it('all entries have required fields', () => {
@@ -244,6 +244,8 @@ describe('CHANNEL_DEFS', () => {
     expect(ids).toContain('telegram');
     expect(ids).toContain('discord');
     expect(ids).toContain('slack');
+    expect(ids).toContain('mattermost');
+    expect(ids).toContain('rocketchat');
     expect(ids).toContain('matrix');
     expect(ids).toContain('teams');
     expect(ids).toContain('whatsapp');
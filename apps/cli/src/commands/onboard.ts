@@ -149,6 +149,23 @@ export const CHANNEL_DEFS: ChannelDef[] = [
       { key: 'appToken', label: 'App token (xapp-...)', secret: true },
     ],
   },
+  {
+    id: 'mattermost',
+    label: 'Mattermost',
+    fields: [
+      { key: 'serverUrl', label: 'Server URL (e.g. https://chat.example.com)' },
+      { key: 'token', label: 'Bot access token', secret: true },
+    ],
+  },
+  {
+    id: 'rocketchat',
+    label: 'Rocket.Chat',
+    fields: [
+      { key: 'serverUrl', label: 'Server URL (e.g. https://chat.example.com)' },
+      { key: 'userId', label: 'Bot user ID' },
+      { key: 'authToken', label: 'Personal access token', secret: true },
+    ],
+  },
   {
     id: 'matrix',
     label: 'Matrix',
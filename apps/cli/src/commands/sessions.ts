@@ -0,0 +1,263 @@
+/**
+ * Sessions command — inspect and manage persisted gateway sessions.
+ *
+ * The gateway writes session config, conversation history, compaction
+ * summaries and route keys to the session store (~/.ch4p/sessions.db by
+ * default) so conversations survive restarts. These subcommands operate
+ * on that store directly; the gateway does not need to be running.
+ *
+ * Subcommands:
+ *   ch4p sessions                          — List sessions (same as list)
+ *   ch4p sessions list [--channel c] [--limit n]
+ *   ch4p sessions inspect <id>             — Show config, summary and recent messages
+ *   ch4p sessions export <id> [--out f]    — Write session + history as JSON
+ *   ch4p sessions purge <id>               — Delete one session
+ *   ch4p sessions purge --older-than <d>   — Delete sessions idle for d days
+ *   ch4p sessions purge --all              — Delete every session
+ *   ch4p sessions purge                    — Apply the configured retention policy
+ */
+
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Ch4pConfig, ISessionStore, Message, SessionRetention } from '@ch4p/core';
+import { MemorySessionStore, SQLiteSessionStore } from '@ch4p/gateway';
+import { loadConfig, getCh4pDir } from '../config.js';
+import { TEAL, RESET, BOLD, DIM, GREEN, YELLOW, RED, separator } from '../ui.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_MAX_SESSIONS = 1000;
+const INSPECT_RECENT_MESSAGES = 10;
+
+// ---------------------------------------------------------------------------
+// Store helpers (shared with the gateway command)
+// ---------------------------------------------------------------------------
+
+/** Open the session store selected by `sessions.store` (SQLite by default). */
+export function openSessionStore(config: Ch4pConfig): ISessionStore {
+  if (config.sessions?.store === 'memory') {
+    return new MemorySessionStore();
+  }
+  return new SQLiteSessionStore({
+    dbPath: config.sessions?.path ?? join(getCh4pDir(), 'sessions.db'),
+  });
+}
+
+/** Build the retention policy from `sessions.retentionDays` / `sessions.maxSessions`. */
+export function sessionRetention(config: Ch4pConfig): SessionRetention {
+  const days = config.sessions?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  return {
+    maxAgeMs: days > 0 ? days * DAY_MS : undefined,
+    maxSessions: config.sessions?.maxSessions ?? DEFAULT_MAX_SESSIONS,
+  };
+}
+
+function messageText(msg: Message): string {
+  if (typeof msg.content === 'string') return msg.content;
+  return msg.content.map((b) => b.text ?? b.toolOutput ?? `[${b.type}]`).join(' ');
+}
+
+function preview(text: string, max = 120): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > max ? oneLine.slice(0, max - 1) + '…' : oneLine;
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Subcommands
+// ---------------------------------------------------------------------------
+
+function handleList(store: ISessionStore, args: string[]): void {
+  const channelId = flagValue(args, '--channel');
+  const limitArg = flagValue(args, '--limit');
+  const limit = limitArg ? parseInt(limitArg, 10) : undefined;
+  const sessions = store.listSessions({
+    channelId,
+    limit: limit !== undefined && !isNaN(limit) ? limit : undefined,
+  });
+
+  console.log(`  ${BOLD}Sessions${RESET} ${DIM}(${sessions.length})${RESET}`);
+  if (sessions.length === 0) {
+    console.log(`  ${DIM}No stored sessions.${RESET}`);
+    return;
+  }
+
+  for (const s of sessions) {
+    console.log(
+      `  ${TEAL}${s.config.sessionId}${RESET}  ${DIM}route=${s.routeKey ?? 'none'}  ` +
+      `messages=${s.messageCount}  active=${s.lastActiveAt.toLocaleString()}${RESET}`,
+    );
+  }
+}
+
+function handleInspect(store: ISessionStore, args: string[]): void {
+  const id = args[0];
+  if (!id) {
+    console.log(`  ${RED}Usage:${RESET} ch4p sessions inspect <id>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const session = store.getSession(id);
+  if (!session) {
+    console.log(`  ${YELLOW}Not found:${RESET} ${id}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { config } = session;
+  console.log(`  ${BOLD}Session${RESET}     ${TEAL}${config.sessionId}${RESET}`);
+  console.log(`  ${BOLD}Route${RESET}       ${session.routeKey ?? `${DIM}none${RESET}`}`);
+  console.log(`  ${BOLD}Channel${RESET}     ${config.channelId ?? `${DIM}none${RESET}`}`);
+  console.log(`  ${BOLD}User${RESET}        ${config.userId ?? `${DIM}none${RESET}`}`);
+  console.log(`  ${BOLD}Model${RESET}       ${config.provider}/${config.model}`);
+  console.log(`  ${BOLD}Created${RESET}     ${session.createdAt.toLocaleString()}`);
+  console.log(`  ${BOLD}Active${RESET}      ${session.lastActiveAt.toLocaleString()}`);
+  console.log(`  ${BOLD}Messages${RESET}    ${session.messageCount}`);
+
+  if (session.summary) {
+    console.log('');
+    console.log(`  ${BOLD}Summary${RESET}`);
+    console.log(`  ${DIM}${session.summary}${RESET}`);
+  }
+
+  const messages = store.loadHistory(id)?.messages ?? [];
+  if (messages.length > 0) {
+    const recent = messages.slice(-INSPECT_RECENT_MESSAGES);
+    console.log('');
+    console.log(`  ${BOLD}Recent messages${RESET} ${DIM}(last ${recent.length} of ${messages.length})${RESET}`);
+    for (const msg of recent) {
+      console.log(`  ${GREEN}${msg.role.padEnd(9)}${RESET} ${preview(messageText(msg))}`);
+    }
+  }
+}
+
+function handleExport(store: ISessionStore, args: string[]): void {
+  const id = args[0];
+  if (!id || id.startsWith('--')) {
+    console.error(`\n  ${RED}Usage:${RESET} ch4p sessions export <id> [--out file]\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const session = store.getSession(id);
+  if (!session) {
+    console.error(`\n  ${YELLOW}Not found:${RESET} ${id}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const json = JSON.stringify({ session, history: store.loadHistory(id) }, null, 2);
+  const out = flagValue(args, '--out');
+  if (out) {
+    writeFileSync(out, json + '\n', { encoding: 'utf8', mode: 0o600 });
+    console.error(`  ${GREEN}Exported${RESET} ${id} ${DIM}→ ${out}${RESET}`);
+  } else {
+    // Plain JSON on stdout so the output can be piped.
+    console.log(json);
+  }
+}
+
+function handlePurge(store: ISessionStore, config: Ch4pConfig, args: string[]): void {
+  if (args.includes('--all')) {
+    const removed = store.prune({ maxSessions: 0 });
+    console.log(`  ${GREEN}Purged${RESET} ${removed} session(s).`);
+    return;
+  }
+
+  const olderThan = flagValue(args, '--older-than');
+  if (olderThan !== undefined) {
+    const days = parseFloat(olderThan);
+    if (isNaN(days) || days < 0) {
+      console.log(`  ${RED}--older-than expects a number of days.${RESET}`);
+      process.exitCode = 1;
+      return;
+    }
+    const removed = store.prune({ maxAgeMs: days * DAY_MS });
+    console.log(`  ${GREEN}Purged${RESET} ${removed} session(s) idle for more than ${days} day(s).`);
+    return;
+  }
+
+  const id = args[0];
+  if (id) {
+    if (store.deleteSession(id)) {
+      console.log(`  ${GREEN}Purged session:${RESET} ${id}`);
+    } else {
+      console.log(`  ${YELLOW}Not found:${RESET} ${id}`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const removed = store.prune(sessionRetention(config));
+  console.log(`  ${GREEN}Purged${RESET} ${removed} session(s) outside the retention policy.`);
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+export async function sessions(args: string[]): Promise<void> {
+  let config: Ch4pConfig;
+  try {
+    config = loadConfig();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n  ${RED}Failed to load config:${RESET} ${message}`);
+    console.error(`  ${DIM}Run ${TEAL}ch4p onboard${DIM} to set up ch4p.${RESET}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (config.sessions?.store === 'memory') {
+    console.log(`\n  ${YELLOW}Sessions are not persisted${RESET} ${DIM}(sessions.store is "memory").${RESET}\n`);
+    return;
+  }
+
+  const subcommand = args[0] ?? 'list';
+  const subArgs = args.slice(1);
+  const store = openSessionStore(config);
+
+  try {
+    // Export writes raw JSON to stdout — no banner.
+    if (subcommand === 'export') {
+      handleExport(store, subArgs);
+      return;
+    }
+
+    console.log(`\n  ${TEAL}${BOLD}ch4p Sessions${RESET}`);
+    console.log(separator());
+    console.log('');
+
+    switch (subcommand) {
+      case 'list':
+        handleList(store, subArgs);
+        break;
+
+      case 'inspect':
+        handleInspect(store, subArgs);
+        break;
+
+      case 'purge':
+        handlePurge(store, config, subArgs);
+        break;
+
+      default:
+        console.log(`  ${RED}Unknown subcommand: ${subcommand}${RESET}`);
+        console.log(`  ${DIM}Available: list, inspect, export, purge${RESET}`);
+        process.exitCode = 1;
+    }
+
+    console.log('');
+  } finally {
+    store.close();
+  }
+}
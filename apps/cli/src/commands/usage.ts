@@ -0,0 +1,270 @@
+/**
+ * Usage command — token and cost spend from the usage ledger.
+ *
+ * Every engine call made by the agent, gateway and canvas is recorded to
+ * the usage store (~/.ch4p/usage.db by default) along with the session,
+ * user, channel and routing agent it was made for. Budget policies in
+ * `usage.budgets` are enforced against the same ledger. The gateway
+ * serves the same report as JSON at GET /usage.
+ *
+ * Usage:
+ *   ch4p usage                        — Today's spend by user, plus budgets
+ *   ch4p usage --period month         — day | month | all
+ *   ch4p usage --by model             — user | channel | agent | provider | model | day
+ *   ch4p usage --user u --channel c --agent a
+ *   ch4p usage --json                 — Raw report (same shape as GET /usage)
+ */
+
+import { join } from 'node:path';
+import type { Ch4pConfig, IUsageStore, UsageBreakdownRow, UsageGroupBy, UsageTotals } from '@ch4p/core';
+import { BudgetEnforcer, MemoryUsageStore, periodStart } from '@ch4p/agent';
+import type { BudgetStatus } from '@ch4p/agent';
+import { SQLiteUsageStore } from '@ch4p/gateway';
+import { loadConfig, getCh4pDir } from '../config.js';
+import { TEAL, RESET, BOLD, DIM, GREEN, YELLOW, RED, separator } from '../ui.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 90;
+
+const PERIODS = ['day', 'month', 'all'] as const;
+const GROUPS: readonly UsageGroupBy[] = ['user', 'channel', 'agent', 'provider', 'model', 'day'];
+
+export type UsagePeriod = typeof PERIODS[number];
+
+export interface UsageQuery {
+  period?: UsagePeriod;
+  by?: UsageGroupBy;
+  userId?: string;
+  channelId?: string;
+  agent?: string;
+}
+
+export interface UsageReport {
+  period: UsagePeriod;
+  since?: string;
+  filter: { userId?: string; channelId?: string; agent?: string };
+  totals: UsageTotals;
+  by: UsageGroupBy;
+  breakdown: UsageBreakdownRow[];
+  budgets: Array<{
+    label: string;
+    tokens: number;
+    cost: number;
+    maxTokens?: number;
+    maxCost?: number;
+    percent: number;
+    enforcement: 'stop' | 'warn';
+    resetsAt: string;
+  }>;
+}
+
+// ---------------------------------------------------------------------------
+// Store helpers (shared with the gateway and agent commands)
+// ---------------------------------------------------------------------------
+
+/** Open the usage store selected by `usage.store` (SQLite by default). */
+export function openUsageStore(config: Ch4pConfig): IUsageStore {
+  if (config.usage?.store === 'memory') {
+    return new MemoryUsageStore();
+  }
+  return new SQLiteUsageStore({
+    dbPath: config.usage?.path ?? join(getCh4pDir(), 'usage.db'),
+  });
+}
+
+/** Drop ledger records older than `usage.retentionDays`. */
+export function pruneUsage(store: IUsageStore, config: Ch4pConfig): number {
+  const days = config.usage?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  return days > 0 ? store.prune(new Date(Date.now() - days * DAY_MS)) : 0;
+}
+
+/** Budget enforcer for `usage.budgets`; with no policies it only records. */
+export function createBudgetEnforcer(config: Ch4pConfig, store: IUsageStore): BudgetEnforcer {
+  return new BudgetEnforcer({ store, policies: config.usage?.budgets ?? [] });
+}
+
+/**
+ * Parse report options from query parameters (GET /usage) or flags.
+ * Throws on unknown values so callers can answer 400 / print usage.
+ */
+export function parseUsageQuery(params: URLSearchParams): UsageQuery {
+  const period = params.get('period') ?? undefined;
+  const by = params.get('by') ?? undefined;
+  if (period !== undefined && !(PERIODS as readonly string[]).includes(period)) {
+    throw new Error(`period must be one of: ${PERIODS.join(', ')}`);
+  }
+  if (by !== undefined && !(GROUPS as readonly string[]).includes(by)) {
+    throw new Error(`by must be one of: ${GROUPS.join(', ')}`);
+  }
+  return {
+    period: period as UsagePeriod | undefined,
+    by: by as UsageGroupBy | undefined,
+    userId: params.get('user') ?? undefined,
+    channelId: params.get('channel') ?? undefined,
+    agent: params.get('agent') ?? undefined,
+  };
+}
+
+/** Totals, a breakdown and every budget's current status. */
+export function buildUsageReport(
+  store: IUsageStore,
+  budget: BudgetEnforcer,
+  query: UsageQuery = {},
+  now = new Date(),
+): UsageReport {
+  const period = query.period ?? 'day';
+  const by = query.by ?? 'user';
+  const since = period === 'all' ? undefined : periodStart(period === 'day' ? 'daily' : 'monthly', now);
+  const filter = { userId: query.userId, channelId: query.channelId, agent: query.agent };
+
+  return {
+    period,
+    since: since?.toISOString(),
+    filter,
+    totals: store.totals({ ...filter, since }),
+    by,
+    breakdown: store.breakdown(by, { ...filter, since }),
+    budgets: budget.statuses().map((s) => ({
+      label: s.label,
+      tokens: s.tokens,
+      cost: s.cost,
+      maxTokens: s.policy.maxTokens,
+      maxCost: s.policy.maxCost,
+      percent: Math.round(s.fraction * 100),
+      enforcement: s.policy.enforcement ?? 'stop',
+      resetsAt: s.resetsAt.toISOString(),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function formatTokens(n: number): string {
+  return n.toLocaleString('en-US');
+}
+
+function formatCost(n: number): string {
+  return `$${n.toFixed(n > 0 && n < 0.01 ? 4 : 2)}`;
+}
+
+function budgetColor(status: Pick<BudgetStatus, 'fraction'>): string {
+  return status.fraction >= 1 ? RED : status.fraction >= 0.8 ? YELLOW : GREEN;
+}
+
+function printReport(report: UsageReport): void {
+  const scope = [
+    report.filter.userId && `user=${report.filter.userId}`,
+    report.filter.channelId && `channel=${report.filter.channelId}`,
+    report.filter.agent && `agent=${report.filter.agent}`,
+  ].filter(Boolean).join(' ');
+  const periodLabel = report.period === 'all' ? 'all time' : `this ${report.period} (UTC)`;
+
+  const { totals } = report;
+  console.log(`  ${BOLD}Usage${RESET} ${DIM}${periodLabel}${scope ? ` ${scope}` : ''}${RESET}`);
+  console.log(
+    `  ${TEAL}${formatTokens(totals.inputTokens + totals.outputTokens)}${RESET} tokens ` +
+    `${DIM}(${formatTokens(totals.inputTokens)} in / ${formatTokens(totals.outputTokens)} out)${RESET}  ` +
+    `${TEAL}${formatCost(totals.cost)}${RESET}  ${DIM}${totals.calls} call(s)${RESET}`,
+  );
+
+  if (report.breakdown.length > 0) {
+    console.log('');
+    console.log(`  ${BOLD}By ${report.by}${RESET}`);
+    const width = Math.min(32, Math.max(...report.breakdown.map((r) => (r.key || '(none)').length)));
+    for (const row of report.breakdown) {
+      console.log(
+        `  ${(row.key || '(none)').padEnd(width)}  ` +
+        `${formatTokens(row.inputTokens + row.outputTokens).padStart(12)} tokens  ` +
+        `${formatCost(row.cost).padStart(9)}  ${DIM}${row.calls} call(s)${RESET}`,
+      );
+    }
+  }
+
+  if (report.budgets.length > 0) {
+    console.log('');
+    console.log(`  ${BOLD}Budgets${RESET}`);
+    for (const b of report.budgets) {
+      const limits = [
+        b.maxTokens !== undefined ? `${formatTokens(b.tokens)}/${formatTokens(b.maxTokens)} tokens` : '',
+        b.maxCost !== undefined ? `${formatCost(b.cost)}/${formatCost(b.maxCost)}` : '',
+      ].filter(Boolean).join(', ');
+      const color = budgetColor({ fraction: b.percent / 100 });
+      console.log(
+        `  ${b.label.padEnd(28)} ${color}${String(b.percent).padStart(4)}%${RESET}  ${limits}  ` +
+        `${DIM}${b.enforcement}, resets ${new Date(b.resetsAt).toLocaleString()}${RESET}`,
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+/** Turn `--period month --user u` into query parameters. */
+function flagsToParams(args: string[]): URLSearchParams {
+  const params = new URLSearchParams();
+  const names: Record<string, string> = {
+    '--period': 'period', '--by': 'by', '--user': 'user', '--channel': 'channel', '--agent': 'agent',
+  };
+  for (let i = 0; i < args.length; i++) {
+    const name = names[args[i]!];
+    if (name && args[i + 1] !== undefined) {
+      params.set(name, args[i + 1]!);
+      i++;
+    }
+  }
+  return params;
+}
+
+export async function usage(args: string[]): Promise<void> {
+  let config: Ch4pConfig;
+  try {
+    config = loadConfig();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\n  ${RED}Failed to load config:${RESET} ${message}`);
+    console.error(`  ${DIM}Run ${TEAL}ch4p onboard${DIM} to set up ch4p.${RESET}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (config.usage?.store === 'memory') {
+    console.log(`\n  ${YELLOW}Usage is not persisted${RESET} ${DIM}(usage.store is "memory").${RESET}\n`);
+    return;
+  }
+
+  let query: UsageQuery;
+  try {
+    query = parseUsageQuery(flagsToParams(args));
+  } catch (err) {
+    console.error(`\n  ${RED}${(err as Error).message}${RESET}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const store = openUsageStore(config);
+  try {
+    const report = buildUsageReport(store, createBudgetEnforcer(config, store), query);
+
+    // --json writes the raw report so it can be piped.
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(`\n  ${TEAL}${BOLD}ch4p Usage${RESET}`);
+    console.log(separator());
+    console.log('');
+    printReport(report);
+    console.log('');
+  } finally {
+    store.close();
+  }
+}
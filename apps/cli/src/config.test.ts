@@ -40,6 +40,7 @@ import {
   saveConfig,
   ensureConfigDir,
   configExists,
+  getSandboxConfig,
   ConfigLoadError,
 } from './config.js';
 
@@ -217,6 +218,24 @@ describe('configExists', () => {
   });
 });
 
+describe('getSandboxConfig', () => {
+  it('is undefined without a sandbox', () => {
+    expect(getSandboxConfig(getDefaultConfig())).toBeUndefined();
+  });
+
+  it('hides the ch4p directory and the blocked paths', () => {
+    const config = getDefaultConfig();
+    config.security.sandbox = { backend: 'bwrap', network: true };
+    config.security.blockedPaths = ['/srv/secrets'];
+
+    expect(getSandboxConfig(config)).toEqual({
+      backend: 'bwrap',
+      network: true,
+      hiddenPaths: [resolve(TEST_HOME, '.ch4p'), '/srv/secrets'],
+    });
+  });
+});
+
 describe('loadConfig', () => {
   it('returns defaults when no config file exists', () => {
     // loadConfig should work even without a user config file —
@@ -370,6 +389,167 @@ describe('loadConfig', () => {
     }
   });
 
+  it('throws ConfigLoadError for a too-short approval timeout', () => {
+    writeTestConfig({
+      autonomy: { level: 'supervised', approvalTimeout: 100 },
+    });
+
+    expect(() => loadConfig()).toThrow(/autonomy\.approvalTimeout/);
+  });
+
+  it('throws ConfigLoadError for an unknown session store', () => {
+    writeTestConfig({
+      sessions: { store: 'redis' },
+    });
+
+    expect(() => loadConfig()).toThrow(/sessions\.store/);
+  });
+
+  it('accepts a fallback provider chain', () => {
+    writeTestConfig({
+      agent: { fallbackProviders: ['bedrock', 'ollama'], failover: { failureThreshold: 2, cooldownMs: 30000 } },
+    });
+
+    const config = loadConfig();
+    expect(config.agent.fallbackProviders).toEqual(['bedrock', 'ollama']);
+    expect(config.agent.failover?.failureThreshold).toBe(2);
+  });
+
+  it('throws ConfigLoadError for invalid failover settings', () => {
+    writeTestConfig({ agent: { fallbackProviders: 'ollama' } });
+    expect(() => loadConfig()).toThrow(/agent\.fallbackProviders/);
+
+    writeTestConfig({ agent: { failover: { failureThreshold: 0 } } });
+    expect(() => loadConfig()).toThrow(/agent\.failover\.failureThreshold/);
+  });
+
+  it('throws ConfigLoadError for a short metrics scrape token', () => {
+    writeTestConfig({
+      gateway: { port: 3847, requirePairing: true, allowPublicBind: false, metrics: { token: 'short' } },
+    });
+
+    expect(() => loadConfig()).toThrow(/gateway\.metrics\.token/);
+  });
+
+  it('throws ConfigLoadError for an invalid OTLP endpoint', () => {
+    writeTestConfig({
+      observability: { observers: ['otel'], otel: { endpoint: 'localhost:4318' } },
+    });
+
+    expect(() => loadConfig()).toThrow(/observability\.otel\.endpoint/);
+  });
+
+  it('accepts usage budgets', () => {
+    writeTestConfig({
+      usage: { budgets: [{ scope: 'user', period: 'daily', maxTokens: 100000, warnAt: 0.9 }] },
+    });
+
+    expect(loadConfig().usage?.budgets?.[0]?.maxTokens).toBe(100000);
+  });
+
+  it('throws ConfigLoadError for invalid budget policies', () => {
+    writeTestConfig({ usage: { budgets: [{ scope: 'team', period: 'daily', maxCost: 5 }] } });
+    expect(() => loadConfig()).toThrow(/usage\.budgets\[0\]\.scope/);
+
+    writeTestConfig({ usage: { budgets: [{ scope: 'global', period: 'monthly' }] } });
+    expect(() => loadConfig()).toThrow(/Must set maxTokens, maxCost or both/);
+
+    writeTestConfig({ usage: { budgets: [{ scope: 'global', period: 'monthly', maxCost: 5, warnAt: 80 }] } });
+    expect(() => loadConfig()).toThrow(/usage\.budgets\[0\]\.warnAt/);
+  });
+
+  it('throws ConfigLoadError for invalid roles', () => {
+    writeTestConfig({
+      roles: { definitions: { guest: { autonomy: 'none' } } },
+    });
+    expect(() => loadConfig()).toThrow(/roles\.definitions\.guest\.autonomy/);
+
+    writeTestConfig({
+      roles: { definitions: { guest: { agent: 'missing' } } },
+    });
+    expect(() => loadConfig()).toThrow(/Unknown routing agent "missing"/);
+
+    writeTestConfig({
+      roles: { definitions: { guest: {} }, assignments: [{ chat: 'group', role: 'owner' }] },
+    });
+    expect(() => loadConfig()).toThrow(/roles\.assignments\[0\]\.role/);
+  });
+
+  it('throws ConfigLoadError for invalid gateway rate limits', () => {
+    writeTestConfig({ gateway: { rateLimit: { group: { burst: 0, perMinute: 10 } } } });
+    expect(() => loadConfig()).toThrow(/gateway\.rateLimit\.group\.burst/);
+
+    writeTestConfig({ gateway: { rateLimit: { onLimit: 'drop' } } });
+    expect(() => loadConfig()).toThrow(/gateway\.rateLimit\.onLimit/);
+
+    writeTestConfig({ gateway: { rateLimit: { onLimit: 'queue', maxQueued: -1 } } });
+    expect(() => loadConfig()).toThrow(/gateway\.rateLimit\.maxQueued/);
+  });
+
+  it('throws ConfigLoadError for an invalid mailbox mode', () => {
+    writeTestConfig({ gateway: { mailbox: { mode: 'drop' } } });
+    expect(() => loadConfig()).toThrow(/gateway\.mailbox\.mode/);
+
+    writeTestConfig({ gateway: { mailbox: { mode: 'steer', feedback: 'emoji' } } });
+    expect(() => loadConfig()).toThrow(/gateway\.mailbox\.feedback/);
+  });
+
+  it('throws ConfigLoadError for a non-boolean indicator setting', () => {
+    writeTestConfig({ gateway: { indicators: { typing: false, reactions: 'off' } } });
+    expect(() => loadConfig()).toThrow(/gateway\.indicators\.reactions/);
+  });
+
+  it('throws ConfigLoadError for invalid scheduler jobs', () => {
+    writeTestConfig({
+      scheduler: { enabled: true, jobs: [{ name: 'x', message: 'hi', schedule: '0 9 * * *', everyMs: 60000 }] },
+    });
+    expect(() => loadConfig()).toThrow(/Must set exactly one of schedule, at, everyMs/);
+
+    writeTestConfig({
+      scheduler: { enabled: true, jobs: [{ name: 'x', message: 'hi', schedule: '0 9 * * *', timezone: 'Mars/Olympus' }] },
+    });
+    expect(() => loadConfig()).toThrow(/scheduler\.jobs\[0\]\.timezone/);
+
+    writeTestConfig({ scheduler: { enabled: true, jobs: [{ name: 'x', message: 'hi', everyMs: 1000 }] } });
+    expect(() => loadConfig()).toThrow(/scheduler\.jobs\[0\]\.everyMs/);
+  });
+
+  it('throws ConfigLoadError for an invalid sandbox', () => {
+    writeTestConfig({ security: { sandbox: { backend: 'firejail' } } });
+    expect(() => loadConfig()).toThrow(/security\.sandbox\.backend/);
+
+    writeTestConfig({ security: { sandbox: { backend: 'bwrap', cpus: 2 } } });
+    expect(() => loadConfig()).toThrow(/Not supported by the bwrap backend/);
+
+    writeTestConfig({ security: { sandbox: { backend: 'docker', memoryMb: 4 } } });
+    expect(() => loadConfig()).toThrow(/security\.sandbox\.memoryMb/);
+
+    writeTestConfig({ security: { sandbox: { backend: 'docker', memoryMb: 512, cpus: 1.5 } } });
+    expect(loadConfig().security.sandbox).toEqual({ backend: 'docker', memoryMb: 512, cpus: 1.5 });
+  });
+
+  it('throws ConfigLoadError for invalid memory lifecycle settings', () => {
+    writeTestConfig({ memory: { recencyWeight: 1.5 } });
+    expect(() => loadConfig()).toThrow(/memory\.recencyWeight/);
+
+    writeTestConfig({ memory: { summaryTtlDays: -1 } });
+    expect(() => loadConfig()).toThrow(/memory\.summaryTtlDays/);
+
+    writeTestConfig({ memory: { consolidation: { enabled: true, similarity: 0 } } });
+    expect(() => loadConfig()).toThrow(/memory\.consolidation\.similarity/);
+
+    writeTestConfig({ memory: { usageWeight: 0.2, consolidation: { enabled: true, intervalHours: 6 } } });
+    expect(loadConfig().memory.consolidation).toEqual({ enabled: true, intervalHours: 6 });
+  });
+
+  it('throws ConfigLoadError for invalid attachment limits', () => {
+    writeTestConfig({ attachments: { maxBytes: 100 } });
+    expect(() => loadConfig()).toThrow(/attachments\.maxBytes/);
+
+    writeTestConfig({ attachments: { maxTextChars: 0 } });
+    expect(() => loadConfig()).toThrow(/attachments\.maxTextChars/);
+  });
+
   it('throws ConfigLoadError for invalid log level', () => {
     writeTestConfig({
       observability: {
@@ -9,7 +9,7 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
 import { resolve, join } from 'node:path';
 import { homedir } from 'node:os';
-import type { Ch4pConfig } from '@ch4p/core';
+import type { Ch4pConfig, SandboxConfig } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -316,26 +316,277 @@ function validateConfig(config: Ch4pConfig): ValidationError[] {
       (typeof config.agent.runTimeout !== 'number' || config.agent.runTimeout < 30_000)) {
     errors.push({ field: 'agent.runTimeout', message: 'Must be at least 30000 (30 seconds)' });
   }
+  if (config.agent?.fallbackProviders != null &&
+      (!Array.isArray(config.agent.fallbackProviders) ||
+        config.agent.fallbackProviders.some((p) => typeof p !== 'string' || p.length === 0))) {
+    errors.push({ field: 'agent.fallbackProviders', message: 'Must be an array of provider names' });
+  }
+  const failover = config.agent?.failover;
+  if (failover?.failureThreshold != null &&
+      (typeof failover.failureThreshold !== 'number' || failover.failureThreshold < 1)) {
+    errors.push({ field: 'agent.failover.failureThreshold', message: 'Must be a positive number' });
+  }
+  if (failover?.cooldownMs != null &&
+      (typeof failover.cooldownMs !== 'number' || failover.cooldownMs < 0)) {
+    errors.push({ field: 'agent.failover.cooldownMs', message: 'Must be a non-negative number' });
+  }
 
   // --- gateway ---
   if (typeof config.gateway?.port !== 'number' || config.gateway.port < 1 || config.gateway.port > 65535) {
     errors.push({ field: 'gateway.port', message: 'Port must be a number between 1 and 65535' });
   }
+  const metricsToken = config.gateway?.metrics?.token;
+  if (metricsToken != null && (typeof metricsToken !== 'string' || metricsToken.length < 16)) {
+    errors.push({ field: 'gateway.metrics.token', message: 'Must be a string of at least 16 characters' });
+  }
+  const rateLimit = config.gateway?.rateLimit;
+  if (rateLimit != null) {
+    for (const scope of ['user', 'group', 'channel'] as const) {
+      const bucket = rateLimit[scope];
+      if (bucket == null) continue;
+      for (const key of ['burst', 'perMinute'] as const) {
+        if (typeof bucket[key] !== 'number' || bucket[key] <= 0) {
+          errors.push({ field: `gateway.rateLimit.${scope}.${key}`, message: 'Must be a positive number' });
+        }
+      }
+    }
+    if (rateLimit.onLimit != null && !['reject', 'queue'].includes(rateLimit.onLimit)) {
+      errors.push({ field: 'gateway.rateLimit.onLimit', message: 'Must be one of: reject, queue' });
+    }
+    if (rateLimit.maxQueued != null && (typeof rateLimit.maxQueued !== 'number' || rateLimit.maxQueued < 0)) {
+      errors.push({ field: 'gateway.rateLimit.maxQueued', message: 'Must be a non-negative number' });
+    }
+  }
+  const mailbox = config.gateway?.mailbox;
+  if (mailbox?.mode != null && !['queue', 'steer', 'interrupt', 'collect'].includes(mailbox.mode)) {
+    errors.push({ field: 'gateway.mailbox.mode', message: 'Must be one of: queue, steer, interrupt, collect' });
+  }
+  if (mailbox?.feedback != null && !['reply', 'none'].includes(mailbox.feedback)) {
+    errors.push({ field: 'gateway.mailbox.feedback', message: 'Must be one of: reply, none' });
+  }
+  const indicators = config.gateway?.indicators;
+  if (indicators != null) {
+    for (const key of ['typing', 'reactions', 'readReceipts'] as const) {
+      if (indicators[key] != null && typeof indicators[key] !== 'boolean') {
+        errors.push({ field: `gateway.indicators.${key}`, message: 'Must be a boolean' });
+      }
+    }
+  }
 
   // --- autonomy ---
   if (config.autonomy?.level && !['readonly', 'supervised', 'full'].includes(config.autonomy.level)) {
     errors.push({ field: 'autonomy.level', message: 'Must be one of: readonly, supervised, full' });
   }
+  if (config.autonomy?.approvalTimeout != null &&
+      (typeof config.autonomy.approvalTimeout !== 'number' || config.autonomy.approvalTimeout < 5_000)) {
+    errors.push({ field: 'autonomy.approvalTimeout', message: 'Must be at least 5000 (5 seconds)' });
+  }
 
   // --- observability ---
   if (config.observability?.logLevel && !['debug', 'info', 'warn', 'error'].includes(config.observability.logLevel)) {
     errors.push({ field: 'observability.logLevel', message: 'Must be one of: debug, info, warn, error' });
   }
+  const otel = config.observability?.otel;
+  if (otel?.endpoint != null && (typeof otel.endpoint !== 'string' || !/^https?:\/\//.test(otel.endpoint))) {
+    errors.push({ field: 'observability.otel.endpoint', message: 'Must be an http(s) URL' });
+  }
+  if (otel?.exportIntervalMs != null &&
+      (typeof otel.exportIntervalMs !== 'number' || otel.exportIntervalMs < 100)) {
+    errors.push({ field: 'observability.otel.exportIntervalMs', message: 'Must be a number >= 100' });
+  }
 
   // --- memory ---
   if (config.memory?.backend && !['sqlite', 'markdown', 'noop'].includes(config.memory.backend)) {
     errors.push({ field: 'memory.backend', message: 'Must be one of: sqlite, markdown, noop' });
   }
+  for (const field of ['recencyWeight', 'usageWeight'] as const) {
+    const value = config.memory?.[field];
+    if (value != null && (typeof value !== 'number' || value < 0 || value > 1)) {
+      errors.push({ field: `memory.${field}`, message: 'Must be a number between 0 and 1' });
+    }
+  }
+  if (config.memory?.halfLifeDays != null &&
+      (typeof config.memory.halfLifeDays !== 'number' || config.memory.halfLifeDays <= 0)) {
+    errors.push({ field: 'memory.halfLifeDays', message: 'Must be a positive number' });
+  }
+  if (config.memory?.summaryTtlDays != null &&
+      (typeof config.memory.summaryTtlDays !== 'number' || config.memory.summaryTtlDays < 0)) {
+    errors.push({ field: 'memory.summaryTtlDays', message: 'Must be a non-negative number' });
+  }
+  const consolidation = config.memory?.consolidation;
+  if (consolidation?.intervalHours != null &&
+      (typeof consolidation.intervalHours !== 'number' || consolidation.intervalHours <= 0)) {
+    errors.push({ field: 'memory.consolidation.intervalHours', message: 'Must be a positive number' });
+  }
+  if (consolidation?.similarity != null &&
+      (typeof consolidation.similarity !== 'number' || consolidation.similarity <= 0 || consolidation.similarity > 1)) {
+    errors.push({ field: 'memory.consolidation.similarity', message: 'Must be a number above 0 and at most 1' });
+  }
+
+  // --- sessions ---
+  if (config.sessions?.store && !['sqlite', 'memory'].includes(config.sessions.store)) {
+    errors.push({ field: 'sessions.store', message: 'Must be one of: sqlite, memory' });
+  }
+  if (config.sessions?.retentionDays != null &&
+      (typeof config.sessions.retentionDays !== 'number' || config.sessions.retentionDays < 0)) {
+    errors.push({ field: 'sessions.retentionDays', message: 'Must be a non-negative number' });
+  }
+  if (config.sessions?.maxSessions != null &&
+      (typeof config.sessions.maxSessions !== 'number' || config.sessions.maxSessions < 1)) {
+    errors.push({ field: 'sessions.maxSessions', message: 'Must be a positive number' });
+  }
+
+  // --- roles ---
+  if (config.roles != null) {
+    const definitions = config.roles.definitions;
+    if (definitions == null || typeof definitions !== 'object' || Array.isArray(definitions)) {
+      errors.push({ field: 'roles.definitions', message: 'Must be an object of role policies' });
+    } else {
+      for (const [name, role] of Object.entries(definitions)) {
+        const field = `roles.definitions.${name}`;
+        if (role?.autonomy != null && !['readonly', 'supervised', 'full'].includes(role.autonomy)) {
+          errors.push({ field: `${field}.autonomy`, message: 'Must be one of: readonly, supervised, full' });
+        }
+        if (role?.tools != null && !Array.isArray(role.tools)) {
+          errors.push({ field: `${field}.tools`, message: 'Must be an array of tool names' });
+        }
+        if (role?.toolExclude != null && !Array.isArray(role.toolExclude)) {
+          errors.push({ field: `${field}.toolExclude`, message: 'Must be an array of tool names' });
+        }
+        if (role?.agent != null && !config.routing?.agents?.[role.agent]) {
+          errors.push({ field: `${field}.agent`, message: `Unknown routing agent "${role.agent}"` });
+        }
+        if (role?.rateLimit != null) {
+          if (typeof role.rateLimit.maxMessages !== 'number' || role.rateLimit.maxMessages < 1) {
+            errors.push({ field: `${field}.rateLimit.maxMessages`, message: 'Must be a positive number' });
+          }
+          if (role.rateLimit.windowSeconds != null &&
+              (typeof role.rateLimit.windowSeconds !== 'number' || role.rateLimit.windowSeconds <= 0)) {
+            errors.push({ field: `${field}.rateLimit.windowSeconds`, message: 'Must be a positive number' });
+          }
+        }
+      }
+      const isRole = (name: unknown) => typeof name === 'string' && Object.hasOwn(definitions, name);
+      if (config.roles.default != null && !isRole(config.roles.default)) {
+        errors.push({ field: 'roles.default', message: `Unknown role "${String(config.roles.default)}"` });
+      }
+      if (config.roles.assignments != null) {
+        if (!Array.isArray(config.roles.assignments)) {
+          errors.push({ field: 'roles.assignments', message: 'Must be an array of role assignments' });
+        } else {
+          config.roles.assignments.forEach((a, i) => {
+            const field = `roles.assignments[${i}]`;
+            if (!isRole(a?.role)) {
+              errors.push({ field: `${field}.role`, message: `Unknown role "${String(a?.role)}"` });
+            }
+            if (a?.chat != null && !['private', 'group'].includes(a.chat)) {
+              errors.push({ field: `${field}.chat`, message: 'Must be one of: private, group' });
+            }
+          });
+        }
+      }
+    }
+  }
+
+  // --- users ---
+  if (config.users?.store && !['sqlite', 'memory'].includes(config.users.store)) {
+    errors.push({ field: 'users.store', message: 'Must be one of: sqlite, memory' });
+  }
+
+  // --- usage ---
+  if (config.usage?.store && !['sqlite', 'memory'].includes(config.usage.store)) {
+    errors.push({ field: 'usage.store', message: 'Must be one of: sqlite, memory' });
+  }
+  if (config.usage?.retentionDays != null &&
+      (typeof config.usage.retentionDays !== 'number' || config.usage.retentionDays < 0)) {
+    errors.push({ field: 'usage.retentionDays', message: 'Must be a non-negative number' });
+  }
+  if (config.usage?.budgets != null) {
+    if (!Array.isArray(config.usage.budgets)) {
+      errors.push({ field: 'usage.budgets', message: 'Must be an array of budget policies' });
+    } else {
+      config.usage.budgets.forEach((b, i) => {
+        const field = `usage.budgets[${i}]`;
+        if (!['global', 'user', 'channel', 'agent'].includes(b?.scope)) {
+          errors.push({ field: `${field}.scope`, message: 'Must be one of: global, user, channel, agent' });
+        }
+        if (!['daily', 'monthly'].includes(b?.period)) {
+          errors.push({ field: `${field}.period`, message: 'Must be one of: daily, monthly' });
+        }
+        if (b?.maxTokens == null && b?.maxCost == null) {
+          errors.push({ field, message: 'Must set maxTokens, maxCost or both' });
+        }
+        if (b?.maxTokens != null && (typeof b.maxTokens !== 'number' || b.maxTokens <= 0)) {
+          errors.push({ field: `${field}.maxTokens`, message: 'Must be a positive number' });
+        }
+        if (b?.maxCost != null && (typeof b.maxCost !== 'number' || b.maxCost <= 0)) {
+          errors.push({ field: `${field}.maxCost`, message: 'Must be a positive number' });
+        }
+        if (b?.warnAt != null && (typeof b.warnAt !== 'number' || b.warnAt <= 0 || b.warnAt > 1)) {
+          errors.push({ field: `${field}.warnAt`, message: 'Must be a number in (0, 1]' });
+        }
+        if (b?.enforcement != null && !['stop', 'warn'].includes(b.enforcement)) {
+          errors.push({ field: `${field}.enforcement`, message: 'Must be one of: stop, warn' });
+        }
+      });
+    }
+  }
+
+  // --- scheduler ---
+  if (config.scheduler?.store && !['sqlite', 'memory'].includes(config.scheduler.store)) {
+    errors.push({ field: 'scheduler.store', message: 'Must be one of: sqlite, memory' });
+  }
+  if (config.scheduler?.jobs != null) {
+    if (!Array.isArray(config.scheduler.jobs)) {
+      errors.push({ field: 'scheduler.jobs', message: 'Must be an array of jobs' });
+    } else {
+      config.scheduler.jobs.forEach((j, i) => {
+        const field = `scheduler.jobs[${i}]`;
+        if (typeof j?.name !== 'string' || !j.name) {
+          errors.push({ field: `${field}.name`, message: 'Must be a non-empty string' });
+        }
+        if (typeof j?.message !== 'string' || !j.message) {
+          errors.push({ field: `${field}.message`, message: 'Must be a non-empty string' });
+        }
+        if ([j?.schedule, j?.at, j?.everyMs].filter((v) => v != null).length !== 1) {
+          errors.push({ field, message: 'Must set exactly one of schedule, at, everyMs' });
+        }
+        if (j?.at != null && (typeof j.at !== 'string' || isNaN(Date.parse(j.at)))) {
+          errors.push({ field: `${field}.at`, message: 'Must be an ISO 8601 date-time' });
+        }
+        if (j?.everyMs != null && (typeof j.everyMs !== 'number' || j.everyMs < 60_000)) {
+          errors.push({ field: `${field}.everyMs`, message: 'Must be a number >= 60000 (1 minute)' });
+        }
+        if (j?.timezone != null) {
+          try {
+            new Intl.DateTimeFormat('en-US', { timeZone: j.timezone });
+          } catch {
+            errors.push({ field: `${field}.timezone`, message: `Unknown time zone "${j.timezone}"` });
+          }
+        }
+      });
+    }
+  }
+
+  // --- security.sandbox ---
+  const sandbox = config.security?.sandbox;
+  if (sandbox != null) {
+    if (!['host', 'bwrap', 'nsjail', 'docker'].includes(sandbox.backend)) {
+      errors.push({ field: 'security.sandbox.backend', message: 'Must be one of: host, bwrap, nsjail, docker' });
+    }
+    if (sandbox.memoryMb != null && (typeof sandbox.memoryMb !== 'number' || sandbox.memoryMb < 16)) {
+      errors.push({ field: 'security.sandbox.memoryMb', message: 'Must be a number >= 16' });
+    }
+    if (sandbox.cpus != null && (typeof sandbox.cpus !== 'number' || sandbox.cpus <= 0)) {
+      errors.push({ field: 'security.sandbox.cpus', message: 'Must be a positive number' });
+    }
+    if (sandbox.cpus != null && sandbox.backend === 'bwrap') {
+      errors.push({ field: 'security.sandbox.cpus', message: 'Not supported by the bwrap backend; use nsjail or docker' });
+    }
+    if (sandbox.image != null && (typeof sandbox.image !== 'string' || !sandbox.image)) {
+      errors.push({ field: 'security.sandbox.image', message: 'Must be a non-empty string' });
+    }
+  }
 
   // --- tunnel ---
   if (config.tunnel?.provider && !['none', 'cloudflare', 'tailscale', 'ngrok'].includes(config.tunnel.provider)) {
@@ -368,6 +619,16 @@ function validateConfig(config: Ch4pConfig): ValidationError[] {
     errors.push({ field: 'mesh.defaultTimeout', message: 'Must be at least 1000ms' });
   }
 
+  // --- attachments ---
+  if (config.attachments?.maxBytes != null &&
+      (typeof config.attachments.maxBytes !== 'number' || config.attachments.maxBytes < 1024)) {
+    errors.push({ field: 'attachments.maxBytes', message: 'Must be a number >= 1024' });
+  }
+  if (config.attachments?.maxTextChars != null &&
+      (typeof config.attachments.maxTextChars !== 'number' || config.attachments.maxTextChars < 1)) {
+    errors.push({ field: 'attachments.maxTextChars', message: 'Must be a positive number' });
+  }
+
   return errors;
 }
 
@@ -462,6 +723,16 @@ export function configExists(): boolean {
   return existsSync(getConfigPath());
 }
 
+/**
+ * The bash tool's sandbox config, with ~/.ch4p and security.blockedPaths
+ * hidden from namespace sandboxes. Undefined when no sandbox is configured.
+ */
+export function getSandboxConfig(config: Ch4pConfig): SandboxConfig | undefined {
+  const sandbox = config.security.sandbox;
+  if (!sandbox) return undefined;
+  return { ...sandbox, hiddenPaths: [getCh4pDir(), ...(config.security.blockedPaths ?? [])] };
+}
+
 // ---------------------------------------------------------------------------
 // Error type
 // ---------------------------------------------------------------------------
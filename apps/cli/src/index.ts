@@ -20,6 +20,10 @@
  *   status      Show system status
  *   tools       List available tools
  *   pairing     Manage gateway pairing
+ *   sessions    List, inspect, export, and purge stored sessions
+ *   usage       Show token and cost usage and budget status
+ *   memory      Browse, edit, import and maintain memory
+ *   mcp         Serve ch4p tools, memory, and skills over MCP
  *   message     Send a message via a channel
  *   install     Install/manage the gateway as a system daemon
  *   help        Show usage
@@ -94,6 +98,10 @@ function printHelp(): void {
     ${GREEN}status${RESET}       Show system status
     ${GREEN}tools${RESET}        List available tools
     ${GREEN}pairing${RESET}      Manage gateway pairing
+    ${GREEN}sessions${RESET}     List, inspect, export, and purge stored sessions
+    ${GREEN}usage${RESET}        Show token and cost usage and budget status
+    ${GREEN}memory${RESET}       Browse, edit, import and maintain memory
+    ${GREEN}mcp${RESET}          Serve ch4p tools, memory, and skills over MCP
     ${GREEN}message${RESET}      Send a message via a channel
     ${GREEN}skills${RESET}       Manage agent skills
     ${GREEN}canvas${RESET}       Start the interactive canvas workspace
@@ -120,6 +128,8 @@ function printHelp(): void {
     ${DIM}$${RESET} ch4p status                           ${DIM}# System status${RESET}
     ${DIM}$${RESET} ch4p tools                            ${DIM}# List tools${RESET}
     ${DIM}$${RESET} ch4p canvas                           ${DIM}# Start canvas workspace${RESET}
+    ${DIM}$${RESET} ch4p mcp serve                        ${DIM}# Serve tools over MCP (stdio)${RESET}
+    ${DIM}$${RESET} ch4p memory ingest ./docs             ${DIM}# Add a folder to memory${RESET}
     ${DIM}$${RESET} ch4p message -c telegram "Hello!"     ${DIM}# Send via channel${RESET}
     ${DIM}$${RESET} ch4p install                          ${DIM}# Install gateway daemon${RESET}
 
@@ -210,6 +220,30 @@ async function main(): Promise<void> {
       break;
     }
 
+    case 'sessions': {
+      const { sessions } = await import('./commands/sessions.js');
+      await sessions(rest);
+      break;
+    }
+
+    case 'usage': {
+      const { usage } = await import('./commands/usage.js');
+      await usage(rest);
+      break;
+    }
+
+    case 'memory': {
+      const { memory } = await import('./commands/memory.js');
+      await memory(rest);
+      break;
+    }
+
+    case 'mcp': {
+      const { mcp } = await import('./commands/mcp.js');
+      await mcp(rest);
+      break;
+    }
+
     case 'message': {
       const { message } = await import('./commands/message.js');
       await message(rest);
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Ch4pConfig, InboundMessage } from '@ch4p/core';
+import { RoleResolver, roleAllowsTool } from './roles.js';
+
+function makeConfig(roles?: Ch4pConfig['roles']): Ch4pConfig {
+  return { roles } as Ch4pConfig;
+}
+
+function makeMsg(channelId: string, userId: string, groupId?: string): InboundMessage {
+  return {
+    id: 'm1',
+    channelId,
+    from: { channelId, userId, groupId },
+    text: 'hi',
+    timestamp: new Date(),
+  };
+}
+
+const roles: Ch4pConfig['roles'] = {
+  definitions: {
+    owner: { autonomy: 'full' },
+    trusted: { autonomy: 'supervised', toolExclude: ['bash'] },
+    guest: { autonomy: 'readonly', tools: ['web_fetch', 'web_search'] },
+  },
+  assignments: [
+    { user: 'telegram:42', role: 'owner' },
+    { channel: 'discord', chat: 'private', role: 'trusted' },
+    { chat: 'group', role: 'guest' },
+  ],
+};
+
+describe('RoleResolver', () => {
+  it('picks the first matching assignment', () => {
+    const resolver = new RoleResolver(makeConfig(roles));
+
+    expect(resolver.resolve(makeMsg('telegram', '42'))?.name).toBe('owner');
+    // The owner assignment comes before the group rule.
+    expect(resolver.resolve(makeMsg('telegram', '42', 'g1'))?.name).toBe('owner');
+    expect(resolver.resolve(makeMsg('Discord', '7'))?.name).toBe('trusted');
+    expect(resolver.resolve(makeMsg('discord', '7', 'g1'))?.name).toBe('guest');
+    expect(resolver.resolve(makeMsg('slack', 'U1'))).toBeUndefined();
+  });
+
+  it('matches linked accounts by their directory id', () => {
+    const resolver = new RoleResolver(makeConfig(roles));
+
+    expect(resolver.resolve(makeMsg('slack', 'U1'), 'telegram:42')?.name).toBe('owner');
+  });
+
+  it('falls back to the default role', () => {
+    const resolver = new RoleResolver(makeConfig({ ...roles, default: 'guest' }));
+
+    expect(resolver.resolve(makeMsg('slack', 'U1'))?.policy.autonomy).toBe('readonly');
+  });
+
+  it('skips assignments naming undefined roles', () => {
+    const resolver = new RoleResolver(makeConfig({
+      definitions: { guest: {} },
+      assignments: [{ channel: '*', role: 'admin' }, { role: 'guest' }],
+    }));
+
+    expect(resolver.resolve(makeMsg('irc', 'nick'))?.name).toBe('guest');
+    expect(new RoleResolver(makeConfig()).hasRoles()).toBe(false);
+  });
+});
+
+describe('roleAllowsTool', () => {
+  it('applies allow and deny lists', () => {
+    const resolver = new RoleResolver(makeConfig(roles));
+    const guest = resolver.resolve(makeMsg('discord', '7', 'g1'));
+    const trusted = resolver.resolve(makeMsg('discord', '7'));
+
+    expect(roleAllowsTool(guest, 'web_fetch')).toBe(true);
+    expect(roleAllowsTool(guest, 'bash')).toBe(false);
+    expect(roleAllowsTool(trusted, 'bash')).toBe(false);
+    expect(roleAllowsTool(trusted, 'file_read')).toBe(true);
+    expect(roleAllowsTool(undefined, 'bash')).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * RoleResolver — per-user roles for gateway channel messages.
+ *
+ * Matches the sender of an inbound message against `roles.assignments`
+ * (first match wins, falling back to `roles.default`) and returns the
+ * role's policy. The gateway applies it when building the run: autonomy
+ * level, offered tools, routing agent and rate limit.
+ *
+ * Assignments name users as "channelId:userId". When accounts are linked
+ * in the user directory, the directory id matches every linked account.
+ */
+
+import type { Ch4pConfig, InboundMessage, RoleAssignment, RolePolicy } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ResolvedRole {
+  /** Role name from `roles.definitions`. */
+  name: string;
+  policy: RolePolicy;
+}
+
+// ---------------------------------------------------------------------------
+// RoleResolver
+// ---------------------------------------------------------------------------
+
+export class RoleResolver {
+  private readonly definitions: Record<string, RolePolicy>;
+  private readonly assignments: RoleAssignment[];
+  private readonly defaultRole: string | undefined;
+
+  constructor(config: Ch4pConfig) {
+    this.definitions = config.roles?.definitions ?? {};
+    this.assignments = config.roles?.assignments ?? [];
+    this.defaultRole = config.roles?.default;
+  }
+
+  /** True when any role is defined. */
+  hasRoles(): boolean {
+    return Object.keys(this.definitions).length > 0;
+  }
+
+  /**
+   * The role of a message's sender, or undefined when no assignment
+   * matches and there is no default role.
+   *
+   * @param linkedUserId  Directory id of the sender, when their accounts are linked.
+   */
+  resolve(msg: InboundMessage, linkedUserId?: string): ResolvedRole | undefined {
+    const identity = `${msg.channelId}:${msg.from.userId ?? 'anonymous'}`;
+    const chat = msg.from.groupId ? 'group' : 'private';
+
+    for (const assignment of this.assignments) {
+      if (assignment.user !== undefined && assignment.user !== identity && assignment.user !== linkedUserId) {
+        continue;
+      }
+      if (assignment.channel !== undefined && assignment.channel !== '*'
+        && assignment.channel.toLowerCase() !== msg.channelId.toLowerCase()) {
+        continue;
+      }
+      if (assignment.chat !== undefined && assignment.chat !== chat) {
+        continue;
+      }
+
+      // Assignments naming an undefined role are skipped (config validation reports them).
+      const role = this.lookup(assignment.role);
+      if (role) return role;
+    }
+
+    return this.defaultRole !== undefined ? this.lookup(this.defaultRole) : undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  private lookup(name: string): ResolvedRole | undefined {
+    const policy = this.definitions[name];
+    return policy ? { name, policy } : undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool filtering
+// ---------------------------------------------------------------------------
+
+/** Whether a role lets a tool be offered. Without a role every tool is. */
+export function roleAllowsTool(role: ResolvedRole | undefined, toolName: string): boolean {
+  if (!role) return true;
+  if (role.policy.tools && !role.policy.tools.includes(toolName)) return false;
+  return !(role.policy.toolExclude ?? []).includes(toolName);
+}
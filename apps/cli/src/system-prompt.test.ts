@@ -51,6 +51,11 @@ describe('buildSystemPrompt', () => {
       expect(p).toContain('memory_recall');
     });
 
+    it('mentions the structured fact tool', () => {
+      const p = buildSystemPrompt({ hasMemory: true });
+      expect(p).toContain('memory_fact');
+    });
+
     it('tells the model to use memory tools explicitly', () => {
       const p = buildSystemPrompt({ hasMemory: true });
       expect(p).toContain('recall information from previous conversations');
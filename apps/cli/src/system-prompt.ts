@@ -38,7 +38,9 @@ export function buildSystemPrompt(opts: SystemPromptOpts = {}): string {
     prompt +=
       ' You have persistent memory — you can recall information from previous conversations ' +
       'and learn from interactions over time. Use the memory_store and memory_recall tools ' +
-      'to explicitly save or retrieve specific information when helpful.';
+      'to explicitly save or retrieve specific information when helpful, memory_fact to ' +
+      'record lasting facts about the user and the people and projects they mention, and ' +
+      'memory_ingest to add files, folders or web pages the user wants you to know.';
   }
 
   if (opts.hasSearch) {
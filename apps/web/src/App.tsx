@@ -1,7 +1,7 @@
 import { useState, useCallback, useMemo, lazy, Suspense } from 'react';
 import { useWebSocket } from './hooks/useWebSocket';
 import { useCanvasState } from './hooks/useCanvasState';
-import type { S2CMessage } from '@ch4p/canvas';
+import type { S2CMessage, S2CApprovalRequired } from '@ch4p/canvas';
 import './styles/globals.css';
 
 // Lazy-load heavyweight components to reduce initial bundle size.
@@ -41,6 +41,9 @@ export function App() {
   const [messages, setMessages] = useState<Array<{ role: 'user' | 'assistant'; text: string }>>([]);
   const [partialText, setPartialText] = useState('');
 
+  // Tool call waiting for the user's approval (at most one at a time)
+  const [pendingApproval, setPendingApproval] = useState<S2CApprovalRequired | null>(null);
+
   // Canvas state management (processes canvas-specific S2C messages)
   const canvasState = useCanvasState(sessionId);
 
@@ -53,6 +56,13 @@ export function App() {
         if (msg.status === 'idle' || msg.status === 'complete') {
           setPartialText('');
         }
+        if (msg.status !== 'tool_executing') {
+          setPendingApproval(null);
+        }
+        break;
+
+      case 's2c:approval:required':
+        setPendingApproval(msg);
         break;
 
       case 's2c:text:delta':
@@ -83,6 +93,19 @@ export function App() {
     [send],
   );
 
+  // Answer a pending tool approval
+  const handleApproval = useCallback(
+    (
+      callId: string,
+      decision: 'approve' | 'deny' | 'edit',
+      extra?: { reason?: string; args?: Record<string, unknown> },
+    ) => {
+      send({ type: 'c2s:approval', callId, decision, ...extra });
+      setPendingApproval(null);
+    },
+    [send],
+  );
+
   // Abort agent
   const handleAbort = useCallback(() => {
     send({ type: 'c2s:abort', reason: 'User requested abort' });
@@ -115,8 +138,10 @@ export function App() {
             agentStatus={agentStatus}
             agentStatusMessage={agentStatusMessage}
             connected={connected}
+            pendingApproval={pendingApproval}
             onSend={handleSendMessage}
             onAbort={handleAbort}
+            onApproval={handleApproval}
           />
         </Suspense>
       </div>
@@ -0,0 +1,83 @@
+/**
+ * ApprovalCard — Prompt for a tool call that is waiting for the user's
+ * decision. Approve, deny (with an optional reason), or edit the JSON
+ * arguments before letting the call run.
+ */
+
+import { useState } from 'react';
+import type { S2CApprovalRequired } from '@ch4p/canvas';
+
+interface ApprovalCardProps {
+  request: S2CApprovalRequired;
+  onApprove: () => void;
+  onDeny: (reason?: string) => void;
+  onEdit: (args: Record<string, unknown>) => void;
+}
+
+export function ApprovalCard({ request, onApprove, onDeny, onEdit }: ApprovalCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => JSON.stringify(request.args ?? {}, null, 2));
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const handleEditSubmit = () => {
+    try {
+      const parsed = JSON.parse(draft) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setError('Arguments must be a JSON object.');
+        return;
+      }
+      onEdit(parsed as Record<string, unknown>);
+    } catch {
+      setError('Invalid JSON.');
+    }
+  };
+
+  return (
+    <div className="approval-card">
+      <div className="approval-title">
+        Allow <code>{request.tool}</code>?
+      </div>
+
+      {editing ? (
+        <textarea
+          className="approval-args-input"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError('');
+          }}
+          rows={6}
+        />
+      ) : (
+        <pre className="approval-args">{JSON.stringify(request.args ?? {}, null, 2)}</pre>
+      )}
+      {error && <div className="approval-error">{error}</div>}
+
+      <input
+        className="approval-reason"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional, sent on deny)"
+      />
+
+      <div className="approval-actions">
+        {editing ? (
+          <button className="send-btn" onClick={handleEditSubmit}>
+            Run edited
+          </button>
+        ) : (
+          <button className="send-btn" onClick={onApprove}>
+            Approve
+          </button>
+        )}
+        <button className="approval-btn" onClick={() => setEditing((e) => !e)}>
+          {editing ? 'Cancel edit' : 'Edit'}
+        </button>
+        <button className="approval-btn deny" onClick={() => onDeny(reason.trim() || undefined)}>
+          Deny
+        </button>
+      </div>
+    </div>
+  );
+}
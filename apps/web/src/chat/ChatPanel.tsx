@@ -5,7 +5,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { MessageBubble } from './MessageBubble';
 import { AgentStatusBar } from './AgentStatusBar';
+import { ApprovalCard } from './ApprovalCard';
 import { SettingsPanel } from '../settings/SettingsPanel';
+import type { S2CApprovalRequired } from '@ch4p/canvas';
 import '../styles/chat.css';
 
 interface ChatPanelProps {
@@ -14,8 +16,14 @@ interface ChatPanelProps {
   agentStatus: string;
   agentStatusMessage: string;
   connected: boolean;
+  pendingApproval: S2CApprovalRequired | null;
   onSend: (text: string) => void;
   onAbort: () => void;
+  onApproval: (
+    callId: string,
+    decision: 'approve' | 'deny' | 'edit',
+    extra?: { reason?: string; args?: Record<string, unknown> },
+  ) => void;
 }
 
 export function ChatPanel({
@@ -24,8 +32,10 @@ export function ChatPanel({
   agentStatus,
   agentStatusMessage,
   connected,
+  pendingApproval,
   onSend,
   onAbort,
+  onApproval,
 }: ChatPanelProps) {
   const [input, setInput] = useState('');
   const [showSettings, setShowSettings] = useState(false);
@@ -91,6 +101,16 @@ export function ChatPanel({
         <div ref={messagesEndRef} />
       </div>
 
+      {pendingApproval && (
+        <ApprovalCard
+          key={pendingApproval.callId}
+          request={pendingApproval}
+          onApprove={() => onApproval(pendingApproval.callId, 'approve')}
+          onDeny={(reason) => onApproval(pendingApproval.callId, 'deny', { reason })}
+          onEdit={(args) => onApproval(pendingApproval.callId, 'edit', { args })}
+        />
+      )}
+
       <div className="chat-input-area">
         {isWorking && (
           <button className="abort-btn" onClick={onAbort}>
@@ -0,0 +1,163 @@
+/**
+ * MemoryPanel — browse, search and correct what the agent remembers.
+ *
+ * Lists the entries of one namespace at a time (or all of them), or the
+ * recall results for a search. Each entry can be edited in place, pinned
+ * so expiry and consolidation leave it alone, or deleted.
+ */
+
+import { useState } from 'react';
+import { useMemory } from './useMemory.js';
+import type { MemoryItem } from './useMemory.js';
+
+function namespaceLabel(prefix: string): string {
+  if (prefix === '') return 'Shared';
+  if (prefix === 'doc:') return 'Documents';
+  return prefix.replace(/^u:/, '').replace(/:$/, '');
+}
+
+function isPinned(entry: MemoryItem): boolean {
+  return entry.metadata?.['pinned'] === true;
+}
+
+export function MemoryPanel() {
+  const {
+    namespaces, namespace, setNamespace, query, setQuery,
+    entries, total, loading, error, save, remove,
+  } = useMemory();
+
+  const [search, setSearch] = useState(query);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search);
+  };
+
+  const startEdit = (entry: MemoryItem) => {
+    setEditingKey(entry.key);
+    setDraft(entry.content);
+  };
+
+  const saveEdit = async (entry: MemoryItem) => {
+    if (!draft.trim()) return;
+    // The gateway keeps the entry's metadata when none is sent.
+    if (await save(entry.key, draft)) setEditingKey(null);
+  };
+
+  const togglePin = (entry: MemoryItem) => {
+    const metadata = { ...entry.metadata };
+    if (isPinned(entry)) delete metadata['pinned'];
+    else metadata['pinned'] = true;
+    void save(entry.key, entry.content, metadata);
+  };
+
+  const handleDelete = (entry: MemoryItem) => {
+    if (window.confirm(`Forget "${entry.key}"?`)) void remove(entry.key);
+  };
+
+  const allCount = namespaces.reduce((n, ns) => n + ns.count, 0);
+
+  return (
+    <div className="memory-panel">
+      <div className="memory-toolbar">
+        <select
+          className="settings-select"
+          value={namespace}
+          onChange={(e) => setNamespace(e.target.value)}
+          aria-label="Namespace"
+        >
+          <option value="">All ({allCount})</option>
+          {namespaces.filter((ns) => ns.prefix !== '').map((ns) => (
+            <option key={ns.prefix} value={ns.prefix}>
+              {namespaceLabel(ns.prefix)} ({ns.count})
+            </option>
+          ))}
+        </select>
+
+        <form className="memory-search" onSubmit={handleSearch}>
+          <input
+            className="settings-input"
+            type="search"
+            placeholder="Search memories…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </form>
+      </div>
+
+      {error && <div className="settings-error">{error}</div>}
+
+      {loading && entries.length === 0 && <div className="settings-loading">Loading…</div>}
+
+      {!loading && entries.length === 0 && !error && (
+        <div className="settings-loading">{query ? 'Nothing found.' : 'No memories yet.'}</div>
+      )}
+
+      <ul className="memory-list">
+        {entries.map((entry) => (
+          <li key={entry.key} className={`memory-entry${isPinned(entry) ? ' memory-entry-pinned' : ''}`}>
+            <div className="memory-entry-header">
+              <span className="memory-key" title={entry.key}>{entry.key}</span>
+              {entry.score !== undefined && (
+                <span className="memory-score">{entry.score.toFixed(2)}</span>
+              )}
+              <div className="memory-actions">
+                <button
+                  className="memory-action-btn"
+                  onClick={() => togglePin(entry)}
+                  aria-label={isPinned(entry) ? 'Unpin' : 'Pin'}
+                  title={isPinned(entry) ? 'Unpin' : 'Pin (never expire or merge)'}
+                >
+                  {isPinned(entry) ? '★' : '☆'}
+                </button>
+                <button
+                  className="memory-action-btn"
+                  onClick={() => startEdit(entry)}
+                  aria-label="Edit"
+                  title="Edit"
+                >
+                  ✎
+                </button>
+                <button
+                  className="memory-action-btn"
+                  onClick={() => handleDelete(entry)}
+                  aria-label="Delete"
+                  title="Delete"
+                >
+                  🗑
+                </button>
+              </div>
+            </div>
+
+            {editingKey === entry.key ? (
+              <div className="memory-edit">
+                <textarea
+                  className="settings-input memory-textarea"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={4}
+                />
+                <div className="memory-edit-actions">
+                  <button className="settings-save-btn" onClick={() => void saveEdit(entry)} disabled={!draft.trim()}>
+                    Save
+                  </button>
+                  <button className="memory-cancel-btn" onClick={() => setEditingKey(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="memory-content">{entry.content}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!query && entries.length > 0 && entries.length < total && (
+        <div className="memory-footer">Showing {entries.length} of {total}</div>
+      )}
+    </div>
+  );
+}
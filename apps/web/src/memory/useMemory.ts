@@ -0,0 +1,144 @@
+/**
+ * useMemory — hook for browsing and editing the agent's memory via the
+ * REST memory API (GET /memory · GET /memory/namespaces · POST /memory ·
+ * DELETE /memory/:key).
+ *
+ * Entries are listed per namespace (`u:{channel}:{user}:` for each user,
+ * `doc:` for ingested documents, '' for shared memories). A non-empty query
+ * switches from listing to recall, scored the same way the agent sees it.
+ *
+ * Authentication uses the bearer token from the `token` query parameter
+ * (same as the WebSocket canvas connection).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface MemoryItem {
+  key: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+  /** Recall score; only set for search results. */
+  score?: number;
+  updatedAt?: string;
+}
+
+export interface MemoryNamespace {
+  prefix: string;
+  count: number;
+}
+
+export interface UseMemoryResult {
+  namespaces: MemoryNamespace[];
+  namespace: string;
+  setNamespace: (prefix: string) => void;
+  query: string;
+  setQuery: (query: string) => void;
+  entries: MemoryItem[];
+  /** Entries in the namespace; search results are not counted. */
+  total: number;
+  loading: boolean;
+  error: string | null;
+  reload: () => void;
+  save: (key: string, content: string, metadata?: Record<string, unknown>) => Promise<boolean>;
+  remove: (key: string) => Promise<void>;
+}
+
+const LIST_LIMIT = 200;
+const SEARCH_LIMIT = 50;
+
+function getToken(): string {
+  return new URLSearchParams(window.location.search).get('token') ?? '';
+}
+
+function getBaseUrl(): string {
+  return window.location.origin;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const token = getToken();
+  const res = await fetch(`${getBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `HTTP ${res.status}`);
+  }
+  return res.json() as Promise<T>;
+}
+
+export function useMemory(): UseMemoryResult {
+  const [namespaces, setNamespaces] = useState<MemoryNamespace[]>([]);
+  const [namespace, setNamespace] = useState('');
+  const [query, setQuery] = useState('');
+  const [entries, setEntries] = useState<MemoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    const params = new URLSearchParams();
+    if (namespace) params.set('prefix', namespace);
+    if (query.trim()) {
+      params.set('q', query.trim());
+      params.set('limit', String(SEARCH_LIMIT));
+    } else {
+      params.set('limit', String(LIST_LIMIT));
+    }
+    setLoading(true);
+    setError(null);
+
+    Promise.all([
+      request<{ namespaces: MemoryNamespace[] }>('/memory/namespaces'),
+      request<{ entries?: MemoryItem[]; results?: MemoryItem[]; total?: number }>(`/memory?${params}`),
+    ])
+      .then(([ns, data]) => {
+        setNamespaces(ns.namespaces);
+        setEntries(data.results ?? data.entries ?? []);
+        setTotal(data.total ?? ns.namespaces.find((n) => n.prefix === namespace)?.count ?? 0);
+        setLoading(false);
+      })
+      .catch((err: Error) => {
+        setError(err.message);
+        setLoading(false);
+      });
+  }, [namespace, query]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = useCallback(async (
+    key: string,
+    content: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<boolean> => {
+    setError(null);
+    try {
+      await request('/memory', {
+        method: 'POST',
+        body: JSON.stringify({ key, content, ...(metadata ? { metadata } : {}) }),
+      });
+      reload();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  }, [reload]);
+
+  const remove = useCallback(async (key: string): Promise<void> => {
+    setError(null);
+    try {
+      await request(`/memory/${encodeURIComponent(key)}`, { method: 'DELETE' });
+      reload();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [reload]);
+
+  return { namespaces, namespace, setNamespace, query, setQuery, entries, total, loading, error, reload, save, remove };
+}
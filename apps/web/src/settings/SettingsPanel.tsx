@@ -7,17 +7,21 @@
  * to restart the gateway.
  *
  * Only safe fields (no API keys) are shown or accepted.
+ *
+ * A second tab hosts the memory browser (see ../memory/MemoryPanel).
  */
 
 import { useState, useEffect } from 'react';
 import { useSettings } from './useSettings.js';
 import type { SafeConfig } from './useSettings.js';
+import { MemoryPanel } from '../memory/MemoryPanel.js';
 
 interface SettingsPanelProps {
   onClose: () => void;
 }
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const [tab, setTab] = useState<'settings' | 'memory'>('settings');
   const { config, loading, saving, error, saveResult, clearSaveResult, save } = useSettings();
 
   // Auto-clear the save result banner after 6 s so it doesn't linger.
@@ -73,13 +77,32 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   return (
     <div className="settings-panel">
       <div className="settings-header">
-        <span className="settings-title">Settings</span>
+        <div className="settings-tabs" role="tablist">
+          <button
+            className={`settings-tab${tab === 'settings' ? ' active' : ''}`}
+            role="tab"
+            aria-selected={tab === 'settings'}
+            onClick={() => setTab('settings')}
+          >
+            Settings
+          </button>
+          <button
+            className={`settings-tab${tab === 'memory' ? ' active' : ''}`}
+            role="tab"
+            aria-selected={tab === 'memory'}
+            onClick={() => setTab('memory')}
+          >
+            Memory
+          </button>
+        </div>
         <button className="settings-close-btn" onClick={onClose} aria-label="Close settings">✕</button>
       </div>
 
-      {loading && <div className="settings-loading">Loading…</div>}
+      {tab === 'memory' && <MemoryPanel />}
+
+      {tab === 'settings' && loading && <div className="settings-loading">Loading…</div>}
 
-      {!loading && config && (
+      {tab === 'settings' && !loading && config && (
         <form className="settings-form" onSubmit={handleSubmit}>
           <div className="settings-section">
             <div className="settings-section-title">Agent</div>
@@ -16,17 +16,22 @@
  *  12. getStateRecords() and getToolResults() accessors
  *  13. Consecutive engine errors with retries
  *  14. Text accumulation across text_delta events
+ *  17. Human-in-the-loop tool approval
+ *  18. Budget warnings and hard stops
  */
 
 import { vi } from 'vitest';
 import { AgentLoop } from './agent-loop.js';
 import { Session } from './session.js';
+import { BudgetEnforcer } from './budget.js';
+import { MemoryUsageStore } from './usage-store.js';
 import type {
   IEngine,
   ITool,
   IObserver,
   IVerifier,
   ISecurityPolicy,
+  ToolContext,
   ToolResult,
   StateSnapshot,
   VerificationResult,
@@ -38,6 +43,7 @@ import type {
   VerificationContext,
   FormatCheckResult,
 } from '@ch4p/core';
+import { BudgetExceededError } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -1059,6 +1065,40 @@ describe('AgentLoop', () => {
       // Only the first tool should have been executed.
       expect(toolCallCount).toBe(1);
     });
+
+    it('hands back inject messages that arrived after the last yield point', async () => {
+      const engine = createMockEngine([{ type: 'completed', answer: 'Done' }]);
+      const loop = new AgentLoop(createSession(), engine, [], createMockObserver());
+      await collectEvents(loop, 'Start');
+
+      loop.steer({ type: 'inject', content: 'one more thing', timestamp: new Date() });
+      loop.steer({ type: 'context_update', content: 'ctx', timestamp: new Date() });
+
+      const unread = loop.takeUnreadInjects();
+      expect(unread.map((m) => m.content)).toEqual(['one more thing']);
+      expect(loop.takeUnreadInjects()).toEqual([]);
+    });
+
+    it('hands back inject messages that arrived during the final engine call', async () => {
+      const engine: IEngine = {
+        id: 'test-engine',
+        name: 'Test Engine',
+        startRun: vi.fn().mockResolvedValue({
+          ref: 'run-1',
+          events: (async function* () {
+            loop.steer({ type: 'inject', content: 'one more thing', timestamp: new Date() });
+            yield { type: 'completed', answer: 'Done' } as EngineEvent;
+          })(),
+          cancel: vi.fn().mockResolvedValue(undefined),
+          steer: vi.fn(),
+        }),
+        resume: vi.fn(),
+      };
+      const loop = new AgentLoop(createSession(), engine, [], createMockObserver());
+      await collectEvents(loop, 'Start');
+
+      expect(loop.takeUnreadInjects().map((m) => m.content)).toEqual(['one more thing']);
+    });
   });
 
   // =========================================================================
@@ -1688,6 +1728,42 @@ describe('AgentLoop', () => {
       );
     });
 
+    it('should report each LLM call with the provider that served it', async () => {
+      const engine = createMultiCallEngine([
+        [
+          { type: 'tool_start', id: 'tc1', tool: 'test_tool', args: {} },
+          { type: 'completed', answer: '', usage: { inputTokens: 10, outputTokens: 5 } },
+        ],
+        [{
+          type: 'completed',
+          answer: 'Done',
+          usage: { inputTokens: 20, outputTokens: 8 },
+          provider: 'ollama',
+          model: 'llama3.3',
+        }],
+      ]);
+
+      const session = createSession();
+      const observer = createMockObserver();
+      const loop = new AgentLoop(session, engine, [createMockTool()], observer);
+
+      await collectEvents(loop, 'Use tool');
+
+      expect(observer.onLLMCall).toHaveBeenCalledTimes(2);
+      expect(observer.onLLMCall).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        sessionId: 'test-session',
+        provider: 'test-provider',
+        usage: { inputTokens: 10, outputTokens: 5 },
+        finishReason: 'tool_use',
+        duration: expect.any(Number),
+      }));
+      expect(observer.onLLMCall).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        finishReason: 'stop',
+        servedBy: 'ollama',
+        servedModel: 'llama3.3',
+      }));
+    });
+
     it('should call observer.flush on cleanup', async () => {
       const engine = createMockEngine([
         { type: 'completed', answer: 'Done' },
@@ -2119,4 +2195,319 @@ describe('AgentLoop', () => {
       expect((errorEvents[0] as { error: Error }).error.message).toContain('maximum iterations');
     });
   });
+
+  // =========================================================================
+  // 17. Human-in-the-loop tool approval
+  // =========================================================================
+
+  describe('tool approval', () => {
+    function createConfirmingPolicy(): ISecurityPolicy {
+      return {
+        autonomyLevel: 'supervised',
+        validatePath: () => ({ allowed: true }),
+        validateCommand: () => ({ allowed: true }),
+        requiresConfirmation: vi.fn((action) => action.type === 'execute'),
+        audit: () => [],
+        sanitizeOutput: (text: string) => ({ clean: text, redacted: false }),
+        validateInput: () => ({ safe: true, threats: [] }),
+      };
+    }
+
+    function createToolCallEngine(args: unknown = { command: 'ls' }): IEngine {
+      return createMultiCallEngine([
+        [{ type: 'tool_start', id: 'tc1', tool: 'test_tool', args }],
+        [{ type: 'completed', answer: 'Done' }],
+      ]);
+    }
+
+    /** Run the loop, answering each approval_required event with `decide`. */
+    async function runWithDecisions(
+      loop: AgentLoop,
+      decide: (callId: string) => import('@ch4p/core').ApprovalDecision | null,
+    ) {
+      const events: import('./agent-loop.js').AgentEvent[] = [];
+      for await (const event of loop.run('Do it')) {
+        events.push(event);
+        if (event.type === 'approval_required') {
+          const decision = decide(event.callId);
+          if (decision) loop.resolveApproval(event.callId, decision);
+        }
+      }
+      return events;
+    }
+
+    it('should run gated tools immediately when approvals are disabled', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+      });
+
+      const events = await collectEvents(loop, 'Do it');
+
+      expect(events.some((e) => e.type === 'approval_required')).toBe(false);
+      expect(tool.execute).toHaveBeenCalledOnce();
+    });
+
+    it('should not ask for approval when the policy does not require it', async () => {
+      const tool = createMockTool({ actionType: 'read' });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await collectEvents(loop, 'Do it');
+
+      expect(events.some((e) => e.type === 'approval_required')).toBe(false);
+      expect(tool.execute).toHaveBeenCalledOnce();
+    });
+
+    it('should treat tools without an actionType as writes', async () => {
+      const policy = createConfirmingPolicy();
+      const tool = createMockTool();
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: policy,
+        enableApprovals: true,
+      });
+
+      await collectEvents(loop, 'Do it');
+
+      expect(policy.requiresConfirmation).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'write', target: 'test_tool' }),
+      );
+    });
+
+    it('should emit approval_required and run the tool once approved', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await runWithDecisions(loop, () => ({ action: 'approve' }));
+
+      const approvalEvent = events.find((e) => e.type === 'approval_required');
+      expect(approvalEvent).toMatchObject({
+        type: 'approval_required',
+        callId: 'tc1',
+        tool: 'test_tool',
+        args: { command: 'ls' },
+      });
+      expect(tool.execute).toHaveBeenCalledOnce();
+
+      // The approval precedes tool_start.
+      const types = events.map((e) => e.type);
+      expect(types.indexOf('approval_required')).toBeLessThan(types.indexOf('tool_start'));
+    });
+
+    it('should feed a denial back to the LLM as a tool error', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const session = createSession();
+      const loop = new AgentLoop(session, createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await runWithDecisions(loop, () => ({ action: 'deny', reason: 'too risky' }));
+
+      expect(tool.execute).not.toHaveBeenCalled();
+      expect(events.some((e) => e.type === 'tool_start')).toBe(false);
+      expect(events.some((e) => e.type === 'complete')).toBe(true);
+
+      const toolMessages = session.getContext().getMessages().filter((m) => m.role === 'tool');
+      expect(toolMessages).toHaveLength(1);
+      expect(toolMessages[0]!.content).toContain('[DENIED]');
+      expect(toolMessages[0]!.content).toContain('too risky');
+      expect(toolMessages[0]!.toolCallId).toBe('tc1');
+    });
+
+    it('should run the tool with edited arguments', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const session = createSession();
+      const loop = new AgentLoop(session, createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await runWithDecisions(loop, () => ({ action: 'edit', args: { command: 'ls -la' } }));
+
+      expect(tool.execute).toHaveBeenCalledWith({ command: 'ls -la' }, expect.anything());
+      expect(events.find((e) => e.type === 'tool_start')).toMatchObject({ args: { command: 'ls -la' } });
+
+      const toolMessages = session.getContext().getMessages().filter((m) => m.role === 'tool');
+      expect(toolMessages[0]!.content).toContain('[ARGUMENTS EDITED BY USER]');
+    });
+
+    it('should validate edited arguments before running the tool', async () => {
+      const tool = createMockTool({
+        actionType: 'execute',
+        validate: (args: unknown) => {
+          const a = args as { command?: unknown };
+          return typeof a.command === 'string'
+            ? { valid: true }
+            : { valid: false, errors: ['command must be a string'] };
+        },
+      });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await runWithDecisions(loop, () => ({ action: 'edit', args: { command: 42 } }));
+
+      expect(tool.execute).not.toHaveBeenCalled();
+      expect(events.find((e) => e.type === 'tool_validation_error')).toMatchObject({
+        errors: ['command must be a string'],
+      });
+    });
+
+    it('should deny when no decision arrives before the timeout', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const session = createSession();
+      const loop = new AgentLoop(session, createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+        approvalTimeoutMs: 10,
+      });
+
+      await runWithDecisions(loop, () => null);
+
+      expect(tool.execute).not.toHaveBeenCalled();
+      const toolMessages = session.getContext().getMessages().filter((m) => m.role === 'tool');
+      expect(toolMessages[0]!.content).toContain('[DENIED]');
+    });
+
+    it('should expose pending approvals and reject unknown call IDs', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      let pendingIds: string[] = [];
+      let unknownResolved = true;
+      await runWithDecisions(loop, () => {
+        pendingIds = loop.getPendingApprovals().map((p) => p.callId);
+        unknownResolved = loop.resolveApproval('nope', { action: 'approve' });
+        return { action: 'approve' };
+      });
+
+      expect(pendingIds).toEqual(['tc1']);
+      expect(unknownResolved).toBe(false);
+      expect(loop.getPendingApprovals()).toHaveLength(0);
+    });
+
+    it('should yield aborted when the run is aborted while waiting', async () => {
+      const tool = createMockTool({ actionType: 'execute' });
+      const loop = new AgentLoop(createSession(), createToolCallEngine(), [tool], createMockObserver(), {
+        securityPolicy: createConfirmingPolicy(),
+        enableApprovals: true,
+      });
+
+      const events = await runWithDecisions(loop, () => {
+        loop.abort('user cancelled');
+        return null;
+      });
+
+      expect(tool.execute).not.toHaveBeenCalled();
+      expect(events[events.length - 1]).toMatchObject({ type: 'aborted' });
+    });
+  });
+
+  describe('budgets', () => {
+    function budgetFor(maxTokens: number) {
+      const store = new MemoryUsageStore();
+      const budget = new BudgetEnforcer({
+        store,
+        policies: [{ scope: 'user', period: 'daily', maxTokens, warnAt: 0.5 }],
+      });
+      return { store, budget };
+    }
+
+    it('records each engine call to the ledger with the routing agent', async () => {
+      const { store, budget } = budgetFor(1000);
+      const engine = createMultiCallEngine([
+        [
+          { type: 'tool_start', id: 'tc1', tool: 'test_tool', args: {} },
+          { type: 'completed', answer: '', usage: { inputTokens: 10, outputTokens: 5 } },
+        ],
+        [{ type: 'completed', answer: 'Done', usage: { inputTokens: 20, outputTokens: 5, totalCost: 0.01 } }],
+      ]);
+
+      const loop = new AgentLoop(createSession(), engine, [createMockTool()], createMockObserver(), {
+        budget,
+        agentName: 'support',
+      });
+      await collectEvents(loop, 'Use tool');
+
+      expect(store.totals({ userId: 'user-1', agent: 'support' })).toEqual({
+        calls: 2, inputTokens: 30, outputTokens: 10, cost: 0.01,
+      });
+    });
+
+    it('warns once per run when spend crosses warnAt', async () => {
+      const { budget } = budgetFor(100);
+      budget.record({ sessionId: 'old', userId: 'user-1' }, {
+        provider: 'p', model: 'm', usage: { inputTokens: 60, outputTokens: 0 },
+      });
+      const engine = createMultiCallEngine([
+        [
+          { type: 'tool_start', id: 'tc1', tool: 'test_tool', args: {} },
+          { type: 'completed', answer: '', usage: { inputTokens: 1, outputTokens: 1 } },
+        ],
+        [{ type: 'completed', answer: 'Done' }],
+      ]);
+
+      const loop = new AgentLoop(createSession(), engine, [createMockTool()], createMockObserver(), { budget });
+      const events = await collectEvents(loop, 'Use tool');
+
+      const warnings = events.filter((e) => e.type === 'budget_warning');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ message: expect.stringContaining('daily user:user-1 budget at 60%') });
+      expect(events.at(-1)).toMatchObject({ type: 'complete', answer: 'Done' });
+    });
+
+    it('stops before the engine call once the cap is reached', async () => {
+      const { budget } = budgetFor(100);
+      budget.record({ sessionId: 'old', userId: 'user-1' }, {
+        provider: 'p', model: 'm', usage: { inputTokens: 100, outputTokens: 0 },
+      });
+      const engine = createMockEngine([{ type: 'completed', answer: 'Done' }]);
+
+      const loop = new AgentLoop(createSession(), engine, [], createMockObserver(), { budget });
+      const events = await collectEvents(loop, 'Hello');
+
+      expect(engine.startRun).not.toHaveBeenCalled();
+      const error = events.find((e) => e.type === 'error');
+      expect(error).toBeDefined();
+      expect((error as { error: Error }).error).toBeInstanceOf(BudgetExceededError);
+      expect((error as { error: Error }).error.message).toMatch(/^Budget exceeded: daily user:user-1/);
+    });
+
+    it('lets tools check the budget and bill their own engine calls', async () => {
+      const { store, budget } = budgetFor(100);
+      const tool = createMockTool({
+        execute: vi.fn(async (_args, context: ToolContext) => {
+          context.budget!.record({ provider: 'p', model: 'm', usage: { inputTokens: 100, outputTokens: 0 } });
+          return { success: true, output: JSON.stringify(context.budget!.check()) };
+        }),
+      });
+      const engine = createMultiCallEngine([
+        [
+          { type: 'tool_start', id: 'tc1', tool: 'test_tool', args: {} },
+          { type: 'completed', answer: '' },
+        ],
+        [{ type: 'completed', answer: 'Done' }],
+      ]);
+
+      const loop = new AgentLoop(createSession(), engine, [tool], createMockObserver(), { budget });
+      const events = await collectEvents(loop, 'Use tool');
+
+      expect(store.totals({ userId: 'user-1' })).toMatchObject({ calls: 1, inputTokens: 100 });
+      const result = events.find((e) => e.type === 'tool_end') as { result: ToolResult } | undefined;
+      expect(JSON.parse(result!.result.output)).toEqual({
+        allowed: false,
+        reason: expect.stringMatching(/^Budget exceeded: daily user:user-1/),
+      });
+    });
+  });
 });
@@ -7,6 +7,7 @@
  *   2. Send context to engine via startRun()
  *   3. Consume engine events (text_delta, tool_start, tool_end, completed, error)
  *   4. Validate tool call arguments (mandatory step-level validation)
+ *   4a. Pause for human approval when the security policy requires it
  *   5. Capture state snapshots before/after tool execution
  *   6. Execute requested tool calls
  *   7. Run task-level verification on completion (if verifier configured)
@@ -30,6 +31,8 @@
  */
 
 import type {
+  ApprovalDecision,
+  ContentBlock,
   IEngine,
   ITool,
   IObserver,
@@ -37,6 +40,7 @@ import type {
   IMemoryBackend,
   ISecurityPolicy,
   ToolResult,
+  ToolBudget,
   ToolContext,
   ToolCall,
   Message,
@@ -45,10 +49,11 @@ import type {
   EngineEvent,
   Job,
   RunHandle,
+  SandboxConfig,
   StateSnapshot,
   VerificationResult,
 } from '@ch4p/core';
-import { EngineError, ToolError } from '@ch4p/core';
+import { BudgetExceededError, EngineError, ToolError } from '@ch4p/core';
 import { abortableSleep, backoffDelay } from '@ch4p/core';
 import { setMaxListeners } from 'node:events';
 
@@ -58,6 +63,10 @@ import { Session } from './session.js';
 import type { ContextManager } from './context.js';
 import type { SteeringMessage } from './steering.js';
 import { ToolWorkerPool } from './worker-pool.js';
+import { ApprovalGate } from './approval.js';
+import type { PendingApproval } from './approval.js';
+import { formatBudgetStatus } from './budget.js';
+import type { BudgetEnforcer, BudgetScope, BudgetStatus } from './budget.js';
 
 // ---------------------------------------------------------------------------
 // Workspace path sanitization
@@ -97,6 +106,9 @@ const DEFAULT_MAX_TOOL_OUTPUT_LEN = 65_536; // 64 KiB
 /** Default max state records (before/after snapshots) kept for verification. */
 const DEFAULT_MAX_STATE_RECORDS = 20;
 
+/** Default time to wait for a human approval decision before denying. */
+const DEFAULT_APPROVAL_TIMEOUT_MS = 120_000;
+
 // ---------------------------------------------------------------------------
 // AgentEvent — the public event stream type
 // ---------------------------------------------------------------------------
@@ -108,7 +120,9 @@ export type AgentEvent =
   | { type: 'tool_progress'; tool: string; update: string }
   | { type: 'tool_end'; tool: string; result: ToolResult }
   | { type: 'tool_validation_error'; tool: string; errors: string[] }
+  | { type: 'approval_required'; callId: string; tool: string; args: unknown; expiresAt: Date }
   | { type: 'verification'; result: VerificationResult }
+  | { type: 'budget_warning'; status: BudgetStatus; message: string }
   | { type: 'complete'; answer: string; usage?: TokenUsage }
   | { type: 'error'; error: Error }
   | { type: 'aborted'; reason: string };
@@ -151,6 +165,18 @@ export interface AgentLoopOpts {
   maxToolOutputLen?: number;
   /** Max state snapshot records per run. Default: 20. */
   maxStateRecords?: number;
+  /** Pause tool calls that the security policy's requiresConfirmation()
+   *  flags, emit `approval_required`, and wait for resolveApproval().
+   *  Only enable when the caller can actually answer. Default: false. */
+  enableApprovals?: boolean;
+  /** How long to wait for an approval decision before denying (ms).
+   *  Default: 120000. */
+  approvalTimeoutMs?: number;
+  /** Spend caps checked before every engine call; each call is recorded
+   *  to its ledger. A blocking cap ends the run with BudgetExceededError. */
+  budget?: BudgetEnforcer;
+  /** Routing agent name, for per-agent budgets and usage breakdowns. */
+  agentName?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -204,7 +230,7 @@ export class AgentLoop {
   private readonly tools: Map<string, ITool>;
   private readonly toolDefs: ToolDefinition[];
   private readonly observer: IObserver;
-  private readonly opts: Required<Omit<AgentLoopOpts, 'verifier' | 'enableStateSnapshots' | 'memoryBackend' | 'securityPolicy' | 'toolContextExtensions' | 'onBeforeFirstRun' | 'onAfterComplete' | 'maxToolResults' | 'maxToolOutputLen' | 'maxStateRecords'>> & {
+  private readonly opts: Required<Omit<AgentLoopOpts, 'verifier' | 'enableStateSnapshots' | 'memoryBackend' | 'securityPolicy' | 'toolContextExtensions' | 'onBeforeFirstRun' | 'onAfterComplete' | 'maxToolResults' | 'maxToolOutputLen' | 'maxStateRecords' | 'enableApprovals' | 'approvalTimeoutMs' | 'budget' | 'agentName'>> & {
     verifier?: IVerifier;
     enableStateSnapshots: boolean;
     memoryBackend?: IMemoryBackend;
@@ -218,6 +244,11 @@ export class AgentLoop {
   private currentHandle: RunHandle | null = null;
   private workerPool: ToolWorkerPool;
   private ownsWorkerPool: boolean;
+  /** Pending human approvals (null when approvals are disabled). */
+  private readonly approvalGate: ApprovalGate | null;
+  /** Spend caps (null when no budget is configured). */
+  private readonly budget: BudgetEnforcer | null;
+  private readonly agentName: string | undefined;
 
   /** Accumulated state snapshots for verification (AWM). */
   private stateRecords: ToolStateRecord[] = [];
@@ -225,6 +256,8 @@ export class AgentLoop {
   private allToolResults: ToolResult[] = [];
   /** Cumulative token usage across all iterations. */
   private cumulativeTokens = { inputTokens: 0, outputTokens: 0 };
+  /** Injects still queued when the session ended, which clears its steering queue. */
+  private unreadInjects: SteeringMessage[] = [];
 
   // Resolved memory safety caps (configurable via opts / Ch4pConfig.agent).
   private readonly maxToolResults: number;
@@ -271,6 +304,12 @@ export class AgentLoop {
     this.maxToolResults = opts.maxToolResults ?? DEFAULT_MAX_TOOL_RESULTS;
     this.maxToolOutputLen = opts.maxToolOutputLen ?? DEFAULT_MAX_TOOL_OUTPUT_LEN;
     this.maxStateRecords = opts.maxStateRecords ?? DEFAULT_MAX_STATE_RECORDS;
+
+    this.approvalGate = opts.enableApprovals
+      ? new ApprovalGate(opts.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS)
+      : null;
+    this.budget = opts.budget ?? null;
+    this.agentName = opts.agentName;
   }
 
   // -----------------------------------------------------------------------
@@ -286,8 +325,11 @@ export class AgentLoop {
    * Run the agent loop, returning an async iterable of AgentEvents.
    * The loop continues until the engine signals completion, the iteration
    * limit is reached, or the run is aborted.
+   *
+   * The initial message may be content blocks when the user sent images or
+   * documents along with their text.
    */
-  async *run(initialMessage: string): AsyncIterable<AgentEvent> {
+  async *run(initialMessage: string | ContentBlock[]): AsyncIterable<AgentEvent> {
     this.abortController = new AbortController();
     const signal = this.abortController.signal;
 
@@ -329,6 +371,8 @@ export class AgentLoop {
     let consecutiveErrors = 0;
     let done = false;
     let finalAnswer = '';
+    // Each budget warning is shown once per run, not before every call.
+    const budgetWarned = new Set<string>();
 
     try {
       while (!done && iterations < this.opts.maxIterations) {
@@ -348,6 +392,28 @@ export class AgentLoop {
           return;
         }
 
+        // ----- Budget check -----
+        if (this.budget) {
+          const check = this.budget.check(this.budgetScope());
+          for (const status of check.warnings) {
+            if (budgetWarned.has(status.label)) continue;
+            budgetWarned.add(status.label);
+            yield { type: 'budget_warning', status, message: formatBudgetStatus(status) };
+          }
+          if (!check.allowed) {
+            const exceeded = check.exceeded[0]!;
+            yield {
+              type: 'error',
+              error: new BudgetExceededError(`Budget exceeded: ${formatBudgetStatus(exceeded)}`, {
+                policy: exceeded.label,
+                resetsAt: exceeded.resetsAt.toISOString(),
+              }),
+            };
+            done = true;
+            break;
+          }
+        }
+
         // ----- Send context to engine -----
         const job: Job = {
           sessionId: this.session.getId(),
@@ -358,6 +424,7 @@ export class AgentLoop {
         };
 
         let handle;
+        const callStartedAt = Date.now();
         try {
           handle = await this.engine.startRun(job, { signal });
           this.currentHandle = handle;
@@ -425,6 +492,28 @@ export class AgentLoop {
                 this.cumulativeTokens.inputTokens += completionUsage.inputTokens;
                 this.cumulativeTokens.outputTokens += completionUsage.outputTokens;
               }
+              const sessionConfig = this.session.getConfig();
+              this.observer.onLLMCall({
+                sessionId: sessionConfig.sessionId,
+                provider: sessionConfig.provider,
+                model: sessionConfig.model,
+                usage: completionUsage ?? { inputTokens: 0, outputTokens: 0 },
+                duration: Date.now() - callStartedAt,
+                finishReason: pendingToolCalls.length > 0 ? 'tool_use' : 'stop',
+                servedBy: event.provider,
+                servedModel: event.model,
+              });
+              if (this.budget && completionUsage) {
+                try {
+                  this.budget.record(this.budgetScope(), {
+                    provider: event.provider ?? sessionConfig.provider,
+                    model: event.model ?? sessionConfig.model,
+                    usage: completionUsage,
+                  });
+                } catch {
+                  // Not critical — a ledger write failure must not fail the run.
+                }
+              }
             }
 
             if (event.type === 'error') {
@@ -520,9 +609,64 @@ export class AgentLoop {
               continue; // Skip execution, let the LLM correct itself.
             }
 
-            yield { type: 'tool_start', tool: toolCall.name, args: toolCall.args };
+            // ----- Human-in-the-loop approval -----
+            let approvedCall = toolCall;
+            let editNote = '';
+            if (this.approvalGate && this.requiresApproval(toolCall)) {
+              const pending = this.approvalGate.request(
+                { callId: toolCall.id, tool: toolCall.name, args: toolCall.args },
+                signal,
+              );
+              yield {
+                type: 'approval_required',
+                callId: toolCall.id,
+                tool: toolCall.name,
+                args: toolCall.args,
+                expiresAt: pending.approval.expiresAt,
+              };
+
+              const decision = await pending.decision;
+              if (signal.aborted) {
+                yield { type: 'aborted', reason: 'Signal aborted' };
+                return;
+              }
+
+              if (decision.action === 'deny') {
+                // Denials go back to the LLM as a tool error so it can pick
+                // another approach or ask the user.
+                await this.session.getContext().addMessage({
+                  role: 'tool',
+                  content: `[DENIED] The user did not approve the "${toolCall.name}" tool call${decision.reason ? `: ${decision.reason}` : '.'} Do not retry the same call; choose another approach or ask the user.`,
+                  toolCallId: toolCall.id,
+                });
+                this.session.recordToolInvocation();
+                continue;
+              }
+
+              if (decision.action === 'edit') {
+                approvedCall = { ...toolCall, args: decision.args };
+                const editValidation = this.validateToolCall(approvedCall);
+                if (editValidation !== null) {
+                  yield {
+                    type: 'tool_validation_error',
+                    tool: toolCall.name,
+                    errors: editValidation.errors,
+                  };
+                  await this.session.getContext().addMessage({
+                    role: 'tool',
+                    content: `[VALIDATION ERROR] The user edited the arguments for tool "${toolCall.name}" but they are invalid: ${editValidation.errors.join(', ')}. The tool was not run.`,
+                    toolCallId: toolCall.id,
+                  });
+                  this.session.recordToolInvocation();
+                  continue;
+                }
+                editNote = `[ARGUMENTS EDITED BY USER] ${JSON.stringify(decision.args)}\n`;
+              }
+            }
+
+            yield { type: 'tool_start', tool: approvedCall.name, args: approvedCall.args };
 
-            const result = await this.executeTool(toolCall, signal);
+            const result = await this.executeTool(approvedCall, signal);
 
             // Track for verification (capped to prevent unbounded growth).
             const cappedResult = { ...result };
@@ -542,7 +686,7 @@ export class AgentLoop {
 
             // Sanitize tool output before adding to LLM context — prevents
             // leaked secrets (API keys, tokens, etc.) from reaching the model.
-            const rawContent = result.output || result.error || '';
+            const rawContent = editNote + (result.output || result.error || '');
             const policy = this.opts.securityPolicy ?? PERMISSIVE_POLICY;
             const sanitized = policy.sanitizeOutput(rawContent);
             if (sanitized.redacted) {
@@ -587,7 +731,7 @@ export class AgentLoop {
       if (!done) {
         const error = new Error(`Agent loop exceeded maximum iterations (${this.opts.maxIterations})`);
         yield { type: 'error', error };
-        this.session.fail(error);
+        this.endSession(error);
         return;
       }
 
@@ -595,7 +739,9 @@ export class AgentLoop {
       if (this.opts.verifier && finalAnswer) {
         try {
           const verificationResult = await this.opts.verifier.verify({
-            taskDescription: initialMessage,
+            taskDescription: typeof initialMessage === 'string'
+              ? initialMessage
+              : initialMessage.map((b) => b.text ?? '').filter(Boolean).join('\n'),
             finalAnswer,
             messages: this.session.getContext().getMessages(),
             toolResults: this.allToolResults,
@@ -635,7 +781,7 @@ export class AgentLoop {
         }
       }
 
-      this.session.complete();
+      this.endSession();
 
       // Lifecycle hook: auto-summarize the completed conversation.
       if (this.opts.onAfterComplete && finalAnswer) {
@@ -648,9 +794,11 @@ export class AgentLoop {
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       yield { type: 'error', error };
-      this.session.fail(error);
+      this.endSession(error);
     } finally {
       this.currentHandle = null;
+      // Settle any approval left waiting if the consumer stopped iterating.
+      this.approvalGate?.denyAll('Run ended');
       // Clean up resources.
       this.observer.onSessionEnd(
         {
@@ -696,6 +844,21 @@ export class AgentLoop {
     this.session.getSteering().push(message);
   }
 
+  /**
+   * Remove and return inject messages the run never read because they
+   * arrived after its last yield point. Callers can answer them in a new run.
+   */
+  takeUnreadInjects(): SteeringMessage[] {
+    const steering = this.session.getSteering();
+    const pending = steering.drain();
+    for (const msg of pending) {
+      if (msg.type !== 'inject') steering.push(msg);
+    }
+    const unread = [...this.unreadInjects, ...pending.filter((msg) => msg.type === 'inject')];
+    this.unreadInjects = [];
+    return unread;
+  }
+
   /**
    * Forward a raw string to the engine's stdin.
    * Used to respond to permission prompts from SubprocessEngine (e.g. claude-cli).
@@ -704,6 +867,19 @@ export class AgentLoop {
     this.currentHandle?.steer(message);
   }
 
+  /**
+   * Answer a pending `approval_required` event. Returns false when no
+   * approval with that call ID is waiting (answered, expired, or unknown).
+   */
+  resolveApproval(callId: string, decision: ApprovalDecision): boolean {
+    return this.approvalGate?.resolve(callId, decision) ?? false;
+  }
+
+  /** Tool calls currently waiting for an approval decision. */
+  getPendingApprovals(): PendingApproval[] {
+    return this.approvalGate?.list() ?? [];
+  }
+
   /** Get accumulated state records for external inspection. */
   getStateRecords(): readonly ToolStateRecord[] {
     return this.stateRecords;
@@ -801,6 +977,21 @@ export class AgentLoop {
     return null;
   }
 
+  /**
+   * Ask the security policy whether a (validated) tool call needs a human
+   * decision. The tool's actionType maps onto the autonomy categories;
+   * tools that don't declare one are treated as writes.
+   */
+  private requiresApproval(toolCall: ToolCall): boolean {
+    const tool = this.tools.get(toolCall.name);
+    const policy = this.opts.securityPolicy ?? PERMISSIVE_POLICY;
+    return policy.requiresConfirmation({
+      type: tool?.actionType ?? 'write',
+      target: toolCall.name,
+      details: { callId: toolCall.id, args: toolCall.args },
+    });
+  }
+
   // -----------------------------------------------------------------------
   // Tool execution (with AWM state snapshots)
   // -----------------------------------------------------------------------
@@ -835,6 +1026,7 @@ export class AgentLoop {
       },
       // Inject memory backend so memory_store / memory_recall tools can access it.
       ...(this.opts.memoryBackend ? { memoryBackend: this.opts.memoryBackend } : {}),
+      ...(this.budget ? { budget: this.toolBudget(this.budget) } : {}),
       // Spread any domain-specific extensions (e.g. canvasState for canvas tool).
       ...(this.opts.toolContextExtensions ?? {}),
     };
@@ -861,6 +1053,7 @@ export class AgentLoop {
             context: {
               sessionId: this.session.getId(),
               cwd: sanitizeWorkspacePath(rawCwd),
+              sandbox: this.opts.toolContextExtensions?.['sandbox'] as SandboxConfig | undefined,
             },
           },
           signal,
@@ -926,6 +1119,36 @@ export class AgentLoop {
   // Steering
   // -----------------------------------------------------------------------
 
+  /** The budget as tools that call an engine themselves see it. */
+  private toolBudget(budget: BudgetEnforcer): ToolBudget {
+    return {
+      check: () => {
+        const exceeded = budget.check(this.budgetScope()).exceeded[0];
+        return exceeded
+          ? { allowed: false, reason: `Budget exceeded: ${formatBudgetStatus(exceeded)}` }
+          : { allowed: true };
+      },
+      record: (call) => {
+        try {
+          budget.record(this.budgetScope(), call);
+        } catch {
+          // Not critical — a ledger write failure must not fail the tool.
+        }
+      },
+    };
+  }
+
+  /** Who this loop's engine calls are billed to. */
+  private budgetScope(): BudgetScope {
+    const config = this.session.getConfig();
+    return {
+      sessionId: config.sessionId,
+      userId: config.userId,
+      channelId: config.channelId,
+      agent: this.agentName,
+    };
+  }
+
   /**
    * Drain the steering queue and process all messages. Returns an object
    * indicating whether an abort was requested.
@@ -995,6 +1218,16 @@ export class AgentLoop {
     return { abort, abortReason };
   }
 
+  /**
+   * Complete the session, or fail it with `error`. Keeps unread injects
+   * for takeUnreadInjects(), since ending the session drops its steering.
+   */
+  private endSession(error?: Error): void {
+    this.unreadInjects = this.takeUnreadInjects();
+    if (error) this.session.fail(error);
+    else this.session.complete();
+  }
+
   /**
    * Extract the abort reason from a pending abort message.
    */
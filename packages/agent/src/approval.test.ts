@@ -0,0 +1,77 @@
+/**
+ * Tests for ApprovalGate — pending human-in-the-loop tool approvals.
+ */
+
+import { vi } from 'vitest';
+import { ApprovalGate } from './approval.js';
+
+describe('ApprovalGate', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves the pending decision', async () => {
+    const gate = new ApprovalGate(1_000);
+    const { approval, decision } = gate.request({ callId: 'c1', tool: 'bash', args: { command: 'ls' } });
+
+    expect(approval.expiresAt.getTime() - approval.requestedAt.getTime()).toBe(1_000);
+    expect(gate.size).toBe(1);
+    expect(gate.resolve('c1', { action: 'approve' })).toBe(true);
+    await expect(decision).resolves.toEqual({ action: 'approve' });
+    expect(gate.size).toBe(0);
+  });
+
+  it('returns false for unknown or already-settled call IDs', () => {
+    const gate = new ApprovalGate(1_000);
+    gate.request({ callId: 'c1', tool: 'bash', args: {} });
+
+    expect(gate.resolve('missing', { action: 'approve' })).toBe(false);
+    expect(gate.resolve('c1', { action: 'approve' })).toBe(true);
+    expect(gate.resolve('c1', { action: 'approve' })).toBe(false);
+  });
+
+  it('denies after the timeout', async () => {
+    vi.useFakeTimers();
+    const gate = new ApprovalGate(5_000);
+    const { decision } = gate.request({ callId: 'c1', tool: 'bash', args: {} });
+
+    vi.advanceTimersByTime(5_000);
+
+    await expect(decision).resolves.toMatchObject({ action: 'deny', reason: 'No decision within 5s' });
+    expect(gate.size).toBe(0);
+  });
+
+  it('denies when the signal aborts', async () => {
+    const gate = new ApprovalGate(60_000);
+    const controller = new AbortController();
+    const { decision } = gate.request({ callId: 'c1', tool: 'bash', args: {} }, controller.signal);
+
+    controller.abort();
+
+    await expect(decision).resolves.toMatchObject({ action: 'deny', reason: 'Run aborted' });
+  });
+
+  it('denies immediately when the signal is already aborted', async () => {
+    const gate = new ApprovalGate(60_000);
+    const controller = new AbortController();
+    controller.abort();
+
+    const { decision } = gate.request({ callId: 'c1', tool: 'bash', args: {} }, controller.signal);
+
+    await expect(decision).resolves.toMatchObject({ action: 'deny' });
+    expect(gate.size).toBe(0);
+  });
+
+  it('denyAll settles every pending approval', async () => {
+    const gate = new ApprovalGate(60_000);
+    const a = gate.request({ callId: 'a', tool: 'bash', args: {} });
+    const b = gate.request({ callId: 'b', tool: 'bash', args: {} });
+
+    expect(gate.list().map((p) => p.callId)).toEqual(['a', 'b']);
+    gate.denyAll('Run ended');
+
+    await expect(a.decision).resolves.toEqual({ action: 'deny', reason: 'Run ended' });
+    await expect(b.decision).resolves.toEqual({ action: 'deny', reason: 'Run ended' });
+    expect(gate.list()).toEqual([]);
+  });
+});
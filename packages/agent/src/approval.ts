@@ -0,0 +1,113 @@
+/**
+ * ApprovalGate — pending human-in-the-loop tool approvals.
+ *
+ * When the security policy says a tool call requires confirmation, the agent
+ * loop opens an entry here, emits an `approval_required` event, and waits on
+ * the returned promise. Whoever is driving the loop (REPL prompt, gateway
+ * HTTP route, canvas client, channel reply) settles the entry through
+ * resolve(). Entries that are not answered before the timeout — or whose
+ * run is aborted — settle as denials, so a gated call never runs unattended.
+ */
+
+import type { ApprovalDecision } from '@ch4p/core';
+
+/** A tool call waiting for a human decision. */
+export interface PendingApproval {
+  callId: string;
+  tool: string;
+  args: unknown;
+  requestedAt: Date;
+  expiresAt: Date;
+}
+
+interface PendingEntry {
+  approval: PendingApproval;
+  settle: (decision: ApprovalDecision) => void;
+}
+
+export class ApprovalGate {
+  private readonly pending = new Map<string, PendingEntry>();
+  private readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Open a pending approval for a tool call. The entry is registered
+   * synchronously, so resolve() may be called as soon as this returns.
+   */
+  request(
+    call: { callId: string; tool: string; args: unknown },
+    signal?: AbortSignal,
+  ): { approval: PendingApproval; decision: Promise<ApprovalDecision> } {
+    // A duplicate call ID would orphan the earlier waiter — deny it first.
+    this.resolve(call.callId, { action: 'deny', reason: 'Superseded by a newer request' });
+
+    const requestedAt = new Date();
+    const approval: PendingApproval = {
+      ...call,
+      requestedAt,
+      expiresAt: new Date(requestedAt.getTime() + this.timeoutMs),
+    };
+
+    const decision = new Promise<ApprovalDecision>((resolve) => {
+      const onAbort = () => {
+        this.resolve(call.callId, { action: 'deny', reason: 'Run aborted' });
+      };
+
+      const timer = setTimeout(() => {
+        this.resolve(call.callId, {
+          action: 'deny',
+          reason: `No decision within ${Math.round(this.timeoutMs / 1000)}s`,
+        });
+      }, this.timeoutMs);
+
+      this.pending.set(call.callId, {
+        approval,
+        settle: (d) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(d);
+        },
+      });
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    return { approval, decision };
+  }
+
+  /**
+   * Settle a pending approval. Returns false when no approval with the
+   * given call ID is waiting (already answered, timed out, or unknown).
+   */
+  resolve(callId: string, decision: ApprovalDecision): boolean {
+    const entry = this.pending.get(callId);
+    if (!entry) return false;
+    this.pending.delete(callId);
+    entry.settle(decision);
+    return true;
+  }
+
+  /** Deny every pending approval (used when the run ends). */
+  denyAll(reason: string): void {
+    for (const callId of [...this.pending.keys()]) {
+      this.resolve(callId, { action: 'deny', reason });
+    }
+  }
+
+  /** Snapshot of the approvals currently waiting for a decision. */
+  list(): PendingApproval[] {
+    return [...this.pending.values()].map((e) => e.approval);
+  }
+
+  /** Number of approvals currently waiting. */
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -1,7 +1,7 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
-import type { IMemoryBackend, MemoryResult, MemoryEntry } from '@ch4p/core';
+import type { EntityProfile, IMemoryBackend, IProvider, MemoryResult, MemoryEntry } from '@ch4p/core';
 import { ContextManager } from './context.js';
-import { createAutoRecallHook, createAutoSummarizeHook } from './auto-memory.js';
+import { createAutoRecallHook, createAutoSummarizeHook, createMemorySummarizer } from './auto-memory.js';
 
 // ---------------------------------------------------------------------------
 // Mock memory backend
@@ -376,6 +376,77 @@ describe('createAutoRecallHook — namespace', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Entity profiles
+// ---------------------------------------------------------------------------
+
+describe('createAutoRecallHook — entity profile', () => {
+  const profile = (name: string, type: string, extra: Partial<EntityProfile> = {}): EntityProfile => ({
+    name, type, attributes: {}, relations: [], updatedAt: new Date(), ...extra,
+  });
+
+  function withEntities(backend: IMemoryBackend, user: EntityProfile | null, mentioned: EntityProfile[]) {
+    const getEntity = vi.fn(async () => user);
+    const findEntities = vi.fn(async () => mentioned);
+    return Object.assign(backend, { getEntity, findEntities });
+  }
+
+  it('injects the user profile and the entities the message names', async () => {
+    const backend = withEntities(
+      createMockBackend([{ key: 'conv:1', content: 'Asked about the launch', score: 0.8, matchType: 'hybrid' }]),
+      profile('user', 'person', {
+        attributes: { prefers_units: 'metric' },
+        relations: [{ predicate: 'works_on', entity: 'Project X', direction: 'out' }],
+      }),
+      [profile('Project X', 'project', {
+        attributes: { deadline: 'November' },
+        relations: [{ predicate: 'manager_of', entity: 'Alice', direction: 'in' }],
+      })],
+    );
+    const hook = createAutoRecallHook(backend, { namespace: 'u:telegram:42' });
+
+    const ctx = new ContextManager();
+    await ctx.addMessage({ role: 'user', content: 'When is Project X due?' });
+    await hook(ctx);
+
+    expect(backend.getEntity).toHaveBeenCalledWith('user', { namespace: 'u:telegram:42' });
+    expect(backend.findEntities).toHaveBeenCalledWith('When is Project X due?', { namespace: 'u:telegram:42', limit: 6 });
+    const content = ctx.getMessages()[1]!.content as string;
+    expect(content).toContain([
+      'Known facts:',
+      '- The user: prefers_units: metric; works_on → Project X',
+      '- Project X (project): deadline: November; manager_of ← Alice',
+    ].join('\n'));
+    expect(content.indexOf('Known facts')).toBeLessThan(content.indexOf('Relevant memories'));
+  });
+
+  it('injects facts even when no memories are recalled', async () => {
+    const backend = withEntities(createMockBackend([]), null, [profile('Alice', 'person', { attributes: { role: 'manager' } })]);
+    const hook = createAutoRecallHook(backend);
+
+    const ctx = new ContextManager();
+    await ctx.addMessage({ role: 'user', content: 'Ask Alice' });
+    await hook(ctx);
+
+    const content = ctx.getMessages()[1]!.content as string;
+    expect(content).toContain('- Alice (person): role: manager');
+    expect(content).not.toContain('The user');
+    expect(content).not.toContain('Relevant memories');
+  });
+
+  it('skips entity lookup when entityProfile is false', async () => {
+    const backend = withEntities(createMockBackend([]), profile('user', 'person', { attributes: { a: 'b' } }), []);
+    const hook = createAutoRecallHook(backend, { entityProfile: false });
+
+    const ctx = new ContextManager();
+    await ctx.addMessage({ role: 'user', content: 'Hello' });
+    await hook(ctx);
+
+    expect(backend.getEntity).not.toHaveBeenCalled();
+    expect(ctx.getMessages()).toHaveLength(1);
+  });
+});
+
 describe('createAutoSummarizeHook — namespace', () => {
   it('prefixes stored key with namespace', async () => {
     const backend = createMockBackend();
@@ -423,3 +494,67 @@ describe('createAutoSummarizeHook — namespace', () => {
     expect(backend2.storeCalls[0]!.key).toMatch(/^u:discord:1:conv:/);
   });
 });
+
+describe('createAutoSummarizeHook — ttlMs', () => {
+  it('sets expiresAt on stored summaries', async () => {
+    const backend = createMockBackend();
+    const hook = createAutoSummarizeHook(backend, { ttlMs: 60_000 });
+
+    const ctx = new ContextManager();
+    await ctx.addMessage({ role: 'user', content: 'Remind me later' });
+    const before = Date.now();
+    await hook(ctx, 'I will keep that in mind for now.');
+
+    const expiresAt = Date.parse(backend.storeCalls[0]!.metadata!['expiresAt'] as string);
+    expect(expiresAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 60_000);
+  });
+
+  it('stores no expiry without ttlMs', async () => {
+    const backend = createMockBackend();
+    const hook = createAutoSummarizeHook(backend);
+
+    const ctx = new ContextManager();
+    await ctx.addMessage({ role: 'user', content: 'Remember this' });
+    await hook(ctx, 'Noted, I will remember it.');
+
+    expect(backend.storeCalls[0]!.metadata).not.toHaveProperty('expiresAt');
+  });
+});
+
+describe('createMemorySummarizer', () => {
+  function makeProvider(content: string): IProvider {
+    return {
+      id: 'mock',
+      name: 'Mock Provider',
+      listModels: vi.fn().mockResolvedValue([]),
+      stream: vi.fn(),
+      complete: vi.fn().mockResolvedValue({
+        message: { role: 'assistant', content },
+        usage: { inputTokens: 10, outputTokens: 5 },
+        finishReason: 'stop',
+      }),
+      countTokens: vi.fn().mockResolvedValue(10),
+      supportsTools: vi.fn().mockReturnValue(false),
+    };
+  }
+
+  it('sends every note to the model and returns its merge', async () => {
+    const provider = makeProvider('  User drinks black coffee.  ');
+    const summarize = createMemorySummarizer(provider, 'test-model');
+
+    const merged = await summarize(['User likes coffee', 'User takes it black']);
+
+    expect(merged).toBe('User drinks black coffee.');
+    const [model, messages, opts] = vi.mocked(provider.complete).mock.calls[0]!;
+    expect(model).toBe('test-model');
+    expect(messages[0]!.content).toContain('Note 1:\nUser likes coffee');
+    expect(messages[0]!.content).toContain('Note 2:\nUser takes it black');
+    expect(opts).toMatchObject({ temperature: 0, maxTokens: 1024 });
+  });
+
+  it('rejects an empty reply', async () => {
+    const summarize = createMemorySummarizer(makeProvider('   '), 'test-model');
+    await expect(summarize(['a', 'b'])).rejects.toThrow('no text');
+  });
+});
@@ -5,11 +5,13 @@
  * that wire into AgentLoopOpts, enabling ch4p to continuously learn from
  * conversations without requiring explicit memory_store/memory_recall tool calls.
  *
- * - createAutoRecallHook: retrieves relevant memories before the first engine call
+ * - createAutoRecallHook: retrieves relevant memories, and the known facts about the
+ *   user and the entities the message names, before the first engine call
  * - createAutoSummarizeHook: stores a conversation summary after completion
+ * - createMemorySummarizer: merges near-duplicate summaries for consolidation
  */
 
-import type { IMemoryBackend, RecallOpts } from '@ch4p/core';
+import type { EntityOpts, EntityProfile, IMemoryBackend, IProvider, RecallOpts } from '@ch4p/core';
 import type { ContextManager } from './context.js';
 import type { AgentLoopOpts } from './agent-loop.js';
 
@@ -31,6 +33,13 @@ export interface AutoRecallOpts {
    * Omit for CLI (single-user) where all memories are shared.
    */
   namespace?: string;
+  /**
+   * Inject the structured facts known about the user and the entities the
+   * message names, when the backend keeps them. Default: true.
+   */
+  entityProfile?: boolean;
+  /** Maximum number of entities described besides the user. Default: 5. */
+  maxEntities?: number;
 }
 
 export interface AutoSummarizeOpts {
@@ -45,6 +54,13 @@ export interface AutoSummarizeOpts {
    * Omit for CLI (single-user) where keys are stored without a prefix.
    */
   namespace?: string;
+  /** Time to live for stored summaries in ms. Default: none (kept until forgotten). */
+  ttlMs?: number;
+}
+
+export interface MemorySummarizerOpts {
+  /** Maximum tokens in the merged summary. Default: 1024. */
+  maxTokens?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,38 +77,96 @@ export function createAutoRecallHook(
 ): NonNullable<AgentLoopOpts['onBeforeFirstRun']> {
   const maxResults = opts?.maxResults ?? 5;
   const minScore = opts?.minScore ?? 0.1;
+  const maxEntities = opts?.maxEntities ?? 5;
 
   return async (ctx: ContextManager): Promise<void> => {
     // Extract the last user message as the recall query.
     const messages = ctx.getMessages();
     const lastUserMsg = messages.filter((m) => m.role === 'user').pop();
-    if (!lastUserMsg || typeof lastUserMsg.content !== 'string') return;
+    if (!lastUserMsg) return;
 
-    const query = lastUserMsg.content;
+    // Messages with attachments carry content blocks; recall on their text.
+    const query = typeof lastUserMsg.content === 'string'
+      ? lastUserMsg.content
+      : lastUserMsg.content.filter((b) => b.type === 'text').map((b) => b.text ?? '').join('\n');
     if (!query.trim()) return;
 
-    const results = await backend.recall(query, {
-      limit: maxResults,
-      minScore,
-      ...opts?.recallOpts,
-      ...(opts?.namespace ? { keyPrefix: `${opts.namespace}:` } : {}),
-    });
+    const [results, profiles] = await Promise.all([
+      backend.recall(query, {
+        limit: maxResults,
+        minScore,
+        ...opts?.recallOpts,
+        ...(opts?.namespace ? { keyPrefix: `${opts.namespace}:` } : {}),
+      }),
+      opts?.entityProfile === false
+        ? []
+        : recallEntities(backend, query, { namespace: opts?.namespace }, maxEntities),
+    ]);
 
-    if (results.length === 0) return;
+    // Format the known facts and recalled memories as one system context message.
+    const sections: string[] = [];
+    if (profiles.length > 0) {
+      sections.push('Known facts:\n' + profiles.map(formatEntityProfile).join('\n'));
+    }
+    if (results.length > 0) {
+      const memoryLines = results.map(
+        (r, i) => `${i + 1}. [${r.matchType}, score=${r.score.toFixed(2)}] ${r.content}`,
+      );
+      sections.push('Relevant memories from previous conversations:\n' + memoryLines.join('\n'));
+    }
+    if (sections.length === 0) return;
 
-    // Format the recalled memories as a system context message.
-    const memoryLines = results.map(
-      (r, i) => `${i + 1}. [${r.matchType}, score=${r.score.toFixed(2)}] ${r.content}`,
-    );
     const memoryText =
-      'Relevant memories from previous conversations:\n' +
-      memoryLines.join('\n') +
+      sections.join('\n\n') +
       '\n\nUse these memories to provide more personalized and context-aware responses.';
 
     await ctx.addMessage({ role: 'system', content: memoryText });
   };
 }
 
+/** Entity name that stands for the person the agent is talking to. */
+const USER_ENTITY = 'user';
+/** Facts listed per entity in the injected profile. */
+const MAX_FACTS_PER_ENTITY = 20;
+
+/**
+ * The user's profile, if it holds any facts, followed by the entities the
+ * text names. Empty when the backend keeps no structured facts.
+ */
+async function recallEntities(
+  backend: IMemoryBackend,
+  text: string,
+  opts: EntityOpts,
+  maxEntities: number,
+): Promise<EntityProfile[]> {
+  if (!backend.getEntity || !backend.findEntities) return [];
+
+  const [user, mentioned] = await Promise.all([
+    backend.getEntity(USER_ENTITY, opts),
+    backend.findEntities(text, { ...opts, limit: maxEntities + 1 }),
+  ]);
+  const others = mentioned
+    .filter((e) => e.name.toLowerCase() !== USER_ENTITY)
+    .slice(0, maxEntities);
+  const hasFacts = user && (Object.keys(user.attributes).length > 0 || user.relations.length > 0);
+  return hasFacts ? [user, ...others] : others;
+}
+
+/** `- Alice (person): role: manager; manager_of → Project X; works_on ← Bob` */
+function formatEntityProfile(profile: EntityProfile): string {
+  const facts = [
+    ...Object.entries(profile.attributes).map(([name, value]) => `${name}: ${value}`),
+    ...profile.relations.map((r) => `${r.predicate} ${r.direction === 'out' ? '→' : '←'} ${r.entity}`),
+  ];
+  const shown = facts.slice(0, MAX_FACTS_PER_ENTITY);
+  if (facts.length > shown.length) shown.push(`+${facts.length - shown.length} more`);
+
+  const label = profile.name.toLowerCase() === USER_ENTITY
+    ? 'The user'
+    : `${profile.name} (${profile.type})`;
+  return `- ${label}: ${shown.join('; ') || 'no facts yet'}`;
+}
+
 // ---------------------------------------------------------------------------
 // Auto-summarize hook
 // ---------------------------------------------------------------------------
@@ -145,6 +219,43 @@ export function createAutoSummarizeHook(
       timestamp,
       messageCount: messages.length,
       userMessageCount: userMessages.length,
+      ...(opts?.ttlMs ? { expiresAt: new Date(Date.now() + opts.ttlMs).toISOString() } : {}),
+    });
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Consolidation summarizer
+// ---------------------------------------------------------------------------
+
+const MERGE_SYSTEM_PROMPT =
+  'You merge notes an assistant keeps about its past conversations with one user. ' +
+  'The notes overlap. Write one note that keeps every distinct fact, preference, ' +
+  'decision and open task, drops the repetition, and prefers later notes where ' +
+  'they disagree. Reply with the note only.';
+
+/**
+ * Create the summarizer `IMemoryBackend.consolidate()` uses to merge a
+ * group of near-duplicate conversation summaries into one.
+ */
+export function createMemorySummarizer(
+  provider: IProvider,
+  model: string,
+  opts?: MemorySummarizerOpts,
+): (contents: string[]) => Promise<string> {
+  const maxTokens = opts?.maxTokens ?? 1024;
+
+  return async (contents: string[]): Promise<string> => {
+    const notes = contents.map((c, i) => `Note ${i + 1}:\n${c}`).join('\n\n');
+    const result = await provider.complete(model, [{ role: 'user', content: notes }], {
+      systemPrompt: MERGE_SYSTEM_PROMPT,
+      maxTokens,
+      temperature: 0,
     });
+    const text = typeof result.message.content === 'string'
+      ? result.message.content
+      : result.message.content.filter((b) => b.type === 'text').map((b) => b.text ?? '').join('');
+    if (!text.trim()) throw new Error('Summarizer returned no text');
+    return text.trim();
   };
 }
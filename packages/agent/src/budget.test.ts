@@ -0,0 +1,141 @@
+import type { BudgetPolicy } from '@ch4p/core';
+import { BudgetEnforcer, formatBudgetStatus, periodEnd, periodStart } from './budget.js';
+import type { BudgetScope } from './budget.js';
+import { MemoryUsageStore } from './usage-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const alice: BudgetScope = { sessionId: 's1', userId: 'alice', channelId: 'telegram', agent: 'support' };
+const bob: BudgetScope = { sessionId: 's2', userId: 'bob', channelId: 'discord' };
+
+function setup(policies: BudgetPolicy[]) {
+  let now = NOW;
+  const store = new MemoryUsageStore();
+  const budget = new BudgetEnforcer({ store, policies, now: () => now });
+  const spend = (scope: BudgetScope, inputTokens: number, totalCost?: number) =>
+    budget.record(scope, {
+      provider: 'anthropic',
+      model: 'claude',
+      usage: { inputTokens, outputTokens: 0, totalCost },
+    });
+  return { store, budget, spend, setNow: (d: Date) => { now = d; } };
+}
+
+// ---------------------------------------------------------------------------
+// BudgetEnforcer
+// ---------------------------------------------------------------------------
+
+describe('BudgetEnforcer', () => {
+  it('allows everything without policies but still records usage', () => {
+    const { store, budget, spend } = setup([]);
+    spend(alice, 1_000_000, 50);
+    expect(budget.check(alice)).toEqual({ allowed: true, warnings: [], exceeded: [] });
+    expect(store.totals()).toMatchObject({ calls: 1, inputTokens: 1_000_000, cost: 50 });
+  });
+
+  it('caps each user separately', () => {
+    const { budget, spend } = setup([{ scope: 'user', period: 'daily', maxTokens: 1000 }]);
+    spend(alice, 1000);
+
+    const check = budget.check(alice);
+    expect(check.allowed).toBe(false);
+    expect(check.exceeded[0]).toMatchObject({ label: 'daily user:alice', tokens: 1000, fraction: 1 });
+    expect(budget.check(bob).allowed).toBe(true);
+  });
+
+  it('warns at the warnAt threshold', () => {
+    const { budget, spend } = setup([{ scope: 'channel', period: 'monthly', maxCost: 10, warnAt: 0.5 }]);
+    spend(alice, 10, 4);
+    expect(budget.check(alice).warnings).toEqual([]);
+
+    spend(alice, 10, 1);
+    const check = budget.check(alice);
+    expect(check.allowed).toBe(true);
+    expect(check.warnings[0]).toMatchObject({ label: 'monthly channel:telegram', cost: 5, fraction: 0.5 });
+  });
+
+  it('only warns for policies with enforcement "warn"', () => {
+    const { budget, spend } = setup([{ scope: 'global', period: 'daily', maxTokens: 100, enforcement: 'warn' }]);
+    spend(bob, 500);
+    const check = budget.check(alice);
+    expect(check.allowed).toBe(true);
+    expect(check.warnings[0]!.label).toBe('daily global');
+  });
+
+  it('applies id-specific policies only to that subject', () => {
+    const { budget, spend } = setup([{ scope: 'agent', id: 'support', period: 'daily', maxTokens: 10 }]);
+    spend(alice, 10);
+    spend(bob, 10);
+    expect(budget.check(alice).allowed).toBe(false);
+    expect(budget.check(bob).allowed).toBe(true);
+    expect(budget.check({ ...alice, agent: 'sales' }).allowed).toBe(true);
+  });
+
+  it('resets at the start of the next UTC period', () => {
+    const { budget, spend, setNow } = setup([{ scope: 'user', period: 'daily', maxTokens: 10 }]);
+    spend(alice, 10);
+    expect(budget.check(alice).allowed).toBe(false);
+
+    setNow(new Date('2026-03-11T00:00:00Z'));
+    expect(budget.check(alice).allowed).toBe(true);
+  });
+
+  it('reports every policy subject, fullest first', () => {
+    const { budget, spend } = setup([
+      { scope: 'global', period: 'monthly', maxTokens: 1000 },
+      { scope: 'user', period: 'daily', maxTokens: 100 },
+    ]);
+    spend(alice, 80);
+    spend(bob, 20);
+
+    expect(budget.statuses().map((s) => [s.label, s.fraction])).toEqual([
+      ['daily user:alice', 0.8],
+      ['daily user:bob', 0.2],
+      ['monthly global', 0.1],
+    ]);
+  });
+
+  it('formats a status for users', () => {
+    const { budget, spend } = setup([{ scope: 'user', period: 'daily', maxTokens: 1000, maxCost: 2 }]);
+    spend(alice, 900, 0.5);
+    expect(formatBudgetStatus(budget.check(alice).warnings[0]!)).toBe(
+      'daily user:alice budget at 90% (900/1,000 tokens, $0.50/$2.00; resets 2026-03-11T00:00:00.000Z)',
+    );
+  });
+});
+
+describe('budget periods', () => {
+  it('computes UTC day and month boundaries', () => {
+    const at = new Date('2026-12-31T23:30:00Z');
+    expect(periodStart('daily', at).toISOString()).toBe('2026-12-31T00:00:00.000Z');
+    expect(periodEnd('daily', at).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    expect(periodStart('monthly', at).toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(periodEnd('monthly', at).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MemoryUsageStore
+// ---------------------------------------------------------------------------
+
+describe('MemoryUsageStore', () => {
+  it('filters, groups and prunes records', () => {
+    const store = new MemoryUsageStore();
+    const base = { sessionId: 's', provider: 'p', model: 'm', inputTokens: 10, outputTokens: 5 };
+    store.record({ ...base, timestamp: new Date('2026-03-01T00:00:00Z'), userId: 'alice', cost: 1 });
+    store.record({ ...base, timestamp: new Date('2026-03-02T00:00:00Z'), userId: 'bob', cost: 3 });
+    store.record({ ...base, timestamp: new Date('2026-03-02T00:00:00Z'), cost: 0 });
+
+    expect(store.totals({ userId: 'alice' })).toEqual({ calls: 1, inputTokens: 10, outputTokens: 5, cost: 1 });
+    expect(store.breakdown('user').map((r) => r.key)).toEqual(['bob', 'alice', '']);
+    expect(store.breakdown('day', { since: new Date('2026-03-02T00:00:00Z') })).toEqual([
+      { key: '2026-03-02', calls: 2, inputTokens: 20, outputTokens: 10, cost: 3 },
+    ]);
+    expect(store.prune(new Date('2026-03-02T00:00:00Z'))).toBe(1);
+    expect(store.totals().calls).toBe(2);
+  });
+});
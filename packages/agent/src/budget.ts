@@ -0,0 +1,218 @@
+/**
+ * BudgetEnforcer — token and cost caps per user, channel, agent or globally.
+ *
+ * Sums the usage ledger for each applicable BudgetPolicy's current period
+ * (UTC day or month) and compares it with the policy's caps. AgentLoop
+ * calls check() before every engine call and record() after each one, so
+ * a run stops at the first call that would start over the cap; the call
+ * that crosses it is allowed to finish.
+ */
+
+import type {
+  BudgetPolicy,
+  IUsageStore,
+  TokenUsage,
+  UsageFilter,
+} from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Who an engine call is made for. */
+export interface BudgetScope {
+  sessionId: string;
+  userId?: string;
+  channelId?: string;
+  /** Routing agent name. */
+  agent?: string;
+}
+
+export interface BudgetStatus {
+  policy: BudgetPolicy;
+  /** Human-readable policy label, e.g. "daily user:alice". */
+  label: string;
+  tokens: number;
+  cost: number;
+  /** Highest of tokens/maxTokens and cost/maxCost. */
+  fraction: number;
+  /** When the current period ends. */
+  resetsAt: Date;
+}
+
+export interface BudgetCheck {
+  /** False when a 'stop' policy is at or over its cap. */
+  allowed: boolean;
+  /** Policies over their warning threshold but not blocking. */
+  warnings: BudgetStatus[];
+  /** Blocking policies at or over their cap. */
+  exceeded: BudgetStatus[];
+}
+
+export interface BudgetEnforcerOpts {
+  store: IUsageStore;
+  policies: BudgetPolicy[];
+  /** Clock, for tests. */
+  now?: () => Date;
+}
+
+const DEFAULT_WARN_AT = 0.8;
+
+// ---------------------------------------------------------------------------
+// BudgetEnforcer
+// ---------------------------------------------------------------------------
+
+export class BudgetEnforcer {
+  private readonly store: IUsageStore;
+  private readonly policies: BudgetPolicy[];
+  private readonly now: () => Date;
+
+  constructor(opts: BudgetEnforcerOpts) {
+    this.store = opts.store;
+    this.policies = opts.policies;
+    this.now = opts.now ?? (() => new Date());
+  }
+
+  /** Evaluate every policy that applies to `scope`. */
+  check(scope: BudgetScope): BudgetCheck {
+    const result: BudgetCheck = { allowed: true, warnings: [], exceeded: [] };
+
+    for (const policy of this.policies) {
+      const filter = this.filterFor(policy, scope);
+      if (!filter) continue;
+
+      const status = this.statusFor(policy, filter);
+      if (status.fraction >= 1 && (policy.enforcement ?? 'stop') === 'stop') {
+        result.allowed = false;
+        result.exceeded.push(status);
+      } else if (status.fraction >= (policy.warnAt ?? DEFAULT_WARN_AT)) {
+        result.warnings.push(status);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Current status of every policy, for reporting. Policies without an `id`
+   * are expanded to each user/channel/agent with usage this period.
+   */
+  statuses(): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+
+    for (const policy of this.policies) {
+      if (policy.scope === 'global' || policy.id !== undefined) {
+        const filter = this.filterFor(policy, scopeFor(policy, policy.id));
+        if (filter) statuses.push(this.statusFor(policy, filter));
+        continue;
+      }
+
+      const since = periodStart(policy.period, this.now());
+      for (const row of this.store.breakdown(policy.scope, { since })) {
+        if (!row.key) continue;
+        const filter = this.filterFor(policy, scopeFor(policy, row.key));
+        if (filter) statuses.push(this.statusFor(policy, filter));
+      }
+    }
+
+    return statuses.sort((a, b) => b.fraction - a.fraction);
+  }
+
+  /** Add one engine call to the ledger. */
+  record(scope: BudgetScope, call: { provider: string; model: string; usage: TokenUsage }): void {
+    this.store.record({
+      timestamp: this.now(),
+      sessionId: scope.sessionId,
+      userId: scope.userId,
+      channelId: scope.channelId,
+      agent: scope.agent,
+      provider: call.provider,
+      model: call.model,
+      inputTokens: call.usage.inputTokens,
+      outputTokens: call.usage.outputTokens,
+      cost: call.usage.totalCost ?? 0,
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /** Ledger filter for a policy, or null when it does not apply to the scope. */
+  private filterFor(policy: BudgetPolicy, scope: BudgetScope): UsageFilter | null {
+    const since = periodStart(policy.period, this.now());
+    const target = policy.scope === 'user' ? scope.userId
+      : policy.scope === 'channel' ? scope.channelId
+        : policy.scope === 'agent' ? scope.agent
+          : undefined;
+
+    if (policy.scope === 'global') return { since };
+    if (target === undefined) return null;
+    if (policy.id !== undefined && policy.id !== target) return null;
+
+    switch (policy.scope) {
+      case 'user': return { since, userId: target };
+      case 'channel': return { since, channelId: target };
+      case 'agent': return { since, agent: target };
+    }
+  }
+
+  private statusFor(policy: BudgetPolicy, filter: UsageFilter): BudgetStatus {
+    const totals = this.store.totals(filter);
+    const tokens = totals.inputTokens + totals.outputTokens;
+    const fractions = [
+      policy.maxTokens !== undefined ? tokens / Math.max(policy.maxTokens, 1) : 0,
+      policy.maxCost !== undefined ? totals.cost / Math.max(policy.maxCost, Number.EPSILON) : 0,
+    ];
+    const subject = filter.userId ?? filter.channelId ?? filter.agent;
+
+    return {
+      policy,
+      label: `${policy.period} ${policy.scope}${subject !== undefined ? `:${subject}` : ''}`,
+      tokens,
+      cost: totals.cost,
+      fraction: Math.max(...fractions),
+      resetsAt: periodEnd(policy.period, this.now()),
+    };
+  }
+}
+
+/** A synthetic scope for reporting on one policy subject. */
+function scopeFor(policy: BudgetPolicy, subject: string | undefined): BudgetScope {
+  switch (policy.scope) {
+    case 'user': return { sessionId: '', userId: subject };
+    case 'channel': return { sessionId: '', channelId: subject };
+    case 'agent': return { sessionId: '', agent: subject };
+    case 'global': return { sessionId: '' };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Periods (UTC)
+// ---------------------------------------------------------------------------
+
+export function periodStart(period: BudgetPolicy['period'], at: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+export function periodEnd(period: BudgetPolicy['period'], at: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+/** One-line description of a budget status for users. */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const { policy } = status;
+  const parts: string[] = [];
+  if (policy.maxTokens !== undefined) {
+    parts.push(`${status.tokens.toLocaleString('en-US')}/${policy.maxTokens.toLocaleString('en-US')} tokens`);
+  }
+  if (policy.maxCost !== undefined) {
+    parts.push(`$${status.cost.toFixed(2)}/$${policy.maxCost.toFixed(2)}`);
+  }
+  return `${status.label} budget at ${Math.round(status.fraction * 100)}% ` +
+    `(${parts.join(', ')}; resets ${status.resetsAt.toISOString()})`;
+}
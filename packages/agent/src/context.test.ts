@@ -126,6 +126,54 @@ describe('ContextManager', () => {
     });
   });
 
+  describe('snapshot and restore', () => {
+    it('snapshot excludes the system prompt', async () => {
+      const ctx = new ContextManager();
+      ctx.setSystemPrompt('system');
+      await ctx.addMessage({ role: 'user', content: 'hello' });
+
+      const snap = ctx.snapshot();
+      expect(snap.messages).toEqual([{ role: 'user', content: 'hello' }]);
+      expect(snap.summary).toBeUndefined();
+    });
+
+    it('restore replaces the conversation and keeps the system prompt', async () => {
+      const ctx = new ContextManager();
+      ctx.setSystemPrompt('new system');
+      await ctx.addMessage({ role: 'user', content: 'stale' });
+
+      ctx.restore({
+        messages: [
+          { role: 'user', content: 'hello' },
+          { role: 'assistant', content: 'hi' },
+        ],
+        summary: 'earlier chat',
+      });
+
+      const msgs = ctx.getMessages();
+      expect(msgs.map((m) => m.content)).toEqual(['new system', 'hello', 'hi']);
+      expect(ctx.getSummary()).toBe('earlier chat');
+      expect(ctx.getTokenEstimate()).toBeGreaterThan(0);
+    });
+
+    it('records the compaction summary', async () => {
+      const ctx = new ContextManager({
+        maxTokens: 100,
+        compactionThreshold: 0.5,
+        strategy: 'summarize',
+        summarizer: vi.fn().mockResolvedValue('Summary of conversation'),
+      });
+
+      await ctx.addMessage({ role: 'user', content: 'A'.repeat(200) });
+      await ctx.addMessage({ role: 'assistant', content: 'B'.repeat(200) });
+      await ctx.addMessage({ role: 'user', content: 'C'.repeat(200) });
+
+      expect(ctx.snapshot().summary).toBe('Summary of conversation');
+      ctx.clear();
+      expect(ctx.getSummary()).toBeUndefined();
+    });
+  });
+
   describe('compaction - drop_oldest', () => {
     it('drops oldest messages when threshold is exceeded', async () => {
       const ctx = new ContextManager({
@@ -21,7 +21,7 @@
  * tool calls, the corresponding tool-result messages are kept together.
  */
 
-import type { Message } from '@ch4p/core';
+import type { Message, SessionHistory } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -136,6 +136,9 @@ export const NAMED_STRATEGIES: Record<string, NamedStrategy> = {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Approximate cost of one image block (a ~1 megapixel image on most providers). */
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
 /** Rough token estimate: ~4 characters per token. */
 function estimateTokens(msg: Message): number {
   let chars = 0;
@@ -148,6 +151,8 @@ function estimateTokens(msg: Message): number {
       if (block.text) chars += block.text.length;
       if (block.toolOutput) chars += block.toolOutput.length;
       if (block.toolInput) chars += JSON.stringify(block.toolInput).length;
+      // Providers bill images by pixel area, not by the size of the data URL.
+      if (block.type === 'image') chars += IMAGE_TOKEN_ESTIMATE * 4;
     }
   }
 
@@ -187,6 +192,7 @@ export class ContextManager {
   private messages: Message[] = [];
   private systemPrompt: Message | null = null;
   private tokenEstimate = 0;
+  private summary: string | undefined;
 
   private readonly maxTokens: number;
   private readonly compactionThreshold: number;
@@ -279,9 +285,33 @@ export class ContextManager {
   /** Remove all conversation messages (keeps system prompt). */
   clear(): void {
     this.messages = [];
+    this.summary = undefined;
     this.tokenEstimate = this.systemPrompt ? estimateTokens(this.systemPrompt) : 0;
   }
 
+  /** Return the latest compaction summary, if the context has been compacted. */
+  getSummary(): string | undefined {
+    return this.summary;
+  }
+
+  /** Export the conversation (without the system prompt) for persistence. */
+  snapshot(): SessionHistory {
+    return { messages: [...this.messages], summary: this.summary };
+  }
+
+  /**
+   * Replace the conversation with a previously exported snapshot.
+   * The current system prompt is kept; the message cap still applies.
+   */
+  restore(history: SessionHistory): void {
+    this.messages = [...history.messages];
+    this.summary = history.summary;
+    this.recalculateTokens();
+    if (this.messages.length > this.maxMessages) {
+      this.enforceMessageCap();
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Compaction
   // -----------------------------------------------------------------------
@@ -403,6 +433,7 @@ export class ContextManager {
     }
 
     const summary = await this.summarizer(toSummarize);
+    this.summary = summary;
     const summaryMsg: Message = {
       role: 'system',
       content: `[Conversation summary]\n${summary}`,
@@ -477,6 +508,7 @@ export class ContextManager {
     }
 
     const summary = await this.summarizer(toSummarize);
+    this.summary = summary;
     const summaryMsg: Message = {
       role: 'system',
       content: `[Conversation summary]\n${summary}`,
@@ -22,14 +22,22 @@ export type {
 export { Session } from './session.js';
 export type { SessionState, SessionMetadata, SessionOpts } from './session.js';
 
+export { ApprovalGate } from './approval.js';
+export type { PendingApproval } from './approval.js';
+
 export { AgentLoop } from './agent-loop.js';
 export type { AgentEvent, AgentLoopOpts } from './agent-loop.js';
 
+export { BudgetEnforcer, formatBudgetStatus, periodStart, periodEnd } from './budget.js';
+export type { BudgetScope, BudgetStatus, BudgetCheck, BudgetEnforcerOpts } from './budget.js';
+
+export { MemoryUsageStore } from './usage-store.js';
+
 export { FormatVerifier } from './format-verifier.js';
 export type { FormatVerifierOpts, FormatRule } from './format-verifier.js';
 
 export { LLMVerifier } from './llm-verifier.js';
 export type { LLMVerifierOpts } from './llm-verifier.js';
 
-export { createAutoRecallHook, createAutoSummarizeHook } from './auto-memory.js';
-export type { AutoRecallOpts, AutoSummarizeOpts } from './auto-memory.js';
+export { createAutoRecallHook, createAutoSummarizeHook, createMemorySummarizer } from './auto-memory.js';
+export type { AutoRecallOpts, AutoSummarizeOpts, MemorySummarizerOpts } from './auto-memory.js';
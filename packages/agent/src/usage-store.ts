@@ -0,0 +1,84 @@
+/**
+ * MemoryUsageStore -- non-persistent IUsageStore.
+ *
+ * Used when `usage.store` is "memory" and in tests. Budgets still apply
+ * within the process, but spend resets whenever it restarts.
+ */
+
+import type {
+  IUsageStore,
+  UsageBreakdownRow,
+  UsageFilter,
+  UsageGroupBy,
+  UsageRecord,
+  UsageTotals,
+} from '@ch4p/core';
+
+export class MemoryUsageStore implements IUsageStore {
+  readonly id = 'memory';
+
+  private records: UsageRecord[] = [];
+
+  record(entry: UsageRecord): void {
+    this.records.push(entry);
+  }
+
+  totals(filter?: UsageFilter): UsageTotals {
+    return sum(this.matching(filter));
+  }
+
+  breakdown(groupBy: UsageGroupBy, filter?: UsageFilter): UsageBreakdownRow[] {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const r of this.matching(filter)) {
+      const key = groupKey(r, groupBy);
+      groups.set(key, [...(groups.get(key) ?? []), r]);
+    }
+    return [...groups]
+      .map(([key, records]) => ({ key, ...sum(records) }))
+      .sort((a, b) =>
+        b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+  }
+
+  prune(before: Date): number {
+    const kept = this.records.filter((r) => r.timestamp >= before);
+    const removed = this.records.length - kept.length;
+    this.records = kept;
+    return removed;
+  }
+
+  close(): void {
+    this.records = [];
+  }
+
+  private matching(filter: UsageFilter = {}): UsageRecord[] {
+    return this.records.filter((r) =>
+      (!filter.since || r.timestamp >= filter.since) &&
+      (!filter.until || r.timestamp < filter.until) &&
+      (filter.userId === undefined || r.userId === filter.userId) &&
+      (filter.channelId === undefined || r.channelId === filter.channelId) &&
+      (filter.agent === undefined || r.agent === filter.agent));
+  }
+}
+
+function sum(records: UsageRecord[]): UsageTotals {
+  return records.reduce(
+    (t, r) => ({
+      calls: t.calls + 1,
+      inputTokens: t.inputTokens + r.inputTokens,
+      outputTokens: t.outputTokens + r.outputTokens,
+      cost: t.cost + r.cost,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+  );
+}
+
+function groupKey(r: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'user': return r.userId ?? '';
+    case 'channel': return r.channelId ?? '';
+    case 'agent': return r.agent ?? '';
+    case 'provider': return r.provider;
+    case 'model': return r.model;
+    case 'day': return r.timestamp.toISOString().slice(0, 10);
+  }
+}
@@ -15,7 +15,7 @@
 
 import { Worker } from 'node:worker_threads';
 import { EventEmitter } from 'node:events';
-import type { ToolResult } from '@ch4p/core';
+import type { SandboxConfig, ToolResult } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -39,6 +39,8 @@ export interface WorkerTask {
 export interface WorkerTaskContext {
   sessionId: string;
   cwd: string;
+  /** Sandbox for the bash tool. Plain data, so it survives the thread boundary. */
+  sandbox?: SandboxConfig;
 }
 
 export interface PoolStats {
@@ -25,8 +25,8 @@
 
 import { parentPort } from 'node:worker_threads';
 import { ToolRegistry } from '@ch4p/tools';
+import type { BashToolContext } from '@ch4p/tools';
 import { DefaultSecurityPolicy } from '@ch4p/security';
-import type { ToolContext } from '@ch4p/core';
 import type { WorkerTaskContext } from './worker-pool.js';
 
 if (!parentPort) {
@@ -83,7 +83,7 @@ parentPort.on('message', async (msg: unknown) => {
   // across worker thread boundaries. If web_fetch hits a 402, it returns
   // x402Required: true and the model falls back to the x402_pay tool.
   currentAbort = new AbortController();
-  const toolContext: ToolContext = {
+  const toolContext: BashToolContext = {
     sessionId: context.sessionId,
     cwd: context.cwd,
     securityPolicy: new DefaultSecurityPolicy({
@@ -94,6 +94,7 @@ parentPort.on('message', async (msg: unknown) => {
     onProgress: (update: string) => {
       parentPort!.postMessage({ type: 'progress', update });
     },
+    sandbox: context.sandbox,
   };
 
   try {
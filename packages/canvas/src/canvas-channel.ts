@@ -14,6 +14,7 @@ import type {
   OutboundMessage,
   SendResult,
   InboundMessage,
+  ApprovalDecision,
 } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
 import type { C2SMessage, S2CMessage } from './protocol.js';
@@ -35,6 +36,7 @@ export class CanvasChannel implements IChannel {
   readonly name = 'Canvas';
 
   private messageHandler: ((msg: InboundMessage) => void) | null = null;
+  private approvalHandler: ((callId: string, decision: ApprovalDecision) => void) | null = null;
   private sendFn: ((msg: S2CMessage) => void) | null = null;
   private sessionId = '';
 
@@ -49,6 +51,7 @@ export class CanvasChannel implements IChannel {
 
   async stop(): Promise<void> {
     this.messageHandler = null;
+    this.approvalHandler = null;
     this.sendFn = null;
   }
 
@@ -89,11 +92,24 @@ export class CanvasChannel implements IChannel {
     this.sendFn = fn;
   }
 
+  /**
+   * Register the handler for `c2s:approval` answers. Approvals bypass the
+   * message handler so they reach the running agent loop directly.
+   */
+  onApproval(handler: (callId: string, decision: ApprovalDecision) => void): void {
+    this.approvalHandler = handler;
+  }
+
   /**
    * Process an incoming C2S message from the WebSocket client and translate
    * it into an {@link InboundMessage} that the agent loop can consume.
    */
   handleClientMessage(msg: C2SMessage): void {
+    if (msg.type === 'c2s:approval') {
+      this.handleApproval(msg);
+      return;
+    }
+
     if (!this.messageHandler) return;
 
     const base: Omit<InboundMessage, 'text'> = {
@@ -164,4 +180,28 @@ export class CanvasChannel implements IChannel {
         break;
     }
   }
+
+  private handleApproval(msg: Extract<C2SMessage, { type: 'c2s:approval' }>): void {
+    if (!this.approvalHandler) return;
+
+    let decision: ApprovalDecision;
+    switch (msg.decision) {
+      case 'approve':
+        decision = { action: 'approve' };
+        break;
+      case 'deny':
+        decision = { action: 'deny', reason: msg.reason };
+        break;
+      case 'edit':
+        // Edits without replacement args cannot run — treat as a denial.
+        decision = msg.args
+          ? { action: 'edit', args: msg.args }
+          : { action: 'deny', reason: 'Edit submitted without arguments' };
+        break;
+      default:
+        return;
+    }
+
+    this.approvalHandler(msg.callId, decision);
+  }
 }
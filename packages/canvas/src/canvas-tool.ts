@@ -116,6 +116,7 @@ export class CanvasTool implements ITool {
     'Components can be connected with directional edges to show relationships.';
   readonly parameters: JSONSchema7 = PARAMETERS_SCHEMA;
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
 
   // -------------------------------------------------------------------------
   // Validation
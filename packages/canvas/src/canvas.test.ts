@@ -1041,6 +1041,36 @@ describe('CanvasChannel', () => {
       expect(received).toHaveLength(0);
     });
 
+    it('routes c2s:approval to the approval handler, not the message handler', () => {
+      const approvals: Array<{ callId: string; decision: unknown }> = [];
+      channel.onApproval((callId, decision) => approvals.push({ callId, decision }));
+
+      channel.handleClientMessage({ type: 'c2s:approval', callId: 'tc-1', decision: 'approve' });
+      channel.handleClientMessage({ type: 'c2s:approval', callId: 'tc-2', decision: 'deny', reason: 'no' });
+      channel.handleClientMessage({
+        type: 'c2s:approval',
+        callId: 'tc-3',
+        decision: 'edit',
+        args: { command: 'ls' },
+      });
+
+      expect(received).toHaveLength(0);
+      expect(approvals).toEqual([
+        { callId: 'tc-1', decision: { action: 'approve' } },
+        { callId: 'tc-2', decision: { action: 'deny', reason: 'no' } },
+        { callId: 'tc-3', decision: { action: 'edit', args: { command: 'ls' } } },
+      ]);
+    });
+
+    it('treats c2s:approval edit without args as a denial', () => {
+      const approvals: Array<{ callId: string; decision: unknown }> = [];
+      channel.onApproval((callId, decision) => approvals.push({ callId, decision }));
+
+      channel.handleClientMessage({ type: 'c2s:approval', callId: 'tc-1', decision: 'edit' });
+
+      expect(approvals[0]!.decision).toMatchObject({ action: 'deny' });
+    });
+
     it('all messages have required InboundMessage fields', () => {
       channel.handleClientMessage({ type: 'c2s:message', text: 'Test' });
       const msg = received[0]!;
@@ -47,6 +47,7 @@ export type {
   S2CToolStart,
   S2CToolProgress,
   S2CToolEnd,
+  S2CApprovalRequired,
   S2CError,
   S2CPong,
   S2CMessage,
@@ -58,6 +59,7 @@ export type {
   C2SFormSubmit,
   C2SAbort,
   C2SSteer,
+  C2SApproval,
   C2SPing,
   C2SMessage,
 } from './protocol.js';
@@ -71,6 +71,16 @@ export interface S2CToolEnd {
   data?: unknown;
 }
 
+/** A tool call is paused waiting for the user to approve, deny or edit it. */
+export interface S2CApprovalRequired {
+  type: 's2c:approval:required';
+  callId: string;
+  tool: string;
+  args?: unknown;
+  /** ISO-8601 time after which the call is denied automatically. */
+  expiresAt: string;
+}
+
 /** Server-side error. */
 export interface S2CError {
   type: 's2c:error';
@@ -94,6 +104,7 @@ export type S2CMessage =
   | S2CToolStart
   | S2CToolProgress
   | S2CToolEnd
+  | S2CApprovalRequired
   | S2CError
   | S2CPong;
 
@@ -155,6 +166,17 @@ export interface C2SSteer {
   steerType: 'inject' | 'priority' | 'context_update';
 }
 
+/** User answered an `s2c:approval:required` prompt. */
+export interface C2SApproval {
+  type: 'c2s:approval';
+  callId: string;
+  decision: 'approve' | 'deny' | 'edit';
+  /** Optional explanation passed to the agent on deny. */
+  reason?: string;
+  /** Replacement tool arguments (required when decision is 'edit'). */
+  args?: Record<string, unknown>;
+}
+
 /** Client ping for connection keep-alive. */
 export interface C2SPing {
   type: 'c2s:ping';
@@ -171,6 +193,7 @@ export type C2SMessage =
   | C2SFormSubmit
   | C2SAbort
   | C2SSteer
+  | C2SApproval
   | C2SPing;
 
 // ---------------------------------------------------------------------------
@@ -18,6 +18,8 @@
  *   - Reply threading via replyTo
  *   - Attachment support (images, files)
  *   - Presence events (typing indicators)
+ *   - Outbound typing indicator and reactions
+ *   - Button components for message actions
  *   - Automatic heartbeat and reconnection
  */
 
@@ -30,6 +32,7 @@ import type {
   SendResult,
   PresenceEvent,
   Attachment,
+  MessageAction,
 } from '@ch4p/core';
 import WebSocket from 'ws';
 
@@ -47,10 +50,16 @@ export interface DiscordConfig extends ChannelConfig {
 }
 
 /** Minimum interval between message edits for streaming (Discord rate limit). */
-import { splitMessage, truncateMessage, evictOldTimestamps } from './message-utils.js';
+import { splitMessage, truncateMessage, evictOldTimestamps, actionRows, batchAttachments } from './message-utils.js';
 
 const DISCORD_MAX_MESSAGE_LEN = 2_000;
 const DISCORD_EDIT_RATE_LIMIT_MS = 1_000;
+/** Default per-message upload limit; boosted servers allow more. */
+const DISCORD_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const DISCORD_MAX_FILES_PER_MESSAGE = 10;
+/** Action rows hold at most five buttons, and a message five rows. */
+const DISCORD_BUTTONS_PER_ROW = 5;
+const DISCORD_MAX_BUTTONS = 25;
 
 const DISCORD_RECONNECT_BASE_MS = 1_000;
 const DISCORD_RECONNECT_MAX_MS = 60_000;
@@ -105,6 +114,26 @@ interface DiscordMessage {
   referenced_message?: { id: string };
 }
 
+/** Minimal Discord component interaction (a button press). */
+interface DiscordInteraction {
+  id: string;
+  token: string;
+  type: number;
+  channel_id?: string;
+  guild_id?: string;
+  member?: { user: { id: string } };
+  user?: { id: string };
+  message?: { id: string; components?: Array<{ components?: Array<{ custom_id?: string; label?: string }> }> };
+  data?: { custom_id?: string };
+}
+
+/** Interaction type for message components; callback type acknowledging one silently. */
+const INTERACTION_MESSAGE_COMPONENT = 3;
+const CALLBACK_DEFERRED_UPDATE_MESSAGE = 6;
+
+/** Button styles by MessageAction style. */
+const BUTTON_STYLE = { primary: 1, secondary: 2, danger: 4 } as const;
+
 /** Minimal Discord typing event payload. */
 interface DiscordTypingStart {
   channel_id: string;
@@ -120,6 +149,8 @@ interface DiscordTypingStart {
 export class DiscordChannel implements IChannel {
   readonly id = 'discord';
   readonly name = 'Discord';
+  readonly maxAttachmentBytes = DISCORD_MAX_UPLOAD_BYTES;
+  readonly supportsActions = true;
 
   private token = '';
   private intents = DEFAULT_INTENTS;
@@ -204,7 +235,7 @@ export class DiscordChannel implements IChannel {
       const chunks = splitMessage(message.text ?? '', DISCORD_MAX_MESSAGE_LEN);
       let lastId: string | undefined;
 
-      for (const chunk of chunks) {
+      for (const [i, chunk] of chunks.entries()) {
         const body: Record<string, unknown> = { content: chunk };
 
         // Only attach reply reference to the first chunk.
@@ -212,6 +243,11 @@ export class DiscordChannel implements IChannel {
           body.message_reference = { message_id: message.replyTo };
         }
 
+        // Buttons go under the last chunk.
+        if (i === chunks.length - 1 && message.actions?.length) {
+          body.components = this.buildComponents(message.actions);
+        }
+
         const result = await this.apiCall<DiscordMessage>(
           `/channels/${channelId}/messages`,
           'POST',
@@ -221,6 +257,10 @@ export class DiscordChannel implements IChannel {
         lastId = result.id;
       }
 
+      if (message.attachments?.length) {
+        await this.sendAttachments(channelId, message.attachments);
+      }
+
       return { success: true, messageId: lastId ?? '' };
     } catch (err) {
       return {
@@ -265,6 +305,22 @@ export class DiscordChannel implements IChannel {
     }
   }
 
+  /** Show "typing…" for about ten seconds or until the next message. */
+  async setTyping(to: Recipient): Promise<void> {
+    const channelId = to.groupId ?? to.threadId ?? to.userId;
+    if (!channelId) throw new Error('Recipient must have groupId, threadId, or userId');
+    await this.apiCall(`/channels/${channelId}/typing`, 'POST');
+  }
+
+  async react(to: Recipient, messageId: string, emoji: string): Promise<void> {
+    const channelId = to.groupId ?? to.threadId ?? to.userId;
+    if (!channelId) throw new Error('Recipient must have groupId, threadId, or userId');
+    await this.apiCall(
+      `/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+      'PUT',
+    );
+  }
+
   /**
    * Get the current stream mode configuration.
    */
@@ -513,6 +569,10 @@ export class DiscordChannel implements IChannel {
       case 'TYPING_START':
         this.handleTypingStart(data as DiscordTypingStart);
         break;
+
+      case 'INTERACTION_CREATE':
+        this.handleInteraction(data as DiscordInteraction);
+        break;
     }
   }
 
@@ -545,6 +605,8 @@ export class DiscordChannel implements IChannel {
         channelId: this.id,
         userId: msg.author.id,
         groupId: msg.channel_id,
+        // Only guild channels carry a guild_id; DMs don't.
+        isDirect: !msg.guild_id,
       },
       text: msg.content,
       attachments: attachments.length > 0 ? attachments : undefined,
@@ -556,6 +618,50 @@ export class DiscordChannel implements IChannel {
     this.messageHandler(inbound);
   }
 
+  /**
+   * Deliver a button press as a message from the presser, in the channel of
+   * the message carrying the button. The button's label becomes the text
+   * and its custom_id the action.
+   */
+  private handleInteraction(interaction: DiscordInteraction): void {
+    if (interaction.type !== INTERACTION_MESSAGE_COMPONENT) return;
+
+    // Acknowledge within Discord's 3 s window, without changing the message.
+    this.apiCall(`/interactions/${interaction.id}/${interaction.token}/callback`, 'POST', {
+      type: CALLBACK_DEFERRED_UPDATE_MESSAGE,
+    }).catch(() => {});
+
+    const customId = interaction.data?.custom_id;
+    const userId = interaction.member?.user.id ?? interaction.user?.id;
+    if (!this.messageHandler || !customId || !userId || !interaction.channel_id || !interaction.message) return;
+
+    if (interaction.guild_id && this.allowedGuilds.size > 0 && !this.allowedGuilds.has(interaction.guild_id)) {
+      return;
+    }
+    if (this.allowedUsers.size > 0 && !this.allowedUsers.has(userId)) {
+      return;
+    }
+
+    const button = (interaction.message.components ?? [])
+      .flatMap((row) => row.components ?? [])
+      .find((c) => c.custom_id === customId);
+
+    this.messageHandler({
+      id: interaction.message.id,
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId,
+        groupId: interaction.channel_id,
+        isDirect: !interaction.guild_id,
+      },
+      text: button?.label ?? customId,
+      action: customId,
+      timestamp: new Date(),
+      raw: interaction,
+    });
+  }
+
   private handleTypingStart(event: DiscordTypingStart): void {
     if (!this.presenceHandler) return;
 
@@ -589,9 +695,57 @@ export class DiscordChannel implements IChannel {
       throw new Error(`Discord API error (${response.status}): ${text}`);
     }
 
+    // Typing and reactions answer 204 No Content.
+    if (response.status === 204) return undefined as T;
     return (await response.json()) as T;
   }
 
+  /**
+   * Upload attachment data as files, in as many messages as the per-message
+   * file and size limits need; URL-only attachments are posted as links.
+   */
+  private async sendAttachments(channelId: string, attachments: Attachment[]): Promise<void> {
+    const files = attachments.filter((a) => a.data);
+    for (const batch of batchAttachments(files, DISCORD_MAX_FILES_PER_MESSAGE, this.maxAttachmentBytes)) {
+      const form = new FormData();
+      form.append('payload_json', JSON.stringify({
+        attachments: batch.map((a, id) => ({ id, filename: a.filename ?? `file-${id}` })),
+      }));
+      batch.forEach((a, id) => {
+        form.append(`files[${id}]`, new Blob([a.data!], { type: a.mimeType }), a.filename ?? `file-${id}`);
+      });
+
+      const response = await fetch(`${API_BASE}/channels/${channelId}/messages`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bot ${this.token}` },
+        body: form,
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => 'Unknown error');
+        throw new Error(`Discord API error (${response.status}): ${text}`);
+      }
+    }
+
+    for (const a of attachments) {
+      if (!a.data && a.url) {
+        await this.apiCall(`/channels/${channelId}/messages`, 'POST', { content: a.url });
+      }
+    }
+  }
+
+  /** Action rows of buttons whose custom_id is the action id. */
+  private buildComponents(actions: MessageAction[]): Record<string, unknown>[] {
+    return actionRows(actions.slice(0, DISCORD_MAX_BUTTONS), DISCORD_BUTTONS_PER_ROW).map((row) => ({
+      type: 1,
+      components: row.map((a) => ({
+        type: 2,
+        style: BUTTON_STYLE[a.style ?? 'secondary'],
+        label: a.label,
+        custom_id: a.id,
+      })),
+    }));
+  }
+
   private classifyAttachment(mimeType: string): string {
     if (mimeType.startsWith('image/')) return 'image';
     if (mimeType.startsWith('audio/')) return 'audio';
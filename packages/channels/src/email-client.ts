@@ -0,0 +1,532 @@
+/**
+ * Minimal IMAP and SMTP clients for the email channel.
+ *
+ * Uses raw TCP/TLS sockets (node:net / node:tls) — zero third-party
+ * dependencies. Implements only what EmailChannel needs:
+ *
+ *   IMAP (RFC 9051 / 3501): STARTTLS, LOGIN, CAPABILITY, SELECT, UID SEARCH,
+ *     UID FETCH BODY.PEEK[], UID STORE, IDLE (RFC 2177), LOGOUT
+ *   SMTP (RFC 5321): EHLO, STARTTLS, AUTH PLAIN / LOGIN, MAIL, RCPT, DATA
+ *
+ * One IMAP command runs at a time; the channel drives the client from a
+ * single loop. Each outbound mail uses its own SMTP connection.
+ *
+ * Without TLS, both clients upgrade with STARTTLS and refuse to send a
+ * password in cleartext to any server but localhost.
+ */
+
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect } from 'node:tls';
+import { hostname } from 'node:os';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MailServerOpts {
+  host: string;
+  port: number;
+  /**
+   * Connect with implicit TLS. When false, upgrade with STARTTLS; servers
+   * that don't offer it are only logged in to on localhost.
+   */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Verify the server certificate. Default: true. */
+  rejectUnauthorized?: boolean;
+  /** Socket inactivity timeout in ms. Default: 60000. */
+  timeoutMs?: number;
+}
+
+/** An untagged IMAP response ("* ..."), with any literals it carried. */
+export interface ImapResponse {
+  text: string;
+  literals: Buffer[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (untagged: ImapResponse[]) => void;
+  reject: (err: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Hosts a password may be sent to without TLS. */
+const LOOPBACK_HOST = /^(?:localhost|127(?:\.\d{1,3}){3}|::1|\[::1\])$/i;
+
+// ---------------------------------------------------------------------------
+// ImapClient
+// ---------------------------------------------------------------------------
+
+export class ImapClient {
+  readonly capabilities = new Set<string>();
+
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private lineText = '';
+  private lineLiterals: Buffer[] = [];
+  private literalBytes = 0;
+  private tagCounter = 0;
+  private pending: PendingCommand | null = null;
+  private greeting: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  private continuation: (() => void) | null = null;
+  private idleWake: (() => void) | null = null;
+  /** Set by EXISTS/RECENT responses, which can arrive together with IDLE's "+". */
+  private mailArrived = false;
+  private closeHandler: (() => void) | null = null;
+
+  constructor(private readonly opts: MailServerOpts) {}
+
+  /** Connect, log in and read the server's capabilities. */
+  async connect(): Promise<void> {
+    const { host, port, secure } = this.opts;
+
+    await new Promise<void>((resolve, reject) => {
+      this.greeting = { resolve, reject };
+      const socket = secure
+        ? tlsConnect({ host, port, servername: host, rejectUnauthorized: this.opts.rejectUnauthorized !== false })
+        : netConnect({ host, port });
+      this.socket = socket;
+      this.armTimeout(socket);
+      socket.on('data', (data: Buffer) => this.handleData(data));
+      socket.on('error', (err) => this.fail(new Error(`IMAP connection failed: ${err.message}`)));
+      socket.on('close', () => {
+        this.fail(new Error('IMAP connection closed'));
+        this.closeHandler?.();
+      });
+    });
+
+    if (!secure) {
+      await this.command('CAPABILITY');
+      if (this.capabilities.has('STARTTLS')) {
+        await this.command('STARTTLS');
+        await this.upgrade();
+      } else if (!LOOPBACK_HOST.test(host)) {
+        this.close();
+        throw new Error('IMAP server does not offer STARTTLS; refusing to log in without TLS');
+      }
+    }
+
+    await this.command(`LOGIN ${quote(this.opts.user ?? '')} ${quote(this.opts.password ?? '')}`);
+    // Servers may list capabilities in the LOGIN response; ask explicitly to be sure.
+    await this.command('CAPABILITY');
+  }
+
+  /** Called once when the connection closes, for whatever reason. */
+  onClose(handler: () => void): void {
+    this.closeHandler = handler;
+  }
+
+  /** Open a mailbox. Returns its UIDVALIDITY and UIDNEXT when the server reports them. */
+  async select(mailbox: string): Promise<{ uidValidity?: number; uidNext?: number }> {
+    const untagged = await this.command(`SELECT ${quote(mailbox)}`);
+    const number = (code: string): number | undefined => {
+      for (const r of untagged) {
+        const match = new RegExp(`\\[${code} (\\d+)\\]`, 'i').exec(r.text);
+        if (match) return Number(match[1]);
+      }
+      return undefined;
+    };
+    return { uidValidity: number('UIDVALIDITY'), uidNext: number('UIDNEXT') };
+  }
+
+  /** UIDs of the messages matching a search, e.g. "UNSEEN UID 42:*". */
+  async searchUids(criteria: string): Promise<number[]> {
+    const untagged = await this.command(`UID SEARCH ${criteria}`);
+    const uids: number[] = [];
+    for (const r of untagged) {
+      if (!/^SEARCH\b/i.test(r.text)) continue;
+      for (const n of r.text.slice(6).trim().split(/\s+/)) {
+        if (/^\d+$/.test(n)) uids.push(Number(n));
+      }
+    }
+    return uids;
+  }
+
+  /** Fetch a whole message without setting \Seen. */
+  async fetchMessage(uid: number): Promise<Buffer | undefined> {
+    const untagged = await this.command(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+    const response = untagged.find((r) => /FETCH\b/i.test(r.text) && r.literals.length > 0);
+    return response?.literals[0];
+  }
+
+  async addFlags(uid: number, flags: string[]): Promise<void> {
+    await this.command(`UID STORE ${uid} +FLAGS.SILENT (${flags.join(' ')})`);
+  }
+
+  /**
+   * Wait in IDLE until the server reports new mail, `timeoutMs` passes or
+   * wake() is called. Servers drop IDLE after 30 minutes, so callers should
+   * re-issue it well before then.
+   */
+  async idle(timeoutMs: number): Promise<void> {
+    this.mailArrived = false;
+    const entered = new Promise<void>((resolve) => { this.continuation = resolve; });
+    const done = this.command('IDLE');
+    // Observed below; don't report a rejection while waiting in IDLE.
+    done.catch(() => {});
+    await Promise.race([entered, done]);
+
+    if (this.pending && !this.mailArrived) {
+      // A quiet mailbox sends nothing while idling; the timer below ends
+      // the wait, and the inactivity timeout is back on for DONE.
+      this.socket?.setTimeout(0);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => this.idleWake?.(), timeoutMs);
+        this.idleWake = () => {
+          clearTimeout(timer);
+          this.idleWake = null;
+          resolve();
+        };
+      });
+      this.socket?.setTimeout(this.opts.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    }
+    if (this.pending) this.write('DONE\r\n');
+    await done;
+  }
+
+  /** End a pending idle() early. */
+  wake(): void {
+    this.idleWake?.();
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.command('LOGOUT');
+    } catch {
+      // Best-effort close.
+    }
+    this.close();
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Protocol I/O
+  // -------------------------------------------------------------------------
+
+  private armTimeout(socket: Socket): void {
+    socket.setTimeout(this.opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+      socket.destroy(new Error('IMAP connection timed out'));
+    });
+  }
+
+  /** Switch to TLS on the same connection after STARTTLS. */
+  private upgrade(): Promise<void> {
+    const plain = this.socket!;
+    plain.removeAllListeners('data');
+    plain.setTimeout(0);
+    // Anything the server sent before the handshake is discarded (RFC 9051 §6.2.1).
+    this.buffer = Buffer.alloc(0);
+
+    return new Promise((resolve, reject) => {
+      const secure = tlsConnect({
+        socket: plain,
+        servername: this.opts.host,
+        rejectUnauthorized: this.opts.rejectUnauthorized !== false,
+      });
+      this.socket = secure;
+      this.armTimeout(secure);
+      const onHandshakeError = (err: Error): void => {
+        this.close();
+        reject(new Error(`IMAP STARTTLS failed: ${err.message}`));
+      };
+      secure.on('data', (data: Buffer) => this.handleData(data));
+      secure.once('error', onHandshakeError);
+      secure.once('secureConnect', () => {
+        secure.off('error', onHandshakeError);
+        secure.on('error', (err) => this.fail(new Error(`IMAP connection failed: ${err.message}`)));
+        resolve();
+      });
+    });
+  }
+
+  private command(text: string): Promise<ImapResponse[]> {
+    if (!this.socket || this.socket.destroyed) {
+      return Promise.reject(new Error('IMAP not connected'));
+    }
+    if (this.pending) {
+      return Promise.reject(new Error('IMAP command already in progress'));
+    }
+    const tag = `A${++this.tagCounter}`;
+    return new Promise<ImapResponse[]>((resolve, reject) => {
+      this.pending = { tag, untagged: [], resolve, reject };
+      this.write(`${tag} ${text}\r\n`);
+    });
+  }
+
+  private write(data: string): void {
+    if (this.socket && !this.socket.destroyed) this.socket.write(data);
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, data]) : data;
+
+    for (;;) {
+      if (this.literalBytes > 0) {
+        if (this.buffer.length < this.literalBytes) return;
+        this.lineLiterals.push(Buffer.from(this.buffer.subarray(0, this.literalBytes)));
+        this.buffer = this.buffer.subarray(this.literalBytes);
+        this.literalBytes = 0;
+        continue;
+      }
+
+      const eol = this.buffer.indexOf('\r\n');
+      if (eol === -1) return;
+      const line = this.buffer.subarray(0, eol).toString('utf8');
+      this.buffer = this.buffer.subarray(eol + 2);
+      this.lineText += line;
+
+      // "{123}" at the end of a line announces a literal of that many bytes.
+      const literal = /\{(\d+)\}$/.exec(line);
+      if (literal) {
+        this.literalBytes = Number(literal[1]);
+        if (this.literalBytes === 0) this.lineLiterals.push(Buffer.alloc(0));
+        continue;
+      }
+
+      const text = this.lineText;
+      const literals = this.lineLiterals;
+      this.lineText = '';
+      this.lineLiterals = [];
+      this.dispatch(text, literals);
+    }
+  }
+
+  private dispatch(text: string, literals: Buffer[]): void {
+    if (text.startsWith('+')) {
+      const continuation = this.continuation;
+      this.continuation = null;
+      continuation?.();
+      return;
+    }
+
+    if (text.startsWith('* ')) {
+      const response: ImapResponse = { text: text.slice(2), literals };
+      if (this.greeting) {
+        const greeting = this.greeting;
+        this.greeting = null;
+        if (/^(OK|PREAUTH)\b/i.test(response.text)) greeting.resolve();
+        else greeting.reject(new Error(`IMAP server refused connection: ${response.text}`));
+        return;
+      }
+      const caps = /^(?:OK \[)?CAPABILITY ([^\]]*)/i.exec(response.text);
+      if (caps) {
+        this.capabilities.clear();
+        for (const cap of caps[1]!.trim().split(/\s+/)) this.capabilities.add(cap.toUpperCase());
+      }
+      if (/^\d+ (EXISTS|RECENT)$/i.test(response.text)) {
+        this.mailArrived = true;
+        this.idleWake?.();
+      }
+      this.pending?.untagged.push(response);
+      return;
+    }
+
+    const match = /^(\S+) (OK|NO|BAD)\b ?(.*)$/i.exec(text);
+    if (!match || !this.pending || match[1] !== this.pending.tag) return;
+    const pending = this.pending;
+    this.pending = null;
+    if (match[2]!.toUpperCase() === 'OK') pending.resolve(pending.untagged);
+    else pending.reject(new Error(`IMAP ${match[2]!.toUpperCase()}: ${match[3]}`));
+  }
+
+  private fail(err: Error): void {
+    const { greeting, pending } = this;
+    this.greeting = null;
+    this.pending = null;
+    greeting?.reject(err);
+    pending?.reject(err);
+    this.continuation = null;
+    this.idleWake?.();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SMTP
+// ---------------------------------------------------------------------------
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Deliver one message over SMTP. `data` is the complete RFC 5322 message
+ * with CRLF line endings; dot-stuffing is applied here.
+ */
+export async function sendMail(opts: MailServerOpts, envelope: SmtpEnvelope, data: string): Promise<void> {
+  const session = await SmtpSession.open(opts);
+  try {
+    await session.expect(220);
+    let capabilities = await session.ehlo();
+
+    const upgrade = !opts.secure && capabilities.has('STARTTLS');
+    if (upgrade) {
+      await session.command('STARTTLS', 220);
+      await session.upgrade(opts);
+      capabilities = await session.ehlo();
+    }
+
+    if (opts.user) {
+      if (!opts.secure && !upgrade && !LOOPBACK_HOST.test(opts.host)) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to log in without TLS');
+      }
+      const auth = capabilities.get('AUTH') ?? '';
+      if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+        const token = Buffer.from(`\0${opts.user}\0${opts.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, 235);
+      } else {
+        await session.command('AUTH LOGIN', 334);
+        await session.command(Buffer.from(opts.user).toString('base64'), 334);
+        await session.command(Buffer.from(opts.password ?? '').toString('base64'), 235);
+      }
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, 250);
+    for (const rcpt of envelope.to) {
+      await session.command(`RCPT TO:<${rcpt}>`, 250, 251);
+    }
+    await session.command('DATA', 354);
+    const body = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await session.command(`${body.endsWith('\r\n') ? body : `${body}\r\n`}.`, 250);
+    await session.command('QUIT', 221).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpSession {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  private constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  static open(opts: MailServerOpts): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = opts.secure
+        ? tlsConnect({
+          host: opts.host,
+          port: opts.port,
+          servername: opts.host,
+          rejectUnauthorized: opts.rejectUnauthorized !== false,
+        })
+        : netConnect({ host: opts.host, port: opts.port });
+      const session = new SmtpSession(socket);
+      socket.setTimeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+        socket.destroy(new Error('SMTP connection timed out'));
+      });
+      socket.once(opts.secure ? 'secureConnect' : 'connect', () => resolve(session));
+      socket.once('error', (err) => reject(new Error(`SMTP connection failed: ${err.message}`)));
+    });
+  }
+
+  /** Switch to TLS on the same connection after STARTTLS. */
+  upgrade(opts: MailServerOpts): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      const secure = tlsConnect({
+        socket: this.socket,
+        servername: opts.host,
+        rejectUnauthorized: opts.rejectUnauthorized !== false,
+      });
+      this.socket = secure;
+      this.attach(secure);
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', (err) => reject(new Error(`SMTP STARTTLS failed: ${err.message}`)));
+    });
+  }
+
+  async ehlo(): Promise<Map<string, string>> {
+    const reply = await this.command(`EHLO ${hostname() || 'localhost'}`, 250);
+    const capabilities = new Map<string, string>();
+    for (const line of reply.lines.slice(1)) {
+      const [keyword = '', ...rest] = line.split(' ');
+      capabilities.set(keyword.toUpperCase(), rest.join(' '));
+    }
+    return capabilities;
+  }
+
+  async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (data: string) => this.handleData(data));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => { this.waiter = { resolve, reject }; });
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data;
+    let eol: number;
+    while ((eol = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, eol);
+      this.buffer = this.buffer.slice(eol + 2);
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a multi-line reply; "250 ..." ends it.
+      if (line[3] === '-') continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.replyLines };
+      this.replyLines = [];
+      const waiter = this.waiter;
+      this.waiter = null;
+      if (waiter) waiter.resolve(reply);
+      else this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.error ??= err;
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.reject(this.error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Quote an IMAP string argument. */
+function quote(value: string): string {
+  if (/[\r\n]/.test(value)) throw new Error('IMAP arguments cannot contain line breaks');
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
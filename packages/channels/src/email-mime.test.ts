@@ -0,0 +1,228 @@
+/**
+ * Tests for the email MIME helpers — parsing, text cleanup and building.
+ */
+
+import {
+  buildEmail,
+  decodeHeaderValue,
+  htmlToText,
+  parseAddressList,
+  parseAuthenticationResults,
+  parseEmail,
+  stripQuotedReply,
+} from './email-mime.js';
+
+function raw(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\r\n'), 'latin1');
+}
+
+describe('parseEmail', () => {
+  it('reads headers, addresses and threading ids', () => {
+    const mail = parseEmail(raw([
+      'From: "Doe, Jane" <Jane@Example.com>',
+      'Reply-To: jane.work@example.com',
+      'To: bot@example.org, other@example.org',
+      'Subject: =?UTF-8?B?Q2Fmw6k=?= =?UTF-8?Q?_plans?=',
+      'Message-ID: <m3@example.com>',
+      'In-Reply-To: <m2@example.org>',
+      'References: <m1@example.com>',
+      '  <m2@example.org>',
+      'Date: Mon, 19 Oct 2026 09:00:00 +0000',
+      '',
+      'Body',
+    ]));
+
+    expect(mail.from).toEqual({ name: 'Doe, Jane', address: 'jane@example.com' });
+    expect(mail.replyTo).toEqual({ address: 'jane.work@example.com' });
+    expect(mail.to.map((a) => a.address)).toEqual(['bot@example.org', 'other@example.org']);
+    expect(mail.subject).toBe('Café plans');
+    expect(mail.messageId).toBe('<m3@example.com>');
+    expect(mail.inReplyTo).toBe('<m2@example.org>');
+    expect(mail.references).toEqual(['<m1@example.com>', '<m2@example.org>']);
+    expect(mail.date?.toISOString()).toBe('2026-10-19T09:00:00.000Z');
+    expect(mail.text).toBe('Body');
+    expect(mail.automated).toBe(false);
+  });
+
+  it('decodes quoted-printable bodies in other charsets', () => {
+    const mail = parseEmail(raw([
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Gr=FC=DFe aus M=FCnchen, this line is soft-=',
+      'wrapped.',
+    ]));
+    expect(mail.text).toBe('Grüße aus München, this line is soft-wrapped.');
+  });
+
+  it('prefers the plain-text alternative', () => {
+    const mail = parseEmail(raw([
+      'Content-Type: multipart/alternative; boundary=alt',
+      '',
+      '--alt',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'Plain version',
+      '--alt',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>HTML version</p>',
+      '--alt--',
+    ]));
+    expect(mail.text).toBe('Plain version');
+  });
+
+  it('converts HTML-only mail to text', () => {
+    const mail = parseEmail(raw([
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<html><head><style>p { color: red }</style></head><body>',
+      '<p>Hello&nbsp;there</p><ul><li>one</li><li>two</li></ul>',
+      '<a href="https://example.com/x">details</a></body></html>',
+    ]));
+    expect(mail.text).toBe('Hello there\n\n- one\n- two\n\ndetails (https://example.com/x)');
+  });
+
+  it('collects attachments with RFC 2231 filenames', () => {
+    const mail = parseEmail(raw([
+      'Content-Type: multipart/mixed; boundary="mix"',
+      '',
+      '--mix',
+      'Content-Type: text/plain',
+      '',
+      'See attached',
+      '--mix',
+      'Content-Type: application/pdf',
+      "Content-Disposition: attachment; filename*=utf-8''r%C3%A9sum%C3%A9.pdf",
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('%PDF-1.4').toString('base64'),
+      '--mix--',
+    ]));
+    expect(mail.text).toBe('See attached');
+    expect(mail.attachments).toEqual([
+      { filename: 'résumé.pdf', mimeType: 'application/pdf', data: Buffer.from('%PDF-1.4') },
+    ]);
+  });
+
+  it('flags autoresponders and mailing lists', () => {
+    expect(parseEmail(raw(['Auto-Submitted: auto-replied', '', 'x'])).automated).toBe(true);
+    expect(parseEmail(raw(['Auto-Submitted: no', '', 'x'])).automated).toBe(false);
+    expect(parseEmail(raw(['Precedence: bulk', '', 'x'])).automated).toBe(true);
+    expect(parseEmail(raw(['List-Id: <dev.lists.example.org>', '', 'x'])).automated).toBe(true);
+  });
+});
+
+describe('header helpers', () => {
+  it('joins adjacent encoded words', () => {
+    expect(decodeHeaderValue('=?utf-8?q?caf=C3=A9?= =?utf-8?q?_ok?= done')).toBe('café ok done');
+  });
+
+  it('parses bare and named addresses', () => {
+    expect(parseAddressList('a@x.org, "B, Esq." <B@Y.org>, C <c@z.org>')).toEqual([
+      { address: 'a@x.org' },
+      { name: 'B, Esq.', address: 'b@y.org' },
+      { name: 'C', address: 'c@z.org' },
+    ]);
+  });
+});
+
+describe('parseAuthenticationResults', () => {
+  it('reads the server id and each verdict, skipping comments', () => {
+    expect(parseAuthenticationResults(
+      'MX.Example.org 1; dkim=pass (2048-bit key; secure) header.d=Example.com header.s=sel;'
+      + ' spf=softfail smtp.mailfrom=x.test; dmarc=pass (p=REJECT) header.from=example.com',
+    )).toEqual({
+      authservId: 'mx.example.org',
+      results: [
+        { method: 'dkim', result: 'pass', props: { 'header.d': 'example.com', 'header.s': 'sel' } },
+        { method: 'spf', result: 'softfail', props: { 'smtp.mailfrom': 'x.test' } },
+        { method: 'dmarc', result: 'pass', props: { 'header.from': 'example.com' } },
+      ],
+    });
+  });
+
+  it('keeps every header in the order received', () => {
+    const mail = parseEmail(raw([
+      'Authentication-Results: mx.example.org; dkim=pass header.d=example.com',
+      'Authentication-Results: relay.example.net; none',
+      '',
+      'Body',
+    ]));
+    expect(mail.authResults.map((h) => h.authservId)).toEqual(['mx.example.org', 'relay.example.net']);
+    expect(mail.authResults[1]!.results).toEqual([]);
+  });
+});
+
+describe('htmlToText', () => {
+  it('decodes entities and drops markup', () => {
+    expect(htmlToText('<div>1 &lt; 2 &amp;&amp; 3 &#62; 2&#x21;</div><br>next')).toBe('1 < 2 && 3 > 2!\n\nnext');
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('cuts at an attribution line', () => {
+    expect(stripQuotedReply('Yes.\n\nOn Mon, Oct 19, 2026, Bob wrote:\n> Coming?')).toBe('Yes.');
+  });
+
+  it('cuts at an attribution wrapped onto two lines', () => {
+    expect(stripQuotedReply('Yes.\n\nOn Mon, Oct 19, 2026 at 9:00 AM Bob\n<bob@example.com> wrote:\n> Coming?')).toBe('Yes.');
+  });
+
+  it('cuts at Outlook separators and signatures', () => {
+    expect(stripQuotedReply('Fine\n-----Original Message-----\nFrom: Bob')).toBe('Fine');
+    expect(stripQuotedReply('Fine\n________________________________\nFrom: Bob')).toBe('Fine');
+    expect(stripQuotedReply('Fine\n-- \nBob\nSent from my phone')).toBe('Fine');
+  });
+
+  it('keeps inline quotes that are answered below', () => {
+    const text = '> Coming?\nYes, at 10.';
+    expect(stripQuotedReply(text)).toBe(text);
+  });
+
+  it('keeps the text when nothing else would be left', () => {
+    expect(stripQuotedReply('> only a quote')).toBe('> only a quote');
+  });
+});
+
+describe('buildEmail', () => {
+  it('builds a message that parses back', () => {
+    const longLine = `${'word '.repeat(30)}end`;
+    const built = buildEmail({
+      from: { name: 'Bot Ünïcode', address: 'bot@example.org' },
+      to: [{ address: 'alice@example.com' }],
+      subject: 'Re: Café plans',
+      text: `Hi ✓\n.leading dot\n${longLine}`,
+      messageId: '<out1@example.org>',
+      inReplyTo: '<m2@example.com>',
+      references: ['<m1@example.com>', '<m2@example.com>'],
+    });
+
+    expect(built).toContain('\r\nAuto-Submitted: auto-replied\r\n');
+    expect(built.split('\r\n').every((line) => line.length <= 78)).toBe(true);
+
+    const parsed = parseEmail(Buffer.from(built));
+    expect(parsed.from).toEqual({ name: 'Bot Ünïcode', address: 'bot@example.org' });
+    expect(parsed.subject).toBe('Re: Café plans');
+    expect(parsed.messageId).toBe('<out1@example.org>');
+    expect(parsed.inReplyTo).toBe('<m2@example.com>');
+    expect(parsed.references).toEqual(['<m1@example.com>', '<m2@example.com>']);
+    expect(parsed.text).toBe(`Hi ✓\n.leading dot\n${longLine}`);
+  });
+
+  it('adds attachments as a multipart/mixed message', () => {
+    const data = Buffer.alloc(200, 7);
+    const built = buildEmail({
+      from: { address: 'bot@example.org' },
+      to: [{ address: 'alice@example.com' }],
+      subject: 'Files',
+      text: 'Attached.',
+      messageId: '<out2@example.org>',
+      attachments: [{ filename: 'data.bin', mimeType: 'application/octet-stream', data }],
+    });
+
+    const parsed = parseEmail(Buffer.from(built));
+    expect(parsed.text).toBe('Attached.');
+    expect(parsed.attachments).toEqual([{ filename: 'data.bin', mimeType: 'application/octet-stream', data }]);
+  });
+});
@@ -0,0 +1,507 @@
+/**
+ * Email MIME helpers — parse inbound RFC 5322 messages and build outbound ones.
+ *
+ * Covers what a chat-style email channel needs and nothing more:
+ *   - Header unfolding and RFC 2047 encoded words
+ *   - multipart/* bodies, base64 and quoted-printable, charsets via TextDecoder
+ *   - HTML-to-text for HTML-only mail
+ *   - Stripping the quoted history that mail clients append to replies
+ *   - Authentication-Results (RFC 8601) headers, for DKIM and DMARC verdicts
+ *   - Building text/plain or multipart/mixed messages with attachments
+ *
+ * Zero external dependencies.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface EmailAddress {
+  name?: string;
+  /** Lower-cased address. */
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename?: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/** One Authentication-Results header: who checked the mail, and the verdicts. */
+export interface AuthenticationResults {
+  /** Lower-cased id of the server that added the header. */
+  authservId: string;
+  /** Verdicts such as `{ method: 'dkim', result: 'pass', props: { 'header.d': 'example.com' } }`. */
+  results: Array<{ method: string; result: string; props: Record<string, string> }>;
+}
+
+export interface ParsedEmail {
+  messageId?: string;
+  inReplyTo?: string;
+  /** Message-IDs from the References header, oldest first. */
+  references: string[];
+  from?: EmailAddress;
+  replyTo?: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  date?: Date;
+  /** Plain-text body; converted from HTML when the message has no text part. */
+  text: string;
+  attachments: EmailAttachment[];
+  /** Sent by an autoresponder or mailing list (Auto-Submitted, Precedence). */
+  automated: boolean;
+  /** Authentication-Results headers, most recently added first. */
+  authResults: AuthenticationResults[];
+}
+
+export interface OutgoingEmail {
+  from: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: EmailAttachment[];
+  date?: Date;
+}
+
+interface MimePart {
+  /** First value of each header. */
+  headers: Map<string, string>;
+  /** Every value of each header, in order. */
+  allHeaders: Map<string, string[]>;
+  body: Buffer;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Parse a raw RFC 5322 message. */
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const root = splitPart(raw);
+  const h = root.headers;
+
+  const texts: string[] = [];
+  const htmls: string[] = [];
+  const attachments: EmailAttachment[] = [];
+  collectParts(root, texts, htmls, attachments);
+
+  const text = texts.length > 0
+    ? texts.join('\n\n')
+    : htmls.map(htmlToText).join('\n\n');
+
+  const date = h.get('date') ? new Date(h.get('date')!) : undefined;
+  const autoSubmitted = h.get('auto-submitted')?.toLowerCase();
+  const precedence = h.get('precedence')?.toLowerCase();
+
+  return {
+    messageId: parseMessageIds(h.get('message-id') ?? '')[0],
+    inReplyTo: parseMessageIds(h.get('in-reply-to') ?? '')[0],
+    references: parseMessageIds(h.get('references') ?? ''),
+    from: parseAddressList(h.get('from') ?? '')[0],
+    replyTo: parseAddressList(h.get('reply-to') ?? '')[0],
+    to: parseAddressList(h.get('to') ?? ''),
+    subject: decodeHeaderValue(h.get('subject') ?? ''),
+    date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+    text: text.replace(/\r\n/g, '\n').trim(),
+    attachments,
+    automated: (autoSubmitted !== undefined && autoSubmitted !== 'no')
+      || precedence === 'bulk' || precedence === 'list' || precedence === 'junk'
+      || h.has('list-id'),
+    authResults: (root.allHeaders.get('authentication-results') ?? []).map(parseAuthenticationResults),
+  };
+}
+
+function collectParts(part: MimePart, texts: string[], htmls: string[], attachments: EmailAttachment[]): void {
+  const { type, params } = parseContentType(part.headers.get('content-type') ?? 'text/plain');
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const children = splitMultipart(part.body, params.boundary).map(splitPart);
+    if (type === 'multipart/alternative') {
+      // Prefer the plain-text alternative; fall back to the last (richest) one.
+      const plain = children.find((c) => parseContentType(c.headers.get('content-type') ?? 'text/plain').type === 'text/plain');
+      const chosen = plain ?? children[children.length - 1];
+      if (chosen) collectParts(chosen, texts, htmls, attachments);
+      return;
+    }
+    for (const child of children) collectParts(child, texts, htmls, attachments);
+    return;
+  }
+
+  const disposition = parseContentType(part.headers.get('content-disposition') ?? '');
+  const filename = disposition.params.filename ?? params.name;
+  const data = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'));
+
+  if (disposition.type !== 'attachment' && filename === undefined
+    && (type === 'text/plain' || type === 'text/html')) {
+    const decoded = decodeCharset(data, params.charset);
+    (type === 'text/plain' ? texts : htmls).push(decoded);
+    return;
+  }
+  if (type === 'message/rfc822' && disposition.type !== 'attachment') {
+    // A forwarded message: treat its body as part of this one.
+    collectParts(splitPart(data), texts, htmls, attachments);
+    return;
+  }
+
+  attachments.push({ filename, mimeType: type, data });
+}
+
+/** Split a part into its headers and body. */
+function splitPart(raw: Buffer): MimePart {
+  // latin1 maps bytes to code units one-to-one, so offsets stay byte offsets.
+  const str = raw.toString('latin1');
+  const match = /\r?\n\r?\n/.exec(str);
+  const headerBlock = match ? str.slice(0, match.index) : str;
+  const body = match ? raw.subarray(match.index + match[0].length) : Buffer.alloc(0);
+
+  const headers = new Map<string, string>();
+  const allHeaders = new Map<string, string[]>();
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Header bytes are usually ASCII; reinterpret raw 8-bit headers as UTF-8.
+    const value = Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8');
+    if (!headers.has(name)) headers.set(name, value);
+    allHeaders.set(name, [...(allHeaders.get(name) ?? []), value]);
+  }
+  return { headers, allHeaders, body };
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const str = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+  let index = str.indexOf(delimiter);
+  while (index !== -1) {
+    const start = index + delimiter.length;
+    const lineEnd = str.indexOf('\n', start);
+    if (str.startsWith('--', start) || lineEnd === -1) break; // Closing delimiter.
+    const next = str.indexOf(`\n${delimiter}`, start);
+    const end = next === -1 ? str.length : next;
+    // Drop the rest of the delimiter line and the CRLF before the next delimiter.
+    const content = str.slice(lineEnd + 1, end).replace(/\r$/, '');
+    parts.push(Buffer.from(content, 'latin1'));
+    index = next === -1 ? -1 : next + 1;
+  }
+  return parts;
+}
+
+function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const text = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(ch.charCodeAt(0) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeCharset(data: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset?.toLowerCase() ?? 'utf-8').decode(data);
+  } catch {
+    // Unknown charset label — UTF-8 is the most likely right answer.
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
+
+/** Parse "type/subtype; key=value; ..." (also used for Content-Disposition). */
+function parseContentType(value: string): { type: string; params: Record<string, string> } {
+  const [type = '', ...rest] = splitUnquoted(value, ';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    let key = param.slice(0, eq).trim().toLowerCase();
+    let val = param.slice(eq + 1).trim();
+    if (val.startsWith('"') && val.endsWith('"')) {
+      val = val.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    // RFC 2231 extended value: filename*=utf-8''na%C3%AFve.txt
+    if (key.endsWith('*')) {
+      key = key.slice(0, -1);
+      const match = /^([^']*)'[^']*'(.*)$/.exec(val);
+      if (match) {
+        const bytes = Buffer.from(match[2]!.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+        val = decodeCharset(bytes, match[1] || undefined);
+      }
+    }
+    params[key] = decodeHeaderValue(val);
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/** Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value. */
+export function decodeHeaderValue(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the text.
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, enc: string, text: string) => {
+      const bytes = enc.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset.replace(/\*.*$/, ''));
+    });
+}
+
+/** Parse an address list header ("Ann <ann@x.org>, bob@y.org"). */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  for (const item of splitUnquoted(value, ',')) {
+    const angle = /^(.*)<([^>]+)>\s*$/.exec(item.trim());
+    if (angle) {
+      const name = decodeHeaderValue(angle[1]!.trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1'));
+      addresses.push({ ...(name ? { name } : {}), address: angle[2]!.trim().toLowerCase() });
+    } else if (item.includes('@')) {
+      addresses.push({ address: item.trim().replace(/\s*\(.*\)$/, '').toLowerCase() });
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Parse an Authentication-Results header
+ * ("mx.example.org; dkim=pass header.d=example.com; dmarc=pass header.from=example.com").
+ */
+export function parseAuthenticationResults(value: string): AuthenticationResults {
+  // Comments carry nothing the verdicts need and may contain separators.
+  const [id = '', ...verdicts] = splitUnquoted(value.replace(/\([^()]*\)/g, ''), ';');
+  const results: AuthenticationResults['results'] = [];
+  for (const verdict of verdicts) {
+    const [head, ...pairs] = verdict.trim().split(/\s+/);
+    const match = /^([\w.-]+)(?:\/\d+)?=([\w-]+)$/.exec(head ?? '');
+    if (!match) continue;
+    const props: Record<string, string> = {};
+    for (const pair of pairs) {
+      const eq = pair.indexOf('=');
+      if (eq > 0) props[pair.slice(0, eq).toLowerCase()] = pair.slice(eq + 1).replace(/^"(.*)"$/, '$1').toLowerCase();
+    }
+    results.push({ method: match[1]!.toLowerCase(), result: match[2]!.toLowerCase(), props });
+  }
+  return { authservId: id.trim().split(/\s+/)[0]!.toLowerCase(), results };
+}
+
+function parseMessageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/** Split on a separator that is not inside double quotes or angle brackets. */
+function splitUnquoted(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]!;
+    if (ch === '\\' && quoted) {
+      current += ch + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === '<') angle = true;
+    else if (!quoted && ch === '>') angle = false;
+    if (ch === separator && !quoted && !angle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// Text cleanup
+// ---------------------------------------------------------------------------
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+
+/** Convert an HTML email body to readable plain text. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Line breaks in HTML source are just whitespace.
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol|blockquote)>/gi, '\n\n')
+    .replace(/<a\b[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim();
+      return text && text !== href ? `${text} (${href})` : href;
+    })
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+      if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+      if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Remove the quoted history and signature that mail clients add below a
+ * reply, leaving what the sender actually wrote. Returns the text unchanged
+ * if nothing would be left.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split('\n');
+  let cut = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trimEnd();
+    const next = lines[i + 1]?.trimEnd() ?? '';
+    const isHistory =
+      /^On\b.+\bwrote:$/.test(line)
+      || (/^On\b/.test(line) && /\bwrote:$/.test(next)) // Attribution wrapped onto two lines.
+      || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line)
+      || /^_{10,}$/.test(line) // Outlook separator above "From: ...".
+      || line === '--' || line === '-- '
+      || (line.startsWith('>') && lines.slice(i).every((l) => l.trim() === '' || l.startsWith('>')));
+    if (isHistory) {
+      cut = i;
+      break;
+    }
+  }
+
+  const stripped = lines.slice(0, cut).join('\n').trim();
+  return stripped || text.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+/** Build an RFC 5322 message with CRLF line endings, ready for SMTP DATA. */
+export function buildEmail(mail: OutgoingEmail): string {
+  const headers = [
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${mail.to.map(formatAddress).join(', ')}`,
+    `Subject: ${encodeHeaderValue(mail.subject)}`,
+    `Date: ${(mail.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${mail.messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${mail.inReplyTo}`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.join(' ')}`] : []),
+    // Keeps well-behaved autoresponders from answering the bot.
+    'Auto-Submitted: auto-replied',
+    'MIME-Version: 1.0',
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(mail.text),
+  ].join('\r\n');
+
+  if (!mail.attachments?.length) {
+    return `${headers.join('\r\n')}\r\n${textPart}\r\n`;
+  }
+
+  const boundary = `ch4p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  const parts = [textPart];
+  for (const att of mail.attachments) {
+    const filename = att.filename ?? 'attachment';
+    parts.push([
+      `Content-Type: ${att.mimeType}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; ${formatFilenameParam(filename)}`,
+      '',
+      att.data.toString('base64').replace(/.{76}(?=.)/g, '$&\r\n'),
+    ].join('\r\n'));
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function formatAddress(addr: EmailAddress): string {
+  if (!addr.name) return `<${addr.address}>`;
+  const name = /^[\x20-\x7e]*$/.test(addr.name)
+    ? `"${addr.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeaderValue(addr.name);
+  return `${name} <${addr.address}>`;
+}
+
+/** Encode a header value as RFC 2047 words if it isn't plain ASCII. */
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  // Keep each encoded word under the 75-character limit, without splitting characters.
+  const words: string[] = [];
+  let chunk = '';
+  for (const ch of value) {
+    if (Buffer.byteLength(chunk + ch) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w).toString('base64')}?=`).join('\r\n ');
+}
+
+function formatFilenameParam(filename: string): string {
+  if (/^[\x20-\x7e]*$/.test(filename)) {
+    return `filename="${filename.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return `filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function encodeQuotedPrintable(text: string): string {
+  const out: string[] = [];
+  for (const line of text.replace(/\r?\n/g, '\n').split('\n')) {
+    let encoded = '';
+    const bytes = Buffer.from(line, 'utf8');
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i]!;
+      const last = i === bytes.length - 1;
+      const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !last);
+      encoded += literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    }
+    // Soft line breaks keep lines within 76 characters, never inside an =XX escape.
+    while (encoded.length > 76) {
+      let at = 75;
+      const escape = encoded.lastIndexOf('=', at);
+      if (escape > at - 3) at = escape;
+      out.push(`${encoded.slice(0, at)}=`);
+      encoded = encoded.slice(at);
+    }
+    out.push(encoded);
+  }
+  return out.join('\r\n');
+}
@@ -0,0 +1,540 @@
+/**
+ * EmailChannel tests.
+ *
+ * Runs the channel against stand-in IMAP and SMTP servers on localhost,
+ * covering fetch over IDLE and polling, sender filtering and authentication,
+ * reply threading and attachments, and the IMAP client's timeouts and STARTTLS.
+ */
+
+import { vi } from 'vitest';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { InboundMessage } from '@ch4p/core';
+import { EmailChannel } from './email.js';
+import { ImapClient } from './email-client.js';
+import type { EmailConfig } from './email.js';
+import { parseEmail } from './email-mime.js';
+
+// ---------------------------------------------------------------------------
+// Stand-in IMAP server
+// ---------------------------------------------------------------------------
+
+interface StoredMail {
+  uid: number;
+  raw: Buffer;
+  seen: boolean;
+}
+
+class FakeImapServer {
+  readonly mails: StoredMail[] = [];
+  readonly logins: string[] = [];
+  /** First byte each client sent after STARTTLS: 0x16 opens a TLS handshake. */
+  readonly handshakes: number[] = [];
+  idle = true;
+  starttls = false;
+  private server: Server = createServer((socket) => this.accept(socket));
+  private idling: Array<{ socket: Socket; tag: string }> = [];
+  private sockets = new Set<Socket>();
+  private upgrading = new Set<Socket>();
+  private nextUid = 1;
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Cut every open connection, as a server restart would. */
+  dropConnections(): void {
+    for (const socket of this.sockets) socket.destroy();
+  }
+
+  /** Add a message to the mailbox and notify idling clients. */
+  deliver(raw: string): void {
+    this.mails.push({ uid: this.nextUid++, raw: Buffer.from(raw), seen: false });
+    for (const { socket } of this.idling) socket.write(`* ${this.mails.length} EXISTS\r\n`);
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.write('* OK fake IMAP ready\r\n');
+    let buffer = '';
+    socket.on('data', (data) => {
+      // The stand-in can't speak TLS; record the handshake and hang up.
+      if (this.upgrading.has(socket)) {
+        this.handshakes.push(data[0]!);
+        socket.destroy();
+        return;
+      }
+      buffer += data.toString('utf8');
+      let eol: number;
+      while ((eol = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+        this.handle(socket, line);
+      }
+    });
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.idling = this.idling.filter((entry) => entry.socket !== socket);
+    });
+  }
+
+  private handle(socket: Socket, line: string): void {
+    if (line === 'DONE') {
+      const entry = this.idling.find((e) => e.socket === socket);
+      this.idling = this.idling.filter((e) => e !== entry);
+      if (entry) socket.write(`${entry.tag} OK IDLE terminated\r\n`);
+      return;
+    }
+
+    const [tag, ...rest] = line.split(' ');
+    const command = rest.join(' ');
+    const ok = (text = 'done') => socket.write(`${tag} OK ${text}\r\n`);
+
+    if (command.startsWith('LOGIN')) {
+      this.logins.push(command);
+      ok();
+    } else if (command === 'CAPABILITY') {
+      socket.write(`* CAPABILITY IMAP4rev1${this.idle ? ' IDLE' : ''}${this.starttls ? ' STARTTLS' : ''}\r\n`);
+      ok();
+    } else if (command === 'STARTTLS' && this.starttls) {
+      this.upgrading.add(socket);
+      ok('Begin TLS negotiation now');
+    } else if (command.startsWith('SELECT')) {
+      socket.write(`* ${this.mails.length} EXISTS\r\n* OK [UIDVALIDITY 1] ok\r\n* OK [UIDNEXT ${this.nextUid}] ok\r\n`);
+      ok('[READ-WRITE] SELECT completed');
+    } else if (command === 'UID SEARCH UNSEEN') {
+      const uids = this.mails.filter((m) => !m.seen).map((m) => m.uid);
+      socket.write(`* SEARCH${uids.map((u) => ` ${u}`).join('')}\r\n`);
+      ok();
+    } else if (command.startsWith('UID FETCH')) {
+      const uid = Number(command.split(' ')[2]);
+      const index = this.mails.findIndex((m) => m.uid === uid);
+      const mail = this.mails[index];
+      if (mail) {
+        socket.write(`* ${index + 1} FETCH (UID ${uid} BODY[] {${mail.raw.length}}\r\n`);
+        socket.write(mail.raw);
+        socket.write(')\r\n');
+      }
+      ok();
+    } else if (command.startsWith('UID STORE')) {
+      const uid = Number(command.split(' ')[2]);
+      const mail = this.mails.find((m) => m.uid === uid);
+      if (mail) mail.seen = true;
+      ok();
+    } else if (command === 'IDLE') {
+      this.idling.push({ socket, tag: tag! });
+      socket.write('+ idling\r\n');
+    } else if (command === 'LOGOUT') {
+      socket.write('* BYE\r\n');
+      ok();
+      socket.end();
+    } else {
+      socket.write(`${tag} BAD unknown command\r\n`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stand-in SMTP server
+// ---------------------------------------------------------------------------
+
+class FakeSmtpServer {
+  readonly messages: Array<{ from: string; to: string[]; data: string; auth?: string }> = [];
+  private server: Server = createServer((socket) => this.accept(socket));
+  private waiters: Array<() => void> = [];
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  async waitForMessage(count: number): Promise<void> {
+    while (this.messages.length < count) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  private accept(socket: Socket): void {
+    socket.write('220 fake SMTP ready\r\n');
+    let buffer = '';
+    let inData = false;
+    let current: { from: string; to: string[]; data: string; auth?: string } = { from: '', to: [], data: '' };
+
+    socket.on('data', (data) => {
+      buffer += data.toString('utf8');
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end + 2).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          this.messages.push(current);
+          current = { from: '', to: [], data: '', auth: current.auth };
+          socket.write('250 queued\r\n');
+          for (const waiter of this.waiters.splice(0)) waiter();
+          continue;
+        }
+        const eol = buffer.indexOf('\r\n');
+        if (eol === -1) return;
+        const line = buffer.slice(0, eol);
+        buffer = buffer.slice(eol + 2);
+
+        if (line.startsWith('EHLO')) {
+          socket.write('250-fake.local\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          current.auth = Buffer.from(line.slice(11), 'base64').toString('utf8');
+          socket.write('235 ok\r\n');
+        } else if (line.startsWith('MAIL FROM:')) {
+          current.from = line.slice(10).replace(/[<>]/g, '');
+          socket.write('250 ok\r\n');
+        } else if (line.startsWith('RCPT TO:')) {
+          current.to.push(line.slice(8).replace(/[<>]/g, ''));
+          socket.write('250 ok\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.write('221 bye\r\n');
+          socket.end();
+        } else {
+          socket.write('500 unknown\r\n');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mail(opts: { from?: string; subject?: string; body?: string; messageId?: string; headers?: string[] } = {}): string {
+  return [
+    `From: ${opts.from ?? 'Alice <alice@example.com>'}`,
+    'To: bot@example.org',
+    `Subject: ${opts.subject ?? 'Hello'}`,
+    `Message-ID: ${opts.messageId ?? `<${Math.random().toString(36).slice(2)}@example.com>`}`,
+    'Date: Mon, 19 Oct 2026 09:00:00 +0000',
+    ...(opts.headers ?? []),
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    opts.body ?? 'Hi there',
+    '',
+  ].join('\r\n');
+}
+
+function nextMessage(channel: EmailChannel): Promise<InboundMessage> {
+  return new Promise((resolve) => channel.onMessage(resolve));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('EmailChannel', () => {
+  let imap: FakeImapServer;
+  let smtp: FakeSmtpServer;
+  let channel: EmailChannel;
+  let config: EmailConfig;
+
+  beforeEach(async () => {
+    imap = new FakeImapServer();
+    smtp = new FakeSmtpServer();
+    const [imapPort, smtpPort] = [await imap.listen(), await smtp.listen()];
+    channel = new EmailChannel();
+    config = {
+      address: 'bot@example.org',
+      imap: { host: '127.0.0.1', port: imapPort, secure: false, password: 'secret' },
+      smtp: { host: '127.0.0.1', port: smtpPort, secure: false },
+      pollInterval: 50,
+      reconnectDelay: 50,
+    };
+  });
+
+  afterEach(async () => {
+    await channel.stop();
+    await imap.close();
+    await smtp.close();
+  });
+
+  it('has correct id, name and attachment limit', () => {
+    expect(channel.id).toBe('email');
+    expect(channel.name).toBe('Email');
+    expect(channel.maxAttachmentBytes).toBeGreaterThan(0);
+  });
+
+  it('requires address, imap and smtp config', async () => {
+    await expect(channel.start({ ...config, address: '' })).rejects.toThrow('address');
+    await expect(channel.start({ ...config, imap: undefined } as unknown as EmailConfig)).rejects.toThrow('imap.host');
+    await expect(channel.start({ ...config, smtp: undefined } as unknown as EmailConfig)).rejects.toThrow('smtp.host');
+  });
+
+  it('logs in as the address and delivers unread mail', async () => {
+    imap.deliver(mail({ subject: 'Question', body: 'What time is it?', messageId: '<q1@example.com>' }));
+    const received = nextMessage(channel);
+    await channel.start(config);
+
+    const msg = await received;
+    expect(imap.logins[0]).toBe('LOGIN "bot@example.org" "secret"');
+    expect(msg.id).toBe('<q1@example.com>');
+    expect(msg.channelId).toBe('email');
+    expect(msg.from).toEqual({ channelId: 'email', userId: 'alice@example.com', threadId: '<q1@example.com>' });
+    expect(msg.text).toBe('Question\n\nWhat time is it?');
+    expect(imap.mails[0]!.seen).toBe(true);
+    expect(await channel.isHealthy()).toBe(true);
+  });
+
+  it('picks up new mail while idling', async () => {
+    await channel.start(config);
+    const received = nextMessage(channel);
+
+    imap.deliver(mail({ body: 'New one' }));
+
+    expect((await received).text).toBe('Hello\n\nNew one');
+  });
+
+  it('polls when the server lacks IDLE', async () => {
+    imap.idle = false;
+    await channel.start(config);
+    const received = nextMessage(channel);
+
+    imap.deliver(mail({ body: 'Polled' }));
+
+    expect((await received).text).toBe('Hello\n\nPolled');
+  });
+
+  it('ignores disallowed senders, automated mail and its own mail', async () => {
+    const handler = vi.fn();
+    channel.onMessage(handler);
+    imap.deliver(mail({ from: 'mallory@evil.test' }));
+    imap.deliver(mail({ headers: ['Auto-Submitted: auto-replied'] }));
+    imap.deliver(mail({ from: 'bot@example.org' }));
+    imap.deliver(mail({ from: 'carol@example.com', body: 'allowed' }));
+
+    await channel.start({ ...config, allowedSenders: ['@example.com', 'bot@example.org'] });
+    await vi.waitFor(() => expect(imap.mails.every((m) => m.seen)).toBe(true));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]![0].text).toBe('Hello\n\nallowed');
+  });
+
+  it('replies to the checked From address, never to Reply-To', async () => {
+    imap.deliver(mail({ from: 'Owner <owner@example.com>', headers: ['Reply-To: attacker@evil.test'] }));
+    const received = nextMessage(channel);
+    await channel.start({ ...config, allowedSenders: ['owner@example.com'] });
+    const msg = await received;
+
+    await channel.send(msg.from, { text: 'Here you go.', replyTo: msg.id });
+
+    await smtp.waitForMessage(1);
+    expect(smtp.messages[0]!.to).toEqual(['owner@example.com']);
+    expect(parseEmail(Buffer.from(smtp.messages[0]!.data)).to).toEqual([{ name: 'Owner', address: 'owner@example.com' }]);
+  });
+
+  it('requires a DKIM or DMARC pass from its own server when authServId is set', async () => {
+    const handler = vi.fn();
+    channel.onMessage(handler);
+    const verdict = (value: string) => mail({ body: value, headers: [`Authentication-Results: ${value}`] });
+    imap.deliver(mail({ body: 'unchecked' }));
+    imap.deliver(verdict('mx.evil.test; dkim=pass header.d=example.com'));
+    imap.deliver(verdict('mx.example.org; dkim=fail header.d=example.com'));
+    imap.deliver(verdict('mx.example.org; dkim=pass header.d=evil.test'));
+    imap.deliver(verdict('mx.example.org; spf=pass smtp.mailfrom=example.com'));
+    imap.deliver(verdict('mx.example.org; dkim=pass (good signature) header.d=example.com'));
+    imap.deliver(verdict('MX.example.org 1; dmarc=pass (p=reject) header.from=example.com'));
+
+    await channel.start({ ...config, authServId: 'mx.example.org' });
+    await vi.waitFor(() => expect(imap.mails.every((m) => m.seen)).toBe(true));
+
+    expect(handler.mock.calls.map(([msg]) => (msg as InboundMessage).text.split('\n\n')[1])).toEqual([
+      'mx.example.org; dkim=pass (good signature) header.d=example.com',
+      'MX.example.org 1; dmarc=pass (p=reject) header.from=example.com',
+    ]);
+  });
+
+  it('strips quoted history from replies', async () => {
+    imap.deliver(mail({
+      headers: ['In-Reply-To: <r1@example.org>', 'References: <root@example.com> <r1@example.org>'],
+      subject: 'Re: Plans',
+      body: 'Sounds good.\r\n\r\nOn Mon, Oct 19, 2026 at 9:00 AM ch4p <bot@example.org> wrote:\r\n> Shall we meet?',
+    }));
+    const received = nextMessage(channel);
+    await channel.start(config);
+
+    const msg = await received;
+    expect(msg.text).toBe('Sounds good.');
+    expect(msg.from.threadId).toBe('<root@example.com>');
+  });
+
+  it('replies in thread over SMTP', async () => {
+    imap.deliver(mail({
+      subject: 'Plans',
+      messageId: '<m2@example.com>',
+      headers: ['References: <root@example.com>', 'In-Reply-To: <root@example.com>'],
+    }));
+    const received = nextMessage(channel);
+    await channel.start(config);
+    const msg = await received;
+
+    const result = await channel.send(msg.from, { text: 'See you at 10.', replyTo: msg.id });
+
+    expect(result.success).toBe(true);
+    await smtp.waitForMessage(1);
+    const sent = smtp.messages[0]!;
+    expect(sent.from).toBe('bot@example.org');
+    expect(sent.to).toEqual(['alice@example.com']);
+    expect(sent.auth).toBe('\0bot@example.org\0secret');
+
+    const parsed = parseEmail(Buffer.from(sent.data));
+    expect(parsed.subject).toBe('Re: Plans');
+    expect(parsed.inReplyTo).toBe('<m2@example.com>');
+    expect(parsed.references).toEqual(['<root@example.com>', '<m2@example.com>']);
+    expect(parsed.messageId).toBe(result.messageId);
+    expect(parsed.text).toBe('See you at 10.');
+  });
+
+  it('threads a send without replyTo through the thread id', async () => {
+    imap.deliver(mail({ subject: 'Report', messageId: '<t1@example.com>' }));
+    const received = nextMessage(channel);
+    await channel.start(config);
+    const msg = await received;
+
+    await channel.send(msg.from, { text: 'Working on it.' });
+
+    await smtp.waitForMessage(1);
+    expect(parseEmail(Buffer.from(smtp.messages[0]!.data)).inReplyTo).toBe('<t1@example.com>');
+  });
+
+  it('sends and receives attachments', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    imap.deliver([
+      'From: alice@example.com',
+      'Subject: Photo',
+      'Message-ID: <p1@example.com>',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'Look at this',
+      '--b1',
+      'Content-Type: image/png; name="cat.png"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      png.toString('base64'),
+      '--b1--',
+      '',
+    ].join('\r\n'));
+    const received = nextMessage(channel);
+    await channel.start(config);
+    const msg = await received;
+
+    expect(msg.attachments).toEqual([{ type: 'image', data: png, mimeType: 'image/png', filename: 'cat.png' }]);
+
+    await channel.send(msg.from, {
+      text: 'Here it is back.',
+      replyTo: msg.id,
+      attachments: [{ type: 'image', data: png, mimeType: 'image/png', filename: 'cat.png' }],
+    });
+    await smtp.waitForMessage(1);
+    const parsed = parseEmail(Buffer.from(smtp.messages[0]!.data));
+    expect(parsed.attachments).toEqual([{ filename: 'cat.png', mimeType: 'image/png', data: png }]);
+  });
+
+  it('sends attachments past the size limit in a follow-up mail', async () => {
+    await channel.start(config);
+    const file = (name: string) => ({
+      type: 'file' as const, data: Buffer.alloc(8 * 1024 * 1024), mimeType: 'application/pdf', filename: name,
+    });
+
+    const result = await channel.send({ channelId: 'email', userId: 'alice@example.com' }, {
+      text: 'Both reports.',
+      attachments: [file('a.pdf'), file('b.pdf')],
+    });
+
+    await smtp.waitForMessage(2);
+    const [first, second] = smtp.messages.map((m) => parseEmail(Buffer.from(m.data)));
+    expect(first!.messageId).toBe(result.messageId);
+    expect(first!.attachments.map((a) => a.filename)).toEqual(['a.pdf']);
+    expect(second!.attachments.map((a) => a.filename)).toEqual(['b.pdf']);
+    expect(second!.inReplyTo).toBe(result.messageId);
+    expect(second!.text).toContain('part 2 of 2');
+  });
+
+  it('reports send failures', async () => {
+    await channel.start(config);
+    await smtp.close();
+
+    const result = await channel.send({ channelId: 'email', userId: 'alice@example.com' }, { text: 'Hi' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Email send failed');
+  });
+
+  it('rejects recipients without an address', async () => {
+    await channel.start(config);
+    const result = await channel.send({ channelId: 'email', userId: 'alice' }, { text: 'Hi' });
+    expect(result.success).toBe(false);
+  });
+
+  it('reconnects after the server drops the connection', async () => {
+    await channel.start(config);
+    const received = nextMessage(channel);
+
+    imap.dropConnections();
+    imap.deliver(mail({ body: 'After reconnect' }));
+
+    expect((await received).text).toBe('Hello\n\nAfter reconnect');
+    expect(imap.logins).toHaveLength(2);
+  });
+});
+
+describe('ImapClient', () => {
+  let imap: FakeImapServer;
+  let port: number;
+
+  beforeEach(async () => {
+    imap = new FakeImapServer();
+    port = await imap.listen();
+  });
+
+  afterEach(async () => {
+    await imap.close();
+  });
+
+  it('keeps a quiet connection open while idling past the socket timeout', async () => {
+    const client = new ImapClient({ host: '127.0.0.1', port, secure: false, user: 'bot', timeoutMs: 100 });
+    const closed = vi.fn();
+    client.onClose(closed);
+    await client.connect();
+    await client.select('INBOX');
+
+    await client.idle(300);
+
+    expect(closed).not.toHaveBeenCalled();
+    expect(await client.searchUids('UNSEEN')).toEqual([]);
+    await client.logout();
+  });
+
+  it('upgrades with STARTTLS before logging in', async () => {
+    imap.starttls = true;
+    const client = new ImapClient({ host: '127.0.0.1', port, secure: false, user: 'bot', password: 'secret' });
+
+    await expect(client.connect()).rejects.toThrow('STARTTLS');
+
+    expect(imap.handshakes).toEqual([0x16]);
+    expect(imap.logins).toEqual([]);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * EmailChannel — email channel adapter (IMAP in, SMTP out).
+ *
+ * Implements the IChannel interface with the minimal IMAP/SMTP clients in
+ * email-client.ts. Zero external dependencies.
+ *
+ * Configuration (via ChannelConfig):
+ *   address          — The bot's email address (required); used as From
+ *   fromName         — Display name for From (default: "ch4p")
+ *   imap             — { host, port?, secure?, user?, password?, mailbox? } (required)
+ *   smtp             — { host, port?, secure?, user?, password? } (required)
+ *   allowedSenders   — Addresses or "@domain" entries (empty = allow all)
+ *   authServId       — Only accept mail that your receiving server, which
+ *                      adds Authentication-Results headers under this id,
+ *                      found DKIM- or DMARC-authenticated for the From domain
+ *   idle             — Wait for mail with IMAP IDLE when supported (default: true)
+ *   pollInterval     — Poll interval in ms without IDLE (default: 60000)
+ *   rejectUnauthorized — Verify server certificates (default: true)
+ *   reconnectDelay   — Delay in ms before reconnecting (default: 10000)
+ *
+ * IMAP and SMTP log in as `address` unless `user` is set; SMTP reuses the
+ * IMAP password unless it has its own.
+ *
+ * Supported features:
+ *   - Unread mail in the mailbox is fetched, marked \Seen and delivered
+ *   - Replies thread correctly: In-Reply-To/References are set from the
+ *     message being answered, and the thread root is the Recipient.threadId
+ *   - HTML-only mail is converted to text; quoted history and signatures
+ *     below a reply are stripped
+ *   - Inbound and outbound attachments
+ *   - Mail from autoresponders and mailing lists is ignored
+ *   - Replies go to the From address the allowlist checked, never Reply-To
+ *
+ * Limitations:
+ *   - No editMessage() (sent email can't be changed)
+ *   - Use a dedicated mailbox: every unread message in it is answered
+ */
+
+import { generateId } from '@ch4p/core';
+import type {
+  IChannel,
+  ChannelConfig,
+  Recipient,
+  InboundMessage,
+  OutboundMessage,
+  SendResult,
+  Attachment,
+} from '@ch4p/core';
+import { ImapClient, sendMail, type MailServerOpts } from './email-client.js';
+import { batchAttachments } from './message-utils.js';
+import {
+  buildEmail,
+  parseEmail,
+  stripQuotedReply,
+  type EmailAddress,
+  type EmailAttachment,
+  type ParsedEmail,
+} from './email-mime.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface EmailServerConfig {
+  host: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface EmailConfig extends ChannelConfig {
+  address: string;
+  fromName?: string;
+  imap: EmailServerConfig & { mailbox?: string };
+  smtp: EmailServerConfig;
+  allowedSenders?: string[];
+  authServId?: string;
+  idle?: boolean;
+  pollInterval?: number;
+  rejectUnauthorized?: boolean;
+  reconnectDelay?: number;
+}
+
+/** What a reply to an inbound message needs to thread correctly. */
+interface ThreadInfo {
+  messageId: string;
+  subject: string;
+  references: string[];
+  /** The checked From address. Reply-To is ignored: it could send the answer anyone's way. */
+  sender: EmailAddress;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FROM_NAME = 'ch4p';
+const DEFAULT_MAILBOX = 'INBOX';
+const DEFAULT_POLL_INTERVAL = 60_000;
+const DEFAULT_RECONNECT_DELAY = 10_000;
+/** Re-issue IDLE before servers drop it (RFC 2177 allows them to after 30 minutes). */
+const IDLE_RESTART_MS = 25 * 60_000;
+/** Inbound messages remembered for threading replies. */
+const MAX_TRACKED_MESSAGES = 1000;
+/** Outbound attachment data per mail; base64 adds a third, and servers commonly cap mail at 25 MB. */
+const EMAIL_MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// EmailChannel
+// ---------------------------------------------------------------------------
+
+export class EmailChannel implements IChannel {
+  readonly id = 'email';
+  readonly name = 'Email';
+  readonly maxAttachmentBytes = EMAIL_MAX_ATTACHMENT_BYTES;
+
+  private config: EmailConfig | null = null;
+  private messageHandler: ((msg: InboundMessage) => void) | null = null;
+  private imap: ImapClient | null = null;
+  private stopping = false;
+  private watcher: Promise<void> | null = null;
+  private waitTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeWait: (() => void) | null = null;
+  /** Inbound messages by Message-ID, oldest first. */
+  private threads = new Map<string, ThreadInfo>();
+  /** Latest inbound Message-ID per thread root. */
+  private threadLatest = new Map<string, string>();
+
+  // ---------------------------------------------------------------------------
+  // IChannel lifecycle
+  // ---------------------------------------------------------------------------
+
+  async start(config: ChannelConfig): Promise<void> {
+    const cfg = config as EmailConfig;
+
+    if (!cfg.address || typeof cfg.address !== 'string' || !cfg.address.includes('@')) {
+      throw new Error('EmailChannel requires address in config.');
+    }
+    if (!cfg.imap?.host) {
+      throw new Error('EmailChannel requires imap.host in config.');
+    }
+    if (!cfg.smtp?.host) {
+      throw new Error('EmailChannel requires smtp.host in config.');
+    }
+
+    this.config = cfg;
+    this.stopping = false;
+
+    // Fail start() on bad credentials; later drops reconnect in the background.
+    await this.connectImap();
+    this.watcher = this.watch();
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wakeWait?.();
+    this.imap?.close();
+    this.imap = null;
+    await this.watcher;
+    this.watcher = null;
+
+    this.messageHandler = null;
+    this.threads.clear();
+    this.threadLatest.clear();
+    this.config = null;
+  }
+
+  onMessage(handler: (msg: InboundMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  async send(to: Recipient, message: OutboundMessage): Promise<SendResult> {
+    if (!this.config) {
+      return { success: false, error: 'EmailChannel not started.' };
+    }
+
+    const latest = to.threadId ? this.threadLatest.get(to.threadId) : undefined;
+    const thread = (message.replyTo ? this.threads.get(message.replyTo) : undefined)
+      ?? (latest ? this.threads.get(latest) : undefined);
+    const address = thread?.sender.address ?? to.userId;
+    if (!address?.includes('@')) {
+      return { success: false, error: 'Recipient must have an email address as userId.' };
+    }
+
+    // Attachments without data can only be linked.
+    const attachments: EmailAttachment[] = [];
+    const links: string[] = [];
+    for (const att of message.attachments ?? []) {
+      if (att.data) {
+        attachments.push({
+          filename: att.filename,
+          mimeType: att.mimeType ?? 'application/octet-stream',
+          data: att.data,
+        });
+      } else if (att.url) {
+        links.push(att.url);
+      }
+    }
+    const text = links.length > 0 ? `${message.text}\n\n${links.join('\n')}` : message.text;
+
+    // Servers cap the whole message, so attachments beyond the limit follow
+    // in further mails on the same thread.
+    const batches = batchAttachments(attachments, Infinity, EMAIL_MAX_ATTACHMENT_BYTES);
+    const domain = this.config.address.split('@')[1];
+    const subject = thread ? replySubject(thread.subject) : `Message from ${this.config.fromName ?? DEFAULT_FROM_NAME}`;
+    const messageId = `<${generateId()}@${domain}>`;
+    let inReplyTo = thread?.messageId;
+    let references = thread ? [...thread.references, thread.messageId] : [];
+
+    try {
+      for (let i = 0; i < Math.max(batches.length, 1); i++) {
+        const id = i === 0 ? messageId : `<${generateId()}@${domain}>`;
+        const mail = buildEmail({
+          from: { name: this.config.fromName ?? DEFAULT_FROM_NAME, address: this.config.address },
+          to: [thread?.sender ?? { address }],
+          subject: i === 0 ? subject : replySubject(subject),
+          text: i === 0 ? text : `Attachments, part ${i + 1} of ${batches.length}.`,
+          messageId: id,
+          inReplyTo,
+          references: references.length > 0 ? references : undefined,
+          attachments: batches[i] ?? [],
+        });
+        await sendMail(this.serverOpts('smtp'), { from: this.config.address, to: [address] }, mail);
+        inReplyTo = id;
+        references = [...references, id];
+      }
+      return { success: true, messageId };
+    } catch (err) {
+      return { success: false, error: `Email send failed: ${(err as Error).message}` };
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.imap !== null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mailbox watching
+  // ---------------------------------------------------------------------------
+
+  private async connectImap(): Promise<void> {
+    const client = new ImapClient(this.serverOpts('imap'));
+    client.onClose(() => {
+      if (this.imap === client) this.imap = null;
+    });
+    try {
+      await client.connect();
+      await client.select(this.config?.imap.mailbox ?? DEFAULT_MAILBOX);
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+    this.imap = client;
+  }
+
+  /** Fetch new mail, then wait for more (IDLE or polling) until stopped. */
+  private async watch(): Promise<void> {
+    while (!this.stopping && this.config) {
+      try {
+        if (!this.imap) await this.connectImap();
+        const imap = this.imap!;
+        await this.fetchUnread(imap);
+
+        if (this.config.idle !== false && imap.capabilities.has('IDLE')) {
+          await imap.idle(IDLE_RESTART_MS);
+        } else {
+          await this.wait(this.config.pollInterval ?? DEFAULT_POLL_INTERVAL);
+        }
+      } catch {
+        if (this.stopping || !this.config) break;
+        this.imap?.close();
+        this.imap = null;
+        await this.wait(this.config.reconnectDelay ?? DEFAULT_RECONNECT_DELAY);
+      }
+    }
+  }
+
+  private async fetchUnread(imap: ImapClient): Promise<void> {
+    const uids = await imap.searchUids('UNSEEN');
+    for (const uid of uids.sort((a, b) => a - b)) {
+      const raw = await imap.fetchMessage(uid);
+      // Mark it read before handling, so a failure can't answer it twice.
+      await imap.addFlags(uid, ['\\Seen']);
+      if (raw) this.handleMail(raw, uid);
+    }
+  }
+
+  private handleMail(raw: Buffer, uid: number): void {
+    if (!this.config || !this.messageHandler) return;
+
+    const mail = parseEmail(raw);
+    if (!mail.from) return;
+    // Never answer our own mail, autoresponders or lists: that's how mail loops start.
+    if (mail.from.address === this.config.address.toLowerCase() || mail.automated) return;
+    if (!this.isAllowed(mail.from.address) || !this.isAuthenticated(mail)) return;
+
+    const messageId = mail.messageId ?? `<${generateId()}@ch4p.invalid>`;
+    const references = mail.references.length > 0
+      ? mail.references
+      : (mail.inReplyTo ? [mail.inReplyTo] : []);
+    const threadId = references[0] ?? messageId;
+    this.track({ messageId, subject: mail.subject, references, sender: mail.from }, threadId);
+
+    const body = stripQuotedReply(mail.text);
+    // The subject often carries the request when a conversation starts.
+    const text = mail.subject && !mail.inReplyTo ? `${mail.subject}\n\n${body}` : body;
+    const attachments: Attachment[] = mail.attachments.map((att) => ({
+      type: attachmentType(att.mimeType),
+      data: att.data,
+      mimeType: att.mimeType,
+      filename: att.filename,
+    }));
+
+    const inbound: InboundMessage = {
+      id: messageId,
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId: mail.from.address,
+        threadId,
+      },
+      text,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      timestamp: mail.date ?? new Date(),
+      raw: { uid, messageId, subject: mail.subject },
+    };
+
+    this.messageHandler(inbound);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private isAllowed(address: string): boolean {
+    const allowed = this.config?.allowedSenders ?? [];
+    if (allowed.length === 0) return true;
+    return allowed.some((entry) => {
+      const rule = entry.toLowerCase();
+      return rule.startsWith('@') ? address.endsWith(rule) : address === rule;
+    });
+  }
+
+  /**
+   * With authServId set, From is trusted only on a DMARC pass, or a DKIM
+   * pass for its domain, in the header our own server added. Anyone can
+   * write an Authentication-Results header under another id.
+   */
+  private isAuthenticated(mail: ParsedEmail): boolean {
+    const servId = this.config?.authServId?.toLowerCase();
+    if (!servId) return true;
+    const domain = mail.from?.address.split('@')[1] ?? '';
+    const header = mail.authResults.find((h) => h.authservId === servId);
+    return header?.results.some(({ method, result, props }) => {
+      if (result !== 'pass') return false;
+      if (method === 'dmarc') return (props['header.from'] ?? domain) === domain;
+      if (method !== 'dkim') return false;
+      const signer = props['header.d'] ?? props['header.i']?.split('@').pop();
+      return signer !== undefined && (domain === signer || domain.endsWith(`.${signer}`));
+    }) ?? false;
+  }
+
+  private track(info: ThreadInfo, threadId: string): void {
+    this.threads.set(info.messageId, info);
+    this.threadLatest.set(threadId, info.messageId);
+    if (this.threads.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.threads.keys().next().value!;
+      this.threads.delete(oldest);
+    }
+    if (this.threadLatest.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.threadLatest.keys().next().value!;
+      this.threadLatest.delete(oldest);
+    }
+  }
+
+  private serverOpts(kind: 'imap' | 'smtp'): MailServerOpts {
+    const cfg = this.config!;
+    const server = cfg[kind];
+    const secure = server.secure !== false;
+    const defaultPort = kind === 'imap' ? (secure ? 993 : 143) : (secure ? 465 : 587);
+    return {
+      host: server.host,
+      port: server.port ?? defaultPort,
+      secure,
+      user: server.user ?? cfg.address,
+      password: server.password ?? cfg.imap.password,
+      rejectUnauthorized: cfg.rejectUnauthorized,
+    };
+  }
+
+  /** Sleep that stop() can cut short. */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.waitTimer = setTimeout(() => {
+        this.wakeWait = null;
+        resolve();
+      }, ms);
+      this.wakeWait = () => {
+        if (this.waitTimer) clearTimeout(this.waitTimer);
+        this.waitTimer = null;
+        this.wakeWait = null;
+        resolve();
+      };
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function replySubject(subject: string): string {
+  if (!subject) return 'Re: your message';
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+function attachmentType(mimeType: string): Attachment['type'] {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'file';
+}
@@ -7,6 +7,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { IMessageChannel, buildTapbackScript, JXA_MSG_AREA_PATH, JXA_MSG_AREA_ALT } from './imessage.js';
 
 // ---------------------------------------------------------------------------
@@ -991,6 +994,40 @@ describe('IMessageChannel', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // fetchAttachment()
+  // -------------------------------------------------------------------------
+
+  describe('fetchAttachment()', () => {
+    const originalHome = process.env.HOME;
+    let home: string;
+
+    beforeEach(() => {
+      home = mkdtempSync(join(tmpdir(), 'imessage-home-'));
+      process.env.HOME = home;
+      mkdirSync(join(home, 'Library', 'Messages', 'Attachments', 'ab'), { recursive: true });
+      writeFileSync(join(home, 'Library', 'Messages', 'Attachments', 'ab', 'IMG 1.txt'), 'hello');
+      writeFileSync(join(home, 'secret.txt'), 'nope');
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      rmSync(home, { recursive: true, force: true });
+    });
+
+    it('reads files from the Messages attachment store', async () => {
+      const url = `file://${home}/Library/Messages/Attachments/ab/IMG 1.txt`;
+      expect((await channel.fetchAttachment({ type: 'file', url }, 1024)).toString()).toBe('hello');
+      await expect(channel.fetchAttachment({ type: 'file', url }, 2)).rejects.toThrow(/exceeds 2 bytes/);
+    });
+
+    it('refuses paths outside the attachment store', async () => {
+      const url = `file://${home}/Library/Messages/Attachments/../../../secret.txt`;
+      await expect(channel.fetchAttachment({ type: 'file', url }, 1024)).rejects.toThrow(/outside/);
+      await expect(channel.fetchAttachment({ type: 'file', url: 'https://x/y' }, 1024)).rejects.toThrow(/Not a local/);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Timestamp conversion
   // -------------------------------------------------------------------------
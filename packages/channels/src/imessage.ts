@@ -39,7 +39,9 @@ import type {
 } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
 import { execFile as execFileCb } from 'node:child_process';
+import { readFile, stat } from 'node:fs/promises';
 import { homedir } from 'node:os';
+import { join, resolve, sep } from 'node:path';
 import { promisify } from 'node:util';
 
 const execFile = promisify(execFileCb);
@@ -448,6 +450,24 @@ export class IMessageChannel implements IChannel {
     }
   }
 
+  /**
+   * Read an inbound attachment from disk. Only files under Messages'
+   * attachment store are readable, whatever the file:// URL says.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    if (!attachment.url?.startsWith('file://')) throw new Error('Not a local attachment');
+
+    // Built unencoded from chat.db paths (see fetchAttachments), so strip the
+    // scheme rather than URL-decoding; resolve() collapses any '..'.
+    const path = resolve(attachment.url.slice('file://'.length));
+    const root = join(homedir(), 'Library', 'Messages', 'Attachments') + sep;
+    if (!path.startsWith(root)) throw new Error('Attachment is outside the Messages attachment store');
+
+    const info = await stat(path);
+    if (info.size > maxBytes) throw new Error(`Attachment exceeds ${maxBytes} bytes`);
+    return readFile(path);
+  }
+
   // -----------------------------------------------------------------------
   // Polling
   // -----------------------------------------------------------------------
@@ -9,6 +9,10 @@ export { DiscordChannel, DiscordIntents } from './discord.js';
 export type { DiscordConfig } from './discord.js';
 export { SlackChannel } from './slack.js';
 export type { SlackConfig } from './slack.js';
+export { MattermostChannel } from './mattermost.js';
+export type { MattermostConfig } from './mattermost.js';
+export { RocketChatChannel } from './rocketchat.js';
+export type { RocketChatConfig } from './rocketchat.js';
 export { MatrixChannel } from './matrix.js';
 export type { MatrixConfig } from './matrix.js';
 export { WhatsAppChannel } from './whatsapp.js';
@@ -31,6 +35,8 @@ export { WebChatChannel } from './webchat.js';
 export type { WebChatConfig } from './webchat.js';
 export { IrcChannel } from './irc.js';
 export type { IrcConfig } from './irc.js';
+export { EmailChannel } from './email.js';
+export type { EmailConfig, EmailServerConfig } from './email.js';
 export { MacOSChannel } from './macos.js';
 export type { MacOSConfig } from './macos.js';
 
@@ -11,10 +11,13 @@
  *   - /account/whoami      — resolve bot user ID
  *   - /sync                — long-poll event loop
  *   - /rooms/:id/send      — send room events
+ *   - /rooms/:id/typing    — typing notifications
+ *   - /rooms/:id/receipt   — read receipts
  *   - /join/:id            — join rooms on invite
  */
 
 import { EventEmitter } from 'node:events';
+import { readResponseBody } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -126,6 +129,90 @@ export class MinimalMatrixClient extends EventEmitter {
     return res.event_id as string;
   }
 
+  /** Annotate an event with a reaction. Returns the reaction's event ID. */
+  async sendReaction(roomId: string, eventId: string, key: string): Promise<string> {
+    const txnId = `ch4p_react_${Date.now()}_${this.txnCounter++}`;
+    const encoded = encodeURIComponent(roomId);
+    const res = await this.api(
+      'PUT',
+      `/_matrix/client/v3/rooms/${encoded}/send/m.reaction/${txnId}`,
+      { 'm.relates_to': { rel_type: 'm.annotation', event_id: eventId, key } },
+    );
+    return res.event_id as string;
+  }
+
+  /** Show `userId` as typing in the room for `timeoutMs`. */
+  async setTyping(roomId: string, userId: string, timeoutMs: number): Promise<void> {
+    const room = encodeURIComponent(roomId);
+    const user = encodeURIComponent(userId);
+    await this.api('PUT', `/_matrix/client/v3/rooms/${room}/typing/${user}`, { typing: true, timeout: timeoutMs });
+  }
+
+  /** Mark the room as read up to and including `eventId`. */
+  async sendReadReceipt(roomId: string, eventId: string): Promise<void> {
+    const room = encodeURIComponent(roomId);
+    const event = encodeURIComponent(eventId);
+    await this.api('POST', `/_matrix/client/v3/rooms/${room}/receipt/m.read/${event}`, {});
+  }
+
+  /**
+   * Download the content behind an mxc:// URI. Uses authenticated media
+   * (spec v1.11) and falls back to the legacy unauthenticated endpoint on
+   * servers that don't support it.
+   */
+  async downloadMedia(mxcUri: string, maxBytes: number): Promise<Buffer> {
+    const m = mxcUri.match(/^mxc:\/\/([^/]+)\/([^/?#]+)$/);
+    if (!m) throw new Error(`Not an mxc:// URI: ${mxcUri}`);
+    const path = `${encodeURIComponent(m[1]!)}/${encodeURIComponent(m[2]!)}`;
+
+    const get = (url: string) => fetch(url, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+      signal: this.abortController?.signal,
+    });
+
+    let res = await get(`${this.homeserverUrl}/_matrix/client/v1/media/download/${path}`);
+    if (res.status === 404 || res.status === 400) {
+      await res.body?.cancel().catch(() => {});
+      res = await get(`${this.homeserverUrl}/_matrix/media/v3/download/${path}`);
+    }
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => {});
+      throw new Error(`Matrix media download failed (${res.status})`);
+    }
+    return readResponseBody(res, maxBytes);
+  }
+
+  /** Upload content to the media repository and return its mxc:// URI. */
+  async uploadMedia(data: Buffer, mimeType: string, filename: string): Promise<string> {
+    const res = await fetch(
+      `${this.homeserverUrl}/_matrix/media/v3/upload?filename=${encodeURIComponent(filename)}`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': mimeType },
+        body: data,
+        signal: this.abortController?.signal,
+      },
+    );
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Matrix media upload failed (${res.status}): ${text}`);
+    }
+    return ((await res.json()) as { content_uri: string }).content_uri;
+  }
+
+  /** The homeserver's upload size limit (m.upload.size), if it advertises one. */
+  async getMaxUploadSize(): Promise<number | undefined> {
+    for (const path of ['/_matrix/client/v1/media/config', '/_matrix/media/v3/config']) {
+      try {
+        const size = (await this.api('GET', path))['m.upload.size'];
+        return typeof size === 'number' ? size : undefined;
+      } catch {
+        // Older servers only serve the legacy endpoint.
+      }
+    }
+    return undefined;
+  }
+
   /** Join a room by ID or alias. */
   async joinRoom(roomId: string): Promise<void> {
     const encoded = encodeURIComponent(roomId);
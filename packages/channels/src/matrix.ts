@@ -19,6 +19,7 @@
  *   - Room and user filtering whitelists
  *   - Auto-join room invitations
  *   - Typing indicator presence events
+ *   - Outbound typing notifications, reactions and read receipts
  */
 
 import type {
@@ -67,6 +68,9 @@ interface MatrixMessageContent {
   };
 }
 
+/** How long a typing notification lasts; the gateway renews it while working. */
+const MATRIX_TYPING_TIMEOUT_MS = 6_000;
+
 // ---------------------------------------------------------------------------
 // MatrixChannel
 // ---------------------------------------------------------------------------
@@ -74,6 +78,8 @@ interface MatrixMessageContent {
 export class MatrixChannel implements IChannel {
   readonly id = 'matrix';
   readonly name = 'Matrix';
+  /** Synapse's default; replaced by the homeserver's advertised limit on start. */
+  maxAttachmentBytes = 50 * 1024 * 1024;
 
   private client: MinimalMatrixClient | null = null;
   private messageHandler: ((msg: InboundMessage) => void) | null = null;
@@ -127,6 +133,11 @@ export class MatrixChannel implements IChannel {
     // Resolve the bot's own user ID to ignore our own messages.
     this.botUserId = await this.client.getUserId();
 
+    // Outbound attachments are capped at the homeserver's upload limit.
+    void this.client.getMaxUploadSize().then((size) => {
+      if (size) this.maxAttachmentBytes = size;
+    });
+
     // Register room message handler.
     this.client.on('room.message', (roomId: string, event: MatrixEvent) => {
       this.processEvent(roomId, event as unknown as { event_id: string; type: string; sender: string; room_id: string; origin_server_ts: number; content: MatrixMessageContent });
@@ -241,6 +252,27 @@ export class MatrixChannel implements IChannel {
     }
   }
 
+  async setTyping(to: Recipient): Promise<void> {
+    const roomId = to.groupId ?? to.userId;
+    if (!roomId) throw new Error('Recipient must have groupId (room ID) or userId');
+    if (!this.client || !this.botUserId) throw new Error('Matrix client is not running');
+    await this.client.setTyping(roomId, this.botUserId, MATRIX_TYPING_TIMEOUT_MS);
+  }
+
+  async react(to: Recipient, messageId: string, emoji: string): Promise<void> {
+    const roomId = to.groupId ?? to.userId;
+    if (!roomId) throw new Error('Recipient must have groupId (room ID) or userId');
+    if (!this.client) throw new Error('Matrix client is not running');
+    await this.client.sendReaction(roomId, messageId, emoji);
+  }
+
+  async markRead(to: Recipient, messageId: string): Promise<void> {
+    const roomId = to.groupId ?? to.userId;
+    if (!roomId) throw new Error('Recipient must have groupId (room ID) or userId');
+    if (!this.client) throw new Error('Matrix client is not running');
+    await this.client.sendReadReceipt(roomId, messageId);
+  }
+
   onMessage(handler: (msg: InboundMessage) => void): void {
     this.messageHandler = handler;
   }
@@ -260,6 +292,12 @@ export class MatrixChannel implements IChannel {
     }
   }
 
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    if (!this.client) throw new Error('Matrix channel not started');
+    if (!attachment.url) throw new Error('Attachment has no mxc:// URI');
+    return this.client.downloadMedia(attachment.url, maxBytes);
+  }
+
   // -----------------------------------------------------------------------
   // Event processing
   // -----------------------------------------------------------------------
@@ -357,14 +395,18 @@ export class MatrixChannel implements IChannel {
       att.type === 'audio' ? 'm.audio' :
         att.type === 'video' ? 'm.video' : 'm.file';
 
-    const content: Record<string, unknown> = {
-      msgtype,
-      body: att.filename ?? 'attachment',
-      url: att.url ?? '',
-    };
+    const body = att.filename ?? 'attachment';
+    const url = att.data
+      ? await this.client.uploadMedia(att.data, att.mimeType ?? 'application/octet-stream', body)
+      : att.url ?? '';
 
-    if (att.mimeType) {
-      content.info = { mimetype: att.mimeType };
+    const content: Record<string, unknown> = { msgtype, body, url };
+
+    if (att.mimeType || att.data) {
+      content.info = {
+        ...(att.mimeType ? { mimetype: att.mimeType } : {}),
+        ...(att.data ? { size: att.data.length } : {}),
+      };
     }
 
     await this.client.sendMessage(roomId, content);
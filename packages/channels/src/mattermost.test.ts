@@ -0,0 +1,331 @@
+/**
+ * MattermostChannel tests.
+ *
+ * Runs the channel against a stand-in Mattermost server on localhost that
+ * serves the REST routes the adapter uses and the WebSocket event stream.
+ */
+
+import { vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { InboundMessage } from '@ch4p/core';
+import { MattermostChannel } from './mattermost.js';
+
+// ---------------------------------------------------------------------------
+// Stand-in Mattermost server
+// ---------------------------------------------------------------------------
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  auth?: string;
+  body: Buffer;
+}
+
+class FakeMattermost {
+  readonly requests: RecordedRequest[] = [];
+  readonly files = new Map<string, Buffer>();
+  token = 'bot-token';
+  private server: Server = createServer((req, res) => this.handle(req, res));
+  private wss = new WebSocketServer({ server: this.server, path: '/api/v4/websocket' });
+  private sockets = new Set<WebSocket>();
+  private nextId = 1;
+  url = '';
+
+  constructor() {
+    this.wss.on('connection', (ws) => {
+      ws.on('message', (data) => {
+        const frame = JSON.parse(data.toString()) as { seq: number; action: string; data: { token: string } };
+        if (frame.action !== 'authentication_challenge') return;
+        if (frame.data.token === this.token) {
+          this.sockets.add(ws);
+          ws.on('close', () => this.sockets.delete(ws));
+          ws.send(JSON.stringify({ status: 'OK', seq_reply: frame.seq }));
+          ws.send(JSON.stringify({ event: 'hello', data: {}, broadcast: {}, seq: 0 }));
+        } else {
+          ws.send(JSON.stringify({ status: 'FAIL', seq_reply: frame.seq, error: { message: 'invalid token' } }));
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async close(): Promise<void> {
+    for (const ws of this.wss.clients) ws.terminate();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /** Cut every WebSocket connection, as a server restart would. */
+  dropConnections(): void {
+    for (const ws of this.sockets) ws.terminate();
+  }
+
+  /** Broadcast a WebSocket event to connected clients. */
+  emit(event: string, data: Record<string, unknown>, channelId: string): void {
+    const frame = JSON.stringify({ event, data, broadcast: { channel_id: channelId }, seq: 1 });
+    for (const ws of this.sockets) ws.send(frame);
+  }
+
+  /** Broadcast a `posted` event for a post. */
+  post(post: Record<string, unknown>, channelType = 'O'): void {
+    const full = { id: `p${this.nextId++}`, create_at: 1_700_000_000_000, type: '', ...post };
+    this.emit('posted', { post: JSON.stringify(full), channel_type: channelType }, full.channel_id as string);
+  }
+
+  bodies(path: string): unknown[] {
+    return this.requests
+      .filter((r) => r.path === path)
+      .map((r) => JSON.parse(r.body.toString()) as unknown);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = (req.url ?? '').replace(/^\/api\/v4/, '');
+      const body = Buffer.concat(chunks);
+      this.requests.push({ method: req.method ?? '', path, auth: req.headers.authorization, body });
+
+      const json = (status: number, value: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(value));
+      };
+
+      if (req.headers.authorization !== `Bearer ${this.token}`) {
+        json(401, { message: 'Invalid or expired session' });
+        return;
+      }
+
+      if (req.method === 'GET' && path === '/users/me') {
+        json(200, { id: 'bot-user', username: 'ch4p' });
+      } else if (req.method === 'POST' && path === '/posts') {
+        const post = JSON.parse(body.toString()) as { message: string };
+        if (post.message === 'fail') json(400, { message: 'Invalid post' });
+        else json(201, { id: `sent${this.nextId++}`, ...post });
+      } else if (req.method === 'PUT' && /^\/posts\/[^/]+\/patch$/.test(path)) {
+        json(200, { id: path.split('/')[2] });
+      } else if (req.method === 'POST' && path === '/channels/direct') {
+        const ids = JSON.parse(body.toString()) as string[];
+        json(201, { id: `dm-${ids.join('-')}` });
+      } else if (req.method === 'POST' && path === '/files') {
+        const id = `f${this.nextId++}`;
+        this.files.set(id, body);
+        json(201, { file_infos: [{ id, name: 'upload', mime_type: 'application/octet-stream', size: body.length }] });
+      } else if (req.method === 'GET' && path.startsWith('/files/')) {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(Buffer.from('file-bytes'));
+      } else {
+        json(404, { message: 'Not found' });
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MattermostChannel', () => {
+  let server: FakeMattermost;
+  let channel: MattermostChannel;
+  let received: InboundMessage[];
+
+  beforeEach(async () => {
+    server = new FakeMattermost();
+    await server.listen();
+    channel = new MattermostChannel();
+    received = [];
+    channel.onMessage((msg) => received.push(msg));
+  });
+
+  afterEach(async () => {
+    await channel.stop();
+    await server.close();
+  });
+
+  const start = (extra: Record<string, unknown> = {}) =>
+    channel.start({ serverUrl: `${server.url}/`, token: 'bot-token', ...extra });
+
+  it('has correct id, name and attachment limit', () => {
+    expect(channel.id).toBe('mattermost');
+    expect(channel.name).toBe('Mattermost');
+    expect(channel.maxAttachmentBytes).toBe(100 * 1024 * 1024);
+  });
+
+  it('requires serverUrl and token', async () => {
+    await expect(channel.start({ token: 'x' })).rejects.toThrow(/serverUrl/);
+    await expect(channel.start({ serverUrl: server.url })).rejects.toThrow(/token/);
+  });
+
+  it('rejects a bad token', async () => {
+    await expect(start({ token: 'wrong' })).rejects.toThrow(/Invalid or expired session/);
+  });
+
+  it('connects and reports healthy', async () => {
+    await start();
+    expect(server.connections).toBe(1);
+    expect(await channel.isHealthy()).toBe(true);
+    await channel.stop();
+    expect(await channel.isHealthy()).toBe(false);
+  });
+
+  it('delivers posts with their thread and files', async () => {
+    await start();
+    server.post({
+      user_id: 'u1',
+      channel_id: 'c1',
+      root_id: 'root1',
+      message: 'hello',
+      metadata: { files: [{ id: 'file1', name: 'a.png', mime_type: 'image/png', size: 3 }] },
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const msg = received[0]!;
+    expect(msg.channelId).toBe('mattermost');
+    expect(msg.text).toBe('hello');
+    expect(msg.from).toEqual({ channelId: 'mattermost', userId: 'u1', groupId: 'c1', threadId: 'root1', isDirect: false });
+    expect(msg.replyTo).toBe('root1');
+    expect(msg.timestamp.getTime()).toBe(1_700_000_000_000);
+    expect(msg.attachments).toEqual([
+      { type: 'image', url: `${server.url}/api/v4/files/file1`, filename: 'a.png', mimeType: 'image/png' },
+    ]);
+  });
+
+  it('marks posts in a direct message channel as direct', async () => {
+    await start();
+    server.post({ user_id: 'u1', channel_id: 'dm1', message: 'hi' }, 'D');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]!.from).toMatchObject({ groupId: 'dm1', isDirect: true });
+  });
+
+  it('ignores its own posts, bots, system posts and disallowed senders', async () => {
+    await start({ allowedChannels: ['c1'], allowedUsers: ['u1'] });
+    server.post({ user_id: 'bot-user', channel_id: 'c1', message: 'own' });
+    server.post({ user_id: 'u1', channel_id: 'c1', message: 'bot', props: { from_bot: 'true' } });
+    server.post({ user_id: 'u1', channel_id: 'c1', message: 'joined', type: 'system_join_channel' });
+    server.post({ user_id: 'u2', channel_id: 'c1', message: 'stranger' });
+    server.post({ user_id: 'u1', channel_id: 'c2', message: 'elsewhere' });
+    server.post({ user_id: 'u1', channel_id: 'c1', message: 'ok' });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]!.text).toBe('ok');
+  });
+
+  it('emits typing presence', async () => {
+    const presence = vi.fn();
+    channel.onPresence(presence);
+    await start();
+    server.emit('typing', { user_id: 'u1', parent_id: '' }, 'c1');
+
+    await vi.waitFor(() => expect(presence).toHaveBeenCalledWith({ userId: 'u1', status: 'typing', channelId: 'c1' }));
+  });
+
+  it('replies in the thread, or under the answered post', async () => {
+    await start();
+    const inThread = await channel.send(
+      { channelId: 'mattermost', groupId: 'c1', threadId: 'root1' },
+      { text: 'in thread', replyTo: 'p9' },
+    );
+    await channel.send({ channelId: 'mattermost', groupId: 'c1' }, { text: 'top level', replyTo: 'p9' });
+
+    expect(inThread.success).toBe(true);
+    expect(inThread.messageId).toMatch(/^sent/);
+    expect(server.bodies('/posts')).toEqual([
+      { channel_id: 'c1', message: 'in thread', root_id: 'root1' },
+      { channel_id: 'c1', message: 'top level', root_id: 'p9' },
+    ]);
+  });
+
+  it('opens a direct channel for a user recipient once', async () => {
+    await start();
+    await channel.send({ channelId: 'mattermost', userId: 'u1' }, { text: 'one' });
+    await channel.send({ channelId: 'mattermost', userId: 'u1' }, { text: 'two' });
+
+    expect(server.bodies('/channels/direct')).toEqual([['bot-user', 'u1']]);
+    expect(server.bodies('/posts').map((b) => (b as { channel_id: string }).channel_id))
+      .toEqual(['dm-bot-user-u1', 'dm-bot-user-u1']);
+  });
+
+  it('splits long messages', async () => {
+    await start();
+    await channel.send({ channelId: 'mattermost', groupId: 'c1' }, { text: 'x'.repeat(20_000) });
+    expect(server.bodies('/posts')).toHaveLength(2);
+  });
+
+  it('reports send failures', async () => {
+    await start();
+    const result = await channel.send({ channelId: 'mattermost', groupId: 'c1' }, { text: 'fail' });
+    expect(result).toEqual({ success: false, error: 'Mattermost post failed: Invalid post' });
+    expect((await channel.send({ channelId: 'mattermost' }, { text: 'x' })).success).toBe(false);
+  });
+
+  it('edits posts for streaming, rate limited', async () => {
+    await start({ streamMode: 'edit' });
+    expect(channel.getStreamMode()).toBe('edit');
+
+    const to = { channelId: 'mattermost', groupId: 'c1' };
+    expect(await channel.editMessage(to, 'sent1', { text: 'partial' })).toEqual({ success: true, messageId: 'sent1' });
+    expect(await channel.editMessage(to, 'sent1', { text: 'more' })).toEqual({ success: true, messageId: 'sent1' });
+
+    const patches = server.requests.filter((r) => r.method === 'PUT');
+    expect(patches).toHaveLength(1);
+    expect(patches[0]!.path).toBe('/posts/sent1/patch');
+    expect(JSON.parse(patches[0]!.body.toString())).toEqual({ message: 'partial' });
+  });
+
+  it('uploads attachment data and links URL-only attachments', async () => {
+    await start();
+    const result = await channel.send(
+      { channelId: 'mattermost', groupId: 'c1', threadId: 'root1' },
+      {
+        text: 'files',
+        attachments: [
+          { type: 'file', data: Buffer.from('report-bytes'), filename: 'report.txt', mimeType: 'text/plain' },
+          { type: 'image', url: 'https://example.com/cat.png', filename: 'cat.png' },
+        ],
+      },
+    );
+
+    expect(result.success).toBe(true);
+    const upload = server.requests.find((r) => r.path === '/files')!;
+    expect(upload.body.toString()).toContain('report-bytes');
+    expect(upload.body.toString()).toContain('name="channel_id"');
+
+    const posts = server.bodies('/posts') as Array<Record<string, unknown>>;
+    expect(posts).toHaveLength(3);
+    expect(posts[1]).toMatchObject({ channel_id: 'c1', root_id: 'root1', file_ids: [[...server.files.keys()][0]] });
+    expect(posts[2]).toMatchObject({ message: '📎 cat.png: https://example.com/cat.png', root_id: 'root1' });
+  });
+
+  it('downloads files from its own server only', async () => {
+    await start();
+    const data = await channel.fetchAttachment({ type: 'file', url: `${server.url}/api/v4/files/file1` }, 1024);
+    expect(data.toString()).toBe('file-bytes');
+    expect(server.requests.at(-1)!.auth).toBe('Bearer bot-token');
+
+    await expect(channel.fetchAttachment({ type: 'file', url: 'https://evil.example.com/api/v4/files/x' }, 1024))
+      .rejects.toThrow(/Not a Mattermost file URL/);
+  });
+
+  it('reconnects after the server drops the connection', async () => {
+    await start();
+    server.dropConnections();
+    await vi.waitFor(() => expect(server.connections).toBe(0));
+
+    await vi.waitFor(() => expect(server.connections).toBe(1), { timeout: 5_000 });
+    server.post({ user_id: 'u1', channel_id: 'c1', message: 'after reconnect' });
+    await vi.waitFor(() => expect(received.map((m) => m.text)).toEqual(['after reconnect']));
+  });
+});
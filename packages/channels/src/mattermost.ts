@@ -0,0 +1,560 @@
+/**
+ * MattermostChannel — Mattermost bot channel adapter.
+ *
+ * Implements the IChannel interface for Mattermost using the REST API v4
+ * (for sending) and the WebSocket event stream (for receiving). Uses raw
+ * fetch() and the `ws` package — no Mattermost SDK.
+ *
+ * Configuration (via ChannelConfig):
+ *   serverUrl       — Mattermost server URL, e.g. https://chat.example.com (required)
+ *   token           — Bot or personal access token (required)
+ *   allowedChannels — Array of allowed channel IDs (empty = allow all)
+ *   allowedUsers    — Array of allowed user IDs (empty = allow all)
+ *   streamMode      — 'off' | 'edit' | 'block' (default: 'off')
+ *
+ * Supported features:
+ *   - Text message receiving and sending
+ *   - Threads via root_id (mapped to Recipient.threadId)
+ *   - Message editing for progressive streaming
+ *   - File attachments in both directions
+ *   - Typing indicators (presence events)
+ *   - Automatic reconnect with exponential backoff
+ */
+
+import type {
+  IChannel,
+  ChannelConfig,
+  Recipient,
+  InboundMessage,
+  OutboundMessage,
+  SendResult,
+  PresenceEvent,
+  Attachment,
+} from '@ch4p/core';
+import { readResponseBody } from '@ch4p/core';
+import WebSocket from 'ws';
+import { splitMessage, truncateMessage, evictOldTimestamps } from './message-utils.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MattermostConfig extends ChannelConfig {
+  serverUrl: string;
+  token: string;
+  allowedChannels?: string[];
+  allowedUsers?: string[];
+  streamMode?: 'off' | 'edit' | 'block';
+}
+
+// Server default for MaxPostSize is 16383 characters.
+const MM_MAX_MESSAGE_LEN = 16_000;
+const MM_EDIT_RATE_LIMIT_MS = 1_000;
+const MM_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+const MM_MAX_FILES_PER_POST = 5;
+
+const MM_RECONNECT_BASE_MS = 1_000;
+const MM_RECONNECT_MAX_MS = 60_000;
+const MM_CONNECT_TIMEOUT_MS = 30_000;
+
+/** Minimal Mattermost post. */
+interface MattermostPost {
+  id: string;
+  create_at: number;
+  user_id: string;
+  channel_id: string;
+  root_id?: string;
+  message: string;
+  type?: string;
+  file_ids?: string[];
+  props?: Record<string, unknown>;
+  metadata?: {
+    files?: MattermostFileInfo[];
+  };
+}
+
+/** Minimal Mattermost file info. */
+interface MattermostFileInfo {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+}
+
+/** WebSocket event frame. */
+interface MattermostEvent {
+  event?: string;
+  data?: Record<string, unknown>;
+  broadcast?: {
+    channel_id?: string;
+    user_id?: string;
+  };
+  seq?: number;
+  // Replies to actions we sent (authentication_challenge).
+  status?: string;
+  seq_reply?: number;
+  error?: { message?: string };
+}
+
+// ---------------------------------------------------------------------------
+// MattermostChannel
+// ---------------------------------------------------------------------------
+
+export class MattermostChannel implements IChannel {
+  readonly id = 'mattermost';
+  readonly name = 'Mattermost';
+  readonly maxAttachmentBytes = MM_MAX_UPLOAD_BYTES;
+
+  private apiBase = '';
+  private token = '';
+  private streamMode: 'off' | 'edit' | 'block' = 'off';
+  private messageHandler: ((msg: InboundMessage) => void) | null = null;
+  private presenceHandler: ((event: PresenceEvent) => void) | null = null;
+  private running = false;
+  private ws: WebSocket | null = null;
+  private botUserId: string | null = null;
+  private allowedChannels: Set<string> = new Set();
+  private allowedUsers: Set<string> = new Set();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private directChannels = new Map<string, string>();
+  private lastEditTimestamps = new Map<string, number>();
+  private static readonly EDIT_TS_MAX_ENTRIES = 500;
+
+  // -----------------------------------------------------------------------
+  // IChannel implementation
+  // -----------------------------------------------------------------------
+
+  async start(config: ChannelConfig): Promise<void> {
+    if (this.running) return;
+
+    const cfg = config as MattermostConfig;
+    if (!cfg.serverUrl) {
+      throw new Error('Mattermost channel requires a "serverUrl" in config');
+    }
+    if (!cfg.token) {
+      throw new Error('Mattermost channel requires a "token" in config');
+    }
+
+    this.apiBase = `${cfg.serverUrl.replace(/\/+$/, '')}/api/v4`;
+    this.token = cfg.token;
+    this.streamMode = cfg.streamMode ?? 'off';
+    this.allowedChannels = new Set(cfg.allowedChannels ?? []);
+    this.allowedUsers = new Set(cfg.allowedUsers ?? []);
+
+    // Verify the token and get the bot's user ID.
+    const me = await this.apiCall('GET', '/users/me');
+    if (!me.ok) {
+      throw new Error(`Mattermost authentication failed: ${await this.errorText(me)}`);
+    }
+    this.botUserId = ((await me.json()) as { id: string }).id;
+
+    this.running = true;
+    try {
+      await this.connectWebSocket();
+    } catch (err) {
+      this.running = false;
+      throw err;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    if (this.ws) {
+      try {
+        this.ws.close(1000, 'Shutting down');
+      } catch {
+        // Ignore close errors.
+      }
+      this.ws = null;
+    }
+  }
+
+  async send(to: Recipient, message: OutboundMessage): Promise<SendResult> {
+    try {
+      const channelId = await this.resolveChannel(to);
+      if (!channelId) {
+        return { success: false, error: 'Recipient must have groupId or userId' };
+      }
+
+      // Replies stay in the conversation's thread; a top-level message
+      // starts a thread under the post being answered.
+      const rootId = to.threadId ?? message.replyTo;
+      const chunks = splitMessage(message.text ?? '', MM_MAX_MESSAGE_LEN);
+      let lastId: string | undefined;
+
+      for (const chunk of chunks) {
+        if (!chunk) continue;
+        lastId = await this.createPost({ channel_id: channelId, message: chunk, root_id: rootId });
+      }
+
+      if (message.attachments?.length) {
+        const postId = await this.sendAttachments(channelId, message.attachments, rootId);
+        lastId = postId ?? lastId;
+      }
+
+      return { success: true, messageId: lastId ?? '' };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /** Edit a previously sent message. Used for progressive streaming updates. */
+  async editMessage(_to: Recipient, messageId: string, message: OutboundMessage): Promise<SendResult> {
+    // Rate limit: skip if we edited this message too recently.
+    const lastEdit = this.lastEditTimestamps.get(messageId);
+    const now = Date.now();
+    if (lastEdit && now - lastEdit < MM_EDIT_RATE_LIMIT_MS) {
+      return { success: true, messageId };
+    }
+    try {
+      const response = await this.apiCall('PUT', `/posts/${encodeURIComponent(messageId)}/patch`, {
+        message: truncateMessage(message.text ?? '', MM_MAX_MESSAGE_LEN),
+      });
+      if (!response.ok) {
+        return { success: false, error: await this.errorText(response) };
+      }
+      await response.body?.cancel().catch(() => {});
+      this.lastEditTimestamps.set(messageId, now);
+      evictOldTimestamps(this.lastEditTimestamps, MattermostChannel.EDIT_TS_MAX_ENTRIES);
+      return { success: true, messageId };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /** Return the configured stream mode. */
+  getStreamMode(): 'off' | 'edit' | 'block' {
+    return this.streamMode;
+  }
+
+  onMessage(handler: (msg: InboundMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandler = handler;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    if (!this.running || this.ws?.readyState !== WebSocket.OPEN) return false;
+    try {
+      const response = await this.apiCall('GET', '/users/me');
+      await response.body?.cancel().catch(() => {});
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Download an inbound file. File links need the bot token, which is only
+   * ever sent to the configured server.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    if (!attachment.url || !attachment.url.startsWith(`${this.apiBase}/files/`)) {
+      throw new Error('Not a Mattermost file URL');
+    }
+
+    const response = await fetch(attachment.url, {
+      headers: { 'Authorization': `Bearer ${this.token}` },
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Mattermost file download failed (${response.status})`);
+    }
+    return readResponseBody(response, maxBytes);
+  }
+
+  // -----------------------------------------------------------------------
+  // WebSocket
+  // -----------------------------------------------------------------------
+
+  private connectWebSocket(): Promise<void> {
+    const wsUrl = `${this.apiBase.replace(/^http/, 'ws')}/websocket`;
+
+    return new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
+
+      let settled = false;
+      const settle = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (err) reject(err);
+        else resolve();
+      };
+
+      const timeout = setTimeout(() => {
+        settle(new Error('Mattermost WebSocket connection timed out'));
+        ws.terminate();
+      }, MM_CONNECT_TIMEOUT_MS);
+
+      ws.on('open', () => {
+        ws.send(JSON.stringify({
+          seq: 1,
+          action: 'authentication_challenge',
+          data: { token: this.token },
+        }));
+      });
+
+      ws.on('message', (data: Buffer) => {
+        let frame: MattermostEvent;
+        try {
+          frame = JSON.parse(data.toString()) as MattermostEvent;
+        } catch {
+          return; // Ignore malformed frames.
+        }
+
+        if (frame.seq_reply === 1) {
+          if (frame.status !== 'OK') {
+            settle(new Error(`Mattermost WebSocket authentication failed: ${frame.error?.message ?? 'unknown error'}`));
+            ws.close();
+            return;
+          }
+          this.reconnectAttempts = 0;
+          this.startPing(ws);
+          settle();
+          return;
+        }
+
+        this.handleEvent(frame);
+      });
+
+      ws.on('error', (err: Error) => {
+        settle(err);
+      });
+
+      ws.on('close', () => {
+        settle(new Error('Mattermost WebSocket closed during connect'));
+        if (this.ws !== ws) return;
+        this.ws = null;
+        if (this.pingTimer) {
+          clearInterval(this.pingTimer);
+          this.pingTimer = null;
+        }
+        if (this.running) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private startPing(ws: WebSocket): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    // Keep-alive pings every 30 seconds.
+    this.pingTimer = setInterval(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+      }
+    }, 30_000);
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectAttempts++;
+    const delay = Math.min(MM_RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts - 1), MM_RECONNECT_MAX_MS);
+    const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.running) return;
+      this.connectWebSocket().catch(() => {
+        // The close handler schedules the next attempt.
+      });
+    }, Math.max(0, delay + jitter));
+  }
+
+  // -----------------------------------------------------------------------
+  // Event processing
+  // -----------------------------------------------------------------------
+
+  private handleEvent(frame: MattermostEvent): void {
+    if (frame.event === 'typing' && this.presenceHandler) {
+      const userId = frame.data?.user_id as string | undefined;
+      const channelId = frame.broadcast?.channel_id;
+      if (userId && channelId && userId !== this.botUserId) {
+        this.presenceHandler({ userId, status: 'typing', channelId });
+      }
+      return;
+    }
+
+    if (frame.event === 'posted' && typeof frame.data?.post === 'string') {
+      try {
+        this.processPost(JSON.parse(frame.data.post) as MattermostPost, frame.data.channel_type);
+      } catch {
+        // Ignore malformed posts.
+      }
+    }
+  }
+
+  /** `channelType` is the posted event's channel type: 'D' for a direct message. */
+  private processPost(post: MattermostPost, channelType?: unknown): void {
+    if (!this.messageHandler) return;
+
+    // Ignore system messages, bots and ourselves.
+    if (post.type) return;
+    if (post.user_id === this.botUserId) return;
+    if (post.props?.from_bot === 'true') return;
+
+    // Enforce allowed channels/users.
+    if (this.allowedChannels.size > 0 && !this.allowedChannels.has(post.channel_id)) {
+      return;
+    }
+    if (this.allowedUsers.size > 0 && !this.allowedUsers.has(post.user_id)) {
+      return;
+    }
+
+    const attachments: Attachment[] = (post.metadata?.files ?? []).map((f) => ({
+      type: this.classifyFile(f.mime_type) as Attachment['type'],
+      url: `${this.apiBase}/files/${f.id}`,
+      filename: f.name,
+      mimeType: f.mime_type,
+    }));
+
+    const threadId = post.root_id || undefined;
+    const inbound: InboundMessage = {
+      id: post.id,
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId: post.user_id,
+        groupId: post.channel_id,
+        threadId,
+        isDirect: channelType === 'D',
+      },
+      text: post.message ?? '',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: threadId,
+      timestamp: new Date(post.create_at),
+      raw: post,
+    };
+
+    this.messageHandler(inbound);
+  }
+
+  // -----------------------------------------------------------------------
+  // REST API
+  // -----------------------------------------------------------------------
+
+  private async apiCall(method: string, path: string, body?: unknown): Promise<Response> {
+    return fetch(`${this.apiBase}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  /** Read the server's error message from a failed response. */
+  private async errorText(response: Response): Promise<string> {
+    try {
+      const body = (await response.json()) as { message?: string };
+      return body.message ?? `HTTP ${response.status}`;
+    } catch {
+      return `HTTP ${response.status}`;
+    }
+  }
+
+  private async createPost(post: {
+    channel_id: string;
+    message: string;
+    root_id?: string;
+    file_ids?: string[];
+  }): Promise<string> {
+    const response = await this.apiCall('POST', '/posts', post);
+    if (!response.ok) {
+      throw new Error(`Mattermost post failed: ${await this.errorText(response)}`);
+    }
+    return ((await response.json()) as MattermostPost).id;
+  }
+
+  /**
+   * Resolve the channel to post in. A recipient without a groupId is a
+   * user, reached through the direct channel between them and the bot.
+   */
+  private async resolveChannel(to: Recipient): Promise<string | undefined> {
+    if (to.groupId) return to.groupId;
+    if (!to.userId) return undefined;
+
+    const cached = this.directChannels.get(to.userId);
+    if (cached) return cached;
+
+    const response = await this.apiCall('POST', '/channels/direct', [this.botUserId, to.userId]);
+    if (!response.ok) {
+      throw new Error(`Mattermost direct channel failed: ${await this.errorText(response)}`);
+    }
+    const channelId = ((await response.json()) as { id: string }).id;
+    this.directChannels.set(to.userId, channelId);
+    return channelId;
+  }
+
+  /**
+   * Upload attachment data and post it, at most five files per post.
+   * URL-only attachments are shared as links. Returns the last post ID.
+   */
+  private async sendAttachments(
+    channelId: string,
+    attachments: Attachment[],
+    rootId?: string,
+  ): Promise<string | undefined> {
+    const fileIds: string[] = [];
+    const links: string[] = [];
+
+    for (const att of attachments) {
+      if (att.data) {
+        const form = new FormData();
+        form.append('channel_id', channelId);
+        form.append('files', new Blob([att.data], { type: att.mimeType }), att.filename ?? 'file');
+        const response = await fetch(`${this.apiBase}/files`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${this.token}` },
+          body: form,
+        });
+        if (!response.ok) {
+          throw new Error(`Mattermost file upload failed: ${await this.errorText(response)}`);
+        }
+        const result = (await response.json()) as { file_infos: MattermostFileInfo[] };
+        for (const info of result.file_infos) fileIds.push(info.id);
+      } else if (att.url) {
+        links.push(`📎 ${att.filename ?? 'attachment'}: ${att.url}`);
+      }
+    }
+
+    let lastId: string | undefined;
+    for (let i = 0; i < fileIds.length; i += MM_MAX_FILES_PER_POST) {
+      lastId = await this.createPost({
+        channel_id: channelId,
+        message: '',
+        root_id: rootId,
+        file_ids: fileIds.slice(i, i + MM_MAX_FILES_PER_POST),
+      });
+    }
+    if (links.length > 0) {
+      lastId = await this.createPost({ channel_id: channelId, message: links.join('\n'), root_id: rootId });
+    }
+    return lastId;
+  }
+
+  private classifyFile(mimeType: string): string {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    return 'file';
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { splitMessage, truncateMessage } from './message-utils.js';
+import { actionRows, batchAttachments, splitMessage, truncateMessage } from './message-utils.js';
 
 describe('splitMessage', () => {
   it('returns single element for empty string', () => {
@@ -139,3 +139,36 @@ describe('truncateMessage', () => {
     expect(truncateMessage('hello', 0)).toBe('hello');
   });
 });
+
+describe('actionRows', () => {
+  it('fills rows up to the row size', () => {
+    expect(actionRows([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('returns no rows for no actions', () => {
+    expect(actionRows([], 3)).toEqual([]);
+  });
+});
+
+describe('batchAttachments', () => {
+  const file = (size: number) => ({ data: Buffer.alloc(size) });
+
+  it('starts a new batch before the byte limit is passed', () => {
+    const files = [file(4), file(4), file(4), file(1)];
+    expect(batchAttachments(files, 10, 8).map((b) => b.length)).toEqual([2, 2]);
+  });
+
+  it('starts a new batch at the file limit', () => {
+    const files = [file(1), file(1), file(1)];
+    expect(batchAttachments(files, 2, 100).map((b) => b.length)).toEqual([2, 1]);
+  });
+
+  it('gives an oversized file a batch of its own', () => {
+    const files = [file(1), file(20), file(1)];
+    expect(batchAttachments(files, 10, 8).map((b) => b.length)).toEqual([1, 1, 1]);
+  });
+
+  it('returns no batches for no attachments', () => {
+    expect(batchAttachments([], 10, 8)).toEqual([]);
+  });
+});
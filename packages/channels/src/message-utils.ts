@@ -77,3 +77,42 @@ export function evictOldTimestamps(map: Map<string, number>, maxEntries: number)
     map.delete(sorted[i]![0]);
   }
 }
+
+/**
+ * Lay out message actions as rows of at most `perRow` buttons, for
+ * platforms whose keyboards and components are grids.
+ */
+export function actionRows<T>(actions: readonly T[], perRow: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < actions.length; i += perRow) {
+    rows.push(actions.slice(i, i + perRow));
+  }
+  return rows;
+}
+
+/**
+ * Group attachments into batches that each fit one upload: at most
+ * `maxFiles` files and `maxBytes` of data. A file larger than `maxBytes`
+ * gets a batch of its own, for the platform to accept or refuse.
+ */
+export function batchAttachments<T extends { data?: Buffer }>(
+  attachments: readonly T[],
+  maxFiles: number,
+  maxBytes: number,
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let bytes = 0;
+  for (const attachment of attachments) {
+    const size = attachment.data?.length ?? 0;
+    if (batch.length > 0 && (batch.length >= maxFiles || bytes + size > maxBytes)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(attachment);
+    bytes += size;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
@@ -0,0 +1,360 @@
+/**
+ * RocketChatChannel tests.
+ *
+ * Runs the channel against a stand-in Rocket.Chat server on localhost that
+ * serves the REST routes the adapter uses and the DDP realtime API.
+ */
+
+import { vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { InboundMessage } from '@ch4p/core';
+import { RocketChatChannel } from './rocketchat.js';
+
+// ---------------------------------------------------------------------------
+// Stand-in Rocket.Chat server
+// ---------------------------------------------------------------------------
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+class FakeRocketChat {
+  readonly requests: RecordedRequest[] = [];
+  readonly logins: string[] = [];
+  private server: Server = createServer((req, res) => this.handle(req, res));
+  private wss = new WebSocketServer({ server: this.server, path: '/websocket' });
+  private subscribed = new Set<WebSocket>();
+  private nextId = 1;
+  url = '';
+
+  constructor() {
+    this.wss.on('connection', (ws) => {
+      ws.on('close', () => this.subscribed.delete(ws));
+      ws.on('message', (data) => {
+        const frame = JSON.parse(data.toString()) as {
+          msg: string;
+          id?: string;
+          method?: string;
+          name?: string;
+          params?: unknown[];
+        };
+        if (frame.msg === 'connect') {
+          ws.send(JSON.stringify({ msg: 'connected', session: 's1' }));
+        } else if (frame.msg === 'method' && frame.method === 'login') {
+          const { resume } = frame.params![0] as { resume: string };
+          this.logins.push(resume);
+          ws.send(JSON.stringify(resume === 'token-1'
+            ? { msg: 'result', id: frame.id, result: { id: 'bot-id', token: resume } }
+            : { msg: 'result', id: frame.id, error: { error: 403, reason: "You've been logged out by the server" } }));
+        } else if (frame.msg === 'sub' && frame.name === 'stream-room-messages') {
+          this.subscribed.add(ws);
+          ws.send(JSON.stringify({ msg: 'ready', subs: [frame.id] }));
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async close(): Promise<void> {
+    for (const ws of this.wss.clients) ws.terminate();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get connections(): number {
+    return this.subscribed.size;
+  }
+
+  /** Cut every realtime connection, as a server restart would. */
+  dropConnections(): void {
+    for (const ws of this.subscribed) ws.terminate();
+  }
+
+  /** Push a room message to subscribed clients. */
+  message(fields: Record<string, unknown>, roomType = 'c'): void {
+    const message = {
+      _id: `m${this.nextId++}`,
+      ts: { $date: 1_700_000_000_000 },
+      u: { _id: 'u1', username: 'alice' },
+      ...fields,
+    };
+    const frame = JSON.stringify({
+      msg: 'changed',
+      collection: 'stream-room-messages',
+      id: 'id',
+      fields: { eventName: '__my_messages__', args: [message, { roomType }] },
+    });
+    for (const ws of this.subscribed) ws.send(frame);
+  }
+
+  /** Simulate a DDP keep-alive ping and resolve with the client's reply. */
+  ping(): Promise<string> {
+    const [ws] = [...this.subscribed];
+    return new Promise((resolve) => {
+      ws!.once('message', (data) => resolve(data.toString()));
+      ws!.send(JSON.stringify({ msg: 'ping' }));
+    });
+  }
+
+  bodies(path: string): unknown[] {
+    return this.requests
+      .filter((r) => r.path === path)
+      .map((r) => JSON.parse(r.body.toString()) as unknown);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = (req.url ?? '').replace(/^\/api\/v1\//, '');
+      const body = Buffer.concat(chunks);
+      this.requests.push({ method: req.method ?? '', path, headers: req.headers, body });
+
+      const json = (status: number, value: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(value));
+      };
+
+      if (req.method === 'POST' && path === 'login') {
+        const creds = JSON.parse(body.toString()) as { user: string; password: string };
+        if (creds.password === 'secret') {
+          json(200, { status: 'success', data: { authToken: 'token-1', userId: 'bot-id' } });
+        } else {
+          json(401, { status: 'error', error: 'Unauthorized', message: 'Unauthorized' });
+        }
+        return;
+      }
+
+      if (req.headers['x-auth-token'] !== 'token-1' || req.headers['x-user-id'] !== 'bot-id') {
+        json(401, { success: false, error: 'You must be logged in to do this.' });
+        return;
+      }
+
+      if (req.method === 'GET' && path === 'me') {
+        json(200, { success: true, _id: 'bot-id', username: 'ch4p' });
+      } else if (req.method === 'POST' && path === 'chat.sendMessage') {
+        const { message } = JSON.parse(body.toString()) as { message: { msg: string } };
+        if (message.msg === 'fail') json(400, { success: false, error: 'error-invalid-room' });
+        else json(200, { success: true, message: { _id: `sent${this.nextId++}`, ...message } });
+      } else if (req.method === 'POST' && path === 'chat.update') {
+        json(200, { success: true });
+      } else if (req.method === 'GET' && path === 'users.info?userId=u1') {
+        json(200, { success: true, user: { _id: 'u1', username: 'alice' } });
+      } else if (req.method === 'POST' && path === 'im.create') {
+        json(200, { success: true, room: { _id: 'dm-room' } });
+      } else if (req.method === 'POST' && path.startsWith('rooms.media/')) {
+        json(200, { success: true, file: { _id: 'file9', url: '/file-upload/file9/x' } });
+      } else if (req.method === 'POST' && path.startsWith('rooms.mediaConfirm/')) {
+        json(200, { success: true, message: { _id: `sent${this.nextId++}` } });
+      } else if (req.method === 'GET' && path.startsWith('/file-upload/')) {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(Buffer.from('file-bytes'));
+      } else {
+        json(404, { success: false, error: 'Not found' });
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('RocketChatChannel', () => {
+  let server: FakeRocketChat;
+  let channel: RocketChatChannel;
+  let received: InboundMessage[];
+
+  beforeEach(async () => {
+    server = new FakeRocketChat();
+    await server.listen();
+    channel = new RocketChatChannel();
+    received = [];
+    channel.onMessage((msg) => received.push(msg));
+  });
+
+  afterEach(async () => {
+    await channel.stop();
+    await server.close();
+  });
+
+  const start = (extra: Record<string, unknown> = {}) =>
+    channel.start({ serverUrl: server.url, authToken: 'token-1', userId: 'bot-id', ...extra });
+
+  it('has correct id, name and attachment limit', () => {
+    expect(channel.id).toBe('rocketchat');
+    expect(channel.name).toBe('Rocket.Chat');
+    expect(channel.maxAttachmentBytes).toBe(100 * 1024 * 1024);
+  });
+
+  it('requires serverUrl and credentials', async () => {
+    await expect(channel.start({ authToken: 'x', userId: 'y' })).rejects.toThrow(/serverUrl/);
+    await expect(channel.start({ serverUrl: server.url, authToken: 'x' })).rejects.toThrow(/authToken.*userId/);
+  });
+
+  it('connects with a personal access token', async () => {
+    await start();
+    expect(server.logins).toEqual(['token-1']);
+    expect(server.connections).toBe(1);
+    expect(await channel.isHealthy()).toBe(true);
+  });
+
+  it('logs in with username and password', async () => {
+    await channel.start({ serverUrl: server.url, username: 'ch4p', password: 'secret' });
+    expect(server.bodies('login')).toEqual([{ user: 'ch4p', password: 'secret' }]);
+    expect(server.logins).toEqual(['token-1']);
+  });
+
+  it('rejects bad credentials', async () => {
+    await expect(channel.start({ serverUrl: server.url, username: 'ch4p', password: 'nope' }))
+      .rejects.toThrow(/login failed: Unauthorized/);
+    await expect(start({ authToken: 'stale' })).rejects.toThrow(/must be logged in/);
+  });
+
+  it('answers DDP pings', async () => {
+    await start();
+    expect(JSON.parse(await server.ping())).toEqual({ msg: 'pong' });
+  });
+
+  it('delivers messages with their thread and files', async () => {
+    await start();
+    server.message({
+      rid: 'room1',
+      msg: 'hello',
+      tmid: 'parent1',
+      files: [{ _id: 'file1', name: 'a b.png', type: 'image/png' }],
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const msg = received[0]!;
+    expect(msg.channelId).toBe('rocketchat');
+    expect(msg.text).toBe('hello');
+    expect(msg.from).toEqual({ channelId: 'rocketchat', userId: 'u1', groupId: 'room1', threadId: 'parent1', isDirect: false });
+    expect(msg.replyTo).toBe('parent1');
+    expect(msg.timestamp.getTime()).toBe(1_700_000_000_000);
+    expect(msg.attachments).toEqual([
+      { type: 'image', url: `${server.url}/file-upload/file1/a%20b.png`, filename: 'a b.png', mimeType: 'image/png' },
+    ]);
+  });
+
+  it('marks messages in a direct message room as direct', async () => {
+    await start();
+    server.message({ rid: 'dm1', msg: 'hi' }, 'd');
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]!.from).toMatchObject({ groupId: 'dm1', isDirect: true });
+  });
+
+  it('ignores its own messages, edits, bots, system messages and disallowed senders', async () => {
+    await start({ allowedRooms: ['room1'], allowedUsers: ['alice'] });
+    server.message({ rid: 'room1', msg: 'own', u: { _id: 'bot-id', username: 'ch4p' } });
+    server.message({ rid: 'room1', msg: 'edited', editedAt: { $date: 1 } });
+    server.message({ rid: 'room1', msg: 'bot', bot: { i: 'x' } });
+    server.message({ rid: 'room1', msg: 'alice', t: 'uj' });
+    server.message({ rid: 'room1', msg: 'stranger', u: { _id: 'u2', username: 'bob' } });
+    server.message({ rid: 'room2', msg: 'elsewhere' });
+    server.message({ rid: 'room1', msg: 'ok' });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]!.text).toBe('ok');
+  });
+
+  it('replies in the thread, or under the answered message', async () => {
+    await start();
+    const inThread = await channel.send(
+      { channelId: 'rocketchat', groupId: 'room1', threadId: 'parent1' },
+      { text: 'in thread', replyTo: 'm9' },
+    );
+    await channel.send({ channelId: 'rocketchat', groupId: 'room1' }, { text: 'top level', replyTo: 'm9' });
+
+    expect(inThread.success).toBe(true);
+    expect(inThread.messageId).toMatch(/^sent/);
+    expect(server.bodies('chat.sendMessage')).toEqual([
+      { message: { rid: 'room1', msg: 'in thread', tmid: 'parent1' } },
+      { message: { rid: 'room1', msg: 'top level', tmid: 'm9' } },
+    ]);
+  });
+
+  it('opens a direct room for a user recipient once', async () => {
+    await start();
+    await channel.send({ channelId: 'rocketchat', userId: 'u1' }, { text: 'one' });
+    await channel.send({ channelId: 'rocketchat', userId: 'u1' }, { text: 'two' });
+
+    expect(server.bodies('im.create')).toEqual([{ username: 'alice' }]);
+    expect(server.bodies('chat.sendMessage').map((b) => (b as { message: { rid: string } }).message.rid))
+      .toEqual(['dm-room', 'dm-room']);
+  });
+
+  it('reports send failures', async () => {
+    await start();
+    const result = await channel.send({ channelId: 'rocketchat', groupId: 'room1' }, { text: 'fail' });
+    expect(result).toEqual({ success: false, error: 'error-invalid-room' });
+    expect((await channel.send({ channelId: 'rocketchat' }, { text: 'x' })).success).toBe(false);
+  });
+
+  it('edits messages for streaming, rate limited', async () => {
+    await start({ streamMode: 'edit' });
+    expect(channel.getStreamMode()).toBe('edit');
+
+    const to = { channelId: 'rocketchat', groupId: 'room1' };
+    expect(await channel.editMessage(to, 'sent1', { text: 'partial' })).toEqual({ success: true, messageId: 'sent1' });
+    expect(await channel.editMessage(to, 'sent1', { text: 'more' })).toEqual({ success: true, messageId: 'sent1' });
+
+    expect(server.bodies('chat.update')).toEqual([{ roomId: 'room1', msgId: 'sent1', text: 'partial' }]);
+  });
+
+  it('uploads attachment data and links URL-only attachments', async () => {
+    await start();
+    const result = await channel.send(
+      { channelId: 'rocketchat', groupId: 'room1', threadId: 'parent1' },
+      {
+        text: 'files',
+        attachments: [
+          { type: 'file', data: Buffer.from('report-bytes'), filename: 'report.txt', mimeType: 'text/plain' },
+          { type: 'image', url: 'https://example.com/cat.png', filename: 'cat.png' },
+        ],
+      },
+    );
+
+    expect(result.success).toBe(true);
+    const upload = server.requests.find((r) => r.path === 'rooms.media/room1')!;
+    expect(upload.body.toString()).toContain('report-bytes');
+    expect(upload.body.toString()).toContain('filename="report.txt"');
+    expect(server.bodies('rooms.mediaConfirm/room1/file9')).toEqual([{ tmid: 'parent1' }]);
+    expect(server.bodies('chat.sendMessage')).toEqual([
+      { message: { rid: 'room1', msg: 'files', tmid: 'parent1' } },
+      { message: { rid: 'room1', msg: '📎 cat.png: https://example.com/cat.png', tmid: 'parent1' } },
+    ]);
+  });
+
+  it('downloads files from its own server only', async () => {
+    await start();
+    const data = await channel.fetchAttachment({ type: 'file', url: `${server.url}/file-upload/file1/a.png` }, 1024);
+    expect(data.toString()).toBe('file-bytes');
+    expect(server.requests.at(-1)!.headers['x-auth-token']).toBe('token-1');
+
+    await expect(channel.fetchAttachment({ type: 'file', url: 'https://evil.example.com/file-upload/x/y' }, 1024))
+      .rejects.toThrow(/Not a Rocket.Chat file URL/);
+  });
+
+  it('reconnects and resubscribes after the server drops the connection', async () => {
+    await start();
+    server.dropConnections();
+    await vi.waitFor(() => expect(server.connections).toBe(0));
+
+    await vi.waitFor(() => expect(server.connections).toBe(1), { timeout: 5_000 });
+    expect(server.logins).toEqual(['token-1', 'token-1']);
+    server.message({ rid: 'room1', msg: 'after reconnect' });
+    await vi.waitFor(() => expect(received.map((m) => m.text)).toEqual(['after reconnect']));
+  });
+});
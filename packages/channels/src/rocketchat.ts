@@ -0,0 +1,568 @@
+/**
+ * RocketChatChannel — Rocket.Chat bot channel adapter.
+ *
+ * Implements the IChannel interface for Rocket.Chat using the REST API
+ * (for sending) and the DDP realtime API over WebSocket (for receiving).
+ * Uses raw fetch() and the `ws` package — no Rocket.Chat SDK.
+ *
+ * Configuration (via ChannelConfig):
+ *   serverUrl    — Rocket.Chat server URL, e.g. https://chat.example.com (required)
+ *   authToken    — Personal access token (with userId)
+ *   userId       — Bot user ID (with authToken)
+ *   username     — Bot username (with password, instead of a token)
+ *   password     — Bot password
+ *   allowedRooms — Array of allowed room IDs (empty = allow all)
+ *   allowedUsers — Array of allowed user IDs or usernames (empty = allow all)
+ *   streamMode   — 'off' | 'edit' | 'block' (default: 'off')
+ *
+ * Supported features:
+ *   - Text message receiving and sending
+ *   - Threads via tmid (mapped to Recipient.threadId)
+ *   - Message editing for progressive streaming
+ *   - File attachments in both directions
+ *   - Automatic reconnect with exponential backoff
+ */
+
+import type {
+  IChannel,
+  ChannelConfig,
+  Recipient,
+  InboundMessage,
+  OutboundMessage,
+  SendResult,
+  Attachment,
+} from '@ch4p/core';
+import { readResponseBody } from '@ch4p/core';
+import WebSocket from 'ws';
+import { splitMessage, truncateMessage, evictOldTimestamps } from './message-utils.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RocketChatConfig extends ChannelConfig {
+  serverUrl: string;
+  authToken?: string;
+  userId?: string;
+  username?: string;
+  password?: string;
+  allowedRooms?: string[];
+  allowedUsers?: string[];
+  streamMode?: 'off' | 'edit' | 'block';
+}
+
+// Server default for Message_MaxAllowedSize is 5000 characters.
+const RC_MAX_MESSAGE_LEN = 5_000;
+const RC_EDIT_RATE_LIMIT_MS = 1_000;
+const RC_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const RC_RECONNECT_BASE_MS = 1_000;
+const RC_RECONNECT_MAX_MS = 60_000;
+const RC_CONNECT_TIMEOUT_MS = 30_000;
+
+/** Minimal Rocket.Chat message. */
+interface RocketChatMessage {
+  _id: string;
+  rid: string;
+  msg: string;
+  ts: { $date: number } | string;
+  u: { _id: string; username: string; name?: string };
+  tmid?: string;
+  t?: string;
+  bot?: unknown;
+  editedAt?: unknown;
+  files?: RocketChatFile[];
+}
+
+/** Room details sent alongside a streamed message. */
+interface RocketChatRoomInfo {
+  /** 'd' for a direct message, 'c' for a channel, 'p' for a private group. */
+  roomType?: string;
+}
+
+/** Minimal Rocket.Chat file reference. */
+interface RocketChatFile {
+  _id: string;
+  name: string;
+  type: string;
+  size?: number;
+}
+
+/** DDP frame (only the fields this adapter reads). */
+interface DdpFrame {
+  msg?: string;
+  id?: string;
+  collection?: string;
+  fields?: { eventName?: string; args?: unknown[] };
+  error?: { reason?: string; message?: string };
+}
+
+/** REST response envelope. */
+interface RocketChatApiResponse {
+  success?: boolean;
+  status?: string;
+  error?: string;
+  message?: unknown;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+// ---------------------------------------------------------------------------
+// RocketChatChannel
+// ---------------------------------------------------------------------------
+
+export class RocketChatChannel implements IChannel {
+  readonly id = 'rocketchat';
+  readonly name = 'Rocket.Chat';
+  readonly maxAttachmentBytes = RC_MAX_UPLOAD_BYTES;
+
+  private serverUrl = '';
+  private authToken = '';
+  private userId = '';
+  private streamMode: 'off' | 'edit' | 'block' = 'off';
+  private messageHandler: ((msg: InboundMessage) => void) | null = null;
+  private running = false;
+  private ws: WebSocket | null = null;
+  private allowedRooms: Set<string> = new Set();
+  private allowedUsers: Set<string> = new Set();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private directRooms = new Map<string, string>();
+  private lastEditTimestamps = new Map<string, number>();
+  private static readonly EDIT_TS_MAX_ENTRIES = 500;
+
+  // -----------------------------------------------------------------------
+  // IChannel implementation
+  // -----------------------------------------------------------------------
+
+  async start(config: ChannelConfig): Promise<void> {
+    if (this.running) return;
+
+    const cfg = config as RocketChatConfig;
+    if (!cfg.serverUrl) {
+      throw new Error('Rocket.Chat channel requires a "serverUrl" in config');
+    }
+    const hasToken = Boolean(cfg.authToken && cfg.userId);
+    const hasPassword = Boolean(cfg.username && cfg.password);
+    if (!hasToken && !hasPassword) {
+      throw new Error('Rocket.Chat channel requires "authToken" and "userId", or "username" and "password"');
+    }
+
+    this.serverUrl = cfg.serverUrl.replace(/\/+$/, '');
+    this.streamMode = cfg.streamMode ?? 'off';
+    this.allowedRooms = new Set(cfg.allowedRooms ?? []);
+    this.allowedUsers = new Set(cfg.allowedUsers ?? []);
+
+    if (hasToken) {
+      this.authToken = cfg.authToken!;
+      this.userId = cfg.userId!;
+      const me = await this.apiCall('GET', 'me');
+      if (!me.success) {
+        throw new Error(`Rocket.Chat authentication failed: ${me.error ?? 'Unknown error'}`);
+      }
+    } else {
+      const login = await this.apiCall('POST', 'login', { user: cfg.username, password: cfg.password });
+      if (login.status !== 'success') {
+        throw new Error(`Rocket.Chat login failed: ${login.error ?? login.message ?? 'Unknown error'}`);
+      }
+      this.authToken = login.data.authToken as string;
+      this.userId = login.data.userId as string;
+    }
+
+    this.running = true;
+    try {
+      await this.connectRealtime();
+    } catch (err) {
+      this.running = false;
+      throw err;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      try {
+        this.ws.close(1000, 'Shutting down');
+      } catch {
+        // Ignore close errors.
+      }
+      this.ws = null;
+    }
+  }
+
+  async send(to: Recipient, message: OutboundMessage): Promise<SendResult> {
+    try {
+      const roomId = await this.resolveRoom(to);
+      if (!roomId) {
+        return { success: false, error: 'Recipient must have groupId or userId' };
+      }
+
+      // Replies stay in the conversation's thread; a top-level message
+      // starts a thread under the message being answered.
+      const tmid = to.threadId ?? message.replyTo;
+      const chunks = splitMessage(message.text ?? '', RC_MAX_MESSAGE_LEN);
+      let lastId: string | undefined;
+
+      for (const chunk of chunks) {
+        if (!chunk) continue;
+        const result = await this.apiCall('POST', 'chat.sendMessage', {
+          message: { rid: roomId, msg: chunk, ...(tmid ? { tmid } : {}) },
+        });
+        if (!result.success) {
+          return { success: false, error: result.error ?? 'chat.sendMessage failed' };
+        }
+        lastId = (result.message as RocketChatMessage)._id;
+      }
+
+      if (message.attachments?.length) {
+        for (const att of message.attachments) {
+          lastId = (await this.sendAttachment(roomId, att, tmid)) ?? lastId;
+        }
+      }
+
+      return { success: true, messageId: lastId ?? '' };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /** Edit a previously sent message. Used for progressive streaming updates. */
+  async editMessage(to: Recipient, messageId: string, message: OutboundMessage): Promise<SendResult> {
+    const roomId = to.groupId ?? (to.userId ? this.directRooms.get(to.userId) : undefined);
+    if (!roomId) {
+      return { success: false, error: 'Recipient must have groupId or a known direct room' };
+    }
+    // Rate limit: skip if we edited this message too recently.
+    const lastEdit = this.lastEditTimestamps.get(messageId);
+    const now = Date.now();
+    if (lastEdit && now - lastEdit < RC_EDIT_RATE_LIMIT_MS) {
+      return { success: true, messageId };
+    }
+    try {
+      const result = await this.apiCall('POST', 'chat.update', {
+        roomId,
+        msgId: messageId,
+        text: truncateMessage(message.text ?? '', RC_MAX_MESSAGE_LEN),
+      });
+      if (!result.success) {
+        return { success: false, error: result.error ?? 'chat.update failed' };
+      }
+      this.lastEditTimestamps.set(messageId, now);
+      evictOldTimestamps(this.lastEditTimestamps, RocketChatChannel.EDIT_TS_MAX_ENTRIES);
+      return { success: true, messageId };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /** Return the configured stream mode. */
+  getStreamMode(): 'off' | 'edit' | 'block' {
+    return this.streamMode;
+  }
+
+  onMessage(handler: (msg: InboundMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    if (!this.running || this.ws?.readyState !== WebSocket.OPEN) return false;
+    try {
+      const result = await this.apiCall('GET', 'me');
+      return result.success === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Download an inbound file. File links need the bot's credentials, which
+   * are only ever sent to the configured server.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    if (!attachment.url || !attachment.url.startsWith(`${this.serverUrl}/file-upload/`)) {
+      throw new Error('Not a Rocket.Chat file URL');
+    }
+
+    const response = await fetch(attachment.url, { headers: this.authHeaders() });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Rocket.Chat file download failed (${response.status})`);
+    }
+    return readResponseBody(response, maxBytes);
+  }
+
+  // -----------------------------------------------------------------------
+  // Realtime (DDP)
+  // -----------------------------------------------------------------------
+
+  /**
+   * Open the DDP connection: connect, resume the REST login token, then
+   * subscribe to every room the bot belongs to.
+   */
+  private connectRealtime(): Promise<void> {
+    const wsUrl = `${this.serverUrl.replace(/^http/, 'ws')}/websocket`;
+
+    return new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(wsUrl);
+      this.ws = ws;
+
+      let settled = false;
+      const settle = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (err) reject(err);
+        else resolve();
+      };
+
+      const timeout = setTimeout(() => {
+        settle(new Error('Rocket.Chat realtime connection timed out'));
+        ws.terminate();
+      }, RC_CONNECT_TIMEOUT_MS);
+
+      const sendFrame = (frame: Record<string, unknown>) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(frame));
+      };
+
+      ws.on('open', () => {
+        sendFrame({ msg: 'connect', version: '1', support: ['1'] });
+      });
+
+      ws.on('message', (data: Buffer) => {
+        let frame: DdpFrame;
+        try {
+          frame = JSON.parse(data.toString()) as DdpFrame;
+        } catch {
+          return; // Ignore malformed frames.
+        }
+
+        switch (frame.msg) {
+          case 'connected':
+            sendFrame({ msg: 'method', method: 'login', id: 'login', params: [{ resume: this.authToken }] });
+            break;
+          case 'ping':
+            sendFrame({ msg: 'pong' });
+            break;
+          case 'result':
+            if (frame.id !== 'login') break;
+            if (frame.error) {
+              settle(new Error(`Rocket.Chat realtime login failed: ${frame.error.reason ?? frame.error.message ?? 'unknown error'}`));
+              ws.close();
+              break;
+            }
+            sendFrame({
+              msg: 'sub',
+              id: 'messages',
+              name: 'stream-room-messages',
+              params: ['__my_messages__', false],
+            });
+            break;
+          case 'ready':
+            this.reconnectAttempts = 0;
+            settle();
+            break;
+          case 'nosub':
+            settle(new Error(`Rocket.Chat subscription failed: ${frame.error?.reason ?? 'unknown error'}`));
+            ws.close();
+            break;
+          case 'changed':
+            if (frame.collection === 'stream-room-messages') {
+              const message = frame.fields?.args?.[0] as RocketChatMessage | undefined;
+              const room = frame.fields?.args?.[1] as RocketChatRoomInfo | undefined;
+              if (message) this.processMessage(message, room);
+            }
+            break;
+        }
+      });
+
+      ws.on('error', (err: Error) => {
+        settle(err);
+      });
+
+      ws.on('close', () => {
+        settle(new Error('Rocket.Chat realtime connection closed during connect'));
+        if (this.ws !== ws) return;
+        this.ws = null;
+        if (this.running) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectAttempts++;
+    const delay = Math.min(RC_RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts - 1), RC_RECONNECT_MAX_MS);
+    const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.running) return;
+      this.connectRealtime().catch(() => {
+        // The close handler schedules the next attempt.
+      });
+    }, Math.max(0, delay + jitter));
+  }
+
+  // -----------------------------------------------------------------------
+  // Message processing
+  // -----------------------------------------------------------------------
+
+  private processMessage(message: RocketChatMessage, room?: RocketChatRoomInfo): void {
+    if (!this.messageHandler) return;
+
+    // Ignore system messages, edits, bots and ourselves.
+    if (message.t) return;
+    if (message.editedAt) return;
+    if (message.bot) return;
+    if (message.u._id === this.userId) return;
+
+    // Enforce allowed rooms/users.
+    if (this.allowedRooms.size > 0 && !this.allowedRooms.has(message.rid)) {
+      return;
+    }
+    if (
+      this.allowedUsers.size > 0 &&
+      !this.allowedUsers.has(message.u._id) &&
+      !this.allowedUsers.has(message.u.username)
+    ) {
+      return;
+    }
+
+    const attachments: Attachment[] = (message.files ?? []).map((f) => ({
+      type: this.classifyFile(f.type) as Attachment['type'],
+      url: `${this.serverUrl}/file-upload/${f._id}/${encodeURIComponent(f.name)}`,
+      filename: f.name,
+      mimeType: f.type,
+    }));
+
+    const timestamp = typeof message.ts === 'string'
+      ? new Date(message.ts)
+      : new Date(message.ts.$date);
+
+    const inbound: InboundMessage = {
+      id: message._id,
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId: message.u._id,
+        groupId: message.rid,
+        threadId: message.tmid,
+        isDirect: room?.roomType === 'd',
+      },
+      text: message.msg ?? '',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyTo: message.tmid,
+      timestamp,
+      raw: message,
+    };
+
+    this.messageHandler(inbound);
+  }
+
+  // -----------------------------------------------------------------------
+  // REST API
+  // -----------------------------------------------------------------------
+
+  private authHeaders(): Record<string, string> {
+    return { 'X-Auth-Token': this.authToken, 'X-User-Id': this.userId };
+  }
+
+  private async apiCall(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    body?: Record<string, unknown>,
+  ): Promise<RocketChatApiResponse> {
+    const response = await fetch(`${this.serverUrl}/api/v1/${endpoint}`, {
+      method,
+      headers: {
+        ...(this.authToken ? this.authHeaders() : {}),
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    return (await response.json()) as RocketChatApiResponse;
+  }
+
+  /**
+   * Resolve the room to post in. A recipient without a groupId is a user,
+   * reached through a direct message room opened by their username.
+   */
+  private async resolveRoom(to: Recipient): Promise<string | undefined> {
+    if (to.groupId) return to.groupId;
+    if (!to.userId) return undefined;
+
+    const cached = this.directRooms.get(to.userId);
+    if (cached) return cached;
+
+    const info = await this.apiCall('GET', `users.info?userId=${encodeURIComponent(to.userId)}`);
+    if (!info.success) {
+      throw new Error(`Rocket.Chat users.info failed: ${info.error ?? 'Unknown error'}`);
+    }
+    const im = await this.apiCall('POST', 'im.create', { username: info.user.username as string });
+    if (!im.success) {
+      throw new Error(`Rocket.Chat im.create failed: ${im.error ?? 'Unknown error'}`);
+    }
+    const roomId = im.room._id as string;
+    this.directRooms.set(to.userId, roomId);
+    return roomId;
+  }
+
+  /**
+   * Upload one attachment: stage the file with rooms.media, then post it
+   * with rooms.mediaConfirm. URL-only attachments are shared as links.
+   * Returns the ID of the message carrying the attachment.
+   */
+  private async sendAttachment(roomId: string, att: Attachment, tmid?: string): Promise<string | undefined> {
+    if (att.data) {
+      const form = new FormData();
+      form.append('file', new Blob([att.data], { type: att.mimeType }), att.filename ?? 'file');
+      const response = await fetch(`${this.serverUrl}/api/v1/rooms.media/${encodeURIComponent(roomId)}`, {
+        method: 'POST',
+        headers: this.authHeaders(),
+        body: form,
+      });
+      const staged = (await response.json()) as RocketChatApiResponse;
+      if (!staged.success) throw new Error(`Rocket.Chat rooms.media failed: ${staged.error ?? response.status}`);
+
+      const fileId = staged.file._id as string;
+      const done = await this.apiCall(
+        'POST',
+        `rooms.mediaConfirm/${encodeURIComponent(roomId)}/${encodeURIComponent(fileId)}`,
+        tmid ? { tmid } : {},
+      );
+      if (!done.success) throw new Error(`Rocket.Chat rooms.mediaConfirm failed: ${done.error ?? 'Unknown error'}`);
+      return (done.message as RocketChatMessage | undefined)?._id;
+    }
+
+    if (att.url) {
+      const result = await this.apiCall('POST', 'chat.sendMessage', {
+        message: {
+          rid: roomId,
+          msg: `📎 ${att.filename ?? 'attachment'}: ${att.url}`,
+          ...(tmid ? { tmid } : {}),
+        },
+      });
+      if (!result.success) throw new Error(`Rocket.Chat chat.sendMessage failed: ${result.error ?? 'Unknown error'}`);
+      return (result.message as RocketChatMessage)._id;
+    }
+
+    return undefined;
+  }
+
+  private classifyFile(mimeType: string): string {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    return 'file';
+  }
+}
@@ -11,6 +11,10 @@
  *   allowedNumbers    -- Array of phone numbers to accept messages from (empty = allow all)
  *   reconnectInterval -- Reconnect delay in ms (default: 5000)
  *
+ * Shows typing, reacts and sends read receipts through signal-cli's
+ * sendTyping, sendReaction and sendReceipt methods. Message ids are the
+ * messages' timestamps, which is how Signal addresses them.
+ *
  * Uses Node.js built-in `net.Socket` -- zero external dependencies.
  */
 
@@ -244,6 +248,45 @@ export class SignalChannel implements IChannel {
     }
   }
 
+  async setTyping(to: Recipient): Promise<void> {
+    if (!to.userId && !to.groupId) throw new Error('Recipient must have userId or groupId');
+    const params: Record<string, unknown> = { account: this.account };
+    if (to.groupId) {
+      params.groupId = to.groupId;
+    } else {
+      params.recipient = [to.userId];
+    }
+    await this.rpcCall('sendTyping', params);
+  }
+
+  /** React to a message. `to.userId` must be its author. */
+  async react(to: Recipient, messageId: string, emoji: string): Promise<void> {
+    if (!to.userId) throw new Error('Recipient must have userId (the message author)');
+    const params: Record<string, unknown> = {
+      account: this.account,
+      emoji,
+      targetAuthor: to.userId,
+      targetTimestamp: Number(messageId),
+    };
+    if (to.groupId) {
+      params.groupId = to.groupId;
+    } else {
+      params.recipient = [to.userId];
+    }
+    await this.rpcCall('sendReaction', params);
+  }
+
+  /** Send a read receipt to the message's author. */
+  async markRead(to: Recipient, messageId: string): Promise<void> {
+    if (!to.userId) throw new Error('Recipient must have userId (the message author)');
+    await this.rpcCall('sendReceipt', {
+      account: this.account,
+      recipient: to.userId,
+      targetTimestamp: [Number(messageId)],
+      type: 'read',
+    });
+  }
+
   onMessage(handler: (msg: InboundMessage) => void): void {
     this.messageHandler = handler;
   }
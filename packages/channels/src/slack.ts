@@ -20,6 +20,8 @@
  *   - Attachment support
  *   - Typing indicators (presence events)
  *   - Socket Mode for firewall-friendly connectivity
+ *   - Block Kit buttons for message actions
+ *   - Reactions, and a "typing" status in assistant threads
  */
 
 import type {
@@ -31,7 +33,9 @@ import type {
   SendResult,
   PresenceEvent,
   Attachment,
+  MessageAction,
 } from '@ch4p/core';
+import { readResponseBody } from '@ch4p/core';
 import WebSocket from 'ws';
 
 // ---------------------------------------------------------------------------
@@ -53,6 +57,17 @@ import { splitMessage, truncateMessage, evictOldTimestamps } from './message-uti
 const API_BASE = 'https://slack.com/api';
 const SLACK_MAX_MESSAGE_LEN = 4_000;
 const SLACK_EDIT_RATE_LIMIT_MS = 1_000;
+const SLACK_MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
+/** Block Kit limit for a section's text. */
+const SLACK_MAX_SECTION_LEN = 3_000;
+/** Slack reacts by emoji name, not by character. */
+const SLACK_EMOJI_NAMES: Record<string, string> = {
+  '👀': 'eyes',
+  '✅': 'white_check_mark',
+  '❌': 'x',
+  '👍': '+1',
+  '👎': '-1',
+};
 
 const SLACK_RECONNECT_BASE_MS = 1_000;
 const SLACK_RECONNECT_MAX_MS = 60_000;
@@ -62,6 +77,8 @@ interface SlackMessageEvent {
   type: string;
   subtype?: string;
   channel: string;
+  /** 'im' for a direct message, 'channel', 'group' or 'mpim' otherwise. */
+  channel_type?: string;
   user?: string;
   text?: string;
   ts: string;
@@ -89,6 +106,15 @@ interface SlackApiResponse {
   [key: string]: any;
 }
 
+/** Interactivity payload for a Block Kit button press. */
+interface SlackBlockActionsPayload {
+  type: 'block_actions';
+  user: { id: string };
+  channel?: { id: string };
+  message?: { ts: string; thread_ts?: string };
+  actions: Array<{ action_id: string; text?: { text: string } }>;
+}
+
 /** Socket Mode envelope. */
 interface SocketModeEnvelope {
   type: string;
@@ -108,6 +134,8 @@ interface SocketModeEnvelope {
 export class SlackChannel implements IChannel {
   readonly id = 'slack';
   readonly name = 'Slack';
+  readonly maxAttachmentBytes = SLACK_MAX_UPLOAD_BYTES;
+  readonly supportsActions = true;
 
   private botToken = '';
   private appToken = '';
@@ -194,12 +222,18 @@ export class SlackChannel implements IChannel {
       const chunks = splitMessage(message.text ?? '', SLACK_MAX_MESSAGE_LEN);
       let lastTs: string | undefined;
 
-      for (const chunk of chunks) {
+      for (const [i, chunk] of chunks.entries()) {
         const params: Record<string, unknown> = {
           channel,
           text: chunk,
         };
 
+        // Buttons go under the last chunk. With blocks, `text` is only the
+        // notification fallback, so the chunk is repeated as sections.
+        if (i === chunks.length - 1 && message.actions?.length) {
+          params.blocks = this.buildActionBlocks(chunk, message.actions);
+        }
+
         // Use mrkdwn formatting by default for Slack.
         if (message.format === 'markdown' || !message.format) {
           params.mrkdwn = true;
@@ -268,6 +302,33 @@ export class SlackChannel implements IChannel {
     }
   }
 
+  /**
+   * Show a "typing" status. Slack only has one for apps in assistant
+   * threads (the assistant:write scope), so elsewhere this does nothing.
+   */
+  async setTyping(to: Recipient): Promise<void> {
+    const channel = to.groupId ?? to.userId;
+    if (!channel || !to.threadId) return;
+    const result = await this.apiCall('assistant.threads.setStatus', {
+      channel_id: channel,
+      thread_ts: to.threadId,
+      status: 'is typing...',
+    });
+    if (!result.ok) throw new Error(result.error ?? 'assistant.threads.setStatus failed');
+  }
+
+  /** React with a Unicode emoji from SLACK_EMOJI_NAMES or a Slack emoji name. */
+  async react(to: Recipient, messageId: string, emoji: string): Promise<void> {
+    const channel = to.groupId ?? to.userId;
+    if (!channel) throw new Error('Recipient must have groupId or userId');
+    const name = SLACK_EMOJI_NAMES[emoji] ?? emoji.replace(/^:|:$/g, '');
+    if (!/^[\w+-]+$/.test(name)) throw new Error(`No Slack emoji name for ${emoji}`);
+    const result = await this.apiCall('reactions.add', { channel, timestamp: messageId, name });
+    if (!result.ok && result.error !== 'already_reacted') {
+      throw new Error(result.error ?? 'reactions.add failed');
+    }
+  }
+
   /** Return the configured stream mode. */
   getStreamMode(): 'off' | 'edit' | 'block' {
     return this.streamMode;
@@ -316,6 +377,13 @@ export class SlackChannel implements IChannel {
       };
     }
 
+    // Button press, when the interactivity request URL points here. Slack
+    // posts it form-encoded; the caller passes the parsed `payload` field.
+    if (type === 'block_actions') {
+      this.processBlockActions(body as unknown as SlackBlockActionsPayload);
+      return { status: 200, body: { ok: true } };
+    }
+
     // Event callback.
     if (type === 'event_callback') {
       const event = body.event as SlackMessageEvent | undefined;
@@ -442,6 +510,8 @@ export class SlackChannel implements IChannel {
 
     if (envelope.type === 'events_api' && envelope.payload?.event) {
       this.processEvent(envelope.payload.event);
+    } else if (envelope.type === 'interactive' && envelope.payload?.type === 'block_actions') {
+      this.processBlockActions(envelope.payload as unknown as SlackBlockActionsPayload);
     }
   }
 
@@ -498,6 +568,7 @@ export class SlackChannel implements IChannel {
         userId,
         groupId: event.channel,
         threadId: event.thread_ts,
+        isDirect: event.channel_type === 'im',
       },
       text: event.text ?? '',
       attachments: attachments.length > 0 ? attachments : undefined,
@@ -509,6 +580,66 @@ export class SlackChannel implements IChannel {
     this.messageHandler(inbound);
   }
 
+  /**
+   * Deliver a button press as a message from the presser, in the channel
+   * and thread of the message carrying the button. The button's label
+   * becomes the text and its action_id the action.
+   */
+  private processBlockActions(payload: SlackBlockActionsPayload): void {
+    if (!this.messageHandler) return;
+
+    const action = payload.actions?.[0];
+    const channel = payload.channel?.id;
+    if (!action || !channel || !payload.message) return;
+
+    const userId = payload.user.id;
+    if (this.allowedChannels.size > 0 && !this.allowedChannels.has(channel)) {
+      return;
+    }
+    if (this.allowedUsers.size > 0 && !this.allowedUsers.has(userId)) {
+      return;
+    }
+
+    const { ts, thread_ts: threadTs } = payload.message;
+    this.messageHandler({
+      id: ts,
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId,
+        groupId: channel,
+        threadId: threadTs,
+        // Interactivity payloads carry no channel type; DM ids start with D.
+        isDirect: channel.startsWith('D'),
+      },
+      text: action.text?.text ?? action.action_id,
+      action: action.action_id,
+      replyTo: threadTs,
+      timestamp: new Date(),
+      raw: payload,
+    });
+  }
+
+  /**
+   * Download an inbound file. Slack's url_private links need the bot token,
+   * which is only ever sent to slack.com hosts.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    const url = attachment.url ? new URL(attachment.url) : null;
+    if (!url || url.protocol !== 'https:' || !url.hostname.endsWith('.slack.com')) {
+      throw new Error('Not a Slack file URL');
+    }
+
+    const response = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${this.botToken}` },
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Slack file download failed (${response.status})`);
+    }
+    return readResponseBody(response, maxBytes);
+  }
+
   // -----------------------------------------------------------------------
   // Web API
   // -----------------------------------------------------------------------
@@ -529,13 +660,45 @@ export class SlackChannel implements IChannel {
     return (await response.json()) as SlackApiResponse;
   }
 
+  /** Web API call for methods that only accept form-encoded arguments. */
+  private async formCall(method: string, params: Record<string, string>): Promise<SlackApiResponse> {
+    const response = await fetch(`${API_BASE}/${method}`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${this.botToken}` },
+      body: new URLSearchParams(params),
+    });
+
+    return (await response.json()) as SlackApiResponse;
+  }
+
   private async uploadFile(
     channel: string,
     att: Attachment,
     threadTs?: string,
   ): Promise<void> {
-    // Use files.uploadV2 if we have the file data or URL.
-    // For simplicity, share the URL as a text message if no data is available.
+    // File data goes through the external upload flow: reserve an upload
+    // URL, POST the bytes there, then share the file into the channel.
+    if (att.data) {
+      const filename = att.filename ?? 'file';
+      const ticket = await this.formCall('files.getUploadURLExternal', {
+        filename,
+        length: String(att.data.length),
+      });
+      if (!ticket.ok) throw new Error(`files.getUploadURLExternal failed: ${ticket.error}`);
+
+      const upload = await fetch(ticket.upload_url as string, { method: 'POST', body: att.data });
+      if (!upload.ok) throw new Error(`Slack file upload failed (${upload.status})`);
+
+      const done = await this.formCall('files.completeUploadExternal', {
+        files: JSON.stringify([{ id: ticket.file_id, title: filename }]),
+        channel_id: channel,
+        ...(threadTs ? { thread_ts: threadTs } : {}),
+      });
+      if (!done.ok) throw new Error(`files.completeUploadExternal failed: ${done.error}`);
+      return;
+    }
+
+    // Without data, share the URL as a text message.
     if (att.url) {
       await this.apiCall('chat.postMessage', {
         channel,
@@ -545,6 +708,29 @@ export class SlackChannel implements IChannel {
     }
   }
 
+  /** Block Kit for a message with buttons: the text as sections, then the buttons. */
+  private buildActionBlocks(text: string, actions: MessageAction[]): Record<string, unknown>[] {
+    const sections = text
+      ? splitMessage(text, SLACK_MAX_SECTION_LEN).map((part) => ({
+        type: 'section',
+        text: { type: 'mrkdwn', text: part },
+      }))
+      : [];
+    return [
+      ...sections,
+      {
+        type: 'actions',
+        elements: actions.map((a) => ({
+          type: 'button',
+          text: { type: 'plain_text', text: a.label },
+          action_id: a.id,
+          value: a.id,
+          ...(a.style ? { style: a.style } : {}),
+        })),
+      },
+    ];
+  }
+
   private classifyFile(mimeType: string): string {
     if (mimeType.startsWith('image/')) return 'image';
     if (mimeType.startsWith('audio/')) return 'audio';
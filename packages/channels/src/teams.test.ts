@@ -407,6 +407,115 @@ describe('TeamsChannel', () => {
     });
   });
 
+  // ---- Message actions ----
+
+  describe('message actions', () => {
+    it('should advertise action support', () => {
+      expect(channel.supportsActions).toBe(true);
+    });
+
+    it('should attach an Adaptive Card with Action.Submit buttons', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse());
+      await channel.start(baseConfig);
+
+      channel.onMessage(() => {});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      channel.handleIncomingActivity(createMessageActivity() as any);
+
+      fetchMock.mockResolvedValueOnce(activityResponse());
+
+      await channel.send(
+        { channelId: 'conv-1', userId: 'user-1' },
+        {
+          text: 'Run it?',
+          actions: [
+            { id: 'run', label: 'Run', style: 'primary' },
+            { id: 'skip', label: 'Skip', style: 'danger' },
+            { id: 'later', label: 'Later' },
+          ],
+        },
+      );
+
+      const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+      expect(body.text).toBe('Run it?');
+      expect(body.attachments).toHaveLength(1);
+      expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+      expect(body.attachments[0].content.actions).toEqual([
+        { type: 'Action.Submit', title: 'Run', data: { actionId: 'run', label: 'Run' }, style: 'positive' },
+        { type: 'Action.Submit', title: 'Skip', data: { actionId: 'skip', label: 'Skip' }, style: 'destructive' },
+        { type: 'Action.Submit', title: 'Later', data: { actionId: 'later', label: 'Later' } },
+      ]);
+    });
+
+    it('should send no attachments without actions', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse());
+      await channel.start(baseConfig);
+
+      channel.onMessage(() => {});
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      channel.handleIncomingActivity(createMessageActivity() as any);
+
+      fetchMock.mockResolvedValueOnce(activityResponse());
+      await channel.send({ channelId: 'conv-1', userId: 'user-1' }, { text: 'Plain' });
+
+      const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+      expect(body.attachments).toBeUndefined();
+    });
+
+    it('should deliver a button press as an inbound action', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse());
+      await channel.start(baseConfig);
+
+      const received: InboundMessage[] = [];
+      channel.onMessage((msg) => received.push(msg));
+
+      channel.handleIncomingActivity(
+        createMessageActivity({
+          text: undefined,
+          value: { actionId: 'run', label: 'Run' },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        }) as any,
+      );
+
+      expect(received).toHaveLength(1);
+      expect(received[0]!.text).toBe('Run');
+      expect(received[0]!.action).toBe('run');
+    });
+
+    it('should ignore submit data from other cards', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse());
+      await channel.start(baseConfig);
+
+      const received: InboundMessage[] = [];
+      channel.onMessage((msg) => received.push(msg));
+
+      channel.handleIncomingActivity(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        createMessageActivity({ text: undefined, value: { choice: 'a' } }) as any,
+      );
+
+      expect(received).toHaveLength(0);
+    });
+
+    it('should apply allowedUsers to button presses', async () => {
+      fetchMock.mockResolvedValueOnce(tokenResponse());
+      await channel.start({ ...baseConfig, allowedUsers: ['allowed-aad-id'] });
+
+      const received: InboundMessage[] = [];
+      channel.onMessage((msg) => received.push(msg));
+
+      channel.handleIncomingActivity(
+        createMessageActivity({
+          text: undefined,
+          value: { actionId: 'run', label: 'Run' },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        }) as any,
+      );
+
+      expect(received).toHaveLength(0);
+    });
+  });
+
   // ---- Edit message ----
 
   describe('editMessage', () => {
@@ -16,6 +16,7 @@
  *   - Text message receiving and sending
  *   - Reply-to support via replyTo activity ID
  *   - Edit message support (for streaming via edit-based approach)
+ *   - Adaptive Card buttons for message actions
  *   - Health check via token acquisition
  *
  * Security:
@@ -31,6 +32,7 @@ import type {
   InboundMessage,
   OutboundMessage,
   SendResult,
+  MessageAction,
 } from '@ch4p/core';
 
 // ---------------------------------------------------------------------------
@@ -59,8 +61,20 @@ interface Activity {
   serviceUrl?: string;
   channelData?: Record<string, unknown>;
   replyToId?: string;
+  attachments?: Array<{ contentType: string; content: unknown }>;
+  /** Data of the Action.Submit button that sent this activity. */
+  value?: unknown;
 }
 
+/** Action.Submit data on the buttons this channel sends. */
+interface SubmitData {
+  actionId: string;
+  label: string;
+}
+
+/** Action.Submit styles by MessageAction style. */
+const SUBMIT_STYLE = { primary: 'positive', danger: 'destructive' } as const;
+
 // Token endpoint.
 const TOKEN_URL = 'https://login.microsoftonline.com/botframework.com/oauth2/v2.0/token';
 const BOT_FRAMEWORK_SCOPE = 'https://api.botframework.com/.default';
@@ -72,6 +86,7 @@ const BOT_FRAMEWORK_SCOPE = 'https://api.botframework.com/.default';
 export class TeamsChannel implements IChannel {
   readonly id = 'teams';
   readonly name = 'Microsoft Teams';
+  readonly supportsActions = true;
 
   private config: TeamsConfig | null = null;
   private messageHandler: ((msg: InboundMessage) => void) | null = null;
@@ -141,6 +156,10 @@ export class TeamsChannel implements IChannel {
         activity.replyToId = message.replyTo;
       }
 
+      if (message.actions?.length) {
+        activity.attachments = [this.buildActionCard(message.actions)];
+      }
+
       const url = `${serviceUrl}v3/conversations/${encodeURIComponent(conversationId)}/activities`;
       const response = await fetch(url, {
         method: 'POST',
@@ -238,7 +257,10 @@ export class TeamsChannel implements IChannel {
 
     // Only process message activities.
     if (activity.type !== 'message') return;
-    if (!activity.text) return;
+
+    // A card button press carries its Action.Submit data instead of text.
+    const submit = this.submitData(activity.value);
+    if (!activity.text && !submit) return;
 
     // Skip messages from the bot itself.
     if (activity.from?.id === this.config.appId) return;
@@ -260,7 +282,8 @@ export class TeamsChannel implements IChannel {
         userId,
         groupId: activity.conversation?.isGroup ? conversationId : undefined,
       },
-      text: activity.text,
+      text: submit ? submit.label : activity.text ?? '',
+      ...(submit ? { action: submit.actionId } : {}),
       timestamp: activity.timestamp ? new Date(activity.timestamp) : new Date(),
       raw: activity,
     };
@@ -268,6 +291,37 @@ export class TeamsChannel implements IChannel {
     this.messageHandler(inbound);
   }
 
+  // ---------------------------------------------------------------------------
+  // Adaptive Card actions
+  // ---------------------------------------------------------------------------
+
+  /** An Adaptive Card holding only the buttons; the text stays in the activity. */
+  private buildActionCard(actions: MessageAction[]): { contentType: string; content: unknown } {
+    return {
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.4',
+        body: [],
+        actions: actions.map((a) => ({
+          type: 'Action.Submit',
+          title: a.label,
+          data: { actionId: a.id, label: a.label } satisfies SubmitData,
+          ...(a.style ? { style: SUBMIT_STYLE[a.style] } : {}),
+        })),
+      },
+    };
+  }
+
+  /** The submit data of one of our buttons, or null for anything else. */
+  private submitData(value: unknown): SubmitData | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const { actionId, label } = value as Partial<SubmitData>;
+    if (typeof actionId !== 'string' || typeof label !== 'string') return null;
+    return { actionId, label };
+  }
+
   // ---------------------------------------------------------------------------
   // OAuth2 token management
   // ---------------------------------------------------------------------------
@@ -275,4 +275,202 @@ describe('TelegramChannel — topic/forum support', () => {
       expect(makeTelegramChannel().getStreamMode()).toBe('off');
     });
   });
+
+  describe('send — attachment uploads', () => {
+    it('uploads attachment data as multipart and falls back to sendDocument for large photos', async () => {
+      const ch = new TelegramChannel();
+      // @ts-expect-error — bypass private field for testing
+      ch.baseUrl = 'https://api.telegram.org/botTEST';
+      const spy = vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({ ok: true, result: { message_id: 1 } }),
+      } as Response);
+
+      await ch.send({ channelId: 'telegram', userId: '1' }, {
+        text: 'Here you go',
+        attachments: [
+          { type: 'image', data: Buffer.from('png'), mimeType: 'image/png', filename: 'chart.png' },
+          { type: 'image', data: Buffer.alloc(11 * 1024 * 1024), filename: 'huge.png' },
+        ],
+      });
+
+      expect(spy.mock.calls[1]![0]).toBe('https://api.telegram.org/botTEST/sendPhoto');
+      const form = spy.mock.calls[1]![1]!.body as FormData;
+      expect(form.get('chat_id')).toBe('1');
+      expect((form.get('photo') as File).name).toBe('chart.png');
+      expect(spy.mock.calls[2]![0]).toBe('https://api.telegram.org/botTEST/sendDocument');
+      spy.mockRestore();
+    });
+  });
+
+  describe('fetchAttachment', () => {
+    function makeChannel() {
+      const ch = new TelegramChannel();
+      // @ts-expect-error — bypass private field for testing
+      ch.baseUrl = 'https://api.telegram.org/botTEST';
+      // @ts-expect-error
+      ch.token = 'TEST';
+      return ch;
+    }
+
+    it('resolves the file_id and downloads the file', async () => {
+      const spy = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ok: true, result: { file_id: 'f1', file_path: 'photos/p.jpg' } }),
+        } as Response)
+        .mockResolvedValueOnce(new Response(Buffer.from('jpeg-bytes')));
+
+      const data = await makeChannel().fetchAttachment({ type: 'image', url: 'f1' }, 1024);
+
+      expect(data.toString()).toBe('jpeg-bytes');
+      expect(spy.mock.calls[1]![0]).toBe('https://api.telegram.org/file/botTEST/photos/p.jpg');
+      spy.mockRestore();
+    });
+
+    it('rejects files over the size limit', async () => {
+      const spy = vi.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ok: true, result: { file_id: 'f1', file_path: 'docs/big.pdf' } }),
+        } as Response)
+        .mockResolvedValueOnce(new Response(Buffer.alloc(2048)));
+
+      await expect(makeChannel().fetchAttachment({ type: 'file', url: 'f1' }, 1024)).rejects.toThrow(/exceeds 1024 bytes/);
+      spy.mockRestore();
+    });
+  });
+
+  describe('message actions', () => {
+    function makeChannel() {
+      const ch = new TelegramChannel();
+      // @ts-expect-error — bypass private field for testing
+      ch.baseUrl = 'https://api.telegram.org/botTEST';
+      // @ts-expect-error
+      ch.abortController = new AbortController();
+      return ch;
+    }
+
+    it('sends actions as an inline keyboard under the last chunk', async () => {
+      const channel = makeChannel();
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({ ok: true, result: { message_id: 200 } }),
+      } as Response);
+
+      await channel.send({ channelId: 'telegram', userId: '42' }, {
+        text: 'x'.repeat(5000),
+        actions: [
+          { id: 'a', label: 'One' },
+          { id: 'b', label: 'Two' },
+          { id: 'c', label: 'Three' },
+          { id: 'd', label: 'Four' },
+        ],
+      });
+
+      const bodies = fetchSpy.mock.calls.map((call) => JSON.parse(call[1]!.body as string));
+      expect(bodies).toHaveLength(2);
+      expect(bodies[0].reply_markup).toBeUndefined();
+      expect(bodies[1].reply_markup).toEqual({
+        inline_keyboard: [
+          [{ text: 'One', callback_data: 'a' }, { text: 'Two', callback_data: 'b' }, { text: 'Three', callback_data: 'c' }],
+          [{ text: 'Four', callback_data: 'd' }],
+        ],
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it('delivers a button press as a message with the action id', () => {
+      const channel = makeChannel();
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({ ok: true, result: true }),
+      } as Response);
+      let captured: Parameters<Parameters<typeof channel.onMessage>[0]>[0] | undefined;
+      channel.onMessage((msg) => { captured = msg; });
+
+      channel.handleWebhookUpdate({
+        update_id: 2,
+        callback_query: {
+          id: 'cb1',
+          from: { id: 42, first_name: 'Test' },
+          data: 'approval:call1:approve',
+          message: {
+            message_id: 200,
+            chat: { id: 1000, type: 'supergroup' },
+            message_thread_id: 7,
+            is_topic_message: true,
+            date: 0,
+            reply_markup: { inline_keyboard: [[{ text: 'Approve', callback_data: 'approval:call1:approve' }]] },
+          },
+        },
+      });
+
+      expect(captured).toMatchObject({
+        id: '200',
+        from: { channelId: 'telegram', userId: '42', groupId: '1000', threadId: '7' },
+        text: 'Approve',
+        action: 'approval:call1:approve',
+      });
+      expect(fetchSpy.mock.calls[0]![0]).toBe('https://api.telegram.org/botTEST/answerCallbackQuery');
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('typing and reactions', () => {
+    function makeChannel() {
+      const channel = makeTelegramChannel();
+      // @ts-expect-error — bypass private field for testing
+      channel.baseUrl = 'https://api.telegram.org/botTEST';
+      // @ts-expect-error
+      channel.abortController = new AbortController();
+      return channel;
+    }
+
+    function mockFetch() {
+      return vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({ ok: true, result: true }),
+      } as Response);
+    }
+
+    it('sends a typing chat action into the topic', async () => {
+      const channel = makeChannel();
+      const fetchSpy = mockFetch();
+
+      await channel.setTyping({ channelId: 'telegram', userId: '42', groupId: '1000', threadId: '7' });
+
+      expect(fetchSpy.mock.calls[0]![0]).toBe('https://api.telegram.org/botTEST/sendChatAction');
+      const body = JSON.parse(fetchSpy.mock.calls[0]![1]!.body as string);
+      expect(body).toEqual({ chat_id: '1000', action: 'typing', message_thread_id: 7 });
+      fetchSpy.mockRestore();
+    });
+
+    it('sets a reaction, standing in for emoji bots cannot use', async () => {
+      const channel = makeChannel();
+      const fetchSpy = mockFetch();
+
+      await channel.react({ channelId: 'telegram', userId: '42' }, '100', '👀');
+      await channel.react({ channelId: 'telegram', userId: '42' }, '100', '✅');
+
+      expect(fetchSpy.mock.calls[0]![0]).toBe('https://api.telegram.org/botTEST/setMessageReaction');
+      const first = JSON.parse(fetchSpy.mock.calls[0]![1]!.body as string);
+      expect(first).toEqual({ chat_id: '42', message_id: 100, reaction: [{ type: 'emoji', emoji: '👀' }] });
+      const second = JSON.parse(fetchSpy.mock.calls[1]![1]!.body as string);
+      expect(second.reaction).toEqual([{ type: 'emoji', emoji: '👍' }]);
+      fetchSpy.mockRestore();
+    });
+
+    it('rejects when the API refuses the reaction', async () => {
+      const channel = makeChannel();
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+        ok: false,
+        json: async () => ({ ok: false, description: 'Bad Request: REACTION_INVALID' }),
+      } as Response);
+
+      await expect(channel.react({ channelId: 'telegram', userId: '42' }, '100', '🦜'))
+        .rejects.toThrow('REACTION_INVALID');
+      fetchSpy.mockRestore();
+    });
+  });
 });
@@ -11,6 +11,10 @@
  *   pollInterval — Polling interval in ms (default: 1000)
  *   allowedUsers — Array of allowed user IDs (empty = allow all)
  *
+ * Message actions are sent as inline keyboards; presses arrive as
+ * callback queries. Typing uses sendChatAction and reactions use
+ * setMessageReaction.
+ *
  * Uses raw fetch() — zero external dependencies.
  */
 
@@ -23,9 +27,10 @@ import type {
   SendResult,
   PresenceEvent,
   Attachment,
+  MessageAction,
 } from '@ch4p/core';
-import { generateId } from '@ch4p/core';
-import { splitMessage, truncateMessage, evictOldTimestamps } from './message-utils.js';
+import { generateId, readResponseBody } from '@ch4p/core';
+import { splitMessage, truncateMessage, evictOldTimestamps, actionRows } from './message-utils.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -49,6 +54,16 @@ const WEBHOOK_TIMEOUT_MS = 8_000;
 /** Minimum interval between message edits for streaming (Telegram rate limit). */
 const TELEGRAM_MAX_MESSAGE_LEN = 4_096;
 const TELEGRAM_EDIT_RATE_LIMIT_MS = 1_000;
+/** Bot API upload limits: 50 MB for files, 10 MB for photos. */
+const TELEGRAM_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const TELEGRAM_MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+/** Inline keyboard buttons per row. */
+const TELEGRAM_BUTTONS_PER_ROW = 3;
+/**
+ * Bots may only react with Telegram's fixed emoji set. Stand-ins for common
+ * emoji that aren't in it.
+ */
+const TELEGRAM_REACTION_FALLBACK: Record<string, string> = { '✅': '👍', '❌': '👎' };
 
 /** Minimal Telegram API response shape. */
 interface TelegramResponse<T = unknown> {
@@ -61,6 +76,21 @@ interface TelegramResponse<T = unknown> {
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+/** Minimal Telegram CallbackQuery — an inline keyboard button press. */
+interface TelegramCallbackQuery {
+  id: string;
+  from: { id: number; first_name?: string; username?: string };
+  message?: TelegramMessage;
+  data?: string;
+}
+
+/** Inline keyboard button as sent and as echoed back on the message. */
+interface TelegramInlineButton {
+  text: string;
+  callback_data?: string;
 }
 
 /** Minimal Telegram Message object. */
@@ -80,6 +110,7 @@ interface TelegramMessage {
   audio?: { file_id: string; duration: number; mime_type?: string; title?: string };
   video?: { file_id: string; duration: number; mime_type?: string };
   reply_to_message?: { message_id: number };
+  reply_markup?: { inline_keyboard?: TelegramInlineButton[][] };
 }
 
 /** Telegram File response from getFile API. */
@@ -96,6 +127,8 @@ interface TelegramFile {
 export class TelegramChannel implements IChannel {
   readonly id = 'telegram';
   readonly name = 'Telegram';
+  readonly maxAttachmentBytes = TELEGRAM_MAX_UPLOAD_BYTES;
+  readonly supportsActions = true;
 
   private token = '';
   private baseUrl = '';
@@ -201,7 +234,8 @@ export class TelegramChannel implements IChannel {
       // Split long messages into chunks that fit within Telegram's 4096-char limit.
       const chunks = splitMessage(rawText ?? '', TELEGRAM_MAX_MESSAGE_LEN);
       let lastMessageId: string | undefined;
-      for (const chunk of chunks) {
+      for (const [i, chunk] of chunks.entries()) {
+        const isLast = i === chunks.length - 1;
         const params: Record<string, unknown> = {
           chat_id: chatId,
           text: chunk,
@@ -209,6 +243,8 @@ export class TelegramChannel implements IChannel {
           ...(message.replyTo && !lastMessageId ? { reply_to_message_id: Number(message.replyTo) } : {}),
           // Thread replies: send into the correct forum topic.
           ...(to.threadId ? { message_thread_id: Number(to.threadId) } : {}),
+          // Buttons go under the last chunk.
+          ...(isLast && message.actions?.length ? { reply_markup: this.inlineKeyboard(message.actions) } : {}),
         };
         const result = await this.apiCall<TelegramMessage>('sendMessage', params);
         lastMessageId = result ? String(result.message_id) : undefined;
@@ -279,6 +315,32 @@ export class TelegramChannel implements IChannel {
     }
   }
 
+  /** Show "typing…" for about five seconds or until the next message. */
+  async setTyping(to: Recipient): Promise<void> {
+    // In groups the indicator and the message belong to the group chat.
+    const chatId = to.groupId ?? to.userId;
+    if (!chatId) throw new Error('Recipient must have userId or groupId');
+    await this.apiCall('sendChatAction', {
+      chat_id: chatId,
+      action: 'typing',
+      ...(to.threadId ? { message_thread_id: Number(to.threadId) } : {}),
+    });
+  }
+
+  /**
+   * React to a message. Bots get one reaction per message, so this replaces
+   * the previous one.
+   */
+  async react(to: Recipient, messageId: string, emoji: string): Promise<void> {
+    const chatId = to.groupId ?? to.userId;
+    if (!chatId) throw new Error('Recipient must have userId or groupId');
+    await this.apiCall('setMessageReaction', {
+      chat_id: chatId,
+      message_id: Number(messageId),
+      reaction: [{ type: 'emoji', emoji: TELEGRAM_REACTION_FALLBACK[emoji] ?? emoji }],
+    });
+  }
+
   onMessage(handler: (msg: InboundMessage) => void): void {
     this.messageHandler = handler;
   }
@@ -325,6 +387,8 @@ export class TelegramChannel implements IChannel {
 
     if (update.message) {
       this.processMessage(update.message);
+    } else if (update.callback_query) {
+      this.processCallbackQuery(update.callback_query);
     }
   }
 
@@ -377,6 +441,8 @@ export class TelegramChannel implements IChannel {
             this.pollOffset = update.update_id + 1;
             if (update.message) {
               this.processMessage(update.message);
+            } else if (update.callback_query) {
+              this.processCallbackQuery(update.callback_query);
             }
           }
         }
@@ -476,17 +542,72 @@ export class TelegramChannel implements IChannel {
     this.messageHandler(inbound);
   }
 
+  /**
+   * Deliver an inline keyboard press as a message from the presser, in the
+   * chat (and topic) of the message carrying the keyboard. The button's
+   * label becomes the text and its callback data the action.
+   */
+  private processCallbackQuery(query: TelegramCallbackQuery): void {
+    // Stop the client's loading spinner whatever happens next.
+    this.apiCall('answerCallbackQuery', { callback_query_id: query.id }).catch(() => {});
+
+    if (!this.messageHandler || !query.data || !query.message) return;
+
+    const userId = String(query.from.id);
+    if (this.allowedUsers.size > 0 && !this.allowedUsers.has(userId)) {
+      return;
+    }
+
+    const msg = query.message;
+    const isGroup = msg.chat.type !== 'private';
+    const threadId = (isGroup && msg.is_topic_message && msg.message_thread_id !== undefined)
+      ? String(msg.message_thread_id)
+      : undefined;
+    const button = (msg.reply_markup?.inline_keyboard ?? [])
+      .flat()
+      .find((b) => b.callback_data === query.data);
+
+    this.messageHandler({
+      id: String(msg.message_id),
+      channelId: this.id,
+      from: {
+        channelId: this.id,
+        userId,
+        groupId: isGroup ? String(msg.chat.id) : undefined,
+        threadId,
+      },
+      text: button?.text ?? query.data,
+      action: query.data,
+      timestamp: new Date(),
+      raw: query,
+    });
+  }
+
+  /** Build an inline keyboard whose buttons send their action id back. */
+  private inlineKeyboard(actions: MessageAction[]): { inline_keyboard: TelegramInlineButton[][] } {
+    return {
+      inline_keyboard: actionRows(actions, TELEGRAM_BUTTONS_PER_ROW)
+        .map((row) => row.map((a) => ({ text: a.label, callback_data: a.id }))),
+    };
+  }
+
   // -----------------------------------------------------------------------
   // API helpers
   // -----------------------------------------------------------------------
 
-  private async apiCall<T>(method: string, params?: Record<string, unknown>, signal?: AbortSignal): Promise<T | null> {
+  private async apiCall<T>(
+    method: string,
+    params?: Record<string, unknown> | FormData,
+    signal?: AbortSignal,
+  ): Promise<T | null> {
     const url = `${this.baseUrl}/${method}`;
 
+    // File uploads go as multipart; fetch sets the boundary header itself.
+    const isForm = params instanceof FormData;
     const response = await fetch(url, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: params ? JSON.stringify(params) : undefined,
+      headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+      body: isForm ? params : params ? JSON.stringify(params) : undefined,
       signal: signal ?? this.abortController?.signal,
     });
 
@@ -533,6 +654,22 @@ export class TelegramChannel implements IChannel {
     }
   }
 
+  /**
+   * Download an inbound attachment. Telegram attachments carry a file_id
+   * in `url`, resolved through getFile.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    const url = attachment.url ? await this.getFileUrl(attachment.url) : null;
+    if (!url) throw new Error('Could not resolve Telegram file');
+
+    const response = await fetch(url, { signal: this.abortController?.signal });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Telegram file download failed (${response.status})`);
+    }
+    return readResponseBody(response, maxBytes);
+  }
+
   private async sendAttachment(chatId: string, att: Attachment, threadId?: string): Promise<void> {
     // Detect OGG/Opus audio and use sendVoice (Telegram voice message) instead of sendAudio.
     const isVoice =
@@ -548,7 +685,7 @@ export class TelegramChannel implements IChannel {
     if (isVoice) {
       method = 'sendVoice';
       paramKey = 'voice';
-    } else if (att.type === 'image') {
+    } else if (att.type === 'image' && (att.data?.length ?? 0) <= TELEGRAM_MAX_PHOTO_BYTES) {
       method = 'sendPhoto';
       paramKey = 'photo';
     } else if (att.type === 'audio') {
@@ -562,6 +699,15 @@ export class TelegramChannel implements IChannel {
       paramKey = 'document';
     }
 
+    if (att.data) {
+      const form = new FormData();
+      form.append('chat_id', chatId);
+      if (threadId) form.append('message_thread_id', threadId);
+      form.append(paramKey, new Blob([att.data], { type: att.mimeType }), att.filename ?? 'file');
+      await this.apiCall(method, form);
+      return;
+    }
+
     await this.apiCall(method, {
       chat_id: chatId,
       [paramKey]: att.url ?? att.filename ?? '',
@@ -27,7 +27,7 @@ import type {
   PresenceEvent,
   Attachment,
 } from '@ch4p/core';
-import { generateId } from '@ch4p/core';
+import { generateId, readResponseBody } from '@ch4p/core';
 import { splitMessage, truncateMessage, evictOldTimestamps } from './message-utils.js';
 
 // ---------------------------------------------------------------------------
@@ -108,6 +108,13 @@ interface MediaUrlResponse {
 
 const WA_MAX_MESSAGE_LEN = 4_096;
 const WA_EDIT_RATE_LIMIT_MS = 1_000;
+/** Cloud API media limits: documents 100 MB, audio/video 16 MB, images 5 MB. */
+const WA_MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
+const WA_MAX_MEDIA_BYTES: Partial<Record<Attachment['type'], number>> = {
+  image: 5 * 1024 * 1024,
+  audio: 16 * 1024 * 1024,
+  video: 16 * 1024 * 1024,
+};
 
 // ---------------------------------------------------------------------------
 // WhatsAppChannel
@@ -116,6 +123,7 @@ const WA_EDIT_RATE_LIMIT_MS = 1_000;
 export class WhatsAppChannel implements IChannel {
   readonly id = 'whatsapp';
   readonly name = 'WhatsApp';
+  readonly maxAttachmentBytes = WA_MAX_DOCUMENT_BYTES;
 
   private accessToken = '';
   private phoneNumberId = '';
@@ -374,6 +382,26 @@ export class WhatsAppChannel implements IChannel {
     }
   }
 
+  /**
+   * Download an inbound attachment. WhatsApp attachments carry a Cloud API
+   * media ID in `url`; same two steps as downloadMedia, with a size cap.
+   */
+  async fetchAttachment(attachment: Attachment, maxBytes: number): Promise<Buffer> {
+    const meta = attachment.url
+      ? await this.graphApiCall<MediaUrlResponse>(attachment.url, 'GET')
+      : null;
+    if (!meta?.url) throw new Error('Could not resolve WhatsApp media');
+
+    const response = await fetch(meta.url, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`WhatsApp media download failed (${response.status})`);
+    }
+    return readResponseBody(response, maxBytes);
+  }
+
   // -----------------------------------------------------------------------
   // Message processing
   // -----------------------------------------------------------------------
@@ -489,12 +517,14 @@ export class WhatsAppChannel implements IChannel {
       const mediaId = await this.uploadMedia(att);
       if (!mediaId) return;
 
-      const waType = this.attachmentTypeToWaType(att.type);
+      // Media over its type's limit can still go as a document.
+      const tooBig = att.data.length > (WA_MAX_MEDIA_BYTES[att.type] ?? Infinity);
+      const waType = tooBig ? 'document' : this.attachmentTypeToWaType(att.type);
       const body: Record<string, unknown> = {
         messaging_product: 'whatsapp',
         to: recipient,
         type: waType,
-        [waType]: { id: mediaId },
+        [waType]: waType === 'document' && att.filename ? { id: mediaId, filename: att.filename } : { id: mediaId },
       };
 
       await this.graphApiCall(`${this.phoneNumberId}/messages`, 'POST', body);
@@ -7,6 +7,7 @@ import {
   MemoryError,
   EngineError,
   ConfigError,
+  BudgetExceededError,
 } from './index.js';
 
 // ─── Ch4pError (base class) ─────────────────────────────────────────────────
@@ -303,6 +304,18 @@ describe('ConfigError', () => {
   });
 });
 
+// ─── BudgetExceededError ─────────────────────────────────────────────────────
+
+describe('BudgetExceededError', () => {
+  it('sets code and name', () => {
+    const err = new BudgetExceededError('daily cap reached', { scope: 'user' });
+    expect(err.code).toBe('BUDGET_EXCEEDED');
+    expect(err.name).toBe('BudgetExceededError');
+    expect(err.context).toEqual({ scope: 'user' });
+    expect(err).toBeInstanceOf(Ch4pError);
+  });
+});
+
 // ─── Cross-cutting error behavior ───────────────────────────────────────────
 
 describe('Error hierarchy', () => {
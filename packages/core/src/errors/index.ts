@@ -69,3 +69,10 @@ export class ConfigError extends Ch4pError {
     this.name = 'ConfigError';
   }
 }
+
+export class BudgetExceededError extends Ch4pError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'BUDGET_EXCEEDED', context);
+    this.name = 'BudgetExceededError';
+  }
+}
@@ -14,6 +14,12 @@ export interface Recipient {
   userId?: string;
   groupId?: string;
   threadId?: string;
+  /**
+   * Set when the conversation is a one-to-one chat with the bot. Some
+   * platforms (Discord, Slack, Mattermost, Rocket.Chat) give DMs a channel
+   * id too, so `groupId` alone doesn't mean other people are present.
+   */
+  isDirect?: boolean;
 }
 
 export interface InboundMessage {
@@ -23,6 +29,17 @@ export interface InboundMessage {
   text: string;
   attachments?: Attachment[];
   replyTo?: string;
+  /**
+   * Set when the message is a button press: the `MessageAction.id` that was
+   * chosen. `text` carries the button's label.
+   */
+  action?: string;
+  /**
+   * Set when the host made the message up, e.g. for a scheduled job or a
+   * webhook. Its `id` names no platform message, so replies must not
+   * thread to it and it can't be reacted to or marked read.
+   */
+  synthetic?: boolean;
   timestamp: Date;
   raw?: unknown;
 }
@@ -32,6 +49,19 @@ export interface OutboundMessage {
   attachments?: Attachment[];
   replyTo?: string;
   format?: 'text' | 'markdown' | 'html';
+  /** Buttons or quick replies offered with the message. */
+  actions?: MessageAction[];
+}
+
+/**
+ * A choice offered with an outbound message. Channels with native buttons
+ * render it as one; pressing it comes back as an InboundMessage whose
+ * `action` is this `id`. Keep ids within 64 bytes, Telegram's limit.
+ */
+export interface MessageAction {
+  id: string;
+  label: string;
+  style?: 'primary' | 'danger';
 }
 
 export interface Attachment {
@@ -57,6 +87,17 @@ export interface PresenceEvent {
 export interface IChannel {
   readonly id: string;
   readonly name: string;
+  /**
+   * Largest file, in bytes, the channel can upload in an outbound attachment.
+   * Optional — channels that can't send attachment data leave it unset, and
+   * the agent isn't offered the send_attachment tool there.
+   */
+  readonly maxAttachmentBytes?: number;
+  /**
+   * True when the channel renders `OutboundMessage.actions` as buttons.
+   * Elsewhere the gateway lists them as numbered choices in the text.
+   */
+  readonly supportsActions?: boolean;
 
   start(config: ChannelConfig): Promise<void>;
   stop(): Promise<void>;
@@ -71,4 +112,25 @@ export interface IChannel {
    * The gateway detects capability via `channel.editMessage !== undefined`.
    */
   editMessage?(to: Recipient, messageId: string, message: OutboundMessage): Promise<SendResult>;
+
+  /**
+   * Download an inbound attachment whose `url` isn't a plain fetchable URL
+   * (a platform file ID, an mxc:// URI, a link that needs the bot's token).
+   * Must not read more than `maxBytes`. Optional — the gateway fetches
+   * http(s) URLs itself when a channel omits this.
+   */
+  fetchAttachment?(attachment: Attachment, maxBytes: number): Promise<Buffer>;
+
+  /**
+   * Show the bot as typing in the conversation. Platforms drop the indicator
+   * after a few seconds or when the bot next posts, so the gateway repeats
+   * the call while a run is working. Optional; rejects on failure.
+   */
+  setTyping?(to: Recipient): Promise<void>;
+
+  /** Add an emoji reaction to a message. Optional; rejects on failure. */
+  react?(to: Recipient, messageId: string, emoji: string): Promise<void>;
+
+  /** Send a read receipt for an inbound message. Optional; rejects on failure. */
+  markRead?(to: Recipient, messageId: string): Promise<void>;
 }
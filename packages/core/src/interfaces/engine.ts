@@ -42,7 +42,14 @@ export type EngineEvent =
   | { type: 'tool_start'; id: string; tool: string; args: unknown }
   | { type: 'tool_progress'; id: string; update: string }
   | { type: 'tool_end'; id: string; result: ToolResult }
-  | { type: 'completed'; answer: string; usage?: TokenUsage }
+  | {
+      type: 'completed';
+      answer: string;
+      usage?: TokenUsage;
+      /** Provider and model that served the final LLM call, when known. */
+      provider?: string;
+      model?: string;
+    }
   | { type: 'error'; error: Error };
 
 export interface IEngine {
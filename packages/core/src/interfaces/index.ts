@@ -1,6 +1,10 @@
 export * from './provider.js';
 export * from './channel.js';
 export * from './memory.js';
+export * from './session-store.js';
+export * from './usage-store.js';
+export * from './job-store.js';
+export * from './user-store.js';
 export * from './tool.js';
 export * from './engine.js';
 export * from './security.js';
@@ -0,0 +1,68 @@
+/**
+ * IJobStore — persistent scheduled job contract
+ *
+ * The gateway scheduler writes every job it holds, along with when it last
+ * ran and when it is next due, so reminders and recurring jobs survive a
+ * restart and runs missed while the gateway was down can be caught up.
+ *
+ * Methods are synchronous for the same reason as ISessionStore: the
+ * default SQLite store (better-sqlite3) is synchronous.
+ */
+
+import type { Recipient } from './channel.js';
+
+/**
+ * What a job runs and when. Exactly one of `schedule`, `at` and `everyMs`
+ * is set.
+ */
+export interface JobSpec {
+  /** Job id. Defaults to `name`; adding a job with an existing id replaces it. */
+  id?: string;
+  /** Human-readable name. */
+  name: string;
+  /** 5-field cron expression (minute hour dom month dow). */
+  schedule?: string;
+  /**
+   * One-shot run time. Strings are ISO 8601; a string without a UTC offset
+   * is read as wall-clock time in `timezone`.
+   */
+  at?: Date | string;
+  /** Fixed interval in milliseconds, measured from the previous run. */
+  everyMs?: number;
+  /** IANA time zone for `schedule` and offset-less `at` times. Default: the host's. */
+  timezone?: string;
+  /** Message run through the agent when the job fires. */
+  message: string;
+  /** User the run is attributed to when there is no target. */
+  userId?: string;
+  /** Where the agent's reply is delivered. Without one the reply is only logged. */
+  target?: Recipient;
+  /** Whether this job is enabled. Default: true. */
+  enabled?: boolean;
+}
+
+/** A job as held by the scheduler and its store. */
+export interface ScheduledJob extends JobSpec {
+  id: string;
+  at?: Date;
+  enabled: boolean;
+  createdAt: Date;
+  /** 'config', 'api', or the "channelId:userId" of the user who asked for it. */
+  createdBy?: string;
+  lastRunAt?: Date;
+  /** When the job is next due; unset when it will not run again. */
+  nextRunAt?: Date;
+}
+
+export interface IJobStore {
+  readonly id: string;
+
+  /** Insert or replace a job by id. */
+  save(job: ScheduledJob): void;
+  get(id: string): ScheduledJob | undefined;
+  /** All jobs, oldest first. */
+  list(): ScheduledJob[];
+  /** Returns true if the job existed. */
+  delete(id: string): boolean;
+  close(): void;
+}
@@ -13,6 +13,9 @@ export interface RecallOpts {
   filter?: Record<string, unknown>;
   /** SQL key prefix filter — only return entries whose key starts with this string. */
   keyPrefix?: string;
+  recencyWeight?: number;  // 0-1, share of the score that fades with age (default 0)
+  halfLifeDays?: number;   // age at which the recency share has halved (default 30)
+  usageWeight?: number;    // 0-1, share of the score earned by frequent recall (default 0)
 }
 
 export interface MemoryResult {
@@ -31,6 +34,90 @@ export interface MemoryEntry {
   updatedAt: Date;
 }
 
+/**
+ * A lifecycle change recorded by a backend: an entry that expired, or a
+ * group of near-duplicates merged into one. `removed` holds the entries as
+ * they were, so nothing the backend deletes on its own is lost for good.
+ */
+export interface MemoryAuditEntry {
+  id: number;
+  action: 'expire' | 'merge';
+  /** The expired key, or the key the merged entry was written to. */
+  key: string;
+  removed: Array<{ key: string; content: string; metadata?: Record<string, unknown> }>;
+  /** Content written by a merge. */
+  content?: string;
+  createdAt: Date;
+}
+
+export interface ConsolidateOpts {
+  /** Cosine similarity at which two entries count as duplicates (default 0.9). */
+  similarity?: number;
+  /** Only consider entries whose key starts with this string. */
+  keyPrefix?: string;
+  /**
+   * Merge a group of entries, oldest first, into one. Without it the
+   * newest entry of each group is kept and the rest are dropped.
+   */
+  summarize?: (contents: string[]) => Promise<string>;
+  /** Report the groups without changing anything. */
+  dryRun?: boolean;
+}
+
+export interface ConsolidationReport {
+  groups: Array<{ key: string; merged: string[] }>;
+  /** Entries removed by merging. */
+  removed: number;
+}
+
+/**
+ * A structured fact about an entity: an attribute value ("prefers_units:
+ * metric") or a relation to another entity ("manager_of: Project X").
+ * The subject `user` stands for the person the agent is talking to.
+ */
+export interface EntityFact {
+  /** Name of the entity the fact is about. */
+  subject: string;
+  /** Kind of entity, e.g. 'person', 'project', 'organization', 'place'. */
+  subjectType?: string;
+  /** Attribute or relation name; normalized to snake_case. */
+  predicate: string;
+  /** Attribute value. Give either `value` or `object`. */
+  value?: string;
+  /** Related entity, for relations. */
+  object?: string;
+  objectType?: string;
+  /** Retract the fact instead of asserting it. */
+  remove?: boolean;
+}
+
+export interface EntityFactResult {
+  /**
+   * `superseded` means the fact replaced a different current value of the
+   * same attribute, which is kept in the entity's history.
+   */
+  status: 'added' | 'unchanged' | 'superseded' | 'removed' | 'not_found';
+  /** The value the fact replaced or removed. */
+  previous?: string;
+}
+
+/** An entity with its current facts. */
+export interface EntityProfile {
+  name: string;
+  type: string;
+  attributes: Record<string, string>;
+  /** `out`: this entity → entity; `in`: entity → this entity. */
+  relations: Array<{ predicate: string; entity: string; direction: 'out' | 'in' }>;
+  /** Replaced and retracted facts, newest first. Only when requested. */
+  history?: Array<{ predicate: string; value: string; validFrom: Date; validTo: Date }>;
+  updatedAt: Date;
+}
+
+export interface EntityOpts {
+  /** Entities are kept per namespace, like memory keys ('u:{channelId}:{userId}'). */
+  namespace?: string;
+}
+
 export interface IMemoryBackend {
   readonly id: string;
 
@@ -40,4 +127,24 @@ export interface IMemoryBackend {
   list(prefix?: string): Promise<MemoryEntry[]>;
   reindex(): Promise<void>;
   close(): Promise<void>;
+
+  /**
+   * Delete entries whose `expiresAt` metadata has passed and return their
+   * keys. Optional — backends without lifecycle support omit it.
+   */
+  prune?(): Promise<string[]>;
+  /** Merge near-duplicate conversation summaries. Optional. */
+  consolidate?(opts?: ConsolidateOpts): Promise<ConsolidationReport>;
+  /** Changes made by prune and consolidate, newest first. Optional. */
+  auditLog?(opts?: { limit?: number; key?: string }): Promise<MemoryAuditEntry[]>;
+
+  /**
+   * Assert or retract a structured fact. A new value for an attribute
+   * supersedes the current one rather than overwriting it. Optional.
+   */
+  upsertFact?(fact: EntityFact, opts?: EntityOpts): Promise<EntityFactResult>;
+  /** An entity's current facts, or null if it is unknown. Optional. */
+  getEntity?(name: string, opts?: EntityOpts & { history?: boolean }): Promise<EntityProfile | null>;
+  /** Entities whose names appear in `text`, most recently updated first. Optional. */
+  findEntities?(text: string, opts?: EntityOpts & { limit?: number }): Promise<EntityProfile[]>;
 }
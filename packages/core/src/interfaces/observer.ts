@@ -40,6 +40,10 @@ export interface LLMCallEvent {
   usage: TokenUsage;
   duration: number;
   finishReason: string;
+  /** Provider that actually served the call; differs from `provider` after a failover. */
+  servedBy?: string;
+  /** Model `servedBy` ran, after mapping between vendors. */
+  servedModel?: string;
 }
 
 export interface ChannelMessageEvent {
@@ -51,7 +55,7 @@ export interface ChannelMessageEvent {
 }
 
 export interface SecurityEvent {
-  type: 'path_blocked' | 'command_blocked' | 'injection_detected' | 'secret_redacted' | 'pairing_attempt';
+  type: 'path_blocked' | 'command_blocked' | 'injection_detected' | 'secret_redacted' | 'pairing_attempt' | 'rate_limited';
   details: Record<string, unknown>;
   timestamp: Date;
 }
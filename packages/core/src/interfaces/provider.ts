@@ -43,7 +43,16 @@ export type StreamEvent =
   | { type: 'tool_call_delta'; id: string; argsDelta: string }
   | { type: 'tool_call_end'; id: string; args: unknown }
   | { type: 'usage'; usage: TokenUsage }
-  | { type: 'done'; message: Message; usage: TokenUsage; cost?: number };
+  | {
+      type: 'done';
+      message: Message;
+      usage: TokenUsage;
+      cost?: number;
+      /** Provider that served the request, when routed through a chain (see FallbackProvider). */
+      provider?: string;
+      /** Model the serving provider actually ran, after model mapping. */
+      model?: string;
+    };
 
 export interface IProvider {
   readonly id: string;
@@ -61,4 +70,8 @@ export interface CompletionResult {
   usage: TokenUsage;
   cost?: number;
   finishReason: 'stop' | 'tool_use' | 'max_tokens' | 'error';
+  /** Provider that served the request, when routed through a chain. */
+  provider?: string;
+  /** Model the serving provider actually ran. */
+  model?: string;
 }
@@ -25,6 +25,15 @@ export interface ActionDescriptor {
   details?: Record<string, unknown>;
 }
 
+/**
+ * A human decision on an action that requiresConfirmation() gated.
+ * `edit` approves the action with replacement arguments.
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string }
+  | { action: 'edit'; args: unknown };
+
 export type AuditSeverity = 'pass' | 'warn' | 'fail';
 
 export interface AuditResult {
@@ -0,0 +1,69 @@
+/**
+ * ISessionStore — persistent gateway session contract
+ *
+ * Keeps session config, conversation history, the latest compaction summary
+ * and channel route keys across gateway restarts. Sessions are written as
+ * they change and read back lazily when the next message for a route arrives.
+ *
+ * Methods are synchronous: routing runs synchronously in the channel message
+ * handler, and the default SQLite store (better-sqlite3) is synchronous too.
+ */
+
+import type { Message, SessionConfig } from '../types/index.js';
+
+/** Session metadata as held by a store (history is loaded separately). */
+export interface StoredSession {
+  config: SessionConfig;
+  createdAt: Date;
+  lastActiveAt: Date;
+  /** Most recent route key ("channelId:userId", …) that maps to this session. */
+  routeKey?: string;
+  /** Number of persisted conversation messages. */
+  messageCount: number;
+  /** Latest compaction summary, if the context has been compacted. */
+  summary?: string;
+}
+
+/** Conversation history of a session (system prompt excluded). */
+export interface SessionHistory {
+  messages: Message[];
+  summary?: string;
+}
+
+export interface SessionListOpts {
+  /** Only sessions from this channel. */
+  channelId?: string;
+  /** Maximum number of sessions, most recently active first. */
+  limit?: number;
+}
+
+/** Retention policy applied by prune(). Omitted limits are not enforced. */
+export interface SessionRetention {
+  /** Delete sessions whose last activity is older than this (ms). */
+  maxAgeMs?: number;
+  /** Keep at most this many sessions; the least recently active go first. */
+  maxSessions?: number;
+}
+
+export interface ISessionStore {
+  readonly id: string;
+
+  /** Insert or update a session's config and timestamps. */
+  saveSession(config: SessionConfig, createdAt: Date, lastActiveAt: Date): void;
+  getSession(sessionId: string): StoredSession | undefined;
+  listSessions(opts?: SessionListOpts): StoredSession[];
+  touchSession(sessionId: string, at: Date): void;
+  /** Delete a session together with its history and routes. */
+  deleteSession(sessionId: string): boolean;
+
+  setRoute(routeKey: string, sessionId: string): void;
+  getRoute(routeKey: string): string | undefined;
+
+  /** Replace the stored history of a session. Inline `data:` images are stored as a text placeholder. */
+  saveHistory(sessionId: string, history: SessionHistory): void;
+  loadHistory(sessionId: string): SessionHistory | undefined;
+
+  /** Delete sessions outside the retention policy. Returns the number removed. */
+  prune(policy: SessionRetention): number;
+  close(): void;
+}
@@ -11,7 +11,8 @@
  */
 
 import type { JSONSchema7 } from '../types/json-schema.js';
-import type { ISecurityPolicy } from './security.js';
+import type { ISecurityPolicy, PathOperation } from './security.js';
+import type { TokenUsage } from './provider.js';
 
 export interface ToolContext {
   sessionId: string;
@@ -34,6 +35,19 @@ export interface ToolContext {
   }) => Promise<string>;
   /** Agent wallet address used as the payer in x402 transactions. */
   agentWalletAddress?: string;
+  /**
+   * The run's budget, for tools that call an engine themselves (e.g. MCP
+   * sampling). Set by the agent loop when it enforces budgets.
+   */
+  budget?: ToolBudget;
+}
+
+/** Budget checks and usage billing for a tool's own engine calls. */
+export interface ToolBudget {
+  /** Whether another engine call is allowed; `reason` says why not. */
+  check(): { allowed: boolean; reason?: string };
+  /** Add an engine call to the run's usage ledger. */
+  record(call: { provider: string; model: string; usage: TokenUsage }): void;
 }
 
 export interface ToolResult {
@@ -73,6 +87,11 @@ export interface ITool {
   readonly description: string;
   readonly parameters: JSONSchema7;
   readonly weight: 'lightweight' | 'heavyweight';
+  /**
+   * Action category passed to ISecurityPolicy.requiresConfirmation() before
+   * the agent loop runs this tool. Tools that omit it are treated as writes.
+   */
+  readonly actionType?: PathOperation;
 
   execute(args: unknown, context: ToolContext): Promise<ToolResult>;
   abort?(reason: string): void;
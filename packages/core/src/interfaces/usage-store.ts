@@ -0,0 +1,62 @@
+/**
+ * IUsageStore — token and cost ledger contract
+ *
+ * One record is written per LLM call, tagged with the session, user,
+ * channel and routing agent it was made for. Budget enforcement sums the
+ * records for a period before each engine call; `ch4p usage` and the
+ * gateway's GET /usage route read breakdowns from the same ledger.
+ *
+ * Methods are synchronous for the same reason as ISessionStore: the
+ * default SQLite store (better-sqlite3) is synchronous.
+ */
+
+export interface UsageRecord {
+  timestamp: Date;
+  sessionId: string;
+  userId?: string;
+  channelId?: string;
+  /** Routing agent name (see `routing.agents`). */
+  agent?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in USD; 0 when the provider does not report one. */
+  cost: number;
+}
+
+export interface UsageFilter {
+  /** Inclusive lower bound. */
+  since?: Date;
+  /** Exclusive upper bound. */
+  until?: Date;
+  userId?: string;
+  channelId?: string;
+  agent?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export type UsageGroupBy = 'user' | 'channel' | 'agent' | 'provider' | 'model' | 'day';
+
+export interface UsageBreakdownRow extends UsageTotals {
+  /** Group value; '' when the records have no value for the grouping. */
+  key: string;
+}
+
+export interface IUsageStore {
+  readonly id: string;
+
+  record(entry: UsageRecord): void;
+  totals(filter?: UsageFilter): UsageTotals;
+  /** Totals grouped by one dimension, highest cost (then tokens) first. */
+  breakdown(groupBy: UsageGroupBy, filter?: UsageFilter): UsageBreakdownRow[];
+  /** Delete records older than `before`. Returns the number removed. */
+  prune(before: Date): number;
+  close(): void;
+}
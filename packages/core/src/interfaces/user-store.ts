@@ -0,0 +1,49 @@
+/**
+ * IUserStore — cross-channel user directory contract
+ *
+ * Maps channel identities ("telegram" + "12345") to a linked user, so the
+ * same person reaching the gateway from several channels shares one memory
+ * namespace, one set of budgets and, optionally, one conversation.
+ *
+ * Methods are synchronous for the same reason as ISessionStore: lookups
+ * happen in the channel message handler, and the default SQLite store
+ * (better-sqlite3) is synchronous.
+ */
+
+/** One account on one channel. */
+export interface ChannelIdentity {
+  channelId: string;
+  userId: string;
+}
+
+export interface LinkedIdentity extends ChannelIdentity {
+  linkedAt: Date;
+}
+
+/** A person and the channel identities linked to them. */
+export interface LinkedUser {
+  /**
+   * Directory id: the "channelId:userId" of the identity that started the
+   * link, so that identity keeps its memory namespace and usage history.
+   */
+  id: string;
+  /** Linked identities, oldest first. */
+  identities: LinkedIdentity[];
+}
+
+export interface IUserStore {
+  readonly id: string;
+
+  /** The linked user an identity belongs to, if any. */
+  findUser(identity: ChannelIdentity): string | undefined;
+  /** Add an identity to a user, moving it from any other user. */
+  link(userId: string, identity: ChannelIdentity): void;
+  /** Remove one identity. Returns true if it was linked. */
+  unlink(identity: ChannelIdentity): boolean;
+  /** Remove a user and all its identities. Returns true if it existed. */
+  deleteUser(userId: string): boolean;
+  getUser(userId: string): LinkedUser | undefined;
+  /** All linked users, in order of their first link. */
+  listUsers(): LinkedUser[];
+  close(): void;
+}
@@ -2,6 +2,8 @@
  * Shared types used across all ch4p packages.
  */
 
+import type { JobSpec } from '../interfaces/job-store.js';
+
 // === Messages ===
 
 export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
@@ -53,6 +55,92 @@ export interface SessionConfig {
   cwd?: string;
 }
 
+// === Budgets ===
+
+export interface BudgetPolicy {
+  /** What the cap applies to. */
+  scope: 'global' | 'user' | 'channel' | 'agent';
+  /** A specific user, channel or routing agent. Omit to cap each one separately. */
+  id?: string;
+  /** Accounting window, in UTC: calendar day or calendar month. */
+  period: 'daily' | 'monthly';
+  /** Max input + output tokens in the period. */
+  maxTokens?: number;
+  /** Max estimated cost in USD in the period. */
+  maxCost?: number;
+  /** Fraction of the cap at which a warning is raised. Default: 0.8. */
+  warnAt?: number;
+  /** 'stop' (default) refuses further engine calls at the cap; 'warn' only warns. */
+  enforcement?: 'stop' | 'warn';
+}
+
+// === Roles ===
+
+/** What a gateway role may do. Unset fields fall back to the global settings. */
+export interface RolePolicy {
+  /** Autonomy level for runs started by this role. Default: autonomy.level. */
+  autonomy?: 'readonly' | 'supervised' | 'full';
+  /** Only offer these tools. Default: every tool the autonomy level allows. */
+  tools?: string[];
+  /** Never offer these tools. */
+  toolExclude?: string[];
+  /** Routing agent that handles every message from this role, bypassing routing.rules. */
+  agent?: string;
+  /** Messages allowed per sender in `windowSeconds`. Default: 20 per 60 s. */
+  rateLimit?: {
+    maxMessages: number;
+    windowSeconds?: number;
+  };
+}
+
+/** Who gets a role. Every field that is set must match. */
+export interface RoleAssignment {
+  role: string;
+  /** "channelId:userId", or a linked user's directory id. */
+  user?: string;
+  /** Channel ID ("telegram", "discord", ...). Omit or use "*" for any channel. */
+  channel?: string;
+  /** Private chats or group chats only. */
+  chat?: 'private' | 'group';
+}
+
+// === Gateway ===
+
+/**
+ * Handling of a message that arrives while its conversation is busy:
+ * - queue: answer it in its own run once the current one finishes
+ * - steer: add it to the current run, which sees it at its next step
+ * - interrupt: stop the current run and answer the new message instead
+ * - collect: merge each sender's messages into one follow-up run
+ *
+ * Only the run's requester can steer or interrupt it; other senders' messages are queued.
+ */
+export type MailboxMode = 'queue' | 'steer' | 'interrupt' | 'collect';
+
+// === Sandbox ===
+
+/** Where the bash tool runs commands. 'host' runs them directly, unsandboxed. */
+export type SandboxBackendName = 'host' | 'bwrap' | 'nsjail' | 'docker';
+
+export interface SandboxConfig {
+  backend: SandboxBackendName;
+  /** Container image for the docker backend. Default: 'debian:bookworm-slim'. */
+  image?: string;
+  /** Allow network access from inside the sandbox. Default: false. */
+  network?: boolean;
+  /** Memory limit in MiB. */
+  memoryMb?: number;
+  /** CPU limit (docker: fractional CPUs; nsjail: whole CPUs). Not supported by bwrap. */
+  cpus?: number;
+  /** docker: keep one container per session and exec into it. Default: true. */
+  persistent?: boolean;
+  /**
+   * bwrap/nsjail: host paths to hide inside the sandbox, on top of $HOME.
+   * The CLI fills this with ~/.ch4p and `security.blockedPaths`.
+   */
+  hiddenPaths?: string[];
+}
+
 // === Events ===
 
 export interface Ch4pEvent {
@@ -79,6 +167,19 @@ export interface Ch4pConfig {
     maxSessionErrors?: number;
     /** Max duration (ms) for a single gateway agent run before abort. Default: 300000 (5 min). */
     runTimeout?: number;
+    /**
+     * Providers tried in order when `provider` fails or is unreachable
+     * (e.g. ['bedrock', 'ollama']). Each entry names a `providers` block,
+     * which may set `modelMap` and `defaultModel` to translate model ids.
+     */
+    fallbackProviders?: string[];
+    /** Circuit breaker for the fallback chain. */
+    failover?: {
+      /** Consecutive failures before a provider is skipped. Default: 3. */
+      failureThreshold?: number;
+      /** How long (ms) a tripped provider is skipped before it is retried. Default: 60000. */
+      cooldownMs?: number;
+    };
   };
   providers: Record<string, Record<string, unknown>>;
   channels: Record<string, Record<string, unknown>>;
@@ -92,6 +193,22 @@ export interface Ch4pConfig {
     embeddingDimensions?: number;
     vectorWeight?: number;
     keywordWeight?: number;
+    /** Share of a recall score that fades with the memory's age, 0-1. Default: 0. */
+    recencyWeight?: number;
+    /** Age in days at which the recency share has halved. Default: 30. */
+    halfLifeDays?: number;
+    /** Share of a recall score earned by being recalled often, 0-1. Default: 0. */
+    usageWeight?: number;
+    /** Days before an auto-saved conversation summary expires. Default: 0 (never). */
+    summaryTtlDays?: number;
+    /** Periodic merging of near-duplicate conversation summaries (gateway). */
+    consolidation?: {
+      enabled: boolean;
+      /** Hours between runs. Default: 24. */
+      intervalHours?: number;
+      /** Cosine similarity at which summaries are merged. Default: 0.9. */
+      similarity?: number;
+    };
     /** Local Ollama embedding server configuration. */
     ollama?: {
       /** Ollama server base URL (default: http://localhost:11434). */
@@ -104,14 +221,54 @@ export interface Ch4pConfig {
     port: number;
     requirePairing: boolean;
     allowPublicBind: boolean;
+    /** GET /metrics (Prometheus). */
+    metrics?: {
+      /** Serve /metrics. Default: true. */
+      enabled?: boolean;
+      /** Bearer token a scraper can use instead of a pairing token. */
+      token?: string;
+    };
+    /** Token-bucket limits on inbound channel messages. */
+    rateLimit?: {
+      /** Per sender. Default: burst 20, 20 per minute. */
+      user?: { burst: number; perMinute: number };
+      /** Per group chat. Default: burst 40, 40 per minute. */
+      group?: { burst: number; perMinute: number };
+      /** Per channel. Default: unlimited. */
+      channel?: { burst: number; perMinute: number };
+      /** 'reject' (default) answers and drops excess messages; 'queue' holds them until allowed. */
+      onLimit?: 'reject' | 'queue';
+      /** Messages held per sender in 'queue' mode; they are answered in one run. Default: 5. */
+      maxQueued?: number;
+    };
+    /** What happens to messages that arrive while a conversation's run is in flight. */
+    mailbox?: {
+      /** Default: 'queue'. */
+      mode?: MailboxMode;
+      /** 'reply' (default) acknowledges a message that is not answered right away; 'none' stays silent. */
+      feedback?: 'reply' | 'none';
+    };
+    /** Status shown on channels that support it. All default to true. */
+    indicators?: {
+      /** Show the bot as typing while a run works. */
+      typing?: boolean;
+      /** React 👀 to a message on receipt and ✅ once it is answered. */
+      reactions?: boolean;
+      /** Send read receipts for received messages. */
+      readReceipts?: boolean;
+    };
   };
   security: {
     workspaceOnly: boolean;
     blockedPaths: string[];
+    /** Isolation for commands run by the bash tool. Default: host (none). */
+    sandbox?: SandboxConfig;
   };
   autonomy: {
     level: 'readonly' | 'supervised' | 'full';
     allowedCommands: string[];
+    /** How long a gated tool call waits for approval before it is denied (ms). Default: 120000. */
+    approvalTimeout?: number;
   };
   engines: {
     default: string;
@@ -127,6 +284,17 @@ export interface Ch4pConfig {
   observability: {
     observers: string[];
     logLevel: 'debug' | 'info' | 'warn' | 'error';
+    /** OTLP/HTTP export for the "otel" observer. */
+    otel?: {
+      /** Collector base URL. Default: $OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318. */
+      endpoint?: string;
+      /** Extra request headers (e.g. collector auth). */
+      headers?: Record<string, string>;
+      /** service.name resource attribute. Default: "ch4p". */
+      serviceName?: string;
+      /** Export interval in ms. Default: 5000. */
+      exportIntervalMs?: number;
+    };
   };
   skills: {
     enabled: boolean;
@@ -156,6 +324,17 @@ export interface Ch4pConfig {
       silenceDurationMs?: number;
     };
   };
+  /** Inbound channel attachments: images for vision models, documents as text. */
+  attachments?: {
+    /** Process attachments on inbound messages. Default: true. */
+    enabled?: boolean;
+    /** Send images to the model. Default: the model's supportsVision flag. */
+    vision?: boolean;
+    /** Largest attachment downloaded, in bytes. Default: 10 MiB. */
+    maxBytes?: number;
+    /** Most characters of extracted document text added to the context. Default: 50000. */
+    maxTextChars?: number;
+  };
   canvas?: {
     enabled: boolean;
     /** Defaults to gateway.port when not specified. */
@@ -214,6 +393,80 @@ export interface Ch4pConfig {
     /** Default timeout per task in ms (default: 120000). */
     defaultTimeout?: number;
   };
+  /** Persistent gateway sessions (history survives restarts). */
+  sessions?: {
+    /** Session store backend: 'sqlite' (default) or 'memory' (not persisted). */
+    store?: 'sqlite' | 'memory';
+    /** SQLite database path. Default: ~/.ch4p/sessions.db. */
+    path?: string;
+    /** Delete sessions idle for longer than this many days. Default: 30. 0 disables. */
+    retentionDays?: number;
+    /** Keep at most this many sessions, least recently active deleted first. Default: 1000. */
+    maxSessions?: number;
+  };
+  /** Cross-channel user directory: link one person's channel accounts. */
+  users?: {
+    /** Let users link their accounts with the `/link` chat command. */
+    linking: boolean;
+    /** User store backend: 'sqlite' (default) or 'memory' (not persisted). */
+    store?: 'sqlite' | 'memory';
+    /** SQLite database path. Default: ~/.ch4p/users.db. */
+    path?: string;
+    /** Continue one conversation across linked accounts in private chats. Default: false. */
+    sharedConversation?: boolean;
+  };
+  /**
+   * Per-user roles for gateway channel messages.
+   *
+   * Example:
+   * ```json
+   * {
+   *   "roles": {
+   *     "definitions": {
+   *       "owner": { "autonomy": "full" },
+   *       "guest": { "autonomy": "readonly", "tools": ["web_search", "web_fetch"] }
+   *     },
+   *     "assignments": [
+   *       { "user": "telegram:42", "role": "owner" },
+   *       { "chat": "group", "role": "guest" }
+   *     ]
+   *   }
+   * }
+   * ```
+   */
+  roles?: {
+    /** Role definitions by name. */
+    definitions: Record<string, RolePolicy>;
+    /** Role assignments evaluated in order. The first match wins. */
+    assignments?: RoleAssignment[];
+    /** Role for senders no assignment matches. Omit to use the global settings. */
+    default?: string;
+  };
+  /** Token/cost ledger and spend caps. */
+  usage?: {
+    /** Usage ledger backend: 'sqlite' (default) or 'memory' (not persisted). */
+    store?: 'sqlite' | 'memory';
+    /** SQLite database path. Default: ~/.ch4p/usage.db. */
+    path?: string;
+    /** Delete usage records older than this many days. Default: 90. 0 disables. */
+    retentionDays?: number;
+    /** Spend caps checked before every engine call. */
+    budgets?: BudgetPolicy[];
+  };
+  /** Gateway job scheduler: cron jobs, intervals and one-shot reminders. */
+  scheduler?: {
+    enabled: boolean;
+    /** Jobs defined in config; re-applied on every start. */
+    jobs?: Array<Omit<JobSpec, 'at'> & { at?: string }>;
+    /** Job store backend: 'sqlite' (default) or 'memory' (not persisted). */
+    store?: 'sqlite' | 'memory';
+    /** SQLite database path. Default: ~/.ch4p/jobs.db. */
+    path?: string;
+    /** Run jobs once on start if they came due while the gateway was down. Default: true. */
+    catchUp?: boolean;
+    /** Let the agent create, list and cancel reminders with the `schedule` tool. Default: true. */
+    agentTool?: boolean;
+  };
   /** Web search configuration (Brave Search API). */
   search?: {
     enabled: boolean;
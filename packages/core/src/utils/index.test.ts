@@ -1,4 +1,4 @@
-import { generateId, sleep, abortableSleep, backoffDelay, truncate, deepFreeze } from './index.js';
+import { generateId, sleep, abortableSleep, backoffDelay, truncate, deepFreeze, readResponseBody } from './index.js';
 
 // ─── generateId ──────────────────────────────────────────────────────────────
 
@@ -315,3 +315,28 @@ describe('deepFreeze', () => {
     expect(obj.nested.flag).toBe(true);
   });
 });
+
+// ─── readResponseBody ────────────────────────────────────────────────────────
+
+describe('readResponseBody', () => {
+  it('reads a body within the limit', async () => {
+    const buf = await readResponseBody(new Response('hello'), 10);
+    expect(buf.toString('utf-8')).toBe('hello');
+  });
+
+  it('rejects a declared Content-Length over the limit', async () => {
+    const res = new Response('x'.repeat(20), { headers: { 'content-length': '20' } });
+    await expect(readResponseBody(res, 10)).rejects.toMatchObject({ code: 'BODY_TOO_LARGE' });
+  });
+
+  it('rejects a streamed body that grows past the limit', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(8));
+        controller.enqueue(new Uint8Array(8));
+        controller.close();
+      },
+    });
+    await expect(readResponseBody(new Response(stream), 10)).rejects.toThrow(/exceeds 10 bytes/);
+  });
+});
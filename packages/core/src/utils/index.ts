@@ -2,6 +2,8 @@
  * Pure utility functions shared across ch4p packages.
  */
 
+import { Ch4pError } from '../errors/index.js';
+
 /** Generate a random ID (nanoid-style, no deps) */
 export function generateId(length = 21): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-';
@@ -66,3 +68,39 @@ export function deepFreeze<T extends Record<string, unknown>>(obj: T): Readonly<
   }
   return Object.freeze(obj);
 }
+
+/**
+ * Read a fetch Response body into a Buffer, refusing bodies larger than
+ * `maxBytes`. Checks Content-Length up front, then counts bytes as they
+ * stream in so a missing or lying header can't exhaust memory.
+ * Throws Ch4pError with code 'BODY_TOO_LARGE'.
+ */
+export async function readResponseBody(res: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Ch4pError(
+    `Response body exceeds ${maxBytes} bytes`,
+    'BODY_TOO_LARGE',
+    { maxBytes },
+  );
+
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await res.body?.cancel().catch(() => {});
+    throw tooLarge();
+  }
+  if (!res.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
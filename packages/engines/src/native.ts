@@ -229,7 +229,7 @@ export class NativeEngine implements IEngine {
           steerQueue.shift();
         }
 
-        const engineEvents = this.translateStreamEvent(event);
+        const engineEvents = this.translateStreamEvent(event, model);
         for (const engineEvent of engineEvents) {
           if (engineEvent.type === 'text_delta') {
             fullAnswer += engineEvent.delta;
@@ -270,7 +270,7 @@ export class NativeEngine implements IEngine {
   // Private: StreamEvent -> EngineEvent translation
   // -----------------------------------------------------------------------
 
-  private translateStreamEvent(event: StreamEvent): EngineEvent[] {
+  private translateStreamEvent(event: StreamEvent, model: string): EngineEvent[] {
     const events: EngineEvent[] = [];
 
     switch (event.type) {
@@ -319,7 +319,13 @@ export class NativeEngine implements IEngine {
         events.push({
           type: 'completed',
           answer: answerText,
-          usage: event.usage,
+          // Providers report the cost estimate beside usage; carry it on.
+          usage: event.cost !== undefined && event.usage.totalCost === undefined
+            ? { ...event.usage, totalCost: event.cost }
+            : event.usage,
+          // A provider chain reports which member served the call.
+          provider: event.provider ?? this.provider.id,
+          model: event.model ?? model,
         });
         break;
       }
@@ -0,0 +1,82 @@
+/**
+ * Tests for the chat approval reply protocol.
+ */
+
+import { approvalActions, formatApprovalPrompt, parseApprovalAction, parseApprovalReply } from './approval-reply.js';
+
+describe('parseApprovalReply', () => {
+  it('recognises approvals', () => {
+    for (const text of ['yes', 'Y', 'approve', ' ok ', 'Allow!']) {
+      expect(parseApprovalReply(text)).toEqual({ action: 'approve' });
+    }
+  });
+
+  it('does not treat an approval word followed by more text as an approval', () => {
+    expect(parseApprovalReply('yes but only in /tmp')).toBeNull();
+  });
+
+  it('recognises denials with and without a reason', () => {
+    expect(parseApprovalReply('no')).toEqual({ action: 'deny' });
+    expect(parseApprovalReply('deny: use ls instead')).toEqual({ action: 'deny', reason: 'use ls instead' });
+    expect(parseApprovalReply('No, too risky')).toEqual({ action: 'deny', reason: 'too risky' });
+  });
+
+  it('parses edited arguments', () => {
+    expect(parseApprovalReply('edit {"command": "ls -la"}')).toEqual({
+      action: 'edit',
+      args: { command: 'ls -la' },
+    });
+  });
+
+  it('returns null for edit with invalid or non-object JSON', () => {
+    expect(parseApprovalReply('edit {command: ls}')).toBeNull();
+    expect(parseApprovalReply('edit [1, 2]')).toBeNull();
+    expect(parseApprovalReply('edit')).toBeNull();
+  });
+
+  it('returns null for unrelated text', () => {
+    expect(parseApprovalReply('what does this command do?')).toBeNull();
+    expect(parseApprovalReply('   ')).toBeNull();
+  });
+});
+
+describe('formatApprovalPrompt', () => {
+  it('includes the tool, arguments and reply instructions', () => {
+    const prompt = formatApprovalPrompt({
+      tool: 'bash',
+      args: { command: 'rm -rf build' },
+      expiresAt: new Date(Date.now() + 120_000),
+    });
+
+    expect(prompt).toContain('"bash"');
+    expect(prompt).toContain('rm -rf build');
+    expect(prompt).toContain('"yes"');
+    expect(prompt).toMatch(/Expires in 1[12]\ds\./);
+  });
+
+  it('truncates long arguments', () => {
+    const prompt = formatApprovalPrompt({
+      tool: 'file_write',
+      args: { content: 'x'.repeat(5_000) },
+      expiresAt: new Date(),
+    });
+
+    expect(prompt.length).toBeLessThan(1_000);
+    expect(prompt).toContain('...');
+  });
+});
+
+describe('approval actions', () => {
+  it('offers approve and deny buttons that parse back to decisions', () => {
+    const [approve, deny] = approvalActions('toolu_01:abc');
+
+    expect(approve).toEqual({ id: 'approval:toolu_01:abc:approve', label: 'Approve', style: 'primary' });
+    expect(parseApprovalAction(approve!.id)).toEqual({ callId: 'toolu_01:abc', decision: { action: 'approve' } });
+    expect(parseApprovalAction(deny!.id)).toEqual({ callId: 'toolu_01:abc', decision: { action: 'deny' } });
+  });
+
+  it('returns null for other action ids', () => {
+    expect(parseApprovalAction('env:staging')).toBeNull();
+    expect(parseApprovalAction('approval:call1:maybe')).toBeNull();
+  });
+});
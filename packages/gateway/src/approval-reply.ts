@@ -0,0 +1,106 @@
+/**
+ * Approval replies — answering tool approvals from a messaging channel.
+ *
+ * When a gateway-driven agent loop pauses on `approval_required`, the user
+ * is prompted in the chat the message came from and answers with a short
+ * reply:
+ *
+ *   yes | y | approve | allow | ok   → approve
+ *   no | n | deny [reason]           → deny (the rest of the reply is the reason)
+ *   edit {json}                      → approve with replacement arguments
+ *
+ * Anything else is not an approval reply; the caller decides what to do
+ * with it (the gateway re-prompts).
+ *
+ * The prompt also offers Approve and Deny buttons. Their action ids name
+ * the tool call (`approval:<callId>:approve`), so a press answers that call
+ * even from a different thread than the one the run is keyed on.
+ */
+
+import type { ApprovalDecision, MessageAction } from '@ch4p/core';
+import { truncate } from '@ch4p/core';
+
+/** Max characters of tool arguments shown in the chat prompt. */
+const MAX_ARGS_PREVIEW = 500;
+
+const APPROVE_WORDS: ReadonlySet<string> = new Set(['y', 'yes', 'approve', 'approved', 'allow', 'ok', 'okay']);
+const DENY_WORDS: ReadonlySet<string> = new Set(['n', 'no', 'deny', 'denied', 'reject', 'cancel']);
+
+/** Render the chat prompt for a pending tool approval. */
+export function formatApprovalPrompt(request: {
+  tool: string;
+  args: unknown;
+  expiresAt: Date;
+}): string {
+  let argsText: string;
+  try {
+    argsText = JSON.stringify(request.args ?? {}, null, 2);
+  } catch {
+    argsText = String(request.args);
+  }
+
+  const secondsLeft = Math.max(0, Math.round((request.expiresAt.getTime() - Date.now()) / 1000));
+
+  return [
+    `Approval needed: the agent wants to run "${request.tool}" with:`,
+    truncate(argsText, MAX_ARGS_PREVIEW),
+    '',
+    `Reply "yes" to allow, "no [reason]" to deny, or "edit {json}" to change the arguments. ` +
+      `Expires in ${secondsLeft}s.`,
+  ].join('\n');
+}
+
+/**
+ * Parse a chat reply into an approval decision. Returns null when the text
+ * is not recognisable as an answer (including `edit` with invalid JSON).
+ */
+export function parseApprovalReply(text: string): ApprovalDecision | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^(\S+)\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const word = match[1]!.toLowerCase().replace(/[.!,:]+$/, '');
+  const rest = match[2]!.trim();
+
+  if (APPROVE_WORDS.has(word) && rest === '') {
+    return { action: 'approve' };
+  }
+
+  if (DENY_WORDS.has(word)) {
+    return rest ? { action: 'deny', reason: rest } : { action: 'deny' };
+  }
+
+  if (word === 'edit' && rest) {
+    try {
+      const args = JSON.parse(rest) as unknown;
+      if (typeof args === 'object' && args !== null && !Array.isArray(args)) {
+        return { action: 'edit', args };
+      }
+    } catch {
+      // Not valid JSON — not an approval reply.
+    }
+  }
+
+  return null;
+}
+
+/** The buttons offered with an approval prompt. */
+export function approvalActions(callId: string): MessageAction[] {
+  return [
+    { id: `approval:${callId}:approve`, label: 'Approve', style: 'primary' },
+    { id: `approval:${callId}:deny`, label: 'Deny', style: 'danger' },
+  ];
+}
+
+/**
+ * Parse the action id of an approval button. Returns null when the id is
+ * not one from `approvalActions`.
+ */
+export function parseApprovalAction(actionId: string): { callId: string; decision: ApprovalDecision } | null {
+  const match = actionId.match(/^approval:(.+):(approve|deny)$/);
+  if (!match) return null;
+  return {
+    callId: match[1]!,
+    decision: { action: match[2] === 'approve' ? 'approve' : 'deny' },
+  };
+}
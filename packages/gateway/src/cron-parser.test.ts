@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseCron, cronMatches } from './cron-parser.js';
+import { parseCron, cronMatches, nextCronRun, wallClock, fromWallClock } from './cron-parser.js';
 
 describe('parseCron', () => {
   it('parses wildcard-only expression', () => {
@@ -116,3 +116,48 @@ describe('cronMatches', () => {
     expect(cronMatches(schedule, sunday)).toBe(false);
   });
 });
+
+describe('time zones', () => {
+  it('matches in the given IANA time zone', () => {
+    const schedule = parseCron('0 9 * * *');
+    // 09:00 in Tokyo (UTC+9, no DST) is 00:00 UTC.
+    const date = new Date('2025-01-06T00:00:00Z');
+    expect(cronMatches(schedule, date, 'Asia/Tokyo')).toBe(true);
+    expect(cronMatches(schedule, date, 'Europe/London')).toBe(false);
+  });
+
+  it('round-trips wall-clock time across DST', () => {
+    // New York is UTC-5 in winter and UTC-4 in summer.
+    expect(fromWallClock({ year: 2025, month: 1, day: 6, hour: 9, minute: 0, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2025-01-06T14:00:00.000Z');
+    expect(fromWallClock({ year: 2025, month: 7, day: 6, hour: 9, minute: 0, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2025-07-06T13:00:00.000Z');
+    expect(wallClock(new Date('2025-07-06T13:00:00Z'), 'America/New_York'))
+      .toMatchObject({ hour: 9, minute: 0, weekday: 0 });
+  });
+
+  it('rejects unknown zones', () => {
+    expect(() => wallClock(new Date(), 'Mars/Olympus')).toThrow(RangeError);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the first matching minute at or after the start', () => {
+    const schedule = parseCron('30 9 * * 1-5');
+    // Saturday 2025-01-04 10:00 UTC → Monday 09:30 UTC.
+    expect(nextCronRun(schedule, new Date('2025-01-04T10:00:00Z'), 'UTC')?.toISOString())
+      .toBe('2025-01-06T09:30:00.000Z');
+    expect(nextCronRun(schedule, new Date('2025-01-06T09:30:00Z'), 'UTC')?.toISOString())
+      .toBe('2025-01-06T09:30:00.000Z');
+  });
+
+  it('rounds up to the next whole minute', () => {
+    const schedule = parseCron('* * * * *');
+    expect(nextCronRun(schedule, new Date('2025-01-06T09:30:10Z'), 'UTC')?.toISOString())
+      .toBe('2025-01-06T09:31:00.000Z');
+  });
+
+  it('returns undefined when nothing matches within a year', () => {
+    expect(nextCronRun(parseCron('0 0 31 2 *'), new Date('2025-01-01T00:00:00Z'), 'UTC')).toBeUndefined();
+  });
+});
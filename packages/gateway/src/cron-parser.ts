@@ -7,6 +7,9 @@
  * step (wildcard/N or N-M/N).
  *
  * Examples: "0 9 1 1 0" (midnight Jan 1 Sun), every-15-min, weekdays 9-17.
+ *
+ * Schedules are matched against wall-clock time in an IANA time zone
+ * (the host's local zone by default), using Intl for the conversion.
  */
 
 // ---------------------------------------------------------------------------
@@ -68,18 +71,137 @@ export function parseCron(expression: string): CronSchedule {
 }
 
 /**
- * Check whether a Date matches a CronSchedule.
+ * Check whether a Date matches a CronSchedule, in the given IANA time zone
+ * (the host's local zone when omitted).
+ */
+export function cronMatches(schedule: CronSchedule, date: Date, timeZone?: string): boolean {
+  const t = wallClock(date, timeZone);
+  return schedule.minutes.has(t.minute) && hourMatches(schedule, t);
+}
+
+/**
+ * First minute at or after `from` that matches the schedule, or undefined
+ * if nothing matches within a year (e.g. "0 0 31 2 *").
  */
-export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+export function nextCronRun(schedule: CronSchedule, from: Date, timeZone?: string): Date | undefined {
+  let t = Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS;
+  const limit = t + 366 * 24 * 60 * MINUTE_MS;
+
+  while (t < limit) {
+    const wall = wallClock(new Date(t), timeZone);
+    if (!hourMatches(schedule, wall)) {
+      // Skip to the top of the next hour rather than walking every minute.
+      t += (60 - wall.minute) * MINUTE_MS;
+    } else if (schedule.minutes.has(wall.minute)) {
+      return new Date(t);
+    } else {
+      t += MINUTE_MS;
+    }
+  }
+  return undefined;
+}
+
+function hourMatches(schedule: CronSchedule, t: WallClock): boolean {
   return (
-    schedule.minutes.has(date.getMinutes()) &&
-    schedule.hours.has(date.getHours()) &&
-    schedule.daysOfMonth.has(date.getDate()) &&
-    schedule.months.has(date.getMonth() + 1) &&
-    schedule.daysOfWeek.has(date.getDay())
+    schedule.hours.has(t.hour) &&
+    schedule.daysOfMonth.has(t.day) &&
+    schedule.months.has(t.month) &&
+    schedule.daysOfWeek.has(t.weekday)
   );
 }
 
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60_000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar fields of an instant as read on a wall clock. */
+export interface WallClock {
+  year: number;
+  /** 1-12. */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0-6, Sunday=0. */
+  weekday: number;
+}
+
+/**
+ * Read `date` on a wall clock in the given IANA time zone, or in the host's
+ * local zone when omitted. Throws a RangeError for an unknown zone.
+ */
+export function wallClock(date: Date, timeZone?: string): WallClock {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, fmt);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of fmt.formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+/**
+ * The instant at which a wall clock in `timeZone` shows the given time.
+ * A time skipped by a DST change resolves to an instant an hour either side.
+ */
+export function fromWallClock(
+  wall: Omit<WallClock, 'weekday'>,
+  timeZone?: string,
+): Date {
+  if (!timeZone) {
+    return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  }
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  // Two passes: the zone offset at the first guess may differ from the offset
+  // at the answer when a DST change falls in between.
+  let t = asUtc - zoneOffset(asUtc, timeZone);
+  t = asUtc - zoneOffset(t, timeZone);
+  return new Date(t);
+}
+
+/** Offset of `timeZone` from UTC at instant `t`, in ms. */
+function zoneOffset(t: number, timeZone: string): number {
+  const w = wallClock(new Date(t), timeZone);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - Math.floor(t / 1000) * 1000;
+}
+
 // ---------------------------------------------------------------------------
 // Field parser
 // ---------------------------------------------------------------------------
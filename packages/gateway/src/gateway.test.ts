@@ -6,13 +6,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import type { SessionConfig, InboundMessage } from '@ch4p/core';
+import type { ApprovalDecision, SessionConfig, InboundMessage, IMemoryBackend, MemoryEntry } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
 import { SessionManager } from './session-manager.js';
 import { MessageRouter } from './router.js';
 import { PairingManager } from './pairing.js';
 import { GatewayServer } from './server.js';
 import { CanvasSessionManager } from './canvas-session.js';
+import { Scheduler } from './scheduler.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -28,6 +29,35 @@ function makeSessionConfig(overrides?: Partial<SessionConfig>): SessionConfig {
   };
 }
 
+/** In-memory backend whose recall matches entries containing the query. */
+function makeMemoryBackend(): IMemoryBackend & { entries: Map<string, MemoryEntry> } {
+  const entries = new Map<string, MemoryEntry>();
+  return {
+    id: 'map',
+    entries,
+    async store(key, content, metadata) {
+      const now = new Date();
+      entries.set(key, { key, content, metadata, createdAt: entries.get(key)?.createdAt ?? now, updatedAt: now });
+    },
+    async recall(query, opts) {
+      return [...entries.values()]
+        .filter((e) => e.content.includes(query) && (!opts?.keyPrefix || e.key.startsWith(opts.keyPrefix)))
+        .slice(0, opts?.limit ?? 10)
+        .map((e) => ({ key: e.key, content: e.content, metadata: e.metadata, score: 1, matchType: 'keyword' as const }));
+    },
+    async forget(key) {
+      return entries.delete(key);
+    },
+    async list(prefix) {
+      return [...entries.values()]
+        .filter((e) => !prefix || e.key.startsWith(prefix))
+        .sort((a, b) => a.key.localeCompare(b.key));
+    },
+    async reindex() {},
+    async close() {},
+  };
+}
+
 function makeInboundMessage(overrides?: Partial<InboundMessage>): InboundMessage {
   return {
     id: generateId(),
@@ -750,6 +780,285 @@ describe('GatewayServer with pairing', () => {
   });
 });
 
+// ===========================================================================
+// GatewayServer — usage endpoint
+// ===========================================================================
+
+describe('GatewayServer — usage endpoint', () => {
+  it('passes query parameters to onGetUsage', async () => {
+    let received: URLSearchParams | undefined;
+    const server = new GatewayServer({
+      port: 0,
+      host: '127.0.0.1',
+      sessionManager: new SessionManager(),
+      onGetUsage: (query) => {
+        received = query;
+        return { period: query.get('period') ?? 'day', totals: { calls: 3 } };
+      },
+    });
+    await server.start();
+    const addr = server.getAddress()!;
+    const baseUrl = `http://${addr.host}:${addr.port}`;
+
+    const { status, body } = await fetchJson(baseUrl, '/usage?period=month&by=model&user=alice');
+    expect(status).toBe(200);
+    expect(body).toEqual({ period: 'month', totals: { calls: 3 } });
+    expect(received?.get('by')).toBe('model');
+    expect(received?.get('user')).toBe('alice');
+
+    await server.stop();
+  });
+
+  it('responds 400 when onGetUsage rejects the query', async () => {
+    const server = new GatewayServer({
+      port: 0,
+      host: '127.0.0.1',
+      sessionManager: new SessionManager(),
+      onGetUsage: () => { throw new Error('period must be one of: day, month, all'); },
+    });
+    await server.start();
+    const addr = server.getAddress()!;
+
+    const { status, body } = await fetchJson(`http://${addr.host}:${addr.port}`, '/usage?period=week');
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/period must be/);
+
+    await server.stop();
+  });
+
+  it('responds 404 when onGetUsage is not configured', async () => {
+    const server = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager() });
+    await server.start();
+    const addr = server.getAddress()!;
+
+    const { status } = await fetchJson(`http://${addr.host}:${addr.port}`, '/usage');
+    expect(status).toBe(404);
+
+    await server.stop();
+  });
+});
+
+// ===========================================================================
+// GatewayServer — metrics endpoint
+// ===========================================================================
+
+describe('GatewayServer — metrics endpoint', () => {
+  const metrics = () => '# TYPE ch4p_sessions_active gauge\nch4p_sessions_active 2\n';
+
+  async function startServer(opts: Partial<ConstructorParameters<typeof GatewayServer>[0]>) {
+    const server = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager(), ...opts });
+    await server.start();
+    const addr = server.getAddress()!;
+    const scrape = (token?: string) => fetch(`http://${addr.host}:${addr.port}/metrics`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    return { server, scrape };
+  }
+
+  it('serves Prometheus text when pairing is disabled', async () => {
+    const { server, scrape } = await startServer({ onGetMetrics: metrics });
+
+    const res = await scrape();
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toMatch(/^text\/plain; version=0\.0\.4/);
+    expect(await res.text()).toContain('ch4p_sessions_active 2');
+
+    await server.stop();
+  });
+
+  it('accepts a paired token or the scrape token', async () => {
+    const pairing = new PairingManager();
+    const paired = pairing.exchangeCode(pairing.generateCode().code)!;
+    const { server, scrape } = await startServer({ onGetMetrics: metrics, pairingManager: pairing, metricsToken: 'scrape-secret' });
+
+    expect((await scrape()).status).toBe(401);
+    expect((await scrape('wrong')).status).toBe(401);
+    expect((await scrape('scrape-secret')).status).toBe(200);
+    expect((await scrape(paired)).status).toBe(200);
+
+    await server.stop();
+  });
+
+  it('requires the scrape token when set without pairing', async () => {
+    const { server, scrape } = await startServer({ onGetMetrics: metrics, metricsToken: 'scrape-secret' });
+
+    expect((await scrape()).status).toBe(401);
+    expect((await scrape('scrape-secret')).status).toBe(200);
+
+    await server.stop();
+  });
+
+  it('responds 404 when onGetMetrics is not configured', async () => {
+    const { server, scrape } = await startServer({});
+    expect((await scrape()).status).toBe(404);
+    await server.stop();
+  });
+});
+
+// ===========================================================================
+// GatewayServer — jobs endpoints
+// ===========================================================================
+
+describe('GatewayServer — jobs endpoints', () => {
+  let server: GatewayServer;
+  let scheduler: Scheduler;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    scheduler = new Scheduler({ onTrigger: () => {} });
+    server = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager(), scheduler });
+    await server.start();
+    const addr = server.getAddress()!;
+    baseUrl = `http://${addr.host}:${addr.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('creates, lists, disables and deletes jobs', async () => {
+    const created = await fetchJson(baseUrl, '/jobs', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: 'standup',
+        schedule: '0 9 * * 1-5',
+        timezone: 'Europe/Berlin',
+        message: 'Post the standup summary.',
+        target: { channelId: 'slack', groupId: 'C123' },
+      }),
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.job).toMatchObject({ id: 'standup', createdBy: 'api', enabled: true });
+    expect(scheduler.getJob('standup')?.target?.groupId).toBe('C123');
+
+    const list = await fetchJson(baseUrl, '/jobs');
+    expect((list.body.jobs as unknown[]).length).toBe(1);
+
+    const patched = await fetchJson(baseUrl, '/jobs/standup', { method: 'PATCH', body: JSON.stringify({ enabled: false }) });
+    expect(patched.body.job).toMatchObject({ enabled: false });
+
+    expect((await fetchJson(baseUrl, '/jobs/standup', { method: 'DELETE' })).body).toEqual({ id: 'standup', deleted: true });
+    expect((await fetchJson(baseUrl, '/jobs/standup')).status).toBe(404);
+  });
+
+  it('responds 400 for an invalid job', async () => {
+    const { status, body } = await fetchJson(baseUrl, '/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'bad', schedule: 'not cron', message: 'x' }),
+    });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/cron/);
+  });
+
+  it('responds 404 when no scheduler is configured', async () => {
+    const bare = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager() });
+    await bare.start();
+    const addr = bare.getAddress()!;
+    expect((await fetchJson(`http://${addr.host}:${addr.port}`, '/jobs')).status).toBe(404);
+    await bare.stop();
+  });
+});
+
+// ===========================================================================
+// GatewayServer — memory endpoints
+// ===========================================================================
+
+describe('GatewayServer — memory endpoints', () => {
+  let server: GatewayServer;
+  let memory: ReturnType<typeof makeMemoryBackend>;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    memory = makeMemoryBackend();
+    await memory.store('u:telegram:42:conv:1', 'User prefers metric units', { type: 'conversation_summary' });
+    await memory.store('u:telegram:42:conv:2', 'User is planning a trip to Lisbon');
+    await memory.store('u:slack:U1:conv:1', 'User manages Project X');
+    await memory.store('doc:/notes/a.md#0', 'Release checklist');
+    await memory.store('favourite-colour', 'Blue');
+    server = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager(), memoryBackend: memory });
+    await server.start();
+    const addr = server.getAddress()!;
+    baseUrl = `http://${addr.host}:${addr.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('lists entries by prefix with paging', async () => {
+    const { status, body } = await fetchJson(baseUrl, '/memory?prefix=u:telegram:42:&limit=1&offset=1');
+    expect(status).toBe(200);
+    expect(body.total).toBe(2);
+    expect((body.entries as MemoryEntry[]).map((e) => e.key)).toEqual(['u:telegram:42:conv:2']);
+  });
+
+  it('groups keys into namespaces', async () => {
+    const { body } = await fetchJson(baseUrl, '/memory/namespaces');
+    expect(body.namespaces).toEqual([
+      { prefix: '', count: 1 },
+      { prefix: 'doc:', count: 1 },
+      { prefix: 'u:slack:U1:', count: 1 },
+      { prefix: 'u:telegram:42:', count: 2 },
+    ]);
+  });
+
+  it('searches within a namespace', async () => {
+    const { body } = await fetchJson(baseUrl, '/memory?q=User&prefix=u:slack:U1:');
+    expect((body.results as MemoryEntry[]).map((r) => r.key)).toEqual(['u:slack:U1:conv:1']);
+  });
+
+  it('responds 400 for an out-of-range recall option', async () => {
+    const { status, body } = await fetchJson(baseUrl, '/memory?q=User&recencyWeight=2');
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/recencyWeight/);
+  });
+
+  it('gets, edits and forgets an entry by encoded key', async () => {
+    const path = `/memory/${encodeURIComponent('doc:/notes/a.md#0')}`;
+    expect((await fetchJson(baseUrl, path)).body.entry).toMatchObject({ content: 'Release checklist' });
+
+    const edited = await fetchJson(baseUrl, '/memory', {
+      method: 'POST',
+      body: JSON.stringify({ key: 'u:telegram:42:conv:1', content: 'User prefers imperial units' }),
+    });
+    expect(edited.status).toBe(200);
+    // Metadata is kept when only the content changes.
+    expect(edited.body.entry).toMatchObject({
+      content: 'User prefers imperial units',
+      metadata: { type: 'conversation_summary' },
+    });
+
+    expect((await fetchJson(baseUrl, path, { method: 'DELETE' })).body).toEqual({ key: 'doc:/notes/a.md#0', deleted: true });
+    expect((await fetchJson(baseUrl, path)).status).toBe(404);
+    expect((await fetchJson(baseUrl, path, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('creates an entry and pins it through metadata', async () => {
+    const created = await fetchJson(baseUrl, '/memory', {
+      method: 'POST',
+      body: JSON.stringify({ key: 'u:telegram:42:note', content: 'Allergic to peanuts', metadata: { pinned: true } }),
+    });
+    expect(created.status).toBe(201);
+    expect(memory.entries.get('u:telegram:42:note')?.metadata).toEqual({ pinned: true });
+  });
+
+  it('responds 400 for a body without content', async () => {
+    const { status } = await fetchJson(baseUrl, '/memory', {
+      method: 'POST',
+      body: JSON.stringify({ key: 'x', content: '  ' }),
+    });
+    expect(status).toBe(400);
+  });
+
+  it('responds 404 when no memory backend is configured', async () => {
+    const bare = new GatewayServer({ port: 0, host: '127.0.0.1', sessionManager: new SessionManager() });
+    await bare.start();
+    const addr = bare.getAddress()!;
+    expect((await fetchJson(`http://${addr.host}:${addr.port}`, '/memory')).status).toBe(404);
+    await bare.stop();
+  });
+});
+
 // ===========================================================================
 // GatewayServer — config endpoints
 // ===========================================================================
@@ -881,6 +1190,96 @@ describe('GatewayServer — config endpoints', () => {
 // Multi-session routing (integration tests)
 // ===========================================================================
 
+describe('GatewayServer — tool approvals', () => {
+  let server: GatewayServer;
+  let baseUrl: string;
+  let calls: Array<{ sessionId: string; callId: string; decision: ApprovalDecision }>;
+
+  beforeEach(async () => {
+    calls = [];
+    server = new GatewayServer({
+      port: 0,
+      host: '127.0.0.1',
+      sessionManager: new SessionManager(),
+      onApproval: (sessionId, callId, decision) => {
+        calls.push({ sessionId, callId, decision });
+        return callId === 'tc-1';
+      },
+    });
+    await server.start();
+    const addr = server.getAddress()!;
+    baseUrl = `http://${addr.host}:${addr.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('resolves a pending approval', async () => {
+    const { status, body } = await fetchJson(baseUrl, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'approve' }),
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ sessionId: 's1', callId: 'tc-1', decision: 'approve' });
+    expect(calls).toEqual([{ sessionId: 's1', callId: 'tc-1', decision: { action: 'approve' } }]);
+  });
+
+  it('passes deny reasons and edited args through', async () => {
+    await fetchJson(baseUrl, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'deny', reason: 'not now' }),
+    });
+    await fetchJson(baseUrl, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'edit', args: { command: 'ls' } }),
+    });
+
+    expect(calls[0]!.decision).toEqual({ action: 'deny', reason: 'not now' });
+    expect(calls[1]!.decision).toEqual({ action: 'edit', args: { command: 'ls' } });
+  });
+
+  it('returns 404 when no approval is pending', async () => {
+    const { status } = await fetchJson(baseUrl, '/sessions/s1/approvals/unknown', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'approve' }),
+    });
+    expect(status).toBe(404);
+  });
+
+  it('returns 400 for an invalid decision', async () => {
+    const bad = await fetchJson(baseUrl, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'maybe' }),
+    });
+    const noArgs = await fetchJson(baseUrl, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'edit' }),
+    });
+
+    expect(bad.status).toBe(400);
+    expect(noArgs.status).toBe(400);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('returns 404 when onApproval is not configured', async () => {
+    const bare = new GatewayServer({
+      port: 0,
+      host: '127.0.0.1',
+      sessionManager: new SessionManager(),
+    });
+    await bare.start();
+    const addr = bare.getAddress()!;
+    const { status } = await fetchJson(`http://${addr.host}:${addr.port}`, '/sessions/s1/approvals/tc-1', {
+      method: 'POST',
+      body: JSON.stringify({ decision: 'approve' }),
+    });
+    expect(status).toBe(404);
+    await bare.stop();
+  });
+});
+
 describe('Multi-session routing', () => {
   let sessionManager: SessionManager;
   let router: MessageRouter;
@@ -0,0 +1,148 @@
+/**
+ * Tests for InboundLimiter — token buckets per sender, group and channel.
+ */
+
+import { vi } from 'vitest';
+import type { InboundMessage } from '@ch4p/core';
+import { InboundLimiter } from './inbound-limiter.js';
+
+function makeMsg(userId: string, groupId?: string, channelId = 'telegram'): InboundMessage {
+  return {
+    id: `msg-${Math.random()}`,
+    channelId,
+    from: { channelId, userId, groupId },
+    text: 'hi',
+    timestamp: new Date(),
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('InboundLimiter', () => {
+  it('allows a burst and then rejects', () => {
+    const limiter = new InboundLimiter({ user: { burst: 3, perMinute: 6 } });
+    const msg = makeMsg('42');
+
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.take(msg, 'telegram:42').allowed).toBe(true);
+    }
+    const decision = limiter.take(msg, 'telegram:42');
+
+    expect(decision).toEqual({
+      allowed: false,
+      scope: 'user',
+      key: 'user:telegram:42',
+      retryAfterMs: 10_000,
+      tripped: true,
+    });
+  });
+
+  it('refills at the configured rate', () => {
+    const limiter = new InboundLimiter({ user: { burst: 1, perMinute: 6 } });
+    const msg = makeMsg('42');
+    limiter.take(msg, 'telegram:42');
+
+    vi.advanceTimersByTime(9_000);
+    expect(limiter.take(msg, 'telegram:42').allowed).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(limiter.take(msg, 'telegram:42').allowed).toBe(true);
+  });
+
+  it('reports tripped only for the first rejection of a flood', () => {
+    const limiter = new InboundLimiter({ user: { burst: 1, perMinute: 6 } });
+    const msg = makeMsg('42');
+    limiter.take(msg, 'telegram:42');
+
+    const first = limiter.take(msg, 'telegram:42');
+    const second = limiter.take(msg, 'telegram:42');
+    expect(first.allowed === false && first.tripped).toBe(true);
+    expect(second.allowed === false && second.tripped).toBe(false);
+
+    // Allowed again after refilling, so the next flood trips again.
+    vi.advanceTimersByTime(10_000);
+    limiter.take(msg, 'telegram:42');
+    const next = limiter.take(msg, 'telegram:42');
+    expect(next.allowed === false && next.tripped).toBe(true);
+  });
+
+  it('keeps senders apart', () => {
+    const limiter = new InboundLimiter({ user: { burst: 1, perMinute: 1 } });
+
+    expect(limiter.take(makeMsg('1'), 'telegram:1').allowed).toBe(true);
+    expect(limiter.take(makeMsg('2'), 'telegram:2').allowed).toBe(true);
+    expect(limiter.take(makeMsg('1'), 'telegram:1').allowed).toBe(false);
+  });
+
+  it('shares a group bucket between its members', () => {
+    const limiter = new InboundLimiter({
+      user: { burst: 10, perMinute: 10 },
+      group: { burst: 2, perMinute: 2 },
+    });
+
+    expect(limiter.take(makeMsg('1', 'g'), 'telegram:1').allowed).toBe(true);
+    expect(limiter.take(makeMsg('2', 'g'), 'telegram:2').allowed).toBe(true);
+    const decision = limiter.take(makeMsg('3', 'g'), 'telegram:3');
+
+    expect(decision).toMatchObject({ allowed: false, scope: 'group', key: 'group:telegram:g' });
+    // Private messages don't draw on the group bucket.
+    expect(limiter.take(makeMsg('3'), 'telegram:3').allowed).toBe(true);
+  });
+
+  it('limits a whole channel when configured', () => {
+    const limiter = new InboundLimiter({ channel: { burst: 1, perMinute: 1 } });
+
+    expect(limiter.take(makeMsg('1'), 'telegram:1').allowed).toBe(true);
+    expect(limiter.take(makeMsg('2'), 'telegram:2')).toMatchObject({
+      allowed: false,
+      scope: 'channel',
+      key: 'channel:telegram',
+    });
+    expect(limiter.take(makeMsg('2', undefined, 'discord'), 'discord:2').allowed).toBe(true);
+  });
+
+  it('does not drain other buckets when one rejects', () => {
+    const limiter = new InboundLimiter({
+      user: { burst: 1, perMinute: 1 },
+      group: { burst: 1, perMinute: 1 },
+    });
+    limiter.take(makeMsg('1', 'g'), 'telegram:1');
+
+    // Rejected by the group bucket; the sender's bucket keeps its token.
+    expect(limiter.take(makeMsg('2', 'g'), 'telegram:2').allowed).toBe(false);
+    expect(limiter.take(makeMsg('2'), 'telegram:2').allowed).toBe(true);
+  });
+
+  it('uses a per-call user limit in place of the default', () => {
+    const limiter = new InboundLimiter({ user: { burst: 1, perMinute: 1 } });
+    const msg = makeMsg('42');
+    const roleLimit = { burst: 3, perMinute: 3 };
+
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.take(msg, 'telegram:42', roleLimit).allowed).toBe(true);
+    }
+    expect(limiter.take(msg, 'telegram:42', roleLimit).allowed).toBe(false);
+  });
+
+  it('evicts buckets that have refilled', () => {
+    const limiter = new InboundLimiter({ user: { burst: 2, perMinute: 60 } });
+    limiter.take(makeMsg('1'), 'telegram:1');
+    limiter.take(makeMsg('2'), 'telegram:2');
+    limiter.take(makeMsg('2'), 'telegram:2');
+    expect(limiter.size).toBe(2);
+
+    vi.advanceTimersByTime(1_000);
+    limiter.evictStale();
+    expect(limiter.size).toBe(1);
+
+    vi.advanceTimersByTime(1_000);
+    limiter.evictStale();
+    expect(limiter.size).toBe(0);
+  });
+});
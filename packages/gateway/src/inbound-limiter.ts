@@ -0,0 +1,148 @@
+/**
+ * InboundLimiter -- token-bucket rate limits for inbound channel messages.
+ *
+ * Every message draws one token from up to three buckets: the sender's,
+ * the group chat's (group messages only) and the channel's. A message is
+ * allowed only when all of them have a token, so a rejected message does
+ * not drain the buckets that had room. Buckets refill continuously at
+ * `perMinute` tokens a minute, up to `burst`.
+ *
+ * The limiter reports when a bucket first runs dry (`tripped`), so callers
+ * can raise a security event and reply once per flood instead of once per
+ * message.
+ */
+
+import type { InboundMessage } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TokenBucketOpts {
+  /** Messages accepted at once from a full bucket. */
+  burst: number;
+  /** Sustained rate the bucket refills at. */
+  perMinute: number;
+}
+
+export interface InboundLimiterOpts {
+  /** Per sender. Default: burst 20, 20 per minute. */
+  user?: TokenBucketOpts;
+  /** Per group chat, shared by its members. Default: burst 40, 40 per minute. */
+  group?: TokenBucketOpts;
+  /** Per channel, shared by everyone on it. Default: unlimited. */
+  channel?: TokenBucketOpts;
+}
+
+export type LimitScope = 'user' | 'group' | 'channel';
+
+export type LimitDecision =
+  | { allowed: true }
+  | {
+    allowed: false;
+    /** The bucket that ran dry (the widest one, if several did). */
+    scope: LimitScope;
+    /** Bucket key, e.g. "channel:telegram". */
+    key: string;
+    /** How long until a token is available. */
+    retryAfterMs: number;
+    /** True for the first rejection since the bucket last allowed a message. */
+    tripped: boolean;
+  };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  opts: TokenBucketOpts;
+}
+
+const DEFAULT_USER_BUCKET: TokenBucketOpts = { burst: 20, perMinute: 20 };
+const DEFAULT_GROUP_BUCKET: TokenBucketOpts = { burst: 40, perMinute: 40 };
+
+// ---------------------------------------------------------------------------
+// InboundLimiter
+// ---------------------------------------------------------------------------
+
+export class InboundLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  /** Keys of buckets that have rejected a message since they last allowed one. */
+  private readonly limited = new Set<string>();
+  private readonly user: TokenBucketOpts;
+  private readonly group: TokenBucketOpts;
+  private readonly channel: TokenBucketOpts | undefined;
+
+  constructor(opts: InboundLimiterOpts = {}) {
+    this.user = opts.user ?? DEFAULT_USER_BUCKET;
+    this.group = opts.group ?? DEFAULT_GROUP_BUCKET;
+    this.channel = opts.channel;
+  }
+
+  /**
+   * Take a token for a message from every bucket it draws on.
+   *
+   * @param senderKey  Identifies the sender, e.g. "telegram:42" or a linked user id.
+   * @param userLimit  Replaces the per-sender bucket size, e.g. for the sender's role.
+   */
+  take(msg: InboundMessage, senderKey: string, userLimit?: TokenBucketOpts): LimitDecision {
+    const now = Date.now();
+    const checks: Array<{ scope: LimitScope; key: string; opts: TokenBucketOpts }> = [];
+    if (this.channel) {
+      checks.push({ scope: 'channel', key: `channel:${msg.channelId}`, opts: this.channel });
+    }
+    if (msg.from.groupId) {
+      checks.push({ scope: 'group', key: `group:${msg.channelId}:${msg.from.groupId}`, opts: this.group });
+    }
+    checks.push({ scope: 'user', key: `user:${senderKey}`, opts: userLimit ?? this.user });
+
+    const buckets = checks.map((c) => this.refill(c.key, c.opts, now));
+    const empty = checks.findIndex((_, i) => buckets[i]!.tokens < 1);
+    if (empty >= 0) {
+      const { scope, key } = checks[empty]!;
+      const bucket = buckets[empty]!;
+      const tripped = !this.limited.has(key);
+      this.limited.add(key);
+      const retryAfterMs = Math.ceil(((1 - bucket.tokens) * 60_000) / bucket.opts.perMinute);
+      return { allowed: false, scope, key, retryAfterMs, tripped };
+    }
+
+    for (const [i, bucket] of buckets.entries()) {
+      bucket.tokens -= 1;
+      this.limited.delete(checks[i]!.key);
+    }
+    return { allowed: true };
+  }
+
+  /** Drop buckets that have refilled completely; they behave like new ones. */
+  evictStale(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(key, bucket.opts, now).tokens >= bucket.opts.burst) {
+        this.buckets.delete(key);
+        this.limited.delete(key);
+      }
+    }
+  }
+
+  /** Number of buckets held, for tests and metrics. */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  private refill(key: string, opts: TokenBucketOpts, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    // A changed size (e.g. the sender's role changed) starts a fresh bucket.
+    if (!bucket || bucket.opts.burst !== opts.burst || bucket.opts.perMinute !== opts.perMinute) {
+      bucket = { tokens: opts.burst, updatedAt: now, opts };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(opts.burst, bucket.tokens + (elapsed * opts.perMinute) / 60_000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
@@ -6,15 +6,33 @@
 export { SessionManager } from './session-manager.js';
 export type { SessionState } from './session-manager.js';
 
-export { MessageRouter } from './router.js';
+export { MemorySessionStore } from './session-store.js';
+export { SQLiteSessionStore } from './sqlite-session-store.js';
+export type { SQLiteSessionStoreOpts } from './sqlite-session-store.js';
+export { SQLiteUsageStore } from './sqlite-usage-store.js';
+export type { SQLiteUsageStoreOpts } from './sqlite-usage-store.js';
+export { MemoryJobStore } from './job-store.js';
+export { SQLiteJobStore } from './sqlite-job-store.js';
+export type { SQLiteJobStoreOpts } from './sqlite-job-store.js';
+export { MemoryUserStore } from './user-store.js';
+export { SQLiteUserStore } from './sqlite-user-store.js';
+export type { SQLiteUserStoreOpts } from './sqlite-user-store.js';
+
+export { MessageRouter, buildRouteKey } from './router.js';
 export type { RouteResult } from './router.js';
 
+export { InboundLimiter } from './inbound-limiter.js';
+export type { InboundLimiterOpts, LimitDecision, LimitScope, TokenBucketOpts } from './inbound-limiter.js';
+
 export { GatewayServer } from './server.js';
 export type { GatewayServerOptions } from './server.js';
 
 export { PairingManager } from './pairing.js';
 export type { PairingCode, PairedClient, PairingManagerOpts } from './pairing.js';
 
+export { UserDirectory, parseLinkCommand } from './user-directory.js';
+export type { LinkCode, LinkCommand, UserDirectoryOpts } from './user-directory.js';
+
 export { WebSocketBridge } from './ws-bridge.js';
 export type { BridgeAgentEvent } from './ws-bridge.js';
 
@@ -26,11 +44,14 @@ export { serveStatic } from './static.js';
 export { StreamHandler } from './stream-handler.js';
 export type { StreamHandlerOpts, StreamableEvent } from './stream-handler.js';
 
-export { parseCron, cronMatches } from './cron-parser.js';
-export type { CronSchedule } from './cron-parser.js';
+export { parseCron, cronMatches, nextCronRun, wallClock, fromWallClock } from './cron-parser.js';
+export type { CronSchedule, WallClock } from './cron-parser.js';
 
 export { Scheduler } from './scheduler.js';
 export type { CronJob, SchedulerOptions } from './scheduler.js';
 
 export { LogChannel } from './log-channel.js';
 export type { LogChannelOptions } from './log-channel.js';
+
+export { formatApprovalPrompt, parseApprovalReply, approvalActions, parseApprovalAction } from './approval-reply.js';
+export { formatActionsAsText, matchActionReply } from './message-actions.js';
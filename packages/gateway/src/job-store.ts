@@ -0,0 +1,41 @@
+/**
+ * MemoryJobStore -- non-persistent IJobStore.
+ *
+ * Used when `scheduler.store` is "memory" and in tests. Jobs are lost when
+ * the process exits, so missed runs are never caught up.
+ */
+
+import type { IJobStore, ScheduledJob } from '@ch4p/core';
+
+export class MemoryJobStore implements IJobStore {
+  readonly id = 'memory';
+
+  private jobs = new Map<string, ScheduledJob>();
+
+  save(job: ScheduledJob): void {
+    this.jobs.set(job.id, copy(job));
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? copy(job) : undefined;
+  }
+
+  list(): ScheduledJob[] {
+    return [...this.jobs.values()]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copy);
+  }
+
+  delete(id: string): boolean {
+    return this.jobs.delete(id);
+  }
+
+  close(): void {
+    // Nothing to release.
+  }
+}
+
+function copy(job: ScheduledJob): ScheduledJob {
+  return { ...job, target: job.target ? { ...job.target } : undefined };
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for the numbered-text fallback for message actions.
+ */
+
+import type { MessageAction } from '@ch4p/core';
+import { formatActionsAsText, matchActionReply } from './message-actions.js';
+
+const actions: MessageAction[] = [
+  { id: 'env:staging', label: 'Staging' },
+  { id: 'env:prod', label: 'Production', style: 'danger' },
+];
+
+describe('formatActionsAsText', () => {
+  it('lists the actions under the text', () => {
+    expect(formatActionsAsText('Which environment?', actions)).toBe(
+      'Which environment?\n\n1. Staging\n2. Production\n\nReply with a number to choose.',
+    );
+  });
+
+  it('leaves text without actions unchanged', () => {
+    expect(formatActionsAsText('Done.', [])).toBe('Done.');
+  });
+});
+
+describe('matchActionReply', () => {
+  it('matches by number', () => {
+    expect(matchActionReply('2', actions)?.id).toBe('env:prod');
+    expect(matchActionReply(' 1. ', actions)?.id).toBe('env:staging');
+    expect(matchActionReply('1)', actions)?.id).toBe('env:staging');
+  });
+
+  it('matches by label, ignoring case', () => {
+    expect(matchActionReply('production', actions)?.id).toBe('env:prod');
+  });
+
+  it('returns null for numbers out of range and other text', () => {
+    expect(matchActionReply('3', actions)).toBeNull();
+    expect(matchActionReply('0', actions)).toBeNull();
+    expect(matchActionReply('1 please', actions)).toBeNull();
+    expect(matchActionReply('staging or production?', actions)).toBeNull();
+  });
+});
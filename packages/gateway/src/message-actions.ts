@@ -0,0 +1,39 @@
+/**
+ * Message actions — buttons on channels that have none.
+ *
+ * Channels that set `supportsActions` render `OutboundMessage.actions` as
+ * buttons. Everywhere else the gateway lists the actions under the text as
+ * numbered choices:
+ *
+ *   Which environment?
+ *
+ *   1. Staging
+ *   2. Production
+ *
+ * and a reply that names one, by number or by label, is treated as the
+ * button press it stands for.
+ */
+
+import type { MessageAction } from '@ch4p/core';
+
+/** Append the actions to `text` as a numbered list. */
+export function formatActionsAsText(text: string, actions: readonly MessageAction[]): string {
+  if (actions.length === 0) return text;
+  const list = actions.map((action, i) => `${i + 1}. ${action.label}`).join('\n');
+  return `${text ? `${text}\n\n` : ''}${list}\n\nReply with a number to choose.`;
+}
+
+/**
+ * Match a reply against a numbered list from `formatActionsAsText`. The
+ * reply must be just the number (optionally followed by "." or ")") or the
+ * label, ignoring case. Returns null for anything else.
+ */
+export function matchActionReply(text: string, actions: readonly MessageAction[]): MessageAction | null {
+  const reply = text.trim();
+  const number = reply.match(/^(\d+)[.)]?$/);
+  if (number) {
+    return actions[Number(number[1]) - 1] ?? null;
+  }
+  const label = reply.toLowerCase();
+  return actions.find((action) => action.label.toLowerCase() === label) ?? null;
+}
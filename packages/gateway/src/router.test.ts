@@ -2,7 +2,7 @@
  * Tests for MessageRouter — composite routing keys (group, thread, private).
  */
 
-import { MessageRouter } from './router.js';
+import { MessageRouter, buildRouteKey } from './router.js';
 import { SessionManager } from './session-manager.js';
 import type { InboundMessage } from '@ch4p/core';
 
@@ -116,6 +116,28 @@ describe('MessageRouter', () => {
     });
   });
 
+  describe('linked users', () => {
+    it('private messages from linked identities share one session', () => {
+      const { router } = makeRouter();
+      const r1 = router.route(makeMsg({ channelId: 'telegram', userId: '42' }), 'telegram:42');
+      const r2 = router.route(makeMsg({ channelId: 'discord', userId: 'u-7' }), 'telegram:42');
+      expect(r1?.sessionId).toBe(r2?.sessionId);
+    });
+
+    it('group messages keep their per-channel keys', () => {
+      expect(buildRouteKey(makeMsg({ userId: '42', groupId: 'g1' }), 'telegram:42'))
+        .toBe('telegram:group:g1:user:42');
+      expect(buildRouteKey(makeMsg({ userId: '42' }), 'telegram:42')).toBe('user:telegram:42');
+      expect(buildRouteKey(makeMsg({ userId: '42' }))).toBe('telegram:42');
+    });
+
+    it('direct messages that carry a channel id count as private', () => {
+      const dm = makeMsg({ channelId: 'discord', userId: 'u-7', groupId: 'dm-1', isDirect: true });
+      expect(buildRouteKey(dm, 'telegram:42')).toBe('user:telegram:42');
+      expect(buildRouteKey(dm)).toBe('discord:group:dm-1:user:u-7');
+    });
+  });
+
   describe('session reuse after eviction', () => {
     it('creates a new session when the previous one was ended', () => {
       const { router, sessionManager } = makeRouter();
@@ -4,6 +4,12 @@
  * Uses the combination of channelId + userId to locate an existing
  * session. When no session exists for the sender, one is created
  * automatically from the default session configuration.
+ *
+ * When the SessionManager has a session store, route keys are persisted
+ * too, so a returning sender reaches their previous session after a restart.
+ *
+ * Private messages from identities linked in the UserDirectory can share
+ * one session across channels by passing the linked user's id to route().
  */
 
 import type { InboundMessage, SessionConfig } from '@ch4p/core';
@@ -44,21 +50,26 @@ export class MessageRouter {
    *   1. Group + thread (Telegram forum topic, Discord thread): all users in the
    *      same thread share one session.
    *   2. Group only: each user in the group gets their own session.
-   *   3. Private: keyed by userId (original behaviour).
+   *   3. Private: keyed by userId (original behaviour), or by `linkedUserId`
+   *      when given, so every linked identity reaches the same session.
+   *      A linked direct message (`from.isDirect`) counts as private even
+   *      when the platform gives it a group id.
    *
    * Returns `null` only if the message cannot be attributed to a user
    * (missing channelId).
    */
-  route(msg: InboundMessage): RouteResult | null {
+  route(msg: InboundMessage, linkedUserId?: string): RouteResult | null {
     if (!msg.channelId) return null;
 
-    const routeKey = this.buildRouteKey(msg);
+    const routeKey = buildRouteKey(msg, linkedUserId);
 
-    // Check for an existing session
-    const existingId = this.routeMap.get(routeKey);
+    // Check for an existing session (falling back to the persisted route)
+    const store = this.sessionManager.getStore();
+    const existingId = this.routeMap.get(routeKey) ?? store?.getRoute(routeKey);
     if (existingId) {
       const session = this.sessionManager.getSession(existingId);
       if (session) {
+        this.routeMap.set(routeKey, existingId);
         this.sessionManager.touchSession(existingId);
         return { sessionId: existingId, config: session.config };
       }
@@ -77,6 +88,7 @@ export class MessageRouter {
 
     const state = this.sessionManager.createSession(config);
     this.routeMap.set(routeKey, sessionId);
+    store?.setRoute(routeKey, sessionId);
 
     // Safety-net: auto-evict stale entries when the map is unusually large.
     // This ensures bounded memory even if the external eviction timer is slow.
@@ -88,39 +100,55 @@ export class MessageRouter {
   }
 
   /**
-   * Evict route entries whose sessions no longer exist in the SessionManager.
+   * Evict route entries whose sessions are no longer in the SessionManager's
+   * memory. Persisted routes are kept and looked up again on the next message.
    * Returns the number of stale routes removed.
    */
   evictStale(): number {
     let evicted = 0;
+    const live = new Set(this.sessionManager.listSessions().map((s) => s.config.sessionId));
     for (const [key, sessionId] of this.routeMap) {
-      if (!this.sessionManager.getSession(sessionId)) {
+      if (!live.has(sessionId)) {
         this.routeMap.delete(key);
         evicted++;
       }
     }
     return evicted;
   }
+}
 
-  // ---------------------------------------------------------------------------
-  // Private helpers
-  // ---------------------------------------------------------------------------
+// ---------------------------------------------------------------------------
+// Route keys
+// ---------------------------------------------------------------------------
 
-  private buildRouteKey(msg: InboundMessage): string {
-    const { channelId, from } = msg;
-    const { userId, groupId, threadId } = from;
+/**
+ * The conversation key for a message. The gateway keys its shared
+ * conversation contexts on the same value.
+ */
+export function buildRouteKey(msg: InboundMessage, linkedUserId?: string): string {
+  const { channelId, from } = msg;
+  const { userId, groupId, threadId, isDirect } = from;
 
-    // Forum topic / thread: all participants share one session per thread.
-    if (groupId && threadId) {
-      return `${channelId}:group:${groupId}:thread:${threadId}`;
-    }
+  // Forum topic / thread: all participants share one session per thread.
+  if (groupId && threadId) {
+    return `${channelId}:group:${groupId}:thread:${threadId}`;
+  }
 
-    // Regular group chat: each user has their own session.
-    if (groupId) {
-      return `${channelId}:group:${groupId}:user:${userId ?? 'anonymous'}`;
-    }
+  // Direct message with its own channel id, from a linked identity.
+  if (linkedUserId && isDirect) {
+    return `user:${linkedUserId}`;
+  }
 
-    // Private / direct message: keyed by user.
-    return `${channelId}:${userId ?? 'anonymous'}`;
+  // Regular group chat: each user has their own session.
+  if (groupId) {
+    return `${channelId}:group:${groupId}:user:${userId ?? 'anonymous'}`;
   }
+
+  // Private / direct message from a linked identity: one conversation per person.
+  if (linkedUserId) {
+    return `user:${linkedUserId}`;
+  }
+
+  // Private / direct message: keyed by user.
+  return `${channelId}:${userId ?? 'anonymous'}`;
 }
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Scheduler } from './scheduler.js';
+import { MemoryJobStore } from './job-store.js';
 
 describe('Scheduler', () => {
   beforeEach(() => {
@@ -170,3 +171,103 @@ describe('Scheduler', () => {
     scheduler.stop();
   });
 });
+
+describe('Scheduler — one-shot, interval and persisted jobs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-06T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires a one-shot job once at its time and then removes it', () => {
+    const onTrigger = vi.fn();
+    const scheduler = new Scheduler({ onTrigger, tickMs: 1000 });
+    const job = scheduler.addJob({ name: 'call', at: '2025-01-06T09:00:05Z', message: 'call mom' });
+    expect(job.nextRunAt?.toISOString()).toBe('2025-01-06T09:00:05.000Z');
+
+    scheduler.start();
+    expect(onTrigger).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(5000);
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(scheduler.size).toBe(0);
+
+    vi.advanceTimersByTime(5000);
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it('reads offset-less "at" times in the job time zone', () => {
+    const scheduler = new Scheduler({ onTrigger: vi.fn() });
+    const job = scheduler.addJob({ name: 'x', at: '2025-01-07T09:00', timezone: 'Asia/Tokyo', message: 'x' });
+    expect(job.at?.toISOString()).toBe('2025-01-07T00:00:00.000Z');
+  });
+
+  it('runs interval jobs every everyMs', () => {
+    const onTrigger = vi.fn();
+    const scheduler = new Scheduler({ onTrigger, tickMs: 1000 });
+    scheduler.addJob({ name: 'poll', everyMs: 10_000, message: 'poll' });
+    scheduler.start();
+
+    vi.advanceTimersByTime(25_000);
+    expect(onTrigger).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it('rejects jobs without exactly one timing', () => {
+    const scheduler = new Scheduler({ onTrigger: vi.fn() });
+    expect(() => scheduler.addJob({ name: 'x', message: 'x' })).toThrow(/exactly one/);
+    expect(() => scheduler.addJob({ name: 'x', schedule: '* * * * *', everyMs: 1000, message: 'x' })).toThrow(/exactly one/);
+    expect(() => scheduler.addJob({ name: 'x', schedule: '* * * * *', timezone: 'Nowhere/Land', message: 'x' })).toThrow(RangeError);
+  });
+
+  it('restores jobs from the store and catches up a missed run once', () => {
+    const store = new MemoryJobStore();
+    const first = new Scheduler({ onTrigger: vi.fn(), store });
+    first.addJob({ name: 'daily', schedule: '0 10 * * *', timezone: 'UTC', message: 'hi' }, 'config');
+    expect(store.get('daily')?.nextRunAt?.toISOString()).toBe('2025-01-06T10:00:00.000Z');
+
+    // Gateway is down for two days.
+    vi.setSystemTime(new Date('2025-01-08T12:00:00Z'));
+    const onTrigger = vi.fn();
+    const second = new Scheduler({ onTrigger, store });
+    second.addJob({ name: 'daily', schedule: '0 10 * * *', timezone: 'UTC', message: 'hi' }, 'config');
+    second.start();
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(store.get('daily')?.nextRunAt?.toISOString()).toBe('2025-01-09T10:00:00.000Z');
+    second.stop();
+  });
+
+  it('skips missed runs when catchUp is false', () => {
+    const store = new MemoryJobStore();
+    new Scheduler({ onTrigger: vi.fn(), store })
+      .addJob({ name: 'late', at: '2025-01-06T09:30:00Z', message: 'x' });
+
+    vi.setSystemTime(new Date('2025-01-06T11:00:00Z'));
+    const onTrigger = vi.fn();
+    const scheduler = new Scheduler({ onTrigger, store, catchUp: false });
+    scheduler.start();
+
+    expect(onTrigger).not.toHaveBeenCalled();
+    expect(store.list()).toHaveLength(0);
+    scheduler.stop();
+  });
+
+  it('re-enabled jobs are due from now, not caught up', () => {
+    const onTrigger = vi.fn();
+    const scheduler = new Scheduler({ onTrigger, tickMs: 1000 });
+    scheduler.addJob({ name: 'poll', everyMs: 60_000, message: 'x', enabled: false });
+    scheduler.start();
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(onTrigger).not.toHaveBeenCalled();
+
+    expect(scheduler.setEnabled('poll', true)?.nextRunAt?.toISOString()).toBe('2025-01-06T09:06:00.000Z');
+    expect(scheduler.setEnabled('missing', true)).toBeUndefined();
+    scheduler.stop();
+  });
+});
@@ -1,85 +1,151 @@
 /**
- * Scheduler — cron-based job runner for the ch4p gateway.
+ * Scheduler — job runner for the ch4p gateway.
  *
- * Runs a 60-second tick loop (matching HealthMonitor pattern) that checks
- * all registered cron jobs against the current time. When a job's schedule
- * matches, it fires the `onTrigger` callback with the job details.
+ * Jobs run on a 5-field cron schedule (in an optional IANA time zone), on a
+ * fixed interval, or once at a given time. Each job carries the time it is
+ * next due; a tick loop fires every job whose time has come through the
+ * `onTrigger` callback, then works out when it runs next. One-shot jobs are
+ * removed once they have fired.
+ *
+ * With a store, jobs and their run times are persisted as they change and
+ * restored on construction. A job that came due while the gateway was down
+ * fires once on the first tick (catch-up), however many runs it missed;
+ * with `catchUp: false` those runs are skipped instead.
  *
  * The timer is `.unref()`ed so it doesn't keep the process alive.
  *
  * Usage:
- *   const scheduler = new Scheduler({ onTrigger: (job) => handleCronMessage(job) });
+ *   const scheduler = new Scheduler({ onTrigger: (job) => handleCronMessage(job), store });
  *   scheduler.addJob({ name: 'daily-summary', schedule: '0 9 * * *', message: 'Give me a daily summary' });
+ *   scheduler.addJob({ name: 'call-mom', at: '2026-03-02T09:00', timezone: 'Europe/Berlin', message: '…' });
  *   scheduler.start();
  */
 
-import { parseCron, cronMatches, type CronSchedule } from './cron-parser.js';
+import type { IJobStore, JobSpec, ScheduledJob } from '@ch4p/core';
+import { parseCron, nextCronRun, wallClock, fromWallClock, type CronSchedule } from './cron-parser.js';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface CronJob {
-  /** Unique name for this job. */
-  name: string;
-  /** Cron expression (5 fields: minute hour dom month dow). */
-  schedule: string;
-  /** The message to send when the cron fires. */
-  message: string;
-  /** Whether this job is enabled. Default: true. */
-  enabled?: boolean;
-  /** Optional userId to attribute the cron message to. */
-  userId?: string;
-}
+/** A job definition as accepted by {@link Scheduler.addJob}. */
+export type CronJob = JobSpec;
 
 export interface SchedulerOptions {
-  /** Called when a cron job triggers. */
-  onTrigger: (job: CronJob) => void;
-  /** Tick interval in milliseconds. Default: 60000 (1 minute). */
+  /** Called when a job fires. */
+  onTrigger: (job: ScheduledJob) => void;
+  /** Tick interval in milliseconds. Default: 15000. */
   tickMs?: number;
+  /** Persists jobs across restarts. Jobs already in the store are restored. */
+  store?: IJobStore;
+  /** Fire jobs that came due while the scheduler was stopped. Default: true. */
+  catchUp?: boolean;
 }
 
-interface InternalJob extends CronJob {
-  parsed: CronSchedule;
+interface InternalJob extends ScheduledJob {
+  parsed?: CronSchedule;
 }
 
+const MINUTE_MS = 60_000;
+
 // ---------------------------------------------------------------------------
 // Scheduler
 // ---------------------------------------------------------------------------
 
 export class Scheduler {
   private readonly jobs = new Map<string, InternalJob>();
-  private readonly onTrigger: (job: CronJob) => void;
+  private readonly onTrigger: (job: ScheduledJob) => void;
   private readonly tickMs: number;
+  private readonly store: IJobStore | null;
+  private readonly catchUp: boolean;
   private timer: ReturnType<typeof setInterval> | null = null;
-  private lastTickMinute = -1;
 
   constructor(opts: SchedulerOptions) {
     this.onTrigger = opts.onTrigger;
-    this.tickMs = opts.tickMs ?? 60_000;
+    this.tickMs = opts.tickMs ?? 15_000;
+    this.store = opts.store ?? null;
+    this.catchUp = opts.catchUp ?? true;
+
+    for (const job of this.store?.list() ?? []) {
+      try {
+        this.jobs.set(job.id, prepare(job));
+      } catch {
+        // Skip jobs that no longer validate (e.g. a removed time zone).
+      }
+    }
   }
 
   /**
-   * Add or replace a cron job. Validates the schedule eagerly.
-   * Throws if the cron expression is invalid.
+   * Add or replace a job. Validates the timing eagerly and throws if the
+   * cron expression, time, interval or time zone is invalid.
+   *
+   * Re-adding a job with unchanged timing (as happens to config jobs on
+   * every start) keeps its run history, so missed runs are still caught up.
    */
-  addJob(job: CronJob): void {
-    const parsed = parseCron(job.schedule);
-    this.jobs.set(job.name, { ...job, enabled: job.enabled ?? true, parsed });
+  addJob(spec: JobSpec, createdBy?: string): ScheduledJob {
+    const now = new Date();
+    const id = spec.id ?? spec.name;
+    const existing = this.jobs.get(id);
+
+    const job = prepare({
+      ...spec,
+      id,
+      at: spec.at === undefined ? undefined : parseAt(spec.at, spec.timezone),
+      enabled: spec.enabled ?? true,
+      createdAt: existing?.createdAt ?? now,
+      createdBy: createdBy ?? existing?.createdBy,
+    });
+
+    if (existing && sameTiming(existing, job)) {
+      job.lastRunAt = existing.lastRunAt;
+      job.nextRunAt = existing.nextRunAt;
+    } else {
+      job.nextRunAt = firstRun(job, now);
+    }
+
+    this.jobs.set(id, job);
+    this.store?.save(toPublic(job));
+    return toPublic(job);
   }
 
   /**
-   * Remove a job by name. Returns true if removed.
+   * Enable or disable a job. A re-enabled job is next due from now rather
+   * than catching up on the time it was disabled. Returns the updated job,
+   * or undefined if there is no such job.
    */
-  removeJob(name: string): boolean {
-    return this.jobs.delete(name);
+  setEnabled(id: string, enabled: boolean): ScheduledJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (enabled && !job.enabled) {
+      job.nextRunAt = firstRun(job, new Date());
+    }
+    job.enabled = enabled;
+    this.store?.save(toPublic(job));
+    return toPublic(job);
+  }
+
+  /**
+   * Remove a job by id. Returns true if removed.
+   */
+  removeJob(id: string): boolean {
+    this.store?.delete(id);
+    return this.jobs.delete(id);
+  }
+
+  /**
+   * Get a job by id.
+   */
+  getJob(id: string): ScheduledJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? toPublic(job) : undefined;
   }
 
   /**
    * List all registered jobs.
    */
-  listJobs(): CronJob[] {
-    return [...this.jobs.values()].map(({ parsed: _p, ...rest }) => rest);
+  listJobs(): ScheduledJob[] {
+    return [...this.jobs.values()].map(toPublic);
   }
 
   /**
@@ -95,10 +161,12 @@ export class Scheduler {
   start(): void {
     if (this.timer) return;
 
+    if (!this.catchUp) this.skipMissed(new Date());
+
     this.timer = setInterval(() => this.tick(), this.tickMs);
     this.timer.unref(); // Don't keep the process alive.
 
-    // Run an immediate tick so we don't wait up to 60s for the first check.
+    // Run an immediate tick so due jobs don't wait for the first interval.
     this.tick();
   }
 
@@ -125,23 +193,117 @@ export class Scheduler {
 
   private tick(): void {
     const now = new Date();
-    // Use epoch-based minute to avoid DST duplicate/skip issues.
-    const currentMinute = Math.floor(Date.now() / 60_000);
-
-    // Deduplicate: only fire once per calendar minute.
-    if (currentMinute === this.lastTickMinute) return;
-    this.lastTickMinute = currentMinute;
-
-    for (const job of this.jobs.values()) {
-      if (!job.enabled) continue;
-
-      if (cronMatches(job.parsed, now)) {
-        try {
-          this.onTrigger(job);
-        } catch {
-          // Don't let a single job failure crash the scheduler.
-        }
+
+    for (const job of [...this.jobs.values()]) {
+      if (!job.enabled || !job.nextRunAt || job.nextRunAt > now) continue;
+
+      // Record the run before firing so a crash in the handler can't make
+      // the job fire again after a restart.
+      job.lastRunAt = now;
+      job.nextRunAt = nextRun(job, now);
+      if (job.at) {
+        this.removeJob(job.id);
+      } else {
+        this.store?.save(toPublic(job));
+      }
+
+      try {
+        this.onTrigger(toPublic(job));
+      } catch {
+        // Don't let a single job failure crash the scheduler.
+      }
+    }
+  }
+
+  /** Move jobs that came due before the current minute past their missed runs. */
+  private skipMissed(now: Date): void {
+    const minuteStart = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    for (const job of [...this.jobs.values()]) {
+      if (!job.nextRunAt || job.nextRunAt.getTime() >= minuteStart) continue;
+      if (job.at) {
+        this.removeJob(job.id);
+      } else {
+        job.nextRunAt = firstRun(job, now);
+        this.store?.save(toPublic(job));
       }
     }
   }
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Validate a job's timing and attach its parsed cron schedule. */
+function prepare(job: ScheduledJob): InternalJob {
+  const kinds = [job.schedule, job.at, job.everyMs].filter((v) => v !== undefined).length;
+  if (kinds !== 1) {
+    throw new Error(`Job "${job.name}" needs exactly one of schedule, at or everyMs`);
+  }
+  if (job.timezone) {
+    wallClock(new Date(), job.timezone); // Throws RangeError for an unknown zone.
+  }
+  if (job.at && isNaN(job.at.getTime())) {
+    throw new Error(`Job "${job.name}" has an invalid "at" time`);
+  }
+  if (job.everyMs !== undefined && !(Number.isFinite(job.everyMs) && job.everyMs > 0)) {
+    throw new Error(`Job "${job.name}" needs a positive everyMs`);
+  }
+  return {
+    ...job,
+    parsed: job.schedule !== undefined ? parseCron(job.schedule) : undefined,
+  };
+}
+
+/**
+ * Parse an `at` time. ISO strings without a UTC offset are wall-clock time
+ * in `timeZone` (the host's zone when omitted).
+ */
+function parseAt(at: Date | string, timeZone?: string): Date {
+  if (at instanceof Date) return at;
+
+  const m = at.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/);
+  if (!m) return new Date(at);
+  return fromWallClock({
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4] ?? 0),
+    minute: Number(m[5] ?? 0),
+    second: Number(m[6] ?? 0),
+  }, timeZone);
+}
+
+/** When a new (or re-enabled) job is first due. Cron jobs may fire in the current minute. */
+function firstRun(job: InternalJob, now: Date): Date | undefined {
+  if (job.parsed) {
+    return nextCronRun(job.parsed, new Date(Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS), job.timezone);
+  }
+  if (job.everyMs !== undefined) return new Date(now.getTime() + job.everyMs);
+  return job.at;
+}
+
+/** When a job is next due after running at `ranAt`. */
+function nextRun(job: InternalJob, ranAt: Date): Date | undefined {
+  if (job.parsed) {
+    const nextMinute = (Math.floor(ranAt.getTime() / MINUTE_MS) + 1) * MINUTE_MS;
+    return nextCronRun(job.parsed, new Date(nextMinute), job.timezone);
+  }
+  if (job.everyMs !== undefined) return new Date(ranAt.getTime() + job.everyMs);
+  return undefined;
+}
+
+function sameTiming(a: ScheduledJob, b: ScheduledJob): boolean {
+  return (
+    a.schedule === b.schedule &&
+    a.everyMs === b.everyMs &&
+    a.at?.getTime() === b.at?.getTime() &&
+    a.timezone === b.timezone &&
+    a.enabled === b.enabled
+  );
+}
+
+function toPublic(job: InternalJob): ScheduledJob {
+  const { parsed: _p, ...rest } = job;
+  return { ...rest };
+}
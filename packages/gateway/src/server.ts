@@ -14,23 +14,39 @@
  *   POST   /sessions              - create a new session
  *   GET    /sessions/:id          - get a single session
  *   POST   /sessions/:id/steer    - steer (inject message into) a session
+ *   POST   /sessions/:id/approvals/:callId - approve, deny or edit a gated tool call
  *   DELETE /sessions/:id          - end a session
  *   POST   /webhooks/:name        - receive a webhook trigger (auth required)
+ *   GET    /usage                 - token/cost usage and budget status
+ *   GET    /metrics               - Prometheus metrics (pairing or scrape token)
+ *   GET    /jobs                  - list scheduled jobs
+ *   POST   /jobs                  - create (or replace) a scheduled job
+ *   GET    /jobs/:id              - get a single job
+ *   PATCH  /jobs/:id              - enable or disable a job
+ *   DELETE /jobs/:id              - delete a job
+ *   GET    /memory                - list memories (?prefix=&limit=&offset=) or search (?q=)
+ *   GET    /memory/namespaces     - memory namespaces with entry counts
+ *   GET    /memory/:key           - get a single memory
+ *   POST   /memory                - create or replace a memory
+ *   DELETE /memory/:key           - forget a memory
  *   WS     /ws/:sessionId         - WebSocket upgrade for canvas sessions
  *   GET    /*                     - static file serving (when staticDir configured)
  *
  * When pairing is enabled, all routes except /health and /pair require
- * a valid bearer token in the Authorization header.
+ * a valid bearer token in the Authorization header. /metrics also accepts
+ * the separate scrape token when one is configured.
  */
 
 import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
 import type { Duplex } from 'node:stream';
 import { WebSocketServer } from 'ws';
-import type { SessionConfig } from '@ch4p/core';
+import type { ApprovalDecision, IMemoryBackend, JobSpec, MemoryEntry, RecallOpts, SessionConfig } from '@ch4p/core';
 import { generateId } from '@ch4p/core';
 import type { SessionManager } from './session-manager.js';
 import type { PairingManager } from './pairing.js';
 import type { CanvasSessionManager } from './canvas-session.js';
+import type { Scheduler } from './scheduler.js';
 import { WebSocketBridge } from './ws-bridge.js';
 import { serveStatic } from './static.js';
 
@@ -60,6 +76,12 @@ export interface GatewayServerOptions {
   onRawWebhook?: (name: string, body: string) => boolean;
   /** Called when POST /sessions/:id/steer is invoked. */
   onSteer?: (sessionId: string, message: string) => void;
+  /**
+   * Called when POST /sessions/:id/approvals/:callId is invoked. Return true
+   * if a pending approval was resolved; false responds 404.
+   * If omitted, the route responds 404.
+   */
+  onApproval?: (sessionId: string, callId: string, decision: ApprovalDecision) => boolean;
   /**
    * Called for GET /config. Should return a safe (no API keys) config subset.
    * If omitted, GET /config responds 404.
@@ -71,6 +93,27 @@ export interface GatewayServerOptions {
    * Should write the merged config to disk; returns a promise.
    */
   onSaveConfig?: (updates: Record<string, unknown>) => Promise<void>;
+  /**
+   * Called for GET /usage with the request's query parameters. Should return
+   * a token/cost report; throwing responds 400 with the error message.
+   * If omitted, GET /usage responds 404.
+   */
+  onGetUsage?: (query: URLSearchParams) => Record<string, unknown>;
+  /**
+   * Called for GET /metrics. Should return Prometheus text exposition format.
+   * If omitted, GET /metrics responds 404.
+   */
+  onGetMetrics?: () => string;
+  /**
+   * Bearer token accepted by GET /metrics in addition to paired tokens, so a
+   * scraper does not need a pairing. When set without pairing, /metrics
+   * requires it.
+   */
+  metricsToken?: string;
+  /** When provided, enables the /jobs routes. If omitted, they respond 404. */
+  scheduler?: Scheduler;
+  /** When provided, enables the /memory routes. If omitted, they respond 404. */
+  memoryBackend?: IMemoryBackend;
   /**
    * Optional pre-handler invoked before pairing auth and route dispatch.
    * Called for every request after CORS/OPTIONS handling and public routes
@@ -101,8 +144,14 @@ export class GatewayServer {
   private readonly onWebhook: GatewayServerOptions['onWebhook'] | null;
   private readonly onRawWebhook: GatewayServerOptions['onRawWebhook'] | null;
   private readonly onSteer: GatewayServerOptions['onSteer'] | null;
+  private readonly onApproval: GatewayServerOptions['onApproval'] | null;
   private readonly onGetConfig: GatewayServerOptions['onGetConfig'] | null;
   private readonly onSaveConfig: GatewayServerOptions['onSaveConfig'] | null;
+  private readonly onGetUsage: GatewayServerOptions['onGetUsage'] | null;
+  private readonly onGetMetrics: GatewayServerOptions['onGetMetrics'] | null;
+  private readonly metricsToken: string | null;
+  private readonly scheduler: Scheduler | null;
+  private readonly memoryBackend: IMemoryBackend | null;
   private readonly preHandler:
     | ((req: IncomingMessage, res: ServerResponse) => boolean | Promise<boolean>)
     | null;
@@ -125,8 +174,14 @@ export class GatewayServer {
     this.onWebhook = options.onWebhook ?? null;
     this.onRawWebhook = options.onRawWebhook ?? null;
     this.onSteer = options.onSteer ?? null;
+    this.onApproval = options.onApproval ?? null;
     this.onGetConfig = options.onGetConfig ?? null;
     this.onSaveConfig = options.onSaveConfig ?? null;
+    this.onGetUsage = options.onGetUsage ?? null;
+    this.onGetMetrics = options.onGetMetrics ?? null;
+    this.metricsToken = options.metricsToken || null;
+    this.scheduler = options.scheduler ?? null;
+    this.memoryBackend = options.memoryBackend ?? null;
     this.preHandler = options.preHandler ?? null;
   }
 
@@ -346,6 +401,21 @@ export class GatewayServer {
       return;
     }
 
+    // GET /metrics — Prometheus scrape (scrape token or pairing auth)
+    if (method === 'GET' && url === '/metrics') {
+      if (!this.onGetMetrics) {
+        this.sendJson(res, 404, { error: 'Metrics endpoint not configured.' });
+        return;
+      }
+      if (!this.checkMetricsAuth(req)) {
+        this.sendJson(res, 401, { error: 'Unauthorized. Provide a valid bearer token.' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.onGetMetrics());
+      return;
+    }
+
     // ----- Optional pre-handler (e.g. x402 payment middleware) -----
     // Runs before pairing auth. If it returns true, the response is already
     // sent. If it sets req._x402Authenticated, pairing auth is bypassed.
@@ -407,6 +477,55 @@ export class GatewayServer {
       return;
     }
 
+    // POST /sessions/:id/approvals/:callId — answer a pending tool approval
+    const approvalMatch = url.match(/^\/sessions\/([^/]+)\/approvals\/([^/]+)$/);
+    if (method === 'POST' && approvalMatch) {
+      const sessionId = approvalMatch[1]!;
+      const callId = decodeURIComponent(approvalMatch[2]!);
+
+      if (!this.onApproval) {
+        this.sendJson(res, 404, { error: 'Tool approvals are not enabled on this gateway.' });
+        return;
+      }
+
+      const body = await this.readBody(req);
+      let payload: { decision?: unknown; reason?: unknown; args?: unknown };
+      try {
+        payload = JSON.parse(body) as typeof payload;
+      } catch {
+        this.sendJson(res, 400, { error: 'Invalid JSON body.' });
+        return;
+      }
+
+      let decision: ApprovalDecision;
+      if (payload.decision === 'approve') {
+        decision = { action: 'approve' };
+      } else if (payload.decision === 'deny') {
+        decision = {
+          action: 'deny',
+          reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+        };
+      } else if (payload.decision === 'edit') {
+        if (typeof payload.args !== 'object' || payload.args === null || Array.isArray(payload.args)) {
+          this.sendJson(res, 400, { error: '"args" must be an object when decision is "edit"' });
+          return;
+        }
+        decision = { action: 'edit', args: payload.args };
+      } else {
+        this.sendJson(res, 400, { error: '"decision" must be one of: approve, deny, edit' });
+        return;
+      }
+
+      if (!this.onApproval(sessionId, callId, decision)) {
+        this.sendJson(res, 404, { error: 'No pending approval for this tool call' });
+        return;
+      }
+
+      this.sessionManager.touchSession(sessionId);
+      this.sendJson(res, 200, { sessionId, callId, decision: decision.action });
+      return;
+    }
+
     // Match /sessions/:id routes
     const sessionMatch = url.match(/^\/sessions\/([^/]+)(\/steer)?$/);
     if (sessionMatch) {
@@ -570,6 +689,37 @@ export class GatewayServer {
       return;
     }
 
+    // GET /usage[?period=&by=&user=&channel=&agent=] — token/cost report.
+    if (method === 'GET' && (url === '/usage' || url.startsWith('/usage?'))) {
+      if (!this.onGetUsage) {
+        this.sendJson(res, 404, { error: 'Usage endpoint not configured.' });
+        return;
+      }
+      const query = new URL(url, 'http://localhost').searchParams;
+      try {
+        this.sendJson(res, 200, this.onGetUsage(query));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        this.sendJson(res, 400, { error: errMsg });
+      }
+      return;
+    }
+
+    // /jobs, /jobs/:id — scheduled job CRUD.
+    const jobMatch = url.match(/^\/jobs(?:\/([^/?]+))?$/);
+    if (jobMatch) {
+      await this.handleJobs(req, res, method, jobMatch[1] ? decodeURIComponent(jobMatch[1]) : undefined);
+      return;
+    }
+
+    // /memory, /memory/namespaces, /memory/:key — browse and edit memory.
+    const memoryMatch = url.match(/^\/memory(?:\/([^?]+))?(?:\?.*)?$/);
+    if (memoryMatch) {
+      const key = memoryMatch[1] ? decodeURIComponent(memoryMatch[1]) : undefined;
+      await this.handleMemory(req, res, method, new URL(url, 'http://localhost').searchParams, key);
+      return;
+    }
+
     // ----- Static file serving (when configured) -----
     if (this.staticDir && serveStatic(req, res, this.staticDir)) {
       return;
@@ -579,6 +729,202 @@ export class GatewayServer {
     this.sendJson(res, 404, { error: 'Not found' });
   }
 
+  // ---------------------------------------------------------------------------
+  // Jobs
+  // ---------------------------------------------------------------------------
+
+  private async handleJobs(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    id: string | undefined,
+  ): Promise<void> {
+    if (!this.scheduler) {
+      this.sendJson(res, 404, { error: 'Scheduler is not enabled on this gateway.' });
+      return;
+    }
+
+    if (!id && method === 'GET') {
+      this.sendJson(res, 200, { jobs: this.scheduler.listJobs() });
+      return;
+    }
+
+    if (!id && method === 'POST') {
+      const body = await this.readBody(req);
+      let spec: JobSpec;
+      try {
+        spec = JSON.parse(body) as JobSpec;
+      } catch {
+        this.sendJson(res, 400, { error: 'Invalid JSON body.' });
+        return;
+      }
+      if (typeof spec?.name !== 'string' || !spec.name || typeof spec.message !== 'string' || !spec.message) {
+        this.sendJson(res, 400, { error: 'Missing "name" or "message" in request body.' });
+        return;
+      }
+      try {
+        this.sendJson(res, 201, { job: this.scheduler.addJob(spec, 'api') });
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        this.sendJson(res, 400, { error: errMsg });
+      }
+      return;
+    }
+
+    if (id && method === 'GET') {
+      const job = this.scheduler.getJob(id);
+      if (!job) {
+        this.sendJson(res, 404, { error: 'Job not found' });
+        return;
+      }
+      this.sendJson(res, 200, { job });
+      return;
+    }
+
+    if (id && method === 'PATCH') {
+      const body = await this.readBody(req);
+      let update: { enabled?: unknown };
+      try {
+        update = JSON.parse(body) as { enabled?: unknown };
+      } catch {
+        this.sendJson(res, 400, { error: 'Invalid JSON body.' });
+        return;
+      }
+      if (typeof update?.enabled !== 'boolean') {
+        this.sendJson(res, 400, { error: '"enabled" must be a boolean' });
+        return;
+      }
+      const job = this.scheduler.setEnabled(id, update.enabled);
+      if (!job) {
+        this.sendJson(res, 404, { error: 'Job not found' });
+        return;
+      }
+      this.sendJson(res, 200, { job });
+      return;
+    }
+
+    if (id && method === 'DELETE') {
+      if (!this.scheduler.removeJob(id)) {
+        this.sendJson(res, 404, { error: 'Job not found' });
+        return;
+      }
+      this.sendJson(res, 200, { id, deleted: true });
+      return;
+    }
+
+    this.sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Memory
+  // ---------------------------------------------------------------------------
+
+  private async handleMemory(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    query: URLSearchParams,
+    key: string | undefined,
+  ): Promise<void> {
+    if (!this.memoryBackend) {
+      this.sendJson(res, 404, { error: 'Memory is not enabled on this gateway.' });
+      return;
+    }
+    const memory = this.memoryBackend;
+
+    if (key === 'namespaces' && method === 'GET') {
+      const counts = new Map<string, number>();
+      for (const entry of await memory.list()) {
+        const ns = memoryNamespace(entry.key);
+        counts.set(ns, (counts.get(ns) ?? 0) + 1);
+      }
+      const namespaces = [...counts]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([prefix, count]) => ({ prefix, count }));
+      this.sendJson(res, 200, { namespaces });
+      return;
+    }
+
+    if (!key && method === 'GET') {
+      let params: Record<string, number>;
+      try {
+        params = numberParams(query);
+      } catch (err) {
+        this.sendJson(res, 400, { error: (err as Error).message });
+        return;
+      }
+      // Backends match prefixes with LIKE, which is loose; check them exactly.
+      const prefix = query.get('prefix') || undefined;
+      const q = query.get('q');
+
+      if (q) {
+        delete params['offset'];
+        const results = await memory.recall(q, { ...params as RecallOpts, keyPrefix: prefix });
+        this.sendJson(res, 200, { results: results.filter((r) => !prefix || r.key.startsWith(prefix)) });
+        return;
+      }
+
+      const entries = (await memory.list(prefix)).filter((e) => !prefix || e.key.startsWith(prefix));
+      const offset = params['offset'] ?? 0;
+      const limit = params['limit'] ?? 100;
+      this.sendJson(res, 200, { entries: entries.slice(offset, offset + limit), total: entries.length });
+      return;
+    }
+
+    if (!key && method === 'POST') {
+      const body = await this.readBody(req);
+      let input: { key?: unknown; content?: unknown; metadata?: unknown };
+      try {
+        input = JSON.parse(body) as typeof input;
+      } catch {
+        this.sendJson(res, 400, { error: 'Invalid JSON body.' });
+        return;
+      }
+      if (typeof input?.key !== 'string' || !input.key || typeof input.content !== 'string' || !input.content.trim()) {
+        this.sendJson(res, 400, { error: 'Missing "key" or "content" in request body.' });
+        return;
+      }
+      const metadata = input.metadata;
+      if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+        this.sendJson(res, 400, { error: '"metadata" must be an object' });
+        return;
+      }
+
+      // Editing the content alone keeps the entry's metadata (source, pin, expiry).
+      const existing = await findMemory(memory, input.key);
+      try {
+        await memory.store(input.key, input.content, (metadata as Record<string, unknown> | undefined) ?? existing?.metadata);
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        this.sendJson(res, 400, { error: errMsg });
+        return;
+      }
+      this.sendJson(res, existing ? 200 : 201, { entry: await findMemory(memory, input.key) });
+      return;
+    }
+
+    if (key && method === 'GET') {
+      const entry = await findMemory(memory, key);
+      if (!entry) {
+        this.sendJson(res, 404, { error: 'Memory not found' });
+        return;
+      }
+      this.sendJson(res, 200, { entry });
+      return;
+    }
+
+    if (key && method === 'DELETE') {
+      if (!(await memory.forget(key))) {
+        this.sendJson(res, 404, { error: 'Memory not found' });
+        return;
+      }
+      this.sendJson(res, 200, { key, deleted: true });
+      return;
+    }
+
+    this.sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
   // ---------------------------------------------------------------------------
   // Auth
   // ---------------------------------------------------------------------------
@@ -596,6 +942,18 @@ export class GatewayServer {
     return this.pairingManager.validateToken(token);
   }
 
+  private checkMetricsAuth(req: IncomingMessage): boolean {
+    if (!this.metricsToken) return this.checkAuth(req);
+
+    const authHeader = req.headers['authorization'];
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+    const expected = Buffer.from(this.metricsToken);
+    const given = Buffer.from(token);
+    if (given.length === expected.length && timingSafeEqual(given, expected)) return true;
+
+    return !!this.pairingManager && this.pairingManager.validateToken(token);
+  }
+
   // ---------------------------------------------------------------------------
   // Helpers
   // ---------------------------------------------------------------------------
@@ -618,3 +976,49 @@ export class GatewayServer {
     });
   }
 }
+
+// ---------------------------------------------------------------------------
+// Memory helpers
+// ---------------------------------------------------------------------------
+
+/** Numeric query parameters accepted by GET /memory, with their bounds. */
+const MEMORY_NUMBER_PARAMS: Record<string, { min: number; max: number; integer?: boolean }> = {
+  limit: { min: 1, max: 1000, integer: true },
+  offset: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+  minScore: { min: 0, max: 1 },
+  vectorWeight: { min: 0, max: 1 },
+  keywordWeight: { min: 0, max: 1 },
+  recencyWeight: { min: 0, max: 1 },
+  usageWeight: { min: 0, max: 1 },
+  halfLifeDays: { min: 0.01, max: Number.MAX_SAFE_INTEGER },
+};
+
+function numberParams(query: URLSearchParams): Record<string, number> {
+  const params: Record<string, number> = {};
+  for (const [name, { min, max, integer }] of Object.entries(MEMORY_NUMBER_PARAMS)) {
+    const raw = query.get(name);
+    if (raw === null || raw === '') continue;
+    const value = Number(raw);
+    if (Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      throw new Error(`"${name}" must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`);
+    }
+    params[name] = value;
+  }
+  return params;
+}
+
+/** The entry stored under exactly `key`, if any. */
+async function findMemory(memory: IMemoryBackend, key: string): Promise<MemoryEntry | undefined> {
+  return (await memory.list(key)).find((e) => e.key === key);
+}
+
+/**
+ * Namespace of a memory key: `u:{channel}:{user}:` for per-user memories,
+ * `doc:` for ingested documents, and '' for shared ones.
+ */
+function memoryNamespace(key: string): string {
+  if (key.startsWith('doc:')) return 'doc:';
+  if (!key.startsWith('u:')) return '';
+  const conv = key.indexOf(':conv:');
+  return conv > 0 ? key.slice(0, conv + 1) : key.slice(0, key.lastIndexOf(':') + 1);
+}
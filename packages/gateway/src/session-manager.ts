@@ -4,9 +4,13 @@
  * Each session maps one-to-one with an engine run. The manager
  * provides CRUD operations over the session map and keeps
  * `lastActiveAt` timestamps for idle-detection.
+ *
+ * With an optional ISessionStore, sessions are also written through to
+ * persistent storage. Idle eviction only drops the in-memory entry; a later
+ * getSession() for the same id rehydrates it from the store.
  */
 
-import type { SessionConfig } from '@ch4p/core';
+import type { ISessionStore, SessionConfig } from '@ch4p/core';
 
 export interface SessionState {
   config: SessionConfig;
@@ -18,6 +22,13 @@ export interface SessionState {
 export class SessionManager {
   private sessions = new Map<string, SessionState>();
 
+  constructor(private readonly store?: ISessionStore) {}
+
+  /** The backing session store, if sessions are persisted. */
+  getStore(): ISessionStore | undefined {
+    return this.store;
+  }
+
   /** Create a new session and return its state. */
   createSession(config: SessionConfig): SessionState {
     const now = new Date();
@@ -28,15 +39,34 @@ export class SessionManager {
       status: 'active',
     };
     this.sessions.set(config.sessionId, state);
+    this.store?.saveSession(config, now, now);
     return state;
   }
 
-  /** Look up a session by its id. */
+  /**
+   * Look up a session by its id. Sessions that are no longer in memory
+   * are rehydrated from the store (as idle) when one is configured.
+   */
   getSession(id: string): SessionState | undefined {
-    return this.sessions.get(id);
+    const live = this.sessions.get(id);
+    if (live || !this.store) return live;
+
+    const stored = this.store.getSession(id);
+    if (!stored) return undefined;
+    const state: SessionState = {
+      config: stored.config,
+      createdAt: stored.createdAt,
+      lastActiveAt: stored.lastActiveAt,
+      status: 'idle',
+    };
+    this.sessions.set(id, state);
+    return state;
   }
 
-  /** Mark a session as ended and remove it from the active map. */
+  /**
+   * Mark a session as ended and remove it from the active map.
+   * An ended session is also deleted from the store, so it is not rehydrated.
+   */
   endSession(id: string): void {
     const session = this.sessions.get(id);
     if (session) {
@@ -44,6 +74,7 @@ export class SessionManager {
       session.lastActiveAt = new Date();
       this.sessions.delete(id);
     }
+    this.store?.deleteSession(id);
   }
 
   /** Return the number of active sessions. */
@@ -62,12 +93,13 @@ export class SessionManager {
     if (session) {
       session.lastActiveAt = new Date();
       session.status = 'active';
+      this.store?.touchSession(id, session.lastActiveAt);
     }
   }
 
   /**
    * Evict sessions that have been idle longer than `maxIdleMs`.
-   * Returns the number of sessions evicted.
+   * Persisted sessions stay in the store. Returns the number of sessions evicted.
    */
   evictIdle(maxIdleMs: number): number {
     const cutoff = Date.now() - maxIdleMs;
@@ -0,0 +1,253 @@
+/**
+ * Session store tests — the ISessionStore contract (run against both the
+ * in-memory and SQLite stores) and restart behaviour of SessionManager +
+ * MessageRouter on top of a SQLite file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ISessionStore, SessionConfig, InboundMessage } from '@ch4p/core';
+import { generateId } from '@ch4p/core';
+import { MemorySessionStore } from './session-store.js';
+import { SQLiteSessionStore } from './sqlite-session-store.js';
+import { SessionManager } from './session-manager.js';
+import { MessageRouter } from './router.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmp: string;
+
+beforeEach(() => {
+  tmp = mkdtempSync(join(tmpdir(), 'ch4p-sessions-'));
+});
+
+afterEach(() => {
+  rmSync(tmp, { recursive: true, force: true });
+});
+
+function makeConfig(overrides?: Partial<SessionConfig>): SessionConfig {
+  return {
+    sessionId: generateId(16),
+    channelId: 'telegram',
+    userId: 'user-1',
+    engineId: 'native',
+    model: 'test-model',
+    provider: 'test',
+    ...overrides,
+  };
+}
+
+function makeMessage(): InboundMessage {
+  return {
+    id: generateId(),
+    channelId: 'telegram',
+    from: { userId: 'user-1' },
+    text: 'Hello',
+    timestamp: new Date(),
+  };
+}
+
+const DEFAULT_SESSION = { engineId: 'native', model: 'test-model', provider: 'test' };
+
+// ===========================================================================
+// ISessionStore contract
+// ===========================================================================
+
+describe.each([
+  ['MemorySessionStore', (): ISessionStore => new MemorySessionStore()],
+  ['SQLiteSessionStore', (): ISessionStore => new SQLiteSessionStore({ dbPath: join(tmp, 'sessions.db') })],
+])('%s', (_name, createStore) => {
+  let store: ISessionStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('saves and reads back a session', () => {
+    const config = makeConfig();
+    const created = new Date('2026-01-01T00:00:00Z');
+    store.saveSession(config, created, created);
+
+    const stored = store.getSession(config.sessionId)!;
+    expect(stored.config).toEqual(config);
+    expect(stored.createdAt.toISOString()).toBe(created.toISOString());
+    expect(stored.messageCount).toBe(0);
+    expect(store.getSession('missing')).toBeUndefined();
+  });
+
+  it('keeps createdAt when a session is saved again', () => {
+    const config = makeConfig();
+    const created = new Date('2026-01-01T00:00:00Z');
+    store.saveSession(config, created, created);
+    store.saveSession({ ...config, model: 'other' }, new Date(), new Date());
+
+    const stored = store.getSession(config.sessionId)!;
+    expect(stored.config.model).toBe('other');
+    expect(stored.createdAt.toISOString()).toBe(created.toISOString());
+  });
+
+  it('round-trips history and the compaction summary', () => {
+    const config = makeConfig();
+    store.saveSession(config, new Date(), new Date());
+    store.saveHistory(config.sessionId, {
+      messages: [
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 't1', name: 'grep', args: { q: 'x' } }] },
+      ],
+      summary: 'earlier',
+    });
+
+    const history = store.loadHistory(config.sessionId)!;
+    expect(history.messages).toHaveLength(2);
+    expect(history.messages[1]!.toolCalls![0]!.args).toEqual({ q: 'x' });
+    expect(history.summary).toBe('earlier');
+    expect(store.getSession(config.sessionId)!.messageCount).toBe(2);
+
+    // Saving again replaces rather than appends.
+    store.saveHistory(config.sessionId, { messages: [{ role: 'user', content: 'only' }] });
+    expect(store.loadHistory(config.sessionId)!.messages).toEqual([{ role: 'user', content: 'only' }]);
+  });
+
+  it('stores inline images as a placeholder', () => {
+    const config = makeConfig();
+    store.saveSession(config, new Date(), new Date());
+    const photo = `data:image/jpeg;base64,${Buffer.alloc(4096).toString('base64')}`;
+    store.saveHistory(config.sessionId, {
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is on this receipt?' },
+          { type: 'image', imageUrl: photo },
+          { type: 'image', imageUrl: 'https://example.com/cat.png' },
+        ],
+      }],
+    });
+
+    const history = store.loadHistory(config.sessionId)!;
+    expect(JSON.stringify(history)).not.toContain('data:');
+    expect(history.messages[0]!.content).toEqual([
+      { type: 'text', text: 'What is on this receipt?' },
+      { type: 'text', text: '[Image: image/jpeg, 4 KB — not kept in saved history]' },
+      { type: 'image', imageUrl: 'https://example.com/cat.png' },
+    ]);
+  });
+
+  it('ignores history for unknown sessions', () => {
+    store.saveHistory('missing', { messages: [{ role: 'user', content: 'hi' }] });
+    expect(store.loadHistory('missing')).toBeUndefined();
+  });
+
+  it('maps route keys to sessions and reports the route', () => {
+    const config = makeConfig();
+    store.saveSession(config, new Date(), new Date());
+    store.setRoute('telegram:user-1', config.sessionId);
+
+    expect(store.getRoute('telegram:user-1')).toBe(config.sessionId);
+    expect(store.getSession(config.sessionId)!.routeKey).toBe('telegram:user-1');
+    expect(store.getRoute('telegram:other')).toBeUndefined();
+  });
+
+  it('deletes a session with its history and routes', () => {
+    const config = makeConfig();
+    store.saveSession(config, new Date(), new Date());
+    store.setRoute('telegram:user-1', config.sessionId);
+    store.saveHistory(config.sessionId, { messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(store.deleteSession(config.sessionId)).toBe(true);
+    expect(store.getSession(config.sessionId)).toBeUndefined();
+    expect(store.loadHistory(config.sessionId)).toBeUndefined();
+    expect(store.getRoute('telegram:user-1')).toBeUndefined();
+    expect(store.deleteSession(config.sessionId)).toBe(false);
+  });
+
+  it('lists sessions most recently active first, filtered by channel', () => {
+    const a = makeConfig({ channelId: 'telegram' });
+    const b = makeConfig({ channelId: 'discord' });
+    const c = makeConfig({ channelId: 'telegram' });
+    store.saveSession(a, new Date(1000), new Date(1000));
+    store.saveSession(b, new Date(2000), new Date(2000));
+    store.saveSession(c, new Date(3000), new Date(3000));
+    store.touchSession(a.sessionId, new Date(4000));
+
+    expect(store.listSessions().map((s) => s.config.sessionId)).toEqual([a.sessionId, c.sessionId, b.sessionId]);
+    expect(store.listSessions({ channelId: 'telegram' })).toHaveLength(2);
+    expect(store.listSessions({ limit: 1 })[0]!.config.sessionId).toBe(a.sessionId);
+  });
+
+  it('prunes by age and by count', () => {
+    const old = makeConfig();
+    const mid = makeConfig();
+    const recent = makeConfig();
+    const day = 24 * 60 * 60 * 1000;
+    store.saveSession(old, new Date(Date.now() - 10 * day), new Date(Date.now() - 10 * day));
+    store.saveSession(mid, new Date(Date.now() - day), new Date(Date.now() - day));
+    store.saveSession(recent, new Date(), new Date());
+
+    expect(store.prune({ maxAgeMs: 5 * day })).toBe(1);
+    expect(store.getSession(old.sessionId)).toBeUndefined();
+
+    expect(store.prune({ maxSessions: 1 })).toBe(1);
+    expect(store.listSessions().map((s) => s.config.sessionId)).toEqual([recent.sessionId]);
+  });
+});
+
+// ===========================================================================
+// Rehydration across restarts
+// ===========================================================================
+
+describe('persistent sessions across restarts', () => {
+  it('routes a returning sender to their stored session', () => {
+    const dbPath = join(tmp, 'sessions.db');
+
+    const store1 = new SQLiteSessionStore({ dbPath });
+    const router1 = new MessageRouter(new SessionManager(store1), DEFAULT_SESSION);
+    const first = router1.route(makeMessage())!;
+    store1.saveHistory(first.sessionId, { messages: [{ role: 'user', content: 'remember me' }] });
+    store1.close();
+
+    // "Restart": fresh manager, router and store over the same file.
+    const store2 = new SQLiteSessionStore({ dbPath });
+    const manager2 = new SessionManager(store2);
+    const router2 = new MessageRouter(manager2, DEFAULT_SESSION);
+    expect(manager2.size).toBe(0);
+
+    const second = router2.route(makeMessage())!;
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(manager2.getSession(first.sessionId)!.status).toBe('active');
+    expect(store2.loadHistory(first.sessionId)!.messages[0]!.content).toBe('remember me');
+    store2.close();
+  });
+
+  it('rehydrates idle-evicted sessions and keeps their stored routes', () => {
+    const store = new MemorySessionStore();
+    const manager = new SessionManager(store);
+    const router = new MessageRouter(manager, DEFAULT_SESSION);
+
+    const first = router.route(makeMessage())!;
+    expect(manager.evictIdle(-1)).toBe(1);
+    expect(router.evictStale()).toBe(1);
+
+    const second = router.route(makeMessage())!;
+    expect(second.sessionId).toBe(first.sessionId);
+  });
+
+  it('does not rehydrate ended sessions', () => {
+    const store = new MemorySessionStore();
+    const manager = new SessionManager(store);
+    const router = new MessageRouter(manager, DEFAULT_SESSION);
+
+    const first = router.route(makeMessage())!;
+    manager.endSession(first.sessionId);
+
+    expect(store.getSession(first.sessionId)).toBeUndefined();
+    expect(router.route(makeMessage())!.sessionId).not.toBe(first.sessionId);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * MemorySessionStore -- non-persistent ISessionStore.
+ *
+ * Used when `sessions.store` is "memory" and in tests. Behaves like the
+ * SQLite store, except that everything is lost when the process exits.
+ */
+
+import type {
+  ContentBlock,
+  ISessionStore,
+  SessionConfig,
+  SessionHistory,
+  SessionListOpts,
+  SessionRetention,
+  StoredSession,
+} from '@ch4p/core';
+
+interface MemoryRecord {
+  config: SessionConfig;
+  createdAt: Date;
+  lastActiveAt: Date;
+  history?: SessionHistory;
+}
+
+export class MemorySessionStore implements ISessionStore {
+  readonly id = 'memory';
+
+  private sessions = new Map<string, MemoryRecord>();
+  private routes = new Map<string, string>();
+
+  saveSession(config: SessionConfig, createdAt: Date, lastActiveAt: Date): void {
+    const existing = this.sessions.get(config.sessionId);
+    this.sessions.set(config.sessionId, {
+      config,
+      createdAt: existing?.createdAt ?? createdAt,
+      lastActiveAt,
+      history: existing?.history,
+    });
+  }
+
+  getSession(sessionId: string): StoredSession | undefined {
+    const record = this.sessions.get(sessionId);
+    return record ? this.toStored(sessionId, record) : undefined;
+  }
+
+  listSessions(opts: SessionListOpts = {}): StoredSession[] {
+    const result = [...this.sessions.entries()]
+      .filter(([, r]) => !opts.channelId || r.config.channelId === opts.channelId)
+      .sort(([, a], [, b]) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime())
+      .map(([id, r]) => this.toStored(id, r));
+    return opts.limit !== undefined ? result.slice(0, opts.limit) : result;
+  }
+
+  touchSession(sessionId: string, at: Date): void {
+    const record = this.sessions.get(sessionId);
+    if (record) record.lastActiveAt = at;
+  }
+
+  deleteSession(sessionId: string): boolean {
+    for (const [key, id] of this.routes) {
+      if (id === sessionId) this.routes.delete(key);
+    }
+    return this.sessions.delete(sessionId);
+  }
+
+  setRoute(routeKey: string, sessionId: string): void {
+    // Re-insert so iteration order tracks recency (used for routeKey lookups).
+    this.routes.delete(routeKey);
+    this.routes.set(routeKey, sessionId);
+  }
+
+  getRoute(routeKey: string): string | undefined {
+    return this.routes.get(routeKey);
+  }
+
+  saveHistory(sessionId: string, history: SessionHistory): void {
+    const record = this.sessions.get(sessionId);
+    if (record) {
+      record.history = { messages: withoutInlineImages(history.messages), summary: history.summary };
+    }
+  }
+
+  loadHistory(sessionId: string): SessionHistory | undefined {
+    const history = this.sessions.get(sessionId)?.history;
+    return history ? { messages: [...history.messages], summary: history.summary } : undefined;
+  }
+
+  prune(policy: SessionRetention): number {
+    let removed = 0;
+    if (policy.maxAgeMs !== undefined) {
+      const cutoff = Date.now() - policy.maxAgeMs;
+      for (const [id, record] of this.sessions) {
+        if (record.lastActiveAt.getTime() < cutoff && this.deleteSession(id)) removed++;
+      }
+    }
+    if (policy.maxSessions !== undefined) {
+      const excess = this.listSessions().slice(policy.maxSessions);
+      for (const s of excess) {
+        if (this.deleteSession(s.config.sessionId)) removed++;
+      }
+    }
+    return removed;
+  }
+
+  close(): void {
+    // Nothing to release.
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private toStored(sessionId: string, record: MemoryRecord): StoredSession {
+    let routeKey: string | undefined;
+    for (const [key, id] of this.routes) {
+      if (id === sessionId) routeKey = key;
+    }
+    return {
+      config: record.config,
+      createdAt: record.createdAt,
+      lastActiveAt: record.lastActiveAt,
+      routeKey,
+      messageCount: record.history?.messages.length ?? 0,
+      summary: record.history?.summary,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace inline (`data:` URL) images with a short text placeholder.
+ * History is saved after every turn, and each inbound photo would otherwise
+ * be stored again, megabytes at a time, on every later turn.
+ */
+export function withoutInlineImages(messages: SessionHistory['messages']): SessionHistory['messages'] {
+  return messages.map((msg) => {
+    if (typeof msg.content === 'string' || !msg.content.some(isInlineImage)) return msg;
+    return {
+      ...msg,
+      content: msg.content.map((block): ContentBlock => {
+        if (!isInlineImage(block)) return block;
+        const header = /^data:([^;,]+)/.exec(block.imageUrl!)?.[1] ?? 'image';
+        const kb = Math.round((block.imageUrl!.length - block.imageUrl!.indexOf(',') - 1) * 0.75 / 1024);
+        return { type: 'text', text: `[Image: ${header}, ${kb} KB — not kept in saved history]` };
+      }),
+    };
+  });
+}
+
+function isInlineImage(block: ContentBlock): boolean {
+  return block.type === 'image' && block.imageUrl?.startsWith('data:') === true;
+}
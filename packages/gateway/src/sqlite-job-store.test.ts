@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ScheduledJob } from '@ch4p/core';
+import { SQLiteJobStore } from './sqlite-job-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmp: string;
+let dbPath: string;
+let store: SQLiteJobStore;
+
+beforeEach(() => {
+  tmp = mkdtempSync(join(tmpdir(), 'ch4p-jobs-'));
+  dbPath = join(tmp, 'jobs.db');
+  store = new SQLiteJobStore({ dbPath });
+});
+
+afterEach(() => {
+  store.close();
+  rmSync(tmp, { recursive: true, force: true });
+});
+
+function job(overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return {
+    id: 'job-1',
+    name: 'call mom',
+    at: new Date('2026-03-02T09:00:00Z'),
+    message: 'Remind the user to call their mother.',
+    target: { channelId: 'telegram', userId: '42' },
+    enabled: true,
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    createdBy: 'telegram:42',
+    nextRunAt: new Date('2026-03-02T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SQLiteJobStore', () => {
+  it('round-trips a job across reopen', () => {
+    store.save(job());
+    store.close();
+
+    store = new SQLiteJobStore({ dbPath });
+    expect(store.get('job-1')).toEqual(job());
+  });
+
+  it('updates run times in place', () => {
+    store.save(job({ id: 'cron', at: undefined, schedule: '0 9 * * *', timezone: 'Europe/Berlin' }));
+    store.save(job({
+      id: 'cron',
+      at: undefined,
+      schedule: '0 9 * * *',
+      timezone: 'Europe/Berlin',
+      lastRunAt: new Date('2026-03-02T08:00:00Z'),
+      nextRunAt: new Date('2026-03-03T08:00:00Z'),
+      enabled: false,
+    }));
+
+    const [saved] = store.list();
+    expect(store.list()).toHaveLength(1);
+    expect(saved).toMatchObject({ schedule: '0 9 * * *', timezone: 'Europe/Berlin', enabled: false });
+    expect(saved!.lastRunAt?.toISOString()).toBe('2026-03-02T08:00:00.000Z');
+  });
+
+  it('lists oldest first and deletes by id', () => {
+    store.save(job({ id: 'b', createdAt: new Date('2026-03-01T13:00:00Z') }));
+    store.save(job({ id: 'a' }));
+
+    expect(store.list().map((j) => j.id)).toEqual(['a', 'b']);
+    expect(store.delete('a')).toBe(true);
+    expect(store.delete('a')).toBe(false);
+    expect(store.list().map((j) => j.id)).toEqual(['b']);
+  });
+
+  it('throws after close', () => {
+    store.close();
+    expect(() => store.list()).toThrow(/closed/);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * SQLiteJobStore -- default persistent IJobStore.
+ *
+ * One row per scheduled job. The job definition is stored as JSON; run
+ * times and ownership get their own columns so they are easy to inspect
+ * with the sqlite3 shell.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { Ch4pError } from '@ch4p/core';
+import type { IJobStore, JobSpec, ScheduledJob } from '@ch4p/core';
+
+export interface SQLiteJobStoreOpts {
+  /** Path to the SQLite database file. */
+  dbPath: string;
+}
+
+interface JobRow {
+  id: string;
+  spec: string;
+  at: string | null;
+  enabled: number;
+  created_at: string;
+  created_by: string | null;
+  last_run_at: string | null;
+  next_run_at: string | null;
+}
+
+export class SQLiteJobStore implements IJobStore {
+  readonly id = 'sqlite';
+
+  private db: Database.Database;
+  private closed = false;
+
+  constructor(opts: SQLiteJobStoreOpts) {
+    mkdirSync(dirname(opts.dbPath), { recursive: true });
+
+    this.db = new Database(opts.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    this.initSchema();
+  }
+
+  save(job: ScheduledJob): void {
+    this.assertOpen();
+    const spec: Omit<JobSpec, 'id' | 'at' | 'enabled'> = {
+      name: job.name,
+      schedule: job.schedule,
+      everyMs: job.everyMs,
+      timezone: job.timezone,
+      message: job.message,
+      userId: job.userId,
+      target: job.target,
+    };
+    this.db.prepare(`
+      INSERT INTO jobs (id, spec, at, enabled, created_at, created_by, last_run_at, next_run_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        spec = excluded.spec,
+        at = excluded.at,
+        enabled = excluded.enabled,
+        created_by = excluded.created_by,
+        last_run_at = excluded.last_run_at,
+        next_run_at = excluded.next_run_at
+    `).run(
+      job.id,
+      JSON.stringify(spec),
+      job.at?.toISOString() ?? null,
+      job.enabled ? 1 : 0,
+      job.createdAt.toISOString(),
+      job.createdBy ?? null,
+      job.lastRunAt?.toISOString() ?? null,
+      job.nextRunAt?.toISOString() ?? null,
+    );
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    this.assertOpen();
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row ? toJob(row) : undefined;
+  }
+
+  list(): ScheduledJob[] {
+    this.assertOpen();
+    const rows = this.db.prepare('SELECT * FROM jobs ORDER BY created_at, id').all() as JobRow[];
+    return rows.map(toJob);
+  }
+
+  delete(id: string): boolean {
+    this.assertOpen();
+    return this.db.prepare('DELETE FROM jobs WHERE id = ?').run(id).changes > 0;
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.db.close();
+      this.closed = true;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        spec TEXT NOT NULL,
+        at TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        created_by TEXT,
+        last_run_at TEXT,
+        next_run_at TEXT
+      );
+    `);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Ch4pError('SQLite job store is closed', 'JOB_STORE_CLOSED');
+    }
+  }
+}
+
+function toJob(row: JobRow): ScheduledJob {
+  const spec = JSON.parse(row.spec) as Omit<JobSpec, 'id' | 'at' | 'enabled'>;
+  return {
+    ...spec,
+    id: row.id,
+    at: row.at ? new Date(row.at) : undefined,
+    enabled: row.enabled === 1,
+    createdAt: new Date(row.created_at),
+    createdBy: row.created_by ?? undefined,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+    nextRunAt: row.next_run_at ? new Date(row.next_run_at) : undefined,
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * SQLiteSessionStore -- default persistent ISessionStore.
+ *
+ * One SQLite file holds three tables: `sessions` (config + timestamps +
+ * latest compaction summary), `session_messages` (history, one row per
+ * message in order) and `session_routes` (route key -> session id).
+ * History is replaced wholesale on every save, which keeps compaction simple:
+ * whatever the ContextManager currently holds is what gets persisted, minus
+ * inline images, which are stored as a text placeholder.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { Ch4pError } from '@ch4p/core';
+import type {
+  ISessionStore,
+  Message,
+  SessionConfig,
+  SessionHistory,
+  SessionListOpts,
+  SessionRetention,
+  StoredSession,
+} from '@ch4p/core';
+import { withoutInlineImages } from './session-store.js';
+
+export interface SQLiteSessionStoreOpts {
+  /** Path to the SQLite database file. */
+  dbPath: string;
+}
+
+interface SessionRow {
+  session_id: string;
+  config: string;
+  created_at: string;
+  last_active_at: string;
+  summary: string | null;
+  message_count: number;
+  route_key: string | null;
+}
+
+const SELECT_SESSION = `
+  SELECT s.session_id, s.config, s.created_at, s.last_active_at, s.summary, s.message_count,
+    (SELECT r.route_key FROM session_routes r
+      WHERE r.session_id = s.session_id
+      ORDER BY r.updated_at DESC LIMIT 1) AS route_key
+  FROM sessions s
+`;
+
+export class SQLiteSessionStore implements ISessionStore {
+  readonly id = 'sqlite';
+
+  private db: Database.Database;
+  private closed = false;
+
+  constructor(opts: SQLiteSessionStoreOpts) {
+    mkdirSync(dirname(opts.dbPath), { recursive: true });
+
+    this.db = new Database(opts.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.pragma('foreign_keys = ON');
+
+    this.initSchema();
+  }
+
+  saveSession(config: SessionConfig, createdAt: Date, lastActiveAt: Date): void {
+    this.assertOpen();
+    this.db.prepare(`
+      INSERT INTO sessions (session_id, channel_id, config, created_at, last_active_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        channel_id = excluded.channel_id,
+        config = excluded.config,
+        last_active_at = excluded.last_active_at
+    `).run(
+      config.sessionId,
+      config.channelId ?? null,
+      JSON.stringify(config),
+      createdAt.toISOString(),
+      lastActiveAt.toISOString(),
+    );
+  }
+
+  getSession(sessionId: string): StoredSession | undefined {
+    this.assertOpen();
+    const row = this.db
+      .prepare(`${SELECT_SESSION} WHERE s.session_id = ?`)
+      .get(sessionId) as SessionRow | undefined;
+    return row ? toStored(row) : undefined;
+  }
+
+  listSessions(opts: SessionListOpts = {}): StoredSession[] {
+    this.assertOpen();
+    const where = opts.channelId ? 'WHERE s.channel_id = ?' : '';
+    const limit = opts.limit !== undefined ? 'LIMIT ?' : '';
+    const params: unknown[] = [];
+    if (opts.channelId) params.push(opts.channelId);
+    if (opts.limit !== undefined) params.push(opts.limit);
+
+    const rows = this.db
+      .prepare(`${SELECT_SESSION} ${where} ORDER BY s.last_active_at DESC ${limit}`)
+      .all(...params) as SessionRow[];
+    return rows.map(toStored);
+  }
+
+  touchSession(sessionId: string, at: Date): void {
+    this.assertOpen();
+    this.db
+      .prepare('UPDATE sessions SET last_active_at = ? WHERE session_id = ?')
+      .run(at.toISOString(), sessionId);
+  }
+
+  deleteSession(sessionId: string): boolean {
+    this.assertOpen();
+    // Messages and routes go with the session via ON DELETE CASCADE.
+    const result = this.db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId);
+    return result.changes > 0;
+  }
+
+  setRoute(routeKey: string, sessionId: string): void {
+    this.assertOpen();
+    this.db.prepare(`
+      INSERT INTO session_routes (route_key, session_id, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(route_key) DO UPDATE SET
+        session_id = excluded.session_id,
+        updated_at = excluded.updated_at
+    `).run(routeKey, sessionId, new Date().toISOString());
+  }
+
+  getRoute(routeKey: string): string | undefined {
+    this.assertOpen();
+    const row = this.db
+      .prepare('SELECT session_id FROM session_routes WHERE route_key = ?')
+      .get(routeKey) as { session_id: string } | undefined;
+    return row?.session_id;
+  }
+
+  saveHistory(sessionId: string, history: SessionHistory): void {
+    this.assertOpen();
+    const insert = this.db.prepare(
+      'INSERT INTO session_messages (session_id, seq, message) VALUES (?, ?, ?)',
+    );
+    this.db.transaction(() => {
+      const updated = this.db.prepare(
+        'UPDATE sessions SET summary = ?, message_count = ? WHERE session_id = ?',
+      ).run(history.summary ?? null, history.messages.length, sessionId);
+      // Unknown session: nothing to attach the history to.
+      if (updated.changes === 0) return;
+
+      this.db.prepare('DELETE FROM session_messages WHERE session_id = ?').run(sessionId);
+      withoutInlineImages(history.messages).forEach((msg, seq) => {
+        insert.run(sessionId, seq, JSON.stringify(msg));
+      });
+    })();
+  }
+
+  loadHistory(sessionId: string): SessionHistory | undefined {
+    this.assertOpen();
+    const session = this.db
+      .prepare('SELECT summary FROM sessions WHERE session_id = ?')
+      .get(sessionId) as { summary: string | null } | undefined;
+    if (!session) return undefined;
+
+    const rows = this.db
+      .prepare('SELECT message FROM session_messages WHERE session_id = ? ORDER BY seq')
+      .all(sessionId) as Array<{ message: string }>;
+    return {
+      messages: rows.map((r) => JSON.parse(r.message) as Message),
+      summary: session.summary ?? undefined,
+    };
+  }
+
+  prune(policy: SessionRetention): number {
+    this.assertOpen();
+    let removed = 0;
+    this.db.transaction(() => {
+      if (policy.maxAgeMs !== undefined) {
+        const cutoff = new Date(Date.now() - policy.maxAgeMs).toISOString();
+        removed += this.db
+          .prepare('DELETE FROM sessions WHERE last_active_at < ?')
+          .run(cutoff).changes;
+      }
+      if (policy.maxSessions !== undefined) {
+        removed += this.db.prepare(`
+          DELETE FROM sessions WHERE session_id NOT IN (
+            SELECT session_id FROM sessions ORDER BY last_active_at DESC LIMIT ?
+          )
+        `).run(policy.maxSessions).changes;
+      }
+    })();
+    return removed;
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.db.close();
+      this.closed = true;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        channel_id TEXT,
+        config TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_active_at TEXT NOT NULL,
+        summary TEXT,
+        message_count INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS session_messages (
+        session_id TEXT NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        PRIMARY KEY (session_id, seq)
+      );
+
+      CREATE TABLE IF NOT EXISTS session_routes (
+        route_key TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_last_active ON sessions(last_active_at);
+      CREATE INDEX IF NOT EXISTS idx_session_routes_session ON session_routes(session_id);
+    `);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Ch4pError('SQLite session store is closed', 'SESSION_STORE_CLOSED');
+    }
+  }
+}
+
+function toStored(row: SessionRow): StoredSession {
+  return {
+    config: JSON.parse(row.config) as SessionConfig,
+    createdAt: new Date(row.created_at),
+    lastActiveAt: new Date(row.last_active_at),
+    routeKey: row.route_key ?? undefined,
+    messageCount: row.message_count,
+    summary: row.summary ?? undefined,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { UsageRecord } from '@ch4p/core';
+import { SQLiteUsageStore } from './sqlite-usage-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmp: string;
+let store: SQLiteUsageStore;
+
+beforeEach(() => {
+  tmp = mkdtempSync(join(tmpdir(), 'ch4p-usage-'));
+  store = new SQLiteUsageStore({ dbPath: join(tmp, 'usage.db') });
+});
+
+afterEach(() => {
+  store.close();
+  rmSync(tmp, { recursive: true, force: true });
+});
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp: new Date('2026-03-10T12:00:00Z'),
+    sessionId: 's1',
+    userId: 'alice',
+    channelId: 'telegram',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-6',
+    inputTokens: 100,
+    outputTokens: 50,
+    cost: 0.01,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SQLiteUsageStore', () => {
+  it('returns zero totals for an empty ledger', () => {
+    expect(store.totals()).toEqual({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+  });
+
+  it('sums records matching a filter', () => {
+    store.record(record());
+    store.record(record({ userId: 'bob', cost: 0.02 }));
+    store.record(record({ timestamp: new Date('2026-03-09T23:59:59Z') }));
+
+    expect(store.totals({ userId: 'alice' })).toMatchObject({ calls: 2, inputTokens: 200, outputTokens: 100 });
+    expect(store.totals({ since: new Date('2026-03-10T00:00:00Z') })).toMatchObject({ calls: 2 });
+    expect(store.totals({ until: new Date('2026-03-10T00:00:00Z') })).toMatchObject({ calls: 1 });
+    expect(store.totals({ channelId: 'discord' }).calls).toBe(0);
+    expect(store.totals().cost).toBeCloseTo(0.04);
+  });
+
+  it('breaks usage down by a dimension, most expensive first', () => {
+    store.record(record({ userId: 'alice', cost: 0.01 }));
+    store.record(record({ userId: 'bob', cost: 0.05 }));
+    store.record(record({ userId: undefined, agent: 'support', cost: 0 }));
+
+    const byUser = store.breakdown('user');
+    expect(byUser.map((r) => r.key)).toEqual(['bob', 'alice', '']);
+    expect(byUser[0]).toMatchObject({ calls: 1, inputTokens: 100, outputTokens: 50 });
+
+    expect(store.breakdown('day')).toEqual([
+      expect.objectContaining({ key: '2026-03-10', calls: 3 }),
+    ]);
+    expect(store.breakdown('agent', { agent: 'support' })).toEqual([
+      expect.objectContaining({ key: 'support', calls: 1 }),
+    ]);
+  });
+
+  it('prunes records older than a cutoff', () => {
+    store.record(record({ timestamp: new Date('2026-01-01T00:00:00Z') }));
+    store.record(record());
+
+    expect(store.prune(new Date('2026-02-01T00:00:00Z'))).toBe(1);
+    expect(store.totals().calls).toBe(1);
+  });
+
+  it('persists across reopen', () => {
+    store.record(record());
+    store.close();
+    store = new SQLiteUsageStore({ dbPath: join(tmp, 'usage.db') });
+    expect(store.totals().calls).toBe(1);
+  });
+
+  it('throws once closed', () => {
+    store.close();
+    expect(() => store.totals()).toThrow('SQLite usage store is closed');
+  });
+});
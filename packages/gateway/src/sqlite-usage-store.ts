@@ -0,0 +1,151 @@
+/**
+ * SQLiteUsageStore -- default persistent IUsageStore.
+ *
+ * One row per LLM call in a single `usage` table. Budget checks and
+ * breakdowns are plain SUM/GROUP BY queries over a time range, so the
+ * table is indexed by timestamp and by each budget dimension.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { Ch4pError } from '@ch4p/core';
+import type {
+  IUsageStore,
+  UsageBreakdownRow,
+  UsageFilter,
+  UsageGroupBy,
+  UsageRecord,
+  UsageTotals,
+} from '@ch4p/core';
+
+export interface SQLiteUsageStoreOpts {
+  /** Path to the SQLite database file. */
+  dbPath: string;
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  user: "COALESCE(user_id, '')",
+  channel: "COALESCE(channel_id, '')",
+  agent: "COALESCE(agent, '')",
+  provider: 'provider',
+  model: 'model',
+  day: 'substr(timestamp, 1, 10)',
+};
+
+const TOTALS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens,
+  COALESCE(SUM(cost), 0) AS cost
+`;
+
+export class SQLiteUsageStore implements IUsageStore {
+  readonly id = 'sqlite';
+
+  private db: Database.Database;
+  private closed = false;
+
+  constructor(opts: SQLiteUsageStoreOpts) {
+    mkdirSync(dirname(opts.dbPath), { recursive: true });
+
+    this.db = new Database(opts.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    this.initSchema();
+  }
+
+  record(entry: UsageRecord): void {
+    this.assertOpen();
+    this.db.prepare(`
+      INSERT INTO usage (timestamp, session_id, user_id, channel_id, agent, provider, model,
+        input_tokens, output_tokens, cost)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.timestamp.toISOString(),
+      entry.sessionId,
+      entry.userId ?? null,
+      entry.channelId ?? null,
+      entry.agent ?? null,
+      entry.provider,
+      entry.model,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cost,
+    );
+  }
+
+  totals(filter?: UsageFilter): UsageTotals {
+    this.assertOpen();
+    const { where, params } = whereClause(filter);
+    return this.db.prepare(`SELECT ${TOTALS} FROM usage ${where}`).get(...params) as UsageTotals;
+  }
+
+  breakdown(groupBy: UsageGroupBy, filter?: UsageFilter): UsageBreakdownRow[] {
+    this.assertOpen();
+    const { where, params } = whereClause(filter);
+    return this.db.prepare(`
+      SELECT ${GROUP_COLUMNS[groupBy]} AS key, ${TOTALS}
+      FROM usage ${where}
+      GROUP BY key
+      ORDER BY cost DESC, inputTokens + outputTokens DESC
+    `).all(...params) as UsageBreakdownRow[];
+  }
+
+  prune(before: Date): number {
+    this.assertOpen();
+    return this.db.prepare('DELETE FROM usage WHERE timestamp < ?').run(before.toISOString()).changes;
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.db.close();
+      this.closed = true;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        channel_id TEXT,
+        agent TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cost REAL NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_timestamp ON usage(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_usage_user ON usage(user_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_usage_channel ON usage(channel_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_usage_agent ON usage(agent, timestamp);
+    `);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Ch4pError('SQLite usage store is closed', 'USAGE_STORE_CLOSED');
+    }
+  }
+}
+
+function whereClause(filter: UsageFilter = {}): { where: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (filter.since) { clauses.push('timestamp >= ?'); params.push(filter.since.toISOString()); }
+  if (filter.until) { clauses.push('timestamp < ?'); params.push(filter.until.toISOString()); }
+  if (filter.userId !== undefined) { clauses.push('user_id = ?'); params.push(filter.userId); }
+  if (filter.channelId !== undefined) { clauses.push('channel_id = ?'); params.push(filter.channelId); }
+  if (filter.agent !== undefined) { clauses.push('agent = ?'); params.push(filter.agent); }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
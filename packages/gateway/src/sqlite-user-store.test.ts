@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SQLiteUserStore } from './sqlite-user-store.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmp: string;
+let dbPath: string;
+let store: SQLiteUserStore;
+
+beforeEach(() => {
+  tmp = mkdtempSync(join(tmpdir(), 'ch4p-users-'));
+  dbPath = join(tmp, 'users.db');
+  store = new SQLiteUserStore({ dbPath });
+});
+
+afterEach(() => {
+  store.close();
+  rmSync(tmp, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SQLiteUserStore', () => {
+  it('links identities and finds their user', () => {
+    store.link('telegram:42', { channelId: 'telegram', userId: '42' });
+    store.link('telegram:42', { channelId: 'discord', userId: '7' });
+
+    expect(store.findUser({ channelId: 'discord', userId: '7' })).toBe('telegram:42');
+    expect(store.findUser({ channelId: 'discord', userId: '8' })).toBeUndefined();
+
+    const user = store.getUser('telegram:42')!;
+    expect(user.identities.map((i) => `${i.channelId}:${i.userId}`)).toEqual(['telegram:42', 'discord:7']);
+    expect(user.identities[0]!.linkedAt).toBeInstanceOf(Date);
+  });
+
+  it('moves an identity that is linked again to another user', () => {
+    store.link('a', { channelId: 'slack', userId: 'U1' });
+    store.link('b', { channelId: 'slack', userId: 'U1' });
+
+    expect(store.findUser({ channelId: 'slack', userId: 'U1' })).toBe('b');
+    expect(store.getUser('a')).toBeUndefined();
+  });
+
+  it('unlinks identities and deletes users', () => {
+    store.link('a', { channelId: 'telegram', userId: '1' });
+    store.link('a', { channelId: 'discord', userId: '1' });
+    store.link('b', { channelId: 'matrix', userId: '@b:x' });
+
+    expect(store.unlink({ channelId: 'discord', userId: '1' })).toBe(true);
+    expect(store.unlink({ channelId: 'discord', userId: '1' })).toBe(false);
+    expect(store.deleteUser('b')).toBe(true);
+    expect(store.listUsers().map((u) => u.id)).toEqual(['a']);
+  });
+
+  it('persists links across reopen', () => {
+    store.link('a', { channelId: 'telegram', userId: '1' });
+    store.close();
+
+    store = new SQLiteUserStore({ dbPath });
+    expect(store.findUser({ channelId: 'telegram', userId: '1' })).toBe('a');
+  });
+
+  it('throws once closed', () => {
+    store.close();
+    expect(() => store.listUsers()).toThrow(/closed/);
+  });
+});
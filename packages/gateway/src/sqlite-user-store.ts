@@ -0,0 +1,141 @@
+/**
+ * SQLiteUserStore -- default persistent IUserStore.
+ *
+ * One row per linked channel identity; a user is the set of rows sharing
+ * a `user_id`.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { Ch4pError } from '@ch4p/core';
+import type { ChannelIdentity, IUserStore, LinkedUser } from '@ch4p/core';
+
+export interface SQLiteUserStoreOpts {
+  /** Path to the SQLite database file. */
+  dbPath: string;
+}
+
+interface IdentityRow {
+  channel_id: string;
+  external_id: string;
+  user_id: string;
+  linked_at: string;
+}
+
+export class SQLiteUserStore implements IUserStore {
+  readonly id = 'sqlite';
+
+  private db: Database.Database;
+  private closed = false;
+
+  constructor(opts: SQLiteUserStoreOpts) {
+    mkdirSync(dirname(opts.dbPath), { recursive: true });
+
+    this.db = new Database(opts.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    this.initSchema();
+  }
+
+  findUser(identity: ChannelIdentity): string | undefined {
+    this.assertOpen();
+    const row = this.db.prepare(
+      'SELECT user_id FROM identities WHERE channel_id = ? AND external_id = ?',
+    ).get(identity.channelId, identity.userId) as { user_id: string } | undefined;
+    return row?.user_id;
+  }
+
+  link(userId: string, identity: ChannelIdentity): void {
+    this.assertOpen();
+    this.db.prepare(`
+      INSERT INTO identities (channel_id, external_id, user_id, linked_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(channel_id, external_id) DO UPDATE SET
+        user_id = excluded.user_id,
+        linked_at = excluded.linked_at
+      WHERE identities.user_id != excluded.user_id
+    `).run(identity.channelId, identity.userId, userId, new Date().toISOString());
+  }
+
+  unlink(identity: ChannelIdentity): boolean {
+    this.assertOpen();
+    return this.db.prepare(
+      'DELETE FROM identities WHERE channel_id = ? AND external_id = ?',
+    ).run(identity.channelId, identity.userId).changes > 0;
+  }
+
+  deleteUser(userId: string): boolean {
+    this.assertOpen();
+    return this.db.prepare('DELETE FROM identities WHERE user_id = ?').run(userId).changes > 0;
+  }
+
+  getUser(userId: string): LinkedUser | undefined {
+    this.assertOpen();
+    const rows = this.db.prepare(
+      'SELECT * FROM identities WHERE user_id = ? ORDER BY linked_at, rowid',
+    ).all(userId) as IdentityRow[];
+    return toUsers(rows)[0];
+  }
+
+  listUsers(): LinkedUser[] {
+    this.assertOpen();
+    // Order users by their first link, then each user's identities by link time.
+    const rows = this.db.prepare(`
+      SELECT i.* FROM identities i
+      JOIN (SELECT user_id, MIN(linked_at) AS first FROM identities GROUP BY user_id) u
+        ON u.user_id = i.user_id
+      ORDER BY u.first, i.user_id, i.linked_at, i.rowid
+    `).all() as IdentityRow[];
+    return toUsers(rows);
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.db.close();
+      this.closed = true;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS identities (
+        channel_id TEXT NOT NULL,
+        external_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        linked_at TEXT NOT NULL,
+        PRIMARY KEY (channel_id, external_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_identities_user ON identities(user_id);
+    `);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Ch4pError('SQLite user store is closed', 'USER_STORE_CLOSED');
+    }
+  }
+}
+
+/** Group rows (already ordered) into users. */
+function toUsers(rows: IdentityRow[]): LinkedUser[] {
+  const users = new Map<string, LinkedUser>();
+  for (const row of rows) {
+    let user = users.get(row.user_id);
+    if (!user) {
+      user = { id: row.user_id, identities: [] };
+      users.set(row.user_id, user);
+    }
+    user.identities.push({
+      channelId: row.channel_id,
+      userId: row.external_id,
+      linkedAt: new Date(row.linked_at),
+    });
+  }
+  return [...users.values()];
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for UserDirectory — link codes, linking rules and chat commands.
+ */
+
+import { vi } from 'vitest';
+import { Ch4pError } from '@ch4p/core';
+import { MemoryUserStore } from './user-store.js';
+import { UserDirectory, parseLinkCommand } from './user-directory.js';
+
+const tg = { channelId: 'telegram', userId: '42' };
+const dc = { channelId: 'discord', userId: 'u-7' };
+const sl = { channelId: 'slack', userId: 'U99' };
+
+function makeDirectory(codeTtlMs?: number) {
+  return new UserDirectory({ store: new MemoryUserStore(), codeTtlMs });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('UserDirectory', () => {
+  it('links an identity to the issuer of a code', () => {
+    const directory = makeDirectory();
+    const { code } = directory.createLinkCode(tg);
+
+    const user = directory.redeemLinkCode(code.toLowerCase(), dc);
+
+    expect(user.id).toBe('telegram:42');
+    expect(user.identities.map((i) => i.channelId)).toEqual(['telegram', 'discord']);
+    expect(directory.resolve(tg)).toBe('telegram:42');
+    expect(directory.resolve(dc)).toBe('telegram:42');
+    expect(directory.resolve(sl)).toBeUndefined();
+  });
+
+  it('adds further identities to an existing user', () => {
+    const directory = makeDirectory();
+    directory.redeemLinkCode(directory.createLinkCode(tg).code, dc);
+
+    // A code issued from a linked account links to the same user.
+    const user = directory.redeemLinkCode(directory.createLinkCode(dc).code, sl);
+
+    expect(user.id).toBe('telegram:42');
+    expect(user.identities).toHaveLength(3);
+  });
+
+  it('consumes codes and rejects expired, unknown and self-issued ones', () => {
+    vi.useFakeTimers();
+    const directory = makeDirectory(60_000);
+    const { code } = directory.createLinkCode(tg);
+
+    expect(() => directory.redeemLinkCode(code, tg)).toThrow(/from the account you want to link/);
+    directory.redeemLinkCode(code, dc);
+    expect(() => directory.redeemLinkCode(code, sl)).toThrow(Ch4pError);
+
+    const late = directory.createLinkCode(tg).code;
+    vi.advanceTimersByTime(60_001);
+    expect(() => directory.redeemLinkCode(late, sl)).toThrow(/Invalid or expired/);
+  });
+
+  it('replaces an earlier code from the same identity', () => {
+    const directory = makeDirectory();
+    const first = directory.createLinkCode(tg).code;
+    const second = directory.createLinkCode(tg).code;
+
+    expect(() => directory.redeemLinkCode(first, dc)).toThrow(/Invalid or expired/);
+    expect(directory.redeemLinkCode(second, dc).id).toBe('telegram:42');
+  });
+
+  it('refuses to move an identity that belongs to someone else', () => {
+    const directory = makeDirectory();
+    directory.redeemLinkCode(directory.createLinkCode(tg).code, dc);
+
+    const { code } = directory.createLinkCode(sl);
+    expect(() => directory.redeemLinkCode(code, dc)).toThrow(/already linked/);
+    expect(directory.resolve(dc)).toBe('telegram:42');
+  });
+
+  it('unlinks one identity, or the whole user from the issuing identity', () => {
+    const directory = makeDirectory();
+    directory.redeemLinkCode(directory.createLinkCode(tg).code, dc);
+    directory.redeemLinkCode(directory.createLinkCode(tg).code, sl);
+
+    expect(directory.unlink(sl)).toBe(true);
+    expect(directory.resolve(sl)).toBeUndefined();
+    expect(directory.resolve(dc)).toBe('telegram:42');
+
+    expect(directory.unlink(tg)).toBe(true);
+    expect(directory.resolve(dc)).toBeUndefined();
+    expect(directory.listUsers()).toEqual([]);
+    expect(directory.unlink(tg)).toBe(false);
+  });
+
+  it('drops a user left with a single identity', () => {
+    const directory = makeDirectory();
+    directory.redeemLinkCode(directory.createLinkCode(tg).code, dc);
+
+    directory.unlink(dc);
+
+    expect(directory.resolve(tg)).toBeUndefined();
+    expect(directory.getUser('telegram:42')).toBeUndefined();
+  });
+});
+
+describe('parseLinkCommand', () => {
+  it('parses link and unlink commands', () => {
+    expect(parseLinkCommand('/link')).toEqual({ action: 'link' });
+    expect(parseLinkCommand(' /link ABC234 ')).toEqual({ action: 'link', code: 'ABC234' });
+    expect(parseLinkCommand('/link@ch4p_bot abc234')).toEqual({ action: 'link', code: 'abc234' });
+    expect(parseLinkCommand('/UNLINK')).toEqual({ action: 'unlink' });
+  });
+
+  it('ignores other messages', () => {
+    expect(parseLinkCommand('please /link this')).toBeNull();
+    expect(parseLinkCommand('/link a b')).toBeNull();
+    expect(parseLinkCommand('/unlink now')).toBeNull();
+    expect(parseLinkCommand('/linkedin')).toBeNull();
+  });
+});
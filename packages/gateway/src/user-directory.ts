@@ -0,0 +1,186 @@
+/**
+ * UserDirectory -- links a person's channel identities into one user.
+ *
+ * Linking works like pairing: the user sends `/link` in a private chat on
+ * one channel and gets a short-lived one-time code, then sends
+ * `/link <code>` from the account to be linked. Both identities then
+ * resolve to the same directory id, which the gateway uses for memory
+ * namespaces, budgets and (optionally) the conversation route key.
+ *
+ * The directory id is the "channelId:userId" of the identity that issued
+ * the first code, so that identity keeps its existing memories. Unlinking
+ * that identity dissolves the whole link; unlinking any other identity
+ * only removes that one.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { Ch4pError } from '@ch4p/core';
+import type { ChannelIdentity, IUserStore, LinkedUser } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LinkCode {
+  code: string;
+  /** Identity that asked for the code. */
+  issuer: ChannelIdentity;
+  expiresAt: Date;
+}
+
+export interface UserDirectoryOpts {
+  store: IUserStore;
+  /** Link code lifetime in milliseconds. Default: 10 minutes. */
+  codeTtlMs?: number;
+}
+
+/** A `/link` or `/unlink` chat command. */
+export type LinkCommand =
+  | { action: 'link'; code?: string }
+  | { action: 'unlink' };
+
+// ---------------------------------------------------------------------------
+// UserDirectory
+// ---------------------------------------------------------------------------
+
+export class UserDirectory {
+  private readonly store: IUserStore;
+  private readonly codeTtlMs: number;
+  private readonly codes = new Map<string, LinkCode>();
+
+  constructor(opts: UserDirectoryOpts) {
+    this.store = opts.store;
+    this.codeTtlMs = opts.codeTtlMs ?? 10 * 60 * 1000; // 10 minutes
+  }
+
+  /** Directory id of a linked identity, or undefined if it is not linked. */
+  resolve(identity: ChannelIdentity): string | undefined {
+    return this.store.findUser(identity);
+  }
+
+  /**
+   * Issue a one-time link code for an identity. Any earlier code from the
+   * same identity is revoked.
+   */
+  createLinkCode(issuer: ChannelIdentity): LinkCode {
+    this.pruneExpiredCodes();
+    for (const [code, entry] of this.codes) {
+      if (sameIdentity(entry.issuer, issuer)) this.codes.delete(code);
+    }
+
+    let code = createRandomCode();
+    while (this.codes.has(code)) code = createRandomCode();
+
+    const linkCode: LinkCode = {
+      code,
+      issuer: { channelId: issuer.channelId, userId: issuer.userId },
+      expiresAt: new Date(Date.now() + this.codeTtlMs),
+    };
+    this.codes.set(code, linkCode);
+    return linkCode;
+  }
+
+  /**
+   * Link `identity` to the user who issued `code`. The code is consumed.
+   * Throws a Ch4pError when the code is invalid or expired, was issued by
+   * the same identity, or the identity already belongs to another user.
+   */
+  redeemLinkCode(code: string, identity: ChannelIdentity): LinkedUser {
+    this.pruneExpiredCodes();
+    const entry = this.codes.get(code.toUpperCase());
+    if (!entry) {
+      throw new Ch4pError('Invalid or expired link code.', 'LINK_CODE_INVALID');
+    }
+    if (sameIdentity(entry.issuer, identity)) {
+      throw new Ch4pError('Send the code from the account you want to link.', 'LINK_SELF');
+    }
+
+    const userId = this.store.findUser(entry.issuer) ?? identityKey(entry.issuer);
+    const current = this.store.findUser(identity);
+    if (current !== undefined && current !== userId) {
+      throw new Ch4pError(
+        'This account is already linked to someone else. Send /unlink first.',
+        'LINK_ALREADY_LINKED',
+      );
+    }
+
+    this.codes.delete(entry.code);
+    this.store.link(userId, entry.issuer);
+    this.store.link(userId, identity);
+    return this.store.getUser(userId)!;
+  }
+
+  /**
+   * Unlink an identity. Unlinking the identity the directory id was taken
+   * from removes the whole user. Returns false if it was not linked.
+   */
+  unlink(identity: ChannelIdentity): boolean {
+    const userId = this.store.findUser(identity);
+    if (userId === undefined) return false;
+    if (userId === identityKey(identity)) {
+      return this.store.deleteUser(userId);
+    }
+    this.store.unlink(identity);
+    // A user left with only its own identity is no longer linked.
+    const user = this.store.getUser(userId);
+    if (user && user.identities.length < 2) this.store.deleteUser(userId);
+    return true;
+  }
+
+  getUser(userId: string): LinkedUser | undefined {
+    return this.store.getUser(userId);
+  }
+
+  listUsers(): LinkedUser[] {
+    return this.store.listUsers();
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  private pruneExpiredCodes(): void {
+    const now = new Date();
+    for (const [code, entry] of this.codes) {
+      if (now > entry.expiresAt) {
+        this.codes.delete(code);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Chat commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse `/link`, `/link <code>` and `/unlink`. Returns null for anything
+ * else, so ordinary messages pass through.
+ */
+export function parseLinkCommand(text: string): LinkCommand | null {
+  const match = /^\/(link|unlink)(?:@\S+)?(?:\s+(\S+))?\s*$/i.exec(text.trim());
+  if (!match) return null;
+  if (match[1]!.toLowerCase() === 'unlink') {
+    return match[2] === undefined ? { action: 'unlink' } : null;
+  }
+  return match[2] === undefined ? { action: 'link' } : { action: 'link', code: match[2] };
+}
+
+function identityKey(identity: ChannelIdentity): string {
+  return `${identity.channelId}:${identity.userId}`;
+}
+
+function sameIdentity(a: ChannelIdentity, b: ChannelIdentity): boolean {
+  return a.channelId === b.channelId && a.userId === b.userId;
+}
+
+function createRandomCode(): string {
+  // Same alphabet as pairing codes: no 0/O/1/I.
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = randomBytes(6);
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += chars[bytes[i]! % chars.length];
+  }
+  return code;
+}
@@ -0,0 +1,71 @@
+/**
+ * MemoryUserStore -- non-persistent IUserStore.
+ *
+ * Used when `users.store` is "memory" and in tests. Links are lost when
+ * the process exits.
+ */
+
+import type { ChannelIdentity, IUserStore, LinkedIdentity, LinkedUser } from '@ch4p/core';
+
+export class MemoryUserStore implements IUserStore {
+  readonly id = 'memory';
+
+  /** "channelId:userId" → linked user id and identity. */
+  private identities = new Map<string, { userId: string; identity: LinkedIdentity }>();
+
+  findUser(identity: ChannelIdentity): string | undefined {
+    return this.identities.get(identityKey(identity))?.userId;
+  }
+
+  link(userId: string, identity: ChannelIdentity): void {
+    const key = identityKey(identity);
+    const existing = this.identities.get(key);
+    if (existing?.userId === userId) return;
+    this.identities.delete(key);
+    this.identities.set(key, {
+      userId,
+      identity: { channelId: identity.channelId, userId: identity.userId, linkedAt: new Date() },
+    });
+  }
+
+  unlink(identity: ChannelIdentity): boolean {
+    return this.identities.delete(identityKey(identity));
+  }
+
+  deleteUser(userId: string): boolean {
+    let deleted = false;
+    for (const [key, entry] of this.identities) {
+      if (entry.userId === userId) {
+        this.identities.delete(key);
+        deleted = true;
+      }
+    }
+    return deleted;
+  }
+
+  getUser(userId: string): LinkedUser | undefined {
+    return this.listUsers().find((u) => u.id === userId);
+  }
+
+  listUsers(): LinkedUser[] {
+    const users = new Map<string, LinkedUser>();
+    // Map iteration follows insertion order, which is link order.
+    for (const { userId, identity } of this.identities.values()) {
+      let user = users.get(userId);
+      if (!user) {
+        user = { id: userId, identities: [] };
+        users.set(userId, user);
+      }
+      user.identities.push({ ...identity });
+    }
+    return [...users.values()];
+  }
+
+  close(): void {
+    // Nothing to release.
+  }
+}
+
+function identityKey(identity: ChannelIdentity): string {
+  return `${identity.channelId}:${identity.userId}`;
+}
@@ -314,6 +314,18 @@ describe('WebSocketBridge', () => {
       expect((received[0] as { text: string }).text).toContain('[ABORT]');
     });
 
+    it('routes c2s:approval to the channel approval handler', () => {
+      const received: unknown[] = [];
+      const approvals: unknown[] = [];
+      channel.onMessage((msg) => received.push(msg));
+      channel.onApproval((callId, decision) => approvals.push({ callId, decision }));
+      bridge.start();
+
+      ws.simulateMessage({ type: 'c2s:approval', callId: 'tc-1', decision: 'approve' });
+      expect(received).toHaveLength(0);
+      expect(approvals).toEqual([{ callId: 'tc-1', decision: { action: 'approve' } }]);
+    });
+
     it('handles invalid JSON gracefully', () => {
       bridge.start();
       ws.sent = [];
@@ -422,6 +434,28 @@ describe('WebSocketBridge', () => {
       )).toBe(true);
     });
 
+    it('translates approval_required event', () => {
+      bridge.start();
+      ws.sent = [];
+
+      const expiresAt = new Date('2026-01-01T00:02:00Z');
+      bridge.handleAgentEvent({
+        type: 'approval_required',
+        callId: 'tc-1',
+        tool: 'bash',
+        args: { command: 'ls' },
+        expiresAt,
+      });
+      const messages = ws.getSentMessages();
+      expect(messages).toContainEqual({
+        type: 's2c:approval:required',
+        callId: 'tc-1',
+        tool: 'bash',
+        args: { command: 'ls' },
+        expiresAt: expiresAt.toISOString(),
+      });
+    });
+
     it('translates aborted event', () => {
       bridge.start();
       ws.sent = [];
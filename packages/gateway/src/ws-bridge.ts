@@ -30,6 +30,8 @@ export interface BridgeAgentEvent {
   result?: unknown;
   error?: Error;
   reason?: string;
+  callId?: string;
+  expiresAt?: Date;
 }
 
 export class WebSocketBridge {
@@ -137,6 +139,22 @@ export class WebSocketBridge {
         });
         break;
 
+      case 'approval_required':
+        this.send({
+          type: 's2c:agent:status',
+          status: 'tool_executing',
+          tool: event.tool,
+          message: 'Waiting for approval',
+        });
+        this.send({
+          type: 's2c:approval:required',
+          callId: event.callId ?? '',
+          tool: event.tool ?? '',
+          args: event.args,
+          expiresAt: (event.expiresAt ?? new Date()).toISOString(),
+        });
+        break;
+
       case 'complete':
         this.send({
           type: 's2c:text:complete',
@@ -152,4 +152,28 @@ Content here.`;
       expect(result[0]!.content).toBe(text);
     });
   });
+
+  describe('source offsets', () => {
+    it('records where each chunk starts and ends in the input', () => {
+      const md = `# Title\n\n  First para.\n\n\nSecond para.`;
+      const result = chunkMarkdown(md, { maxChunkSize: 5000 });
+      expect(result).toHaveLength(1);
+      expect(md.slice(result[0]!.start, result[0]!.end)).toBe(`# Title\n\n  First para.\n\n\nSecond para.`);
+    });
+
+    it('points merged chunks at their own paragraphs', () => {
+      const md = `Alpha one.\n\nBravo two.\n\nCharlie three.`;
+      const result = chunkMarkdown(md, { maxChunkSize: 15, overlap: 0 });
+      expect(result.map((c) => md.slice(c.start, c.end))).toEqual(['Alpha one.', 'Bravo two.', 'Charlie three.']);
+    });
+
+    it('offsets split paragraphs within the source', () => {
+      const para = 'Word '.repeat(60).trim();
+      const md = `Intro.\n\n${para}`;
+      const result = chunkMarkdown(md, { maxChunkSize: 100, overlap: 10 });
+      for (const chunk of result.slice(1)) {
+        expect(md.slice(chunk.start, chunk.end)).toBe(chunk.content);
+      }
+    });
+  });
 });
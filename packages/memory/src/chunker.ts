@@ -9,6 +9,10 @@
 export interface ChunkResult {
   content: string;
   headings: string[];
+  /** Offset of the chunk's first character in the input text. */
+  start: number;
+  /** Offset just past the chunk's last character in the input text. */
+  end: number;
 }
 
 export interface ChunkOpts {
@@ -39,7 +43,7 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
   if (!text.trim()) return [];
 
   // Split on double newlines (paragraph/section boundaries)
-  const paragraphs = text.split(/\n\n+/).filter((p) => p.trim());
+  const paragraphs = splitParagraphs(text);
   if (paragraphs.length === 0) return [];
 
   const chunks: ChunkResult[] = [];
@@ -47,9 +51,12 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
   const headingStack: Array<{ level: number; text: string }> = [];
   let currentChunk = '';
   let currentHeadings: string[] = [];
+  // Source range of currentChunk
+  let currentStart = 0;
+  let currentEnd = 0;
 
   for (const para of paragraphs) {
-    const trimmed = para.trim();
+    const trimmed = para.text;
 
     // Check if this paragraph is a heading
     const headingMatch = trimmed.match(/^(#{1,6})\s+(.+)$/m);
@@ -77,14 +84,18 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
 
     if (combined.length <= maxChunkSize) {
       // Fits in current chunk
+      if (!currentChunk) currentStart = para.start;
       currentChunk = combined;
       currentHeadings = headings;
+      currentEnd = para.end;
     } else {
       // Flush current chunk if non-empty
       if (currentChunk) {
         chunks.push({
           content: currentChunk,
           headings: [...currentHeadings],
+          start: currentStart,
+          end: currentEnd,
         });
       }
 
@@ -93,8 +104,10 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
         const subChunks = splitLargeParagraph(trimmed, maxChunkSize, overlap);
         for (const sub of subChunks) {
           chunks.push({
-            content: sub,
+            content: sub.text,
             headings: [...headings],
+            start: para.start + sub.start,
+            end: para.start + sub.end,
           });
         }
         currentChunk = '';
@@ -104,10 +117,13 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
         const overlapText = getOverlapSuffix(currentChunk, overlap);
         currentChunk = overlapText ? `${overlapText}\n\n${trimmed}` : trimmed;
         currentHeadings = headings;
+        currentStart = overlapText ? Math.max(currentStart, currentEnd - overlapText.length) : para.start;
+        currentEnd = para.end;
 
         // If overlap pushed us over the limit, just use the paragraph alone
         if (currentChunk.length > maxChunkSize) {
           currentChunk = trimmed;
+          currentStart = para.start;
         }
       }
     }
@@ -118,21 +134,43 @@ export function chunkMarkdown(text: string, opts: ChunkOpts = {}): ChunkResult[]
     chunks.push({
       content: currentChunk,
       headings: [...currentHeadings],
+      start: currentStart,
+      end: currentEnd,
     });
   }
 
   return chunks;
 }
 
+/**
+ * Split text on blank lines into trimmed paragraphs with their offsets.
+ */
+function splitParagraphs(text: string): Array<{ text: string; start: number; end: number }> {
+  const paragraphs: Array<{ text: string; start: number; end: number }> = [];
+  let from = 0;
+  for (const boundary of [...text.matchAll(/\n\n+/g), null]) {
+    const to = boundary ? boundary.index : text.length;
+    const raw = text.slice(from, to);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const start = from + (raw.length - raw.trimStart().length);
+      paragraphs.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+    if (boundary) from = to + boundary[0].length;
+  }
+  return paragraphs;
+}
+
 /**
  * Split a large paragraph into smaller chunks with overlap.
+ * Offsets are relative to the paragraph.
  */
 function splitLargeParagraph(
   text: string,
   maxSize: number,
   overlap: number,
-): string[] {
-  const chunks: string[] = [];
+): Array<{ text: string; start: number; end: number }> {
+  const chunks: Array<{ text: string; start: number; end: number }> = [];
   let start = 0;
 
   while (start < text.length) {
@@ -146,13 +184,18 @@ function splitLargeParagraph(
       end = text.length;
     }
 
-    chunks.push(text.slice(start, end).trim());
+    const raw = text.slice(start, end);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const from = start + (raw.length - raw.trimStart().length);
+      chunks.push({ text: trimmed, start: from, end: from + trimmed.length });
+    }
 
     // Move start forward, keeping overlap
     start = Math.max(start + 1, end - overlap);
   }
 
-  return chunks.filter(Boolean);
+  return chunks;
 }
 
 /**
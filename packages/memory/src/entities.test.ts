@@ -0,0 +1,122 @@
+/**
+ * Tests for structured entity memory: attributes, relations, versioning
+ * and finding entities mentioned in a message.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SQLiteMemoryBackend } from './sqlite-backend.js';
+import { normalizePredicate } from './entities.js';
+
+let backend: SQLiteMemoryBackend;
+
+beforeEach(() => {
+  backend = new SQLiteMemoryBackend({ dbPath: ':memory:' });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await backend.close();
+});
+
+describe('SQLiteMemoryBackend — entity facts', () => {
+  it('stores attributes and relations on a profile', async () => {
+    await backend.upsertFact({ subject: 'user', predicate: 'prefers units', value: 'metric' });
+    await backend.upsertFact({
+      subject: 'Alice', subjectType: 'person', predicate: 'manager of', object: 'Project X', objectType: 'project',
+    });
+
+    expect(await backend.getEntity('USER')).toMatchObject({
+      name: 'user',
+      type: 'person',
+      attributes: { prefers_units: 'metric' },
+      relations: [],
+    });
+    expect(await backend.getEntity('alice')).toMatchObject({
+      type: 'person',
+      relations: [{ predicate: 'manager_of', entity: 'Project X', direction: 'out' }],
+    });
+    expect(await backend.getEntity('project x')).toMatchObject({
+      type: 'project',
+      relations: [{ predicate: 'manager_of', entity: 'Alice', direction: 'in' }],
+    });
+    expect(await backend.getEntity('Bob')).toBeNull();
+  });
+
+  it('versions a conflicting attribute instead of overwriting it', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+    expect(await backend.upsertFact({ subject: 'user', predicate: 'city', value: 'Berlin' })).toEqual({ status: 'added' });
+    expect(await backend.upsertFact({ subject: 'user', predicate: 'city', value: 'Berlin' })).toEqual({ status: 'unchanged' });
+
+    vi.setSystemTime(Date.parse('2026-03-01T00:00:00Z'));
+    expect(await backend.upsertFact({ subject: 'user', predicate: 'city', value: 'Lisbon' }))
+      .toEqual({ status: 'superseded', previous: 'Berlin' });
+
+    const profile = await backend.getEntity('user', { history: true });
+    expect(profile!.attributes).toEqual({ city: 'Lisbon' });
+    expect(profile!.history).toEqual([{
+      predicate: 'city',
+      value: 'Berlin',
+      validFrom: new Date('2026-01-01T00:00:00Z'),
+      validTo: new Date('2026-03-01T00:00:00Z'),
+    }]);
+  });
+
+  it('keeps several relations with the same predicate', async () => {
+    await backend.upsertFact({ subject: 'Alice', predicate: 'works_on', object: 'Project X' });
+    await backend.upsertFact({ subject: 'Alice', predicate: 'works_on', object: 'Project Y' });
+
+    const profile = await backend.getEntity('Alice');
+    expect(profile!.relations.map((r) => r.entity)).toEqual(['Project X', 'Project Y']);
+  });
+
+  it('retracts facts into the history', async () => {
+    await backend.upsertFact({ subject: 'user', predicate: 'diet', value: 'vegetarian' });
+    await backend.upsertFact({ subject: 'Alice', predicate: 'works_on', object: 'Project X' });
+
+    expect(await backend.upsertFact({ subject: 'user', predicate: 'diet', value: 'vegan', remove: true }))
+      .toEqual({ status: 'not_found' });
+    expect(await backend.upsertFact({ subject: 'user', predicate: 'diet', remove: true }))
+      .toEqual({ status: 'removed', previous: 'vegetarian' });
+    expect(await backend.upsertFact({ subject: 'Alice', predicate: 'works_on', object: 'Project X', remove: true }))
+      .toEqual({ status: 'removed', previous: 'Project X' });
+
+    expect((await backend.getEntity('user'))!.attributes).toEqual({});
+    expect((await backend.getEntity('Alice', { history: true }))!.history).toHaveLength(1);
+    expect((await backend.getEntity('Project X'))!.relations).toEqual([]);
+  });
+
+  it('keeps entities apart per namespace', async () => {
+    await backend.upsertFact({ subject: 'user', predicate: 'name', value: 'Alice' }, { namespace: 'u:telegram:1' });
+    await backend.upsertFact({ subject: 'user', predicate: 'name', value: 'Bob' }, { namespace: 'u:telegram:2' });
+
+    expect((await backend.getEntity('user', { namespace: 'u:telegram:1' }))!.attributes).toEqual({ name: 'Alice' });
+    expect((await backend.getEntity('user', { namespace: 'u:telegram:2' }))!.attributes).toEqual({ name: 'Bob' });
+    expect(await backend.getEntity('user')).toBeNull();
+  });
+
+  it('rejects a fact with both or neither of value and object', async () => {
+    await expect(backend.upsertFact({ subject: 'user', predicate: 'city' })).rejects.toThrow('value or an object');
+    await expect(backend.upsertFact({ subject: 'user', predicate: 'city', value: 'Rome', object: 'Rome' }))
+      .rejects.toThrow('value or an object');
+    await expect(backend.upsertFact({ subject: ' ', predicate: 'city', value: 'Rome' })).rejects.toThrow('subject');
+  });
+
+  it('finds entities mentioned by whole name', async () => {
+    await backend.upsertFact({ subject: 'Alice', predicate: 'role', value: 'manager' });
+    await backend.upsertFact({ subject: 'Project X', predicate: 'deadline', value: 'November' });
+    await backend.upsertFact({ subject: 'Al', predicate: 'role', value: 'intern' });
+
+    const found = await backend.findEntities('Did alice move the Project X deadline?');
+    expect(found.map((e) => e.name).sort()).toEqual(['Alice', 'Project X']);
+    expect(await backend.findEntities('Nothing relevant here')).toEqual([]);
+    expect(await backend.findEntities('alice and project x', { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('normalizePredicate', () => {
+  it('turns phrases into snake_case', () => {
+    expect(normalizePredicate('Manager of')).toBe('manager_of');
+    expect(normalizePredicate('  prefers-units ')).toBe('prefers_units');
+    expect(() => normalizePredicate('--')).toThrow('predicate');
+  });
+});
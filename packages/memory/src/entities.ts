@@ -0,0 +1,289 @@
+/**
+ * Entity memory — structured facts about people, projects and other
+ * entities, kept next to the free-text memories.
+ *
+ * A fact is either an attribute (`user — prefers_units — metric`) or a
+ * relation to another entity (`Alice — manager_of — Project X`). Facts are
+ * versioned rather than overwritten: each row is valid from when it was
+ * asserted until it is superseded or retracted. An attribute has one
+ * current value, so asserting a different one closes the old row. An
+ * entity can have any number of relations with the same predicate.
+ *
+ * Entities are scoped per namespace, like memory keys, and matched by
+ * name case-insensitively.
+ */
+
+import type Database from 'better-sqlite3';
+import type { EntityFact, EntityFactResult, EntityProfile } from '@ch4p/core';
+import { MemoryError } from '@ch4p/core';
+
+/** Type given to entities asserted without one. */
+const DEFAULT_TYPE = 'thing';
+/** Type of the `user` entity when none is given. */
+const USER_TYPE = 'person';
+const MAX_NAME_LENGTH = 200;
+const MAX_VALUE_LENGTH = 1_000;
+/** Entities scanned per namespace when looking for names in a message. */
+const MAX_SCANNED = 5_000;
+
+export class EntityStore {
+  private readonly db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_entities (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        namespace TEXT NOT NULL,
+        name TEXT NOT NULL,
+        name_key TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(namespace, name_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS memory_facts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity_id INTEGER NOT NULL,
+        predicate TEXT NOT NULL,
+        value TEXT,
+        object_id INTEGER,
+        valid_from TEXT NOT NULL,
+        valid_to TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memory_facts_entity ON memory_facts(entity_id, predicate);
+      CREATE INDEX IF NOT EXISTS idx_memory_facts_object ON memory_facts(object_id);
+    `);
+  }
+
+  /** Assert or retract `fact`. Throws MemoryError for a malformed fact. */
+  upsert(fact: EntityFact, namespace: string, now: Date): EntityFactResult {
+    const subject = checkName(fact.subject, 'subject');
+    const predicate = normalizePredicate(fact.predicate);
+    const object = fact.object !== undefined ? checkName(fact.object, 'object') : undefined;
+    const value = fact.value?.trim();
+    if (!fact.remove && (value ? object !== undefined : object === undefined)) {
+      throw new MemoryError('A fact needs either a value or an object', { subject, predicate });
+    }
+    if (value && value.length > MAX_VALUE_LENGTH) {
+      throw new MemoryError(`Fact values are limited to ${MAX_VALUE_LENGTH} characters`, { subject, predicate });
+    }
+
+    const at = now.toISOString();
+    return this.db.transaction((): EntityFactResult => {
+      if (fact.remove) {
+        const entityId = this.entityId(namespace, subject);
+        const objectId = object !== undefined ? this.entityId(namespace, object) : undefined;
+        if (entityId === undefined || (object !== undefined && objectId === undefined)) {
+          return { status: 'not_found' };
+        }
+        const current = this.currentFact(entityId, predicate, objectId);
+        // Retracting a specific value leaves a different current value alone.
+        if (!current || (object === undefined && value && current.value !== value)) {
+          return { status: 'not_found' };
+        }
+        this.closeFact(current.id, at);
+        this.touch(entityId, at);
+        return { status: 'removed', previous: current.value ?? object };
+      }
+
+      const entityId = this.ensureEntity(namespace, subject, fact.subjectType, at);
+      if (object !== undefined) {
+        const objectId = this.ensureEntity(namespace, object, fact.objectType, at);
+        if (this.currentFact(entityId, predicate, objectId)) return { status: 'unchanged' };
+        this.insertFact(entityId, predicate, null, objectId, at);
+        return { status: 'added' };
+      }
+
+      const current = this.currentFact(entityId, predicate, undefined);
+      if (current?.value === value) return { status: 'unchanged' };
+      if (current) this.closeFact(current.id, at);
+      this.insertFact(entityId, predicate, value!, null, at);
+      return current ? { status: 'superseded', previous: current.value! } : { status: 'added' };
+    })();
+  }
+
+  /** The named entity's current facts, or null if it is unknown. */
+  get(name: string, namespace: string, history = false): EntityProfile | null {
+    const row = this.db.prepare(`
+      SELECT id, name, type, updated_at FROM memory_entities WHERE namespace = ? AND name_key = ?
+    `).get(namespace, nameKey(name)) as EntityRow | undefined;
+    return row ? this.profile(row, history) : null;
+  }
+
+  /**
+   * Entities named in `text`, matched on whole words, most recently updated
+   * first.
+   */
+  find(text: string, namespace: string, limit: number): EntityProfile[] {
+    const haystack = nameKey(text);
+    const rows = this.db.prepare(`
+      SELECT id, name, type, updated_at, name_key FROM memory_entities
+      WHERE namespace = ? ORDER BY updated_at DESC LIMIT ?
+    `).all(namespace, MAX_SCANNED) as Array<EntityRow & { name_key: string }>;
+
+    const profiles: EntityProfile[] = [];
+    for (const row of rows) {
+      if (profiles.length >= limit) break;
+      if (row.name_key.length >= 2 && containsWord(haystack, row.name_key)) {
+        profiles.push(this.profile(row, false));
+      }
+    }
+    return profiles;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** The entity's id, or undefined when it is unknown. */
+  private entityId(namespace: string, name: string): number | undefined {
+    const row = this.db.prepare(
+      'SELECT id FROM memory_entities WHERE namespace = ? AND name_key = ?',
+    ).get(namespace, nameKey(name)) as { id: number } | undefined;
+    return row?.id;
+  }
+
+  private ensureEntity(namespace: string, name: string, type: string | undefined, at: string): number {
+    const key = nameKey(name);
+    const kind = type?.trim().toLowerCase() || undefined;
+    const existing = this.db.prepare(
+      'SELECT id, type FROM memory_entities WHERE namespace = ? AND name_key = ?',
+    ).get(namespace, key) as { id: number; type: string } | undefined;
+
+    if (existing) {
+      this.db.prepare('UPDATE memory_entities SET type = ?, updated_at = ? WHERE id = ?')
+        .run(kind ?? existing.type, at, existing.id);
+      return existing.id;
+    }
+
+    const defaultType = key === 'user' ? USER_TYPE : DEFAULT_TYPE;
+    const result = this.db.prepare(`
+      INSERT INTO memory_entities (namespace, name, name_key, type, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(namespace, name, key, kind ?? defaultType, at, at);
+    return Number(result.lastInsertRowid);
+  }
+
+  private touch(entityId: number, at: string): void {
+    this.db.prepare('UPDATE memory_entities SET updated_at = ? WHERE id = ?').run(at, entityId);
+  }
+
+  /** The current attribute row (objectId undefined) or relation row. */
+  private currentFact(
+    entityId: number,
+    predicate: string,
+    objectId: number | undefined,
+  ): { id: number; value: string | null } | undefined {
+    const sql = objectId === undefined
+      ? 'SELECT id, value FROM memory_facts WHERE entity_id = ? AND predicate = ? AND object_id IS NULL AND valid_to IS NULL'
+      : 'SELECT id, value FROM memory_facts WHERE entity_id = ? AND predicate = ? AND object_id = ? AND valid_to IS NULL';
+    const params = objectId === undefined ? [entityId, predicate] : [entityId, predicate, objectId];
+    return this.db.prepare(sql).get(...params) as { id: number; value: string | null } | undefined;
+  }
+
+  private insertFact(entityId: number, predicate: string, value: string | null, objectId: number | null, at: string): void {
+    this.db.prepare(`
+      INSERT INTO memory_facts (entity_id, predicate, value, object_id, valid_from) VALUES (?, ?, ?, ?, ?)
+    `).run(entityId, predicate, value, objectId, at);
+    this.touch(entityId, at);
+  }
+
+  private closeFact(id: number, at: string): void {
+    this.db.prepare('UPDATE memory_facts SET valid_to = ? WHERE id = ?').run(at, id);
+  }
+
+  private profile(row: EntityRow, history: boolean): EntityProfile {
+    const facts = this.db.prepare(`
+      SELECT f.predicate, f.value, o.name AS object, f.valid_from, f.valid_to
+      FROM memory_facts f LEFT JOIN memory_entities o ON o.id = f.object_id
+      WHERE f.entity_id = ? ${history ? '' : 'AND f.valid_to IS NULL'}
+      ORDER BY f.id
+    `).all(row.id) as Array<{
+      predicate: string;
+      value: string | null;
+      object: string | null;
+      valid_from: string;
+      valid_to: string | null;
+    }>;
+    const incoming = this.db.prepare(`
+      SELECT f.predicate, s.name AS subject
+      FROM memory_facts f JOIN memory_entities s ON s.id = f.entity_id
+      WHERE f.object_id = ? AND f.valid_to IS NULL
+      ORDER BY f.id
+    `).all(row.id) as Array<{ predicate: string; subject: string }>;
+
+    const profile: EntityProfile = {
+      name: row.name,
+      type: row.type,
+      attributes: {},
+      relations: [],
+      updatedAt: new Date(row.updated_at),
+    };
+    const past: NonNullable<EntityProfile['history']> = [];
+    for (const fact of facts) {
+      if (fact.valid_to !== null) {
+        past.push({
+          predicate: fact.predicate,
+          value: fact.value ?? fact.object ?? '',
+          validFrom: new Date(fact.valid_from),
+          validTo: new Date(fact.valid_to),
+        });
+      } else if (fact.object !== null) {
+        profile.relations.push({ predicate: fact.predicate, entity: fact.object, direction: 'out' });
+      } else {
+        profile.attributes[fact.predicate] = fact.value ?? '';
+      }
+    }
+    for (const fact of incoming) {
+      profile.relations.push({ predicate: fact.predicate, entity: fact.subject, direction: 'in' });
+    }
+    if (history) profile.history = past.sort((a, b) => b.validTo.getTime() - a.validTo.getTime());
+    return profile;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface EntityRow {
+  id: number;
+  name: string;
+  type: string;
+  updated_at: string;
+}
+
+/** Names compare case-insensitively and ignore runs of whitespace. */
+function nameKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function checkName(name: unknown, field: string): string {
+  const trimmed = typeof name === 'string' ? name.trim().replace(/\s+/g, ' ') : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new MemoryError(`Fact ${field} must be a name of 1 to ${MAX_NAME_LENGTH} characters`, { [field]: name });
+  }
+  return trimmed;
+}
+
+/** `Manager of` → `manager_of`. */
+export function normalizePredicate(predicate: string): string {
+  const normalized = predicate.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+  if (!normalized || normalized.length > MAX_NAME_LENGTH) {
+    throw new MemoryError(`Fact predicate must be a name of 1 to ${MAX_NAME_LENGTH} characters`, { predicate });
+  }
+  return normalized;
+}
+
+/** Whether `word` occurs in `text` between non-word characters. */
+function containsWord(text: string, word: string): boolean {
+  const isWordChar = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}_]/u.test(ch);
+  for (let i = text.indexOf(word); i !== -1; i = text.indexOf(word, i + 1)) {
+    if (!isWordChar(text[i - 1]) && !isWordChar(text[i + word.length])) return true;
+  }
+  return false;
+}
@@ -0,0 +1,165 @@
+import { deflateSync } from 'node:zlib';
+import { extractText, extractPdfText, htmlToText } from './extract.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Assemble a minimal PDF from object bodies; streams are given as Buffers. */
+function buildPdf(objects: Array<string | { dict: string; data: Buffer }>): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n', 'latin1')];
+  objects.forEach((obj, i) => {
+    if (typeof obj === 'string') {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${obj}\nendobj\n`, 'latin1'));
+    } else {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n<< ${obj.dict} /Length ${obj.data.length} >>\nstream\n`, 'latin1'));
+      parts.push(obj.data);
+      parts.push(Buffer.from('\nendstream\nendobj\n', 'latin1'));
+    }
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'));
+  return Buffer.concat(parts);
+}
+
+function flate(text: string): { dict: string; data: Buffer } {
+  return { dict: '/Filter /FlateDecode', data: deflateSync(Buffer.from(text, 'latin1')) };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('extractPdfText', () => {
+  it('reads text from an uncompressed content stream', () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+      { dict: '', data: Buffer.from('BT /F1 12 Tf 72 700 Td (Hello \\(PDF\\) world) Tj 0 -14 Td (Second line) Tj ET') },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Hello (PDF) world\nSecond line');
+  });
+
+  it('inflates compressed streams and honours TJ spacing', () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog >>',
+      flate('BT /F1 10 Tf 1 0 0 1 50 600 Tm [(Inv)20(oice)-300(total)] TJ T* (Due: \\061\\060 EUR) Tj ET'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Invoice total\nDue: 10 EUR');
+  });
+
+  it('maps glyph codes through a font ToUnicode CMap', () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin',
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0003> <0020> <0010> <00E9> endbfchar',
+      '1 beginbfrange <0020> <0022> <0043> endbfrange',
+      'endcmap',
+    ].join('\n');
+    const pdf = buildPdf([
+      '<< /Type /Page /Resources << /Font << /C0 2 0 R >> >> /Contents 4 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /ToUnicode 3 0 R >>',
+      flate(cmap),
+      flate('BT /C0 11 Tf 10 10 Td <0020002100220003002000100021> Tj ET'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('CDE CéD');
+  });
+
+  it('stops reading a CMap with many wide ranges', () => {
+    const ranges = Array.from({ length: 300 }, () => '<0000> <FFFF> <0041>').join('\n');
+    const pdf = buildPdf([
+      '<< /Type /Page /Resources << /Font << /C0 2 0 R >> >> /Contents 4 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /ToUnicode 3 0 R >>',
+      flate(`begincmap\n300 beginbfrange\n${ranges}\nendbfrange\nendcmap`),
+      flate('BT /C0 11 Tf <00000001> Tj ET'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('AB');
+  });
+
+  it('resolves fonts declared inside object streams', () => {
+    const header = '5 0 ';
+    const objStm = {
+      dict: `/Type /ObjStm /N 1 /First ${header.length} /Filter /FlateDecode`,
+      data: deflateSync(Buffer.from(`${header}<< /Type /Font /ToUnicode 3 0 R >>`)),
+    };
+    const pdf = buildPdf([
+      '<< /Type /Page /Resources << /Font << /R7 5 0 R >> >> >>',
+      objStm,
+      flate('begincmap\n1 beginbfchar <01> <0041> endbfchar\nendcmap'),
+      flate('BT /R7 9 Tf <0101> Tj ET'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('AA');
+  });
+
+  it('returns an empty string when there is no text', () => {
+    const pdf = buildPdf([
+      '<< /Type /XObject /Subtype /Image >>',
+      { dict: '/Filter /DCTDecode', data: Buffer.from([0xff, 0xd8, 0xff, 0xe0]) },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('');
+  });
+
+  /** A compressed text stream padded with `padMb` MB of spaces once inflated. */
+  function padded(text: string, padMb: number): { dict: string; data: Buffer } {
+    return flate(`BT (${text}) Tj ET${' '.repeat(padMb * 1024 * 1024)}`);
+  }
+
+  it('skips streams that inflate past the per-stream limit', () => {
+    const pdf = buildPdf([
+      { dict: '/Filter /FlateDecode', data: deflateSync(Buffer.alloc(64 * 1024 * 1024)) },
+      padded('bomb', 9),
+      flate('BT (Still here) Tj ET'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Still here');
+  });
+
+  it('stops inflating once the document limit is spent', () => {
+    const pdf = buildPdf([1, 2, 3, 4, 5].map((n) => padded(`Page ${n}`, 7)));
+
+    expect(extractPdfText(pdf)).toBe('Page 1\n\nPage 2\n\nPage 3\n\nPage 4');
+  });
+
+  it('does not inflate images', () => {
+    // Inflated, four of these would leave too little of the document limit for the caption.
+    const image = { dict: '/Type /XObject /Subtype /Image /Filter /FlateDecode', data: deflateSync(Buffer.alloc(7.9 * 1024 * 1024)) };
+    const pdf = buildPdf([image, image, image, image, padded('Caption', 1)]);
+
+    expect(extractPdfText(pdf)).toBe('Caption');
+  });
+});
+
+describe('htmlToText', () => {
+  it('drops scripts and tags and decodes entities', () => {
+    const html = '<html><head><style>p{}</style><script>alert(1)</script></head>'
+      + '<body><h1>Title</h1><p>Fish &amp; chips &#8212; &lt;3</p><p>a<br>b</p></body></html>';
+
+    expect(htmlToText(html)).toBe('Title\n\nFish & chips — <3\n\na\nb');
+  });
+});
+
+describe('extractText', () => {
+  it('picks the extractor from the mime type or extension', () => {
+    expect(extractText(Buffer.from('# notes'), { mimeType: 'text/markdown; charset=utf-8' })).toBe('# notes');
+    expect(extractText(Buffer.from('a,b'), { filename: 'data.CSV' })).toBe('a,b');
+    expect(extractText(Buffer.from('<b>hi</b>'), { filename: 'page.html' })).toBe('hi');
+    expect(extractText(Buffer.from('{"a":1}'), { mimeType: 'application/json' })).toBe('{"a":1}');
+  });
+
+  it('sniffs PDFs without a declared type', () => {
+    const pdf = buildPdf([{ dict: '', data: Buffer.from('BT (sniffed) Tj ET') }]);
+    expect(extractText(pdf)).toBe('sniffed');
+  });
+
+  it('returns null for unsupported types', () => {
+    expect(extractText(Buffer.from([0x89, 0x50]), { mimeType: 'image/png' })).toBeNull();
+    expect(extractText(Buffer.from('PK'), { filename: 'report.docx' })).toBeNull();
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * Plain-text extraction from documents: PDF, HTML and text-like files.
+ *
+ * The PDF extractor is deliberately small. It inflates Flate-compressed
+ * streams (including object streams), maps glyph codes through each font's
+ * ToUnicode CMap where one is present, and reads text from the show-text
+ * operators of content streams. That covers PDFs produced by word
+ * processors, browsers and most receipt/invoice generators. Scanned PDFs
+ * (images only) and exotic encodings yield little or no text.
+ *
+ * PDFs arrive from untrusted senders, so image streams are never inflated
+ * and inflation is capped per stream and per document (deflate bombs).
+ */
+
+import { inflateSync } from 'node:zlib';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ExtractOpts {
+  mimeType?: string;
+  filename?: string;
+}
+
+/** Extensions read as UTF-8 text (code, data and markup files). */
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'rst', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml',
+  'toml', 'ini', 'xml', 'log', 'sql', 'sh', 'js', 'mjs', 'cjs', 'ts', 'tsx',
+  'jsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs',
+  'php', 'swift', 'css', 'scss', 'vue', 'svelte',
+]);
+
+/** Largest inflated stream; bigger ones are skipped. */
+const MAX_STREAM_BYTES = 8 * 1024 * 1024;
+
+/** Inflated bytes per document, so many mid-sized streams can't add up. */
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+/** Code mappings read from one ToUnicode CMap: a whole two-byte code space. */
+const MAX_CMAP_ENTRIES = 0x10000;
+
+/** Code mappings read per document, so many CMaps can't add up. */
+const MAX_DOCUMENT_CMAP_ENTRIES = 4 * MAX_CMAP_ENTRIES;
+
+/** Streams that never hold text, content or fonts: not worth inflating. */
+const SKIPPED_STREAM_DICT = /\/(?:Subtype\s*\/Image|Type\s*\/(?:XObject|XRef|Metadata))\b/;
+
+const TEXT_MIME_TYPES = new Set([
+  'application/json', 'application/xml', 'application/x-yaml', 'application/yaml',
+  'application/javascript', 'application/typescript', 'application/x-sh', 'application/sql',
+]);
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract readable text from a document. Returns null when the type isn't
+ * one we can read (images, archives, office formats).
+ */
+export function extractText(data: Buffer, opts: ExtractOpts = {}): string | null {
+  const mime = opts.mimeType?.split(';')[0]?.trim().toLowerCase() ?? '';
+  const ext = opts.filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+
+  if (mime === 'application/pdf' || ext === 'pdf' || data.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return extractPdfText(data);
+  }
+  if (mime === 'text/html' || mime === 'application/xhtml+xml' || ext === 'html' || ext === 'htm') {
+    return htmlToText(data.toString('utf-8'));
+  }
+  if (mime.startsWith('text/') || TEXT_MIME_TYPES.has(mime) || TEXT_EXTENSIONS.has(ext)) {
+    return data.toString('utf-8');
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+/** Strip markup from HTML, keeping block structure as line breaks. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote|table)\s*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+      if (code[0] === '#') {
+        const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+      }
+      return ENTITIES[code.toLowerCase()] ?? m;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+/** Glyph code → Unicode map from a ToUnicode CMap, keyed by hex code. */
+type CMap = Map<string, string>;
+
+interface PdfStream {
+  objNum?: number;
+  dict: string;
+  data: Buffer;
+}
+
+/** Extract the text of a PDF, page content in file order. */
+export function extractPdfText(data: Buffer): string {
+  const src = data.toString('latin1');
+  const streams = readStreams(src, data);
+
+  // Plain-text object bodies by number, including those packed in object streams.
+  const objects = new Map<number, string>();
+  for (const m of src.matchAll(/(\d+)\s+\d+\s+obj\b([\s\S]*?)(?:\bstream\r?\n|\bendobj)/g)) {
+    objects.set(Number(m[1]), m[2]!);
+  }
+  for (const s of streams) {
+    if (/\/Type\s*\/ObjStm\b/.test(s.dict)) readObjectStream(s, objects);
+  }
+
+  const cmaps = new Map<number, CMap>();
+  const cmapBudget = { entries: MAX_DOCUMENT_CMAP_ENTRIES };
+  for (const s of streams) {
+    if (s.objNum !== undefined && s.data.includes('begincmap')) {
+      cmaps.set(s.objNum, parseCMap(s.data.toString('latin1'), cmapBudget));
+    }
+  }
+
+  // Font resource name → ToUnicode CMap. Names are resolved globally rather
+  // than per page, which is right for nearly all generated documents.
+  const fontCMaps = new Map<string, CMap>();
+  const fontObjCMap = (ref: number): CMap | undefined => {
+    const toUnicode = objects.get(ref)?.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+    return toUnicode ? cmaps.get(Number(toUnicode[1])) : undefined;
+  };
+  for (const body of objects.values()) {
+    const fontDict = body.match(/\/Font\s*<<([\s\S]*?)>>/)?.[1]
+      ?? objects.get(Number(body.match(/\/Font\s+(\d+)\s+\d+\s+R/)?.[1]))?.match(/<<([\s\S]*)>>/)?.[1];
+    if (!fontDict) continue;
+    for (const f of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const cmap = fontObjCMap(Number(f[2]));
+      if (cmap && !fontCMaps.has(f[1]!)) fontCMaps.set(f[1]!, cmap);
+    }
+  }
+
+  const pages: string[] = [];
+  for (const s of streams) {
+    if (/\/Type\s*\/(ObjStm|XRef|XObject|Metadata)\b/.test(s.dict)) continue;
+    const content = s.data.toString('latin1');
+    if (!/\bBT\b/.test(content) || content.includes('begincmap')) continue;
+    const text = contentStreamText(content, fontCMaps);
+    if (text.trim()) pages.push(text.trim());
+  }
+
+  return pages.join('\n\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/** Find every stream in the file and decode the ones we can. */
+function readStreams(src: string, raw: Buffer): PdfStream[] {
+  const streams: PdfStream[] = [];
+  const re = />>\s*stream(?:\r\n|\n|\r)/g;
+  let m: RegExpExecArray | null;
+  let budget = MAX_DOCUMENT_BYTES;
+
+  while ((m = re.exec(src)) !== null) {
+    const dictEnd = m.index + 2;
+    const dictStart = matchingDictStart(src, dictEnd);
+    if (dictStart < 0) continue;
+    const dict = src.slice(dictStart, dictEnd);
+    const start = m.index + m[0].length;
+
+    let end = -1;
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    if (length) {
+      const candidate = start + Number(length[1]);
+      if (/^\s*endstream/.test(src.slice(candidate, candidate + 20))) end = candidate;
+    }
+    if (end < 0) end = src.indexOf('endstream', start);
+    if (end < 0) break;
+    re.lastIndex = end;
+
+    if (SKIPPED_STREAM_DICT.test(dict)) continue;
+    const objNum = src.slice(Math.max(0, dictStart - 32), dictStart).match(/(\d+)\s+\d+\s+obj\s*$/)?.[1];
+    const body = raw.subarray(start, end);
+    const data = decodeStream(dict, body, Math.min(MAX_STREAM_BYTES, budget));
+    // Unfiltered streams are views into the file; only inflated ones cost memory.
+    if (data && data !== body) budget -= data.length;
+    if (data) streams.push({ objNum: objNum !== undefined ? Number(objNum) : undefined, dict, data });
+  }
+  return streams;
+}
+
+/** Walk back from a dictionary's closing '>>' to its opening '<<'. */
+function matchingDictStart(src: string, dictEnd: number): number {
+  let depth = 0;
+  for (let i = dictEnd - 2; i >= 1; i--) {
+    if (src[i] === '>' && src[i + 1] === '>') {
+      depth++;
+      i--;
+    } else if (src[i - 1] === '<' && src[i] === '<') {
+      depth--;
+      if (depth === 0) return i - 1;
+      i--;
+    }
+  }
+  return -1;
+}
+
+/** Decode a stream, or null when it can't be decoded within `maxBytes`. */
+function decodeStream(dict: string, data: Buffer, maxBytes: number): Buffer | null {
+  const filters = [...(dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '').matchAll(/\/(\w+)/g)].map((f) => f[1]);
+  if (filters.length === 0) return data;
+  if (filters.length > 1 || filters[0] !== 'FlateDecode' || maxBytes <= 0) return null;
+  try {
+    // Throws RangeError past maxOutputLength, before allocating the rest.
+    return inflateSync(data, { maxOutputLength: maxBytes });
+  } catch {
+    return null;
+  }
+}
+
+/** Unpack the objects of a /Type /ObjStm stream into `objects`. */
+function readObjectStream(stream: PdfStream, objects: Map<number, string>): void {
+  const n = Number(stream.dict.match(/\/N\s+(\d+)/)?.[1] ?? 0);
+  const first = Number(stream.dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+  const body = stream.data.toString('latin1');
+  const header = body.slice(0, first).trim().split(/\s+/).map(Number);
+
+  for (let i = 0; i < n; i++) {
+    const num = header[i * 2];
+    const offset = header[i * 2 + 1];
+    const next = header[i * 2 + 3];
+    if (num === undefined || offset === undefined) break;
+    objects.set(num, body.slice(first + offset, next !== undefined ? first + next : undefined));
+  }
+}
+
+/**
+ * Parse bfchar and bfrange entries of a ToUnicode CMap, stopping after
+ * MAX_CMAP_ENTRIES mappings or once the document's `budget` is spent.
+ */
+function parseCMap(src: string, budget: { entries: number }): CMap {
+  const map: CMap = new Map();
+  let left = MAX_CMAP_ENTRIES;
+  // Counts overwrites too: repeated ranges cost time even when the map stays small.
+  const set = (code: string, text: string): boolean => {
+    if (left <= 0 || budget.entries <= 0) return false;
+    map.set(code, text);
+    left--;
+    budget.entries--;
+    return true;
+  };
+
+  for (const block of src.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const e of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      if (!set(e[1]!.toLowerCase(), utf16Hex(e[2]!))) return map;
+    }
+  }
+
+  for (const block of src.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const e of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const width = e[1]!.length;
+      const lo = parseInt(e[1]!, 16);
+      const hi = parseInt(e[2]!, 16);
+      if (hi - lo > 0xffff) continue;
+      const dest = e[3]!;
+      if (dest.startsWith('[')) {
+        const items = [...dest.matchAll(/<([0-9a-fA-F]*)>/g)];
+        for (const [i, item] of items.entries()) {
+          if (!set(hexCode(lo + i, width), utf16Hex(item[1]!))) return map;
+        }
+      } else {
+        const base = dest.slice(1, -1);
+        const baseLast = parseInt(base.slice(-4) || '0', 16);
+        for (let c = lo; c <= hi; c++) {
+          const last = (baseLast + c - lo).toString(16).padStart(4, '0');
+          if (!set(hexCode(c, width), utf16Hex(base.slice(0, -4) + last))) return map;
+        }
+      }
+    }
+  }
+  return map;
+}
+
+function hexCode(code: number, width: number): string {
+  return code.toString(16).padStart(width, '0');
+}
+
+function utf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) units.push(parseInt(hex.slice(i, i + 4), 16));
+  return String.fromCharCode(...units);
+}
+
+/** Read the text shown by a page content stream. */
+function contentStreamText(content: string, fontCMaps: Map<string, CMap>): string {
+  let out = '';
+  let cmap: CMap | undefined;
+  let lastY: number | undefined;
+  let moved = false;
+  const operands: Array<string | number | Array<string | number>> = [];
+
+  const show = (bytes: string) => {
+    const text = decodeString(bytes, cmap);
+    if (!text) return;
+    if (moved && out && !/\s$/.test(out)) out += ' ';
+    moved = false;
+    out += text;
+  };
+  const newLine = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+    moved = false;
+  };
+  const moveTo = (y: number | undefined, relative: boolean) => {
+    if (y === undefined) return;
+    const abs = relative ? (lastY ?? 0) + y : y;
+    if (lastY !== undefined && Math.abs(abs - lastY) > 1) newLine();
+    else moved = true;
+    lastY = abs;
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.kind === 'operand') {
+      operands.push(token.value);
+      continue;
+    }
+    const op = token.value;
+    switch (op) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        cmap = typeof name === 'string' && name.startsWith('/') ? fontCMaps.get(name.slice(1)) : undefined;
+        break;
+      }
+      case 'Tj':
+        if (typeof operands.at(-1) === 'string') show(operands.at(-1) as string);
+        break;
+      case "'":
+      case '"':
+        newLine();
+        if (typeof operands.at(-1) === 'string') show(operands.at(-1) as string);
+        break;
+      case 'TJ': {
+        const arr = operands.at(-1);
+        if (!Array.isArray(arr)) break;
+        for (const item of arr) {
+          if (typeof item === 'number') {
+            if (item < -200) moved = true;
+          } else {
+            show(item);
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        moveTo(operands.at(-1) as number | undefined, true);
+        break;
+      case 'Tm':
+        moveTo(operands.at(-1) as number | undefined, false);
+        break;
+      case 'T*':
+        newLine();
+        break;
+      case 'ET':
+        moved = true;
+        break;
+    }
+    operands.length = 0;
+  }
+  return out;
+}
+
+type Token = { kind: 'operand'; value: string | number | Array<string | number> } | { kind: 'op'; value: string };
+
+/**
+ * Tokenize a content stream. Strings come back as raw byte strings and
+ * names keep their leading '/'.
+ */
+function* tokenize(src: string): Generator<Token> {
+  let i = 0;
+  let array: Array<string | number> | null = null;
+
+  const emit = function* (value: string | number): Generator<Token> {
+    if (array) array.push(value);
+    else yield { kind: 'operand', value };
+  };
+
+  while (i < src.length) {
+    const c = src[i]!;
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '%') {
+      while (i < src.length && src[i] !== '\n' && src[i] !== '\r') i++;
+    } else if (c === '(') {
+      const [str, end] = readLiteral(src, i);
+      i = end;
+      yield* emit(str);
+    } else if (c === '<' && src[i + 1] !== '<') {
+      const end = src.indexOf('>', i);
+      const hex = src.slice(i + 1, end < 0 ? src.length : end).replace(/\s/g, '');
+      i = end < 0 ? src.length : end + 1;
+      let bytes = '';
+      for (let j = 0; j < hex.length; j += 2) bytes += String.fromCharCode(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+      yield* emit(bytes);
+    } else if (c === '[') {
+      array = [];
+      i++;
+    } else if (c === ']') {
+      if (array) yield { kind: 'operand', value: array };
+      array = null;
+      i++;
+    } else if (c === '<' || c === '>') {
+      // Inline dictionaries (<< >>) carry no text.
+      i += 2;
+    } else {
+      const m = src.slice(i).match(/^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*/);
+      const word = m ? m[0] : c;
+      i += word.length;
+      if (word.startsWith('/')) {
+        yield* emit(word);
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        yield* emit(Number(word));
+      } else if (!array) {
+        yield { kind: 'op', value: word };
+        if (word === 'BI') {
+          // Skip inline image data.
+          const end = src.indexOf('EI', i);
+          i = end < 0 ? src.length : end + 2;
+        }
+      }
+    }
+  }
+}
+
+/** Read a literal (parenthesised) string starting at `start`. */
+function readLiteral(src: string, start: number): [string, number] {
+  let depth = 0;
+  let out = '';
+  let i = start;
+
+  for (; i < src.length; i++) {
+    const c = src[i]!;
+    if (c === '\\') {
+      const n = src[++i];
+      if (n === undefined) break;
+      if (/[0-7]/.test(n)) {
+        const oct = src.slice(i).match(/^[0-7]{1,3}/)![0];
+        out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+        i += oct.length - 1;
+      } else if (n === '\r' || n === '\n') {
+        if (n === '\r' && src[i + 1] === '\n') i++;
+      } else {
+        out += ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' } as Record<string, string>)[n] ?? n;
+      }
+    } else if (c === '(') {
+      if (depth++ > 0) out += c;
+    } else if (c === ')') {
+      if (--depth === 0) return [out, i + 1];
+      out += c;
+    } else {
+      out += c;
+    }
+  }
+  return [out, i];
+}
+
+/** Turn the bytes of a shown string into text via the font's CMap. */
+function decodeString(bytes: string, cmap: CMap | undefined): string {
+  if (bytes.startsWith('þÿ')) {
+    let out = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return out;
+  }
+  if (!cmap || cmap.size === 0) return bytes;
+
+  const width = (cmap.keys().next().value as string).length / 2;
+  let out = '';
+  for (let i = 0; i + width <= bytes.length; i += width) {
+    let code = '';
+    for (let j = 0; j < width; j++) code += bytes.charCodeAt(i + j).toString(16).padStart(2, '0');
+    out += cmap.get(code) ?? (width === 1 ? bytes[i] : '');
+  }
+  return out;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { HNSWIndex } from './hnsw.js';
+import { cosineSimilarity } from './vector.js';
+
+/** Deterministic vectors so recall figures don't flap between runs. */
+function randomVectors(count: number, dims: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dims }, next));
+}
+
+function exactTop(vectors: Float32Array[], query: Float32Array, k: number): number[] {
+  return vectors
+    .map((v, id) => ({ id, score: cosineSimilarity(query, v) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+function recallAt(index: HNSWIndex, vectors: Float32Array[], queries: Float32Array[], k: number): number {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTop(vectors, query, k));
+    for (const match of index.search(query, k, 64)) {
+      if (expected.has(match.id)) hits++;
+    }
+  }
+  return hits / (queries.length * k);
+}
+
+describe('HNSWIndex', () => {
+  it('finds the nearest neighbours of a query', () => {
+    const vectors = randomVectors(1_500, 24);
+    const index = new HNSWIndex();
+    vectors.forEach((v, id) => index.add(id, v));
+
+    expect(index.size).toBe(1_500);
+    expect(index.dimensions).toBe(24);
+    expect(recallAt(index, vectors, randomVectors(30, 24, 7), 10)).toBeGreaterThan(0.9);
+  });
+
+  it('returns matches best first with approximate cosine scores', () => {
+    const index = new HNSWIndex();
+    index.add(1, new Float32Array([1, 0, 0]));
+    index.add(2, new Float32Array([0.7, 0.7, 0]));
+    index.add(3, new Float32Array([0, 0, 1]));
+
+    const matches = index.search(new Float32Array([1, 0.1, 0]), 3, 10);
+    expect(matches.map((m) => m.id)).toEqual([1, 2, 3]);
+    expect(matches[0]!.score).toBeCloseTo(0.995, 1);
+  });
+
+  it('only returns accepted ids when filtered', () => {
+    const vectors = randomVectors(500, 16);
+    const index = new HNSWIndex();
+    vectors.forEach((v, id) => index.add(id, v));
+
+    const matches = index.search(vectors[0]!, 10, 50, (id) => id % 5 === 0);
+    expect(matches).toHaveLength(10);
+    expect(matches.every((m) => m.id % 5 === 0)).toBe(true);
+    expect(matches[0]!.id).toBe(0);
+  });
+
+  it('keeps the graph searchable after removals', () => {
+    const vectors = randomVectors(800, 16);
+    const index = new HNSWIndex();
+    vectors.forEach((v, id) => index.add(id, v));
+
+    for (let id = 0; id < 800; id += 2) index.remove(id);
+    expect(index.size).toBe(400);
+    // Nothing links to a removed node.
+    for (let id = 1; id < 800; id += 2) {
+      expect(index.node(id)!.links.flat().every((link) => link % 2 === 1)).toBe(true);
+    }
+
+    const kept = vectors.filter((_, id) => id % 2 === 1);
+    const queries = randomVectors(20, 16, 3);
+    let hits = 0;
+    for (const query of queries) {
+      const expected = new Set(exactTop(kept, query, 5).map((i) => i * 2 + 1));
+      hits += index.search(query, 5, 64).filter((m) => expected.has(m.id)).length;
+    }
+    expect(hits / (queries.length * 5)).toBeGreaterThan(0.85);
+  });
+
+  it('replaces a node added twice under one id', () => {
+    const index = new HNSWIndex();
+    index.add(1, new Float32Array([1, 0]));
+    index.add(2, new Float32Array([0, 1]));
+    index.add(1, new Float32Array([0, 1]));
+
+    expect(index.size).toBe(2);
+    expect(index.search(new Float32Array([0, 1]), 2, 10).every((m) => m.score > 0.99)).toBe(true);
+  });
+
+  it('reports the nodes whose links changed', () => {
+    const index = new HNSWIndex();
+    expect(index.add(1, new Float32Array([1, 0]))).toEqual([1]);
+    expect(index.add(2, new Float32Array([0, 1])).sort()).toEqual([1, 2]);
+    expect(index.remove(2)).toEqual([1]);
+    expect(index.remove(2)).toEqual([]);
+  });
+
+  it('restores persisted nodes without relinking', () => {
+    const vectors = randomVectors(300, 12);
+    const built = new HNSWIndex();
+    vectors.forEach((v, id) => built.add(id, v));
+
+    const restored = new HNSWIndex();
+    vectors.forEach((v, id) => restored.restore(id, v, built.node(id)!));
+
+    const query = randomVectors(1, 12, 9)[0]!;
+    expect(restored.search(query, 10, 50)).toEqual(built.search(query, 10, 50));
+  });
+
+  it('rejects vectors of another dimension', () => {
+    const index = new HNSWIndex();
+    index.add(1, new Float32Array([1, 0, 0]));
+    expect(() => index.add(2, new Float32Array([1, 0]))).toThrow('dimension mismatch');
+    expect(index.search(new Float32Array([1, 0]), 5, 10)).toEqual([]);
+  });
+
+  it('returns nothing when empty', () => {
+    expect(new HNSWIndex().search(new Float32Array([1, 0]), 5, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * HNSW — approximate nearest-neighbour graph for embedding search.
+ *
+ * A hierarchical navigable small world graph (Malkov & Yashunin, 2016):
+ * every vector is a node on layers 0..level, linked to close neighbours on
+ * each layer. A search descends greedily through the sparse upper layers
+ * and finishes with a best-first search of layer 0, visiting a few hundred
+ * nodes instead of all of them.
+ *
+ * Vectors are normalized and quantized to int8, so similarity is a dot
+ * product and a 1536-dimension vector takes 1.5 KB. Scores are therefore
+ * approximate; callers rerank the candidates against the stored floats.
+ *
+ * The graph lives in memory. `node()` and `restore()` let the owner
+ * persist it and load it back without re-linking.
+ */
+
+export interface HNSWOpts {
+  /** Links per node on upper layers; layer 0 keeps twice as many (default 16). */
+  m?: number;
+  /** Candidates considered when linking a new node (default 64). */
+  efConstruction?: number;
+}
+
+/** A node's place in the graph: its top layer and its links on each layer. */
+export interface HNSWNode {
+  level: number;
+  /** Neighbour ids per layer, from layer 0 up. */
+  links: number[][];
+}
+
+export interface HNSWMatch {
+  id: number;
+  /** Approximate cosine similarity. */
+  score: number;
+}
+
+interface GraphNode extends HNSWNode {
+  vector: Int8Array;
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 64;
+/** Quantized dot products are scaled by 127 * 127. */
+const SCALE = 127 * 127;
+/** Levels above this are vanishingly rare; the cap keeps a bad draw harmless. */
+const MAX_LEVEL = 16;
+
+export class HNSWIndex {
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly levelFactor: number;
+  private readonly nodes = new Map<number, GraphNode>();
+  private entryPoint: number | null = null;
+  private dims = 0;
+
+  constructor(opts: HNSWOpts = {}) {
+    this.m = opts.m ?? DEFAULT_M;
+    this.efConstruction = opts.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  /** Number of nodes in the graph. */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /** Dimension of the indexed vectors; 0 until the first one is added. */
+  get dimensions(): number {
+    return this.dims;
+  }
+
+  has(id: number): boolean {
+    return this.nodes.has(id);
+  }
+
+  /** The node's level and links, for persistence. */
+  node(id: number): HNSWNode | undefined {
+    const node = this.nodes.get(id);
+    return node && { level: node.level, links: node.links };
+  }
+
+  /**
+   * Insert a vector, replacing any node with the same id.
+   * Returns the ids of every node whose links changed, including `id`.
+   */
+  add(id: number, vector: Float32Array): number[] {
+    const changed = new Set<number>(this.remove(id));
+    this.checkDimensions(vector);
+
+    const level = this.randomLevel();
+    const node: GraphNode = {
+      vector: quantize(vector),
+      level,
+      links: Array.from({ length: level + 1 }, () => []),
+    };
+    changed.add(id);
+
+    const entry = this.entryPoint === null ? undefined : this.nodes.get(this.entryPoint);
+    this.nodes.set(id, node);
+    if (!entry || this.entryPoint === null) {
+      this.entryPoint = id;
+      return [...changed];
+    }
+
+    let nearest = [this.entryPoint];
+    for (let layer = entry.level; layer > level; layer--) {
+      nearest = [this.searchLayer(node.vector, nearest, 1, layer)[0]!.id];
+    }
+
+    for (let layer = Math.min(entry.level, level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, nearest, this.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, this.maxLinks(layer));
+      node.links[layer] = neighbours.map((c) => c.id);
+
+      for (const neighbour of neighbours) {
+        const other = this.nodes.get(neighbour.id)!;
+        const links = other.links[layer]!;
+        links.push(id);
+        if (links.length > this.maxLinks(layer)) {
+          other.links[layer] = this.closest(other, links, layer);
+        }
+        changed.add(neighbour.id);
+      }
+      nearest = candidates.map((c) => c.id);
+    }
+
+    if (level > entry.level) this.entryPoint = id;
+    return [...changed];
+  }
+
+  /** Load a persisted node as-is. Links to ids never restored are ignored. */
+  restore(id: number, vector: Float32Array, node: HNSWNode): void {
+    this.checkDimensions(vector);
+    this.nodes.set(id, { vector: quantize(vector), level: node.level, links: node.links });
+    const entry = this.entryPoint === null ? undefined : this.nodes.get(this.entryPoint);
+    if (!entry || node.level > entry.level) this.entryPoint = id;
+  }
+
+  /**
+   * Remove a node. Nodes that linked to it are reconnected through its
+   * neighbours. Returns the ids of the nodes whose links changed.
+   */
+  remove(id: number): number[] {
+    const removed = this.nodes.get(id);
+    if (!removed) return [];
+    this.nodes.delete(id);
+
+    const changed: number[] = [];
+    for (const [otherId, other] of this.nodes) {
+      let touched = false;
+      for (let layer = 0; layer <= other.level; layer++) {
+        const links = other.links[layer]!;
+        const at = links.indexOf(id);
+        if (at === -1) continue;
+        links.splice(at, 1);
+        const pool = new Set([...links, ...(removed.links[layer] ?? [])]);
+        pool.delete(otherId);
+        other.links[layer] = this.relink(other, [...pool], layer);
+        touched = true;
+      }
+      if (touched) changed.push(otherId);
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      let top = -1;
+      for (const [otherId, other] of this.nodes) {
+        if (other.level > top) {
+          top = other.level;
+          this.entryPoint = otherId;
+        }
+      }
+    }
+    if (this.nodes.size === 0) this.dims = 0;
+    return changed;
+  }
+
+  /**
+   * Find the `k` nodes most similar to `query`, best first. `ef` (at least
+   * `k`) trades speed for recall. With `accept`, only accepted nodes are
+   * returned; the rest are still walked through.
+   */
+  search(query: Float32Array, k: number, ef: number, accept?: (id: number) => boolean): HNSWMatch[] {
+    if (this.entryPoint === null || query.length !== this.dims) return [];
+    const q = quantize(query);
+    const entry = this.nodes.get(this.entryPoint)!;
+
+    let nearest = [this.entryPoint];
+    for (let layer = entry.level; layer > 0; layer--) {
+      nearest = [this.searchLayer(q, nearest, 1, layer)[0]!.id];
+    }
+    return this.searchLayer(q, nearest, Math.max(ef, k), 0, accept)
+      .slice(0, k)
+      .map((c) => ({ id: c.id, score: c.score / SCALE }));
+  }
+
+  // -------------------------------------------------------------------------
+  // Graph internals
+  // -------------------------------------------------------------------------
+
+  /** Best-first search of one layer. Returns up to `ef` matches, best first. */
+  private searchLayer(
+    q: Int8Array,
+    entries: number[],
+    ef: number,
+    layer: number,
+    accept?: (id: number) => boolean,
+  ): HNSWMatch[] {
+    const visited = new Set<number>();
+    // Candidates to expand, best on top; results so far, worst on top.
+    const candidates = new Heap<HNSWMatch>((a, b) => a.score > b.score);
+    const results = new Heap<HNSWMatch>((a, b) => a.score < b.score);
+
+    for (const id of entries) {
+      const node = this.nodes.get(id);
+      if (!node || visited.has(id)) continue;
+      visited.add(id);
+      const match = { id, score: dot(q, node.vector) };
+      candidates.push(match);
+      if (!accept || accept(id)) results.push(match);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = results.peek();
+      if (worst && results.size >= ef && current.score < worst.score) break;
+
+      const links = this.nodes.get(current.id)?.links[layer] ?? [];
+      for (const id of links) {
+        if (visited.has(id)) continue;
+        visited.add(id);
+        const node = this.nodes.get(id);
+        if (!node) continue;
+
+        const score = dot(q, node.vector);
+        const floor = results.peek();
+        if (results.size < ef || !floor || score > floor.score) {
+          candidates.push({ id, score });
+          if (!accept || accept(id)) {
+            results.push({ id, score });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  /**
+   * Pick up to `max` neighbours from candidates sorted best first, skipping
+   * any that is closer to an already picked neighbour than to the base node
+   * so links spread in different directions. Skipped ones fill leftover slots.
+   */
+  private selectNeighbours(candidates: HNSWMatch[], max: number): HNSWMatch[] {
+    const picked: HNSWMatch[] = [];
+    const skipped: HNSWMatch[] = [];
+    for (const candidate of candidates) {
+      if (picked.length >= max) break;
+      const vector = this.nodes.get(candidate.id)?.vector;
+      if (!vector) continue;
+      const diverse = picked.every((p) => dot(vector, this.nodes.get(p.id)!.vector) < candidate.score);
+      (diverse ? picked : skipped).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (picked.length >= max) break;
+      picked.push(candidate);
+    }
+    return picked;
+  }
+
+  /** Re-select a node's links on a layer from `pool`. */
+  private relink(node: GraphNode, pool: number[], layer: number): number[] {
+    return this.selectNeighbours(this.score(node, pool), this.maxLinks(layer)).map((c) => c.id);
+  }
+
+  /**
+   * Trim an overfull link list to its closest entries. Cheaper than
+   * `relink`, which matters because inserts overfill lists constantly.
+   */
+  private closest(node: GraphNode, pool: number[], layer: number): number[] {
+    return this.score(node, pool).slice(0, this.maxLinks(layer)).map((c) => c.id);
+  }
+
+  /** Score `pool` against a node, best first. */
+  private score(node: GraphNode, pool: number[]): HNSWMatch[] {
+    const scored: HNSWMatch[] = [];
+    for (const id of pool) {
+      const other = this.nodes.get(id);
+      if (other) scored.push({ id, score: dot(node.vector, other.vector) });
+    }
+    return scored.sort((a, b) => b.score - a.score);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  private randomLevel(): number {
+    const level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor);
+    return Math.min(level, MAX_LEVEL);
+  }
+
+  private checkDimensions(vector: Float32Array): void {
+    if (this.nodes.size === 0) this.dims = vector.length;
+    if (vector.length !== this.dims) {
+      throw new Error(`Vector dimension mismatch: ${vector.length} vs ${this.dims}`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Normalize to unit length and scale to int8. */
+function quantize(vector: Float32Array): Int8Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i]! * vector[i]!;
+  norm = Math.sqrt(norm) || 1;
+
+  const out = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = Math.round((vector[i]! / norm) * 127);
+  }
+  return out;
+}
+
+function dot(a: Int8Array, b: Int8Array): number {
+  // Four accumulators; this is the hot loop of every insert and search.
+  let s0 = 0;
+  let s1 = 0;
+  let s2 = 0;
+  let s3 = 0;
+  const end = a.length - (a.length % 4);
+  let i = 0;
+  for (; i < end; i += 4) {
+    s0 += a[i]! * b[i]!;
+    s1 += a[i + 1]! * b[i + 1]!;
+    s2 += a[i + 2]! * b[i + 2]!;
+    s3 += a[i + 3]! * b[i + 3]!;
+  }
+  for (; i < a.length; i++) s0 += a[i]! * b[i]!;
+  return s0 + s1 + s2 + s3;
+}
+
+/** Binary heap; `above(a, b)` is true when `a` belongs nearer the top. */
+class Heap<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly above: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.above(items[i]!, items[parent]!)) break;
+      [items[i], items[parent]] = [items[parent]!, items[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let next = i;
+      if (left < items.length && this.above(items[left]!, items[next]!)) next = left;
+      if (right < items.length && this.above(items[right]!, items[next]!)) next = right;
+      if (next === i) break;
+      [items[i], items[next]] = [items[next]!, items[i]!];
+      i = next;
+    }
+    return top;
+  }
+
+  /** Pop everything, top first. */
+  drain(): T[] {
+    const out: T[] = [];
+    while (this.items.length > 0) out.push(this.pop()!);
+    return out;
+  }
+}
@@ -3,6 +3,11 @@
  *
  * Normalizes scores to [0, 1] within each result set, then computes a
  * weighted combined score. Default weighting: 0.7 vector + 0.3 keyword.
+ *
+ * The combined score can then be scaled by recency (an exponential decay on
+ * the entry's age) and usage (how often recall has returned it). Both are
+ * off by default; a weight of w lets that factor take away at most w of the
+ * score, so a relevant entry is never buried by an irrelevant popular one.
  */
 
 import type { MemoryResult } from '@ch4p/core';
@@ -13,12 +18,32 @@ export interface ScoredResult {
   score: number;
 }
 
+/** Age and usage of a stored entry, for recency and usage scoring. */
+export interface MemorySignals {
+  /** Last write, in ms since the epoch. */
+  updatedAt: number;
+  /** Times recall has returned the entry. */
+  accessCount: number;
+}
+
 export interface HybridMergeOpts {
   vectorWeight?: number;
   keywordWeight?: number;
   limit?: number;
+  /** Share of the score that fades with age, 0-1 (default: 0) */
+  recencyWeight?: number;
+  /** Age in days at which the recency share has halved (default: 30) */
+  halfLifeDays?: number;
+  /** Share of the score earned by frequent recall, 0-1 (default: 0) */
+  usageWeight?: number;
+  /** Signals by key; keys without one are scored on relevance alone. */
+  signals?: Map<string, MemorySignals>;
+  /** Current time in ms (default: Date.now()) */
+  now?: number;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Merge keyword (FTS5) and vector search results with configurable weights.
  *
@@ -84,11 +109,12 @@ export function hybridMerge(
 
   // Compute combined scores and determine match type
   const results: MemoryResult[] = [];
+  const lifecycleFactor = createLifecycleFactor(merged.keys(), opts);
 
   for (const entry of merged.values()) {
     const combinedScore =
-      entry.vectorScore * vectorWeight +
-      entry.keywordScore * keywordWeight;
+      (entry.vectorScore * vectorWeight + entry.keywordScore * keywordWeight) *
+      lifecycleFactor(entry.key);
 
     let matchType: MemoryResult['matchType'];
     if (entry.inKeyword && entry.inVector) {
@@ -112,6 +138,47 @@ export function hybridMerge(
   return results.slice(0, limit);
 }
 
+/**
+ * Build the recency × usage multiplier for each key. Usage is log-scaled
+ * against the most recalled candidate, so one heavily used entry doesn't
+ * flatten the rest.
+ */
+function createLifecycleFactor(
+  keys: Iterable<string>,
+  opts: HybridMergeOpts,
+): (key: string) => number {
+  const recencyWeight = clamp01(opts.recencyWeight ?? 0);
+  const usageWeight = clamp01(opts.usageWeight ?? 0);
+  const signals = opts.signals;
+  if (!signals || (recencyWeight === 0 && usageWeight === 0)) return () => 1;
+
+  const now = opts.now ?? Date.now();
+  const halfLifeMs = (opts.halfLifeDays ?? 30) * DAY_MS;
+  let maxUsage = 0;
+  for (const key of keys) {
+    maxUsage = Math.max(maxUsage, Math.log1p(signals.get(key)?.accessCount ?? 0));
+  }
+
+  return (key) => {
+    const signal = signals.get(key);
+    if (!signal) return 1;
+    let factor = 1;
+    if (recencyWeight > 0 && halfLifeMs > 0) {
+      const age = Math.max(0, now - signal.updatedAt);
+      factor *= 1 - recencyWeight + recencyWeight * Math.pow(0.5, age / halfLifeMs);
+    }
+    // Nothing has been recalled yet: usage says nothing, so leave scores be.
+    if (usageWeight > 0 && maxUsage > 0) {
+      factor *= 1 - usageWeight + usageWeight * (Math.log1p(signal.accessCount) / maxUsage);
+    }
+    return factor;
+  };
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
 /**
  * Normalize scores to [0, 1] using min-max normalization.
  * If all scores are identical, all normalized scores become 1.
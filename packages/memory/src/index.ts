@@ -16,16 +16,33 @@ export { NoopMemoryBackend } from './noop-backend.js';
 export { FTSSearch } from './fts.js';
 export type { FTSResult } from './fts.js';
 export { VectorSearch, cosineSimilarity, embeddingToBlob, blobToEmbedding } from './vector.js';
-export type { VectorResult } from './vector.js';
+export type { VectorResult, VectorSearchOpts } from './vector.js';
+export { HNSWIndex } from './hnsw.js';
+export type { HNSWOpts, HNSWNode, HNSWMatch } from './hnsw.js';
 
 // Hybrid merge
 export { hybridMerge } from './hybrid-merge.js';
-export type { ScoredResult, HybridMergeOpts } from './hybrid-merge.js';
+export type { ScoredResult, HybridMergeOpts, MemorySignals } from './hybrid-merge.js';
+
+// Lifecycle (expiry, usage, consolidation, audit)
+export { MemoryLifecycle, normalizeExpiry } from './lifecycle.js';
+export type { LifecycleEntry } from './lifecycle.js';
+
+// Structured entity facts
+export { EntityStore, normalizePredicate } from './entities.js';
 
 // Chunking
 export { chunkMarkdown } from './chunker.js';
 export type { ChunkResult, ChunkOpts } from './chunker.js';
 
+// Document text extraction
+export { extractText, extractPdfText, htmlToText } from './extract.js';
+export type { ExtractOpts } from './extract.js';
+
+// Document ingestion
+export { ingestDocuments, ingestDocument, DOCUMENT_KEY_PREFIX } from './ingest.js';
+export type { IngestOpts, IngestReport, IngestedDocument, FetchedDocument, DocumentChunkMetadata } from './ingest.js';
+
 // Embedding
 export { EmbeddingCache } from './embedding-cache.js';
 export type { EmbeddingCacheOpts } from './embedding-cache.js';
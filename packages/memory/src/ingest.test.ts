@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SQLiteMemoryBackend } from './sqlite-backend.js';
+import { ingestDocuments } from './ingest.js';
+
+let dir: string;
+let backend: SQLiteMemoryBackend;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'ch4p-ingest-'));
+  backend = new SQLiteMemoryBackend({ dbPath: ':memory:' });
+});
+
+afterEach(async () => {
+  await backend.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const GUIDE = [
+  '# Guide',
+  '',
+  'Welcome to the project. This guide explains how we build, test and ship every release.',
+  '',
+  '## Deployment',
+  '',
+  'Deploy with the blue-green script on Fridays.',
+  'Roll back with the same script.',
+].join('\n');
+
+describe('ingestDocuments', () => {
+  it('stores chunks with source, line range and heading context', async () => {
+    const file = join(dir, 'guide.md');
+    writeFileSync(file, GUIDE);
+
+    const report = await ingestDocuments(backend, file, { maxChunkSize: 100 });
+    expect(report.documents).toEqual([{ source: file, status: 'added', chunks: 2 }]);
+
+    const [first, second] = await backend.list(`doc:${file}#`);
+    expect(first!.metadata).toMatchObject({ source: file, chunk: 0, chunks: 2, startLine: 1, endLine: 3 });
+    expect(second!.metadata).toMatchObject({ chunk: 1, startLine: 5, endLine: 8, headings: ['Guide', 'Deployment'] });
+    expect(second!.content).toMatch(/^Guide > Deployment\n\n## Deployment/);
+
+    const results = await backend.recall('blue-green');
+    expect(results[0]!.key).toBe(`doc:${file}#1`);
+  });
+
+  it('walks folders, skipping hidden, vendored and unreadable files', async () => {
+    mkdirSync(join(dir, 'src'));
+    mkdirSync(join(dir, 'node_modules'));
+    mkdirSync(join(dir, '.git'));
+    writeFileSync(join(dir, 'README.md'), GUIDE);
+    writeFileSync(join(dir, 'src', 'main.ts'), 'export const answer = 42;\n');
+    writeFileSync(join(dir, 'page.html'), '<h1>Intro</h1><p>Hello <b>there</b>.</p>');
+    writeFileSync(join(dir, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    writeFileSync(join(dir, 'node_modules', 'dep.js'), 'ignored');
+    writeFileSync(join(dir, '.git', 'HEAD'), 'ignored');
+
+    const report = await ingestDocuments(backend, dir);
+    const byName = Object.fromEntries(report.documents.map((d) => [d.source.slice(dir.length + 1), d.status]));
+    expect(byName).toEqual({
+      'README.md': 'added',
+      'logo.png': 'skipped',
+      'page.html': 'added',
+      'src/main.ts': 'added',
+    });
+
+    const [page] = await backend.list(`doc:${join(dir, 'page.html')}#`);
+    expect(page!.content).toBe('Intro\n\n# Intro\n\nHello there.');
+    expect(page!.metadata?.startLine).toBeUndefined();
+  });
+
+  it('skips unchanged documents and replaces changed ones', async () => {
+    const file = join(dir, 'guide.md');
+    writeFileSync(file, GUIDE);
+    await ingestDocuments(backend, file, { maxChunkSize: 100 });
+
+    const again = await ingestDocuments(backend, file, { maxChunkSize: 100 });
+    expect(again.documents[0]!.status).toBe('unchanged');
+    expect(again.chunksStored).toBe(0);
+
+    writeFileSync(file, '# Guide\n\nShorter now.');
+    const changed = await ingestDocuments(backend, file, { maxChunkSize: 100 });
+    expect(changed.documents[0]).toEqual({ source: file, status: 'updated', chunks: 1 });
+
+    const entries = await backend.list(`doc:${file}#`);
+    expect(entries.map((e) => e.key)).toEqual([`doc:${file}#0`]);
+    expect(entries[0]!.content).toContain('Shorter now.');
+  });
+
+  it('skips files rejected by checkPath', async () => {
+    writeFileSync(join(dir, 'secret.txt'), 'token');
+    const report = await ingestDocuments(backend, dir, {
+      checkPath: (path) => (path.endsWith('secret.txt') ? 'blocked by policy' : undefined),
+    });
+    expect(report.documents[0]).toMatchObject({ status: 'skipped', reason: 'blocked by policy' });
+    expect(await backend.list('doc:')).toHaveLength(0);
+  });
+
+  it('ingests URLs through fetchUrl', async () => {
+    const report = await ingestDocuments(backend, 'https://example.com/notes#top', {
+      fetchUrl: async () => ({ data: Buffer.from('Plain notes.'), mimeType: 'text/plain; charset=utf-8' }),
+    });
+    expect(report.documents[0]).toMatchObject({ source: 'https://example.com/notes', status: 'added' });
+
+    const [entry] = await backend.list('doc:https://example.com/notes#');
+    expect(entry!.metadata).toMatchObject({ source: 'https://example.com/notes', startLine: 1, endLine: 1 });
+  });
+
+  it('throws for a missing target', async () => {
+    await expect(ingestDocuments(backend, join(dir, 'missing'))).rejects.toThrow('No such file or folder');
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Document ingestion — files, folders and URLs into memory.
+ *
+ * Each document is extracted to text (see extract.ts), chunked along its
+ * headings and stored under `doc:<source>#<n>`. Chunk metadata names the
+ * source and, for text files, the lines the chunk covers, so recall can
+ * cite where an answer came from.
+ *
+ * Re-ingestion is incremental: a document whose content hash matches the
+ * one stored with its chunks is skipped. A changed document is re-stored
+ * and its surplus chunks are forgotten.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { IMemoryBackend } from '@ch4p/core';
+import { MemoryError, readResponseBody } from '@ch4p/core';
+import { chunkMarkdown } from './chunker.js';
+import { extractText, htmlToText } from './extract.js';
+
+// ---------------------------------------------------------------------------
+// Types & defaults
+// ---------------------------------------------------------------------------
+
+export interface IngestOpts {
+  /** Maximum chunk size in characters (default: 1000) */
+  maxChunkSize?: number;
+  /** Largest file or download read, in bytes (default: 10 MB) */
+  maxBytes?: number;
+  /** Most files read from one folder (default: 10,000) */
+  maxFiles?: number;
+  /** Download a URL. Defaults to fetch() capped at `maxBytes`. */
+  fetchUrl?: (url: string) => Promise<FetchedDocument>;
+  /** Return a reason to skip a file; checked before the file is read. */
+  checkPath?: (path: string) => string | undefined;
+  /** Called as each document is finished. */
+  onDocument?: (doc: IngestedDocument) => void;
+  signal?: AbortSignal;
+}
+
+export interface FetchedDocument {
+  data: Buffer;
+  mimeType?: string;
+}
+
+export interface IngestedDocument {
+  /** Absolute file path or URL. */
+  source: string;
+  status: 'added' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+  /** Chunks the document is stored as. */
+  chunks: number;
+  /** Why the document was skipped or failed. */
+  reason?: string;
+}
+
+export interface IngestReport {
+  documents: IngestedDocument[];
+  /** Chunks written in this run; unchanged documents write none. */
+  chunksStored: number;
+}
+
+/** Metadata stored with every document chunk. */
+export interface DocumentChunkMetadata {
+  source: string;
+  /** Chunk index within the document, from 0. */
+  chunk: number;
+  chunks: number;
+  /** Lines covered, 1-based and inclusive. Absent for PDF and HTML text. */
+  startLine?: number;
+  endLine?: number;
+  headings: string[];
+  /** SHA-256 of the document's bytes. */
+  hash: string;
+}
+
+/** Key prefix of every ingested chunk. */
+export const DOCUMENT_KEY_PREFIX = 'doc:';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 10_000;
+const DEFAULT_FETCH_TIMEOUT_MS = 30_000;
+
+/** Folders never worth indexing. Hidden entries are skipped as well. */
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', '__pycache__', 'venv']);
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+/**
+ * Ingest a file, every readable file under a folder, or an http(s) URL.
+ * Per-document problems are reported in the result; a target that can't
+ * be read at all throws MemoryError.
+ */
+export async function ingestDocuments(
+  backend: IMemoryBackend,
+  target: string,
+  opts: IngestOpts = {},
+): Promise<IngestReport> {
+  const report: IngestReport = { documents: [], chunksStored: 0 };
+  const record = (doc: IngestedDocument, stored = 0) => {
+    report.documents.push(doc);
+    report.chunksStored += stored;
+    opts.onDocument?.(doc);
+  };
+
+  if (/^https?:\/\//i.test(target)) {
+    const url = new URL(target);
+    url.hash = '';
+    const source = url.toString();
+    let fetched: FetchedDocument;
+    try {
+      fetched = await (opts.fetchUrl ?? ((u) => fetchDocument(u, opts)))(source);
+    } catch (err) {
+      throw new MemoryError(`Failed to fetch ${source}: ${errorMessage(err)}`, { source });
+    }
+    const { doc, stored } = await ingestDocument(backend, source, fetched.data, { ...opts, mimeType: fetched.mimeType });
+    record(doc, stored);
+    return report;
+  }
+
+  const root = resolve(target);
+  const info = await stat(root).catch(() => null);
+  if (!info) throw new MemoryError(`No such file or folder: ${root}`, { source: root });
+
+  const files = info.isDirectory() ? await listFiles(root, opts.maxFiles ?? DEFAULT_MAX_FILES) : [root];
+  for (const file of files) {
+    if (opts.signal?.aborted) break;
+    const { doc, stored } = await ingestFile(backend, file, opts);
+    record(doc, stored);
+  }
+  return report;
+}
+
+/**
+ * Ingest one document's bytes under `source`. Skips the write when the
+ * stored chunks already carry this content's hash.
+ */
+export async function ingestDocument(
+  backend: IMemoryBackend,
+  source: string,
+  data: Buffer,
+  opts: IngestOpts & { mimeType?: string } = {},
+): Promise<{ doc: IngestedDocument; stored: number }> {
+  const hash = createHash('sha256').update(data).digest('hex');
+  const keyPrefix = `${DOCUMENT_KEY_PREFIX}${source}#`;
+  // list() matches prefixes loosely on some backends; check the source too.
+  const existing = (await backend.list(keyPrefix)).filter((e) => e.metadata?.source === source);
+  const previous = existing[0]?.metadata as Partial<DocumentChunkMetadata> | undefined;
+  if (previous?.hash === hash && previous.chunks === existing.length) {
+    return { doc: { source, status: 'unchanged', chunks: existing.length }, stored: 0 };
+  }
+
+  const extracted = readDocument(data, source, opts.mimeType);
+  const chunks = extracted ? chunkMarkdown(extracted.text, { maxChunkSize: opts.maxChunkSize }) : [];
+  if (!extracted || chunks.length === 0) {
+    // Nothing readable any more; don't leave the old version behind.
+    for (const entry of existing) await backend.forget(entry.key);
+    const reason = extracted ? 'no text' : 'unsupported file type';
+    return { doc: { source, status: 'skipped', chunks: 0, reason }, stored: 0 };
+  }
+
+  const lineStarts = extracted.verbatim ? lineOffsets(extracted.text) : null;
+  const keys = new Set<string>();
+  for (const [i, chunk] of chunks.entries()) {
+    const metadata: DocumentChunkMetadata = {
+      source,
+      chunk: i,
+      chunks: chunks.length,
+      headings: chunk.headings,
+      hash,
+    };
+    if (lineStarts) {
+      metadata.startLine = lineAt(lineStarts, chunk.start);
+      metadata.endLine = lineAt(lineStarts, Math.max(chunk.start, chunk.end - 1));
+    }
+    // Lead with the heading trail so the chunk is found by its section too.
+    const content = chunk.headings.length > 0
+      ? `${chunk.headings.join(' > ')}\n\n${chunk.content}`
+      : chunk.content;
+    const key = `${keyPrefix}${i}`;
+    await backend.store(key, content, metadata as unknown as Record<string, unknown>);
+    keys.add(key);
+  }
+  for (const entry of existing) {
+    if (!keys.has(entry.key)) await backend.forget(entry.key);
+  }
+
+  return {
+    doc: { source, status: existing.length > 0 ? 'updated' : 'added', chunks: chunks.length },
+    stored: chunks.length,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function ingestFile(
+  backend: IMemoryBackend,
+  path: string,
+  opts: IngestOpts,
+): Promise<{ doc: IngestedDocument; stored: number }> {
+  const reason = opts.checkPath?.(path);
+  if (reason) return { doc: { source: path, status: 'skipped', chunks: 0, reason }, stored: 0 };
+
+  try {
+    const { size } = await stat(path);
+    const maxBytes = opts.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (size > maxBytes) {
+      return { doc: { source: path, status: 'skipped', chunks: 0, reason: `larger than ${maxBytes} bytes` }, stored: 0 };
+    }
+    return await ingestDocument(backend, path, await readFile(path), opts);
+  } catch (err) {
+    return { doc: { source: path, status: 'failed', chunks: 0, reason: errorMessage(err) }, stored: 0 };
+  }
+}
+
+/** Files under `root`, depth first, skipping hidden entries and symlinks. */
+async function listFiles(root: string, maxFiles: number): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (files.length >= maxFiles) return;
+      if (entry.name.startsWith('.')) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) await walk(path);
+      } else if (entry.isFile()) {
+        files.push(path);
+      }
+    }
+  };
+  await walk(root);
+  return files;
+}
+
+async function fetchDocument(url: string, opts: IngestOpts): Promise<FetchedDocument> {
+  const timeout = AbortSignal.timeout(DEFAULT_FETCH_TIMEOUT_MS);
+  const res = await fetch(url, {
+    signal: opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout,
+    headers: { 'User-Agent': 'ch4p' },
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return {
+    data: await readResponseBody(res, opts.maxBytes ?? DEFAULT_MAX_BYTES),
+    mimeType: res.headers.get('content-type') ?? undefined,
+  };
+}
+
+/**
+ * Extract a document's text. `verbatim` is true when the text is the file
+ * itself, so its line numbers are the file's.
+ */
+function readDocument(data: Buffer, source: string, mimeType?: string): { text: string; verbatim: boolean } | null {
+  const mime = mimeType?.split(';')[0]?.trim().toLowerCase() ?? '';
+  const path = source.replace(/[?#].*$/, '').toLowerCase();
+  if (mime === 'text/html' || mime === 'application/xhtml+xml' || /\.html?$/.test(path)) {
+    // Turn headings into markdown ones so chunks keep their section context.
+    const html = data.toString('utf-8').replace(
+      /<h([1-6])\b[^>]*>/gi,
+      (_, level: string) => `\n\n${'#'.repeat(Number(level))} `,
+    );
+    return { text: htmlToText(html), verbatim: false };
+  }
+
+  const text = extractText(data, { mimeType, filename: path });
+  if (text === null) return null;
+  const isPdf = mime === 'application/pdf' || path.endsWith('.pdf') || data.subarray(0, 5).toString('latin1') === '%PDF-';
+  return { text, verbatim: !isPdf };
+}
+
+/** Offset of the first character of each line. */
+function lineOffsets(text: string): number[] {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+/** 1-based line containing `offset`. */
+function lineAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid]! <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,234 @@
+/**
+ * Tests for the memory lifecycle: expiry, recency and usage scoring,
+ * consolidation of near-duplicate summaries, and the audit log.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SQLiteMemoryBackend } from './sqlite-backend.js';
+import { hybridMerge } from './hybrid-merge.js';
+import type { IEmbeddingProvider } from './embedding-provider.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Embeds by topic, so summaries about the same thing are exact duplicates. */
+const topicEmbeddings: IEmbeddingProvider = {
+  id: 'topics',
+  dimensions: 3,
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((t) =>
+      /coffee/i.test(t) ? [1, 0, 0] : /tea/i.test(t) ? [0, 1, 0] : [0, 0, 1],
+    );
+  },
+};
+
+const SUMMARY = { type: 'conversation_summary' };
+
+let backend: SQLiteMemoryBackend;
+
+beforeEach(() => {
+  backend = new SQLiteMemoryBackend({ dbPath: ':memory:', embeddingProvider: topicEmbeddings });
+});
+
+afterEach(async () => {
+  await backend.close();
+});
+
+// ---------------------------------------------------------------------------
+// hybridMerge — recency and usage
+// ---------------------------------------------------------------------------
+
+describe('hybridMerge — recency and usage', () => {
+  const now = Date.parse('2026-06-01T00:00:00Z');
+  const results = [
+    { key: 'old', content: 'old', score: 1 },
+    { key: 'new', content: 'new', score: 1 },
+  ];
+
+  it('leaves scores alone by default', () => {
+    const merged = hybridMerge(results, [], {
+      signals: new Map([['old', { updatedAt: now - 365 * DAY_MS, accessCount: 0 }]]),
+      now,
+    });
+    expect(merged.map((r) => r.score)).toEqual([0.3, 0.3]);
+  });
+
+  it('decays older entries by half-life', () => {
+    const merged = hybridMerge(results, [], {
+      recencyWeight: 0.5,
+      halfLifeDays: 10,
+      signals: new Map([
+        ['old', { updatedAt: now - 10 * DAY_MS, accessCount: 0 }],
+        ['new', { updatedAt: now, accessCount: 0 }],
+      ]),
+      now,
+    });
+    expect(merged[0]!.key).toBe('new');
+    expect(merged[0]!.score).toBeCloseTo(0.3);
+    // Half the recency share is gone after one half-life: 0.3 * (0.5 + 0.25).
+    expect(merged[1]!.score).toBeCloseTo(0.225);
+  });
+
+  it('boosts frequently recalled entries', () => {
+    const merged = hybridMerge(results, [], {
+      usageWeight: 0.4,
+      signals: new Map([
+        ['old', { updatedAt: now, accessCount: 20 }],
+        ['new', { updatedAt: now, accessCount: 0 }],
+      ]),
+      now,
+    });
+    expect(merged.map((r) => r.key)).toEqual(['old', 'new']);
+    expect(merged[1]!.score).toBeCloseTo(0.3 * 0.6);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Expiry
+// ---------------------------------------------------------------------------
+
+describe('SQLiteMemoryBackend — expiry', () => {
+  it('hides expired entries from recall and list', async () => {
+    await backend.store('gone', 'the wifi password is hunter2', { expiresAt: Date.now() - 1000 });
+    await backend.store('kept', 'the wifi router is in the hall', { expiresAt: Date.now() + DAY_MS });
+
+    const results = await backend.recall('wifi');
+    expect(results.map((r) => r.key)).toEqual(['kept']);
+    expect((await backend.list()).map((e) => e.key)).toEqual(['kept']);
+  });
+
+  it('stores expiresAt as an ISO string', async () => {
+    await backend.store('a', 'content', { expiresAt: Date.parse('2030-01-01T00:00:00Z') });
+    const [entry] = await backend.list();
+    expect(entry!.metadata).toEqual({ expiresAt: '2030-01-01T00:00:00.000Z' });
+  });
+
+  it('rejects an unreadable expiresAt', async () => {
+    await expect(backend.store('a', 'content', { expiresAt: 'soon' })).rejects.toThrow('expiresAt');
+  });
+
+  it('prunes expired entries into the audit log', async () => {
+    await backend.store('gone', 'old note', { expiresAt: Date.now() - 1000 });
+    await backend.store('kept', 'new note');
+
+    expect(await backend.prune()).toEqual(['gone']);
+    expect(await backend.prune()).toEqual([]);
+
+    const log = await backend.auditLog();
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({
+      action: 'expire',
+      key: 'gone',
+      removed: [{ key: 'gone', content: 'old note' }],
+    });
+  });
+
+  it('never expires pinned entries', async () => {
+    await backend.store('pinned', 'the wifi password is hunter2', { expiresAt: Date.now() - 1000, pinned: true });
+
+    expect((await backend.recall('wifi')).map((r) => r.key)).toEqual(['pinned']);
+    expect((await backend.list()).map((e) => e.key)).toEqual(['pinned']);
+    expect(await backend.prune()).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+describe('SQLiteMemoryBackend — usage', () => {
+  it('ranks often recalled entries higher when usageWeight is set', async () => {
+    // Keyword search only, so recall returns just the entries that match.
+    const keywords = new SQLiteMemoryBackend({ dbPath: ':memory:' });
+    await keywords.store('a', 'project deadline is on friday');
+    await keywords.store('b', 'project deadline is on monday');
+
+    for (let i = 0; i < 3; i++) await keywords.recall('monday');
+
+    const plain = await keywords.recall('project deadline');
+    const weighted = await keywords.recall('project deadline', { usageWeight: 0.5 });
+    await keywords.close();
+
+    const score = (results: typeof plain, key: string) => results.find((r) => r.key === key)!.score;
+    expect(score(plain, 'b')).toBeCloseTo(score(plain, 'a'));
+    expect(score(weighted, 'b')).toBeGreaterThan(score(weighted, 'a'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Consolidation
+// ---------------------------------------------------------------------------
+
+describe('SQLiteMemoryBackend — consolidate', () => {
+  beforeEach(async () => {
+    await backend.store('u:alice:conv:1', 'User likes coffee, black', SUMMARY);
+    await backend.store('u:alice:conv:2', 'User asked about tea', SUMMARY);
+    await backend.store('u:alice:conv:3', 'User drinks coffee every morning', SUMMARY);
+    await backend.store('u:bob:conv:1', 'User wants coffee beans', SUMMARY);
+    await backend.store('u:alice:note', 'Coffee shop on 5th street'); // not a summary
+  });
+
+  it('merges near-duplicate summaries per namespace with the summarizer', async () => {
+    const summarize = vi.fn(async (contents: string[]) => contents.join(' / '));
+    const report = await backend.consolidate({ summarize });
+
+    expect(summarize).toHaveBeenCalledWith(['User likes coffee, black', 'User drinks coffee every morning']);
+    expect(report).toEqual({ groups: [{ key: 'u:alice:conv:3', merged: ['u:alice:conv:1'] }], removed: 1 });
+
+    const keys = (await backend.list()).map((e) => e.key);
+    expect(keys).toEqual(['u:alice:conv:2', 'u:alice:conv:3', 'u:alice:note', 'u:bob:conv:1']);
+    const [merged] = await backend.list('u:alice:conv:3');
+    expect(merged!.content).toBe('User likes coffee, black / User drinks coffee every morning');
+    expect(merged!.metadata).toMatchObject({ type: 'conversation_summary', mergedFrom: 2 });
+  });
+
+  it('records merges, with the replaced entries, in the audit log', async () => {
+    await backend.consolidate({ summarize: async () => 'User drinks black coffee every morning' });
+
+    const [entry] = await backend.auditLog({ key: 'u:alice:conv:1' });
+    expect(entry).toMatchObject({
+      action: 'merge',
+      key: 'u:alice:conv:3',
+      content: 'User drinks black coffee every morning',
+      removed: [
+        { key: 'u:alice:conv:1', content: 'User likes coffee, black' },
+        { key: 'u:alice:conv:3', content: 'User drinks coffee every morning' },
+      ],
+    });
+  });
+
+  it('keeps the newest entry when no summarizer is given', async () => {
+    await backend.consolidate();
+    const [kept] = await backend.list('u:alice:conv:3');
+    expect(kept!.content).toBe('User drinks coffee every morning');
+    expect(await backend.list('u:alice:conv:1')).toEqual([]);
+  });
+
+  it('leaves pinned summaries out of merges', async () => {
+    await backend.store('u:alice:conv:1', 'User likes coffee, black', { ...SUMMARY, pinned: true });
+    const report = await backend.consolidate();
+    expect(report).toEqual({ groups: [], removed: 0 });
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const report = await backend.consolidate({ dryRun: true });
+    expect(report.groups).toEqual([{ key: 'u:alice:conv:3', merged: ['u:alice:conv:1'] }]);
+    expect(report.removed).toBe(0);
+    expect(await backend.list()).toHaveLength(5);
+    expect(await backend.auditLog()).toEqual([]);
+  });
+
+  it('leaves a group alone when the summarizer fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const report = await backend.consolidate({
+      summarize: async () => { throw new Error('rate limited'); },
+    });
+    warn.mockRestore();
+
+    expect(report).toEqual({ groups: [], removed: 0 });
+    expect(await backend.list()).toHaveLength(5);
+  });
+});
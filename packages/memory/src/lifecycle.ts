@@ -0,0 +1,299 @@
+/**
+ * Memory lifecycle — expiry, usage tracking, duplicate detection and the
+ * audit log.
+ *
+ * An entry expires when its `expiresAt` metadata (an ISO timestamp) has
+ * passed: recall and list stop returning it at once, and prune deletes it.
+ * Entries the user pinned (`pinned: true` metadata) never expire and are
+ * never merged.
+ * Recall counts how often each entry is returned, in `memory_access`, for
+ * usage-weighted scoring.
+ *
+ * Consolidation looks for conversation summaries whose embeddings are
+ * near-duplicates. Entries are only compared within one namespace (the part
+ * of the key before `conv:`), so one user's summaries are never merged
+ * into another's. Every entry prune or consolidation removes is copied to
+ * `memory_audit` first.
+ */
+
+import type Database from 'better-sqlite3';
+import type { MemoryAuditEntry } from '@ch4p/core';
+import { MemoryError } from '@ch4p/core';
+import type { MemorySignals } from './hybrid-merge.js';
+import { blobToEmbedding, cosineSimilarity } from './vector.js';
+
+/** A stored entry as consolidation sees it. */
+export interface LifecycleEntry {
+  key: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+/** SQL condition matching pinned entries; JSON true extracts as 1. */
+const PINNED_SQL = "json_extract(metadata, '$.pinned') IS 1";
+
+/** SQL condition matching entries that have not expired; binds the current ISO time. */
+export const NOT_EXPIRED_SQL =
+  `(json_extract(metadata, '$.expiresAt') IS NULL OR json_extract(metadata, '$.expiresAt') > ? OR ${PINNED_SQL})`;
+
+/** Metadata type written by the auto-summarize hook. */
+const SUMMARY_TYPE = 'conversation_summary';
+/** Newest summaries compared per namespace; comparison is quadratic. */
+const MAX_CANDIDATES = 1_000;
+
+export class MemoryLifecycle {
+  private readonly db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_access (
+        key TEXT PRIMARY KEY,
+        count INTEGER NOT NULL,
+        accessed_at TEXT NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS memory_access_ad AFTER DELETE ON memories BEGIN
+        DELETE FROM memory_access WHERE key = old.key;
+      END;
+
+      CREATE TABLE IF NOT EXISTS memory_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        key TEXT NOT NULL,
+        removed TEXT NOT NULL,
+        content TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memory_audit_key ON memory_audit(key);
+    `);
+  }
+
+  /**
+   * Look up age and usage for `keys`, and which of them have expired.
+   * Keys that no longer exist appear in neither.
+   */
+  inspect(keys: string[], now: Date): { signals: Map<string, MemorySignals>; expired: Set<string> } {
+    const signals = new Map<string, MemorySignals>();
+    const expired = new Set<string>();
+    if (keys.length === 0) return { signals, expired };
+
+    const placeholders = keys.map(() => '?').join(', ');
+    const rows = this.db.prepare(`
+      SELECT m.key, m.updated_at, json_extract(m.metadata, '$.expiresAt') AS expires_at,
+        json_extract(m.metadata, '$.pinned') AS pinned, a.count
+      FROM memories m LEFT JOIN memory_access a ON a.key = m.key
+      WHERE m.key IN (${placeholders})
+    `).all(...keys) as Array<{
+      key: string;
+      updated_at: string;
+      expires_at: unknown;
+      pinned: unknown;
+      count: number | null;
+    }>;
+
+    const nowIso = now.toISOString();
+    for (const row of rows) {
+      if (typeof row.expires_at === 'string' && row.expires_at <= nowIso && row.pinned !== 1) {
+        expired.add(row.key);
+        continue;
+      }
+      signals.set(row.key, {
+        updatedAt: Date.parse(row.updated_at),
+        accessCount: row.count ?? 0,
+      });
+    }
+    return { signals, expired };
+  }
+
+  /** Count one recall of each key. */
+  recordAccess(keys: string[], now: Date): void {
+    if (keys.length === 0) return;
+    const stmt = this.db.prepare(`
+      INSERT INTO memory_access (key, count, accessed_at) VALUES (?, 1, ?)
+      ON CONFLICT(key) DO UPDATE SET count = count + 1, accessed_at = excluded.accessed_at
+    `);
+    const at = now.toISOString();
+    this.db.transaction(() => {
+      for (const key of keys) stmt.run(key, at);
+    })();
+  }
+
+  /** Move the recall counts of `from` onto `into`. */
+  mergeAccess(from: string[], into: string): void {
+    const others = from.filter((k) => k !== into);
+    if (others.length === 0) return;
+    const placeholders = others.map(() => '?').join(', ');
+    const row = this.db.prepare(`
+      SELECT SUM(count) AS total, MAX(accessed_at) AS last FROM memory_access WHERE key IN (${placeholders})
+    `).get(...others) as { total: number | null; last: string | null };
+    if (!row.total || !row.last) return;
+
+    this.db.prepare(`
+      INSERT INTO memory_access (key, count, accessed_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        count = count + excluded.count,
+        accessed_at = MAX(accessed_at, excluded.accessed_at)
+    `).run(into, row.total, row.last);
+  }
+
+  /** Entries whose expiry has passed, oldest expiry first. */
+  expiredEntries(now: Date): LifecycleEntry[] {
+    const rows = this.db.prepare(`
+      SELECT key, content, metadata, updated_at FROM memories
+      WHERE json_extract(metadata, '$.expiresAt') <= ? AND NOT ${PINNED_SQL}
+      ORDER BY json_extract(metadata, '$.expiresAt')
+    `).all(now.toISOString()) as EntryRow[];
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Group near-duplicate conversation summaries. Each group is seeded by
+   * its oldest entry and holds every later entry at least `similarity`
+   * alike to it, oldest first. Entries without an embedding, and pinned
+   * entries, are skipped.
+   */
+  duplicateGroups(similarity: number, keyPrefix?: string): LifecycleEntry[][] {
+    let sql = `
+      SELECT key, content, metadata, updated_at, embedding FROM memories
+      WHERE embedding IS NOT NULL AND json_extract(metadata, '$.type') = ?
+        AND NOT ${PINNED_SQL}
+    `;
+    const params: unknown[] = [SUMMARY_TYPE];
+    if (keyPrefix) {
+      sql += ' AND key LIKE ?';
+      params.push(`${keyPrefix}%`);
+    }
+    sql += ' ORDER BY updated_at, key';
+    const rows = this.db.prepare(sql).all(...params) as Array<EntryRow & { embedding: Buffer }>;
+
+    const byNamespace = new Map<string, Array<EntryRow & { embedding: Buffer }>>();
+    for (const row of rows) {
+      if (keyPrefix && !row.key.startsWith(keyPrefix)) continue;
+      const ns = namespaceOf(row.key);
+      let list = byNamespace.get(ns);
+      if (!list) byNamespace.set(ns, list = []);
+      list.push(row);
+    }
+
+    const groups: LifecycleEntry[][] = [];
+    for (const list of byNamespace.values()) {
+      const candidates = list.slice(-MAX_CANDIDATES);
+      const vectors = candidates.map((r) => blobToEmbedding(r.embedding));
+      const grouped = new Array<boolean>(candidates.length).fill(false);
+
+      for (let i = 0; i < candidates.length; i++) {
+        if (grouped[i]) continue;
+        const members = [i];
+        for (let j = i + 1; j < candidates.length; j++) {
+          if (grouped[j] || vectors[j]!.length !== vectors[i]!.length) continue;
+          if (cosineSimilarity(vectors[i]!, vectors[j]!) >= similarity) {
+            members.push(j);
+            grouped[j] = true;
+          }
+        }
+        if (members.length > 1) groups.push(members.map((m) => toEntry(candidates[m]!)));
+      }
+    }
+    return groups;
+  }
+
+  /** Append an audit entry. */
+  record(
+    action: MemoryAuditEntry['action'],
+    key: string,
+    removed: LifecycleEntry[],
+    content?: string,
+  ): void {
+    this.db.prepare(`
+      INSERT INTO memory_audit (action, key, removed, content, created_at) VALUES (?, ?, ?, ?, ?)
+    `).run(
+      action,
+      key,
+      JSON.stringify(removed.map((e) => ({ key: e.key, content: e.content, metadata: e.metadata }))),
+      content ?? null,
+      new Date().toISOString(),
+    );
+  }
+
+  /** Audit entries, newest first, optionally only those for one key. */
+  auditLog(opts: { limit?: number; key?: string } = {}): MemoryAuditEntry[] {
+    let sql = 'SELECT id, action, key, removed, content, created_at FROM memory_audit';
+    const params: unknown[] = [];
+    if (opts.key) {
+      // A merge is filed under the key it wrote; find it by the keys it removed too.
+      sql += ' WHERE key = ? OR EXISTS (SELECT 1 FROM json_each(removed) WHERE json_extract(value, \'$.key\') = ?)';
+      params.push(opts.key, opts.key);
+    }
+    sql += ' ORDER BY id DESC LIMIT ?';
+    params.push(opts.limit ?? 50);
+
+    const rows = this.db.prepare(sql).all(...params) as Array<{
+      id: number;
+      action: MemoryAuditEntry['action'];
+      key: string;
+      removed: string;
+      content: string | null;
+      created_at: string;
+    }>;
+    return rows.map((row) => ({
+      id: row.id,
+      action: row.action,
+      key: row.key,
+      removed: JSON.parse(row.removed) as MemoryAuditEntry['removed'],
+      ...(row.content !== null ? { content: row.content } : {}),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface EntryRow {
+  key: string;
+  content: string;
+  metadata: string | null;
+  updated_at: string;
+}
+
+function toEntry(row: EntryRow): LifecycleEntry {
+  return {
+    key: row.key,
+    content: row.content,
+    metadata: row.metadata ? JSON.parse(row.metadata) as Record<string, unknown> : undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/** `u:telegram:42:conv:...` → `u:telegram:42:`; unprefixed keys share ''. */
+function namespaceOf(key: string): string {
+  const idx = key.indexOf('conv:');
+  return idx > 0 ? key.slice(0, idx) : '';
+}
+
+/**
+ * Store `expiresAt` as an ISO string whatever form it was given in (Date,
+ * epoch ms or any parseable string), so expiry compares correctly in SQL.
+ */
+export function normalizeExpiry(
+  metadata: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  const value = metadata?.['expiresAt'];
+  if (value === undefined || value === null) return metadata;
+
+  const time = value instanceof Date ? value.getTime()
+    : typeof value === 'number' ? value
+    : typeof value === 'string' ? Date.parse(value)
+    : NaN;
+  if (Number.isNaN(time)) {
+    throw new MemoryError('expiresAt must be a date, a timestamp in ms, or an ISO 8601 string', {
+      expiresAt: value,
+    });
+  }
+  return { ...metadata, expiresAt: new Date(time).toISOString() };
+}
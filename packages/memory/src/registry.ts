@@ -46,10 +46,18 @@ export interface MemoryConfig {
   ollamaEmbeddingModel?: string;
   /** Maximum embedding cache entries (default: 10,000) */
   maxCacheEntries?: number;
+  /** Embeddings a vector search must cover before it uses the ANN index (default: 5,000) */
+  annMinEntries?: number;
   /** Default vector weight for hybrid search (default: 0.7) */
   vectorWeight?: number;
   /** Default keyword weight for hybrid search (default: 0.3) */
   keywordWeight?: number;
+  /** Default recency weight for recall scoring (default: 0) */
+  recencyWeight?: number;
+  /** Default recency half-life in days (default: 30) */
+  halfLifeDays?: number;
+  /** Default usage weight for recall scoring (default: 0) */
+  usageWeight?: number;
 }
 
 /**
@@ -155,6 +163,10 @@ function createSQLiteBackend(config: MemoryConfig): SQLiteMemoryBackend {
     dbPath,
     embeddingProvider,
     maxCacheEntries: config.maxCacheEntries,
+    annMinEntries: config.annMinEntries,
+    recencyWeight: config.recencyWeight,
+    halfLifeDays: config.halfLifeDays,
+    usageWeight: config.usageWeight,
   });
 }
 
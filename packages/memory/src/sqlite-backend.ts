@@ -3,18 +3,35 @@
  *
  * Combines FTS5 (BM25 keyword search) with vector embeddings (cosine similarity)
  * in a single SQLite database. Zero external dependencies beyond better-sqlite3.
+ * Large stores are vector-searched through an HNSW index (see vector.ts).
+ * Expiry, usage tracking and consolidation are handled by lifecycle.ts,
+ * structured entity facts by entities.ts.
  */
 
 import { mkdirSync } from 'node:fs';
 import { dirname } from 'node:path';
 import Database from 'better-sqlite3';
 import { generateId, MemoryError } from '@ch4p/core';
-import type { IMemoryBackend, RecallOpts, MemoryResult, MemoryEntry } from '@ch4p/core';
+import type {
+  IMemoryBackend,
+  RecallOpts,
+  MemoryResult,
+  MemoryEntry,
+  MemoryAuditEntry,
+  ConsolidateOpts,
+  ConsolidationReport,
+  EntityFact,
+  EntityFactResult,
+  EntityOpts,
+  EntityProfile,
+} from '@ch4p/core';
 import type { IEmbeddingProvider } from './embedding-provider.js';
 import { FTSSearch } from './fts.js';
 import { VectorSearch, embeddingToBlob } from './vector.js';
 import { hybridMerge } from './hybrid-merge.js';
 import { EmbeddingCache } from './embedding-cache.js';
+import { MemoryLifecycle, NOT_EXPIRED_SQL, normalizeExpiry } from './lifecycle.js';
+import { EntityStore } from './entities.js';
 
 export interface SQLiteBackendOpts {
   /** Path to the SQLite database file */
@@ -23,6 +40,14 @@ export interface SQLiteBackendOpts {
   embeddingProvider?: IEmbeddingProvider;
   /** Maximum embedding cache entries (default: 10,000) */
   maxCacheEntries?: number;
+  /** Embeddings a vector search must cover before it uses the ANN index (default: 5,000) */
+  annMinEntries?: number;
+  /** Default recency weight for recall scoring (default: 0) */
+  recencyWeight?: number;
+  /** Default recency half-life in days (default: 30) */
+  halfLifeDays?: number;
+  /** Default usage weight for recall scoring (default: 0) */
+  usageWeight?: number;
 }
 
 export class SQLiteMemoryBackend implements IMemoryBackend {
@@ -33,6 +58,11 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
   private readonly fts: FTSSearch;
   private readonly vector: VectorSearch;
   private readonly cache: EmbeddingCache;
+  private readonly lifecycle: MemoryLifecycle;
+  private readonly entities: EntityStore;
+  private readonly recencyWeight: number;
+  private readonly halfLifeDays: number;
+  private readonly usageWeight: number;
   private closed = false;
 
   constructor(opts: SQLiteBackendOpts) {
@@ -42,6 +72,9 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
 
     this.db = new Database(opts.dbPath);
     this.embeddingProvider = opts.embeddingProvider;
+    this.recencyWeight = opts.recencyWeight ?? 0;
+    this.halfLifeDays = opts.halfLifeDays ?? 30;
+    this.usageWeight = opts.usageWeight ?? 0;
 
     // Enable WAL mode for better concurrent read performance
     this.db.pragma('journal_mode = WAL');
@@ -60,15 +93,18 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
 
     // Initialize search modules
     this.fts = new FTSSearch(this.db);
-    this.vector = new VectorSearch(this.db);
+    this.vector = new VectorSearch(this.db, { annMinEntries: opts.annMinEntries });
     this.cache = new EmbeddingCache(this.db, {
       maxEntries: opts.maxCacheEntries,
     });
+    this.lifecycle = new MemoryLifecycle(this.db);
+    this.entities = new EntityStore(this.db);
   }
 
   /**
    * Store a memory, computing embeddings if a provider is available.
-   * Upserts on key conflict.
+   * Upserts on key conflict. An `expiresAt` metadata field makes the entry
+   * expire at that time.
    */
   async store(
     key: string,
@@ -79,7 +115,8 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
 
     const now = new Date().toISOString();
     const id = generateId();
-    const metaJson = metadata ? JSON.stringify(metadata) : null;
+    const normalized = normalizeExpiry(metadata);
+    const metaJson = normalized ? JSON.stringify(normalized) : null;
 
     // Compute embedding if provider is available
     let embeddingBlob: Buffer | null = null;
@@ -108,10 +145,13 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
         embedding = excluded.embedding,
         updated_at = excluded.updated_at
     `).run(id, key, content, metaJson, embeddingBlob, now, now);
+
+    this.updateVectorIndex(() => this.vector.upsert(key));
   }
 
   /**
-   * Recall memories using hybrid search (FTS5 + vector).
+   * Recall memories using hybrid search (FTS5 + vector). Expired entries
+   * are left out, and each entry returned has its recall count bumped.
    */
   async recall(query: string, opts: RecallOpts = {}): Promise<MemoryResult[]> {
     this.assertOpen();
@@ -140,11 +180,22 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
       }
     }
 
+    // Drop expired entries and look up age and usage for scoring
+    const now = new Date();
+    const candidateKeys = [...new Set([...ftsResults, ...vectorResults].map((r) => r.key))];
+    const { signals, expired } = this.lifecycle.inspect(candidateKeys, now);
+    const live = (r: { key: string }) => !expired.has(r.key);
+
     // Merge results
-    let results = hybridMerge(ftsResults, vectorResults, {
+    let results = hybridMerge(ftsResults.filter(live), vectorResults.filter(live), {
       vectorWeight,
       keywordWeight,
       limit,
+      recencyWeight: opts.recencyWeight ?? this.recencyWeight,
+      halfLifeDays: opts.halfLifeDays ?? this.halfLifeDays,
+      usageWeight: opts.usageWeight ?? this.usageWeight,
+      signals,
+      now: now.getTime(),
     });
 
     // Apply minimum score filter
@@ -157,6 +208,8 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
       results = this.applyMetadataFilter(results, opts.filter);
     }
 
+    this.lifecycle.recordAccess(results.map((r) => r.key), now);
+
     // Enrich results with metadata
     return this.enrichWithMetadata(results);
   }
@@ -167,6 +220,7 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
   async forget(key: string): Promise<boolean> {
     this.assertOpen();
 
+    this.updateVectorIndex(() => this.vector.remove(key));
     const result = this.db.prepare(
       'DELETE FROM memories WHERE key = ?',
     ).run(key);
@@ -175,7 +229,7 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
   }
 
   /**
-   * List all memories, optionally filtered by key prefix.
+   * List all unexpired memories, optionally filtered by key prefix.
    */
   async list(prefix?: string): Promise<MemoryEntry[]> {
     this.assertOpen();
@@ -188,19 +242,21 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
       updated_at: string;
     }>;
 
+    const now = new Date().toISOString();
     if (prefix) {
       rows = this.db.prepare(`
         SELECT key, content, metadata, created_at, updated_at
         FROM memories
-        WHERE key LIKE ?
+        WHERE key LIKE ? AND ${NOT_EXPIRED_SQL}
         ORDER BY key
-      `).all(`${prefix}%`) as typeof rows;
+      `).all(`${prefix}%`, now) as typeof rows;
     } else {
       rows = this.db.prepare(`
         SELECT key, content, metadata, created_at, updated_at
         FROM memories
+        WHERE ${NOT_EXPIRED_SQL}
         ORDER BY key
-      `).all() as typeof rows;
+      `).all(now) as typeof rows;
     }
 
     return rows.map((row) => ({
@@ -262,10 +318,117 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
       }
     }
 
+    // Rebuild the ANN index over the new embeddings
+    this.updateVectorIndex(() => this.vector.rebuild());
+
     // Prune embedding cache
     this.cache.prune();
   }
 
+  /**
+   * Delete expired memories. Each one is copied to the audit log first.
+   */
+  async prune(): Promise<string[]> {
+    this.assertOpen();
+
+    const expired = this.lifecycle.expiredEntries(new Date());
+    for (const entry of expired) {
+      this.lifecycle.record('expire', entry.key, [entry]);
+      await this.forget(entry.key);
+    }
+    return expired.map((e) => e.key);
+  }
+
+  /**
+   * Merge near-duplicate conversation summaries (see lifecycle.ts). Each
+   * group is rewritten under its newest key, with the summarizer's merge
+   * of the group as content, and the other entries are forgotten. A group
+   * the summarizer fails on is left alone.
+   */
+  async consolidate(opts: ConsolidateOpts = {}): Promise<ConsolidationReport> {
+    this.assertOpen();
+
+    const groups = this.lifecycle.duplicateGroups(opts.similarity ?? 0.9, opts.keyPrefix);
+    const report: ConsolidationReport = { groups: [], removed: 0 };
+
+    for (const group of groups) {
+      const newest = group[group.length - 1]!;
+      const merged = group.filter((e) => e !== newest).map((e) => e.key);
+      if (opts.dryRun) {
+        report.groups.push({ key: newest.key, merged });
+        continue;
+      }
+
+      let content = newest.content;
+      if (opts.summarize) {
+        try {
+          content = (await opts.summarize(group.map((e) => e.content))).trim();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.warn(`[memory] Consolidation of "${newest.key}" failed: ${message}`);
+          continue;
+        }
+        if (!content) continue;
+      }
+
+      // Keep an expiry only if every merged entry had one; use the latest.
+      const expiries = group.map((e) => e.metadata?.['expiresAt']);
+      const metadata: Record<string, unknown> = {
+        ...newest.metadata,
+        // Count original summaries, including those merged on earlier runs.
+        mergedFrom: group.reduce((n, e) => n + (typeof e.metadata?.['mergedFrom'] === 'number' ? e.metadata['mergedFrom'] : 1), 0),
+        mergedAt: new Date().toISOString(),
+      };
+      delete metadata['expiresAt'];
+      if (expiries.every((x) => typeof x === 'string')) {
+        metadata['expiresAt'] = (expiries as string[]).sort().pop();
+      }
+
+      this.lifecycle.record('merge', newest.key, group, content);
+      await this.store(newest.key, content, metadata);
+      this.lifecycle.mergeAccess(merged, newest.key);
+      for (const key of merged) await this.forget(key);
+
+      report.groups.push({ key: newest.key, merged });
+      report.removed += merged.length;
+    }
+    return report;
+  }
+
+  /**
+   * Entries removed or merged by prune and consolidate, newest first.
+   */
+  async auditLog(opts: { limit?: number; key?: string } = {}): Promise<MemoryAuditEntry[]> {
+    this.assertOpen();
+    return this.lifecycle.auditLog(opts);
+  }
+
+  /**
+   * Assert or retract a structured fact. A different value for an
+   * attribute supersedes the current one, which stays in the history.
+   */
+  async upsertFact(fact: EntityFact, opts: EntityOpts = {}): Promise<EntityFactResult> {
+    this.assertOpen();
+    return this.entities.upsert(fact, opts.namespace ?? '', new Date());
+  }
+
+  /**
+   * An entity's current attributes and relations, with replaced facts when
+   * `history` is set.
+   */
+  async getEntity(name: string, opts: EntityOpts & { history?: boolean } = {}): Promise<EntityProfile | null> {
+    this.assertOpen();
+    return this.entities.get(name, opts.namespace ?? '', opts.history);
+  }
+
+  /**
+   * Entities whose names appear in `text` (default limit: 5).
+   */
+  async findEntities(text: string, opts: EntityOpts & { limit?: number } = {}): Promise<EntityProfile[]> {
+    this.assertOpen();
+    return this.entities.find(text, opts.namespace ?? '', opts.limit ?? 5);
+  }
+
   /**
    * Close the SQLite connection.
    */
@@ -325,6 +488,19 @@ export class SQLiteMemoryBackend implements IMemoryBackend {
     `);
   }
 
+  /**
+   * Apply a vector index update. A failure only costs search speed until
+   * the next reindex, so it is logged rather than thrown.
+   */
+  private updateVectorIndex(update: () => void): void {
+    try {
+      update();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`[memory] Vector index update failed: ${message}`);
+    }
+  }
+
   /**
    * Get an embedding from cache or compute it via the provider.
    */
@@ -150,3 +150,95 @@ describe('VectorSearch.search — keyPrefix namespace isolation', () => {
     expect(results.length).toBe(0);
   });
 });
+
+// ---------------------------------------------------------------------------
+// VectorSearch — approximate (HNSW) search
+// ---------------------------------------------------------------------------
+
+/** Deterministic embeddings around a few directions, like real topics. */
+function clusteredEmbeddings(count: number, dims: number): number[][] {
+  let state = 42;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  const centres = Array.from({ length: 4 }, () => Array.from({ length: dims }, next));
+  return Array.from({ length: count }, (_, i) => centres[i % 4]!.map((c) => c + next() * 0.5));
+}
+
+function indexedRows(db: Database.Database): number {
+  return (db.prepare('SELECT COUNT(*) AS n FROM memory_vector_index').get() as { n: number }).n;
+}
+
+describe('VectorSearch — approximate search', () => {
+  const embeddings = clusteredEmbeddings(60, 8);
+  let db: Database.Database;
+  let vector: VectorSearch;
+
+  function store(key: string, embedding: number[]): void {
+    insertVectorRow(db, key, `content ${key}`, embedding);
+    vector.upsert(key);
+  }
+
+  function exactKeys(query: Float32Array, limit: number, keyPrefix?: string): string[] {
+    return new VectorSearch(db, { annMinEntries: Infinity })
+      .search(query, limit, 0, keyPrefix)
+      .map((r) => r.key);
+  }
+
+  beforeEach(() => {
+    db = createVectorTestDb();
+    vector = new VectorSearch(db, { annMinEntries: 10 });
+    embeddings.forEach((e, i) => store(`${i % 2 === 0 ? 'even' : 'odd'}:${i}`, e));
+  });
+
+  it('indexes stored embeddings and matches exact search', () => {
+    expect(indexedRows(db)).toBe(60);
+    const query = new Float32Array(embeddings[5]!);
+    expect(vector.search(query, 5).map((r) => r.key)).toEqual(exactKeys(query, 5));
+  });
+
+  it('scopes approximate results to a key prefix', () => {
+    const query = new Float32Array(embeddings[3]!);
+    const results = vector.search(query, 5, 0, 'even:');
+    expect(results).toHaveLength(5);
+    expect(results.every((r) => r.key.startsWith('even:'))).toBe(true);
+    expect(results.map((r) => r.key)).toEqual(exactKeys(query, 5, 'even:'));
+  });
+
+  it('reloads the persisted graph in a new instance', () => {
+    const reopened = new VectorSearch(db, { annMinEntries: 10 });
+    const query = new Float32Array(embeddings[8]!);
+    expect(reopened.search(query, 5)).toEqual(vector.search(query, 5));
+  });
+
+  it('drops nodes for removed memories', () => {
+    vector.remove('even:0');
+    db.prepare('DELETE FROM memories WHERE key = ?').run('even:0');
+
+    expect(indexedRows(db)).toBe(59);
+    const results = vector.search(new Float32Array(embeddings[0]!), 5);
+    expect(results.map((r) => r.key)).not.toContain('even:0');
+  });
+
+  it('indexes embeddings stored before the index existed', () => {
+    db.exec('DELETE FROM memory_vector_index');
+    const fresh = new VectorSearch(db, { annMinEntries: 10 });
+
+    const query = new Float32Array(embeddings[1]!);
+    expect(fresh.search(query, 5).map((r) => r.key)).toEqual(exactKeys(query, 5));
+    expect(indexedRows(db)).toBe(60);
+  });
+
+  it('rebuilds the whole graph', () => {
+    db.exec('DELETE FROM memory_vector_index');
+    vector.rebuild();
+    expect(indexedRows(db)).toBe(60);
+  });
+
+  it('falls back to exact search for small namespaces', () => {
+    store('tiny:1', embeddings[0]!);
+    const results = vector.search(new Float32Array(embeddings[0]!), 5, 0, 'tiny:');
+    expect(results.map((r) => r.key)).toEqual(['tiny:1']);
+  });
+});
@@ -1,11 +1,19 @@
 /**
  * Vector storage + cosine similarity search.
  *
- * Stores float32 embeddings as BLOBs in SQLite and performs brute-force
- * cosine similarity search. Sufficient for up to ~100k memories.
+ * Stores float32 embeddings as BLOBs in SQLite. Small stores are searched
+ * by brute-force cosine similarity. Once a store (or the namespace being
+ * searched) holds `annMinEntries` embeddings, search walks an HNSW graph
+ * instead and reranks its candidates exactly.
+ *
+ * The graph's links are kept in the `memory_vector_index` table, one row per
+ * memory, and updated as memories are stored and forgotten. Embeddings
+ * stored before the table existed are added a few at a time on later calls,
+ * or all at once by `rebuild()`; exact search covers the store until then.
  */
 
 import type Database from 'better-sqlite3';
+import { HNSWIndex } from './hnsw.js';
 
 export interface VectorResult {
   key: string;
@@ -13,11 +21,43 @@ export interface VectorResult {
   score: number;
 }
 
+export interface VectorSearchOpts {
+  /** Embeddings a search must cover before the ANN index is used (default 5,000). */
+  annMinEntries?: number;
+}
+
+const DEFAULT_ANN_MIN_ENTRIES = 5_000;
+/** Candidates taken from the graph before exact reranking. */
+const ANN_EF_SEARCH = 100;
+/** Time per call spent indexing embeddings the graph doesn't have yet. */
+const CATCH_UP_BUDGET_MS = 50;
+
 export class VectorSearch {
   private readonly db: Database.Database;
+  private readonly annMinEntries: number;
+  private index: HNSWIndex | null = null;
+  /** Memory key per node, for namespace filtering. */
+  private readonly keys = new Map<number, string>();
+  /** Embedded memories the graph doesn't have yet. */
+  private pending: number[] = [];
+  /** PRAGMA data_version when the graph was loaded; changes on other connections' commits. */
+  private dataVersion = -1;
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, opts: VectorSearchOpts = {}) {
     this.db = db;
+    this.annMinEntries = opts.annMinEntries ?? DEFAULT_ANN_MIN_ENTRIES;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_vector_index (
+        memory_rowid INTEGER PRIMARY KEY,
+        level INTEGER NOT NULL,
+        links BLOB NOT NULL
+      );
+
+      CREATE TRIGGER IF NOT EXISTS memory_vector_index_ad AFTER DELETE ON memories BEGIN
+        DELETE FROM memory_vector_index WHERE memory_rowid = old.rowid;
+      END;
+    `);
   }
 
   /**
@@ -30,6 +70,118 @@ export class VectorSearch {
    * @returns Scored results sorted by similarity (higher = more similar)
    */
   search(queryEmbedding: Float32Array, limit = 20, minScore = 0.0, keyPrefix?: string): VectorResult[] {
+    const candidates = this.annCandidates(queryEmbedding, limit, keyPrefix);
+    if (candidates) return this.rerank(candidates, queryEmbedding, limit, minScore);
+    return this.exactSearch(queryEmbedding, limit, minScore, keyPrefix);
+  }
+
+  /** Add or refresh the memory's node after its embedding was written. */
+  upsert(key: string): void {
+    const index = this.load();
+    const row = this.db.prepare(
+      'SELECT rowid AS id, embedding FROM memories WHERE key = ?',
+    ).get(key) as { id: number; embedding: Buffer | null } | undefined;
+    if (!row) return;
+
+    const embedding = row.embedding ? blobToEmbedding(row.embedding) : null;
+    this.pending = this.pending.filter((id) => id !== row.id);
+    const others = index.size - (index.has(row.id) ? 1 : 0);
+    if (!embedding || (others > 0 && embedding.length !== index.dimensions)) {
+      // No embedding, or one of another dimension: drop any old node.
+      this.persist(index.remove(row.id), [row.id]);
+      this.keys.delete(row.id);
+      return;
+    }
+    this.keys.set(row.id, key);
+    this.persist(index.add(row.id, embedding));
+  }
+
+  /** Drop the memory's node. Call before deleting the memory. */
+  remove(key: string): void {
+    const index = this.load();
+    const row = this.db.prepare(
+      'SELECT rowid AS id FROM memories WHERE key = ?',
+    ).get(key) as { id: number } | undefined;
+    if (!row) return;
+
+    this.pending = this.pending.filter((id) => id !== row.id);
+    this.keys.delete(row.id);
+    this.persist(index.remove(row.id), [row.id]);
+  }
+
+  /** Rebuild the graph from every stored embedding. */
+  rebuild(): void {
+    const index = new HNSWIndex();
+    this.keys.clear();
+    this.pending = [];
+
+    const rows = this.db.prepare(
+      'SELECT rowid AS id, key, embedding FROM memories WHERE embedding IS NOT NULL',
+    ).iterate() as IterableIterator<{ id: number; key: string; embedding: Buffer }>;
+    for (const row of rows) {
+      const embedding = blobToEmbedding(row.embedding);
+      if (index.size > 0 && embedding.length !== index.dimensions) continue;
+      index.add(row.id, embedding);
+      this.keys.set(row.id, row.key);
+    }
+
+    const insert = this.db.prepare(
+      'INSERT INTO memory_vector_index (memory_rowid, level, links) VALUES (?, ?, ?)',
+    );
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM memory_vector_index').run();
+      for (const id of this.keys.keys()) {
+        const node = index.node(id)!;
+        insert.run(id, node.level, encodeLinks(node.links));
+      }
+    })();
+
+    this.index = index;
+    this.dataVersion = this.currentDataVersion();
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Ids of the likeliest matches from the graph, or null when the search
+   * should be exact: a small store or namespace, a graph still catching up,
+   * or a query of another dimension.
+   */
+  private annCandidates(query: Float32Array, limit: number, keyPrefix?: string): number[] | null {
+    const index = this.load();
+    this.catchUp(index);
+    if (this.pending.length > 0 || query.length !== index.dimensions) return null;
+
+    let covered = index.size;
+    if (keyPrefix) {
+      covered = 0;
+      for (const key of this.keys.values()) {
+        if (key.startsWith(keyPrefix)) covered++;
+      }
+    }
+    if (covered < this.annMinEntries) return null;
+
+    const accept = keyPrefix
+      ? (id: number) => this.keys.get(id)?.startsWith(keyPrefix) ?? false
+      : undefined;
+    const ef = Math.max(ANN_EF_SEARCH, limit * 2);
+    return index.search(query, ef, ef, accept).map((match) => match.id);
+  }
+
+  /** Score candidates against their stored embeddings. */
+  private rerank(ids: number[], query: Float32Array, limit: number, minScore: number): VectorResult[] {
+    if (ids.length === 0) return [];
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.db.prepare(
+      `SELECT key, content, embedding FROM memories WHERE rowid IN (${placeholders}) AND embedding IS NOT NULL`,
+    ).all(...ids) as Array<{ key: string; content: string; embedding: Buffer }>;
+    return scoreRows(rows, query, limit, minScore);
+  }
+
+  /** Brute-force scan of every embedding, optionally scoped to a key prefix. */
+  private exactSearch(query: Float32Array, limit: number, minScore: number, keyPrefix?: string): VectorResult[] {
     // Fetch memories that have embeddings, optionally scoped to a key prefix
     let sql = `SELECT key, content, embedding FROM memories WHERE embedding IS NOT NULL`;
     const params: unknown[] = [];
@@ -44,27 +196,140 @@ export class VectorSearch {
       content: string;
       embedding: Buffer;
     }>;
+    return scoreRows(rows, query, limit, minScore);
+  }
 
-    // Compute similarity scores
-    const scored: VectorResult[] = [];
+  /**
+   * The graph, loaded from `memory_vector_index` on first use and again
+   * whenever another connection has written to the database.
+   */
+  private load(): HNSWIndex {
+    const version = this.currentDataVersion();
+    if (this.index && version === this.dataVersion) return this.index;
+
+    const index = new HNSWIndex();
+    this.keys.clear();
+    this.pending = [];
+
+    const rows = this.db.prepare(`
+      SELECT m.rowid AS id, m.key, m.embedding, v.level, v.links
+      FROM memories m
+      LEFT JOIN memory_vector_index v ON v.memory_rowid = m.rowid
+      WHERE m.embedding IS NOT NULL
+    `).iterate() as IterableIterator<{
+      id: number;
+      key: string;
+      embedding: Buffer;
+      level: number | null;
+      links: Buffer | null;
+    }>;
     for (const row of rows) {
-      const stored = blobToEmbedding(row.embedding);
-      if (stored.length !== queryEmbedding.length) continue;
-
-      const score = cosineSimilarity(queryEmbedding, stored);
-      if (score >= minScore) {
-        scored.push({
-          key: row.key,
-          content: row.content,
-          score,
-        });
+      if (row.level === null || row.links === null) {
+        this.pending.push(row.id);
+        continue;
       }
+      const embedding = blobToEmbedding(row.embedding);
+      if (index.size > 0 && embedding.length !== index.dimensions) continue;
+      index.restore(row.id, embedding, { level: row.level, links: decodeLinks(row.links) });
+      this.keys.set(row.id, row.key);
+    }
+
+    this.index = index;
+    this.dataVersion = version;
+    return index;
+  }
+
+  /** Index pending embeddings until the time budget runs out. */
+  private catchUp(index: HNSWIndex): void {
+    if (this.pending.length === 0) return;
+    const select = this.db.prepare('SELECT key, embedding FROM memories WHERE rowid = ?');
+    const deadline = Date.now() + CATCH_UP_BUDGET_MS;
+    while (this.pending.length > 0 && Date.now() < deadline) {
+      const id = this.pending.pop()!;
+      const row = select.get(id) as { key: string; embedding: Buffer | null } | undefined;
+      if (!row?.embedding) continue;
+      const embedding = blobToEmbedding(row.embedding);
+      if (index.size > 0 && embedding.length !== index.dimensions) continue;
+      this.keys.set(id, row.key);
+      this.persist(index.add(id, embedding));
     }
+  }
 
-    // Sort descending by similarity, take top results
-    scored.sort((a, b) => b.score - a.score);
-    return scored.slice(0, limit);
+  /** Write changed nodes; `removed` ids lose their rows. */
+  private persist(changed: number[], removed: number[] = []): void {
+    const index = this.index;
+    if (!index) return;
+    const upsert = this.db.prepare(
+      'INSERT OR REPLACE INTO memory_vector_index (memory_rowid, level, links) VALUES (?, ?, ?)',
+    );
+    const remove = this.db.prepare('DELETE FROM memory_vector_index WHERE memory_rowid = ?');
+    this.db.transaction(() => {
+      for (const id of removed) remove.run(id);
+      for (const id of changed) {
+        const node = index.node(id);
+        if (node) upsert.run(id, node.level, encodeLinks(node.links));
+      }
+    })();
+    // Our own commits don't move data_version, but keep it current anyway.
+    this.dataVersion = this.currentDataVersion();
+  }
+
+  private currentDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+}
+
+/** Cosine-score rows against the query and keep the best `limit`. */
+function scoreRows(
+  rows: Array<{ key: string; content: string; embedding: Buffer }>,
+  query: Float32Array,
+  limit: number,
+  minScore: number,
+): VectorResult[] {
+  // Compute similarity scores
+  const scored: VectorResult[] = [];
+  for (const row of rows) {
+    const stored = blobToEmbedding(row.embedding);
+    if (stored.length !== query.length) continue;
+
+    const score = cosineSimilarity(query, stored);
+    if (score >= minScore) {
+      scored.push({
+        key: row.key,
+        content: row.content,
+        score,
+      });
+    }
+  }
+
+  // Sort descending by similarity, take top results
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, limit);
+}
+
+/** Encode per-layer links as float64s: each layer's count, then its ids. */
+function encodeLinks(links: number[][]): Buffer {
+  const values = new Float64Array(links.reduce((n, layer) => n + layer.length + 1, 0));
+  let i = 0;
+  for (const layer of links) {
+    values[i++] = layer.length;
+    for (const id of layer) values[i++] = id;
+  }
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength);
+}
+
+function decodeLinks(blob: Buffer): number[][] {
+  const aligned = new ArrayBuffer(blob.length);
+  new Uint8Array(aligned).set(blob);
+  const values = new Float64Array(aligned);
+  const links: number[][] = [];
+  let i = 0;
+  while (i < values.length) {
+    const count = values[i++]!;
+    links.push(Array.from(values.subarray(i, i + count)));
+    i += count;
   }
+  return links;
 }
 
 // ---------------------------------------------------------------------------
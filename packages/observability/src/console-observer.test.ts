@@ -189,6 +189,26 @@ describe('ConsoleObserver', () => {
         expect.stringContaining('LLM'),
       );
     });
+
+    it('shows the serving provider after a failover', () => {
+      const observer = new ConsoleObserver('debug');
+      observer.onLLMCall({
+        sessionId: 'sess-1',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        usage: { inputTokens: 100, outputTokens: 50 },
+        duration: 500,
+        finishReason: 'stop',
+        servedBy: 'ollama',
+        servedModel: 'llama3.3',
+      });
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        expect.stringContaining('served_by='),
+      );
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        expect.stringContaining('ollama/llama3.3'),
+      );
+    });
   });
 
   describe('onChannelMessage', () => {
@@ -59,6 +59,7 @@ const SECURITY_SEVERITY: Record<SecurityEvent['type'], 'low' | 'medium' | 'high'
   command_blocked: 'high',
   injection_detected: 'critical',
   pairing_attempt: 'high',
+  rate_limited: 'medium',
 };
 
 const SEVERITY_COLOR: Record<string, string> = {
@@ -167,9 +168,14 @@ export class ConsoleObserver implements IObserver {
       event.usage.cacheReadTokens !== undefined
         ? ` ${DIM}cache_read=${RESET}${event.usage.cacheReadTokens}`
         : '';
+    const served =
+      event.servedBy !== undefined && event.servedBy !== event.provider
+        ? ` ${DIM}served_by=${RESET}${event.servedBy}${event.servedModel ? `/${event.servedModel}` : ''}`
+        : '';
     console.log(
       `${DIM}${ts}${RESET} ${this.tag('LLM', FG.blue)} ${BOLD}${event.model}${RESET}` +
         ` ${DIM}provider=${RESET}${event.provider}` +
+        served +
         ` ${DIM}tokens=${RESET}${totalTokens} (${event.usage.inputTokens}/${event.usage.outputTokens})` +
         cache +
         cost +
@@ -169,6 +169,8 @@ export class FileObserver implements IObserver {
       usage: event.usage,
       duration: event.duration,
       finishReason: event.finishReason,
+      servedBy: event.servedBy,
+      servedModel: event.servedModel,
     });
   }
 
@@ -13,5 +13,11 @@ export type { FileObserverOptions } from './file-observer.js';
 export { MultiObserver } from './multi-observer.js';
 export { NoopObserver } from './noop-observer.js';
 
+export { OtelObserver } from './otel-observer.js';
+export type { OtelObserverOptions } from './otel-observer.js';
+
+export { MetricsObserver, formatPrometheus } from './metrics-observer.js';
+export type { MetricFamily, MetricLabels } from './metrics-observer.js';
+
 export { createObserver } from './registry.js';
 export type { ObservabilityConfig } from './registry.js';
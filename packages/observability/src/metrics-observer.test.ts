@@ -0,0 +1,61 @@
+import { MetricsObserver, formatPrometheus } from './metrics-observer.js';
+
+describe('MetricsObserver', () => {
+  it('counts LLM calls and tokens by the provider that served them', () => {
+    const observer = new MetricsObserver();
+    const call = {
+      sessionId: 's1',
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-6',
+      usage: { inputTokens: 100, outputTokens: 20 },
+      duration: 500,
+      finishReason: 'stop',
+    };
+    observer.onLLMCall(call);
+    observer.onLLMCall({ ...call, servedBy: 'ollama', servedModel: 'llama3.1' });
+    observer.onLLMCall(call);
+
+    const text = observer.render();
+    expect(text).toContain('# TYPE ch4p_llm_tokens_total counter');
+    expect(text).toContain('ch4p_llm_tokens_total{provider="anthropic",model="claude-sonnet-4-6",type="input"} 200');
+    expect(text).toContain('ch4p_llm_tokens_total{provider="ollama",model="llama3.1",type="output"} 20');
+    expect(text).toContain('ch4p_llm_calls_total{provider="anthropic",model="claude-sonnet-4-6"} 2');
+  });
+
+  it('counts channel messages, tool calls and errors', () => {
+    const observer = new MetricsObserver();
+    const msg = { channelId: 'telegram', direction: 'inbound' as const, messageLength: 5, timestamp: new Date() };
+    observer.onChannelMessage(msg);
+    observer.onChannelMessage(msg);
+    observer.onChannelMessage({ ...msg, direction: 'outbound' });
+    observer.onToolInvocation({ sessionId: 's1', tool: 'bash', args: {}, result: { success: false, output: '' }, duration: 1 });
+    observer.onError(new TypeError('x'), {});
+    observer.increment('supervisor_restarts_total', 'Channel restarts.', { channel: 'telegram' });
+
+    const text = observer.render();
+    expect(text).toContain('ch4p_channel_messages_total{channel="telegram",direction="inbound"} 2');
+    expect(text).toContain('ch4p_channel_messages_total{channel="telegram",direction="outbound"} 1');
+    expect(text).toContain('ch4p_tool_calls_total{tool="bash",status="error"} 1');
+    expect(text).toContain('ch4p_errors_total{type="TypeError"} 1');
+    expect(text).toContain('ch4p_supervisor_restarts_total{channel="telegram"} 1');
+  });
+
+  it('renders caller gauges before counters', () => {
+    const observer = new MetricsObserver();
+    observer.onSessionStart({ sessionId: 's1', engineId: 'native', startedAt: new Date() });
+
+    const text = observer.render([
+      { name: 'sessions_active', help: 'Active sessions.', type: 'gauge', samples: [{ value: 3 }] },
+    ]);
+    expect(text.indexOf('ch4p_sessions_active 3')).toBeLessThan(text.indexOf('ch4p_agent_runs_total 1'));
+  });
+});
+
+describe('formatPrometheus', () => {
+  it('escapes label values', () => {
+    const text = formatPrometheus([
+      { name: 'x', help: 'X.', type: 'gauge', samples: [{ labels: { path: 'a"b\\c\nd' }, value: Infinity }] },
+    ]);
+    expect(text).toBe('# HELP ch4p_x X.\n# TYPE ch4p_x gauge\nch4p_x{path="a\\"b\\\\c\\nd"} +Inf\n');
+  });
+});
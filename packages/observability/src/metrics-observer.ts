@@ -0,0 +1,159 @@
+/**
+ * MetricsObserver — in-process counters rendered in Prometheus text format.
+ *
+ * Counts the events it observes (runs, LLM calls and tokens, tool calls,
+ * channel messages, errors, security events) and renders them, together
+ * with point-in-time gauges supplied by the caller, for a scrape endpoint
+ * such as the gateway's GET /metrics. Nothing is exported on its own.
+ *
+ * Every metric name is prefixed with `ch4p_`.
+ */
+
+import type {
+  IObserver,
+  SessionMeta,
+  SessionStats,
+  ToolInvocationEvent,
+  LLMCallEvent,
+  ChannelMessageEvent,
+  SecurityEvent,
+} from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MetricLabels = Record<string, string>;
+
+/** One metric family with its current samples. */
+export interface MetricFamily {
+  /** Name without the `ch4p_` prefix, e.g. "sessions_active". */
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Array<{ labels?: MetricLabels; value: number }>;
+}
+
+interface Counter {
+  help: string;
+  values: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Render metric families in the Prometheus text exposition format (0.0.4). */
+export function formatPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    const name = `ch4p_${family.name}`;
+    lines.push(`# HELP ${name} ${family.help}`);
+    lines.push(`# TYPE ${name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// MetricsObserver
+// ---------------------------------------------------------------------------
+
+export class MetricsObserver implements IObserver {
+  private readonly counters = new Map<string, Counter>();
+
+  /**
+   * Add to a counter. Also used by hosts for events that do not go through
+   * IObserver, such as supervisor restarts.
+   */
+  increment(name: string, help: string, labels: MetricLabels = {}, by = 1): void {
+    let counter = this.counters.get(name);
+    if (!counter) {
+      counter = { help, values: new Map() };
+      this.counters.set(name, counter);
+    }
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    const entry = counter.values.get(key);
+    if (entry) {
+      entry.value += by;
+    } else {
+      counter.values.set(key, { labels, value: by });
+    }
+  }
+
+  /** Current counters as metric families. */
+  collect(): MetricFamily[] {
+    return [...this.counters.entries()].map(([name, counter]) => ({
+      name,
+      help: counter.help,
+      type: 'counter' as const,
+      samples: [...counter.values.values()],
+    }));
+  }
+
+  /** Counters plus the given gauges, in Prometheus text format. */
+  render(gauges: MetricFamily[] = []): string {
+    return formatPrometheus([...gauges, ...this.collect()]);
+  }
+
+  // ---- IObserver ----------------------------------------------------------
+
+  onSessionStart(meta: SessionMeta): void {
+    this.increment('agent_runs_total', 'Agent runs started.', meta.channelId ? { channel: meta.channelId } : {});
+  }
+
+  onSessionEnd(_meta: SessionMeta, stats: SessionStats): void {
+    if (stats.errors > 0) {
+      this.increment('agent_run_errors_total', 'Errors recorded during agent runs.', {}, stats.errors);
+    }
+  }
+
+  onToolInvocation(event: ToolInvocationEvent): void {
+    const failed = !!event.error || (event.result !== undefined && !event.result.success);
+    this.increment('tool_calls_total', 'Tool invocations.', { tool: event.tool, status: failed ? 'error' : 'ok' });
+  }
+
+  onLLMCall(event: LLMCallEvent): void {
+    const labels = { provider: event.servedBy ?? event.provider, model: event.servedModel ?? event.model };
+    this.increment('llm_calls_total', 'LLM calls.', labels);
+    this.increment('llm_tokens_total', 'LLM tokens used.', { ...labels, type: 'input' }, event.usage.inputTokens);
+    this.increment('llm_tokens_total', 'LLM tokens used.', { ...labels, type: 'output' }, event.usage.outputTokens);
+    if (event.usage.totalCost) {
+      this.increment('llm_cost_total', 'Reported LLM cost (USD).', labels, event.usage.totalCost);
+    }
+  }
+
+  onChannelMessage(event: ChannelMessageEvent): void {
+    this.increment('channel_messages_total', 'Channel messages received (inbound) and sent (outbound).', {
+      channel: event.channelId,
+      direction: event.direction,
+    });
+  }
+
+  onError(error: Error, _context: Record<string, unknown>): void {
+    this.increment('errors_total', 'Errors reported to the observer.', { type: error.name });
+  }
+
+  onSecurityEvent(event: SecurityEvent): void {
+    this.increment('security_events_total', 'Security events.', { type: event.type });
+  }
+}
@@ -0,0 +1,202 @@
+import { vi } from 'vitest';
+import { OtelObserver } from './otel-observer.js';
+import { createObserver } from './registry.js';
+import type { SessionMeta, SessionStats } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface Attr { key: string; value: Record<string, unknown> }
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  attributes: Attr[];
+  status: { code: number; message?: string };
+}
+interface DataPoint {
+  attributes: Attr[];
+  count?: string;
+  sum?: number;
+  asInt?: string;
+}
+interface Metric {
+  name: string;
+  histogram?: { dataPoints: DataPoint[] };
+  sum?: { isMonotonic: boolean; dataPoints: DataPoint[] };
+}
+
+const meta: SessionMeta = {
+  sessionId: 'sess-1',
+  engineId: 'native',
+  channelId: 'telegram',
+  userId: 'alice',
+  startedAt: new Date(),
+};
+
+const stats: SessionStats = {
+  duration: 1200,
+  toolInvocations: 1,
+  llmCalls: 1,
+  tokensUsed: { inputTokens: 100, outputTokens: 20 },
+  errors: 0,
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function requests(path: string): Array<Record<string, unknown>> {
+  return fetchMock.mock.calls
+    .filter(([url]) => String(url).endsWith(path))
+    .map(([, init]) => JSON.parse((init as RequestInit).body as string) as Record<string, unknown>);
+}
+
+function exportedSpans(): Span[] {
+  return requests('/v1/traces').flatMap((body) =>
+    (body.resourceSpans as Array<{ scopeSpans: Array<{ spans: Span[] }> }>)
+      .flatMap((rs) => rs.scopeSpans.flatMap((ss) => ss.spans)));
+}
+
+function attr(span: Span, key: string): unknown {
+  const value = span.attributes.find((a) => a.key === key)?.value;
+  return value ? Object.values(value)[0] : undefined;
+}
+
+function runOnce(observer: OtelObserver): void {
+  observer.onSessionStart(meta);
+  observer.onLLMCall({
+    sessionId: 'sess-1',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-6',
+    usage: { inputTokens: 100, outputTokens: 20 },
+    duration: 800,
+    finishReason: 'tool_use',
+  });
+  observer.onToolInvocation({
+    sessionId: 'sess-1',
+    tool: 'bash',
+    args: { command: 'ls' },
+    result: { success: false, output: '', error: 'exit 1' },
+    duration: 40,
+  });
+  observer.onSessionEnd(meta, stats);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('OtelObserver', () => {
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('exports a run span with nested LLM and tool spans', async () => {
+    const observer = new OtelObserver({ endpoint: 'http://collector:4318/' });
+    runOnce(observer);
+    await observer.flush();
+
+    expect(fetchMock).toHaveBeenCalledWith('http://collector:4318/v1/traces', expect.objectContaining({ method: 'POST' }));
+    const spans = exportedSpans();
+    const run = spans.find((s) => s.name === 'invoke_agent ch4p')!;
+    const chat = spans.find((s) => s.name === 'chat claude-sonnet-4-6')!;
+    const tool = spans.find((s) => s.name === 'execute_tool bash')!;
+
+    expect(run.parentSpanId).toBeUndefined();
+    for (const child of [chat, tool]) {
+      expect(child.traceId).toBe(run.traceId);
+      expect(child.parentSpanId).toBe(run.spanId);
+    }
+    expect(run.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(attr(run, 'gen_ai.conversation.id')).toBe('sess-1');
+    expect(attr(run, 'gen_ai.usage.input_tokens')).toBe('100');
+    expect(attr(chat, 'gen_ai.provider.name')).toBe('anthropic');
+    expect(attr(chat, 'gen_ai.usage.output_tokens')).toBe('20');
+    expect(attr(tool, 'gen_ai.tool.name')).toBe('bash');
+    expect(tool.status).toEqual({ code: 2, message: 'exit 1' });
+  });
+
+  it('attributes failed-over calls to the provider that served them', async () => {
+    const observer = new OtelObserver();
+    observer.onLLMCall({
+      sessionId: 'no-run',
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-6',
+      usage: { inputTokens: 1, outputTokens: 1 },
+      duration: 10,
+      finishReason: 'stop',
+      servedBy: 'ollama',
+      servedModel: 'llama3.1',
+    });
+    await observer.flush();
+
+    const [span] = exportedSpans();
+    expect(span!.parentSpanId).toBeUndefined();
+    expect(attr(span!, 'gen_ai.provider.name')).toBe('ollama');
+    expect(attr(span!, 'gen_ai.response.model')).toBe('llama3.1');
+    expect(attr(span!, 'ch4p.requested_provider')).toBe('anthropic');
+  });
+
+  it('exports cumulative token, latency and error metrics', async () => {
+    const observer = new OtelObserver();
+    runOnce(observer);
+    runOnce(observer);
+    observer.onError(new TypeError('boom'), { phase: 'engine_stream' });
+    await observer.flush();
+
+    const [body] = requests('/v1/metrics');
+    const metrics = (body!.resourceMetrics as Array<{ scopeMetrics: Array<{ metrics: Metric[] }> }>)[0]!
+      .scopeMetrics[0]!.metrics;
+    const points = (name: string) => {
+      const m = metrics.find((x) => x.name === name)!;
+      return (m.histogram ?? m.sum)!.dataPoints;
+    };
+
+    const input = points('gen_ai.client.token.usage')
+      .find((p) => p.attributes.some((a) => a.value.stringValue === 'input'));
+    expect(input).toMatchObject({ count: '2', sum: 200, min: 100, max: 100 });
+    expect(points('gen_ai.client.operation.duration')[0]).toMatchObject({ count: '2', sum: 1.6 });
+    expect(points('ch4p.tool.duration')[0]!.count).toBe('2');
+    expect(metrics.find((m) => m.name === 'ch4p.errors')!.sum).toMatchObject({ isMonotonic: true });
+    expect(points('ch4p.errors')[0]!.asInt).toBe('1');
+  });
+
+  it('keeps spans for the next export when the collector is down', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const observer = new OtelObserver();
+    runOnce(observer);
+    await observer.flush();
+    await observer.flush();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    await observer.flush();
+    expect(exportedSpans()).toHaveLength(3);
+  });
+
+  it('exports on its own after exportIntervalMs', async () => {
+    vi.useFakeTimers();
+    try {
+      const observer = new OtelObserver({ exportIntervalMs: 1000 });
+      runOnce(observer);
+      expect(fetchMock).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(exportedSpans()).toHaveLength(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('is created by the registry as "otel"', () => {
+    expect(createObserver({ observers: ['otel'], otel: { serviceName: 'test' } })).toBeInstanceOf(OtelObserver);
+  });
+});
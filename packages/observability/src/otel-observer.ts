@@ -0,0 +1,534 @@
+/**
+ * OtelObserver — OpenTelemetry traces and metrics over OTLP/HTTP (JSON).
+ *
+ * Each agent run becomes an `invoke_agent` span; the LLM calls and tool
+ * invocations made during the run become its children (`chat {model}` and
+ * `execute_tool {name}`). Attributes follow the OpenTelemetry GenAI
+ * semantic conventions (gen_ai.*). Token usage, call latency, tool latency
+ * and errors are also recorded as cumulative metrics.
+ *
+ * Spans are buffered and metrics aggregated in memory, then POSTed to
+ * `{endpoint}/v1/traces` and `{endpoint}/v1/metrics` within
+ * `exportIntervalMs` of being recorded, and on flush(). Uses the JSON encoding of OTLP, so no
+ * OpenTelemetry SDK is required; any OTLP/HTTP collector (otel-collector,
+ * Jaeger, Grafana Alloy/Tempo) can receive it.
+ *
+ * Default endpoint: $OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318
+ */
+
+import { randomBytes } from 'node:crypto';
+
+import type {
+  IObserver,
+  SessionMeta,
+  SessionStats,
+  ToolInvocationEvent,
+  LLMCallEvent,
+  ChannelMessageEvent,
+  SecurityEvent,
+} from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+export interface OtelObserverOptions {
+  /** OTLP/HTTP base URL; `/v1/traces` and `/v1/metrics` are appended. */
+  endpoint?: string;
+  /** Extra request headers, e.g. an auth token for a hosted collector. */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute (default "ch4p"). */
+  serviceName?: string;
+  /** Longest time recorded data waits before export, in ms (default 5000). */
+  exportIntervalMs?: number;
+  /** Per-request timeout in ms (default 3000). */
+  timeoutMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// OTLP JSON shapes (the subset we emit)
+// ---------------------------------------------------------------------------
+
+type AttrValue = string | number | boolean | string[];
+
+interface OtlpAttribute {
+  key: string;
+  value: Record<string, unknown>;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+/** A run span that has started but not ended yet. */
+interface OpenSpan {
+  traceId: string;
+  spanId: string;
+  name: string;
+  startMs: number;
+  attributes: Record<string, AttrValue | undefined>;
+}
+
+interface HistogramPoint {
+  attributes: Record<string, AttrValue>;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  buckets: number[];
+}
+
+interface Instrument {
+  name: string;
+  unit: string;
+  description: string;
+  kind: 'counter' | 'histogram';
+  bounds?: number[];
+  points: Map<string, HistogramPoint>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_UNSET = 0;
+const STATUS_ERROR = 2;
+const AGGREGATION_CUMULATIVE = 2;
+
+/** Most spans kept while the collector is unreachable; oldest are dropped. */
+const MAX_PENDING_SPANS = 2048;
+
+const SCOPE = { name: '@ch4p/observability', version: '0.3.4' };
+
+// Bucket bounds from the GenAI semantic conventions.
+const TOKEN_BOUNDS = [1, 4, 16, 64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216, 67108864];
+const DURATION_BOUNDS = [0.01, 0.02, 0.04, 0.08, 0.16, 0.32, 0.64, 1.28, 2.56, 5.12, 10.24, 20.48, 40.96, 81.92];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function hexId(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+function toNanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function toAttributes(attrs: Record<string, AttrValue | undefined>): OtlpAttribute[] {
+  const out: OtlpAttribute[] = [];
+  for (const [key, v] of Object.entries(attrs)) {
+    if (v === undefined) continue;
+    let value: Record<string, unknown>;
+    if (Array.isArray(v)) {
+      value = { arrayValue: { values: v.map((s) => ({ stringValue: s })) } };
+    } else if (typeof v === 'boolean') {
+      value = { boolValue: v };
+    } else if (typeof v === 'number') {
+      value = Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v };
+    } else {
+      value = { stringValue: v };
+    }
+    out.push({ key, value });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// OtelObserver
+// ---------------------------------------------------------------------------
+
+export class OtelObserver implements IObserver {
+  private readonly endpoint: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly resource: { attributes: OtlpAttribute[] };
+  private readonly startMs = Date.now();
+
+  /** Open run spans by session id. */
+  private readonly runs = new Map<string, OpenSpan>();
+  private pending: OtlpSpan[] = [];
+  private readonly instruments = new Map<string, Instrument>();
+  private metricsDirty = false;
+
+  private readonly exportIntervalMs: number;
+  private exportTimer: ReturnType<typeof setTimeout> | null = null;
+  private exporting: Promise<void> | null = null;
+  /** Warnings already logged ('down' or a rejected path), so each shows once. */
+  private readonly warned = new Set<string>();
+
+  constructor(opts: OtelObserverOptions = {}) {
+    const endpoint = opts.endpoint ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? 'http://localhost:4318';
+    this.endpoint = endpoint.replace(/\/+$/, '');
+    this.headers = { 'Content-Type': 'application/json', ...opts.headers };
+    this.timeoutMs = opts.timeoutMs ?? 3000;
+    this.resource = {
+      attributes: toAttributes({
+        'service.name': opts.serviceName ?? process.env.OTEL_SERVICE_NAME ?? 'ch4p',
+        'telemetry.sdk.name': 'ch4p',
+        'telemetry.sdk.language': 'nodejs',
+      }),
+    };
+    this.exportIntervalMs = opts.exportIntervalMs ?? 5000;
+  }
+
+  // ---- IObserver ----------------------------------------------------------
+
+  onSessionStart(meta: SessionMeta): void {
+    this.runs.set(meta.sessionId, {
+      traceId: hexId(16),
+      spanId: hexId(8),
+      name: 'invoke_agent ch4p',
+      startMs: meta.startedAt.getTime(),
+      attributes: {
+        'gen_ai.operation.name': 'invoke_agent',
+        'gen_ai.agent.name': 'ch4p',
+        'gen_ai.conversation.id': meta.sessionId,
+        'ch4p.engine.id': meta.engineId,
+        'ch4p.channel.id': meta.channelId,
+        'enduser.id': meta.userId,
+      },
+    });
+  }
+
+  onSessionEnd(meta: SessionMeta, stats: SessionStats): void {
+    const run = this.runs.get(meta.sessionId);
+    if (!run) return;
+    this.runs.delete(meta.sessionId);
+
+    this.pushSpan({
+      traceId: run.traceId,
+      spanId: run.spanId,
+      name: run.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toNanos(run.startMs),
+      endTimeUnixNano: toNanos(Date.now()),
+      attributes: toAttributes({
+        ...run.attributes,
+        'gen_ai.usage.input_tokens': stats.tokensUsed.inputTokens,
+        'gen_ai.usage.output_tokens': stats.tokensUsed.outputTokens,
+        'ch4p.llm_calls': stats.llmCalls,
+        'ch4p.tool_invocations': stats.toolInvocations,
+        'ch4p.errors': stats.errors,
+      }),
+      status: stats.errors > 0
+        ? { code: STATUS_ERROR, message: `${stats.errors} error(s)` }
+        : { code: STATUS_UNSET },
+    });
+  }
+
+  onLLMCall(event: LLMCallEvent): void {
+    const provider = event.servedBy ?? event.provider;
+    const model = event.servedModel ?? event.model;
+    const end = Date.now();
+
+    this.pushChild(event.sessionId, {
+      name: `chat ${event.model}`,
+      kind: SPAN_KIND_CLIENT,
+      startMs: end - event.duration,
+      endMs: end,
+      attributes: {
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.provider.name': provider,
+        'gen_ai.request.model': event.model,
+        'gen_ai.response.model': model,
+        'gen_ai.response.finish_reasons': [event.finishReason],
+        'gen_ai.usage.input_tokens': event.usage.inputTokens,
+        'gen_ai.usage.output_tokens': event.usage.outputTokens,
+        'gen_ai.conversation.id': event.sessionId,
+        'ch4p.requested_provider': event.servedBy ? event.provider : undefined,
+        'ch4p.cost': event.usage.totalCost,
+      },
+    });
+
+    const attrs = {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.provider.name': provider,
+      'gen_ai.request.model': event.model,
+    };
+    this.recordHistogram('gen_ai.client.operation.duration', 's', 'GenAI operation duration', DURATION_BOUNDS, attrs, event.duration / 1000);
+    this.recordHistogram('gen_ai.client.token.usage', '{token}', 'Number of input and output tokens used', TOKEN_BOUNDS,
+      { ...attrs, 'gen_ai.token.type': 'input' }, event.usage.inputTokens);
+    this.recordHistogram('gen_ai.client.token.usage', '{token}', 'Number of input and output tokens used', TOKEN_BOUNDS,
+      { ...attrs, 'gen_ai.token.type': 'output' }, event.usage.outputTokens);
+  }
+
+  onToolInvocation(event: ToolInvocationEvent): void {
+    const errorType = event.error
+      ? event.error.name
+      : event.result && !event.result.success ? 'tool_error' : undefined;
+    const end = Date.now();
+
+    this.pushChild(event.sessionId, {
+      name: `execute_tool ${event.tool}`,
+      kind: SPAN_KIND_INTERNAL,
+      startMs: end - event.duration,
+      endMs: end,
+      attributes: {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': event.tool,
+        'gen_ai.conversation.id': event.sessionId,
+        'error.type': errorType,
+      },
+      error: errorType ? (event.error?.message ?? event.result?.error ?? errorType) : undefined,
+    });
+
+    this.recordHistogram('ch4p.tool.duration', 's', 'Tool execution duration', DURATION_BOUNDS,
+      errorType ? { 'gen_ai.tool.name': event.tool, 'error.type': errorType } : { 'gen_ai.tool.name': event.tool },
+      event.duration / 1000);
+  }
+
+  onChannelMessage(event: ChannelMessageEvent): void {
+    this.addCounter('ch4p.channel.messages', '{message}', 'Channel messages received and sent',
+      { 'ch4p.channel.id': event.channelId, 'ch4p.direction': event.direction }, 1);
+  }
+
+  onError(error: Error, context: Record<string, unknown>): void {
+    const phase = typeof context.phase === 'string' ? context.phase : undefined;
+    this.addCounter('ch4p.errors', '{error}', 'Errors reported to the observer',
+      phase ? { 'error.type': error.name, 'ch4p.phase': phase } : { 'error.type': error.name }, 1);
+  }
+
+  onSecurityEvent(event: SecurityEvent): void {
+    this.addCounter('ch4p.security.events', '{event}', 'Security events (blocked paths, commands, injections)',
+      { 'ch4p.security.type': event.type }, 1);
+  }
+
+  /** Export everything buffered so far and wait for it. */
+  async flush(): Promise<void> {
+    await this.export();
+  }
+
+
+  // ---- spans --------------------------------------------------------------
+
+  private pushChild(
+    sessionId: string,
+    span: {
+      name: string;
+      kind: number;
+      startMs: number;
+      endMs: number;
+      attributes: Record<string, AttrValue | undefined>;
+      error?: string;
+    },
+  ): void {
+    // Calls made outside a run (e.g. by a verifier) become root spans.
+    const run = this.runs.get(sessionId);
+    this.pushSpan({
+      traceId: run?.traceId ?? hexId(16),
+      spanId: hexId(8),
+      parentSpanId: run?.spanId,
+      name: span.name,
+      kind: span.kind,
+      startTimeUnixNano: toNanos(span.startMs),
+      endTimeUnixNano: toNanos(span.endMs),
+      attributes: toAttributes(span.attributes),
+      status: span.error !== undefined ? { code: STATUS_ERROR, message: span.error } : { code: STATUS_UNSET },
+    });
+  }
+
+  private pushSpan(span: OtlpSpan): void {
+    this.pending.push(span);
+    if (this.pending.length > MAX_PENDING_SPANS) {
+      this.pending.splice(0, this.pending.length - MAX_PENDING_SPANS);
+    }
+    this.scheduleExport();
+  }
+
+  // ---- metrics ------------------------------------------------------------
+
+  private instrument(
+    name: string,
+    unit: string,
+    description: string,
+    kind: Instrument['kind'],
+    bounds?: number[],
+  ): Instrument {
+    let inst = this.instruments.get(name);
+    if (!inst) {
+      inst = { name, unit, description, kind, bounds, points: new Map() };
+      this.instruments.set(name, inst);
+    }
+    return inst;
+  }
+
+  private point(inst: Instrument, attributes: Record<string, AttrValue>): HistogramPoint {
+    const key = JSON.stringify(Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b)));
+    let point = inst.points.get(key);
+    if (!point) {
+      point = {
+        attributes,
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        buckets: new Array<number>((inst.bounds?.length ?? 0) + 1).fill(0),
+      };
+      inst.points.set(key, point);
+    }
+    this.metricsDirty = true;
+    this.scheduleExport();
+    return point;
+  }
+
+  private addCounter(
+    name: string,
+    unit: string,
+    description: string,
+    attributes: Record<string, AttrValue>,
+    value: number,
+  ): void {
+    const point = this.point(this.instrument(name, unit, description, 'counter'), attributes);
+    point.sum += value;
+  }
+
+  private recordHistogram(
+    name: string,
+    unit: string,
+    description: string,
+    bounds: number[],
+    attributes: Record<string, AttrValue>,
+    value: number,
+  ): void {
+    const point = this.point(this.instrument(name, unit, description, 'histogram', bounds), attributes);
+    point.count++;
+    point.sum += value;
+    point.min = Math.min(point.min, value);
+    point.max = Math.max(point.max, value);
+    const idx = bounds.findIndex((b) => value <= b);
+    point.buckets[idx === -1 ? bounds.length : idx]!++;
+  }
+
+  private metricsPayload(nowMs: number): Record<string, unknown> {
+    const start = toNanos(this.startMs);
+    const time = toNanos(nowMs);
+
+    const metrics = [...this.instruments.values()].map((inst) => {
+      const points = [...inst.points.values()];
+      if (inst.kind === 'counter') {
+        return {
+          name: inst.name,
+          unit: inst.unit,
+          description: inst.description,
+          sum: {
+            aggregationTemporality: AGGREGATION_CUMULATIVE,
+            isMonotonic: true,
+            dataPoints: points.map((p) => ({
+              attributes: toAttributes(p.attributes),
+              startTimeUnixNano: start,
+              timeUnixNano: time,
+              asInt: String(p.sum),
+            })),
+          },
+        };
+      }
+      return {
+        name: inst.name,
+        unit: inst.unit,
+        description: inst.description,
+        histogram: {
+          aggregationTemporality: AGGREGATION_CUMULATIVE,
+          dataPoints: points.map((p) => ({
+            attributes: toAttributes(p.attributes),
+            startTimeUnixNano: start,
+            timeUnixNano: time,
+            count: String(p.count),
+            sum: p.sum,
+            min: p.min,
+            max: p.max,
+            bucketCounts: p.buckets.map(String),
+            explicitBounds: inst.bounds,
+          })),
+        },
+      };
+    });
+
+    return { resourceMetrics: [{ resource: this.resource, scopeMetrics: [{ scope: SCOPE, metrics }] }] };
+  }
+
+  // ---- export -------------------------------------------------------------
+
+  private scheduleExport(): void {
+    if (this.exportTimer !== null) return;
+    this.exportTimer = setTimeout(() => {
+      this.exportTimer = null;
+      void this.export();
+    }, this.exportIntervalMs);
+    // Never keep the process alive just to export telemetry.
+    this.exportTimer.unref?.();
+  }
+
+  private export(): Promise<void> {
+    if (this.exportTimer !== null) {
+      clearTimeout(this.exportTimer);
+      this.exportTimer = null;
+    }
+
+    // Serialise exports so a slow collector never sees overlapping batches.
+    const run = async (): Promise<void> => {
+      const spans = this.pending;
+      this.pending = [];
+      if (spans.length > 0) {
+        const ok = await this.post('/v1/traces', {
+          resourceSpans: [{ resource: this.resource, scopeSpans: [{ scope: SCOPE, spans }] }],
+        });
+        // Keep the batch for the next attempt, within the backlog cap.
+        if (!ok) this.pending = [...spans, ...this.pending].slice(-MAX_PENDING_SPANS);
+      }
+
+      if (this.metricsDirty) {
+        this.metricsDirty = false;
+        // Cumulative temporality: a failed export is superseded by the next one.
+        if (!(await this.post('/v1/metrics', this.metricsPayload(Date.now())))) {
+          this.metricsDirty = true;
+        }
+      }
+    };
+
+    const next = (this.exporting ?? Promise.resolve()).then(run);
+    this.exporting = next;
+    return next.finally(() => {
+      if (this.exporting === next) this.exporting = null;
+    });
+  }
+
+  /**
+   * POST one OTLP payload. Returns false when the request should be retried
+   * (network error, timeout, 429 or 5xx); rejected payloads are dropped.
+   */
+  private async post(path: string, body: unknown): Promise<boolean> {
+    try {
+      const res = await fetch(this.endpoint + path, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (res.status === 429 || res.status >= 500) throw new Error(`HTTP ${res.status}`);
+      this.warned.delete('down');
+      if (!res.ok) {
+        this.warnOnce(path, `OTLP collector rejected ${path}: HTTP ${res.status}`);
+      }
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.warnOnce('down', `OTLP export to ${this.endpoint} failed: ${message}`);
+      return false;
+    }
+  }
+
+  /** Observability must never crash or spam the host. */
+  private warnOnce(key: string, message: string): void {
+    if (this.warned.has(key)) return;
+    this.warned.add(key);
+    console.warn(`[observability] ${message}`);
+  }
+}
@@ -13,6 +13,8 @@ import { FileObserver } from './file-observer.js';
 import type { FileObserverOptions } from './file-observer.js';
 import { MultiObserver } from './multi-observer.js';
 import { NoopObserver } from './noop-observer.js';
+import { OtelObserver } from './otel-observer.js';
+import type { OtelObserverOptions } from './otel-observer.js';
 
 // ---------------------------------------------------------------------------
 // Public config shape (mirrors the observability section of Ch4pConfig)
@@ -27,6 +29,8 @@ export interface ObservabilityConfig {
   logPath?: string;
   /** Max log file size in bytes before rotation. */
   maxLogSize?: number;
+  /** OTLP exporter settings for the "otel" observer. */
+  otel?: OtelObserverOptions;
 }
 
 // ---------------------------------------------------------------------------
@@ -41,7 +45,7 @@ export interface ObservabilityConfig {
  * - If multiple observers are listed, wraps them in a MultiObserver.
  */
 export function createObserver(config: ObservabilityConfig): IObserver {
-  const { observers, logLevel = 'info', logPath, maxLogSize } = config;
+  const { observers, logLevel = 'info', logPath, maxLogSize, otel } = config;
 
   if (!observers || observers.length === 0) {
     return new NoopObserver();
@@ -61,6 +65,9 @@ export function createObserver(config: ObservabilityConfig): IObserver {
         children.push(new FileObserver(fileOpts));
         break;
       }
+      case 'otel':
+        children.push(new OtelObserver(otel));
+        break;
       case 'noop':
         children.push(new NoopObserver());
         break;
@@ -43,6 +43,7 @@ export class X402PayTool implements ITool {
     'Full payment execution requires an IIdentityProvider with wallet signing support.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
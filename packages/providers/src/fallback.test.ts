@@ -0,0 +1,278 @@
+import { vi } from 'vitest';
+import { FallbackProvider } from './fallback.js';
+import { ProviderRegistry } from './registry.js';
+import { ProviderError } from '@ch4p/core';
+import type { IProvider, Message, StreamEvent } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const messages: Message[] = [{ role: 'user', content: 'hi' }];
+const usage = { inputTokens: 3, outputTokens: 2 };
+
+type Behaviour = 'ok' | 'overloaded' | 'bad_request' | 'mid_stream';
+
+interface FakeProvider extends IProvider {
+  behaviour: Behaviour;
+  streamModels: string[];
+}
+
+function fakeProvider(id: string, behaviour: Behaviour = 'ok'): FakeProvider {
+  const fake: FakeProvider = {
+    id,
+    name: id,
+    behaviour,
+    streamModels: [],
+    listModels: vi.fn(async () => [
+      { id: `${id}-model`, name: id, contextWindow: 1, maxOutputTokens: 1, supportsTools: true, supportsVision: false },
+    ]),
+    async *stream(model: string): AsyncIterable<StreamEvent> {
+      fake.streamModels.push(model);
+      throwFor(fake.behaviour);
+      yield { type: 'text_delta', delta: `from ${id}` };
+      if (fake.behaviour === 'mid_stream') throw new ProviderError('connection reset', id);
+      yield { type: 'done', message: { role: 'assistant', content: `from ${id}` }, usage };
+    },
+    complete: vi.fn(async () => {
+      throwFor(fake.behaviour);
+      return { message: { role: 'assistant' as const, content: `from ${id}` }, usage, finishReason: 'stop' as const };
+    }),
+    countTokens: vi.fn(async () => 7),
+    supportsTools: vi.fn(() => true),
+  };
+  return fake;
+}
+
+function throwFor(behaviour: Behaviour): void {
+  if (behaviour === 'overloaded') throw new ProviderError('API overloaded', 'fake', { status: 529 });
+  if (behaviour === 'bad_request') throw new ProviderError('Bad request', 'fake', { status: 400 });
+}
+
+async function collect(iterable: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of iterable) events.push(event);
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// FallbackProvider
+// ---------------------------------------------------------------------------
+
+describe('FallbackProvider', () => {
+  it('derives id and name from the chain', () => {
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic') }, { provider: fakeProvider('ollama') }],
+    });
+    expect(provider.id).toBe('fallback:anthropic|ollama');
+    expect(provider.name).toBe('Fallback (anthropic → ollama)');
+  });
+
+  it('rejects an empty chain', () => {
+    expect(() => new FallbackProvider({ chain: [] })).toThrow(ProviderError);
+  });
+
+  it('streams from the primary and tags the done event', async () => {
+    const primary = fakeProvider('anthropic');
+    const provider = new FallbackProvider({ chain: [{ provider: primary }, { provider: fakeProvider('ollama') }] });
+
+    const events = await collect(provider.stream('claude', messages));
+    expect(events[0]).toEqual({ type: 'text_delta', delta: 'from anthropic' });
+    expect(events[1]).toMatchObject({ type: 'done', provider: 'anthropic', model: 'claude' });
+  });
+
+  it('fails over to the next provider when the primary is overloaded', async () => {
+    const onFailure = vi.fn();
+    const provider = new FallbackProvider({
+      chain: [
+        { provider: fakeProvider('anthropic', 'overloaded') },
+        { provider: fakeProvider('ollama'), modelMap: { claude: 'llama3.3' } },
+      ],
+      onFailure,
+    });
+
+    const events = await collect(provider.stream('claude', messages));
+    expect(events[0]).toEqual({ type: 'text_delta', delta: 'from ollama' });
+    expect(events[1]).toMatchObject({ type: 'done', provider: 'ollama', model: 'llama3.3' });
+    expect(onFailure).toHaveBeenCalledWith('anthropic', expect.objectContaining({ message: 'API overloaded' }));
+  });
+
+  it('maps models through modelMap, then defaultModel', async () => {
+    const mapped = fakeProvider('bedrock', 'overloaded');
+    const fallback = fakeProvider('ollama');
+    const provider = new FallbackProvider({
+      chain: [
+        { provider: fakeProvider('anthropic', 'overloaded') },
+        { provider: mapped, modelMap: { claude: 'anthropic.claude-v2' } },
+        { provider: fallback, defaultModel: 'llama3.3' },
+      ],
+    });
+
+    await collect(provider.stream('claude', messages));
+    expect(mapped.streamModels).toEqual(['anthropic.claude-v2']);
+    expect(fallback.streamModels).toEqual(['llama3.3']);
+  });
+
+  it('does not fail over on a bad request', async () => {
+    const secondary = fakeProvider('ollama');
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic', 'bad_request') }, { provider: secondary }],
+    });
+
+    await expect(collect(provider.stream('claude', messages))).rejects.toThrow('Bad request');
+    expect(secondary.streamModels).toEqual([]);
+    expect(provider.getHealth()[0]!.totalFailures).toBe(0);
+  });
+
+  it('does not fail over when the caller aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const secondary = fakeProvider('ollama');
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic', 'overloaded') }, { provider: secondary }],
+    });
+
+    await expect(collect(provider.stream('claude', messages, { signal: controller.signal }))).rejects.toThrow();
+    expect(secondary.streamModels).toEqual([]);
+  });
+
+  it('does not fail over once output has started', async () => {
+    const secondary = fakeProvider('ollama');
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic', 'mid_stream') }, { provider: secondary }],
+    });
+
+    const events: StreamEvent[] = [];
+    await expect((async () => {
+      for await (const event of provider.stream('claude', messages)) events.push(event);
+    })()).rejects.toThrow('connection reset');
+    expect(events).toHaveLength(1);
+    expect(secondary.streamModels).toEqual([]);
+    expect(provider.getHealth()[0]!.consecutiveFailures).toBe(1);
+  });
+
+  it('throws a ProviderError listing every failure when the chain is exhausted', async () => {
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic', 'overloaded') }, { provider: fakeProvider('ollama', 'overloaded') }],
+    });
+
+    const err = await collect(provider.stream('claude', messages)).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ProviderError);
+    expect((err as ProviderError).message).toMatch(/All providers in the chain failed/);
+    expect((err as ProviderError).context?.errors).toEqual(['API overloaded', 'API overloaded']);
+  });
+
+  it('falls back for complete() and reports the serving provider', async () => {
+    const provider = new FallbackProvider({
+      chain: [
+        { provider: fakeProvider('anthropic', 'overloaded') },
+        { provider: fakeProvider('ollama'), defaultModel: 'llama3.3' },
+      ],
+    });
+
+    const result = await provider.complete('claude', messages);
+    expect(result).toMatchObject({ provider: 'ollama', model: 'llama3.3', message: { content: 'from ollama' } });
+  });
+
+  it('merges models from every provider', async () => {
+    const broken = fakeProvider('bedrock');
+    broken.listModels = vi.fn(async () => { throw new Error('unreachable'); });
+    const provider = new FallbackProvider({
+      chain: [{ provider: fakeProvider('anthropic') }, { provider: broken }, { provider: fakeProvider('ollama') }],
+    });
+
+    expect((await provider.listModels()).map((m) => m.id)).toEqual(['anthropic-model', 'ollama-model']);
+  });
+
+  // -----------------------------------------------------------------------
+  // Circuit breaker
+  // -----------------------------------------------------------------------
+
+  describe('circuit breaker', () => {
+    function setup() {
+      let now = 1_000;
+      const primary = fakeProvider('anthropic', 'overloaded');
+      const secondary = fakeProvider('ollama');
+      const provider = new FallbackProvider({
+        chain: [{ provider: primary }, { provider: secondary }],
+        failureThreshold: 2,
+        cooldownMs: 10_000,
+        now: () => now,
+      });
+      return { primary, secondary, provider, advance: (ms: number) => { now += ms; } };
+    }
+
+    it('opens after consecutive failures and skips the provider', async () => {
+      const { primary, provider } = setup();
+      await collect(provider.stream('claude', messages));
+      expect(provider.getHealth()[0]!.state).toBe('closed');
+      await collect(provider.stream('claude', messages));
+      expect(provider.getHealth()[0]).toMatchObject({ state: 'open', consecutiveFailures: 2, lastError: 'API overloaded' });
+
+      await collect(provider.stream('claude', messages));
+      expect(primary.streamModels).toHaveLength(2);
+    });
+
+    it('half-opens after the cooldown and closes on success', async () => {
+      const { primary, provider, advance } = setup();
+      await collect(provider.stream('claude', messages));
+      await collect(provider.stream('claude', messages));
+
+      advance(10_000);
+      expect(provider.getHealth()[0]!.state).toBe('half_open');
+
+      primary.behaviour = 'ok';
+      const events = await collect(provider.stream('claude', messages));
+      expect(events[1]).toMatchObject({ provider: 'anthropic' });
+      expect(provider.getHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0, totalSuccesses: 1 });
+    });
+
+    it('reopens when the half-open trial fails', async () => {
+      const { provider, advance } = setup();
+      await collect(provider.stream('claude', messages));
+      await collect(provider.stream('claude', messages));
+
+      advance(10_000);
+      await collect(provider.stream('claude', messages));
+      expect(provider.getHealth()[0]!.state).toBe('open');
+    });
+
+    it('still tries every provider when all circuits are open', async () => {
+      const { primary, secondary, provider } = setup();
+      secondary.behaviour = 'overloaded';
+      for (let i = 0; i < 2; i++) {
+        await collect(provider.stream('claude', messages)).catch(() => {});
+      }
+      expect(provider.getHealth().map((h) => h.state)).toEqual(['open', 'open']);
+
+      primary.behaviour = 'ok';
+      const events = await collect(provider.stream('claude', messages));
+      expect(events[1]).toMatchObject({ provider: 'anthropic' });
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ProviderRegistry.createChain
+// ---------------------------------------------------------------------------
+
+describe('ProviderRegistry.createChain', () => {
+  it('returns the primary unwrapped when no fallback is usable', () => {
+    const provider = ProviderRegistry.createChain(
+      ['anthropic', 'openai'],
+      { anthropic: { apiKey: 'sk-ant' }, openai: {} },
+    );
+    expect(provider.id).toBe('anthropic');
+  });
+
+  it('wraps usable fallbacks and skips ones without credentials', () => {
+    const provider = ProviderRegistry.createChain(
+      ['anthropic', 'openai', 'ollama', 'ollama'],
+      { anthropic: { apiKey: 'sk-ant' }, openai: { apiKey: '' }, ollama: { defaultModel: 'llama3.3' } },
+      { failureThreshold: 5 },
+    );
+    expect(provider).toBeInstanceOf(FallbackProvider);
+    expect(provider.id).toBe('fallback:anthropic|ollama');
+    expect((provider as FallbackProvider).getHealth()).toHaveLength(2);
+  });
+});
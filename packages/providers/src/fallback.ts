@@ -0,0 +1,322 @@
+/**
+ * Fallback provider for ch4p — an ordered provider chain with failover.
+ *
+ * Wraps several IProviders (e.g. anthropic → bedrock → ollama) behind one.
+ * Each request goes to the first healthy provider; on an availability
+ * failure (overload, 5xx, network error, auth failure) the next one is
+ * tried. Model ids are translated per provider, and the provider that
+ * served the request is reported on the `done` event / CompletionResult.
+ *
+ * Health is tracked per provider with a circuit breaker: after
+ * `failureThreshold` consecutive failures a provider is skipped for
+ * `cooldownMs`, then given one trial request (half-open). When every
+ * circuit is open the chain is still tried in order rather than failing
+ * outright.
+ *
+ * Streams only fail over before the first event arrives. Once output has
+ * reached the caller, switching providers would duplicate or garble it,
+ * so mid-stream errors propagate.
+ */
+
+import type {
+  IProvider,
+  ModelInfo,
+  StreamOpts,
+  CompleteOpts,
+  StreamEvent,
+  CompletionResult,
+  Message,
+} from '@ch4p/core';
+import { ProviderError } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface FallbackTarget {
+  provider: IProvider;
+  /** Requested model id → this provider's model id. */
+  modelMap?: Record<string, string>;
+  /** Model used when the requested one is not in `modelMap`. Default: the requested model. */
+  defaultModel?: string;
+}
+
+export interface FallbackProviderConfig {
+  /** Providers in priority order. */
+  chain: FallbackTarget[];
+  /** Provider id. Default: "fallback:<id>|<id>|...". */
+  id?: string;
+  /** Consecutive failures before a provider's circuit opens. Default: 3. */
+  failureThreshold?: number;
+  /** How long an open circuit skips its provider (ms). Default: 60000. */
+  cooldownMs?: number;
+  /** Called for every provider failure, including ones the chain recovers from. */
+  onFailure?: (providerId: string, error: Error) => void;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  id: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  /** When an open circuit allows its next trial request. */
+  retryAt?: Date;
+}
+
+interface TargetState {
+  target: FallbackTarget;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  openUntil?: number;
+}
+
+// ---------------------------------------------------------------------------
+// FallbackProvider
+// ---------------------------------------------------------------------------
+
+export class FallbackProvider implements IProvider {
+  readonly id: string;
+  readonly name: string;
+
+  private readonly states: TargetState[];
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+
+  constructor(private readonly config: FallbackProviderConfig) {
+    if (config.chain.length === 0) {
+      throw new ProviderError('FallbackProvider requires at least one provider', config.id ?? 'fallback');
+    }
+    const ids = config.chain.map((t) => t.provider.id);
+    this.id = config.id ?? `fallback:${ids.join('|')}`;
+    this.name = `Fallback (${ids.join(' → ')})`;
+    this.states = config.chain.map((target) => ({
+      target,
+      consecutiveFailures: 0,
+      totalFailures: 0,
+      totalSuccesses: 0,
+    }));
+    this.failureThreshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = config.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.now = config.now ?? Date.now;
+  }
+
+  // -----------------------------------------------------------------------
+  // IProvider
+  // -----------------------------------------------------------------------
+
+  async listModels(): Promise<ModelInfo[]> {
+    const seen = new Map<string, ModelInfo>();
+    for (const state of this.states) {
+      try {
+        for (const model of await state.target.provider.listModels()) {
+          if (!seen.has(model.id)) seen.set(model.id, model);
+        }
+      } catch {
+        // An unreachable provider contributes no models.
+      }
+    }
+    return [...seen.values()];
+  }
+
+  async *stream(
+    model: string,
+    context: Message[],
+    opts?: StreamOpts,
+  ): AsyncIterable<StreamEvent> {
+    const errors: Error[] = [];
+
+    for (const state of this.candidates()) {
+      const targetModel = this.mapModel(state.target, model);
+      const iterator = state.target.provider.stream(targetModel, context, opts)[Symbol.asyncIterator]();
+
+      let result: IteratorResult<StreamEvent>;
+      try {
+        result = await iterator.next();
+      } catch (err) {
+        const error = toError(err);
+        if (!this.shouldFailOver(error, opts?.signal)) throw error;
+        this.recordFailure(state, error);
+        errors.push(error);
+        continue;
+      }
+
+      // Output has started — this provider now owns the request.
+      let finished = false;
+      try {
+        while (!result.done) {
+          yield this.tagEvent(result.value, state.target, targetModel);
+          result = await iterator.next();
+        }
+        finished = true;
+        this.recordSuccess(state);
+        return;
+      } catch (err) {
+        const error = toError(err);
+        if (this.shouldFailOver(error, opts?.signal)) this.recordFailure(state, error);
+        throw error;
+      } finally {
+        if (!finished) await iterator.return?.();
+      }
+    }
+
+    throw this.exhausted(errors);
+  }
+
+  async complete(
+    model: string,
+    context: Message[],
+    opts?: CompleteOpts,
+  ): Promise<CompletionResult> {
+    const errors: Error[] = [];
+
+    for (const state of this.candidates()) {
+      const targetModel = this.mapModel(state.target, model);
+      try {
+        const result = await state.target.provider.complete(targetModel, context, opts);
+        this.recordSuccess(state);
+        return {
+          ...result,
+          provider: result.provider ?? state.target.provider.id,
+          model: result.model ?? targetModel,
+        };
+      } catch (err) {
+        const error = toError(err);
+        if (!this.shouldFailOver(error, opts?.signal)) throw error;
+        this.recordFailure(state, error);
+        errors.push(error);
+      }
+    }
+
+    throw this.exhausted(errors);
+  }
+
+  async countTokens(model: string, messages: Message[]): Promise<number> {
+    let lastError: Error | undefined;
+    for (const state of this.candidates()) {
+      try {
+        return await state.target.provider.countTokens(this.mapModel(state.target, model), messages);
+      } catch (err) {
+        lastError = toError(err);
+      }
+    }
+    throw lastError ?? this.exhausted([]);
+  }
+
+  supportsTools(model: string): boolean {
+    const primary = this.candidates()[0]!;
+    return primary.target.provider.supportsTools(this.mapModel(primary.target, model));
+  }
+
+  // -----------------------------------------------------------------------
+  // Health
+  // -----------------------------------------------------------------------
+
+  /** Circuit state and counters for every provider in the chain. */
+  getHealth(): ProviderHealth[] {
+    return this.states.map((s) => ({
+      id: s.target.provider.id,
+      state: this.circuitState(s),
+      consecutiveFailures: s.consecutiveFailures,
+      totalFailures: s.totalFailures,
+      totalSuccesses: s.totalSuccesses,
+      lastError: s.lastError,
+      lastFailureAt: s.lastFailureAt !== undefined ? new Date(s.lastFailureAt) : undefined,
+      lastSuccessAt: s.lastSuccessAt !== undefined ? new Date(s.lastSuccessAt) : undefined,
+      retryAt: s.openUntil !== undefined ? new Date(s.openUntil) : undefined,
+    }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  private circuitState(state: TargetState): CircuitState {
+    if (state.openUntil === undefined) return 'closed';
+    return this.now() < state.openUntil ? 'open' : 'half_open';
+  }
+
+  /** Providers to try, in order: every non-open circuit, or all when none is. */
+  private candidates(): TargetState[] {
+    const available = this.states.filter((s) => this.circuitState(s) !== 'open');
+    return available.length > 0 ? available : this.states;
+  }
+
+  private mapModel(target: FallbackTarget, model: string): string {
+    return target.modelMap?.[model] ?? target.defaultModel ?? model;
+  }
+
+  private tagEvent(event: StreamEvent, target: FallbackTarget, model: string): StreamEvent {
+    if (event.type !== 'done') return event;
+    return {
+      ...event,
+      provider: event.provider ?? target.provider.id,
+      model: event.model ?? model,
+    };
+  }
+
+  /**
+   * Cancellations and bad requests are the caller's problem; another
+   * provider would not fare better, and they say nothing about health.
+   */
+  private shouldFailOver(error: Error, signal?: AbortSignal): boolean {
+    if (signal?.aborted) return false;
+    if (error instanceof ProviderError && error.context?.status === 400) return false;
+    return true;
+  }
+
+  private recordSuccess(state: TargetState): void {
+    state.consecutiveFailures = 0;
+    state.totalSuccesses++;
+    state.lastSuccessAt = this.now();
+    state.openUntil = undefined;
+  }
+
+  private recordFailure(state: TargetState, error: Error): void {
+    const wasHalfOpen = this.circuitState(state) === 'half_open';
+    state.consecutiveFailures++;
+    state.totalFailures++;
+    state.lastError = error.message;
+    state.lastFailureAt = this.now();
+    if (wasHalfOpen || state.consecutiveFailures >= this.failureThreshold) {
+      state.openUntil = this.now() + this.cooldownMs;
+    }
+    try {
+      this.config.onFailure?.(state.target.provider.id, error);
+    } catch {
+      // Observer hooks must not affect routing.
+    }
+  }
+
+  private exhausted(errors: Error[]): ProviderError {
+    const detail = errors.map((e) => e.message).join('; ');
+    return new ProviderError(
+      `All providers in the chain failed${detail ? `: ${detail}` : ''}`,
+      this.id,
+      { errors: errors.map((e) => e.message) },
+    );
+  }
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
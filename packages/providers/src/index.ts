@@ -4,4 +4,5 @@ export * from './openrouter.js';
 export * from './google.js';
 export * from './ollama.js';
 export * from './bedrock.js';
+export * from './fallback.js';
 export * from './registry.js';
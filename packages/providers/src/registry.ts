@@ -20,11 +20,18 @@ import { OllamaProvider } from './ollama.js';
 import type { OllamaProviderConfig } from './ollama.js';
 import { BedrockProvider } from './bedrock.js';
 import type { BedrockProviderConfig } from './bedrock.js';
+import { FallbackProvider } from './fallback.js';
+import type { FallbackProviderConfig, FallbackTarget } from './fallback.js';
 
 // ---------------------------------------------------------------------------
 // Configuration types
 // ---------------------------------------------------------------------------
 
+export type FallbackChainOpts = Pick<
+  FallbackProviderConfig,
+  'failureThreshold' | 'cooldownMs' | 'onFailure'
+>;
+
 export interface ProviderConfig {
   id: string;
   type: 'anthropic' | 'openai' | 'openrouter' | 'google' | 'ollama' | 'bedrock' | string;
@@ -196,6 +203,52 @@ export class ProviderRegistry {
         );
     }
   }
+
+  /**
+   * Create a provider for an ordered chain of provider ids.
+   *
+   * The first id is the primary; the rest are fallbacks wrapped in a
+   * FallbackProvider. Each entry's config may carry a `modelMap` (requested
+   * model → this provider's model), and fallbacks use their `defaultModel`
+   * for unmapped models since the primary's model ids rarely exist
+   * elsewhere. Fallbacks without credentials are skipped; when none are
+   * usable the primary is returned unwrapped.
+   */
+  static createChain(
+    ids: string[],
+    configs: Record<string, Record<string, unknown> | undefined> = {},
+    opts?: FallbackChainOpts,
+  ): IProvider {
+    const chain: FallbackTarget[] = [];
+    const seen = new Set<string>();
+
+    ids.forEach((id, index) => {
+      const raw = configs[id] ?? {};
+      const isPrimary = index === 0;
+      const type = (raw.type as string | undefined) ?? id;
+      const hasCredentials = type === 'ollama'
+        || (typeof raw.apiKey === 'string' && raw.apiKey.trim().length > 0)
+        || (typeof raw.accessKeyId === 'string' && raw.accessKeyId.length > 0);
+
+      if (!isPrimary && !hasCredentials) return;
+      if (seen.has(id)) return;
+      seen.add(id);
+
+      const provider = ProviderRegistry.createProvider({ ...raw, id, type });
+      chain.push({
+        provider,
+        modelMap: raw.modelMap as Record<string, string> | undefined,
+        defaultModel: isPrimary ? undefined : (raw.defaultModel as string | undefined),
+      });
+    });
+
+    if (chain.length === 0) {
+      throw new ProviderError('Provider chain is empty', 'fallback');
+    }
+    if (chain.length === 1 && !chain[0]!.modelMap) return chain[0]!.provider;
+
+    return new FallbackProvider({ chain, ...opts });
+  }
 }
 
 // ---------------------------------------------------------------------------
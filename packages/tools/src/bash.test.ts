@@ -310,5 +310,13 @@ describe('BashTool', () => {
       expect(result.error).toMatch(/10MiB limit/);
       expect(result.metadata?.outputCapped).toBe(true);
     }, 15_000);
+
+    it('runs commands through the configured sandbox backend', async () => {
+      const ctx = { ...makeContext(), sandbox: { backend: 'docker' as const } };
+      const result = await tool.execute({ command: 'pwd', cwd: '/' }, ctx);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Sandbox \(docker\) unavailable: .*outside the sandbox workspace/);
+    });
   });
 });
@@ -5,6 +5,8 @@
  * Security: Commands are validated against the security policy before execution.
  * Output is captured from both stdout and stderr, truncated to configurable limits.
  * AbortSignal support enables cancellation of long-running processes.
+ * Where the command runs (host, bwrap, nsjail or docker) is chosen by the
+ * sandbox config injected into the tool context; see sandbox.ts.
  */
 
 import { spawn, type ChildProcess } from 'node:child_process';
@@ -17,8 +19,10 @@ import type {
   ValidationResult,
   JSONSchema7,
   StateSnapshot,
+  SandboxConfig,
 } from '@ch4p/core';
 import { SecurityError } from '@ch4p/core';
+import { createSandboxBackend, type SandboxCommand } from './sandbox.js';
 
 interface BashArgs {
   command: string;
@@ -26,6 +30,11 @@ interface BashArgs {
   cwd?: string;
 }
 
+/** Extended ToolContext with the sandbox config injected via toolContextExtensions. */
+export interface BashToolContext extends ToolContext {
+  sandbox?: SandboxConfig;
+}
+
 const DEFAULT_TIMEOUT_MS = 120_000;
 const DEFAULT_MAX_OUTPUT_LENGTH = 30_000;
 /** Kill the subprocess when combined stdout+stderr exceeds this (10 MiB). */
@@ -39,6 +48,7 @@ export class BashTool implements ITool {
     'Long-running commands can be cancelled via abort signal.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -139,7 +149,25 @@ export class BashTool implements ITool {
       };
     }
 
-    return this.runCommand(command, workingDir, timeoutMs, context);
+    const sandbox = createSandboxBackend((context as BashToolContext).sandbox);
+    let spawnSpec: SandboxCommand;
+    try {
+      spawnSpec = await sandbox.prepare({
+        command,
+        cwd: workingDir,
+        workspace: context.cwd,
+        sessionId: context.sessionId,
+        timeoutMs,
+      });
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `Sandbox (${sandbox.name}) unavailable: ${(err as Error).message}`,
+      };
+    }
+
+    return this.runCommand(spawnSpec, workingDir, timeoutMs, context);
   }
 
   abort(_reason: string): void {
@@ -155,16 +183,16 @@ export class BashTool implements ITool {
   }
 
   private runCommand(
-    command: string,
+    spec: SandboxCommand,
     cwd: string,
     timeoutMs: number,
     context: ToolContext,
   ): Promise<ToolResult> {
     return new Promise<ToolResult>((resolvePromise) => {
-      const child = spawn('bash', ['-c', command], {
+      const child = spawn(spec.file, spec.args, {
         cwd,
         stdio: ['pipe', 'pipe', 'pipe'],
-        env: { ...process.env },
+        env: spec.env,
         // Close stdin immediately — we never write to it
       });
 
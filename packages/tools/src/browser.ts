@@ -94,6 +94,7 @@ export class BrowserTool implements ITool {
     'persists across calls within a session.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
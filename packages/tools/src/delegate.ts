@@ -42,6 +42,7 @@ export class DelegateTool implements ITool {
     'specialized models for specific subtasks.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -34,6 +34,7 @@ export class FileEditTool implements ITool {
     'edits are unambiguous. The new_string must differ from old_string.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -47,6 +47,7 @@ export class FileReadTool implements ITool {
     'large files. Binary files are detected and rejected.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -31,6 +31,7 @@ export class FileWriteTool implements ITool {
     'Path is validated against the security policy.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -38,6 +38,7 @@ export class GlobTool implements ITool {
     'modification time (most recent first).';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -56,6 +56,7 @@ export class GrepTool implements ITool {
     'and context lines around matches.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
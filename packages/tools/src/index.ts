@@ -3,8 +3,10 @@
  *
  * Provides the core tool set: filesystem operations, shell execution,
  * content search, web fetching, memory management, sub-agent delegation,
- * and MCP server connectivity. All tools implement the ITool interface
- * from @ch4p/core.
+ * scheduled reminders, and MCP server connectivity (tools, resources,
+ * prompts and sampling).
+ * All tools implement the ITool interface from @ch4p/core. McpServer
+ * exposes the tool set to other MCP hosts.
  */
 
 // Individual tools
@@ -18,15 +20,32 @@ export { WebFetchTool } from './web-fetch.js';
 export { WebSearchTool } from './web-search.js';
 export { MemoryStoreTool } from './memory-store.js';
 export { MemoryRecallTool } from './memory-recall.js';
+export { MemoryIngestTool } from './memory-ingest.js';
+export { MemoryFactTool } from './memory-fact.js';
 export { DelegateTool } from './delegate.js';
 export { MeshTool } from './mesh.js';
 export { BrowserTool } from './browser.js';
+export { ScheduleTool } from './schedule.js';
+export { SendAttachmentTool } from './send-attachment.js';
 export { McpClientTool } from './mcp-client.js';
-export { LoadSkillTool } from './load-skill.js';
+export { McpResourceTool } from './mcp-resource.js';
+export { McpPromptProvider } from './mcp-prompts.js';
+export { McpServer } from './mcp-server.js';
+export { LoadSkillTool, combineSkillProviders } from './load-skill.js';
 
 // Registry
 export { ToolRegistry } from './registry.js';
 
+// Sandbox backends (used by the bash tool)
+export {
+  createSandboxBackend,
+  removeSandboxContainers,
+  HostSandbox,
+  BubblewrapSandbox,
+  NsjailSandbox,
+  DockerSandbox,
+} from './sandbox.js';
+
 // SSRF guards (shared by web-fetch and browser tools)
 export { isBlockedHostname, isPrivateIpV4, isPrivateIpV6, resolveAndCheckPrivate } from './ssrf-guards.js';
 
@@ -34,9 +53,26 @@ export { isBlockedHostname, isPrivateIpV4, isPrivateIpV6, resolveAndCheckPrivate
 export { captureFileState } from './snapshot-utils.js';
 
 // Extended context types
+export type { BashToolContext } from './bash.js';
 export type { SearchToolContext } from './web-search.js';
 export type { MemoryToolContext } from './memory-store.js';
+export type { MemoryIngestToolContext, DocumentIngester, IngestedDocumentSummary } from './memory-ingest.js';
+export type { MemoryFactToolContext } from './memory-fact.js';
 export type { DelegateToolContext } from './delegate.js';
 export type { MeshToolContext } from './mesh.js';
-export type { McpServerConfig, McpTransport } from './mcp-client.js';
+export type { ScheduleToolContext, JobScheduler } from './schedule.js';
+export type { SendAttachmentToolContext } from './send-attachment.js';
+export type {
+  McpServerConfig,
+  McpTransport,
+  McpAuthConfig,
+  McpListKind,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptResult,
+} from './mcp-client.js';
+export type { McpPromptProviderOpts } from './mcp-prompts.js';
+export type { McpServerOpts, McpSkillSource, JsonRpcResponse } from './mcp-server.js';
 export type { SkillProvider } from './load-skill.js';
+export type { SandboxBackend, SandboxRequest, SandboxCommand, CommandRunner } from './sandbox.js';
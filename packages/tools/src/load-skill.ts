@@ -30,6 +30,19 @@ export interface SkillProvider {
   getSkillContext(name: string): string | undefined;
 }
 
+/**
+ * Merge several providers into one, e.g. local skills and MCP prompts.
+ * Earlier providers win when names clash.
+ */
+export function combineSkillProviders(...providers: SkillProvider[]): SkillProvider {
+  const owner = (name: string) => providers.find((p) => p.has(name));
+  return {
+    has: (name) => owner(name) !== undefined,
+    names: () => [...new Set(providers.flatMap((p) => p.names()))],
+    getSkillContext: (name) => owner(name)?.getSkillContext(name),
+  };
+}
+
 interface LoadSkillArgs {
   name: string;
 }
@@ -42,6 +55,7 @@ export class LoadSkillTool implements ITool {
     'The skill body will be returned as markdown instructions to follow.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -1,7 +1,12 @@
 import { vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { McpClientTool } from './mcp-client.js';
 import type { McpServerConfig, McpTransport } from './mcp-client.js';
-import type { ToolContext, ISecurityPolicy } from '@ch4p/core';
+import type { ToolContext, ToolBudget, ISecurityPolicy, IEngine } from '@ch4p/core';
+
+const realFetch = globalThis.fetch;
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -484,3 +489,322 @@ describe('McpClientTool.execute - reuses existing connection', () => {
     expect(parsed).toEqual([{ name: 'b', description: 'B' }]);
   });
 });
+
+// ---------------------------------------------------------------------------
+// 13. Streamable HTTP transport
+// ---------------------------------------------------------------------------
+
+interface RecordedRequest {
+  method: string;
+  headers: IncomingHttpHeaders;
+  message?: Record<string, unknown>;
+}
+
+type ScriptHandler = (message: Record<string, unknown>, res: ServerResponse, headers: IncomingHttpHeaders) => void;
+
+/**
+ * Local streamable-HTTP server. `handle` answers POSTed messages; GET gets
+ * 405 (no standalone stream) unless `stream` is set, and DELETE 200.
+ */
+async function startScriptedServer(handle: ScriptHandler, opts: { stream?: boolean } = {}) {
+  const requests: RecordedRequest[] = [];
+  const streams: ServerResponse[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const message = body ? JSON.parse(body) as Record<string, unknown> : undefined;
+      requests.push({ method: req.method!, headers: req.headers, message });
+      if (req.method === 'GET' && opts.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        streams.push(res);
+        return;
+      }
+      if (req.method === 'GET') { res.writeHead(405).end(); return; }
+      if (req.method === 'DELETE') { res.writeHead(200).end(); return; }
+      // Notifications and the client's replies to server requests.
+      if (!message || message.method === undefined || message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+      handle(message, res, req.headers);
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, '127.0.0.1', r));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  return {
+    url,
+    requests,
+    streams,
+    posted: (method: string) => requests.filter((r) => r.message?.method === method),
+    close: () => new Promise<void>((r) => { server.closeAllConnections(); server.close(() => r()); }),
+  };
+}
+
+function sendJson(res: ServerResponse, id: unknown, result: unknown, headers?: Record<string, string>) {
+  res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+}
+
+function sseEvent(res: ServerResponse, message: unknown) {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/** Answers initialize with a session id and tools/list with `tools`. */
+function baseHandler(tools: () => unknown[]): ScriptHandler {
+  return (message, res) => {
+    if (message.method === 'initialize') {
+      sendJson(res, message.id, { protocolVersion: '2025-03-26', capabilities: { tools: { listChanged: true } } }, {
+        'Mcp-Session-Id': 'session-123',
+      });
+    } else if (message.method === 'tools/list') {
+      sendJson(res, message.id, { tools: tools() });
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'nope' } }));
+    }
+  };
+}
+
+function fakeEngine(answer: string): IEngine {
+  return {
+    id: 'fake',
+    name: 'Fake',
+    startRun: vi.fn(async () => ({
+      ref: 'run-1',
+      events: (async function* () {
+        yield { type: 'completed' as const, answer, usage: { inputTokens: 12, outputTokens: 3 } };
+      })(),
+      cancel: async () => {},
+      steer: () => {},
+    })),
+    resume: vi.fn(),
+  };
+}
+
+describe('McpClientTool - streamable HTTP transport', () => {
+  let server: Awaited<ReturnType<typeof startScriptedServer>> | undefined;
+
+  beforeEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('negotiates, keeps the session id and sends the protocol version', async () => {
+    server = await startScriptedServer(baseHandler(() => [{ name: 'calc', description: 'Does math' }]));
+    const tool = new McpClientTool({ transport: 'http', url: server.url });
+
+    const result = await tool.execute({ action: 'list_tools' }, createToolContext());
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.output)).toEqual([{ name: 'calc', description: 'Does math' }]);
+
+    const init = server.posted('initialize')[0]!;
+    expect(init.message!.params).toMatchObject({ protocolVersion: '2025-06-18' });
+    expect(init.headers.accept).toBe('application/json, text/event-stream');
+
+    const list = server.posted('tools/list')[0]!;
+    expect(list.headers['mcp-session-id']).toBe('session-123');
+    expect(list.headers['mcp-protocol-version']).toBe('2025-03-26');
+
+    await tool.disconnect();
+    const del = server.requests.find((r) => r.method === 'DELETE')!;
+    expect(del.headers['mcp-session-id']).toBe('session-123');
+  });
+
+  it('reads responses delivered as an SSE stream', async () => {
+    server = await startScriptedServer((message, res) => {
+      if (message.method !== 'tools/call') return baseHandler(() => [])(message, res, {});
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      sseEvent(res, { jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } });
+      sseEvent(res, { jsonrpc: '2.0', id: message.id, result: { content: [{ type: 'text', text: 'streamed' }] } });
+      res.end();
+    });
+    const tool = new McpClientTool({ transport: 'http', url: server.url });
+
+    const result = await tool.execute({ action: 'call_tool', tool: 'slow' }, createToolContext());
+    expect(result).toMatchObject({ success: true, output: 'streamed' });
+    await tool.disconnect();
+  });
+
+  it('refreshes the cached tools on tools/list_changed', async () => {
+    let tools = [{ name: 'old' }];
+    server = await startScriptedServer((message, res) => {
+      if (message.method !== 'tools/call') return baseHandler(() => tools)(message, res, {});
+      tools = [{ name: 'new' }];
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      sseEvent(res, { jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+      sseEvent(res, { jsonrpc: '2.0', id: message.id, result: { content: [{ type: 'text', text: 'ok' }] } });
+      res.end();
+    });
+    const tool = new McpClientTool({ transport: 'http', url: server.url });
+    await tool.execute({ action: 'list_tools' }, createToolContext());
+    expect(tool.getCachedToolDefinitions().map((d) => d.name)).toEqual(['mcp:old']);
+
+    const changed = new Promise<string>((resolve) => tool.onListChanged(resolve));
+    await tool.execute({ action: 'call_tool', tool: 'install' }, createToolContext());
+    expect(await changed).toBe('tools');
+    expect(tool.getCachedToolDefinitions().map((d) => d.name)).toEqual(['mcp:new']);
+    await tool.disconnect();
+  });
+
+  /**
+   * Run a tool call during which the server sends sampling/createMessage
+   * with `params`; resolves with the client's reply to it.
+   */
+  async function sampleDuringCall(params: Record<string, unknown>, config: Partial<McpServerConfig>, ctx: ToolContext) {
+    let pendingCall: { id: unknown; res: ServerResponse } | undefined;
+    server = await startScriptedServer((message, res) => {
+      if (message.method !== 'tools/call') return baseHandler(() => [])(message, res, {});
+      pendingCall = { id: message.id, res };
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      sseEvent(res, { jsonrpc: '2.0', id: 'srv-1', method: 'sampling/createMessage', params });
+    });
+
+    const tool = new McpClientTool({ transport: 'http', url: server.url, ...config });
+    const call = tool.execute({ action: 'call_tool', tool: 'summarize' }, ctx);
+
+    // Wait for the client to POST its sampling reply, then finish the call.
+    await vi.waitFor(() => {
+      expect(server!.requests.some((r) => r.message?.id === 'srv-1')).toBe(true);
+    });
+    const reply = server.requests.find((r) => r.message?.id === 'srv-1')!.message!;
+    sseEvent(pendingCall!.res, { jsonrpc: '2.0', id: pendingCall!.id, result: { content: [{ type: 'text', text: 'done' }] } });
+    pendingCall!.res.end();
+
+    expect(await call).toMatchObject({ success: true, output: 'done' });
+    await tool.disconnect();
+    return reply;
+  }
+
+  const summarize = {
+    messages: [{ role: 'user', content: { type: 'text', text: 'Summarize this' } }],
+    systemPrompt: 'Be brief.',
+    maxTokens: 100,
+  };
+
+  function samplingContext(engine: IEngine, budget?: ToolBudget): ToolContext {
+    return createToolContext({ resolveEngine: () => engine, defaultModel: 'test-model', budget } as Partial<ToolContext>);
+  }
+
+  it('answers sampling requests with the engine of the current call and bills them', async () => {
+    const engine = fakeEngine('A summary.');
+    const budget = { check: vi.fn(() => ({ allowed: true })), record: vi.fn() };
+
+    const reply = await sampleDuringCall(summarize, { sampling: true }, samplingContext(engine, budget));
+
+    expect(reply.result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'A summary.' },
+      model: 'test-model',
+      stopReason: 'endTurn',
+    });
+    expect(engine.startRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [{ role: 'user', content: 'Summarize this' }],
+        systemPrompt: 'Be brief.',
+        model: 'test-model',
+        config: { maxTokens: 100 },
+      }),
+      expect.anything(),
+    );
+    expect(budget.record).toHaveBeenCalledWith({
+      provider: 'fake',
+      model: 'test-model',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+  });
+
+  it('caps the tokens a sampling request may ask for', async () => {
+    const engine = fakeEngine('A summary.');
+
+    await sampleDuringCall({ ...summarize, maxTokens: 1_000_000 }, { sampling: true, samplingMaxTokens: 500 }, samplingContext(engine));
+
+    expect(engine.startRun).toHaveBeenCalledWith(
+      expect.objectContaining({ config: { maxTokens: 500 } }),
+      expect.anything(),
+    );
+  });
+
+  it('refuses sampling once the budget is spent', async () => {
+    const engine = fakeEngine('A summary.');
+    const budget = { check: () => ({ allowed: false, reason: 'Budget exceeded: daily tokens' }), record: vi.fn() };
+
+    const reply = await sampleDuringCall(summarize, { sampling: true }, samplingContext(engine, budget));
+
+    expect(reply.error).toMatchObject({ message: 'Budget exceeded: daily tokens' });
+    expect(engine.startRun).not.toHaveBeenCalled();
+  });
+
+  it('neither offers nor answers sampling unless enabled', async () => {
+    const engine = fakeEngine('A summary.');
+
+    const reply = await sampleDuringCall(summarize, {}, samplingContext(engine));
+
+    expect((server!.posted('initialize')[0]!.message!.params as { capabilities: object }).capabilities).toEqual({});
+    expect(reply.error).toMatchObject({ code: -32601 });
+    expect(engine.startRun).not.toHaveBeenCalled();
+  });
+
+  it('offers sampling when enabled', async () => {
+    server = await startScriptedServer(baseHandler(() => []));
+    const tool = new McpClientTool({ transport: 'http', url: server.url, sampling: true });
+    await tool.execute({ action: 'list_tools' }, createToolContext());
+    expect(server.posted('initialize')[0]!.message!.params).toMatchObject({ capabilities: { sampling: {} } });
+    await tool.disconnect();
+  });
+
+  it('does not sample on the engine of a call that has finished', async () => {
+    server = await startScriptedServer(baseHandler(() => []), { stream: true });
+    const engine = fakeEngine('A summary.');
+    const tool = new McpClientTool({ transport: 'http', url: server.url, sampling: true });
+    await tool.execute({ action: 'list_tools' }, samplingContext(engine));
+
+    await vi.waitFor(() => expect(server!.streams).toHaveLength(1));
+    sseEvent(server.streams[0]!, { jsonrpc: '2.0', id: 'srv-2', method: 'sampling/createMessage', params: summarize });
+    await vi.waitFor(() => {
+      expect(server!.requests.some((r) => r.message?.id === 'srv-2')).toBe(true);
+    });
+
+    const reply = server.requests.find((r) => r.message?.id === 'srv-2')!.message!;
+    expect(reply.error).toMatchObject({ message: 'No engine available for sampling.' });
+    expect(engine.startRun).not.toHaveBeenCalled();
+    await tool.disconnect();
+  });
+
+  it('sends the bearer token and refreshes it after a 401', async () => {
+    const handler = baseHandler(() => []);
+    server = await startScriptedServer((message, res, headers) => {
+      if (headers.authorization !== 'Bearer fresh') {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' }).end();
+        return;
+      }
+      handler(message, res, headers);
+    });
+
+    const getToken = vi.fn(async (challenge?: string) => (challenge ? 'fresh' : undefined));
+    const tool = new McpClientTool({
+      transport: 'http',
+      url: server.url,
+      auth: { bearerToken: 'stale', getToken },
+    });
+    const result = await tool.execute({ action: 'list_tools' }, createToolContext());
+
+    expect(result.success).toBe(true);
+    expect(getToken).toHaveBeenCalledWith('Bearer error="invalid_token"');
+    expect(server.posted('initialize')[0]!.headers.authorization).toBe('Bearer stale');
+    expect(server.posted('tools/list')[0]!.headers.authorization).toBe('Bearer fresh');
+    await tool.disconnect();
+  });
+
+  it('reports a 401 without a token provider as a connection failure', async () => {
+    server = await startScriptedServer((_message, res) => { res.writeHead(401).end(); });
+    const tool = new McpClientTool({ transport: 'http', url: server.url });
+    const result = await tool.execute({ action: 'list_tools' }, createToolContext());
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/requires authorization/);
+  });
+});
@@ -6,9 +6,12 @@
  * caches their definitions, and proxies `call_tool` invocations.
  *
  * This implements the MCP client side of the protocol:
- *   1. Connect to an MCP server via stdio or HTTP/SSE transport
- *   2. Discover tools via tools/list
+ *   1. Connect to an MCP server via stdio, streamable HTTP or legacy HTTP/SSE
+ *   2. Discover tools via tools/list (refreshed on tools/list_changed)
  *   3. Proxy tool calls via tools/call
+ *   4. Read resources and prompts for McpResourceTool / McpPromptProvider
+ *   5. Answer server-initiated sampling/createMessage with the current engine,
+ *      when enabled
  *
  * Inspired by AWM's insight that universal tool interfaces dramatically
  * expand agent capability without per-tool engineering.
@@ -21,13 +24,28 @@ import type {
   ValidationResult,
   JSONSchema7,
   ToolDefinition,
+  Message,
 } from '@ch4p/core';
 import { ToolError } from '@ch4p/core';
+import type { DelegateToolContext } from './delegate.js';
 
 // ---------------------------------------------------------------------------
 // MCP Protocol Types
 // ---------------------------------------------------------------------------
 
+/** Protocol version offered by the stdio and streamable HTTP transports. */
+const LATEST_PROTOCOL_VERSION = '2025-06-18';
+
+/** Protocol version spoken by the legacy HTTP/SSE transport. */
+const LEGACY_PROTOCOL_VERSION = '2024-11-05';
+
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/** Default cap on the tokens a sampling request may ask for. */
+const DEFAULT_SAMPLING_MAX_TOKENS = 4096;
+
 /**
  * MCP JSON-RPC message envelope.
  */
@@ -40,7 +58,7 @@ interface McpRequest {
 
 interface McpResponse {
   jsonrpc: '2.0';
-  id: number;
+  id: number | string;
   result?: unknown;
   error?: {
     code: number;
@@ -49,6 +67,21 @@ interface McpResponse {
   };
 }
 
+/** Anything the server may send: a response, a request or a notification. */
+interface McpIncoming {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: McpResponse['error'];
+}
+
+/** Outcome of a server-initiated request, sent back as result or error. */
+type McpReply =
+  | { result: unknown }
+  | { error: { code: number; message: string } };
+
 interface McpToolDef {
   name: string;
   description?: string;
@@ -65,14 +98,71 @@ interface McpToolCallResult {
   isError?: boolean;
 }
 
+/** A resource entry from resources/list. */
+export interface McpResource {
+  uri: string;
+  name?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** One content item from resources/read. */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/** A prompt entry from prompts/list. */
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+/** Result of prompts/get. */
+export interface McpPromptResult {
+  description?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: { type: string; text?: string };
+  }>;
+}
+
+interface McpSamplingParams {
+  messages?: Array<{ role?: string; content?: { type?: string; text?: string } }>;
+  systemPrompt?: string;
+  maxTokens?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Transport abstraction
 // ---------------------------------------------------------------------------
 
-export type McpTransport = 'stdio' | 'sse';
+export type McpTransport = 'stdio' | 'http' | 'sse';
+
+/**
+ * OAuth bearer credentials for the HTTP transports. The token is sent as
+ * `Authorization: Bearer <token>`; obtaining it (authorization code flow,
+ * client credentials, ...) is up to the caller.
+ */
+export interface McpAuthConfig {
+  /** Static access token. */
+  bearerToken?: string;
+  /**
+   * Token provider. Called before the first request and again when the
+   * server answers 401, with its WWW-Authenticate challenge, so expired
+   * tokens can be refreshed. The request is retried once.
+   */
+  getToken?: (challenge?: string) => Promise<string | undefined>;
+}
 
 export interface McpServerConfig {
-  /** Transport type: 'stdio' for subprocess, 'sse' for HTTP/SSE. */
+  /**
+   * Transport type: 'stdio' for subprocess, 'http' for streamable HTTP,
+   * 'sse' for the legacy HTTP/SSE transport.
+   */
   transport: McpTransport;
   /** For stdio: the command to launch the MCP server. */
   command?: string;
@@ -80,12 +170,117 @@ export interface McpServerConfig {
   args?: string[];
   /** For stdio: environment variables for the subprocess. */
   env?: Record<string, string>;
-  /** For sse: the server URL (e.g., http://localhost:3001/sse). */
+  /** For http/sse: the server URL (e.g., http://localhost:3001/mcp). */
   url?: string;
+  /** For http/sse: extra request headers. */
+  headers?: Record<string, string>;
+  /** For http/sse: OAuth bearer credentials. */
+  auth?: McpAuthConfig;
+  /**
+   * Answer sampling/createMessage requests with the engine of the tool call
+   * in progress. The server then writes prompts for your engine and spends
+   * your budget, with no approval beyond that of the tool call. Default: false.
+   */
+  sampling?: boolean;
+  /** Most tokens a sampling request may ask for. Default: 4096. */
+  samplingMaxTokens?: number;
   /** Connection timeout in ms. Default: 10000. */
   timeout?: number;
 }
 
+/** Callbacks a connection uses for messages the server initiates. */
+interface McpPeerHandlers {
+  onRequest(method: string, params: Record<string, unknown> | undefined): Promise<McpReply>;
+  onNotification(method: string, params: Record<string, unknown> | undefined): void;
+}
+
+function clientCapabilities(config: McpServerConfig): Record<string, unknown> {
+  return config.sampling === true ? { sampling: {} } : {};
+}
+
+/** Answer a server-initiated request via the handlers. */
+async function answerServerRequest(
+  handlers: McpPeerHandlers,
+  message: McpIncoming,
+): Promise<McpResponse> {
+  let reply: McpReply;
+  try {
+    reply = await handlers.onRequest(message.method!, message.params);
+  } catch (err) {
+    reply = { error: { code: INTERNAL_ERROR, message: (err as Error).message } };
+  }
+  return 'error' in reply
+    ? { jsonrpc: '2.0', id: message.id!, error: reply.error }
+    : { jsonrpc: '2.0', id: message.id!, result: reply.result };
+}
+
+/**
+ * Bearer token state shared by the HTTP transports.
+ */
+class BearerAuth {
+  private token: string | undefined;
+  private loaded = false;
+
+  constructor(private readonly auth: McpAuthConfig | undefined) {
+    this.token = auth?.bearerToken;
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    if (!this.loaded && this.auth?.getToken && !this.token) {
+      this.token = await this.auth.getToken();
+    }
+    this.loaded = true;
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
+  /** Fetch a fresh token after a 401. Returns false when none is available. */
+  async refresh(challenge: string | null): Promise<boolean> {
+    if (!this.auth?.getToken) return false;
+    const next = await this.auth.getToken(challenge ?? undefined);
+    if (!next || next === this.token) return false;
+    this.token = next;
+    return true;
+  }
+}
+
+/**
+ * Parse a Server-Sent Events body into JSON messages, one per event.
+ */
+async function* readSseMessages(body: ReadableStream<Uint8Array>): AsyncGenerator<McpIncoming> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary >= 0) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        boundary = buffer.search(/\r?\n\r?\n/);
+
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (!data) continue;
+        try {
+          yield JSON.parse(data) as McpIncoming;
+        } catch {
+          // Malformed event — skip.
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
 // ---------------------------------------------------------------------------
 // MCP Connection (stdio transport)
 // ---------------------------------------------------------------------------
@@ -105,7 +300,7 @@ class StdioConnection {
   private buffer = '';
   private timeoutMs: number;
 
-  constructor(private config: McpServerConfig) {
+  constructor(private config: McpServerConfig, private handlers: McpPeerHandlers) {
     this.timeoutMs = config.timeout ?? 10_000;
   }
 
@@ -137,8 +332,8 @@ class StdioConnection {
 
     // Send initialize handshake
     await this.request('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: clientCapabilities(this.config),
       clientInfo: { name: 'ch4p', version: '0.1.0' },
     });
 
@@ -203,7 +398,7 @@ class StdioConnection {
     }
   }
 
-  private send(message: McpRequest | Record<string, unknown>): void {
+  private send(message: McpRequest | McpResponse | Record<string, unknown>): void {
     if (!this.process?.stdin?.writable) {
       throw new ToolError('MCP server stdin is not writable.', 'mcp_client');
     }
@@ -219,18 +414,36 @@ class StdioConnection {
     for (const line of lines) {
       const trimmed = line.trim();
       if (!trimmed) continue;
+      let message: McpIncoming;
       try {
-        const response = JSON.parse(trimmed) as McpResponse;
-        if (response.id !== undefined) {
-          const pending = this.pendingRequests.get(response.id);
-          if (pending) {
-            clearTimeout(pending.timeout);
-            this.pendingRequests.delete(response.id);
-            pending.resolve(response);
-          }
-        }
+        message = JSON.parse(trimmed) as McpIncoming;
       } catch {
         // Non-JSON line — ignore (could be server stderr leaking)
+        continue;
+      }
+
+      if (message.method !== undefined) {
+        if (message.id !== undefined) {
+          void answerServerRequest(this.handlers, message).then((response) => {
+            try {
+              this.send(response);
+            } catch {
+              // Server went away before the reply.
+            }
+          });
+        } else {
+          this.handlers.onNotification(message.method, message.params);
+        }
+        continue;
+      }
+
+      if (typeof message.id === 'number') {
+        const pending = this.pendingRequests.get(message.id);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(message.id);
+          pending.resolve(message as McpResponse);
+        }
       }
     }
   }
@@ -244,6 +457,212 @@ class StdioConnection {
   }
 }
 
+// ---------------------------------------------------------------------------
+// MCP Connection (streamable HTTP transport)
+// ---------------------------------------------------------------------------
+
+/**
+ * StreamableHttpConnection implements the streamable HTTP transport
+ * (protocol 2025-03-26 and later): every message is POSTed to one endpoint,
+ * and the server answers with JSON or an SSE stream that may carry its own
+ * requests and notifications before the response. A GET stream, when the
+ * server offers one, delivers messages outside any request.
+ */
+class StreamableHttpConnection {
+  private readonly url: string;
+  private readonly timeoutMs: number;
+  private readonly auth: BearerAuth;
+  private requestId = 0;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private listener: AbortController | null = null;
+
+  constructor(private config: McpServerConfig, private handlers: McpPeerHandlers) {
+    if (!config.url) {
+      throw new ToolError('MCP HTTP transport requires a url.', 'mcp_client');
+    }
+    this.url = config.url;
+    this.timeoutMs = config.timeout ?? 10_000;
+    this.auth = new BearerAuth(config.auth);
+  }
+
+  async connect(): Promise<void> {
+    const result = await this.request('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: clientCapabilities(this.config),
+      clientInfo: { name: 'ch4p', version: '0.1.0' },
+    }) as { protocolVersion?: string } | undefined;
+
+    this.protocolVersion = result?.protocolVersion ?? LATEST_PROTOCOL_VERSION;
+
+    await this.notify('notifications/initialized', {});
+    this.openListener();
+  }
+
+  async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+    const id = ++this.requestId;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.post({ jsonrpc: '2.0', id, method, params }, controller.signal);
+      const message = isEventStream(response)
+        ? await this.readResponseFromStream(response, id)
+        : await response.json() as McpResponse;
+
+      if (!message) {
+        throw new ToolError(`MCP server closed the stream without answering ${method}.`, 'mcp_client');
+      }
+      if (message.error) {
+        throw new ToolError(
+          `MCP error (${message.error.code}): ${message.error.message}`,
+          'mcp_client',
+        );
+      }
+      return message.result;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new ToolError(`MCP request timed out: ${method}`, 'mcp_client');
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  async disconnect(): Promise<void> {
+    this.listener?.abort();
+    this.listener = null;
+
+    if (this.sessionId) {
+      try {
+        await fetch(this.url, {
+          method: 'DELETE',
+          headers: await this.headers(),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch {
+        // Best-effort session termination.
+      }
+      this.sessionId = null;
+    }
+  }
+
+  /** POST a message that expects no response (notification or reply). */
+  private async send(message: McpResponse | Record<string, unknown>): Promise<void> {
+    const response = await this.post(message, AbortSignal.timeout(this.timeoutMs));
+    await response.body?.cancel();
+  }
+
+  private async post(
+    message: McpRequest | McpResponse | Record<string, unknown>,
+    signal: AbortSignal,
+    retried = false,
+  ): Promise<Response> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...await this.headers(),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+
+    if (response.status === 401 && !retried) {
+      await response.body?.cancel();
+      if (await this.auth.refresh(response.headers.get('www-authenticate'))) {
+        return this.post(message, signal, true);
+      }
+      throw new ToolError('MCP server requires authorization (HTTP 401).', 'mcp_client');
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      await response.body?.cancel();
+      throw new ToolError('MCP session expired; reconnect to continue.', 'mcp_client');
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ToolError(`MCP HTTP request failed: HTTP ${response.status}`, 'mcp_client');
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+    return response;
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      ...await this.auth.headers(),
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion;
+    return headers;
+  }
+
+  /** Read an SSE response, handling server messages until our response arrives. */
+  private async readResponseFromStream(response: Response, id: number): Promise<McpResponse | undefined> {
+    if (!response.body) return undefined;
+    for await (const message of readSseMessages(response.body)) {
+      if (message.method === undefined && message.id === id) {
+        return message as McpResponse;
+      }
+      this.dispatch(message);
+    }
+    return undefined;
+  }
+
+  private dispatch(message: McpIncoming): void {
+    if (message.method === undefined) return;
+    if (message.id !== undefined) {
+      void answerServerRequest(this.handlers, message)
+        .then((reply) => this.send(reply))
+        .catch(() => {
+          // Reply could not be delivered — the server will time out.
+        });
+    } else {
+      this.handlers.onNotification(message.method, message.params);
+    }
+  }
+
+  /** Open the optional GET stream for server-initiated messages. */
+  private openListener(): void {
+    const controller = new AbortController();
+    this.listener = controller;
+
+    void (async () => {
+      try {
+        const response = await fetch(this.url, {
+          method: 'GET',
+          headers: { ...await this.headers(), Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!response.ok || !isEventStream(response) || !response.body) {
+          // 405: the server has no standalone stream.
+          await response.body?.cancel();
+          return;
+        }
+        for await (const message of readSseMessages(response.body)) {
+          this.dispatch(message);
+        }
+      } catch {
+        // Stream closed or aborted on disconnect.
+      }
+    })();
+  }
+}
+
+function isEventStream(response: Response): boolean {
+  return (response.headers?.get('content-type') ?? '').includes('text/event-stream');
+}
+
 // ---------------------------------------------------------------------------
 // MCP Connection (SSE transport)
 // ---------------------------------------------------------------------------
@@ -255,19 +674,21 @@ class SseConnection {
   private baseUrl: string;
   private sessionUrl: string | null = null;
   private timeoutMs: number;
+  private auth: BearerAuth;
 
-  constructor(config: McpServerConfig) {
+  constructor(private config: McpServerConfig) {
     if (!config.url) {
       throw new ToolError('MCP SSE transport requires a url.', 'mcp_client');
     }
     this.baseUrl = config.url;
     this.timeoutMs = config.timeout ?? 10_000;
+    this.auth = new BearerAuth(config.auth);
   }
 
   async connect(): Promise<void> {
     // Send initialize handshake via POST
     const result = await this.request('initialize', {
-      protocolVersion: '2024-11-05',
+      protocolVersion: LEGACY_PROTOCOL_VERSION,
       capabilities: {},
       clientInfo: { name: 'ch4p', version: '0.1.0' },
     });
@@ -281,7 +702,7 @@ class SseConnection {
     await this.request('notifications/initialized', {});
   }
 
-  async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+  async request(method: string, params?: Record<string, unknown>, retried = false): Promise<unknown> {
     const url = this.sessionUrl ?? this.baseUrl;
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
@@ -297,6 +718,8 @@ class SseConnection {
       const response = await fetch(url, {
         method: 'POST',
         headers: {
+          ...this.config.headers,
+          ...await this.auth.headers(),
           'Content-Type': 'application/json',
           Accept: 'application/json',
         },
@@ -305,6 +728,10 @@ class SseConnection {
       });
 
       if (!response.ok) {
+        if (response.status === 401 && !retried
+          && await this.auth.refresh(response.headers.get('www-authenticate'))) {
+          return this.request(method, params, true);
+        }
         throw new ToolError(
           `MCP SSE request failed: HTTP ${response.status}`,
           'mcp_client',
@@ -335,12 +762,14 @@ class SseConnection {
 // Connection factory
 // ---------------------------------------------------------------------------
 
-type McpConnection = StdioConnection | SseConnection;
+type McpConnection = StdioConnection | StreamableHttpConnection | SseConnection;
 
-function createConnection(config: McpServerConfig): McpConnection {
+function createConnection(config: McpServerConfig, handlers: McpPeerHandlers): McpConnection {
   switch (config.transport) {
     case 'stdio':
-      return new StdioConnection(config);
+      return new StdioConnection(config, handlers);
+    case 'http':
+      return new StreamableHttpConnection(config, handlers);
     case 'sse':
       return new SseConnection(config);
     default:
@@ -363,14 +792,18 @@ interface McpClientArgs {
   args?: Record<string, unknown>;
 }
 
+/** Server lists the client caches and refreshes on list_changed. */
+export type McpListKind = 'tools' | 'prompts' | 'resources';
+
 export class McpClientTool implements ITool {
   readonly name = 'mcp_client';
   readonly description =
     'Connect to a Model Context Protocol (MCP) server and interact with its tools. ' +
     'Use action "list_tools" to discover available tools, or "call_tool" to execute one. ' +
-    'Supports stdio and SSE transports.';
+    'Supports stdio, streamable HTTP and SSE transports.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -395,8 +828,17 @@ export class McpClientTool implements ITool {
   };
 
   private connection: McpConnection | null = null;
+  private connecting: Promise<McpConnection> | null = null;
   private cachedTools: McpToolDef[] = [];
   private serverConfig: McpServerConfig;
+  private listChangedListeners: Array<(kind: McpListKind) => void> = [];
+  /** Context of the tool call in progress; sampling runs on its engine. */
+  private activeContext: DelegateToolContext | null = null;
+
+  private readonly handlers: McpPeerHandlers = {
+    onRequest: (method, params) => this.handleServerRequest(method, params),
+    onNotification: (method) => this.handleNotification(method),
+  };
 
   constructor(serverConfig: McpServerConfig) {
     this.serverConfig = serverConfig;
@@ -437,22 +879,25 @@ export class McpClientTool implements ITool {
       };
     }
 
-    const { action, tool, args: toolArgs } = args as McpClientArgs;
+    this.activeContext = context as DelegateToolContext;
+    try {
+      return await this.run(args as McpClientArgs, context);
+    } finally {
+      // A sampling request arriving later must not run on a finished call's engine.
+      if (this.activeContext === context) this.activeContext = null;
+    }
+  }
 
+  private async run({ action, tool, args: toolArgs }: McpClientArgs, context: ToolContext): Promise<ToolResult> {
     // Ensure connection
-    if (!this.connection) {
-      try {
-        context.onProgress('Connecting to MCP server...');
-        this.connection = createConnection(this.serverConfig);
-        await this.connection.connect();
-        context.onProgress('Connected to MCP server.');
-      } catch (err) {
-        return {
-          success: false,
-          output: '',
-          error: `Failed to connect to MCP server: ${(err as Error).message}`,
-        };
-      }
+    try {
+      await this.ensureConnected(context);
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `Failed to connect to MCP server: ${(err as Error).message}`,
+      };
     }
 
     if (context.abortSignal.aborted) {
@@ -469,17 +914,80 @@ export class McpClientTool implements ITool {
     }
   }
 
+  /**
+   * Connect to the server unless already connected. Shared by
+   * McpResourceTool and McpPromptProvider, which reuse this connection.
+   */
+  async ensureConnected(context?: ToolContext): Promise<void> {
+    if (this.connection) return;
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        context?.onProgress('Connecting to MCP server...');
+        const connection = createConnection(this.serverConfig, this.handlers);
+        try {
+          await connection.connect();
+        } catch (err) {
+          await connection.disconnect().catch(() => {});
+          throw err;
+        }
+        context?.onProgress('Connected to MCP server.');
+        return connection;
+      })();
+    }
+    try {
+      this.connection = await this.connecting;
+    } finally {
+      this.connecting = null;
+    }
+  }
+
+  /** List the server's resources (resources/list, following pagination). */
+  async listResources(): Promise<McpResource[]> {
+    return this.listPaged<McpResource>('resources/list', 'resources');
+  }
+
+  /** Read one resource by URI (resources/read). */
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    await this.ensureConnected();
+    const result = await this.connection!.request('resources/read', { uri }) as {
+      contents?: McpResourceContents[];
+    };
+    return result.contents ?? [];
+  }
+
+  /** List the server's prompts (prompts/list, following pagination). */
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.listPaged<McpPrompt>('prompts/list', 'prompts');
+  }
+
+  /** Render one prompt (prompts/get). */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<McpPromptResult> {
+    await this.ensureConnected();
+    const result = await this.connection!.request('prompts/get', {
+      name,
+      arguments: args ?? {},
+    }) as McpPromptResult;
+    return { description: result.description, messages: result.messages ?? [] };
+  }
+
+  /**
+   * Subscribe to list_changed notifications. The tool cache is refreshed
+   * before listeners run for 'tools'. Returns an unsubscribe function.
+   */
+  onListChanged(listener: (kind: McpListKind) => void): () => void {
+    this.listChangedListeners.push(listener);
+    return () => {
+      this.listChangedListeners = this.listChangedListeners.filter((l) => l !== listener);
+    };
+  }
+
   /**
    * Discover available tools on the connected MCP server.
    */
   private async listTools(context: ToolContext): Promise<ToolResult> {
     try {
       context.onProgress('Discovering MCP tools...');
-      const result = await this.connection!.request('tools/list', {}) as {
-        tools: McpToolDef[];
-      };
-
-      this.cachedTools = result.tools ?? [];
+      await this.refreshTools();
 
       const toolList = this.cachedTools.map((t) => ({
         name: t.name,
@@ -503,6 +1011,26 @@ export class McpClientTool implements ITool {
     }
   }
 
+  private async refreshTools(): Promise<void> {
+    const result = await this.connection!.request('tools/list', {}) as {
+      tools: McpToolDef[];
+    };
+    this.cachedTools = result.tools ?? [];
+  }
+
+  private async listPaged<T>(method: string, key: string): Promise<T[]> {
+    await this.ensureConnected();
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.connection!.request(method, cursor ? { cursor } : {}) as
+        Record<string, unknown> & { nextCursor?: string };
+      items.push(...((result[key] as T[] | undefined) ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return items;
+  }
+
   /**
    * Execute a tool on the connected MCP server via tools/call.
    */
@@ -544,6 +1072,114 @@ export class McpClientTool implements ITool {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Server-initiated messages
+  // -----------------------------------------------------------------------
+
+  private async handleServerRequest(
+    method: string,
+    params: Record<string, unknown> | undefined,
+  ): Promise<McpReply> {
+    switch (method) {
+      case 'ping':
+        return { result: {} };
+      case 'sampling/createMessage':
+        if (this.serverConfig.sampling !== true) break;
+        return this.createMessage((params ?? {}) as McpSamplingParams);
+    }
+    return { error: { code: METHOD_NOT_FOUND, message: `Method not found: ${method}` } };
+  }
+
+  private handleNotification(method: string): void {
+    const match = /^notifications\/(tools|prompts|resources)\/list_changed$/.exec(method);
+    if (!match) return;
+    const kind = match[1] as McpListKind;
+
+    const notify = () => {
+      for (const listener of this.listChangedListeners) {
+        try {
+          listener(kind);
+        } catch {
+          // Listener errors must not break the connection.
+        }
+      }
+    };
+
+    if (kind === 'tools' && this.connection) {
+      this.refreshTools().then(notify, notify);
+    } else {
+      notify();
+    }
+  }
+
+  /**
+   * Answer sampling/createMessage by running the conversation on the engine
+   * of the current tool call. Only text content is supported. The call is
+   * checked against and billed to the run's budget like any other.
+   */
+  private async createMessage(params: McpSamplingParams): Promise<McpReply> {
+    const context = this.activeContext;
+    const engine = context?.resolveEngine?.();
+    if (!context || !engine) {
+      return { error: { code: INTERNAL_ERROR, message: 'No engine available for sampling.' } };
+    }
+
+    const messages: Message[] = [];
+    for (const m of params.messages ?? []) {
+      if (m.content?.type !== 'text' || typeof m.content.text !== 'string') {
+        return { error: { code: INVALID_PARAMS, message: 'Only text sampling content is supported.' } };
+      }
+      messages.push({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content.text });
+    }
+    if (messages.length === 0) {
+      return { error: { code: INVALID_PARAMS, message: 'Sampling request has no messages.' } };
+    }
+
+    const budget = context.budget?.check();
+    if (budget && !budget.allowed) {
+      return { error: { code: INTERNAL_ERROR, message: budget.reason ?? 'Budget exceeded.' } };
+    }
+
+    const cap = this.serverConfig.samplingMaxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS;
+    context.onProgress('MCP server requested a completion...');
+    const handle = await engine.startRun(
+      {
+        sessionId: `${context.sessionId}-mcp-sampling-${Date.now()}`,
+        messages,
+        model: context.defaultModel,
+        systemPrompt: params.systemPrompt,
+        config: { maxTokens: Math.min(params.maxTokens ?? cap, cap) },
+      },
+      { signal: context.abortSignal },
+    );
+
+    let answer = '';
+    for await (const event of handle.events) {
+      if (event.type === 'text_delta') answer += event.delta;
+      else if (event.type === 'completed') {
+        answer = event.answer;
+        if (event.usage) {
+          context.budget?.record({
+            provider: event.provider ?? engine.id,
+            model: event.model ?? context.defaultModel ?? engine.id,
+            usage: event.usage,
+          });
+        }
+      } else if (event.type === 'error') {
+        return { error: { code: INTERNAL_ERROR, message: `Sampling failed: ${event.error.message}` } };
+      }
+    }
+
+    return {
+      result: {
+        role: 'assistant',
+        content: { type: 'text', text: answer },
+        model: context.defaultModel ?? engine.id,
+        stopReason: 'endTurn',
+      },
+    };
+  }
+
   /**
    * Get the cached tool definitions from the MCP server as ch4p ToolDefinitions.
    * Useful for exposing MCP tools as native tool definitions to the LLM.
@@ -0,0 +1,134 @@
+import { vi } from 'vitest';
+import type { McpClientTool, McpListKind, McpPrompt, McpPromptResult } from './mcp-client.js';
+import { McpPromptProvider } from './mcp-prompts.js';
+import { combineSkillProviders, LoadSkillTool } from './load-skill.js';
+import type { SkillProvider } from './load-skill.js';
+import type { ISecurityPolicy, ToolContext } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeClient {
+  client: McpClientTool;
+  prompts: McpPrompt[];
+  emit(kind: McpListKind): void;
+}
+
+function fakeClient(rendered: Record<string, McpPromptResult>): FakeClient {
+  const listeners: Array<(kind: McpListKind) => void> = [];
+  const state: FakeClient = {
+    prompts: Object.keys(rendered).map((name) => ({ name, description: `${name} prompt` })),
+    emit: (kind) => listeners.forEach((l) => l(kind)),
+    client: {
+      listPrompts: vi.fn(async () => state.prompts),
+      getPrompt: vi.fn(async (name: string) => rendered[name]!),
+      onListChanged: vi.fn((listener: (kind: McpListKind) => void) => {
+        listeners.push(listener);
+        return () => {};
+      }),
+    } as unknown as McpClientTool,
+  };
+  return state;
+}
+
+function userPrompt(text: string): McpPromptResult {
+  return { messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+// ---------------------------------------------------------------------------
+// McpPromptProvider
+// ---------------------------------------------------------------------------
+
+describe('McpPromptProvider', () => {
+  it('is empty until refreshed', () => {
+    const provider = new McpPromptProvider(fakeClient({ review: userPrompt('Review it.') }).client);
+    expect(provider.names()).toEqual([]);
+  });
+
+  it('renders prompts under a prefix', async () => {
+    const provider = new McpPromptProvider(fakeClient({ review: userPrompt('Review it.') }).client);
+    await provider.refresh();
+
+    expect(provider.names()).toEqual(['mcp:review']);
+    expect(provider.has('mcp:review')).toBe(true);
+    expect(provider.getSkillContext('mcp:review')).toBe('Review it.');
+    expect(provider.getDescriptions()).toEqual([{ name: 'mcp:review', description: 'review prompt' }]);
+  });
+
+  it('labels multi-message prompts by role', async () => {
+    const provider = new McpPromptProvider(fakeClient({
+      chat: {
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Hi' } },
+          { role: 'assistant', content: { type: 'text', text: 'Hello' } },
+          { role: 'user', content: { type: 'image' } },
+        ],
+      },
+    }).client, { prefix: 'docs' });
+    await provider.refresh();
+
+    expect(provider.getSkillContext('docs:chat')).toBe('**user:** Hi\n\n**assistant:** Hello');
+  });
+
+  it('skips prompts with required arguments', async () => {
+    const fake = fakeClient({ review: userPrompt('Review it.'), translate: userPrompt('unused') });
+    fake.prompts[1]!.arguments = [{ name: 'language', required: true }];
+    const provider = new McpPromptProvider(fake.client);
+    await provider.refresh();
+
+    expect(provider.names()).toEqual(['mcp:review']);
+    expect(fake.client.getPrompt).not.toHaveBeenCalledWith('translate');
+  });
+
+  it('refreshes on prompts/list_changed', async () => {
+    const fake = fakeClient({ review: userPrompt('Review it.'), plan: userPrompt('Plan it.') });
+    const all = fake.prompts;
+    fake.prompts = [all[0]!];
+    const provider = new McpPromptProvider(fake.client);
+    await provider.refresh();
+    expect(provider.names()).toEqual(['mcp:review']);
+
+    fake.prompts = all;
+    fake.emit('tools');
+    fake.emit('prompts');
+    await vi.waitFor(() => expect(provider.names()).toEqual(['mcp:review', 'mcp:plan']));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// combineSkillProviders
+// ---------------------------------------------------------------------------
+
+describe('combineSkillProviders', () => {
+  const local: SkillProvider = {
+    has: (name) => name === 'review' || name === 'mcp:review',
+    names: () => ['review', 'mcp:review'],
+    getSkillContext: (name) => `local ${name}`,
+  };
+
+  it('loads MCP prompts next to local skills', async () => {
+    const provider = new McpPromptProvider(fakeClient({
+      review: userPrompt('remote review'),
+      plan: userPrompt('remote plan'),
+    }).client);
+    await provider.refresh();
+    const combined = combineSkillProviders(local, provider);
+
+    expect(combined.names()).toEqual(['review', 'mcp:review', 'mcp:plan']);
+    // Earlier providers win on clashes.
+    expect(combined.getSkillContext('mcp:review')).toBe('local mcp:review');
+    expect(combined.getSkillContext('mcp:plan')).toBe('remote plan');
+    expect(combined.has('missing')).toBe(false);
+
+    const ctx: ToolContext = {
+      sessionId: 's',
+      cwd: '/tmp',
+      securityPolicy: null as unknown as ISecurityPolicy,
+      abortSignal: new AbortController().signal,
+      onProgress: vi.fn(),
+    };
+    const result = await new LoadSkillTool(combined).execute({ name: 'mcp:plan' }, ctx);
+    expect(result.output).toBe('# Skill: mcp:plan\n\nremote plan');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * MCP prompt provider — surfaces an MCP server's prompts as skills.
+ *
+ * Implements SkillProvider so MCP prompts can be loaded through
+ * LoadSkillTool next to local skills (see combineSkillProviders). Prompts
+ * are fetched with prompts/get ahead of time because SkillProvider is
+ * synchronous; prompts that require arguments cannot be pre-rendered and
+ * are skipped. The cache is refreshed on prompts/list_changed.
+ */
+
+import type { McpClientTool, McpPromptResult } from './mcp-client.js';
+import type { SkillProvider } from './load-skill.js';
+
+export interface McpPromptProviderOpts {
+  /** Prefix for prompt names, joined with ':'. Default: 'mcp'. */
+  prefix?: string;
+}
+
+interface CachedPrompt {
+  description: string;
+  body: string;
+}
+
+export class McpPromptProvider implements SkillProvider {
+  private readonly prefix: string;
+  private prompts = new Map<string, CachedPrompt>();
+
+  constructor(private readonly client: McpClientTool, opts?: McpPromptProviderOpts) {
+    this.prefix = opts?.prefix ?? 'mcp';
+    client.onListChanged((kind) => {
+      if (kind === 'prompts') {
+        this.refresh().catch(() => {
+          // Keep the previous cache when the server is unreachable.
+        });
+      }
+    });
+  }
+
+  /** Fetch the server's prompts and render those without required arguments. */
+  async refresh(): Promise<void> {
+    const prompts = new Map<string, CachedPrompt>();
+    for (const prompt of await this.client.listPrompts()) {
+      if (prompt.arguments?.some((a) => a.required)) continue;
+      const result = await this.client.getPrompt(prompt.name);
+      const body = renderPrompt(result);
+      if (!body) continue;
+      prompts.set(`${this.prefix}:${prompt.name}`, {
+        description: prompt.description ?? result.description ?? '',
+        body,
+      });
+    }
+    this.prompts = prompts;
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  names(): string[] {
+    return [...this.prompts.keys()];
+  }
+
+  getSkillContext(name: string): string | undefined {
+    return this.prompts.get(name)?.body;
+  }
+
+  getDescriptions(): { name: string; description: string }[] {
+    return [...this.prompts].map(([name, p]) => ({ name, description: p.description }));
+  }
+}
+
+function renderPrompt(result: McpPromptResult): string {
+  const texts = result.messages.filter((m) => m.content.type === 'text' && m.content.text);
+  // A single user message is the instruction itself; label multi-turn prompts.
+  if (texts.length === 1 && texts[0]!.role === 'user') return texts[0]!.content.text!;
+  return texts.map((m) => `**${m.role}:** ${m.content.text}`).join('\n\n');
+}
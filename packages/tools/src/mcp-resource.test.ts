@@ -0,0 +1,120 @@
+import { vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IMemoryBackend, ISecurityPolicy, ToolContext } from '@ch4p/core';
+import { McpClientTool } from './mcp-client.js';
+import { McpResourceTool } from './mcp-resource.js';
+import { McpServer } from './mcp-server.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const realFetch = globalThis.fetch;
+
+function createToolContext(): ToolContext {
+  return {
+    sessionId: 'test-session',
+    cwd: '/tmp',
+    securityPolicy: null as unknown as ISecurityPolicy,
+    abortSignal: new AbortController().signal,
+    onProgress: vi.fn(),
+  };
+}
+
+function makeMemory(): IMemoryBackend {
+  const entries = [
+    { key: 'notes/todo', content: 'buy milk' },
+    { key: 'notes/done', content: 'wrote tests' },
+  ];
+  return {
+    id: 'test',
+    store: vi.fn(),
+    recall: vi.fn(async () => []),
+    forget: vi.fn(async () => true),
+    list: vi.fn(async (prefix?: string) => entries
+      .filter((e) => !prefix || e.key.startsWith(prefix))
+      .map((e) => ({ ...e, createdAt: new Date(), updatedAt: new Date() }))),
+    reindex: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+let httpServer: Server;
+let client: McpClientTool;
+let tool: McpResourceTool;
+
+beforeEach(async () => {
+  globalThis.fetch = realFetch;
+  const mcp = new McpServer({
+    tools: [],
+    securityPolicy: { sanitizeOutput: (text: string) => ({ clean: text, redacted: false }) } as ISecurityPolicy,
+    cwd: '/tmp',
+    memoryBackend: makeMemory(),
+    httpToken: 'test-token',
+  });
+  httpServer = createServer((req, res) => mcp.handleHttp(req, res));
+  await new Promise<void>((r) => httpServer.listen(0, '127.0.0.1', r));
+  client = new McpClientTool({
+    transport: 'http',
+    url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`,
+    headers: { Authorization: 'Bearer test-token' },
+  });
+  tool = new McpResourceTool(client);
+});
+
+afterEach(async () => {
+  await client.disconnect();
+  httpServer.closeAllConnections();
+  await new Promise<void>((r) => httpServer.close(() => r()));
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('McpResourceTool', () => {
+  it('is a lightweight read tool', () => {
+    expect(tool.name).toBe('mcp_resource');
+    expect(tool.weight).toBe('lightweight');
+    expect(tool.actionType).toBe('read');
+  });
+
+  it('validates arguments', () => {
+    expect(tool.validate({ action: 'list' }).valid).toBe(true);
+    expect(tool.validate({ action: 'read', uri: 'memory://x' }).valid).toBe(true);
+    expect(tool.validate({ action: 'read' }).errors).toContain('uri must be a non-empty string when action is "read".');
+    expect(tool.validate({ action: 'write' }).errors).toContain('action must be "list" or "read".');
+  });
+
+  it('lists resources from the server', async () => {
+    const result = await tool.execute({ action: 'list' }, createToolContext());
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.output)).toEqual([
+      { uri: 'memory://notes%2Ftodo', name: 'notes/todo', mimeType: 'text/plain' },
+      { uri: 'memory://notes%2Fdone', name: 'notes/done', mimeType: 'text/plain' },
+    ]);
+    expect(result.metadata).toEqual({ resourceCount: 2 });
+  });
+
+  it('reads a resource by uri', async () => {
+    const result = await tool.execute({ action: 'read', uri: 'memory://notes%2Ftodo' }, createToolContext());
+    expect(result).toMatchObject({ success: true, output: 'buy milk' });
+  });
+
+  it('reports server errors for unknown resources', async () => {
+    const result = await tool.execute({ action: 'read', uri: 'memory://missing' }, createToolContext());
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/MCP resource read failed: .*Unknown resource/);
+  });
+
+  it('shares the client connection', async () => {
+    await tool.execute({ action: 'list' }, createToolContext());
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    await client.execute({ action: 'list_tools' }, createToolContext());
+    const methods = fetchSpy.mock.calls
+      .map(([, init]) => init?.body ? (JSON.parse(init.body as string) as { method?: string }).method : undefined);
+    expect(methods).not.toContain('initialize');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * MCP Resource tool — read-only access to an MCP server's resources.
+ *
+ * Lightweight companion to McpClientTool that shares its connection. Lists
+ * resources via resources/list and reads them via resources/read. Because
+ * it never invokes remote tools it is classified as a read, so it runs
+ * without confirmation where mcp_client (an execute) would not.
+ */
+
+import type {
+  ITool,
+  ToolContext,
+  ToolResult,
+  ValidationResult,
+  JSONSchema7,
+} from '@ch4p/core';
+import type { McpClientTool, McpResourceContents } from './mcp-client.js';
+
+interface McpResourceArgs {
+  action: 'list' | 'read';
+  /** Required when action is 'read'. */
+  uri?: string;
+}
+
+export class McpResourceTool implements ITool {
+  readonly name = 'mcp_resource';
+  readonly description =
+    'Read resources published by the connected MCP server. ' +
+    'Use action "list" to see available resources, or "read" with a uri to fetch one.';
+
+  readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
+
+  readonly parameters: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'read'],
+        description: 'The action to perform: "list" discovers resources, "read" fetches one.',
+      },
+      uri: {
+        type: 'string',
+        description: 'The resource URI to read. Required when action is "read".',
+      },
+    },
+    required: ['action'],
+    additionalProperties: false,
+  };
+
+  constructor(private readonly client: McpClientTool) {}
+
+  validate(args: unknown): ValidationResult {
+    if (typeof args !== 'object' || args === null) {
+      return { valid: false, errors: ['Arguments must be an object.'] };
+    }
+
+    const { action, uri } = args as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (action !== 'list' && action !== 'read') {
+      errors.push('action must be "list" or "read".');
+    }
+
+    if (action === 'read' && (typeof uri !== 'string' || uri.trim().length === 0)) {
+      errors.push('uri must be a non-empty string when action is "read".');
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const validation = this.validate(args);
+    if (!validation.valid) {
+      return {
+        success: false,
+        output: '',
+        error: `Invalid arguments: ${validation.errors!.join(' ')}`,
+      };
+    }
+
+    const { action, uri } = args as McpResourceArgs;
+
+    try {
+      await this.client.ensureConnected(context);
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `Failed to connect to MCP server: ${(err as Error).message}`,
+      };
+    }
+
+    try {
+      if (action === 'list') {
+        const resources = await this.client.listResources();
+        return {
+          success: true,
+          output: JSON.stringify(resources, null, 2),
+          metadata: { resourceCount: resources.length },
+        };
+      }
+
+      context.onProgress(`Reading MCP resource: ${uri}...`);
+      const contents = await this.client.readResource(uri!.trim());
+      return {
+        success: true,
+        output: contents.map(formatContents).join('\n\n') || '(empty resource)',
+        metadata: { uri, contentBlocks: contents.length },
+      };
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `MCP resource ${action} failed: ${(err as Error).message}`,
+      };
+    }
+  }
+}
+
+function formatContents(contents: McpResourceContents): string {
+  if (typeof contents.text === 'string') return contents.text;
+  if (typeof contents.blob === 'string') {
+    // Base64 encodes 3 bytes per 4 characters.
+    const bytes = Math.floor((contents.blob.length * 3) / 4);
+    return `[binary content: ${contents.mimeType ?? 'application/octet-stream'}, ~${bytes} bytes]`;
+  }
+  return '';
+}
@@ -0,0 +1,308 @@
+import { vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { PassThrough } from 'node:stream';
+import type { IMemoryBackend, ISecurityPolicy, ITool, MemoryEntry, ToolContext } from '@ch4p/core';
+import { McpServer } from './mcp-server.js';
+import type { JsonRpcResponse, McpServerOpts, McpSkillSource } from './mcp-server.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Policy stub: only 'execute' actions need confirmation (like supervised). */
+function makePolicy(): ISecurityPolicy {
+  return {
+    autonomyLevel: 'supervised',
+    validatePath: () => ({ allowed: true }),
+    validateCommand: () => ({ allowed: true }),
+    requiresConfirmation: (action) => action.type === 'execute',
+    audit: () => [],
+    sanitizeOutput: (text) => ({
+      clean: text.replace(/sk-[a-z0-9]+/g, '[REDACTED]'),
+      redacted: /sk-[a-z0-9]+/.test(text),
+    }),
+    validateInput: () => ({ safe: true, threats: [] }),
+  } as ISecurityPolicy;
+}
+
+function makeTool(name: string, actionType: ITool['actionType'], output = `${name} ran`): ITool {
+  return {
+    name,
+    description: `The ${name} tool`,
+    parameters: { type: 'object', properties: { q: { type: 'string' } } },
+    weight: 'lightweight',
+    actionType,
+    validate: (args) => (typeof (args as { q?: unknown }).q === 'number'
+      ? { valid: false, errors: ['q must be a string.'] }
+      : { valid: true }),
+    execute: vi.fn(async () => ({ success: true, output })),
+  };
+}
+
+function makeMemory(entries: Array<Pick<MemoryEntry, 'key' | 'content'>>): IMemoryBackend {
+  return {
+    id: 'test',
+    store: vi.fn(),
+    recall: vi.fn(async () => []),
+    forget: vi.fn(async () => true),
+    list: vi.fn(async (prefix?: string) => entries
+      .filter((e) => !prefix || e.key.startsWith(prefix))
+      .map((e) => ({ ...e, createdAt: new Date(), updatedAt: new Date() }))),
+    reindex: vi.fn(),
+    close: vi.fn(),
+  };
+}
+
+const skills: McpSkillSource = {
+  has: (name) => name === 'code-review',
+  names: () => ['code-review'],
+  getSkillContext: (name) => (name === 'code-review' ? 'Review the diff carefully.' : undefined),
+  getDescriptions: () => [{ name: 'code-review', description: 'Review code' }],
+};
+
+function makeServer(overrides?: Partial<McpServerOpts>): McpServer {
+  return new McpServer({
+    tools: [makeTool('file_read', 'read'), makeTool('bash', 'execute')],
+    securityPolicy: makePolicy(),
+    cwd: '/workspace',
+    ...overrides,
+  });
+}
+
+async function call(server: McpServer, method: string, params?: Record<string, unknown>): Promise<JsonRpcResponse> {
+  return (await server.handleMessage({ jsonrpc: '2.0', id: 1, method, params })) as JsonRpcResponse;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Lifecycle
+// ---------------------------------------------------------------------------
+
+describe('McpServer lifecycle', () => {
+  it('echoes a supported protocol version on initialize', async () => {
+    const res = await call(makeServer({ version: '1.2.3' }), 'initialize', { protocolVersion: '2024-11-05' });
+    const result = res.result as Record<string, unknown>;
+    expect(result.protocolVersion).toBe('2024-11-05');
+    expect(result.serverInfo).toEqual({ name: 'ch4p', version: '1.2.3' });
+    expect(result.capabilities).toEqual({ tools: {}, prompts: {}, resources: {} });
+  });
+
+  it('falls back to its newest version for unknown requests', async () => {
+    const res = await call(makeServer(), 'initialize', { protocolVersion: '1999-01-01' });
+    expect((res.result as Record<string, unknown>).protocolVersion).toBe('2025-06-18');
+  });
+
+  it('does not answer notifications', async () => {
+    const res = await makeServer().handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    expect(res).toBeNull();
+  });
+
+  it('returns method-not-found and invalid-request errors', async () => {
+    const server = makeServer();
+    expect((await call(server, 'sampling/createMessage')).error!.code).toBe(-32601);
+    const invalid = (await server.handleMessage({ id: 1, method: 'ping' })) as JsonRpcResponse;
+    expect(invalid.error!.code).toBe(-32600);
+  });
+
+  it('answers batches in one array', async () => {
+    const res = await makeServer().handleMessage([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'ping' },
+    ]);
+    expect(res).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: 2, result: {} },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Tools
+// ---------------------------------------------------------------------------
+
+describe('McpServer tools', () => {
+  it('hides tools the policy gates unless the host confirms', async () => {
+    const hidden = await call(makeServer(), 'tools/list');
+    expect((hidden.result as { tools: Array<{ name: string }> }).tools.map((t) => t.name)).toEqual(['file_read']);
+
+    const shown = await call(makeServer({ hostConfirms: true }), 'tools/list');
+    const tools = (shown.result as { tools: Array<Record<string, unknown>> }).tools;
+    expect(tools.map((t) => t.name)).toEqual(['file_read', 'bash']);
+    expect(tools[0]!.annotations).toEqual({ readOnlyHint: true, destructiveHint: false });
+    expect(tools[1]!.annotations).toEqual({ readOnlyHint: false, destructiveHint: true });
+    expect(tools[0]!.inputSchema).toEqual({ type: 'object', properties: { q: { type: 'string' } } });
+  });
+
+  it('runs a tool with a context bound to the policy and cwd', async () => {
+    const tool = makeTool('file_read', 'read');
+    const policy = makePolicy();
+    const memoryBackend = makeMemory([]);
+    const server = makeServer({ tools: [tool], securityPolicy: policy, memoryBackend });
+
+    const res = await call(server, 'tools/call', { name: 'file_read', arguments: { q: 'x' } });
+    expect(res.result).toEqual({ content: [{ type: 'text', text: 'file_read ran' }], isError: false });
+
+    const context = vi.mocked(tool.execute).mock.calls[0]![1] as ToolContext & { memoryBackend?: IMemoryBackend };
+    expect(context.cwd).toBe('/workspace');
+    expect(context.securityPolicy).toBe(policy);
+    expect(context.memoryBackend).toBe(memoryBackend);
+  });
+
+  it('refuses gated tools without host confirmation', async () => {
+    const res = await call(makeServer(), 'tools/call', { name: 'bash', arguments: {} });
+    const result = res.result as { isError: boolean; content: Array<{ text: string }> };
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain('--trust-host');
+  });
+
+  it('reports validation failures as tool errors', async () => {
+    const res = await call(makeServer(), 'tools/call', { name: 'file_read', arguments: { q: 5 } });
+    const result = res.result as { isError: boolean; content: Array<{ text: string }> };
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain('q must be a string.');
+  });
+
+  it('sanitizes tool output', async () => {
+    const server = makeServer({ tools: [makeTool('file_read', 'read', 'key=sk-abc123')] });
+    const res = await call(server, 'tools/call', { name: 'file_read', arguments: {} });
+    expect((res.result as { content: Array<{ text: string }> }).content[0]!.text).toBe('key=[REDACTED]');
+  });
+
+  it('rejects unknown tools with invalid params', async () => {
+    const res = await call(makeServer(), 'tools/call', { name: 'nope' });
+    expect(res.error!.code).toBe(-32602);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Prompts and resources
+// ---------------------------------------------------------------------------
+
+describe('McpServer prompts and resources', () => {
+  it('exposes skills as prompts', async () => {
+    const server = makeServer({ skills });
+    const list = await call(server, 'prompts/list');
+    expect(list.result).toEqual({ prompts: [{ name: 'code-review', description: 'Review code' }] });
+
+    const prompt = await call(server, 'prompts/get', { name: 'code-review' });
+    expect(prompt.result).toEqual({
+      description: 'Review code',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Review the diff carefully.' } }],
+    });
+    expect((await call(server, 'prompts/get', { name: 'missing' })).error!.code).toBe(-32602);
+  });
+
+  it('exposes memory entries as resources', async () => {
+    const server = makeServer({
+      memoryBackend: makeMemory([
+        { key: 'u:telegram:1/prefs', content: 'likes tea' },
+        { key: 'u:telegram:1/prefs-old', content: 'liked coffee' },
+      ]),
+    });
+
+    const list = await call(server, 'resources/list');
+    const resources = (list.result as { resources: Array<{ uri: string; name: string }> }).resources;
+    expect(resources[0]).toEqual({
+      uri: 'memory://u%3Atelegram%3A1%2Fprefs',
+      name: 'u:telegram:1/prefs',
+      mimeType: 'text/plain',
+    });
+
+    const read = await call(server, 'resources/read', { uri: resources[0]!.uri });
+    expect((read.result as { contents: Array<{ text: string }> }).contents[0]!.text).toBe('likes tea');
+    expect((await call(server, 'resources/read', { uri: 'memory://missing' })).error!.code).toBe(-32602);
+  });
+
+  it('lists no resources without a memory backend', async () => {
+    expect((await call(makeServer(), 'resources/list')).result).toEqual({ resources: [] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Transports
+// ---------------------------------------------------------------------------
+
+describe('McpServer transports', () => {
+  it('serves newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.setEncoding('utf-8');
+    output.on('data', (chunk: string) => lines.push(...chunk.split('\n').filter(Boolean)));
+
+    const done = makeServer().serveStdio(input, output);
+    input.write('{"jsonrpc":"2.0","id":7,"method":"ping"}\nnot json\n');
+    input.end();
+    await done;
+    await new Promise((r) => setImmediate(r));
+
+    expect(lines.map((l) => JSON.parse(l) as JsonRpcResponse)).toEqual(expect.arrayContaining([
+      { jsonrpc: '2.0', id: 7, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+    ]));
+  });
+
+  describe('streamable HTTP', () => {
+    let httpServer: Server;
+    let url: string;
+    const auth = { Authorization: 'Bearer s3cret-token' };
+
+    async function listen(opts?: Partial<McpServerOpts>): Promise<void> {
+      const server = makeServer({ httpToken: 's3cret-token', ...opts });
+      httpServer = createServer((req, res) => server.handleHttp(req, res));
+      await new Promise<void>((r) => httpServer.listen(0, '127.0.0.1', r));
+      url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+    }
+
+    const ping = (headers: Record<string, string>) => fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((r) => httpServer.close(() => r()));
+    });
+
+    it('answers POSTed requests with JSON', async () => {
+      await listen();
+      const res = await ping({ 'Content-Type': 'application/json', ...auth });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    });
+
+    it('acknowledges notifications with 202', async () => {
+      await listen();
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: auth,
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      expect(res.status).toBe(202);
+    });
+
+    it('rejects GET and foreign origins', async () => {
+      await listen();
+      expect((await fetch(url, { headers: auth })).status).toBe(405);
+      expect((await ping({ Origin: 'https://evil.example', ...auth })).status).toBe(403);
+    });
+
+    it('requires the bearer token, even from a local origin', async () => {
+      await listen();
+      const missing = await ping({});
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect((await ping({ Origin: 'http://localhost:3000' })).status).toBe(401);
+      expect((await ping({ Authorization: 'Bearer s3cret-tokeN' })).status).toBe(401);
+      expect((await ping({ Authorization: 's3cret-token' })).status).toBe(401);
+      expect((await ping({ Origin: 'http://localhost:3000', ...auth })).status).toBe(200);
+    });
+
+    it('refuses every request when no token is configured', async () => {
+      await listen({ httpToken: undefined });
+      expect((await ping({ Authorization: 'Bearer undefined' })).status).toBe(401);
+    });
+  });
+});
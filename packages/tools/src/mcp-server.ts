@@ -0,0 +1,509 @@
+/**
+ * MCP Server — exposes ch4p's tools, skills and memory to MCP hosts.
+ *
+ * The server side of the Model Context Protocol, complementing McpClientTool:
+ *   - tools/list, tools/call   → registered ITools, run under the security policy
+ *   - prompts/list, prompts/get → loaded skills (body returned as a user prompt)
+ *   - resources/list, resources/read → memory entries (memory://<key>)
+ *
+ * Every tool call gets a ToolContext bound to the configured ISecurityPolicy,
+ * so filesystem scoping, the command allowlist and SSRF guards apply exactly
+ * as they do inside the agent loop, and output is sanitized before it leaves.
+ * Calls the policy says need confirmation are refused unless the server was
+ * told the host asks its own user (`hostConfirms`) — an MCP server has no way
+ * to prompt on its own.
+ *
+ * Transports:
+ *   - stdio: newline-delimited JSON-RPC on stdin/stdout (serveStdio)
+ *   - streamable HTTP: JSON-RPC POSTed to one endpoint, answered with
+ *     application/json (handleHttp); no server-initiated SSE stream. Every
+ *     request must carry the configured bearer token.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Readable, Writable } from 'node:stream';
+import type {
+  IMemoryBackend,
+  ISecurityPolicy,
+  ITool,
+  ToolContext,
+} from '@ch4p/core';
+import { generateId } from '@ch4p/core';
+import type { SkillProvider } from './load-skill.js';
+
+// ---------------------------------------------------------------------------
+// JSON-RPC types
+// ---------------------------------------------------------------------------
+
+type JsonRpcId = string | number | null;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/** Protocol revisions this server can speak, newest first. */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** Largest HTTP request body accepted (1 MB). */
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+
+const MEMORY_URI_PREFIX = 'memory://';
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+/** Skill source for prompts. SkillRegistry satisfies this structurally. */
+export interface McpSkillSource extends SkillProvider {
+  getDescriptions(): { name: string; description: string }[];
+}
+
+export interface McpServerOpts {
+  /** Tools to expose. */
+  tools: ITool[];
+  /** Policy every tool call runs under. */
+  securityPolicy: ISecurityPolicy;
+  /** Working directory for tool calls. */
+  cwd: string;
+  /** Memory backend: powers memory tools and memory resources when present. */
+  memoryBackend?: IMemoryBackend;
+  /** Skills exposed as prompts when present. */
+  skills?: McpSkillSource;
+  /** Extra properties spread onto every ToolContext (e.g. search config). */
+  toolContextExtensions?: Record<string, unknown>;
+  /**
+   * The MCP host confirms tool calls with its user, so calls the policy
+   * gates may run. When false (default) gated tools are hidden and refused.
+   */
+  hostConfirms?: boolean;
+  /**
+   * Bearer token HTTP requests must send as `Authorization: Bearer <token>`.
+   * Without one, handleHttp refuses every request: any local process could
+   * otherwise call the tools.
+   */
+  httpToken?: string;
+  /** Version reported in serverInfo. */
+  version?: string;
+}
+
+// ---------------------------------------------------------------------------
+// McpServer
+// ---------------------------------------------------------------------------
+
+export class McpServer {
+  private readonly tools = new Map<string, ITool>();
+  private readonly inFlight = new Map<string, AbortController>();
+  private readonly sessionId = `mcp-${generateId(12)}`;
+
+  constructor(private readonly opts: McpServerOpts) {
+    for (const tool of opts.tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Handle one decoded JSON-RPC message (or batch). Returns the response to
+   * send back, or null when nothing should be sent (notifications).
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(message)) {
+      if (message.length === 0) return errorResponse(null, INVALID_REQUEST, 'Empty batch');
+      const responses = (await Promise.all(message.map((m) => this.handleSingle(m))))
+        .filter((r): r is JsonRpcResponse => r !== null);
+      return responses.length > 0 ? responses : null;
+    }
+    return this.handleSingle(message);
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC over a pair of streams (stdin/stdout).
+   * Resolves when the input stream ends.
+   */
+  serveStdio(input: Readable, output: Writable): Promise<void> {
+    return new Promise<void>((resolve) => {
+      let buffer = '';
+      const write = (response: JsonRpcResponse | JsonRpcResponse[] | null) => {
+        if (response) output.write(JSON.stringify(response) + '\n');
+      };
+
+      input.setEncoding('utf-8');
+      input.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed) continue;
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(trimmed);
+          } catch {
+            write(errorResponse(null, PARSE_ERROR, 'Parse error'));
+            continue;
+          }
+          void this.handleMessage(parsed).then(write);
+        }
+      });
+      input.on('end', () => {
+        this.abortAll('Input closed');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Streamable-HTTP endpoint handler. Accepts JSON-RPC via POST and answers
+   * with application/json; GET (server-initiated stream) is not offered.
+   * Requests without the bearer token, or carrying a non-local Origin (DNS
+   * rebinding guard), are rejected.
+   */
+  handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    if (!isLocalOrigin(req.headers.origin)) {
+      sendJson(res, 403, errorResponse(null, INVALID_REQUEST, 'Origin not allowed'));
+      return;
+    }
+
+    if (!hasBearerToken(req.headers.authorization, this.opts.httpToken)) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify(errorResponse(null, INVALID_REQUEST, 'Unauthorized')));
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let aborted = false;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_HTTP_BODY_BYTES && !aborted) {
+        aborted = true;
+        sendJson(res, 413, errorResponse(null, INVALID_REQUEST, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (aborted) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      } catch {
+        sendJson(res, 400, errorResponse(null, PARSE_ERROR, 'Parse error'));
+        return;
+      }
+      this.handleMessage(parsed).then(
+        (response) => {
+          if (response) {
+            sendJson(res, 200, response);
+          } else {
+            // Notifications and responses only: acknowledged without a body.
+            res.writeHead(202);
+            res.end();
+          }
+        },
+        (err: unknown) => {
+          sendJson(res, 500, errorResponse(null, INTERNAL_ERROR, (err as Error).message));
+        },
+      );
+    });
+  }
+
+  /** Abort every tool call still running. */
+  abortAll(reason: string): void {
+    for (const [id, controller] of this.inFlight) {
+      controller.abort(reason);
+      this.inFlight.delete(id);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dispatch
+  // ---------------------------------------------------------------------------
+
+  private async handleSingle(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isRequest(message)) {
+      // Responses to server requests are not expected — ignore them.
+      if (isObject(message) && ('result' in message || 'error' in message)) return null;
+      return errorResponse(null, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const isNotification = message.id === undefined;
+    try {
+      const result = await this.dispatch(message);
+      return isNotification ? null : { jsonrpc: '2.0', id: message.id ?? null, result };
+    } catch (err) {
+      if (isNotification) return null;
+      const code = err instanceof RpcError ? err.code : INTERNAL_ERROR;
+      return errorResponse(message.id ?? null, code, (err as Error).message);
+    }
+  }
+
+  private async dispatch(req: JsonRpcRequest): Promise<unknown> {
+    const params = req.params ?? {};
+    switch (req.method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'notifications/initialized':
+        return undefined;
+      case 'notifications/cancelled':
+        this.cancel(params);
+        return undefined;
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call':
+        return this.callTool(req.id, params);
+      case 'prompts/list':
+        return { prompts: this.opts.skills?.getDescriptions() ?? [] };
+      case 'prompts/get':
+        return this.getPrompt(params);
+      case 'resources/list':
+        return { resources: await this.listResources() };
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${req.method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>): unknown {
+    const requested = params.protocolVersion;
+    const protocolVersion = typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: {},
+        prompts: {},
+        resources: {},
+      },
+      serverInfo: { name: 'ch4p', version: this.opts.version ?? '0.1.0' },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tools
+  // ---------------------------------------------------------------------------
+
+  private listTools(): unknown[] {
+    return [...this.tools.values()]
+      .filter((tool) => this.opts.hostConfirms || !this.needsConfirmation(tool))
+      .map((tool) => {
+        const readOnly = tool.actionType === 'read';
+        return {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.parameters,
+          annotations: { readOnlyHint: readOnly, destructiveHint: !readOnly },
+        };
+      });
+  }
+
+  private async callTool(requestId: JsonRpcId | undefined, params: Record<string, unknown>): Promise<unknown> {
+    const { name, arguments: args = {} } = params;
+    if (typeof name !== 'string') {
+      throw new RpcError(INVALID_PARAMS, 'tools/call requires a tool name');
+    }
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    if (!this.opts.hostConfirms && this.needsConfirmation(tool, args)) {
+      return toolError(
+        `"${name}" needs confirmation under the "${this.opts.securityPolicy.autonomyLevel}" ` +
+        'autonomy level, and this server cannot ask for it. Restart with --trust-host ' +
+        'to let the MCP host confirm tool calls.',
+      );
+    }
+
+    const validation = tool.validate?.(args);
+    if (validation && !validation.valid) {
+      return toolError(`Invalid arguments: ${(validation.errors ?? []).join(' ')}`);
+    }
+
+    const controller = new AbortController();
+    const callKey = String(requestId ?? generateId(8));
+    this.inFlight.set(callKey, controller);
+
+    const context: ToolContext & { memoryBackend?: IMemoryBackend } = {
+      sessionId: this.sessionId,
+      cwd: this.opts.cwd,
+      securityPolicy: this.opts.securityPolicy,
+      abortSignal: controller.signal,
+      onProgress: () => {},
+      memoryBackend: this.opts.memoryBackend,
+      ...(this.opts.toolContextExtensions ?? {}),
+    };
+
+    try {
+      const result = await tool.execute(args, context);
+      const text = result.success
+        ? result.output
+        : [result.error, result.output].filter(Boolean).join('\n');
+      const clean = this.opts.securityPolicy.sanitizeOutput(text || '(no output)').clean;
+      return { content: [{ type: 'text', text: clean }], isError: !result.success };
+    } catch (err) {
+      return toolError(this.opts.securityPolicy.sanitizeOutput((err as Error).message).clean);
+    } finally {
+      this.inFlight.delete(callKey);
+    }
+  }
+
+  private needsConfirmation(tool: ITool, args?: unknown): boolean {
+    return this.opts.securityPolicy.requiresConfirmation({
+      type: tool.actionType ?? 'write',
+      target: tool.name,
+      details: { args },
+    });
+  }
+
+  private cancel(params: Record<string, unknown>): void {
+    const key = String(params.requestId);
+    const controller = this.inFlight.get(key);
+    if (controller) {
+      controller.abort(typeof params.reason === 'string' ? params.reason : 'Cancelled by client');
+      this.inFlight.delete(key);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Prompts (skills)
+  // ---------------------------------------------------------------------------
+
+  private getPrompt(params: Record<string, unknown>): unknown {
+    const { name } = params;
+    const skills = this.opts.skills;
+    if (typeof name !== 'string' || !skills?.has(name)) {
+      throw new RpcError(INVALID_PARAMS, `Unknown prompt: ${String(name)}`);
+    }
+    const description = skills.getDescriptions().find((d) => d.name === name)?.description;
+    return {
+      description,
+      messages: [
+        { role: 'user', content: { type: 'text', text: skills.getSkillContext(name) ?? '' } },
+      ],
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Resources (memory)
+  // ---------------------------------------------------------------------------
+
+  private async listResources(): Promise<unknown[]> {
+    if (!this.opts.memoryBackend) return [];
+    const entries = await this.opts.memoryBackend.list();
+    return entries.map((entry) => ({
+      uri: MEMORY_URI_PREFIX + encodeURIComponent(entry.key),
+      name: entry.key,
+      mimeType: 'text/plain',
+    }));
+  }
+
+  private async readResource(params: Record<string, unknown>): Promise<unknown> {
+    const { uri } = params;
+    if (typeof uri !== 'string' || !uri.startsWith(MEMORY_URI_PREFIX) || !this.opts.memoryBackend) {
+      throw new RpcError(INVALID_PARAMS, `Unknown resource: ${String(uri)}`);
+    }
+
+    let key: string;
+    try {
+      key = decodeURIComponent(uri.slice(MEMORY_URI_PREFIX.length));
+    } catch {
+      throw new RpcError(INVALID_PARAMS, `Malformed resource URI: ${uri}`);
+    }
+
+    // IMemoryBackend has no point lookup — list by prefix and match exactly.
+    const entry = (await this.opts.memoryBackend.list(key)).find((e) => e.key === key);
+    if (!entry) {
+      throw new RpcError(INVALID_PARAMS, `Unknown resource: ${uri}`);
+    }
+    return {
+      contents: [{
+        uri,
+        mimeType: 'text/plain',
+        text: this.opts.securityPolicy.sanitizeOutput(entry.content).clean,
+      }],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRequest(value: unknown): value is JsonRpcRequest {
+  return isObject(value)
+    && value.jsonrpc === '2.0'
+    && typeof value.method === 'string'
+    && (value.params === undefined || isObject(value.params));
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolError(text: string): unknown {
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+function isLocalOrigin(origin: string | undefined): boolean {
+  if (!origin) return true;
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+  } catch {
+    return false;
+  }
+}
+
+function hasBearerToken(authorization: string | undefined, token: string | undefined): boolean {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+  if (!token || !match) return false;
+  const given = Buffer.from(match[1]!);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
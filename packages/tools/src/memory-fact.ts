@@ -0,0 +1,197 @@
+/**
+ * MemoryFact tool — records structured facts about people, projects and
+ * other entities.
+ *
+ * Where memory_store keeps free text, memory_fact keeps facts the agent can
+ * rely on: attributes ("user — prefers_units — metric") and relations
+ * ("Alice — manager_of — Project X"). A new value for an attribute
+ * supersedes the old one, which the backend keeps as history. The auto-
+ * recall hook injects these facts for the user and the entities a message
+ * mentions.
+ *
+ * Facts are scoped to the memory namespace the host injects into the tool
+ * context, so each gateway user has their own entities.
+ */
+
+import type {
+  ITool,
+  ToolContext,
+  ToolResult,
+  ValidationResult,
+  JSONSchema7,
+  EntityFact,
+  EntityFactResult,
+} from '@ch4p/core';
+import { ToolError } from '@ch4p/core';
+import type { MemoryToolContext } from './memory-store.js';
+
+/** Extended ToolContext that includes the memory namespace of the current user. */
+export interface MemoryFactToolContext extends MemoryToolContext {
+  memoryNamespace?: string;
+}
+
+interface MemoryFactArgs {
+  subject: string;
+  subject_type?: string;
+  predicate: string;
+  value?: string;
+  object?: string;
+  object_type?: string;
+  remove?: boolean;
+}
+
+const MAX_NAME_LENGTH = 200;
+const MAX_VALUE_LENGTH = 1_000;
+
+export class MemoryFactTool implements ITool {
+  readonly name = 'memory_fact';
+  readonly description =
+    'Record a lasting fact about the user or another person, project, ' +
+    'organization or place. Use subject "user" for the person you are ' +
+    'talking to. Give a value for an attribute (user, prefers_units, metric) ' +
+    'or an object for a relation (Alice, manager_of, Project X). A new value ' +
+    'replaces the old one, which is kept as history. Set remove to retract a ' +
+    'fact that is no longer true.';
+
+  readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
+
+  readonly parameters: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      subject: {
+        type: 'string',
+        description: 'Name of the entity the fact is about, or "user" for the person you are talking to.',
+        minLength: 1,
+        maxLength: MAX_NAME_LENGTH,
+      },
+      subject_type: {
+        type: 'string',
+        description: 'Kind of entity: person, project, organization, place, or another short noun.',
+      },
+      predicate: {
+        type: 'string',
+        description: 'Attribute or relation name, e.g. "prefers_units", "timezone", "manager_of", "works_on".',
+        minLength: 1,
+        maxLength: MAX_NAME_LENGTH,
+      },
+      value: {
+        type: 'string',
+        description: 'Attribute value. Give either value or object.',
+        maxLength: MAX_VALUE_LENGTH,
+      },
+      object: {
+        type: 'string',
+        description: 'Name of the related entity, for relations.',
+        maxLength: MAX_NAME_LENGTH,
+      },
+      object_type: {
+        type: 'string',
+        description: 'Kind of the related entity.',
+      },
+      remove: {
+        type: 'boolean',
+        description: 'Retract the fact instead of recording it.',
+      },
+    },
+    required: ['subject', 'predicate'],
+    additionalProperties: false,
+  };
+
+  validate(args: unknown): ValidationResult {
+    if (typeof args !== 'object' || args === null) {
+      return { valid: false, errors: ['Arguments must be an object.'] };
+    }
+
+    const { subject, subject_type, predicate, value, object, object_type, remove } =
+      args as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const [field, name] of [['subject', subject], ['predicate', predicate]] as const) {
+      if (typeof name !== 'string' || name.trim().length === 0) {
+        errors.push(`${field} must be a non-empty string.`);
+      } else if (name.length > MAX_NAME_LENGTH) {
+        errors.push(`${field} must not exceed ${MAX_NAME_LENGTH} characters.`);
+      }
+    }
+    for (const [field, text] of [['subject_type', subject_type], ['object_type', object_type]] as const) {
+      if (text !== undefined && typeof text !== 'string') {
+        errors.push(`${field} must be a string.`);
+      }
+    }
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_VALUE_LENGTH)) {
+      errors.push(`value must be a string of at most ${MAX_VALUE_LENGTH} characters.`);
+    }
+    if (object !== undefined && (typeof object !== 'string' || object.trim().length === 0 || object.length > MAX_NAME_LENGTH)) {
+      errors.push(`object must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    if (remove !== undefined && typeof remove !== 'boolean') {
+      errors.push('remove must be a boolean.');
+    }
+    const hasValue = typeof value === 'string' && value.trim().length > 0;
+    if (remove !== true && hasValue === (object !== undefined)) {
+      errors.push('Give either value (for an attribute) or object (for a relation).');
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const validation = this.validate(args);
+    if (!validation.valid) {
+      return {
+        success: false,
+        output: '',
+        error: `Invalid arguments: ${validation.errors!.join(' ')}`,
+      };
+    }
+
+    const { memoryBackend, memoryNamespace } = context as MemoryFactToolContext;
+    if (!memoryBackend?.upsertFact) {
+      throw new ToolError(
+        memoryBackend
+          ? `The ${memoryBackend.id} memory backend does not keep structured facts.`
+          : 'Memory backend is not available. Configure a memory backend to use memory tools.',
+        this.name,
+      );
+    }
+
+    const input = args as MemoryFactArgs;
+    const fact: EntityFact = {
+      subject: input.subject,
+      subjectType: input.subject_type,
+      predicate: input.predicate,
+      value: input.value,
+      object: input.object,
+      objectType: input.object_type,
+      remove: input.remove,
+    };
+
+    let result: EntityFactResult;
+    try {
+      result = await memoryBackend.upsertFact(fact, { namespace: memoryNamespace });
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `Failed to record fact: ${(err as Error).message}`,
+      };
+    }
+
+    const target = input.object ?? input.value ?? '';
+    const statement = `${input.subject} — ${input.predicate}${target ? ` — ${target}` : ''}`;
+    const outputs: Record<EntityFactResult['status'], string> = {
+      added: `Recorded: ${statement}.`,
+      unchanged: `Already known: ${statement}.`,
+      superseded: `Updated: ${statement} (was ${result.previous}).`,
+      removed: `Retracted: ${input.subject} — ${input.predicate} — ${result.previous}.`,
+      not_found: `No current fact matches ${statement}.`,
+    };
+
+    return {
+      success: result.status !== 'not_found',
+      output: outputs[result.status],
+      metadata: { ...result, subject: input.subject, predicate: input.predicate },
+    };
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * MemoryIngest tool — adds files, folders and web pages to memory.
+ *
+ * Documents are extracted, chunked and stored so memory_recall can find
+ * them and cite the file and lines each result came from. Re-ingesting a
+ * source only rewrites the documents that changed. Files go through the
+ * security policy like file_read; URLs get the same SSRF checks as
+ * web_fetch, on every redirect.
+ *
+ * Requires the host to inject the ingester (ingestDocuments from
+ * @ch4p/memory, bound to its memory backend) into the tool context.
+ */
+
+import { resolve } from 'node:path';
+import type {
+  ITool,
+  ToolContext,
+  ToolResult,
+  ValidationResult,
+  JSONSchema7,
+} from '@ch4p/core';
+import { SecurityError, ToolError, readResponseBody } from '@ch4p/core';
+import { isBlockedHostname, resolveAndCheckPrivate } from './ssrf-guards.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One document's outcome, as reported by the ingester. */
+export interface IngestedDocumentSummary {
+  source: string;
+  status: 'added' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+  chunks: number;
+  reason?: string;
+}
+
+/**
+ * Minimal interface for the document ingester.
+ * Uses duck typing so we don't create a dependency on @ch4p/memory.
+ */
+export type DocumentIngester = (
+  target: string,
+  opts: {
+    fetchUrl?: (url: string) => Promise<{ data: Buffer; mimeType?: string }>;
+    checkPath?: (path: string) => string | undefined;
+    signal?: AbortSignal;
+  },
+) => Promise<{ documents: IngestedDocumentSummary[]; chunksStored: number }>;
+
+/** Extended ToolContext that includes the document ingester. */
+export interface MemoryIngestToolContext extends ToolContext {
+  memoryIngest?: DocumentIngester;
+}
+
+interface MemoryIngestArgs {
+  source: string;
+}
+
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+/** Documents listed individually in the output. */
+const MAX_LISTED = 20;
+
+export class MemoryIngestTool implements ITool {
+  readonly name = 'memory_ingest';
+  readonly description =
+    'Add a file, a folder or a web page to persistent memory. Markdown, ' +
+    'code, HTML, PDF and plain text are split into chunks that memory_recall ' +
+    'can find and cite by file and line. Running it again on the same ' +
+    'source only updates documents that changed.';
+
+  readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
+
+  readonly parameters: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      source: {
+        type: 'string',
+        description: 'File or folder path (relative to the working directory), or an http(s) URL.',
+        minLength: 1,
+      },
+    },
+    required: ['source'],
+    additionalProperties: false,
+  };
+
+  validate(args: unknown): ValidationResult {
+    if (typeof args !== 'object' || args === null) {
+      return { valid: false, errors: ['Arguments must be an object.'] };
+    }
+
+    const { source } = args as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof source !== 'string' || source.trim().length === 0) {
+      errors.push('source must be a non-empty string.');
+    } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(source)) {
+      try {
+        const parsed = new URL(source);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+          errors.push('URLs must use http or https.');
+        } else if (isBlockedHostname(parsed.hostname)) {
+          errors.push('source targets a blocked or private network address.');
+        }
+      } catch {
+        errors.push('source must be a valid URL or path.');
+      }
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const validation = this.validate(args);
+    if (!validation.valid) {
+      return {
+        success: false,
+        output: '',
+        error: `Invalid arguments: ${validation.errors!.join(' ')}`,
+      };
+    }
+
+    const { memoryIngest } = context as MemoryIngestToolContext;
+    if (!memoryIngest) {
+      throw new ToolError(
+        'Document ingestion is not available. Configure a memory backend to use memory tools.',
+        this.name,
+      );
+    }
+
+    const { source } = args as MemoryIngestArgs;
+    const isUrl = /^https?:\/\//i.test(source);
+    let target = source;
+    if (!isUrl) {
+      const absolutePath = resolve(context.cwd, source);
+      const pathValidation = context.securityPolicy.validatePath(absolutePath, 'read');
+      if (!pathValidation.allowed) {
+        throw new SecurityError(
+          `Path blocked: ${pathValidation.reason ?? absolutePath}`,
+          { path: absolutePath },
+        );
+      }
+      target = pathValidation.canonicalPath ?? absolutePath;
+    }
+
+    context.onProgress(`Ingesting ${target}...`);
+    let report: Awaited<ReturnType<DocumentIngester>>;
+    try {
+      report = await memoryIngest(target, {
+        fetchUrl: (url) => fetchGuarded(url, context.abortSignal),
+        checkPath: (path) => {
+          const check = context.securityPolicy.validatePath(path, 'read');
+          return check.allowed ? undefined : (check.reason ?? 'blocked by security policy');
+        },
+        signal: context.abortSignal,
+      });
+    } catch (err) {
+      return {
+        success: false,
+        output: '',
+        error: `Memory ingest failed: ${(err as Error).message}`,
+      };
+    }
+
+    const counts: Record<IngestedDocumentSummary['status'], number> = {
+      added: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0,
+    };
+    for (const doc of report.documents) counts[doc.status]++;
+
+    const summary = (Object.keys(counts) as Array<keyof typeof counts>)
+      .filter((status) => counts[status] > 0)
+      .map((status) => `${counts[status]} ${status}`)
+      .join(', ');
+    const lines = [
+      `Ingested ${target}: ${summary || 'no documents'}. ${report.chunksStored} chunk(s) stored.`,
+    ];
+    const changed = report.documents.filter((d) => d.status !== 'unchanged');
+    for (const doc of changed.slice(0, MAX_LISTED)) {
+      lines.push(`- ${doc.source}: ${doc.status}${doc.reason ? ` (${doc.reason})` : ` (${doc.chunks} chunks)`}`);
+    }
+    if (changed.length > MAX_LISTED) lines.push(`- ...and ${changed.length - MAX_LISTED} more`);
+
+    return {
+      success: counts.failed < report.documents.length || report.documents.length === 0,
+      output: lines.join('\n'),
+      metadata: { source: target, ...counts, chunksStored: report.chunksStored },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Download a URL, checking every hop against private and blocked addresses. */
+async function fetchGuarded(url: string, signal: AbortSignal): Promise<{ data: Buffer; mimeType?: string }> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const { hostname } = new URL(current);
+    if (isBlockedHostname(hostname)) throw new Error(`SSRF blocked: ${hostname}`);
+    const dns = await resolveAndCheckPrivate(hostname);
+    if (dns.blocked) throw new Error(`SSRF blocked: ${dns.reason}`);
+
+    const res = await fetch(current, {
+      signal: AbortSignal.any([signal, timeout]),
+      headers: { 'User-Agent': 'ch4p' },
+      redirect: 'manual', // Followed here so each hop is checked.
+    });
+    const location = res.headers.get('location');
+    if (res.status >= 300 && res.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return {
+      data: await readResponseBody(res, MAX_DOWNLOAD_BYTES),
+      mimeType: res.headers.get('content-type') ?? undefined,
+    };
+  }
+}
@@ -2,7 +2,8 @@
  * MemoryRecall tool — queries the memory backend with hybrid search.
  *
  * Lightweight tool that performs semantic + keyword search against the
- * IMemoryBackend, returning ranked results.
+ * IMemoryBackend, returning ranked results. Chunks of ingested documents
+ * are cited by source file and line range.
  */
 
 import type {
@@ -31,6 +32,7 @@ export class MemoryRecallTool implements ITool {
     'previously stored information, context, or decisions.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
@@ -111,9 +113,12 @@ export class MemoryRecallTool implements ITool {
 
       const formatted = results.map((r, i) => {
         const header = `[${i + 1}] ${r.key} (score: ${r.score.toFixed(3)}, match: ${r.matchType})`;
-        const metaStr = r.metadata
-          ? `\n    metadata: ${JSON.stringify(r.metadata)}`
-          : '';
+        const source = documentCitation(r.metadata);
+        const metaStr = source
+          ? `\n    source: ${source}`
+          : r.metadata
+            ? `\n    metadata: ${JSON.stringify(r.metadata)}`
+            : '';
         return `${header}${metaStr}\n${r.content}`;
       });
 
@@ -135,3 +140,19 @@ export class MemoryRecallTool implements ITool {
     }
   }
 }
+
+/**
+ * Where an ingested document chunk came from, as `path:12-30`, or null
+ * for entries that weren't ingested (see ingestDocuments in @ch4p/memory).
+ */
+function documentCitation(metadata: Record<string, unknown> | undefined): string | null {
+  const { source, hash, startLine, endLine, chunk, chunks } = metadata ?? {};
+  if (typeof source !== 'string' || typeof hash !== 'string') return null;
+  if (typeof startLine === 'number' && typeof endLine === 'number') {
+    return startLine === endLine ? `${source}:${startLine}` : `${source}:${startLine}-${endLine}`;
+  }
+  if (typeof chunk === 'number' && typeof chunks === 'number' && chunks > 1) {
+    return `${source} (part ${chunk + 1} of ${chunks})`;
+  }
+  return source;
+}
@@ -37,6 +37,7 @@ export class MemoryStoreTool implements ITool {
     'can be recalled using semantic or keyword search.';
 
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
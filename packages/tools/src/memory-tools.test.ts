@@ -1,5 +1,5 @@
 /**
- * Tests for MemoryStoreTool and MemoryRecallTool.
+ * Tests for MemoryStoreTool, MemoryRecallTool, MemoryIngestTool and MemoryFactTool.
  *
  * These tests verify that the tools are correctly wired to the IMemoryBackend
  * via the ToolContext.  The critical regression being guarded: the model was
@@ -9,11 +9,15 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import type { IMemoryBackend, ToolContext } from '@ch4p/core';
+import type { EntityFactResult, IMemoryBackend, ToolContext } from '@ch4p/core';
 import { ToolError } from '@ch4p/core';
 import { MemoryStoreTool } from './memory-store.js';
 import { MemoryRecallTool } from './memory-recall.js';
+import { MemoryIngestTool } from './memory-ingest.js';
+import { MemoryFactTool } from './memory-fact.js';
 import type { MemoryToolContext } from './memory-store.js';
+import type { DocumentIngester, MemoryIngestToolContext } from './memory-ingest.js';
+import type { MemoryFactToolContext } from './memory-fact.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -211,6 +215,174 @@ describe('MemoryRecallTool', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('50');
   });
+
+  it('cites the source file and lines of ingested document chunks', async () => {
+    const backend = makeMemoryBackend();
+    vi.mocked(backend.recall).mockResolvedValueOnce([
+      {
+        key: 'doc:/docs/guide.md#1',
+        content: 'Deploy on Fridays.',
+        score: 0.8,
+        matchType: 'hybrid',
+        metadata: { source: '/docs/guide.md', chunk: 1, chunks: 2, startLine: 5, endLine: 8, hash: 'abc' },
+      },
+      {
+        key: 'doc:/docs/spec.pdf#0',
+        content: 'Spec text.',
+        score: 0.7,
+        matchType: 'hybrid',
+        metadata: { source: '/docs/spec.pdf', chunk: 0, chunks: 3, hash: 'def' },
+      },
+    ]);
+
+    const result = await tool.execute({ query: 'deploy' }, makeContext(backend));
+    expect(result.output).toContain('source: /docs/guide.md:5-8');
+    expect(result.output).toContain('source: /docs/spec.pdf (part 1 of 3)');
+    expect(result.output).not.toContain('"hash"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MemoryIngestTool
+// ---------------------------------------------------------------------------
+
+describe('MemoryIngestTool', () => {
+  const tool = new MemoryIngestTool();
+
+  function makeIngestContext(memoryIngest?: DocumentIngester, blocked?: string): MemoryIngestToolContext {
+    return {
+      ...makeContext(),
+      cwd: '/work',
+      securityPolicy: {
+        validatePath: (path: string) => (blocked && path.startsWith(blocked)
+          ? { allowed: false, reason: 'outside workspace' }
+          : { allowed: true }),
+      } as unknown as ToolContext['securityPolicy'],
+      memoryIngest,
+    };
+  }
+
+  it('resolves paths against the working directory and summarises the result', async () => {
+    const ingest = vi.fn<DocumentIngester>(async () => ({
+      documents: [
+        { source: '/work/docs/a.md', status: 'added', chunks: 3 },
+        { source: '/work/docs/b.md', status: 'unchanged', chunks: 1 },
+        { source: '/work/docs/c.png', status: 'skipped', chunks: 0, reason: 'unsupported file type' },
+      ],
+      chunksStored: 3,
+    }));
+
+    const result = await tool.execute({ source: 'docs' }, makeIngestContext(ingest));
+    expect(ingest).toHaveBeenCalledWith('/work/docs', expect.objectContaining({ checkPath: expect.any(Function) }));
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('1 added, 1 unchanged, 1 skipped. 3 chunk(s) stored.');
+    expect(result.output).toContain('/work/docs/c.png: skipped (unsupported file type)');
+    expect(result.output).not.toContain('b.md');
+  });
+
+  it('passes the security policy down as a per-file check', async () => {
+    let check: ((path: string) => string | undefined) | undefined;
+    const ingest = vi.fn<DocumentIngester>(async (_target, opts) => {
+      check = opts.checkPath;
+      return { documents: [], chunksStored: 0 };
+    });
+
+    await tool.execute({ source: '.' }, makeIngestContext(ingest, '/work/secret'));
+    expect(check?.('/work/secret/key.txt')).toBe('outside workspace');
+    expect(check?.('/work/notes.md')).toBeUndefined();
+  });
+
+  it('rejects blocked paths before ingesting', async () => {
+    const ingest = vi.fn<DocumentIngester>();
+    await expect(
+      tool.execute({ source: '/etc' }, makeIngestContext(ingest, '/etc')),
+    ).rejects.toThrow('Path blocked');
+    expect(ingest).not.toHaveBeenCalled();
+  });
+
+  it('rejects non-http URLs and private hosts', () => {
+    expect(tool.validate({ source: 'ftp://example.com/a.txt' }).valid).toBe(false);
+    expect(tool.validate({ source: 'http://169.254.169.254/latest' }).valid).toBe(false);
+    expect(tool.validate({ source: 'https://example.com/a.html' }).valid).toBe(true);
+  });
+
+  it('reports ingest errors as a failed result', async () => {
+    const ingest = vi.fn<DocumentIngester>(async () => {
+      throw new Error('No such file or folder: /work/missing');
+    });
+    const result = await tool.execute({ source: 'missing' }, makeIngestContext(ingest));
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No such file or folder');
+  });
+
+  it('throws ToolError when no ingester is in context', async () => {
+    await expect(
+      tool.execute({ source: 'docs' }, makeIngestContext(undefined)),
+    ).rejects.toThrow(ToolError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MemoryFactTool
+// ---------------------------------------------------------------------------
+
+describe('MemoryFactTool', () => {
+  const tool = new MemoryFactTool();
+
+  function makeFactBackend(result: EntityFactResult = { status: 'added' }): IMemoryBackend {
+    return { ...makeMemoryBackend(), id: 'sqlite', upsertFact: vi.fn(async () => result) } as IMemoryBackend;
+  }
+
+  it('records an attribute in the namespace from the context', async () => {
+    const backend = makeFactBackend();
+    const context: MemoryFactToolContext = { ...makeContext(backend), memoryNamespace: 'u:telegram:42' };
+
+    const result = await tool.execute({ subject: 'user', predicate: 'prefers_units', value: 'metric' }, context);
+    expect(backend.upsertFact).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: 'user', predicate: 'prefers_units', value: 'metric' }),
+      { namespace: 'u:telegram:42' },
+    );
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('Recorded: user — prefers_units — metric.');
+  });
+
+  it('maps relation arguments onto the fact', async () => {
+    const backend = makeFactBackend();
+    await tool.execute({
+      subject: 'Alice', subject_type: 'person', predicate: 'manager_of', object: 'Project X', object_type: 'project',
+    }, makeContext(backend));
+    expect(backend.upsertFact).toHaveBeenCalledWith(
+      expect.objectContaining({ subjectType: 'person', object: 'Project X', objectType: 'project' }),
+      { namespace: undefined },
+    );
+  });
+
+  it('reports the value a new one superseded', async () => {
+    const backend = makeFactBackend({ status: 'superseded', previous: 'Berlin' });
+    const result = await tool.execute({ subject: 'user', predicate: 'city', value: 'Lisbon' }, makeContext(backend));
+    expect(result.output).toBe('Updated: user — city — Lisbon (was Berlin).');
+  });
+
+  it('fails when a retracted fact is not found', async () => {
+    const backend = makeFactBackend({ status: 'not_found' });
+    const result = await tool.execute({ subject: 'user', predicate: 'city', remove: true }, makeContext(backend));
+    expect(result.success).toBe(false);
+  });
+
+  it('requires exactly one of value and object', () => {
+    expect(tool.validate({ subject: 'user', predicate: 'city' }).valid).toBe(false);
+    expect(tool.validate({ subject: 'user', predicate: 'city', value: 'Rome', object: 'Rome' }).valid).toBe(false);
+    expect(tool.validate({ subject: 'user', predicate: 'city', remove: true }).valid).toBe(true);
+  });
+
+  it('throws ToolError when the backend keeps no facts', async () => {
+    await expect(
+      tool.execute({ subject: 'user', predicate: 'city', value: 'Rome' }, makeContext(makeMemoryBackend())),
+    ).rejects.toThrow('does not keep structured facts');
+    await expect(
+      tool.execute({ subject: 'user', predicate: 'city', value: 'Rome' }, makeContext()),
+    ).rejects.toThrow(ToolError);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -223,6 +395,8 @@ describe('ToolRegistry default includes memory tools', () => {
     const registry = ToolRegistry.createDefault();
     expect(registry.has('memory_store')).toBe(true);
     expect(registry.has('memory_recall')).toBe(true);
+    expect(registry.has('memory_ingest')).toBe(true);
+    expect(registry.has('memory_fact')).toBe(true);
   });
 
   it('excludes memory tools when explicitly excluded', async () => {
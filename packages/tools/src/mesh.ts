@@ -109,6 +109,7 @@ export class MeshTool implements ITool {
     'research, analysis, or multi-perspective problem solving.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'execute' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
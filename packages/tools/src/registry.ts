@@ -18,6 +18,8 @@ import { WebFetchTool } from './web-fetch.js';
 import { WebSearchTool } from './web-search.js';
 import { MemoryStoreTool } from './memory-store.js';
 import { MemoryRecallTool } from './memory-recall.js';
+import { MemoryIngestTool } from './memory-ingest.js';
+import { MemoryFactTool } from './memory-fact.js';
 import { DelegateTool } from './delegate.js';
 import { MeshTool } from './mesh.js';
 import { BrowserTool } from './browser.js';
@@ -126,6 +128,8 @@ export class ToolRegistry {
       new WebSearchTool(),
       new MemoryStoreTool(),
       new MemoryRecallTool(),
+      new MemoryIngestTool(),
+      new MemoryFactTool(),
       new DelegateTool(),
       new MeshTool(),
       new BrowserTool(),
@@ -0,0 +1,270 @@
+/**
+ * Tests for sandbox backends -- the process each backend spawns for a
+ * command, and docker container lifecycle via an injected runner.
+ */
+
+import { vi } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createSandboxBackend,
+  removeSandboxContainers,
+  DockerSandbox,
+  type SandboxRequest,
+} from './sandbox.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const req: SandboxRequest = {
+  command: 'ls -la',
+  cwd: '/work/project/src',
+  workspace: '/work/project',
+  sessionId: 'sess:1',
+  timeoutMs: 30_000,
+};
+
+/** Value following a flag in an argument list. */
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/** Index at which `seq` appears in an argument list, or -1. */
+function indexOfArgs(args: string[], ...seq: string[]): number {
+  return args.findIndex((_, i) => seq.every((arg, j) => args[i + j] === arg));
+}
+
+/**
+ * A home directory holding the workspace, a ch4p directory and a .env file,
+ * plus a blocked directory elsewhere. Sets HOME for the test.
+ */
+function createHostLayout() {
+  const root = realpathSync(mkdtempSync(join(tmpdir(), 'ch4p-sandbox-')));
+  const home = join(root, 'home');
+  const workspace = join(home, 'project');
+  const ch4pDir = join(home, '.ch4p');
+  const secrets = join(root, 'secrets');
+  const envFile = join(workspace, '.env');
+  for (const dir of [workspace, ch4pDir, secrets]) mkdirSync(dir, { recursive: true });
+  writeFileSync(envFile, 'API_KEY=sk-secret\n');
+
+  const previousHome = process.env['HOME'];
+  process.env['HOME'] = home;
+  return {
+    home, workspace, ch4pDir, secrets, envFile,
+    hiddenPaths: [ch4pDir, secrets, envFile, join(root, 'missing')],
+    request: { ...req, cwd: workspace, workspace },
+    cleanup() {
+      if (previousHome === undefined) delete process.env['HOME'];
+      else process.env['HOME'] = previousHome;
+      rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('createSandboxBackend', () => {
+  it('defaults to the host backend', async () => {
+    const backend = createSandboxBackend();
+    expect(backend.name).toBe('host');
+
+    const cmd = await backend.prepare(req);
+    expect(cmd.file).toBe('bash');
+    expect(cmd.args).toEqual(['-c', 'ls -la']);
+  });
+
+  it('creates the configured backend', () => {
+    expect(createSandboxBackend({ backend: 'bwrap' }).name).toBe('bwrap');
+    expect(createSandboxBackend({ backend: 'nsjail' }).name).toBe('nsjail');
+    expect(createSandboxBackend({ backend: 'docker' }).name).toBe('docker');
+  });
+});
+
+describe('BubblewrapSandbox', () => {
+  it('mounts a read-only root and a writable workspace without network', async () => {
+    const cmd = await createSandboxBackend({ backend: 'bwrap' }).prepare(req);
+
+    expect(cmd.file).toBe('bwrap');
+    expect(cmd.args.slice(0, 3)).toEqual(['--ro-bind', '/', '/']);
+    expect(flag(cmd.args, '--bind')).toBe('/work/project');
+    expect(flag(cmd.args, '--chdir')).toBe('/work/project/src');
+    expect(cmd.args).toContain('--unshare-all');
+    expect(cmd.args).not.toContain('--share-net');
+    expect(cmd.args.slice(-3)).toEqual(['bash', '-c', 'ls -la']);
+  });
+
+  it('hides the home directory, except the workspace, and the hidden paths', async () => {
+    const host = createHostLayout();
+    try {
+      const cmd = await createSandboxBackend({ backend: 'bwrap', hiddenPaths: host.hiddenPaths })
+        .prepare(host.request);
+
+      const bind = indexOfArgs(cmd.args, '--bind', host.workspace, host.workspace);
+      expect(indexOfArgs(cmd.args, '--tmpfs', host.home)).toBeGreaterThan(-1);
+      expect(indexOfArgs(cmd.args, '--tmpfs', host.home)).toBeLessThan(bind);
+      // Mounted after the workspace, so binding it back in can't uncover them.
+      expect(indexOfArgs(cmd.args, '--tmpfs', host.ch4pDir)).toBeGreaterThan(bind);
+      expect(indexOfArgs(cmd.args, '--tmpfs', host.secrets)).toBeGreaterThan(bind);
+      expect(indexOfArgs(cmd.args, '--ro-bind', '/dev/null', host.envFile)).toBeGreaterThan(bind);
+      expect(cmd.args.filter((arg) => arg.endsWith('missing'))).toEqual([]);
+    } finally {
+      host.cleanup();
+    }
+  });
+
+  it('shares the network and caps memory when configured', async () => {
+    const cmd = await createSandboxBackend({ backend: 'bwrap', network: true, memoryMb: 256 }).prepare(req);
+
+    expect(cmd.args).toContain('--share-net');
+    expect(cmd.args.at(-1)).toBe('ulimit -v 262144 || exit 1\nls -la');
+  });
+
+  it('does not pass the host environment through', async () => {
+    process.env['CH4P_SANDBOX_TEST_SECRET'] = 'sk-secret';
+    try {
+      const cmd = await createSandboxBackend({ backend: 'bwrap' }).prepare(req);
+      expect(cmd.env['CH4P_SANDBOX_TEST_SECRET']).toBeUndefined();
+      expect(cmd.env['HOME']).toBe('/work/project');
+    } finally {
+      delete process.env['CH4P_SANDBOX_TEST_SECRET'];
+    }
+  });
+});
+
+describe('NsjailSandbox', () => {
+  it('builds a one-shot jail with limits', async () => {
+    const cmd = await createSandboxBackend({ backend: 'nsjail', memoryMb: 512, cpus: 2.5 }).prepare(req);
+
+    expect(cmd.file).toBe('nsjail');
+    expect(flag(cmd.args, '--mode')).toBe('o');
+    expect(flag(cmd.args, '--bindmount_ro')).toBe('/');
+    expect(flag(cmd.args, '--bindmount')).toBe('/work/project');
+    expect(flag(cmd.args, '--cwd')).toBe('/work/project/src');
+    expect(flag(cmd.args, '--time_limit')).toBe('30');
+    expect(flag(cmd.args, '--rlimit_as')).toBe('512');
+    expect(flag(cmd.args, '--max_cpus')).toBe('2');
+    expect(cmd.args).not.toContain('--disable_clone_newnet');
+    expect(cmd.args).toContain('HOME=/work/project');
+    expect(cmd.args.slice(-3)).toEqual(['/bin/bash', '-c', 'ls -la']);
+  });
+
+  it('hides the home directory, except the workspace, and the hidden paths', async () => {
+    const host = createHostLayout();
+    try {
+      const cmd = await createSandboxBackend({ backend: 'nsjail', hiddenPaths: host.hiddenPaths })
+        .prepare(host.request);
+
+      const bind = indexOfArgs(cmd.args, '--bindmount', host.workspace);
+      expect(indexOfArgs(cmd.args, '--tmpfsmount', host.home)).toBeGreaterThan(-1);
+      expect(indexOfArgs(cmd.args, '--tmpfsmount', host.home)).toBeLessThan(bind);
+      expect(indexOfArgs(cmd.args, '--tmpfsmount', host.ch4pDir)).toBeGreaterThan(bind);
+      expect(indexOfArgs(cmd.args, '--tmpfsmount', host.secrets)).toBeGreaterThan(bind);
+      expect(indexOfArgs(cmd.args, '--bindmount_ro', `/dev/null:${host.envFile}`)).toBeGreaterThan(bind);
+      expect(cmd.args.filter((arg) => arg.endsWith('missing'))).toEqual([]);
+    } finally {
+      host.cleanup();
+    }
+  });
+
+  it('keeps the host network when enabled', async () => {
+    const cmd = await createSandboxBackend({ backend: 'nsjail', network: true }).prepare(req);
+    expect(cmd.args).toContain('--disable_clone_newnet');
+  });
+});
+
+describe('DockerSandbox', () => {
+  it('starts a per-session container and execs into it', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('No such object'))
+      .mockResolvedValueOnce('abc123\n');
+    const sandbox = new DockerSandbox({ backend: 'docker', memoryMb: 1024, cpus: 1.5 }, run);
+
+    const cmd = await sandbox.prepare(req);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    const runArgs = run.mock.calls[1]![1] as string[];
+    expect(runArgs.slice(0, 5)).toEqual(['run', '-d', '--init', '--name', 'ch4p-sbx-sess-1']);
+    expect(runArgs).toContain('--read-only');
+    expect(flag(runArgs, '--network')).toBe('none');
+    expect(flag(runArgs, '--memory')).toBe('1024m');
+    expect(flag(runArgs, '--cpus')).toBe('1.5');
+    expect(flag(runArgs, '--cap-drop')).toBe('ALL');
+    expect(flag(runArgs, '-v')).toBe('/work/project:/work/project');
+    expect(runArgs.slice(-3)).toEqual(['debian:bookworm-slim', 'sleep', 'infinity']);
+
+    expect(cmd.file).toBe('docker');
+    expect(cmd.args).toEqual([
+      'exec', '-w', '/work/project/src', 'ch4p-sbx-sess-1',
+      'timeout', '-s', 'KILL', '35', 'bash', '-c', 'ls -la',
+    ]);
+  });
+
+  it('reuses a running container and restarts a stopped one', async () => {
+    const run = vi.fn().mockResolvedValueOnce('true\n');
+    await new DockerSandbox({ backend: 'docker' }, run).prepare(req);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    const stopped = vi.fn().mockResolvedValueOnce('false\n').mockResolvedValueOnce('');
+    await new DockerSandbox({ backend: 'docker' }, stopped).prepare(req);
+    expect(stopped.mock.calls[1]![1]).toEqual(['start', 'ch4p-sbx-sess-1']);
+  });
+
+  it('tolerates a container created concurrently', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('No such object'))
+      .mockRejectedValueOnce(new Error('Conflict. The container name "/ch4p-sbx-sess-1" is already in use'));
+
+    await expect(new DockerSandbox({ backend: 'docker' }, run).prepare(req)).resolves.toBeDefined();
+  });
+
+  it('reports a container that fails to start', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('No such object'))
+      .mockRejectedValueOnce(new Error('Cannot connect to the Docker daemon'));
+
+    await expect(new DockerSandbox({ backend: 'docker' }, run).prepare(req))
+      .rejects.toThrow(/Could not start sandbox container: Cannot connect/);
+  });
+
+  it('runs a fresh container per command when not persistent', async () => {
+    const run = vi.fn();
+    const cmd = await new DockerSandbox(
+      { backend: 'docker', persistent: false, network: true, image: 'node:22' },
+      run,
+    ).prepare(req);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(cmd.args.slice(0, 2)).toEqual(['run', '--rm']);
+    expect(cmd.args).not.toContain('--network');
+    expect(flag(cmd.args, '-w')).toBe('/work/project/src');
+    expect(cmd.args).toContain('node:22');
+  });
+
+  it('rejects a working directory outside the workspace', async () => {
+    const sandbox = new DockerSandbox({ backend: 'docker' }, vi.fn());
+    await expect(sandbox.prepare({ ...req, cwd: '/etc' })).rejects.toThrow(/outside the sandbox workspace/);
+  });
+});
+
+describe('removeSandboxContainers', () => {
+  it('removes the containers labelled with this process', async () => {
+    const run = vi.fn().mockResolvedValueOnce('abc\ndef\n').mockResolvedValueOnce('');
+
+    expect(await removeSandboxContainers(run)).toBe(2);
+    expect(run.mock.calls[0]![1]).toEqual(['ps', '-aq', '--filter', `label=ch4p.sandbox=${process.pid}`]);
+    expect(run.mock.calls[1]![1]).toEqual(['rm', '-f', 'abc', 'def']);
+  });
+
+  it('does nothing when there are no containers', async () => {
+    const run = vi.fn().mockResolvedValueOnce('');
+
+    expect(await removeSandboxContainers(run)).toBe(0);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Sandbox backends — where the bash tool runs its commands.
+ *
+ * The security policy decides whether a command may run at all; a sandbox
+ * limits what it can do once it does. Each backend turns a command into
+ * the process to spawn:
+ *
+ *   host    bash -c on the host, as before. No isolation.
+ *   bwrap   bubblewrap namespaces: read-only root, writable workspace,
+ *           private /tmp, no network unless enabled. $HOME and the
+ *           config's hiddenPaths are covered by empty mounts, so the
+ *           workspace is the only part of the home directory left visible.
+ *   nsjail  the same layout under nsjail, with rlimit and CPU caps.
+ *   docker  a container with a read-only root and the workspace mounted
+ *           at the same path. By default one container is kept per session
+ *           and each command is exec'd into it, so background processes
+ *           and files in /tmp survive between commands.
+ *
+ * Sandboxed commands get a minimal environment rather than the host's, so
+ * provider keys and other secrets in process.env don't leak into them.
+ */
+
+import { execFile } from 'node:child_process';
+import { realpath, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { relative, isAbsolute } from 'node:path';
+import type { SandboxBackendName, SandboxConfig } from '@ch4p/core';
+import { ToolError } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A command to run inside the sandbox. */
+export interface SandboxRequest {
+  command: string;
+  /** Directory the command runs in. */
+  cwd: string;
+  /** The session workspace; the only writable path inside the sandbox. */
+  workspace: string;
+  sessionId: string;
+  timeoutMs: number;
+}
+
+/** The process to spawn for a {@link SandboxRequest}. */
+export interface SandboxCommand {
+  file: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+export interface SandboxBackend {
+  readonly name: SandboxBackendName;
+  prepare(req: SandboxRequest): Promise<SandboxCommand>;
+}
+
+/** Runs a CLI (docker) and resolves with its stdout. Injectable for tests. */
+export type CommandRunner = (file: string, args: string[]) => Promise<string>;
+
+const DEFAULT_IMAGE = 'debian:bookworm-slim';
+const DEFAULT_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+const CONTAINER_LABEL = 'ch4p.sandbox';
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the backend for a sandbox config. No config means host.
+ */
+export function createSandboxBackend(config?: SandboxConfig, run: CommandRunner = runCommand): SandboxBackend {
+  switch (config?.backend ?? 'host') {
+    case 'host':
+      return new HostSandbox();
+    case 'bwrap':
+      return new BubblewrapSandbox(config!);
+    case 'nsjail':
+      return new NsjailSandbox(config!);
+    case 'docker':
+      return new DockerSandbox(config!, run);
+    default:
+      throw new ToolError(`Unknown sandbox backend: ${config!.backend}`, 'bash');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export class HostSandbox implements SandboxBackend {
+  readonly name = 'host' as const;
+
+  async prepare(req: SandboxRequest): Promise<SandboxCommand> {
+    return { file: 'bash', args: ['-c', req.command], env: { ...process.env } };
+  }
+}
+
+export class BubblewrapSandbox implements SandboxBackend {
+  readonly name = 'bwrap' as const;
+
+  constructor(private readonly config: SandboxConfig) {}
+
+  async prepare(req: SandboxRequest): Promise<SandboxCommand> {
+    const hidden = await hiddenMounts(req.workspace, this.config.hiddenPaths);
+    const hide = (m: HiddenMount) => m.dir ? ['--tmpfs', m.path] : ['--ro-bind', '/dev/null', m.path];
+    const args = [
+      '--ro-bind', '/', '/',
+      '--dev', '/dev',
+      '--proc', '/proc',
+      '--tmpfs', '/tmp',
+      ...hidden.outer.flatMap(hide),
+      '--bind', req.workspace, req.workspace,
+      ...hidden.inner.flatMap(hide),
+      '--chdir', req.cwd,
+      '--unshare-all',
+      ...(this.config.network ? ['--share-net'] : []),
+      '--die-with-parent',
+      '--new-session',
+      '--',
+      'bash', '-c', withMemoryLimit(req.command, this.config.memoryMb),
+    ];
+    return { file: 'bwrap', args, env: sandboxEnv(req.workspace) };
+  }
+}
+
+export class NsjailSandbox implements SandboxBackend {
+  readonly name = 'nsjail' as const;
+
+  constructor(private readonly config: SandboxConfig) {}
+
+  async prepare(req: SandboxRequest): Promise<SandboxCommand> {
+    const env = sandboxEnv(req.workspace);
+    const hidden = await hiddenMounts(req.workspace, this.config.hiddenPaths);
+    const hide = (m: HiddenMount) => m.dir ? ['--tmpfsmount', m.path] : ['--bindmount_ro', `/dev/null:${m.path}`];
+    const args = [
+      '--mode', 'o',
+      '--quiet',
+      '--bindmount_ro', '/',
+      ...hidden.outer.flatMap(hide),
+      '--bindmount', req.workspace,
+      ...hidden.inner.flatMap(hide),
+      '--tmpfsmount', '/tmp',
+      '--cwd', req.cwd,
+      '--time_limit', String(Math.ceil(req.timeoutMs / 1000)),
+      ...(this.config.network ? ['--disable_clone_newnet'] : []),
+      // nsjail's own rlimit defaults (1 MiB files, 32 fds) break ordinary builds.
+      '--rlimit_fsize', 'soft',
+      '--rlimit_nofile', 'soft',
+      '--rlimit_as', this.config.memoryMb !== undefined ? String(this.config.memoryMb) : 'soft',
+      ...(this.config.cpus !== undefined ? ['--max_cpus', String(Math.max(1, Math.floor(this.config.cpus)))] : []),
+      ...Object.entries(env).flatMap(([key, value]) => ['--env', `${key}=${value}`]),
+      '--',
+      '/bin/bash', '-c', req.command,
+    ];
+    return { file: 'nsjail', args, env };
+  }
+}
+
+export class DockerSandbox implements SandboxBackend {
+  readonly name = 'docker' as const;
+
+  constructor(
+    private readonly config: SandboxConfig,
+    private readonly run: CommandRunner = runCommand,
+  ) {}
+
+  async prepare(req: SandboxRequest): Promise<SandboxCommand> {
+    if (!isWithin(req.workspace, req.cwd)) {
+      throw new ToolError(
+        `Working directory ${req.cwd} is outside the sandbox workspace ${req.workspace}.`,
+        'bash',
+      );
+    }
+
+    // Killing the docker client doesn't reliably kill the process inside
+    // the container, so the command carries its own deadline.
+    const command = [
+      'timeout', '-s', 'KILL', String(Math.ceil(req.timeoutMs / 1000) + 5),
+      'bash', '-c', req.command,
+    ];
+
+    if (this.config.persistent === false) {
+      return {
+        file: 'docker',
+        args: ['run', '--rm', ...this.containerArgs(req), '-w', req.cwd, this.image, ...command],
+        env: { ...process.env },
+      };
+    }
+
+    const name = containerName(req.sessionId);
+    await this.ensureContainer(name, req);
+    return {
+      file: 'docker',
+      args: ['exec', '-w', req.cwd, name, ...command],
+      env: { ...process.env },
+    };
+  }
+
+  private get image(): string {
+    return this.config.image ?? DEFAULT_IMAGE;
+  }
+
+  /** Isolation flags shared by one-off and per-session containers. */
+  private containerArgs(req: SandboxRequest): string[] {
+    const args = [
+      '--label', `${CONTAINER_LABEL}=${process.pid}`,
+      '--read-only',
+      '--tmpfs', '/tmp',
+      '--cap-drop', 'ALL',
+      '--security-opt', 'no-new-privileges',
+      '-v', `${req.workspace}:${req.workspace}`,
+      '-e', `HOME=${req.workspace}`,
+    ];
+    if (!this.config.network) args.push('--network', 'none');
+    if (this.config.memoryMb !== undefined) args.push('--memory', `${this.config.memoryMb}m`);
+    if (this.config.cpus !== undefined) args.push('--cpus', String(this.config.cpus));
+    if (typeof process.getuid === 'function' && typeof process.getgid === 'function') {
+      args.push('--user', `${process.getuid()}:${process.getgid()}`);
+    }
+    return args;
+  }
+
+  /** Start the session's container unless it is already running. */
+  private async ensureContainer(name: string, req: SandboxRequest): Promise<void> {
+    let state: string | undefined;
+    try {
+      state = (await this.run('docker', ['inspect', '-f', '{{.State.Running}}', name])).trim();
+    } catch {
+      // No such container yet.
+    }
+
+    if (state === 'true') return;
+    if (state === 'false') {
+      await this.run('docker', ['start', name]);
+      return;
+    }
+
+    try {
+      await this.run('docker', [
+        'run', '-d', '--init', '--name', name,
+        ...this.containerArgs(req),
+        this.image, 'sleep', 'infinity',
+      ]);
+    } catch (err) {
+      // Another command in the same session may have created it first.
+      if (!/already in use/i.test((err as Error).message)) {
+        throw new ToolError(`Could not start sandbox container: ${(err as Error).message}`, 'bash');
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Cleanup
+// ---------------------------------------------------------------------------
+
+/**
+ * Remove the per-session containers started by this process. Call on
+ * shutdown when the docker backend is in use. Returns how many were removed.
+ */
+export async function removeSandboxContainers(run: CommandRunner = runCommand): Promise<number> {
+  const ids = (await run('docker', ['ps', '-aq', '--filter', `label=${CONTAINER_LABEL}=${process.pid}`]))
+    .split('\n')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (ids.length > 0) {
+    await run('docker', ['rm', '-f', ...ids]);
+  }
+  return ids.length;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Environment for namespace sandboxes: just enough for a working shell. */
+function sandboxEnv(workspace: string): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env['PATH'] ?? DEFAULT_PATH,
+    HOME: workspace,
+    LANG: process.env['LANG'] ?? 'C.UTF-8',
+    TERM: 'dumb',
+  };
+}
+
+/** A host path to cover with an empty tmpfs (directories) or /dev/null (files). */
+interface HiddenMount {
+  path: string;
+  dir: boolean;
+}
+
+/**
+ * The paths a namespace sandbox hides: $HOME plus `hiddenPaths`, resolved
+ * and parents first. `outer` holds those containing the workspace, to be
+ * mounted before it is bound back in; `inner` the rest, mounted after so
+ * the workspace bind can't uncover them. Missing paths are skipped.
+ */
+async function hiddenMounts(
+  workspace: string,
+  hiddenPaths: string[] = [],
+): Promise<{ outer: HiddenMount[]; inner: HiddenMount[] }> {
+  const mounts = new Map<string, HiddenMount>();
+  for (const path of [homedir(), ...hiddenPaths]) {
+    try {
+      const real = await realpath(path);
+      if (real === '/') continue;
+      mounts.set(real, { path: real, dir: (await stat(real)).isDirectory() });
+    } catch {
+      // Nothing to hide.
+    }
+  }
+  const sorted = [...mounts.values()].sort((a, b) => a.path.length - b.path.length);
+  return {
+    outer: sorted.filter((m) => isWithin(m.path, workspace)),
+    inner: sorted.filter((m) => !isWithin(m.path, workspace)),
+  };
+}
+
+/** bwrap has no resource controls of its own; cap address space from inside. */
+function withMemoryLimit(command: string, memoryMb?: number): string {
+  return memoryMb !== undefined ? `ulimit -v ${memoryMb * 1024} || exit 1\n${command}` : command;
+}
+
+function containerName(sessionId: string): string {
+  return `ch4p-sbx-${sessionId.replace(/[^a-zA-Z0-9_.-]/g, '-')}`;
+}
+
+function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function runCommand(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: 60_000 }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(stderr.trim() || err.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for ScheduleTool — argument validation, delivery targets and per-user job ownership.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { JobSpec, Recipient, ScheduledJob, ToolContext } from '@ch4p/core';
+import { ToolError } from '@ch4p/core';
+import { ScheduleTool } from './schedule.js';
+import type { JobScheduler, ScheduleToolContext } from './schedule.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** In-memory stand-in for the gateway Scheduler. */
+function makeScheduler(): JobScheduler & { jobs: Map<string, ScheduledJob> } {
+  const jobs = new Map<string, ScheduledJob>();
+  return {
+    jobs,
+    addJob(spec: JobSpec, createdBy?: string): ScheduledJob {
+      if (spec.schedule === '0 99 * * *') throw new Error('Invalid cron expression');
+      const at = typeof spec.at === 'string' ? new Date(spec.at) : spec.at;
+      const job: ScheduledJob = {
+        ...spec,
+        id: spec.id ?? spec.name,
+        at,
+        enabled: true,
+        createdAt: new Date(),
+        createdBy,
+        nextRunAt: at ?? new Date(Date.now() + 60_000),
+      };
+      jobs.set(job.id, job);
+      return job;
+    },
+    listJobs: () => [...jobs.values()],
+    removeJob: (id: string) => jobs.delete(id),
+  };
+}
+
+function makeContext(scheduler?: JobScheduler, target?: Recipient): ScheduleToolContext {
+  return {
+    sessionId: 'test-session',
+    cwd: '/tmp',
+    securityPolicy: {} as ToolContext['securityPolicy'],
+    abortSignal: new AbortController().signal,
+    onProgress: () => {},
+    scheduler,
+    scheduleTarget: target,
+  };
+}
+
+const alice: Recipient = { channelId: 'telegram', userId: 'alice' };
+const bob: Recipient = { channelId: 'telegram', userId: 'bob' };
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ScheduleTool', () => {
+  const tool = new ScheduleTool();
+
+  it('creates a reminder delivered to the current conversation', async () => {
+    const scheduler = makeScheduler();
+    const result = await tool.execute(
+      { action: 'create', at: tomorrow, message: 'Remind the user to call their mother.' },
+      makeContext(scheduler, alice),
+    );
+
+    expect(result.success).toBe(true);
+    const [job] = scheduler.listJobs();
+    expect(job).toMatchObject({ target: alice, userId: 'alice', createdBy: 'telegram:alice' });
+    expect(job!.id).toMatch(/^job-/);
+    expect(result.output).toContain(job!.id);
+  });
+
+  it('converts every_minutes to milliseconds', async () => {
+    const scheduler = makeScheduler();
+    await tool.execute({ action: 'create', every_minutes: 30, message: 'Check the build.' }, makeContext(scheduler, alice));
+    expect(scheduler.listJobs()[0]!.everyMs).toBe(1_800_000);
+  });
+
+  it('only lists and cancels the caller\'s own jobs', async () => {
+    const scheduler = makeScheduler();
+    await tool.execute({ action: 'create', at: tomorrow, message: 'Alice job' }, makeContext(scheduler, alice));
+    const id = scheduler.listJobs()[0]!.id;
+
+    const bobList = await tool.execute({ action: 'list' }, makeContext(scheduler, bob));
+    expect(bobList.output).toBe('No scheduled jobs.');
+
+    const bobCancel = await tool.execute({ action: 'cancel', id }, makeContext(scheduler, bob));
+    expect(bobCancel.success).toBe(false);
+    expect(scheduler.jobs.has(id)).toBe(true);
+
+    const aliceCancel = await tool.execute({ action: 'cancel', id }, makeContext(scheduler, alice));
+    expect(aliceCancel.success).toBe(true);
+    expect(scheduler.jobs.size).toBe(0);
+  });
+
+  it('rejects past times, other channels and invalid schedules', async () => {
+    const scheduler = makeScheduler();
+    const ctx = makeContext(scheduler, alice);
+
+    const past = await tool.execute({ action: 'create', at: '2020-01-01T09:00:00Z', message: 'x' }, ctx);
+    expect(past.error).toMatch(/in the past/);
+
+    const other = await tool.execute({ action: 'create', at: tomorrow, channel: 'discord', message: 'x' }, ctx);
+    expect(other.error).toMatch(/current conversation/);
+
+    const bad = await tool.execute({ action: 'create', cron: '0 99 * * *', message: 'x' }, ctx);
+    expect(bad.error).toMatch(/Invalid cron/);
+
+    expect(scheduler.jobs.size).toBe(0);
+  });
+
+  it('delivers to a private chat on a linked account', async () => {
+    const scheduler = makeScheduler();
+    const ctx = { ...makeContext(scheduler, { ...alice, groupId: 'family' }), linkedTargets: [{ channelId: 'discord', userId: 'a-1' }] };
+
+    const result = await tool.execute({ action: 'create', at: tomorrow, channel: 'discord', message: 'x' }, ctx);
+
+    expect(result.success).toBe(true);
+    expect(scheduler.listJobs()[0]).toMatchObject({
+      target: { channelId: 'discord', userId: 'a-1' },
+      userId: 'a-1',
+      createdBy: 'telegram:alice',
+    });
+
+    const unlinked = await tool.execute({ action: 'create', at: tomorrow, channel: 'slack', message: 'x' }, ctx);
+    expect(unlinked.error).toMatch(/linked accounts \(telegram, discord\)/);
+  });
+
+  it('refuses recurring jobs that repeat more often than every 15 minutes', () => {
+    const create = (timing: Record<string, unknown>) => tool.validate({ action: 'create', message: 'x', ...timing }).valid;
+
+    expect(create({ every_minutes: 1 })).toBe(false);
+    expect(create({ every_minutes: 15 })).toBe(true);
+    expect(create({ cron: '* * * * *' })).toBe(false);
+    expect(create({ cron: '*/5 9 * * *' })).toBe(false);
+    expect(create({ cron: '0,50 * * * *' })).toBe(false);
+    expect(create({ cron: '1-59 * * * *' })).toBe(false);
+    expect(create({ cron: '*/20 * * * *' })).toBe(true);
+    expect(create({ cron: '0,30 9-17 * * 1-5' })).toBe(true);
+    expect(create({ cron: '0 9 * * *' })).toBe(true);
+  });
+
+  it('requires exactly one timing for create', () => {
+    expect(tool.validate({ action: 'create', message: 'x' }).valid).toBe(false);
+    expect(tool.validate({ action: 'create', message: 'x', at: tomorrow, cron: '* * * * *' }).valid).toBe(false);
+    expect(tool.validate({ action: 'cancel' }).valid).toBe(false);
+    expect(tool.validate({ action: 'list' }).valid).toBe(true);
+  });
+
+  it('throws ToolError when no scheduler is available', async () => {
+    await expect(tool.execute({ action: 'list' }, makeContext())).rejects.toThrow(ToolError);
+  });
+});
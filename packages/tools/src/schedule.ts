@@ -0,0 +1,298 @@
+/**
+ * Schedule tool — lets the agent create, list and cancel scheduled jobs.
+ *
+ * Jobs created here belong to the user the agent is talking to: they are
+ * delivered back to that user's conversation, or a private chat on one of
+ * their linked accounts, when they fire, and a user can only list and
+ * cancel their own. Scheduled runs skip the inbound rate limits, so
+ * recurring jobs may not repeat more often than every MIN_INTERVAL_MINUTES.
+ * The job's message is run through the agent at the scheduled time, so it
+ * should be written as an instruction ("Remind the user to call their
+ * mother"), not as the reminder text alone.
+ *
+ * Requires the gateway scheduler, injected into the tool context.
+ */
+
+import type {
+  ITool,
+  ToolContext,
+  ToolResult,
+  ValidationResult,
+  JSONSchema7,
+  JobSpec,
+  Recipient,
+  ScheduledJob,
+} from '@ch4p/core';
+import { ToolError, generateId } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal interface for the job scheduler.
+ * Uses duck typing so we don't create a dependency on @ch4p/gateway.
+ */
+export interface JobScheduler {
+  addJob(spec: JobSpec, createdBy?: string): ScheduledJob;
+  listJobs(): ScheduledJob[];
+  removeJob(id: string): boolean;
+}
+
+/**
+ * Extended ToolContext that includes the scheduler, the conversation the
+ * agent is currently replying to and the user's other linked identities.
+ */
+export interface ScheduleToolContext extends ToolContext {
+  scheduler?: JobScheduler;
+  scheduleTarget?: Recipient;
+  /** Private chats with the user's linked accounts on other channels. */
+  linkedTargets?: Recipient[];
+}
+
+interface ScheduleArgs {
+  action: 'create' | 'list' | 'cancel';
+  message?: string;
+  name?: string;
+  at?: string;
+  cron?: string;
+  every_minutes?: number;
+  timezone?: string;
+  channel?: string;
+  id?: string;
+}
+
+/** Jobs a single user may have scheduled at once. */
+const MAX_JOBS_PER_USER = 50;
+
+/** Shortest repeat interval for recurring jobs, in minutes. */
+const MIN_INTERVAL_MINUTES = 15;
+
+// ---------------------------------------------------------------------------
+// Tool
+// ---------------------------------------------------------------------------
+
+export class ScheduleTool implements ITool {
+  readonly name = 'schedule';
+  readonly description =
+    'Schedule a message to be run through the agent later and delivered to ' +
+    'this conversation or another channel the user has linked: a one-shot ' +
+    'reminder ("at"), a recurring cron job ("cron") or a fixed interval ' +
+    `("every_minutes"), repeating at most every ${MIN_INTERVAL_MINUTES} minutes. The message is an ` +
+    'instruction to yourself, e.g. "Remind the user to call their mother." ' +
+    'Also lists and cancels the user\'s scheduled jobs.';
+
+  readonly weight = 'lightweight' as const;
+  readonly actionType = 'write' as const;
+
+  readonly parameters: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['create', 'list', 'cancel'],
+        description: 'What to do.',
+      },
+      message: {
+        type: 'string',
+        description: 'create: the instruction to run when the job fires.',
+        minLength: 1,
+      },
+      name: {
+        type: 'string',
+        description: 'create: a short label for the job. Defaults to the start of the message.',
+        maxLength: 100,
+      },
+      at: {
+        type: 'string',
+        description:
+          'create: one-shot time as ISO 8601, e.g. "2026-03-02T09:00". ' +
+          'Without a UTC offset it is read in "timezone".',
+      },
+      cron: {
+        type: 'string',
+        description:
+          'create: 5-field cron expression (minute hour day-of-month month day-of-week). ' +
+          `The minute field is a number, a list or "*/N", with runs at least ${MIN_INTERVAL_MINUTES} minutes apart.`,
+      },
+      every_minutes: {
+        type: 'number',
+        description: `create: repeat every N minutes (at least ${MIN_INTERVAL_MINUTES}).`,
+        minimum: MIN_INTERVAL_MINUTES,
+      },
+      timezone: {
+        type: 'string',
+        description: 'create: IANA time zone for "at" and "cron", e.g. "Europe/Berlin". Defaults to the server\'s.',
+      },
+      channel: {
+        type: 'string',
+        description:
+          'create: channel to deliver to. Defaults to the current conversation; another channel ' +
+          'delivers to a private chat with the user\'s account linked there.',
+      },
+      id: {
+        type: 'string',
+        description: 'cancel: id of the job to cancel (from list).',
+      },
+    },
+    required: ['action'],
+    additionalProperties: false,
+  };
+
+  validate(args: unknown): ValidationResult {
+    if (typeof args !== 'object' || args === null) {
+      return { valid: false, errors: ['Arguments must be an object.'] };
+    }
+
+    const { action, message, at, cron, every_minutes, id } = args as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (action !== 'create' && action !== 'list' && action !== 'cancel') {
+      errors.push('action must be one of: create, list, cancel.');
+    }
+
+    if (action === 'create') {
+      if (typeof message !== 'string' || message.trim().length === 0) {
+        errors.push('message must be a non-empty string.');
+      }
+      const timings = [at, cron, every_minutes].filter((v) => v !== undefined).length;
+      if (timings !== 1) {
+        errors.push('Provide exactly one of at, cron or every_minutes.');
+      }
+      if (every_minutes !== undefined && (typeof every_minutes !== 'number' || !(every_minutes >= MIN_INTERVAL_MINUTES))) {
+        errors.push(`every_minutes must be a number of at least ${MIN_INTERVAL_MINUTES}.`);
+      }
+      if (cron !== undefined && (typeof cron !== 'string' || !(cronMinuteGap(cron) >= MIN_INTERVAL_MINUTES))) {
+        errors.push(`cron must run at most every ${MIN_INTERVAL_MINUTES} minutes, e.g. "0 9 * * *" or "*/30 * * * *".`);
+      }
+    }
+
+    if (action === 'cancel' && (typeof id !== 'string' || id.length === 0)) {
+      errors.push('id must be a non-empty string.');
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const validation = this.validate(args);
+    if (!validation.valid) {
+      return {
+        success: false,
+        output: '',
+        error: `Invalid arguments: ${validation.errors!.join(' ')}`,
+      };
+    }
+
+    const { scheduler, scheduleTarget: target, linkedTargets = [] } = context as ScheduleToolContext;
+    if (!scheduler || !target) {
+      throw new ToolError(
+        'Scheduling is not available. Enable the gateway scheduler to use the schedule tool.',
+        this.name,
+      );
+    }
+
+    const owner = `${target.channelId}:${target.userId ?? ''}`;
+    const owned = scheduler.listJobs().filter((job) => job.createdBy === owner);
+    const a = args as ScheduleArgs;
+
+    if (a.action === 'list') {
+      return {
+        success: true,
+        output: owned.length > 0
+          ? owned.map(describeJob).join('\n')
+          : 'No scheduled jobs.',
+        metadata: { count: owned.length },
+      };
+    }
+
+    if (a.action === 'cancel') {
+      if (!owned.some((job) => job.id === a.id) || !scheduler.removeJob(a.id!)) {
+        return { success: false, output: '', error: `No scheduled job with id "${a.id}".` };
+      }
+      return { success: true, output: `Cancelled job ${a.id}.`, metadata: { id: a.id } };
+    }
+
+    const deliverTo = !a.channel || a.channel === target.channelId
+      ? target
+      : linkedTargets.find((linked) => linked.channelId === a.channel);
+    if (!deliverTo) {
+      const channels = [target.channelId, ...linkedTargets.map((linked) => linked.channelId)];
+      return {
+        success: false,
+        output: '',
+        error: `Can only deliver to the current conversation or the user's linked accounts (${channels.join(', ')}), not "${a.channel}".`,
+      };
+    }
+    if (owned.length >= MAX_JOBS_PER_USER) {
+      return {
+        success: false,
+        output: '',
+        error: `Too many scheduled jobs (${MAX_JOBS_PER_USER}). Cancel some first.`,
+      };
+    }
+
+    const message = a.message!.trim();
+    let job: ScheduledJob;
+    try {
+      job = scheduler.addJob({
+        id: `job-${generateId(10)}`,
+        name: a.name?.trim() || message.slice(0, 40),
+        message,
+        at: a.at,
+        schedule: a.cron,
+        everyMs: a.every_minutes !== undefined ? Math.round(a.every_minutes * 60_000) : undefined,
+        timezone: a.timezone,
+        userId: deliverTo.userId,
+        target: { ...deliverTo },
+      }, owner);
+    } catch (err) {
+      return { success: false, output: '', error: `Could not schedule job: ${(err as Error).message}` };
+    }
+
+    if (!job.nextRunAt || job.nextRunAt.getTime() < Date.now() - 60_000) {
+      scheduler.removeJob(job.id);
+      return { success: false, output: '', error: 'That time is in the past.' };
+    }
+
+    return {
+      success: true,
+      output: `Scheduled. ${describeJob(job)}`,
+      metadata: { id: job.id, nextRunAt: job.nextRunAt.toISOString() },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function describeJob(job: ScheduledJob): string {
+  const timing = job.schedule !== undefined
+    ? `cron "${job.schedule}"`
+    : job.everyMs !== undefined
+      ? `every ${job.everyMs / 60_000} min`
+      : 'once';
+  const zone = job.timezone ? ` ${job.timezone}` : '';
+  const next = job.nextRunAt ? job.nextRunAt.toISOString() : 'never';
+  return `[${job.id}] ${job.name} — ${timing}${zone}, next run ${next}${job.enabled ? '' : ' (disabled)'}`;
+}
+
+/**
+ * Shortest gap in minutes between the minute values a cron expression runs
+ * at, wrapping into the next hour. The minute field may be a number, a
+ * comma list of numbers or "*\/N"; anything else reads as 0.
+ */
+function cronMinuteGap(expression: string): number {
+  const field = expression.trim().split(/\s+/)[0] ?? '';
+  const step = Number(/^\*\/(\d+)$/.exec(field)?.[1] ?? 0);
+  const minutes = step > 0
+    ? Array.from({ length: Math.ceil(60 / step) }, (_, i) => i * step)
+    : field.split(',').map((part) => (/^\d+$/.test(part) ? Number(part) : NaN));
+  if (minutes.length === 0 || minutes.some((m) => !(m >= 0 && m < 60))) return 0;
+
+  const sorted = [...new Set(minutes)].sort((x, y) => x - y);
+  let gap = sorted[0]! + 60 - sorted[sorted.length - 1]!;
+  for (let i = 1; i < sorted.length; i++) gap = Math.min(gap, sorted[i]! - sorted[i - 1]!);
+  return gap;
+}
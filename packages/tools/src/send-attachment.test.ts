@@ -0,0 +1,126 @@
+/**
+ * Tests for SendAttachmentTool -- path policy, channel size limits and the
+ * attachments queued for the reply.
+ */
+
+import { vi } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Attachment, ISecurityPolicy } from '@ch4p/core';
+import { SecurityError, ToolError } from '@ch4p/core';
+import { SendAttachmentTool } from './send-attachment.js';
+import type { SendAttachmentToolContext } from './send-attachment.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createContext(cwd: string, overrides: Partial<SendAttachmentToolContext> = {}): SendAttachmentToolContext {
+  return {
+    sessionId: 'test-session',
+    cwd,
+    securityPolicy: {
+      validatePath: vi.fn().mockReturnValue({ allowed: true }),
+    } as unknown as ISecurityPolicy,
+    abortSignal: new AbortController().signal,
+    onProgress: vi.fn(),
+    outboundAttachments: [],
+    maxAttachmentBytes: 1024,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SendAttachmentTool', () => {
+  const tool = new SendAttachmentTool();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ch4p-attach-'));
+    await writeFile(join(dir, 'chart.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    await writeFile(join(dir, 'big.csv'), Buffer.alloc(2048, 'a'));
+    await mkdir(join(dir, 'out'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('validates arguments', () => {
+    expect(tool.validate({ path: 'a.txt' }).valid).toBe(true);
+    expect(tool.validate({ path: '' }).valid).toBe(false);
+    expect(tool.validate({ path: 'a.txt', filename: '../x' }).valid).toBe(false);
+  });
+
+  it('queues the file for the reply', async () => {
+    const ctx = createContext(dir);
+
+    const result = await tool.execute({ path: 'chart.png' }, ctx);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('Attached chart.png');
+    expect(ctx.outboundAttachments).toEqual<Attachment[]>([{
+      type: 'image',
+      data: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      mimeType: 'image/png',
+      filename: 'chart.png',
+    }]);
+  });
+
+  it('renames the attachment and types it from the new name', async () => {
+    const ctx = createContext(dir);
+
+    await tool.execute({ path: 'chart.png', filename: 'Q3 revenue.png' }, ctx);
+
+    expect(ctx.outboundAttachments![0]!.filename).toBe('Q3 revenue.png');
+  });
+
+  it('enforces the channel size limit', async () => {
+    const ctx = createContext(dir);
+
+    const result = await tool.execute({ path: 'big.csv' }, ctx);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/2\.0 KB; this channel accepts attachments up to 1\.0 KB/);
+    expect(ctx.outboundAttachments).toHaveLength(0);
+  });
+
+  it('checks the path against the security policy', async () => {
+    const ctx = createContext(dir, {
+      securityPolicy: {
+        validatePath: vi.fn().mockReturnValue({ allowed: false, reason: 'outside workspace' }),
+      } as unknown as ISecurityPolicy,
+    });
+
+    await expect(tool.execute({ path: '/etc/passwd' }, ctx)).rejects.toThrow(SecurityError);
+    expect(ctx.securityPolicy.validatePath).toHaveBeenCalledWith('/etc/passwd', 'read');
+  });
+
+  it('reports missing files and directories', async () => {
+    const ctx = createContext(dir);
+
+    expect((await tool.execute({ path: 'nope.pdf' }, ctx)).error).toMatch(/File not found/);
+    expect((await tool.execute({ path: 'out' }, ctx)).error).toMatch(/not a file/);
+  });
+
+  it('fails when the channel cannot take attachments', async () => {
+    const ctx = createContext(dir, { outboundAttachments: undefined });
+
+    await expect(tool.execute({ path: 'chart.png' }, ctx)).rejects.toThrow(ToolError);
+  });
+
+  it('caps the number of attachments per reply', async () => {
+    const ctx = createContext(dir);
+    for (let i = 0; i < 10; i++) {
+      expect((await tool.execute({ path: 'chart.png' }, ctx)).success).toBe(true);
+    }
+
+    const result = await tool.execute({ path: 'chart.png' }, ctx);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/At most 10/);
+  });
+});
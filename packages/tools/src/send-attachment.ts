@@ -0,0 +1,216 @@
+/**
+ * SendAttachment tool — attaches a workspace file to the agent's reply.
+ *
+ * The agent writes a file (a report, a chart rendered by a script, an
+ * export) and calls this tool; the file is sent along with the final answer
+ * on the channel the conversation came from. Reads go through the security
+ * policy like file_read, and the size is checked against the channel's
+ * upload limit before anything is queued.
+ *
+ * Requires the gateway to inject the reply's attachment list and the
+ * channel's limit into the tool context.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { basename, extname, resolve } from 'node:path';
+import type {
+  Attachment,
+  ITool,
+  ToolContext,
+  ToolResult,
+  ValidationResult,
+  JSONSchema7,
+} from '@ch4p/core';
+import { SecurityError, ToolError } from '@ch4p/core';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Extended ToolContext carrying the attachments queued for the reply and
+ * the upload limit of the channel it goes to.
+ */
+export interface SendAttachmentToolContext extends ToolContext {
+  outboundAttachments?: Attachment[];
+  maxAttachmentBytes?: number;
+}
+
+interface SendAttachmentArgs {
+  path: string;
+  filename?: string;
+}
+
+/** Files per reply; Discord's per-message cap is the tightest. */
+const MAX_ATTACHMENTS_PER_REPLY = 10;
+
+/** Never hold more than this in memory per file, whatever the channel allows. */
+const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// ---------------------------------------------------------------------------
+// Tool
+// ---------------------------------------------------------------------------
+
+export class SendAttachmentTool implements ITool {
+  readonly name = 'send_attachment';
+  readonly description =
+    'Attach a file from the workspace to your reply, e.g. a report, a CSV ' +
+    'export or a chart you rendered to PNG. The file is sent with your final ' +
+    'answer on the current channel. Write the file first, then attach it.';
+
+  readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
+
+  readonly parameters: JSONSchema7 = {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute or relative path to the file to attach.',
+        minLength: 1,
+      },
+      filename: {
+        type: 'string',
+        description: 'Name the recipient sees. Defaults to the file\'s own name.',
+        maxLength: 255,
+      },
+    },
+    required: ['path'],
+    additionalProperties: false,
+  };
+
+  validate(args: unknown): ValidationResult {
+    if (typeof args !== 'object' || args === null) {
+      return { valid: false, errors: ['Arguments must be an object.'] };
+    }
+
+    const { path, filename } = args as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof path !== 'string' || path.trim().length === 0) {
+      errors.push('path must be a non-empty string.');
+    }
+    if (filename !== undefined && (typeof filename !== 'string' || !/^[^/\\\0]{1,255}$/.test(filename))) {
+      errors.push('filename must be a plain file name without path separators.');
+    }
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  }
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const validation = this.validate(args);
+    if (!validation.valid) {
+      return {
+        success: false,
+        output: '',
+        error: `Invalid arguments: ${validation.errors!.join(' ')}`,
+      };
+    }
+
+    const { outboundAttachments, maxAttachmentBytes } = context as SendAttachmentToolContext;
+    if (!outboundAttachments) {
+      throw new ToolError('This channel cannot receive file attachments.', this.name);
+    }
+    if (outboundAttachments.length >= MAX_ATTACHMENTS_PER_REPLY) {
+      return {
+        success: false,
+        output: '',
+        error: `At most ${MAX_ATTACHMENTS_PER_REPLY} attachments per reply.`,
+      };
+    }
+
+    const { path: filePath, filename } = args as SendAttachmentArgs;
+    const absolutePath = resolve(context.cwd, filePath);
+
+    const pathValidation = context.securityPolicy.validatePath(absolutePath, 'read');
+    if (!pathValidation.allowed) {
+      throw new SecurityError(
+        `Path blocked: ${pathValidation.reason ?? absolutePath}`,
+        { path: absolutePath },
+      );
+    }
+    const resolvedPath = pathValidation.canonicalPath ?? absolutePath;
+
+    let size: number;
+    try {
+      const fileStats = await stat(resolvedPath);
+      if (!fileStats.isFile()) {
+        return { success: false, output: '', error: `Path is not a file: ${resolvedPath}` };
+      }
+      size = fileStats.size;
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      return {
+        success: false,
+        output: '',
+        error: code === 'ENOENT'
+          ? `File not found: ${resolvedPath}`
+          : `Cannot access file: ${(err as Error).message}`,
+      };
+    }
+
+    const limit = Math.min(maxAttachmentBytes ?? MAX_ATTACHMENT_BYTES, MAX_ATTACHMENT_BYTES);
+    if (size > limit) {
+      return {
+        success: false,
+        output: '',
+        error: `File is ${formatBytes(size)}; this channel accepts attachments up to ${formatBytes(limit)}.`,
+      };
+    }
+
+    const data = await readFile(resolvedPath);
+    const name = filename ?? basename(resolvedPath);
+    const mimeType = MIME_TYPES[extname(name).toLowerCase()] ?? 'application/octet-stream';
+    outboundAttachments.push({ type: attachmentType(mimeType), data, mimeType, filename: name });
+
+    return {
+      success: true,
+      output: `Attached ${name} (${formatBytes(data.length)}). It will be sent with your reply.`,
+      metadata: { path: resolvedPath, filename: name, size: data.length, mimeType },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function attachmentType(mimeType: string): Attachment['type'] {
+  // SVG isn't rendered inline by most platforms; send it as a file.
+  if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'file';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
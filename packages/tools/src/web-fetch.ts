@@ -79,6 +79,7 @@ export class WebFetchTool implements ITool {
     'information to focus on in the response.';
 
   readonly weight = 'heavyweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',
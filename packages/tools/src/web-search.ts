@@ -87,6 +87,7 @@ export class WebSearchTool implements ITool {
   // full ToolContext (searchApiKey, searchConfig) is available — the worker
   // context is stripped to sessionId+cwd and would lose the API key.
   readonly weight = 'lightweight' as const;
+  readonly actionType = 'read' as const;
 
   readonly parameters: JSONSchema7 = {
     type: 'object',